@@ -39,6 +39,12 @@ export const RATE_LIMIT_CONFIG = {
   DEFAULT_LIMIT: parseInt(process.env.RATE_LIMIT_DEFAULT_LIMIT || '20', 10),
 };
 
+// Ingest progress stream configuration
+export const INGEST_PROGRESS_CONFIG = {
+  POLL_INTERVAL_MS: parseInt(process.env.INGEST_PROGRESS_POLL_INTERVAL_MS || '2000', 10), // ms between progress polls of a streamed job
+  HEARTBEAT_MS: parseInt(process.env.INGEST_PROGRESS_HEARTBEAT_MS || '15000', 10), // ms; keeps an unchanged stream open
+};
+
 // JWT configuration
 export const JWT_CONFIG = {
   SECRET: process.env.JWT_SECRET || 'your-secret-key',
@@ -1,10 +1,10 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { INestApplication, ValidationPipe, VersioningType } from '@nestjs/common';
+import { HttpStatus, INestApplication, ValidationPipe, VersioningType } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import request from 'supertest';
 import { FastifyAdapter } from '@nestjs/platform-fastify';
 import { CmsController } from './cms.controller';
-import { ProxyService } from '../proxy.service';
+import { ProxyService, UpstreamHttpException } from '../proxy.service';
 import { JwtAuthGuard, RolesGuard } from '@mediamesh/shared';
 
 describe('CmsController (integration)', () => {
@@ -19,6 +19,7 @@ describe('CmsController (integration)', () => {
   beforeEach(async () => {
     const mockProxyService = {
       proxyToCms: jest.fn(),
+      proxyToCmsWithHeaders: jest.fn(),
     };
 
     const moduleFixture: TestingModule = await Test.createTestingModule({
@@ -95,6 +96,22 @@ describe('CmsController (integration)', () => {
     });
   });
 
+  describe('GET /api/v1/cms/programs/:id', () => {
+    it('should forward the CMS ETag', async () => {
+      const mockResponse = { id: '1', title: 'Test Program', version: 2 };
+      (proxyService.proxyToCmsWithHeaders as jest.Mock).mockResolvedValue({
+        status: 200,
+        data: mockResponse,
+        headers: { etag: '"2"' },
+      });
+
+      const response = await request(app.getHttpServer()).get('/api/v1/cms/programs/1').expect(200);
+
+      expect(response.body).toEqual(mockResponse);
+      expect(response.headers.etag).toBe('"2"');
+    });
+  });
+
   describe('POST /api/v1/cms/programs', () => {
     it('should proxy POST request to CMS service', async () => {
       const createDto = { title: 'New Program', description: 'Description' };
@@ -120,32 +137,62 @@ describe('CmsController (integration)', () => {
     it('should proxy PUT request to CMS service', async () => {
       const updateDto = { title: 'Updated Program' };
       const mockResponse = { id: '1', ...updateDto };
-      (proxyService.proxyToCms as jest.Mock).mockResolvedValue(mockResponse);
+      (proxyService.proxyToCmsWithHeaders as jest.Mock).mockResolvedValue({
+        status: 200,
+        data: mockResponse,
+        headers: { etag: '"3"' },
+      });
 
       const response = await request(app.getHttpServer())
         .put('/api/v1/cms/programs/1')
+        .set('If-Match', '"2"')
         .send(updateDto)
         .expect(200);
 
       expect(response.body).toEqual(mockResponse);
-      expect(proxyService.proxyToCms).toHaveBeenCalledWith(
+      expect(response.headers.etag).toBe('"3"');
+      expect(proxyService.proxyToCmsWithHeaders).toHaveBeenCalledWith(
         'PUT',
         '/programs/1',
         updateDto,
-        expect.any(Object),
+        expect.objectContaining({ 'If-Match': '"2"' }),
       );
     });
+
+    it('should return 412 with the current program and its ETag', async () => {
+      const current = { id: '1', title: 'Changed elsewhere', version: 4 };
+      (proxyService.proxyToCmsWithHeaders as jest.Mock).mockRejectedValue(
+        new UpstreamHttpException(
+          { statusCode: 412, message: 'Program 1 has been modified', current },
+          HttpStatus.PRECONDITION_FAILED,
+          { etag: '"4"' },
+        ),
+      );
+
+      const response = await request(app.getHttpServer())
+        .put('/api/v1/cms/programs/1')
+        .set('If-Match', '"2"')
+        .send({ title: 'Stale' })
+        .expect(412);
+
+      expect(response.body.current).toEqual(current);
+      expect(response.headers.etag).toBe('"4"');
+    });
   });
 
   describe('DELETE /api/v1/cms/programs/:id', () => {
     it('should proxy DELETE request to CMS service', async () => {
-      (proxyService.proxyToCms as jest.Mock).mockResolvedValue({});
+      (proxyService.proxyToCmsWithHeaders as jest.Mock).mockResolvedValue({
+        status: 204,
+        data: {},
+        headers: {},
+      });
 
       await request(app.getHttpServer())
         .delete('/api/v1/cms/programs/1')
         .expect(200);
 
-      expect(proxyService.proxyToCms).toHaveBeenCalledWith(
+      expect(proxyService.proxyToCmsWithHeaders).toHaveBeenCalledWith(
         'DELETE',
         '/programs/1',
         null,
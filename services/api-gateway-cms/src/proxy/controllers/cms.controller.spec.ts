@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { CmsController } from './cms.controller';
-import { ProxyService } from '../proxy.service';
+import { HttpStatus } from '@nestjs/common';
+import { ProxyService, UpstreamHttpException } from '../proxy.service';
 import { JwtAuthGuard, RolesGuard } from '@mediamesh/shared';
 
 describe('CmsController', () => {
@@ -15,6 +16,7 @@ describe('CmsController', () => {
   beforeEach(async () => {
     const mockProxyService = {
       proxyToCms: jest.fn(),
+      proxyToCmsWithHeaders: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -44,6 +46,8 @@ describe('CmsController', () => {
     jest.clearAllMocks();
   });
 
+  const createMockReply = () => ({ header: jest.fn() }) as any;
+
   describe('getPrograms', () => {
     it('should proxy GET request to CMS service', async () => {
       const mockResponse = [{ id: '1', title: 'Test Program' }];
@@ -67,22 +71,28 @@ describe('CmsController', () => {
 
   describe('getProgram', () => {
     it('should proxy GET request for specific program', async () => {
-      const mockResponse = { id: '1', title: 'Test Program' };
-      proxyService.proxyToCms.mockResolvedValue(mockResponse);
+      const mockResponse = { id: '1', title: 'Test Program', version: 2 };
+      proxyService.proxyToCmsWithHeaders.mockResolvedValue({
+        status: 200,
+        data: mockResponse,
+        headers: { etag: '"2"' },
+      });
 
       const mockRequest = {
         headers: {},
       } as any;
+      const mockReply = createMockReply();
 
-      const result = await controller.getProgram('1', mockRequest);
+      const result = await controller.getProgram('1', mockRequest, mockReply);
 
       expect(result).toEqual(mockResponse);
-      expect(proxyService.proxyToCms).toHaveBeenCalledWith(
+      expect(proxyService.proxyToCmsWithHeaders).toHaveBeenCalledWith(
         'GET',
         '/programs/1',
         null,
         expect.any(Object),
       );
+      expect(mockReply.header).toHaveBeenCalledWith('ETag', '"2"');
     });
   });
 
@@ -112,39 +122,91 @@ describe('CmsController', () => {
     it('should proxy PUT request to update program', async () => {
       const updateDto = { title: 'Updated Program' };
       const mockResponse = { id: '1', ...updateDto };
-      proxyService.proxyToCms.mockResolvedValue(mockResponse);
+      proxyService.proxyToCmsWithHeaders.mockResolvedValue({
+        status: 200,
+        data: mockResponse,
+        headers: {},
+      });
 
       const mockRequest = {
         headers: {},
       } as any;
 
-      const result = await controller.updateProgram('1', updateDto, mockRequest);
+      const result = await controller.updateProgram('1', updateDto, mockRequest, createMockReply());
 
       expect(result).toEqual(mockResponse);
-      expect(proxyService.proxyToCms).toHaveBeenCalledWith(
+      expect(proxyService.proxyToCmsWithHeaders).toHaveBeenCalledWith(
         'PUT',
         '/programs/1',
         updateDto,
         expect.any(Object),
       );
     });
+
+    it('should forward If-Match and return the new ETag', async () => {
+      const updateDto = { title: 'Updated Program' };
+      proxyService.proxyToCmsWithHeaders.mockResolvedValue({
+        status: 200,
+        data: { id: '1', ...updateDto, version: 3 },
+        headers: { etag: '"3"' },
+      });
+
+      const mockRequest = {
+        headers: { authorization: 'Bearer token', 'if-match': '"2"' },
+      } as any;
+      const mockReply = createMockReply();
+
+      await controller.updateProgram('1', updateDto, mockRequest, mockReply);
+
+      expect(proxyService.proxyToCmsWithHeaders).toHaveBeenCalledWith(
+        'PUT',
+        '/programs/1',
+        updateDto,
+        { Authorization: 'Bearer token', 'If-Match': '"2"' },
+      );
+      expect(mockReply.header).toHaveBeenCalledWith('ETag', '"3"');
+    });
+
+    it('should pass through 412 with the current ETag', async () => {
+      const current = { id: '1', title: 'Changed elsewhere', version: 4 };
+      proxyService.proxyToCmsWithHeaders.mockRejectedValue(
+        new UpstreamHttpException(
+          { statusCode: 412, message: 'Program 1 has been modified', current },
+          HttpStatus.PRECONDITION_FAILED,
+          { etag: '"4"' },
+        ),
+      );
+
+      const mockRequest = {
+        headers: { 'if-match': '"2"' },
+      } as any;
+      const mockReply = createMockReply();
+
+      await expect(
+        controller.updateProgram('1', { title: 'Stale' }, mockRequest, mockReply),
+      ).rejects.toMatchObject({
+        status: HttpStatus.PRECONDITION_FAILED,
+        response: expect.objectContaining({ current }),
+      });
+      expect(mockReply.header).toHaveBeenCalledWith('ETag', '"4"');
+    });
   });
 
   describe('deleteProgram', () => {
     it('should proxy DELETE request to delete program', async () => {
-      proxyService.proxyToCms.mockResolvedValue({});
+      proxyService.proxyToCmsWithHeaders.mockResolvedValue({ status: 204, data: '', headers: {} });
 
       const mockRequest = {
-        headers: {},
+        headers: { 'if-match': '"1"' },
       } as any;
 
-      await controller.deleteProgram('1', mockRequest);
+      await controller.deleteProgram('1', mockRequest, createMockReply());
 
-      expect(proxyService.proxyToCms).toHaveBeenCalledWith(
+      expect(proxyService.proxyToCmsWithHeaders).toHaveBeenCalledWith(
         'DELETE',
         '/programs/1',
         null,
-        expect.any(Object),
+        expect.objectContaining({ 'If-Match': '"1"' }),
       );
     });
   });
@@ -185,22 +247,28 @@ describe('CmsController', () => {
 
   describe('getEpisode', () => {
     it('should proxy GET request for specific episode', async () => {
-      const mockResponse = { id: '1', title: 'Episode 1' };
-      proxyService.proxyToCms.mockResolvedValue(mockResponse);
+      const mockResponse = { id: '1', title: 'Episode 1', version: 1 };
+      proxyService.proxyToCmsWithHeaders.mockResolvedValue({
+        status: 200,
+        data: mockResponse,
+        headers: { etag: '"1"' },
+      });
 
       const mockRequest = {
         headers: {},
       } as any;
+      const mockReply = createMockReply();
 
-      const result = await controller.getEpisode('1', mockRequest);
+      const result = await controller.getEpisode('1', mockRequest, mockReply);
 
       expect(result).toEqual(mockResponse);
-      expect(proxyService.proxyToCms).toHaveBeenCalledWith(
+      expect(proxyService.proxyToCmsWithHeaders).toHaveBeenCalledWith(
         'GET',
         '/episodes/1',
         null,
         expect.any(Object),
       );
+      expect(mockReply.header).toHaveBeenCalledWith('ETag', '"1"');
     });
   });
 
@@ -234,16 +302,20 @@ describe('CmsController', () => {
     it('should proxy PUT request to update episode', async () => {
       const updateDto = { title: 'Updated Episode' };
       const mockResponse = { id: '1', ...updateDto };
-      proxyService.proxyToCms.mockResolvedValue(mockResponse);
+      proxyService.proxyToCmsWithHeaders.mockResolvedValue({
+        status: 200,
+        data: mockResponse,
+        headers: {},
+      });
 
       const mockRequest = {
         headers: {},
       } as any;
 
-      const result = await controller.updateEpisode('1', updateDto, mockRequest);
+      const result = await controller.updateEpisode('1', updateDto, mockRequest, createMockReply());
 
       expect(result).toEqual(mockResponse);
-      expect(proxyService.proxyToCms).toHaveBeenCalledWith(
+      expect(proxyService.proxyToCmsWithHeaders).toHaveBeenCalledWith(
         'PUT',
         '/episodes/1',
         updateDto,
@@ -254,15 +326,15 @@ describe('CmsController', () => {
 
   describe('deleteEpisode', () => {
     it('should proxy DELETE request to delete episode', async () => {
-      proxyService.proxyToCms.mockResolvedValue({});
+      proxyService.proxyToCmsWithHeaders.mockResolvedValue({ status: 204, data: '', headers: {} });
 
       const mockRequest = {
         headers: {},
       } as any;
 
-      await controller.deleteEpisode('1', mockRequest);
+      await controller.deleteEpisode('1', mockRequest, createMockReply());
 
-      expect(proxyService.proxyToCms).toHaveBeenCalledWith(
+      expect(proxyService.proxyToCmsWithHeaders).toHaveBeenCalledWith(
         'DELETE',
         '/episodes/1',
         null,
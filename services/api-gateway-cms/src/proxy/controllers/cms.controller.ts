@@ -8,6 +8,7 @@ import {
   Param,
   Query,
   Req,
+  Res,
   UseGuards,
   UseInterceptors,
 } from '@nestjs/common';
@@ -19,6 +20,7 @@ import {
   ApiParam,
   ApiQuery,
   ApiBody,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
 import {
@@ -30,8 +32,9 @@ import {
   TimeoutInterceptor,
 } from '@mediamesh/shared';
 import { UserRole } from '@mediamesh/shared';
-import { ProxyService } from '../proxy.service';
+import { ProxyService, UpstreamHttpException } from '../proxy.service';
 import { Request } from 'express';
+import { FastifyReply } from 'fastify';
 import { RESILIENCE_CONFIG } from '../../config/env.constants';
 import {
   CreateProgramDto,
@@ -53,6 +56,9 @@ import {
  * - Timeout: Prevents hanging requests
  * - Circuit Breaker: Protects against cascading failures
  * - Retry: Exponential backoff for transient failures
+ *
+ * Optimistic concurrency: GET by ID forwards the CMS ETag; PUT/DELETE forward If-Match, and a
+ * 412 from the CMS is returned as-is with the current representation and its ETag.
  */
 @ApiTags('CMS')
 @Controller({ path: 'cms', version: '1' })
@@ -122,9 +128,13 @@ export class CmsController {
     type: ProgramResponseDto,
   })
   @ApiResponse({ status: 404, description: 'Program not found' })
-  async getProgram(@Param('id') id: string, @Req() req: Request) {
+  async getProgram(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ) {
     const headers = this.getAuthHeaders(req);
-    return this.proxyService.proxyToCms('GET', `/programs/${id}`, null, headers);
+    return this.proxyWithETag('GET', `/programs/${id}`, null, headers, reply);
   }
 
   /**
@@ -194,6 +204,11 @@ export class CmsController {
     description: 'Program UUID',
     example: '550e8400-e29b-41d4-a716-446655440001',
   })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from GET /programs/:id; the update is rejected if the program changed',
+  })
   @ApiBody({
     type: UpdateProgramDto,
     description: 'Updated program data',
@@ -207,13 +222,18 @@ export class CmsController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   @ApiResponse({ status: 404, description: 'Program not found' })
+  @ApiResponse({
+    status: 412,
+    description: 'Program changed since If-Match; body has the current program',
+  })
   async updateProgram(
     @Param('id') id: string,
     @Body() body: UpdateProgramDto,
     @Req() req: Request,
+    @Res({ passthrough: true }) reply: FastifyReply,
   ) {
-    const headers = this.getAuthHeaders(req);
-    return this.proxyService.proxyToCms('PUT', `/programs/${id}`, body, headers);
+    const headers = this.getConditionalHeaders(req);
+    return this.proxyWithETag('PUT', `/programs/${id}`, body, headers, reply);
   }
 
   /**
@@ -236,9 +256,17 @@ export class CmsController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden - ADMIN role required' })
   @ApiResponse({ status: 404, description: 'Program not found' })
-  async deleteProgram(@Param('id') id: string, @Req() req: Request) {
-    const headers = this.getAuthHeaders(req);
-    return this.proxyService.proxyToCms('DELETE', `/programs/${id}`, null, headers);
+  @ApiResponse({
+    status: 412,
+    description: 'Program changed since If-Match; body has the current program',
+  })
+  async deleteProgram(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ) {
+    const headers = this.getConditionalHeaders(req);
+    return this.proxyWithETag('DELETE', `/programs/${id}`, null, headers, reply);
   }
 
   /**
@@ -290,9 +318,13 @@ export class CmsController {
     type: EpisodeResponseDto,
   })
   @ApiResponse({ status: 404, description: 'Episode not found' })
-  async getEpisode(@Param('id') id: string, @Req() req: Request) {
+  async getEpisode(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ) {
     const headers = this.getAuthHeaders(req);
-    return this.proxyService.proxyToCms('GET', `/episodes/${id}`, null, headers);
+    return this.proxyWithETag('GET', `/episodes/${id}`, null, headers, reply);
   }
 
   /**
@@ -349,6 +381,11 @@ export class CmsController {
     description: 'Episode UUID',
     example: '550e8400-e29b-41d4-a716-446655440003',
   })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from GET /episodes/:id; the update is rejected if the episode changed',
+  })
   @ApiBody({ type: UpdateEpisodeDto, description: 'Updated episode data' })
   @ApiResponse({
     status: 200,
@@ -359,13 +396,18 @@ export class CmsController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   @ApiResponse({ status: 404, description: 'Episode not found' })
+  @ApiResponse({
+    status: 412,
+    description: 'Episode changed since If-Match; body has the current episode',
+  })
   async updateEpisode(
     @Param('id') id: string,
     @Body() body: UpdateEpisodeDto,
     @Req() req: Request,
+    @Res({ passthrough: true }) reply: FastifyReply,
   ) {
-    const headers = this.getAuthHeaders(req);
-    return this.proxyService.proxyToCms('PUT', `/episodes/${id}`, body, headers);
+    const headers = this.getConditionalHeaders(req);
+    return this.proxyWithETag('PUT', `/episodes/${id}`, body, headers, reply);
   }
 
   /**
@@ -388,9 +430,17 @@ export class CmsController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden - ADMIN role required' })
   @ApiResponse({ status: 404, description: 'Episode not found' })
-  async deleteEpisode(@Param('id') id: string, @Req() req: Request) {
-    const headers = this.getAuthHeaders(req);
-    return this.proxyService.proxyToCms('DELETE', `/episodes/${id}`, null, headers);
+  @ApiResponse({
+    status: 412,
+    description: 'Episode changed since If-Match; body has the current episode',
+  })
+  async deleteEpisode(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ) {
+    const headers = this.getConditionalHeaders(req);
+    return this.proxyWithETag('DELETE', `/episodes/${id}`, null, headers, reply);
   }
 
   /**
@@ -403,4 +453,39 @@ export class CmsController {
     }
     return headers;
   }
+
+  /**
+   * Extract authorization and If-Match headers from request
+   */
+  private getConditionalHeaders(req: Request): Record<string, string> {
+    const headers = this.getAuthHeaders(req);
+    if (req.headers['if-match']) {
+      headers['If-Match'] = req.headers['if-match'];
+    }
+    return headers;
+  }
+
+  /**
+   * Proxy to CMS and copy its ETag onto the reply, including on error responses (e.g. 412)
+   */
+  private async proxyWithETag(
+    method: string,
+    path: string,
+    data: any,
+    headers: Record<string, string>,
+    reply: FastifyReply,
+  ) {
+    try {
+      const response = await this.proxyService.proxyToCmsWithHeaders(method, path, data, headers);
+      if (response.headers.etag) {
+        reply.header('ETag', response.headers.etag);
+      }
+      return response.data;
+    } catch (error) {
+      if (error instanceof UpstreamHttpException && error.headers.etag) {
+        reply.header('ETag', error.headers.etag);
+      }
+      throw error;
+    }
+  }
 }
@@ -2,11 +2,14 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Delete,
   Body,
   Param,
   Query,
   Req,
+  Sse,
+  MessageEvent,
   UseGuards,
   UseInterceptors,
 } from '@nestjs/common';
@@ -18,6 +21,8 @@ import {
   ApiParam,
 } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
+import { Observable, timer, interval, merge } from 'rxjs';
+import { exhaustMap, distinctUntilChanged, map, takeWhile } from 'rxjs/operators';
 import {
   JwtAuthGuard,
   RolesGuard,
@@ -27,7 +32,16 @@ import {
 import { UserRole } from '@mediamesh/shared';
 import { ProxyService } from '../proxy.service';
 import { Request } from 'express';
-import { RESILIENCE_CONFIG } from '../../config/env.constants';
+import { RESILIENCE_CONFIG, INGEST_PROGRESS_CONFIG } from '../../config/env.constants';
+
+// Job statuses after which the progress no longer changes
+const FINISHED_STATUSES = [
+  'COMPLETED',
+  'PARTIALLY_COMPLETED',
+  'FAILED',
+  'DEAD_LETTER',
+  'CANCELLED',
+];
 
 /**
  * Ingest Controller
@@ -88,6 +102,55 @@ export class IngestController {
     return this.proxyService.proxyToIngest('GET', `/ingest/jobs/${id}`, null, headers);
   }
 
+  /**
+   * GET /api/v1/ingest/jobs/:id/progress
+   */
+  @Get('jobs/:id/progress')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiOperation({ summary: 'Get ingest job progress' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'Stage, percent and episode counts' })
+  async getJobProgress(@Param('id') id: string, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest('GET', `/ingest/jobs/${id}/progress`, null, headers);
+  }
+
+  /**
+   * GET /api/v1/ingest/jobs/:id/progress/stream
+   *
+   * Server-sent events: a "progress" event whenever the job's progress changes, and a
+   * "heartbeat" while it does not. The stream ends once the job finishes.
+   */
+  @Sse('jobs/:id/progress/stream')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiOperation({ summary: 'Stream ingest job progress as server-sent events' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'text/event-stream of progress events' })
+  streamJobProgress(@Param('id') id: string, @Req() req: Request): Observable<MessageEvent> {
+    const headers = this.getAuthHeaders(req);
+    const path = `/ingest/jobs/${id}/progress`;
+
+    const progress$ = timer(0, INGEST_PROGRESS_CONFIG.POLL_INTERVAL_MS).pipe(
+      exhaustMap(() => this.proxyService.proxyToIngest('GET', path, null, headers)),
+      distinctUntilChanged(
+        (previous, current) =>
+          previous.updatedAt === current.updatedAt && previous.status === current.status,
+      ),
+      map((progress): MessageEvent => ({ type: 'progress', data: progress })),
+    );
+    const heartbeat$ = interval(INGEST_PROGRESS_CONFIG.HEARTBEAT_MS).pipe(
+      map((): MessageEvent => ({ type: 'heartbeat', data: {} })),
+    );
+
+    return merge(progress$, heartbeat$).pipe(
+      takeWhile(
+        (event) =>
+          event.type !== 'progress' || !FINISHED_STATUSES.includes((event.data as any).status),
+        true,
+      ),
+    );
+  }
+
   /**
    * POST /api/v1/ingest/jobs/:id/retry
    */
@@ -102,6 +165,20 @@ export class IngestController {
     return this.proxyService.proxyToIngest('POST', `/ingest/jobs/${id}/retry`, null, headers);
   }
 
+  /**
+   * POST /api/v1/ingest/jobs/:id/cancel
+   */
+  @Post('jobs/:id/cancel')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @Throttle({ default: { limit: 50, ttl: 60000 } })
+  @ApiOperation({ summary: 'Cancel ingest job' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'Ingest job cancelled' })
+  async cancelJob(@Param('id') id: string, @Body() body: any, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest('POST', `/ingest/jobs/${id}/cancel`, body, headers);
+  }
+
   /**
    * DELETE /api/v1/ingest/jobs/:id
    */
@@ -116,6 +193,284 @@ export class IngestController {
     return this.proxyService.proxyToIngest('DELETE', `/ingest/jobs/${id}`, null, headers);
   }
 
+  /**
+   * POST /api/v1/ingest/mappings/preview
+   */
+  @Post('mappings/preview')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @Throttle({ default: { limit: 100, ttl: 60000 } })
+  @ApiOperation({ summary: 'Preview an API field mapping on a sample payload' })
+  @ApiResponse({ status: 200, description: 'Normalized program and episodes' })
+  async previewMapping(@Body() body: any, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest('POST', '/ingest/mappings/preview', body, headers);
+  }
+
+  /**
+   * POST /api/v1/ingest/sources
+   */
+  @Post('sources')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @Throttle({ default: { limit: 50, ttl: 60000 } })
+  @ApiOperation({ summary: 'Subscribe to an RSS feed or YouTube channel' })
+  @ApiResponse({ status: 201, description: 'Ingest source created' })
+  async createSource(@Body() body: any, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest('POST', '/ingest/sources', body, headers);
+  }
+
+  /**
+   * GET /api/v1/ingest/sources
+   */
+  @Get('sources')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiOperation({ summary: 'List ingest sources' })
+  @ApiResponse({ status: 200, description: 'List of ingest sources' })
+  async getSources(@Query() query: any, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    const queryString = new URLSearchParams(query).toString();
+    const path = queryString ? `/ingest/sources?${queryString}` : '/ingest/sources';
+    return this.proxyService.proxyToIngest('GET', path, null, headers);
+  }
+
+  /**
+   * GET /api/v1/ingest/sources/:id
+   */
+  @Get('sources/:id')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiOperation({ summary: 'Get ingest source by ID' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'Ingest source details' })
+  async getSource(@Param('id') id: string, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest('GET', `/ingest/sources/${id}`, null, headers);
+  }
+
+  /**
+   * POST /api/v1/ingest/sources/:id/pause
+   */
+  @Post('sources/:id/pause')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @Throttle({ default: { limit: 50, ttl: 60000 } })
+  @ApiOperation({ summary: 'Pause ingest source' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'Ingest source paused' })
+  async pauseSource(@Param('id') id: string, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest('POST', `/ingest/sources/${id}/pause`, null, headers);
+  }
+
+  /**
+   * POST /api/v1/ingest/sources/:id/resume
+   */
+  @Post('sources/:id/resume')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @Throttle({ default: { limit: 50, ttl: 60000 } })
+  @ApiOperation({ summary: 'Resume ingest source' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'Ingest source resumed' })
+  async resumeSource(@Param('id') id: string, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest('POST', `/ingest/sources/${id}/resume`, null, headers);
+  }
+
+  /**
+   * POST /api/v1/ingest/sources/:id/sync
+   */
+  @Post('sources/:id/sync')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({ summary: 'Sync ingest source now' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'Ingest source synced' })
+  async syncSource(@Param('id') id: string, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest('POST', `/ingest/sources/${id}/sync`, null, headers);
+  }
+
+  /**
+   * DELETE /api/v1/ingest/sources/:id
+   */
+  @Delete('sources/:id')
+  @Roles(UserRole.ADMIN)
+  @Throttle({ default: { limit: 100, ttl: 60000 } })
+  @ApiOperation({ summary: 'Delete ingest source' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'Ingest source deleted' })
+  async deleteSource(@Param('id') id: string, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest('DELETE', `/ingest/sources/${id}`, null, headers);
+  }
+
+  /**
+   * POST /api/v1/ingest/webhook-endpoints
+   *
+   * Partners push deliveries to ingest-service directly (POST /ingest/webhooks/:partner):
+   * their signatures cover the body bytes, which proxying would not preserve.
+   */
+  @Post('webhook-endpoints')
+  @Roles(UserRole.ADMIN)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({ summary: 'Create a partner webhook endpoint' })
+  @ApiResponse({ status: 201, description: 'Webhook endpoint created, with its signing secret' })
+  async createWebhookEndpoint(@Body() body: any, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest('POST', '/ingest/webhook-endpoints', body, headers);
+  }
+
+  /**
+   * GET /api/v1/ingest/webhook-endpoints
+   */
+  @Get('webhook-endpoints')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List webhook endpoints' })
+  @ApiResponse({ status: 200, description: 'List of webhook endpoints' })
+  async getWebhookEndpoints(@Query() query: any, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    const queryString = new URLSearchParams(query).toString();
+    const path = queryString
+      ? `/ingest/webhook-endpoints?${queryString}`
+      : '/ingest/webhook-endpoints';
+    return this.proxyService.proxyToIngest('GET', path, null, headers);
+  }
+
+  /**
+   * GET /api/v1/ingest/webhook-endpoints/:id
+   */
+  @Get('webhook-endpoints/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get webhook endpoint by ID' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'Webhook endpoint details' })
+  async getWebhookEndpoint(@Param('id') id: string, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest('GET', `/ingest/webhook-endpoints/${id}`, null, headers);
+  }
+
+  /**
+   * PATCH /api/v1/ingest/webhook-endpoints/:id
+   */
+  @Patch('webhook-endpoints/:id')
+  @Roles(UserRole.ADMIN)
+  @Throttle({ default: { limit: 50, ttl: 60000 } })
+  @ApiOperation({ summary: 'Update webhook endpoint' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'Webhook endpoint updated' })
+  async updateWebhookEndpoint(@Param('id') id: string, @Body() body: any, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest(
+      'PATCH',
+      `/ingest/webhook-endpoints/${id}`,
+      body,
+      headers,
+    );
+  }
+
+  /**
+   * POST /api/v1/ingest/webhook-endpoints/:id/rotate-secret
+   */
+  @Post('webhook-endpoints/:id/rotate-secret')
+  @Roles(UserRole.ADMIN)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({ summary: 'Rotate webhook endpoint signing secret' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'New signing secret' })
+  async rotateWebhookSecret(@Param('id') id: string, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest(
+      'POST',
+      `/ingest/webhook-endpoints/${id}/rotate-secret`,
+      null,
+      headers,
+    );
+  }
+
+  /**
+   * DELETE /api/v1/ingest/webhook-endpoints/:id
+   */
+  @Delete('webhook-endpoints/:id')
+  @Roles(UserRole.ADMIN)
+  @Throttle({ default: { limit: 100, ttl: 60000 } })
+  @ApiOperation({ summary: 'Delete webhook endpoint' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'Webhook endpoint deleted' })
+  async deleteWebhookEndpoint(@Param('id') id: string, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest(
+      'DELETE',
+      `/ingest/webhook-endpoints/${id}`,
+      null,
+      headers,
+    );
+  }
+
+  /**
+   * GET /api/v1/ingest/webhook-endpoints/:id/deliveries
+   */
+  @Get('webhook-endpoints/:id/deliveries')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List webhook deliveries' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({ status: 200, description: 'List of deliveries, newest first' })
+  async getWebhookDeliveries(@Param('id') id: string, @Query() query: any, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    const queryString = new URLSearchParams(query).toString();
+    const path = `/ingest/webhook-endpoints/${id}/deliveries`;
+    return this.proxyService.proxyToIngest(
+      'GET',
+      queryString ? `${path}?${queryString}` : path,
+      null,
+      headers,
+    );
+  }
+
+  /**
+   * GET /api/v1/ingest/webhook-endpoints/:id/deliveries/:deliveryId
+   */
+  @Get('webhook-endpoints/:id/deliveries/:deliveryId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get webhook delivery with its raw payload' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiParam({ name: 'deliveryId', type: String })
+  @ApiResponse({ status: 200, description: 'Delivery details' })
+  async getWebhookDelivery(
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+    @Req() req: Request,
+  ) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest(
+      'GET',
+      `/ingest/webhook-endpoints/${id}/deliveries/${deliveryId}`,
+      null,
+      headers,
+    );
+  }
+
+  /**
+   * POST /api/v1/ingest/webhook-endpoints/:id/deliveries/:deliveryId/replay
+   */
+  @Post('webhook-endpoints/:id/deliveries/:deliveryId/replay')
+  @Roles(UserRole.ADMIN)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({ summary: 'Replay a stored webhook delivery' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiParam({ name: 'deliveryId', type: String })
+  @ApiResponse({ status: 202, description: 'Delivery queued again' })
+  async replayWebhookDelivery(
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+    @Req() req: Request,
+  ) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToIngest(
+      'POST',
+      `/ingest/webhook-endpoints/${id}/deliveries/${deliveryId}/replay`,
+      null,
+      headers,
+    );
+  }
+
   private getAuthHeaders(req: Request): Record<string, string> {
     const headers: Record<string, string> = {};
     if (req.headers.authorization) {
@@ -183,5 +183,53 @@ describe('API Gateway Routing (Integration)', () => {
         expect.any(Object),
       );
     });
+
+    it('should route GET /api/v1/ingest/jobs/:id/progress to Ingest service', async () => {
+      const mockResponse = { jobId: '1', status: 'PROCESSING', stage: 'syncing', percent: 40 };
+      (proxyService.proxyToIngest as jest.Mock).mockResolvedValue(mockResponse);
+
+      const response = await request(app.getHttpServer())
+        .get('/api/v1/ingest/jobs/1/progress')
+        .expect(200);
+
+      expect(response.body).toEqual(mockResponse);
+      expect(proxyService.proxyToIngest).toHaveBeenCalledWith(
+        'GET',
+        '/ingest/jobs/1/progress',
+        null,
+        expect.any(Object),
+      );
+    });
+
+    it('should stream job progress as server-sent events until the job finishes', async () => {
+      const finished = { jobId: '1', status: 'COMPLETED', stage: 'completed', percent: 100 };
+      (proxyService.proxyToIngest as jest.Mock).mockResolvedValue(finished);
+
+      const response = await request(app.getHttpServer())
+        .get('/api/v1/ingest/jobs/1/progress/stream')
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      expect(response.text).toContain('event: progress');
+      expect(response.text).toContain(`data: ${JSON.stringify(finished)}`);
+      expect(proxyService.proxyToIngest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should route webhook delivery replays to Ingest service', async () => {
+      const mockResponse = { id: 'delivery-1', jobId: 'job-2', replayCount: 1 };
+      (proxyService.proxyToIngest as jest.Mock).mockResolvedValue(mockResponse);
+
+      const response = await request(app.getHttpServer())
+        .post('/api/v1/ingest/webhook-endpoints/1/deliveries/delivery-1/replay')
+        .expect(201);
+
+      expect(response.body).toEqual(mockResponse);
+      expect(proxyService.proxyToIngest).toHaveBeenCalledWith(
+        'POST',
+        '/ingest/webhook-endpoints/1/deliveries/delivery-1/replay',
+        null,
+        expect.any(Object),
+      );
+    });
   });
 });
@@ -313,6 +313,15 @@ export class ProgramResponseDto {
   })
   metadataId?: string;
 
+  @ApiProperty({
+    name: 'version',
+    description: 'Program version, incremented on every change; also returned as the ETag header',
+    example: 3,
+    type: Number,
+    minimum: 1,
+  })
+  version: number;
+
   @ApiProperty({
     name: 'createdAt',
     description: 'Program creation timestamp (ISO 8601)',
@@ -408,6 +417,15 @@ export class EpisodeResponseDto {
   })
   metadataId?: string;
 
+  @ApiProperty({
+    name: 'version',
+    description: 'Episode version, incremented on every change; also returned as the ETag header',
+    example: 3,
+    type: Number,
+    minimum: 1,
+  })
+  version: number;
+
   @ApiProperty({
     name: 'createdAt',
     description: 'Episode creation timestamp (ISO 8601)',
@@ -146,6 +146,59 @@ describe('ProxyService', () => {
     });
   });
 
+  describe('proxyToCmsWithHeaders', () => {
+    it('should return status, data and lowercased headers', async () => {
+      const mockResponse: AxiosResponse = {
+        data: { id: '1', title: 'Test', version: 2 },
+        status: 200,
+        statusText: 'OK',
+        headers: { ETag: '"2"' },
+        config: {} as any,
+      };
+
+      httpService.request.mockReturnValue(of(mockResponse));
+      httpRetryService.retry.mockImplementation(async (fn) => await fn());
+
+      const result = await service.proxyToCmsWithHeaders('GET', '/programs/1');
+
+      expect(result).toEqual({
+        status: 200,
+        data: { id: '1', title: 'Test', version: 2 },
+        headers: { etag: '"2"' },
+      });
+    });
+
+    it('should keep upstream headers on error responses', async () => {
+      const mockResponse: AxiosResponse = {
+        data: { statusCode: 412, current: { id: '1', version: 3 } },
+        status: 412,
+        statusText: 'Precondition Failed',
+        headers: { etag: '"3"' },
+        config: {} as any,
+      };
+
+      httpService.request.mockReturnValue(of(mockResponse));
+      httpRetryService.retry.mockImplementation(async (fn) => await fn());
+
+      await expect(
+        service.proxyToCmsWithHeaders(
+          'PUT',
+          '/programs/1',
+          { title: 'Stale' },
+          { 'If-Match': '"1"' },
+        ),
+      ).rejects.toMatchObject({
+        status: 412,
+        headers: { etag: '"3"' },
+      });
+      expect(httpService.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'If-Match': '"1"' }),
+        }),
+      );
+    });
+  });
+
   describe('proxyToMetadata', () => {
     it('should proxy to metadata service', async () => {
       const mockResponse: AxiosResponse = {
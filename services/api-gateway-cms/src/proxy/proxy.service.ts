@@ -7,6 +7,28 @@ import { HttpRetryService } from '@mediamesh/shared';
 import { CircuitBreakerService } from '@mediamesh/shared';
 import { RetryConfig } from '@mediamesh/shared';
 
+/**
+ * Upstream response with headers, for routes that forward headers such as ETag
+ */
+export interface ProxyResponse<T = any> {
+  status: number;
+  data: T;
+  headers: Record<string, string>;
+}
+
+/**
+ * Error response from a backend service; keeps the upstream headers (e.g. ETag on 412)
+ */
+export class UpstreamHttpException extends HttpException {
+  constructor(
+    response: string | Record<string, any>,
+    status: number,
+    public readonly headers: Record<string, string> = {},
+  ) {
+    super(response, status);
+  }
+}
+
 /**
  * Proxy Service
  * 
@@ -56,6 +78,25 @@ export class ProxyService {
     );
   }
 
+  /**
+   * Proxy request to CMS service, returning status and headers along with the body
+   */
+  async proxyToCmsWithHeaders(
+    method: string,
+    path: string,
+    data?: any,
+    headers?: Record<string, string>,
+  ): Promise<ProxyResponse> {
+    return this.proxyRequestWithHeaders(
+      SERVICE_CONFIG.CMS_SERVICE,
+      'cms-service',
+      method,
+      path,
+      data,
+      headers,
+    );
+  }
+
   /**
    * Proxy request to Metadata service
    */
@@ -143,6 +184,28 @@ export class ProxyService {
     data?: any,
     headers?: Record<string, string>,
   ): Promise<any> {
+    const response = await this.proxyRequestWithHeaders(
+      baseUrl,
+      serviceName,
+      method,
+      path,
+      data,
+      headers,
+    );
+    return response.data;
+  }
+
+  /**
+   * Proxy request keeping the upstream status and headers
+   */
+  private async proxyRequestWithHeaders(
+    baseUrl: string,
+    serviceName: string,
+    method: string,
+    path: string,
+    data?: any,
+    headers?: Record<string, string>,
+  ): Promise<ProxyResponse> {
     const url = `${baseUrl}${path}`;
 
     // Check circuit breaker before making request
@@ -187,13 +250,18 @@ export class ProxyService {
       if (response.status >= 400) {
         // Record failure for 4xx/5xx errors
         this.circuitBreakerService.recordFailure(serviceName);
-        throw new HttpException(
+        throw new UpstreamHttpException(
           response.data || 'Service error',
           response.status || HttpStatus.INTERNAL_SERVER_ERROR,
+          this.toHeaderRecord(response.headers),
         );
       }
 
-      return response.data;
+      return {
+        status: response.status,
+        data: response.data,
+        headers: this.toHeaderRecord(response.headers),
+      };
     } catch (error) {
       // Record failure in circuit breaker
       this.circuitBreakerService.recordFailure(serviceName);
@@ -247,4 +315,17 @@ export class ProxyService {
       );
     }
   }
+
+  /**
+   * Flatten axios response headers to lowercase string values
+   */
+  private toHeaderRecord(headers: AxiosResponse['headers'] = {}): Record<string, string> {
+    const record: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (value !== undefined && value !== null) {
+        record[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    }
+    return record;
+  }
 }
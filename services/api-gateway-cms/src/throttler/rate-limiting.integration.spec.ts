@@ -21,6 +21,7 @@ describe('Rate Limiting (Integration)', () => {
   beforeEach(async () => {
     const mockProxyService = {
       proxyToCms: jest.fn(),
+      proxyToCmsWithHeaders: jest.fn(),
     };
 
     const moduleFixture: TestingModule = await Test.createTestingModule({
@@ -103,7 +104,11 @@ describe('Rate Limiting (Integration)', () => {
     it('should apply rate limiting to PUT requests', async () => {
       const updateDto = { title: 'Updated Program' };
       const mockResponse = { id: '1', ...updateDto };
-      (proxyService.proxyToCms as jest.Mock).mockResolvedValue(mockResponse);
+      (proxyService.proxyToCmsWithHeaders as jest.Mock).mockResolvedValue({
+        status: 200,
+        data: mockResponse,
+        headers: {},
+      });
 
       const response = await request(app.getHttpServer())
         .put('/api/v1/cms/programs/1')
@@ -114,13 +119,17 @@ describe('Rate Limiting (Integration)', () => {
     });
 
     it('should apply rate limiting to DELETE requests', async () => {
-      (proxyService.proxyToCms as jest.Mock).mockResolvedValue({});
+      (proxyService.proxyToCmsWithHeaders as jest.Mock).mockResolvedValue({
+        status: 204,
+        data: {},
+        headers: {},
+      });
 
       await request(app.getHttpServer())
         .delete('/api/v1/cms/programs/1')
         .expect(200);
 
-      expect(proxyService.proxyToCms).toHaveBeenCalled();
+      expect(proxyService.proxyToCmsWithHeaders).toHaveBeenCalled();
     });
   });
 
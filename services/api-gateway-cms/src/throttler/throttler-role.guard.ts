@@ -35,7 +35,7 @@ export class ThrottlerRoleGuard extends ThrottlerGuard {
     // Apply role-based limits
     if (user?.role === UserRole.ADMIN) {
       return RATE_LIMIT_CONFIG.ADMIN_LIMIT;
-    } else if (user?.role === UserRole.EDITOR) {
+    } else if (user?.role === UserRole.EDITOR || user?.role === UserRole.REVIEWER) {
       return RATE_LIMIT_CONFIG.EDITOR_LIMIT;
     }
 
@@ -49,7 +49,7 @@ export class ThrottlerRoleGuard extends ThrottlerGuard {
     // Apply role-based TTL
     if (user?.role === UserRole.ADMIN) {
       return RATE_LIMIT_CONFIG.ADMIN_TTL * 1000; // milliseconds
-    } else if (user?.role === UserRole.EDITOR) {
+    } else if (user?.role === UserRole.EDITOR || user?.role === UserRole.REVIEWER) {
       return RATE_LIMIT_CONFIG.EDITOR_TTL * 1000;
     }
 
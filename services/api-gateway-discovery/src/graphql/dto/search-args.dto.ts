@@ -49,6 +49,33 @@ export class SearchArgs {
   limit?: number = 20;
 }
 
+/**
+ * Suggest Arguments for GraphQL
+ */
+@ArgsType()
+export class SuggestArgs {
+  @Field()
+  @IsString()
+  q: string;
+
+  @Field(() => ContentType, { nullable: true })
+  @IsOptional()
+  @IsEnum(ContentType)
+  contentType?: ContentType;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  language?: string;
+
+  @Field(() => Int, { nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  limit?: number;
+}
+
 /**
  * Programs Query Arguments
  */
@@ -68,6 +95,34 @@ export class ProgramsArgs {
   limit?: number = 20;
 }
 
+/**
+ * Season Episodes Query Arguments
+ */
+@ArgsType()
+export class SeasonEpisodesArgs {
+  @Field()
+  @IsString()
+  programId: string;
+
+  @Field(() => Int)
+  @IsInt()
+  @Min(1)
+  seasonNumber: number;
+
+  @Field(() => Int, { nullable: true, defaultValue: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @Field(() => Int, { nullable: true, defaultValue: 20 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
 /**
  * Trending/Popular Arguments
  */
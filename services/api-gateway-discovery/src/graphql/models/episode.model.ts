@@ -12,6 +12,12 @@ export class Episode {
   @Field(() => ID)
   programId: string;
 
+  @Field(() => ID, { nullable: true })
+  seasonId?: string;
+
+  @Field(() => Int, { nullable: true })
+  seasonNumber?: number;
+
   @Field()
   title: string;
 
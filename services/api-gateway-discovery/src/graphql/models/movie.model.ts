@@ -0,0 +1,35 @@
+import { ObjectType, Field, ID, Int } from '@nestjs/graphql';
+import { ContentStatus } from '@mediamesh/shared';
+
+/**
+ * Movie GraphQL Model
+ */
+@ObjectType()
+export class Movie {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  title: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field(() => String)
+  status: ContentStatus;
+
+  @Field(() => Int, { nullable: true })
+  duration?: number;
+
+  @Field({ nullable: true })
+  releaseDate?: Date;
+
+  @Field({ nullable: true })
+  publishedAt?: Date;
+
+  @Field()
+  createdAt: Date;
+
+  @Field()
+  updatedAt: Date;
+}
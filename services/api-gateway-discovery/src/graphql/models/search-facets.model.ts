@@ -0,0 +1,34 @@
+import { ObjectType, Field, Int } from '@nestjs/graphql';
+
+/**
+ * Facet Bucket GraphQL Model
+ */
+@ObjectType()
+export class FacetBucket {
+  @Field()
+  value: string;
+
+  @Field(() => Int)
+  count: number;
+}
+
+/**
+ * Search Facets GraphQL Model
+ *
+ * Counts of each filter value among the results of the query, ignoring the
+ * facet's own filter.
+ */
+@ObjectType()
+export class SearchFacets {
+  @Field(() => [FacetBucket])
+  contentType: FacetBucket[];
+
+  @Field(() => [FacetBucket])
+  category: FacetBucket[];
+
+  @Field(() => [FacetBucket])
+  language: FacetBucket[];
+
+  @Field(() => [FacetBucket])
+  tags: FacetBucket[];
+}
@@ -1,6 +1,8 @@
 import { ObjectType, Field, Int } from '@nestjs/graphql';
 import { Program } from './program.model';
 import { Episode } from './episode.model';
+import { Movie } from './movie.model';
+import { SearchFacets } from './search-facets.model';
 
 /**
  * Search Result GraphQL Model
@@ -13,6 +15,9 @@ export class SearchResult {
   @Field(() => [Episode])
   episodes: Episode[];
 
+  @Field(() => [Movie])
+  movies: Movie[];
+
   @Field(() => Int)
   total: number;
 
@@ -21,4 +26,10 @@ export class SearchResult {
 
   @Field(() => Int)
   limit: number;
+
+  @Field(() => SearchFacets, {
+    nullable: true,
+    description: 'Counted only when selected',
+  })
+  facets?: SearchFacets;
 }
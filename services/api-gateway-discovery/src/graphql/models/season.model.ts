@@ -0,0 +1,32 @@
+import { ObjectType, Field, ID, Int } from '@nestjs/graphql';
+import { ContentStatus } from '@mediamesh/shared';
+
+/**
+ * Season GraphQL Model
+ */
+@ObjectType()
+export class Season {
+  @Field(() => ID)
+  id: string;
+
+  @Field(() => ID)
+  programId: string;
+
+  @Field(() => Int)
+  seasonNumber: number;
+
+  @Field({ nullable: true })
+  title?: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field(() => String)
+  status: ContentStatus;
+
+  @Field()
+  createdAt: Date;
+
+  @Field()
+  updatedAt: Date;
+}
@@ -0,0 +1,37 @@
+import { ObjectType, Field, ID } from '@nestjs/graphql';
+import { ContentType } from '@mediamesh/shared';
+
+/**
+ * Title Completion GraphQL Model
+ */
+@ObjectType()
+export class TitleCompletion {
+  @Field(() => ID)
+  contentId: string;
+
+  @Field(() => String)
+  contentType: ContentType;
+
+  @Field()
+  title: string;
+}
+
+/**
+ * Suggest Result GraphQL Model
+ */
+@ObjectType()
+export class SuggestResult {
+  @Field()
+  query: string;
+
+  @Field(() => [TitleCompletion], {
+    description: 'Titles completing the query, most popular then newest first',
+  })
+  completions: TitleCompletion[];
+
+  @Field(() => String, {
+    nullable: true,
+    description: 'Query with misspelled words replaced by indexed ones',
+  })
+  didYouMean?: string | null;
+}
@@ -1,7 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { GraphQLResolveInfo, OperationDefinitionNode, parse } from 'graphql';
 import { DiscoveryResolver } from './discovery.resolver';
 import { ProxyService } from '../../proxy/proxy.service';
-import { SearchArgs, ProgramsArgs, TrendingArgs } from '../dto/search-args.dto';
+import {
+  SearchArgs,
+  SuggestArgs,
+  ProgramsArgs,
+  TrendingArgs,
+  SeasonEpisodesArgs,
+} from '../dto/search-args.dto';
 
 describe('DiscoveryResolver', () => {
   let resolver: DiscoveryResolver;
@@ -100,14 +107,115 @@ describe('DiscoveryResolver', () => {
     });
   });
 
+  describe('getSeasons', () => {
+    it('should return seasons for a program', async () => {
+      const seasons = [{ id: 's1', programId: 'program-1', seasonNumber: 1 }];
+      proxyService.proxyToDiscovery.mockResolvedValue({ seasons });
+
+      const context = { req: { headers: {} } };
+
+      const result = await resolver.getSeasons('program-1', context);
+
+      expect(result).toEqual(seasons);
+      expect(proxyService.proxyToDiscovery).toHaveBeenCalledWith(
+        'GET',
+        '/discovery/programs/program-1/seasons',
+        null,
+        expect.any(Object),
+      );
+    });
+
+    it('should return an empty list if program not found', async () => {
+      proxyService.proxyToDiscovery.mockResolvedValue({
+        statusCode: 404,
+        message: 'Program not found',
+      });
+
+      const result = await resolver.getSeasons('missing', { req: { headers: {} } });
+
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('getSeasonEpisodes', () => {
+    it('should return episodes for a season', async () => {
+      const episodes = [{ id: '1', programId: 'program-1', seasonNumber: 2, episodeNumber: 1 }];
+      proxyService.proxyToDiscovery.mockResolvedValue({
+        season: { id: 's2', seasonNumber: 2 },
+        episodes,
+        total: 1,
+      });
+
+      const args: SeasonEpisodesArgs = { programId: 'program-1', seasonNumber: 2, page: 1 };
+      const context = { req: { headers: {} } };
+
+      const result = await resolver.getSeasonEpisodes(args, context);
+
+      expect(result).toEqual(episodes);
+      expect(proxyService.proxyToDiscovery).toHaveBeenCalledWith(
+        'GET',
+        '/discovery/programs/program-1/seasons/2/episodes?page=1',
+        null,
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('getMovies', () => {
+    it('should return a page of movies', async () => {
+      const movies = [{ id: 'm1', title: 'The Long Voyage' }];
+      proxyService.proxyToDiscovery.mockResolvedValue({ movies, total: 1, page: 2, limit: 10 });
+
+      const args: ProgramsArgs = { page: 2, limit: 10 };
+      const result = await resolver.getMovies(args, { req: { headers: {} } });
+
+      expect(result).toEqual(movies);
+      expect(proxyService.proxyToDiscovery).toHaveBeenCalledWith(
+        'GET',
+        '/discovery/movies?page=2&limit=10',
+        null,
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('getMovie', () => {
+    it('should return a specific movie', async () => {
+      const movie = { id: 'm1', title: 'The Long Voyage' };
+      proxyService.proxyToDiscovery.mockResolvedValue(movie);
+
+      const result = await resolver.getMovie('m1', { req: { headers: {} } });
+
+      expect(result).toEqual(movie);
+      expect(proxyService.proxyToDiscovery).toHaveBeenCalledWith(
+        'GET',
+        '/discovery/movies/m1',
+        null,
+        expect.any(Object),
+      );
+    });
+
+    it('should return null if movie not found', async () => {
+      proxyService.proxyToDiscovery.mockResolvedValue({
+        statusCode: 404,
+        message: 'Movie not found',
+      });
+
+      const result = await resolver.getMovie('missing', { req: { headers: {} } });
+
+      expect(result).toBeNull();
+    });
+  });
+
   describe('search', () => {
     it('should return search results', async () => {
       const mockResponse = {
         results: [
           { id: '1', title: 'Program 1', contentType: 'PROGRAM' },
           { id: '2', title: 'Episode 1', contentType: 'EPISODE' },
+          { id: '3', title: 'Movie 1', contentType: 'MOVIE' },
         ],
-        total: 2,
+        total: 3,
         page: 1,
         limit: 20,
       };
@@ -124,9 +232,62 @@ describe('DiscoveryResolver', () => {
 
       expect(result.programs).toHaveLength(1);
       expect(result.episodes).toHaveLength(1);
-      expect(result.total).toBe(2);
+      expect(result.movies).toHaveLength(1);
+      expect(result.total).toBe(3);
       expect(proxyService.proxyToSearch).toHaveBeenCalled();
     });
+
+    it('should request facets only when they are selected', async () => {
+      const facets = {
+        contentType: [{ value: 'PROGRAM', count: 42 }],
+        category: [{ value: 'Documentary', count: 42 }],
+        language: [],
+        tags: [],
+      };
+      proxyService.proxyToSearch.mockResolvedValue({ results: [], total: 0, facets });
+
+      const args: SearchArgs = { q: 'test', category: 'Documentary' };
+      const context = { req: { headers: {} } };
+      const info = parse('{ search(q: "test") { total facets { category { value count } } } }')
+        .definitions[0] as OperationDefinitionNode;
+
+      const result = await resolver.search(args, context, {
+        fieldNodes: info.selectionSet.selections,
+      } as unknown as GraphQLResolveInfo);
+      await resolver.search(args, context);
+
+      expect(proxyService.proxyToSearch.mock.calls[0][1]).toBe(
+        '/search?q=test&category=Documentary&facets=true',
+      );
+      expect(proxyService.proxyToSearch.mock.calls[1][1]).toBe(
+        '/search?q=test&category=Documentary',
+      );
+      expect(result.facets).toEqual(facets);
+    });
+  });
+
+  describe('suggest', () => {
+    it('should return completions and a correction', async () => {
+      const mockResponse = {
+        query: 'graet adv',
+        completions: [{ contentId: '1', contentType: 'PROGRAM', title: 'The Great Adventure' }],
+        didYouMean: 'great adv',
+      };
+      proxyService.proxyToSearch.mockResolvedValue(mockResponse);
+
+      const args: SuggestArgs = { q: 'graet adv', limit: 5 };
+      const context = { req: { headers: {} } };
+
+      const result = await resolver.suggest(args, context);
+
+      expect(result).toEqual(mockResponse);
+      expect(proxyService.proxyToSearch).toHaveBeenCalledWith(
+        'GET',
+        '/search/suggest?q=graet+adv&limit=5',
+        null,
+        {},
+      );
+    });
   });
 
   describe('getTrending', () => {
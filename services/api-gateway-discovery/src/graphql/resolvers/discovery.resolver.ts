@@ -1,9 +1,19 @@
-import { Resolver, Query, Args, Context } from '@nestjs/graphql';
+import { Resolver, Query, Args, Context, Info } from '@nestjs/graphql';
+import { GraphQLResolveInfo, Kind } from 'graphql';
 import { ProxyService } from '../../proxy/proxy.service';
 import { Program } from '../models/program.model';
 import { Episode } from '../models/episode.model';
+import { Season } from '../models/season.model';
+import { Movie } from '../models/movie.model';
 import { SearchResult } from '../models/search-result.model';
-import { SearchArgs, ProgramsArgs, TrendingArgs } from '../dto/search-args.dto';
+import { SuggestResult } from '../models/suggest-result.model';
+import {
+  SearchArgs,
+  SuggestArgs,
+  ProgramsArgs,
+  TrendingArgs,
+  SeasonEpisodesArgs,
+} from '../dto/search-args.dto';
 import { Logger } from '@nestjs/common';
 
 /**
@@ -85,6 +95,97 @@ export class DiscoveryResolver {
     return Array.isArray(result) ? result : result.data || [];
   }
 
+  /**
+   * Query: seasons
+   * Get published seasons for a program
+   */
+  @Query(() => [Season], { name: 'seasons' })
+  async getSeasons(
+    @Args('programId') programId: string,
+    @Context() context: any,
+  ): Promise<Season[]> {
+    this.logger.debug(`GraphQL query: seasons for programId: ${programId}`);
+
+    const headers = this.getAuthHeaders(context.req);
+    const result = await this.proxyService.proxyToDiscovery(
+      'GET',
+      `/discovery/programs/${programId}/seasons`,
+      null,
+      headers,
+    );
+
+    return result?.seasons || [];
+  }
+
+  /**
+   * Query: seasonEpisodes
+   * Get episodes for a season of a program
+   */
+  @Query(() => [Episode], { name: 'seasonEpisodes' })
+  async getSeasonEpisodes(
+    @Args() args: SeasonEpisodesArgs,
+    @Context() context: any,
+  ): Promise<Episode[]> {
+    this.logger.debug(`GraphQL query: seasonEpisodes with args: ${JSON.stringify(args)}`);
+
+    const query: any = {};
+    if (args.page) query.page = args.page;
+    if (args.limit) query.limit = args.limit;
+
+    const queryString = new URLSearchParams(query).toString();
+    const basePath = `/discovery/programs/${args.programId}/seasons/${args.seasonNumber}/episodes`;
+    const path = queryString ? `${basePath}?${queryString}` : basePath;
+
+    const headers = this.getAuthHeaders(context.req);
+    const result = await this.proxyService.proxyToDiscovery('GET', path, null, headers);
+
+    return result?.episodes || [];
+  }
+
+  /**
+   * Query: movies
+   * Get a paginated list of published movies
+   */
+  @Query(() => [Movie], { name: 'movies' })
+  async getMovies(@Args() args: ProgramsArgs, @Context() context: any): Promise<Movie[]> {
+    this.logger.debug(`GraphQL query: movies with args: ${JSON.stringify(args)}`);
+
+    const query: any = {};
+    if (args.page) query.page = args.page;
+    if (args.limit) query.limit = args.limit;
+
+    const queryString = new URLSearchParams(query).toString();
+    const path = queryString ? `/discovery/movies?${queryString}` : '/discovery/movies';
+
+    const headers = this.getAuthHeaders(context.req);
+    const result = await this.proxyService.proxyToDiscovery('GET', path, null, headers);
+
+    return result?.movies || [];
+  }
+
+  /**
+   * Query: movie
+   * Get a specific movie by ID
+   */
+  @Query(() => Movie, { name: 'movie', nullable: true })
+  async getMovie(@Args('id') id: string, @Context() context: any): Promise<Movie | null> {
+    this.logger.debug(`GraphQL query: movie with id: ${id}`);
+
+    const headers = this.getAuthHeaders(context.req);
+    const result = await this.proxyService.proxyToDiscovery(
+      'GET',
+      `/discovery/movies/${id}`,
+      null,
+      headers,
+    );
+
+    // Discovery answers a missing movie with a 404 body rather than an error status
+    if (!result || result.statusCode === 404) {
+      return null;
+    }
+    return result;
+  }
+
   /**
    * Query: search
    * Search for content
@@ -93,6 +194,7 @@ export class DiscoveryResolver {
   async search(
     @Args() args: SearchArgs,
     @Context() context: any,
+    @Info() info?: GraphQLResolveInfo,
   ): Promise<SearchResult> {
     this.logger.debug(`GraphQL query: search with args: ${JSON.stringify(args)}`);
 
@@ -103,6 +205,7 @@ export class DiscoveryResolver {
     if (args.tags) query.tags = args.tags.join(',');
     if (args.page) query.page = args.page;
     if (args.limit) query.limit = args.limit;
+    if (this.selectsField(info, 'facets')) query.facets = 'true';
 
     const queryString = new URLSearchParams(query).toString();
     const path = `/search?${queryString}`;
@@ -118,16 +221,39 @@ export class DiscoveryResolver {
     const episodes = (result.results || []).filter(
       (r: any) => r.contentType === 'EPISODE',
     );
+    const movies = (result.results || []).filter((r: any) => r.contentType === 'MOVIE');
 
     return {
       programs,
       episodes,
+      movies,
       total: result.total || 0,
       page: result.page || args.page || 1,
       limit: result.limit || args.limit || 20,
+      facets: result.facets,
     };
   }
 
+  /**
+   * Query: suggest
+   * Autocomplete a search query
+   */
+  @Query(() => SuggestResult, { name: 'suggest' })
+  async suggest(@Args() args: SuggestArgs, @Context() context: any): Promise<SuggestResult> {
+    this.logger.debug(`GraphQL query: suggest with args: ${JSON.stringify(args)}`);
+
+    const query: any = { q: args.q };
+    if (args.contentType) query.contentType = args.contentType;
+    if (args.language) query.language = args.language;
+    if (args.limit) query.limit = args.limit;
+
+    const queryString = new URLSearchParams(query).toString();
+    const path = `/search/suggest?${queryString}`;
+
+    const headers = this.getAuthHeaders(context.req);
+    return this.proxyService.proxyToSearch('GET', path, null, headers);
+  }
+
   /**
    * Query: trending
    * Get trending content
@@ -181,4 +307,15 @@ export class DiscoveryResolver {
     }
     return headers;
   }
+
+  /**
+   * Whether the query selects a field directly on the resolved one
+   */
+  private selectsField(info: GraphQLResolveInfo | undefined, name: string): boolean {
+    return (info?.fieldNodes || []).some((node) =>
+      (node.selectionSet?.selections || []).some(
+        (selection) => selection.kind === Kind.FIELD && selection.name.value === name,
+      ),
+    );
+  }
 }
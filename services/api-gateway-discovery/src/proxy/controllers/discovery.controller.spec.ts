@@ -113,6 +113,79 @@ describe('DiscoveryController', () => {
     });
   });
 
+  describe('getSeasons', () => {
+    it('should proxy GET request for seasons', async () => {
+      const mockResponse = { seasons: [{ id: 's1', seasonNumber: 1 }] };
+      proxyService.proxyToDiscovery.mockResolvedValue(mockResponse);
+
+      const result = await controller.getSeasons('program-1', { headers: {} } as any);
+
+      expect(result).toEqual(mockResponse);
+      expect(proxyService.proxyToDiscovery).toHaveBeenCalledWith(
+        'GET',
+        '/discovery/programs/program-1/seasons',
+        null,
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('getSeasonEpisodes', () => {
+    it('should proxy GET request for season episodes with query params', async () => {
+      const mockResponse = { season: { seasonNumber: 1 }, episodes: [], total: 0 };
+      proxyService.proxyToDiscovery.mockResolvedValue(mockResponse);
+
+      const result = await controller.getSeasonEpisodes(
+        'program-1',
+        '1',
+        { page: '2', limit: '10' },
+        { headers: {} } as any,
+      );
+
+      expect(result).toEqual(mockResponse);
+      expect(proxyService.proxyToDiscovery).toHaveBeenCalledWith(
+        'GET',
+        '/discovery/programs/program-1/seasons/1/episodes?page=2&limit=10',
+        null,
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('getMovies', () => {
+    it('should proxy GET request for movies with query params', async () => {
+      const mockResponse = { movies: [{ id: 'm1' }], total: 1, page: 1, limit: 20 };
+      proxyService.proxyToDiscovery.mockResolvedValue(mockResponse);
+
+      const result = await controller.getMovies({ page: '1' }, { headers: {} } as any);
+
+      expect(result).toEqual(mockResponse);
+      expect(proxyService.proxyToDiscovery).toHaveBeenCalledWith(
+        'GET',
+        '/discovery/movies?page=1',
+        null,
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('getMovie', () => {
+    it('should proxy GET request for a specific movie', async () => {
+      const mockResponse = { id: 'm1', title: 'The Long Voyage' };
+      proxyService.proxyToDiscovery.mockResolvedValue(mockResponse);
+
+      const result = await controller.getMovie('m1', { headers: {} } as any);
+
+      expect(result).toEqual(mockResponse);
+      expect(proxyService.proxyToDiscovery).toHaveBeenCalledWith(
+        'GET',
+        '/discovery/movies/m1',
+        null,
+        expect.any(Object),
+      );
+    });
+  });
+
   describe('getTrending', () => {
     it('should proxy GET request for trending content', async () => {
       const mockResponse = [{ id: '1', title: 'Trending Program' }];
@@ -197,6 +197,144 @@ export class DiscoveryController {
     );
   }
 
+  /**
+   * GET /api/v1/discovery/programs/:id/seasons
+   */
+  @Get('programs/:id/seasons')
+  @ApiOperation({
+    summary: 'Get seasons for program',
+    description: 'Retrieve the published seasons of a specific program.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Program UUID',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of seasons',
+  })
+  @ApiResponse({ status: 404, description: 'Program not found' })
+  async getSeasons(@Param('id') id: string, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToDiscovery(
+      'GET',
+      `/discovery/programs/${id}/seasons`,
+      null,
+      headers,
+    );
+  }
+
+  /**
+   * GET /api/v1/discovery/programs/:id/seasons/:seasonNumber/episodes
+   */
+  @Get('programs/:id/seasons/:seasonNumber/episodes')
+  @ApiOperation({
+    summary: 'Get episodes for season',
+    description: 'Retrieve the episodes of a season of a specific program.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Program UUID',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  @ApiParam({
+    name: 'seasonNumber',
+    type: Number,
+    description: 'Season number',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page',
+    example: 20,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Season with its episodes',
+  })
+  @ApiResponse({ status: 404, description: 'Season not found' })
+  async getSeasonEpisodes(
+    @Param('id') id: string,
+    @Param('seasonNumber') seasonNumber: string,
+    @Query() query: any,
+    @Req() req: Request,
+  ) {
+    const headers = this.getAuthHeaders(req);
+    const queryString = new URLSearchParams(query).toString();
+    const basePath = `/discovery/programs/${id}/seasons/${seasonNumber}/episodes`;
+    const path = queryString ? `${basePath}?${queryString}` : basePath;
+    return this.proxyService.proxyToDiscovery('GET', path, null, headers);
+  }
+
+  /**
+   * GET /api/v1/discovery/movies
+   */
+  @Get('movies')
+  @ApiOperation({
+    summary: 'List movies',
+    description: 'Retrieve a paginated list of published movies.',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page',
+    example: 20,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of movies',
+  })
+  async getMovies(@Query() query: any, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    const queryString = new URLSearchParams(query).toString();
+    const path = queryString ? `/discovery/movies?${queryString}` : '/discovery/movies';
+    return this.proxyService.proxyToDiscovery('GET', path, null, headers);
+  }
+
+  /**
+   * GET /api/v1/discovery/movies/:id
+   */
+  @Get('movies/:id')
+  @ApiOperation({
+    summary: 'Get movie by ID',
+    description: 'Retrieve a specific published movie.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Movie UUID',
+    example: '550e8400-e29b-41d4-a716-446655440009',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Movie details',
+  })
+  @ApiResponse({ status: 404, description: 'Movie not found' })
+  async getMovie(@Param('id') id: string, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    return this.proxyService.proxyToDiscovery('GET', `/discovery/movies/${id}`, null, headers);
+  }
+
   /**
    * GET /api/v1/discovery/trending
    */
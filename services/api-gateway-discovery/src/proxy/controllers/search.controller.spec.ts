@@ -81,4 +81,25 @@ describe('SearchController', () => {
       );
     });
   });
+
+  describe('suggest', () => {
+    it('should proxy suggest request to Search service', async () => {
+      const mockResponse = { query: 'adv', completions: [], didYouMean: null };
+      proxyService.proxyToSearch.mockResolvedValue(mockResponse);
+
+      const mockRequest = {
+        headers: {},
+      } as any;
+
+      const result = await controller.suggest({ q: 'adv', limit: 5 }, mockRequest);
+
+      expect(result).toEqual(mockResponse);
+      expect(proxyService.proxyToSearch).toHaveBeenCalledWith(
+        'GET',
+        '/search/suggest?q=adv&limit=5',
+        null,
+        expect.any(Object),
+      );
+    });
+  });
 });
@@ -107,6 +107,14 @@ export class SearchController {
     description: 'Items per page',
     example: 20,
   })
+  @ApiQuery({
+    name: 'facets',
+    required: false,
+    type: Boolean,
+    description:
+      'Also return counts of each contentType, category, language and tag among the matches',
+    example: true,
+  })
   @ApiResponse({
     status: 200,
     description: 'Search results',
@@ -118,6 +126,63 @@ export class SearchController {
     return this.proxyService.proxyToSearch('GET', path, null, headers);
   }
 
+  /**
+   * GET /api/v1/search/suggest
+   */
+  @Get('suggest')
+  @Throttle({
+    default: {
+      limit: RATE_LIMIT_CONFIG.SEARCH_LIMIT,
+      ttl: RATE_LIMIT_CONFIG.SEARCH_TTL * 1000,
+    },
+  })
+  @ApiOperation({
+    summary: 'Autocomplete a search query',
+    description: `Title completions, most popular then newest first, and a "did you mean"
+spelling correction from the indexed vocabulary. Public endpoint.
+
+**Rate Limits:**
+- IP-based: ${RATE_LIMIT_CONFIG.SEARCH_LIMIT} requests per ${RATE_LIMIT_CONFIG.SEARCH_TTL} seconds`,
+  })
+  @ApiQuery({
+    name: 'q',
+    required: true,
+    type: String,
+    description: 'What the user has typed so far',
+    example: 'great adv',
+  })
+  @ApiQuery({
+    name: 'contentType',
+    required: false,
+    type: String,
+    description: 'Filter by content type',
+    example: 'PROGRAM',
+  })
+  @ApiQuery({
+    name: 'language',
+    required: false,
+    type: String,
+    description: 'Filter by language',
+    example: 'en',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Max completions (up to 20)',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Completions and correction',
+  })
+  async suggest(@Query() query: any, @Req() req: Request) {
+    const headers = this.getAuthHeaders(req);
+    const queryString = new URLSearchParams(query).toString();
+    const path = queryString ? `/search/suggest?${queryString}` : '/search/suggest';
+    return this.proxyService.proxyToSearch('GET', path, null, headers);
+  }
+
   private getAuthHeaders(req: Request): Record<string, string> {
     const headers: Record<string, string> = {};
     if (req.headers.authorization) {
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "programs" ADD COLUMN "publishAt" TIMESTAMP(3),
+ADD COLUMN "unpublishAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "episodes" ADD COLUMN "publishAt" TIMESTAMP(3),
+ADD COLUMN "unpublishAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "programs_status_publishAt_idx" ON "programs"("status", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "programs_status_unpublishAt_idx" ON "programs"("status", "unpublishAt");
+
+-- CreateIndex
+CREATE INDEX "episodes_status_publishAt_idx" ON "episodes"("status", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "episodes_status_unpublishAt_idx" ON "episodes"("status", "unpublishAt");
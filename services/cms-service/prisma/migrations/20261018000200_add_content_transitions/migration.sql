@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "content_transitions" (
+    "id" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "fromStatus" TEXT NOT NULL,
+    "toStatus" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "actorRole" TEXT,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "content_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "content_transitions_contentId_createdAt_idx" ON "content_transitions"("contentId", "createdAt");
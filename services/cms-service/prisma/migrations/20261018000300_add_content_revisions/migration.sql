@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "content_revisions" (
+    "id" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "diff" JSONB,
+    "authorId" TEXT,
+    "restoredFrom" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "content_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "content_revisions_contentId_revision_key" ON "content_revisions"("contentId", "revision");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "programs" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "episodes" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "programs" ADD COLUMN "externalId" TEXT;
+
+-- AlterTable
+ALTER TABLE "episodes" ADD COLUMN "externalId" TEXT;
+
+-- CreateTable
+CREATE TABLE "catalog_import_jobs" (
+    "id" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "dryRun" BOOLEAN NOT NULL DEFAULT false,
+    "payload" TEXT,
+    "totalRows" INTEGER NOT NULL DEFAULT 0,
+    "processedRows" INTEGER NOT NULL DEFAULT 0,
+    "failedRows" INTEGER NOT NULL DEFAULT 0,
+    "programsCreated" INTEGER NOT NULL DEFAULT 0,
+    "programsUpdated" INTEGER NOT NULL DEFAULT 0,
+    "episodesCreated" INTEGER NOT NULL DEFAULT 0,
+    "episodesUpdated" INTEGER NOT NULL DEFAULT 0,
+    "unchanged" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB,
+    "lastError" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "catalog_import_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "programs_externalId_key" ON "programs"("externalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "episodes_programId_externalId_key" ON "episodes"("programId", "externalId");
+
+-- CreateIndex
+CREATE INDEX "catalog_import_jobs_status_createdAt_idx" ON "catalog_import_jobs"("status", "createdAt");
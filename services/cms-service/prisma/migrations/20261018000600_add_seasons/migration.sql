@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "episodes" ADD COLUMN "seasonId" TEXT;
+
+-- AlterTable
+ALTER TABLE "catalog_import_jobs" ADD COLUMN "seasonsCreated" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "seasons" (
+    "id" TEXT NOT NULL,
+    "programId" TEXT NOT NULL,
+    "seasonNumber" INTEGER NOT NULL,
+    "title" TEXT,
+    "description" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "seasons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "seasons_programId_idx" ON "seasons"("programId");
+
+-- CreateIndex
+CREATE INDEX "seasons_status_idx" ON "seasons"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seasons_programId_seasonNumber_key" ON "seasons"("programId", "seasonNumber");
+
+-- CreateIndex
+CREATE INDEX "episodes_seasonId_idx" ON "episodes"("seasonId");
+
+-- CreateIndex
+-- seasonId is new and NULL on every existing episode, so no existing rows can clash here
+CREATE UNIQUE INDEX "episodes_seasonId_episodeNumber_key" ON "episodes"("seasonId", "episodeNumber");
+
+-- AddForeignKey
+ALTER TABLE "seasons" ADD CONSTRAINT "seasons_programId_fkey" FOREIGN KEY ("programId") REFERENCES "programs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "episodes" ADD CONSTRAINT "episodes_seasonId_fkey" FOREIGN KEY ("seasonId") REFERENCES "seasons"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
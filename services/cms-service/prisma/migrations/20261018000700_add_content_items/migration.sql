@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "content_items" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "metadataId" TEXT,
+    "externalId" TEXT,
+    "duration" INTEGER,
+    "releaseDate" TIMESTAMP(3),
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "publishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "content_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "content_items_type_status_idx" ON "content_items"("type", "status");
+
+-- CreateIndex
+CREATE INDEX "content_items_createdAt_idx" ON "content_items"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "content_items_metadataId_idx" ON "content_items"("metadataId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "content_items_type_externalId_key" ON "content_items"("type", "externalId");
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "programs" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "episodes" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "programs_deletedAt_idx" ON "programs"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "episodes_deletedAt_idx" ON "episodes"("deletedAt");
+
+-- DropIndex
+DROP INDEX "programs_externalId_key";
+
+-- DropIndex
+DROP INDEX "episodes_programId_externalId_key";
+
+-- CreateIndex
+-- Content in the trash keeps its external ID without blocking a re-import of the same item.
+-- Prisma cannot model partial unique indexes, so they live in this migration only.
+CREATE UNIQUE INDEX "programs_externalId_key" ON "programs"("externalId") WHERE "deletedAt" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "episodes_programId_externalId_key" ON "episodes"("programId", "externalId") WHERE "deletedAt" IS NULL;
@@ -0,0 +1,35 @@
+-- Episode numbers were not unique before seasons existed. Stop with a list of the clashing
+-- numbers instead of failing halfway through an index build, so they can be renumbered first.
+DO $$
+DECLARE
+    duplicates TEXT;
+BEGIN
+    SELECT string_agg(
+               format('program %s, season %s, episode %s (%s episodes)',
+                      "programId", COALESCE("seasonId", 'none'), "episodeNumber", "count"),
+               '; ')
+      INTO duplicates
+      FROM (
+          SELECT "programId", "seasonId", "episodeNumber", COUNT(*) AS "count"
+            FROM "episodes"
+           WHERE "deletedAt" IS NULL
+           GROUP BY "programId", "seasonId", "episodeNumber"
+          HAVING COUNT(*) > 1
+      ) AS "clashes";
+
+    IF duplicates IS NOT NULL THEN
+        RAISE EXCEPTION 'Renumber duplicate episodes before migrating: %', duplicates;
+    END IF;
+END $$;
+
+-- DropIndex
+DROP INDEX "episodes_seasonId_episodeNumber_key";
+
+-- CreateIndex
+-- Episodes are numbered per season, or per program when they have no season. Episodes in the
+-- trash keep their number without blocking it. Prisma cannot model partial unique indexes, so
+-- they live in this migration only.
+CREATE UNIQUE INDEX "episodes_seasonId_episodeNumber_key" ON "episodes"("seasonId", "episodeNumber") WHERE "deletedAt" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "episodes_programId_episodeNumber_no_season_key" ON "episodes"("programId", "episodeNumber") WHERE "seasonId" IS NULL AND "deletedAt" IS NULL;
@@ -1,13 +1,32 @@
 import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from './prisma/prisma.module';
 import { ProgramsModule } from './programs/programs.module';
+import { SeasonsModule } from './seasons/seasons.module';
 import { EpisodesModule } from './episodes/episodes.module';
+import { ContentItemsModule } from './content-items/content-items.module';
 import { KafkaModule } from './kafka/kafka.module';
+import { OutboxModule } from './outbox/outbox.module';
+import { SchedulesModule } from './schedules/schedules.module';
+import { CatalogModule } from './catalog/catalog.module';
+import { TrashModule } from './trash/trash.module';
 
 @Module({
-  imports: [PrismaModule, KafkaModule, ProgramsModule, EpisodesModule],
+  imports: [
+    ScheduleModule.forRoot(),
+    PrismaModule,
+    KafkaModule,
+    OutboxModule,
+    ProgramsModule,
+    SeasonsModule,
+    EpisodesModule,
+    ContentItemsModule,
+    SchedulesModule,
+    CatalogModule,
+    TrashModule,
+  ],
   controllers: [AppController],
   providers: [AppService],
 })
@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { ProgramsModule } from '../programs/programs.module';
+import { EpisodesModule } from '../episodes/episodes.module';
+import { SeasonsModule } from '../seasons/seasons.module';
+import { CatalogImportJobRepository } from './repositories/catalog-import-job.repository';
+import { CatalogImportService } from './services/catalog-import.service';
+import { CatalogImportProcessor } from './services/catalog-import.processor';
+import { CatalogExportService } from './services/catalog-export.service';
+import { CatalogController } from './controllers/catalog.controller';
+import { JWT_CONFIG } from '../config/env.constants';
+
+/**
+ * Catalog Module
+ *
+ * Bulk catalog import (background jobs run by CatalogImportProcessor) and streaming
+ * export of programs with their episodes.
+ */
+@Module({
+  imports: [
+    ProgramsModule,
+    EpisodesModule,
+    SeasonsModule,
+    JwtModule.register({
+      secret: JWT_CONFIG.SECRET,
+      signOptions: {
+        expiresIn: JWT_CONFIG.EXPIRATION_STRING,
+      },
+    }),
+  ],
+  controllers: [CatalogController],
+  providers: [
+    CatalogImportJobRepository,
+    CatalogImportService,
+    CatalogImportProcessor,
+    CatalogExportService,
+  ],
+})
+export class CatalogModule {}
@@ -0,0 +1,304 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import request from 'supertest';
+import { FastifyAdapter, NestFastifyApplication } from '@nestjs/platform-fastify';
+import { CatalogController } from './catalog.controller';
+import { CatalogImportService } from '../services/catalog-import.service';
+import { CatalogExportService } from '../services/catalog-export.service';
+import { CatalogImportJobRepository } from '../repositories/catalog-import-job.repository';
+import {
+  CatalogFormat,
+  CatalogImportJob,
+  ImportJobStatus,
+} from '../entities/catalog-import-job.entity';
+import { registerCatalogContentTypeParsers } from '../utils/catalog-format.util';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { ProgramService } from '../../programs/services/program.service';
+import { Program } from '../../programs/entities/program.entity';
+import { EpisodeRepository } from '../../episodes/repositories/episode.repository';
+import { EpisodeService } from '../../episodes/services/episode.service';
+import { SeasonRepository } from '../../seasons/repositories/season.repository';
+import { SeasonService } from '../../seasons/services/season.service';
+import { Episode } from '../../episodes/entities/episode.entity';
+import { ContentStatus, JwtAuthGuard, RolesGuard } from '@mediamesh/shared';
+
+describe('CatalogController (integration)', () => {
+  let app: INestApplication;
+  let importJobRepository: jest.Mocked<CatalogImportJobRepository>;
+  let programRepository: jest.Mocked<ProgramRepository>;
+  let episodeRepository: jest.Mocked<EpisodeRepository>;
+
+  const createJob = (overrides: Partial<CatalogImportJob> = {}) =>
+    new CatalogImportJob({
+      id: 'job-1',
+      format: CatalogFormat.NDJSON,
+      status: ImportJobStatus.PENDING,
+      dryRun: false,
+      totalRows: 0,
+      processedRows: 0,
+      failedRows: 0,
+      programsCreated: 0,
+      programsUpdated: 0,
+      seasonsCreated: 0,
+      episodesCreated: 0,
+      episodesUpdated: 0,
+      unchanged: 0,
+      errors: [],
+      createdBy: 'admin-1',
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+      ...overrides,
+    });
+
+  const program = new Program({
+    id: 'program-1',
+    externalId: 'show-1',
+    title: 'Show, One',
+    status: ContentStatus.PUBLISHED,
+    version: 1,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  const episode = new Episode({
+    id: 'episode-1',
+    programId: 'program-1',
+    seasonId: 'season-1',
+    seasonNumber: 2,
+    title: 'Pilot',
+    episodeNumber: 1,
+    duration: 1800,
+    status: ContentStatus.DRAFT,
+    version: 1,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      controllers: [CatalogController],
+      providers: [
+        CatalogImportService,
+        CatalogExportService,
+        {
+          provide: CatalogImportJobRepository,
+          useValue: {
+            create: jest.fn((data) => Promise.resolve(createJob(data))),
+            findById: jest.fn(),
+            findAll: jest.fn(),
+          },
+        },
+        {
+          provide: ProgramRepository,
+          useValue: { findByExternalId: jest.fn(), findBatchAfter: jest.fn() },
+        },
+        {
+          provide: EpisodeRepository,
+          useValue: { findByProgramIds: jest.fn() },
+        },
+        { provide: ProgramService, useValue: {} },
+        { provide: EpisodeService, useValue: {} },
+        { provide: SeasonRepository, useValue: {} },
+        { provide: SeasonService, useValue: {} },
+        {
+          provide: JwtService,
+          useValue: {
+            signAsync: jest.fn(),
+            verifyAsync: jest.fn(),
+          },
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: jest.fn((context) => {
+          context.switchToHttp().getRequest().user = { id: 'admin-1', role: 'ADMIN' };
+          return true;
+        }),
+      })
+      .overrideGuard(RolesGuard)
+      .useValue({
+        canActivate: jest.fn(() => true),
+      })
+      .compile();
+
+    app = moduleFixture.createNestApplication<NestFastifyApplication>(new FastifyAdapter());
+    registerCatalogContentTypeParsers(app as NestFastifyApplication);
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    importJobRepository = moduleFixture.get(CatalogImportJobRepository);
+    programRepository = moduleFixture.get(ProgramRepository);
+    episodeRepository = moduleFixture.get(EpisodeRepository);
+
+    await app.init();
+    await app.getHttpAdapter().getInstance().ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.clearAllMocks();
+  });
+
+  describe('POST /catalog/import', () => {
+    it('should queue an NDJSON import', async () => {
+      const body = '{"externalId":"show-1","title":"Show"}\n';
+
+      const response = await request(app.getHttpServer())
+        .post('/catalog/import')
+        .set('Content-Type', 'application/x-ndjson')
+        .send(body)
+        .expect(202);
+
+      expect(response.body).toMatchObject({
+        id: 'job-1',
+        format: CatalogFormat.NDJSON,
+        status: ImportJobStatus.PENDING,
+        dryRun: false,
+      });
+      expect(importJobRepository.create).toHaveBeenCalledWith({
+        format: CatalogFormat.NDJSON,
+        dryRun: false,
+        payload: body,
+        createdBy: 'admin-1',
+      });
+    });
+
+    it('should queue a CSV dry run', async () => {
+      await request(app.getHttpServer())
+        .post('/catalog/import')
+        .query({ dryRun: 'true' })
+        .set('Content-Type', 'text/csv')
+        .send('program_title\nShow\n')
+        .expect(202);
+
+      expect(importJobRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ format: CatalogFormat.CSV, dryRun: true }),
+      );
+    });
+
+    it('should reject unsupported formats', async () => {
+      await request(app.getHttpServer())
+        .post('/catalog/import')
+        .send({ title: 'Show' })
+        .expect(400);
+
+      expect(importJobRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an empty body', async () => {
+      await request(app.getHttpServer())
+        .post('/catalog/import')
+        .set('Content-Type', 'text/csv')
+        .send('\n')
+        .expect(400);
+    });
+  });
+
+  describe('GET /catalog/import/jobs/:id', () => {
+    it('should return job progress and row errors', async () => {
+      importJobRepository.findById.mockResolvedValue(
+        createJob({
+          status: ImportJobStatus.COMPLETED,
+          totalRows: 3,
+          processedRows: 3,
+          failedRows: 1,
+          programsCreated: 2,
+          errors: [{ row: 2, field: 'title', message: 'Title is required' }],
+          completedAt: new Date('2024-01-01T00:01:00Z'),
+        }),
+      );
+
+      const response = await request(app.getHttpServer())
+        .get('/catalog/import/jobs/job-1')
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        status: ImportJobStatus.COMPLETED,
+        failedRows: 1,
+        programsCreated: 2,
+        errors: [{ row: 2, field: 'title', message: 'Title is required' }],
+        completedAt: '2024-01-01T00:01:00.000Z',
+      });
+    });
+
+    it('should return 404 for unknown jobs', async () => {
+      importJobRepository.findById.mockResolvedValue(null);
+
+      await request(app.getHttpServer()).get('/catalog/import/jobs/missing').expect(404);
+    });
+  });
+
+  describe('GET /catalog/import/jobs', () => {
+    it('should reject an invalid status filter', async () => {
+      await request(app.getHttpServer())
+        .get('/catalog/import/jobs')
+        .query({ status: 'DONE' })
+        .expect(400);
+
+      expect(importJobRepository.findAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /catalog/export', () => {
+    beforeEach(() => {
+      programRepository.findBatchAfter.mockResolvedValueOnce([program]);
+      episodeRepository.findByProgramIds.mockResolvedValue([episode]);
+    });
+
+    it('should stream NDJSON by default', async () => {
+      const response = await request(app.getHttpServer()).get('/catalog/export').expect(200);
+
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+      expect(response.headers['content-disposition']).toMatch(/attachment; filename="catalog-/);
+      expect(
+        response.text
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line)),
+      ).toEqual([
+        {
+          externalId: 'show-1',
+          title: 'Show, One',
+          status: ContentStatus.PUBLISHED,
+          episodes: [
+            {
+              seasonNumber: 2,
+              episodeNumber: 1,
+              title: 'Pilot',
+              duration: 1800,
+              status: ContentStatus.DRAFT,
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should stream CSV', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/catalog/export')
+        .query({ format: 'csv' })
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.text.split('\r\n')).toEqual([
+        expect.stringMatching(/^program_external_id,program_title,/),
+        'show-1,"Show, One",,PUBLISHED,,,2,1,Pilot,,1800,DRAFT,',
+        '',
+      ]);
+    });
+
+    it('should reject unsupported formats', async () => {
+      await request(app.getHttpServer())
+        .get('/catalog/export')
+        .query({ format: 'xml' })
+        .expect(400);
+    });
+  });
+});
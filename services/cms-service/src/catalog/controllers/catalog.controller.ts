@@ -0,0 +1,252 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  UseGuards,
+  BadRequestException,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiConsumes,
+  ApiProduces,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Readable } from 'stream';
+import { CatalogImportService } from '../services/catalog-import.service';
+import { CatalogExportService } from '../services/catalog-export.service';
+import {
+  CatalogFormat,
+  CatalogImportJob,
+  ImportJobStatus,
+} from '../entities/catalog-import-job.entity';
+import { CatalogImportJobDto } from '../dto/catalog.dto';
+import { CATALOG_CONTENT_TYPES, resolveCatalogFormat } from '../utils/catalog-format.util';
+import { JwtAuthGuard, RolesGuard, Roles, CurrentUser } from '@mediamesh/shared';
+import { UserRole } from '@mediamesh/shared';
+
+/**
+ * Catalog Controller
+ *
+ * Admin endpoints for bulk catalog import/export:
+ * - POST /catalog/import - Queue an NDJSON/CSV import job
+ * - GET /catalog/import/jobs - List import jobs
+ * - GET /catalog/import/jobs/:id - Get import job status, counters and row errors
+ * - GET /catalog/export - Stream the catalog as NDJSON/CSV
+ */
+@ApiTags('Catalog')
+@Controller('catalog')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class CatalogController {
+  private readonly logger = new Logger(CatalogController.name);
+
+  constructor(
+    private readonly catalogImportService: CatalogImportService,
+    private readonly catalogExportService: CatalogExportService,
+  ) {}
+
+  /**
+   * Queue catalog import
+   * POST /catalog/import
+   */
+  @Post('import')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Import programs with nested episodes',
+    description:
+      'Queues a background import job. Programs are upserted by externalId, episodes by ' +
+      'externalId or episode number within their program. Poll the job for progress and ' +
+      'per-row errors.',
+  })
+  @ApiConsumes(CATALOG_CONTENT_TYPES.NDJSON, CATALOG_CONTENT_TYPES.CSV)
+  @ApiBody({
+    description: 'One program per NDJSON line, or CSV rows with one episode per row',
+    schema: { type: 'string' },
+  })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description: 'Validate and count changes without writing them',
+  })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: ['ndjson', 'csv'],
+    description: 'Overrides the format derived from Content-Type',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Import job queued',
+    type: CatalogImportJobDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Empty body or unsupported format',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async importCatalog(
+    @Body() body: string,
+    @Headers('content-type') contentType?: string,
+    @Query('format') format?: string,
+    @Query('dryRun') dryRun?: string,
+    @CurrentUser('id') userId?: string,
+  ): Promise<CatalogImportJobDto> {
+    const catalogFormat = resolveCatalogFormat(format ?? contentType);
+    if (!catalogFormat) {
+      throw new BadRequestException(
+        `Unsupported import format. Send ${CATALOG_CONTENT_TYPES.NDJSON} or ` +
+          `${CATALOG_CONTENT_TYPES.CSV}`,
+      );
+    }
+
+    const job = await this.catalogImportService.createJob(body, catalogFormat, {
+      dryRun: dryRun === 'true',
+      createdBy: userId,
+    });
+    return this.toDto(job);
+  }
+
+  /**
+   * List import jobs
+   * GET /catalog/import/jobs
+   */
+  @Get('import/jobs')
+  @ApiOperation({ summary: 'List catalog import jobs (newest first)' })
+  @ApiQuery({ name: 'status', required: false, enum: ImportJobStatus })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    type: Number,
+    description: 'Number of records to skip',
+  })
+  @ApiQuery({
+    name: 'take',
+    required: false,
+    type: Number,
+    description: 'Number of records to take',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of import jobs',
+    type: [CatalogImportJobDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid status filter',
+  })
+  async findJobs(
+    @Query('status') status?: ImportJobStatus,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<CatalogImportJobDto[]> {
+    if (status && !Object.values(ImportJobStatus).includes(status)) {
+      throw new BadRequestException(`Invalid status filter: ${status}`);
+    }
+
+    const skipNum = skip ? parseInt(skip, 10) : 0;
+    const takeNum = take ? parseInt(take, 10) : 20;
+
+    const jobs = await this.catalogImportService.findJobs(status, skipNum, takeNum);
+    return jobs.map((job) => this.toDto(job));
+  }
+
+  /**
+   * Get import job
+   * GET /catalog/import/jobs/:id
+   */
+  @Get('import/jobs/:id')
+  @ApiOperation({ summary: 'Get catalog import job status, counters and row errors' })
+  @ApiParam({ name: 'id', type: String, description: 'Import job ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import job',
+    type: CatalogImportJobDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Import job not found',
+  })
+  async findJob(@Param('id') id: string): Promise<CatalogImportJobDto> {
+    const job = await this.catalogImportService.findJob(id);
+    return this.toDto(job);
+  }
+
+  /**
+   * Export catalog
+   * GET /catalog/export
+   */
+  @Get('export')
+  @ApiOperation({
+    summary: 'Stream all programs with their episodes',
+    description: 'Same format as the import, so exports can be re-imported as backups',
+  })
+  @ApiQuery({ name: 'format', required: false, enum: ['ndjson', 'csv'] })
+  @ApiProduces(CATALOG_CONTENT_TYPES.NDJSON, CATALOG_CONTENT_TYPES.CSV)
+  @ApiResponse({
+    status: 200,
+    description: 'Catalog export stream',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unsupported format',
+  })
+  exportCatalog(@Query('format') format: string = 'ndjson'): StreamableFile {
+    const catalogFormat = resolveCatalogFormat(format);
+    if (!catalogFormat) {
+      throw new BadRequestException(`Unsupported export format: ${format}`);
+    }
+
+    const extension = catalogFormat === CatalogFormat.CSV ? 'csv' : 'ndjson';
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new StreamableFile(Readable.from(this.catalogExportService.export(catalogFormat)), {
+      type: CATALOG_CONTENT_TYPES[catalogFormat],
+      disposition: `attachment; filename="catalog-${date}.${extension}"`,
+    });
+  }
+
+  /**
+   * Convert CatalogImportJob entity to DTO
+   */
+  private toDto(job: CatalogImportJob): CatalogImportJobDto {
+    return {
+      id: job.id,
+      format: job.format,
+      status: job.status,
+      dryRun: job.dryRun,
+      totalRows: job.totalRows,
+      processedRows: job.processedRows,
+      failedRows: job.failedRows,
+      programsCreated: job.programsCreated,
+      programsUpdated: job.programsUpdated,
+      seasonsCreated: job.seasonsCreated,
+      episodesCreated: job.episodesCreated,
+      episodesUpdated: job.episodesUpdated,
+      unchanged: job.unchanged,
+      errors: job.errors,
+      lastError: job.lastError,
+      createdBy: job.createdBy,
+      createdAt: job.createdAt.toISOString(),
+      startedAt: job.startedAt?.toISOString(),
+      completedAt: job.completedAt?.toISOString(),
+    };
+  }
+}
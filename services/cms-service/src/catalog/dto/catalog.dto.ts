@@ -0,0 +1,176 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { ContentStatus } from '@mediamesh/shared';
+import { CatalogFormat, ImportJobStatus } from '../entities/catalog-import-job.entity';
+
+/**
+ * Catalog Episode Record
+ *
+ * One episode nested in a catalog program record (import/export line format).
+ */
+export class CatalogEpisodeRecordDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  externalId?: string;
+
+  @IsString()
+  @MinLength(1, { message: 'Title is required' })
+  @MaxLength(200, { message: 'Title must not exceed 200 characters' })
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, { message: 'Description must not exceed 1000 characters' })
+  description?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  seasonNumber?: number; // Season the episode belongs to; created if missing
+
+  @IsInt()
+  @Min(1)
+  episodeNumber: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  duration?: number; // in seconds
+
+  @IsOptional()
+  @IsEnum(ContentStatus)
+  status?: ContentStatus;
+
+  @IsOptional()
+  @IsString()
+  metadataId?: string;
+}
+
+/**
+ * Catalog Program Record
+ *
+ * One program with its episodes: a line of NDJSON, or a group of CSV rows.
+ */
+export class CatalogProgramRecordDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  externalId?: string;
+
+  @IsString()
+  @MinLength(1, { message: 'Title is required' })
+  @MaxLength(200, { message: 'Title must not exceed 200 characters' })
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, { message: 'Description must not exceed 1000 characters' })
+  description?: string;
+
+  @IsOptional()
+  @IsEnum(ContentStatus)
+  status?: ContentStatus;
+
+  @IsOptional()
+  @IsString()
+  metadataId?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CatalogEpisodeRecordDto)
+  episodes?: CatalogEpisodeRecordDto[];
+}
+
+/**
+ * Import Row Error DTO
+ */
+export class ImportRowErrorDto {
+  @ApiProperty({ description: 'Line (NDJSON) or data row (CSV) number, 1-based', example: 3 })
+  row: number;
+
+  @ApiPropertyOptional({ description: 'External ID of the failing record', example: 'show-42' })
+  externalId?: string;
+
+  @ApiPropertyOptional({ description: 'Failing field', example: 'episodes[1].episodeNumber' })
+  field?: string;
+
+  @ApiProperty({ description: 'Error message', example: 'episodeNumber must not be less than 1' })
+  message: string;
+}
+
+/**
+ * Catalog Import Job DTO
+ */
+export class CatalogImportJobDto {
+  @ApiProperty({ description: 'Import job ID', example: '550e8400-e29b-41d4-a716-446655440001' })
+  id: string;
+
+  @ApiProperty({ description: 'Import format', enum: CatalogFormat })
+  format: CatalogFormat;
+
+  @ApiProperty({ description: 'Job status', enum: ImportJobStatus })
+  status: ImportJobStatus;
+
+  @ApiProperty({ description: 'Validate and count changes without writing them' })
+  dryRun: boolean;
+
+  @ApiProperty({ description: 'Rows found in the import', example: 120 })
+  totalRows: number;
+
+  @ApiProperty({ description: 'Rows processed so far', example: 120 })
+  processedRows: number;
+
+  @ApiProperty({ description: 'Rows rejected with an error', example: 2 })
+  failedRows: number;
+
+  @ApiProperty({ description: 'Programs created (or that would be, in dry-run)', example: 10 })
+  programsCreated: number;
+
+  @ApiProperty({ description: 'Programs updated (or that would be, in dry-run)', example: 1 })
+  programsUpdated: number;
+
+  @ApiProperty({ description: 'Seasons created (or that would be, in dry-run)', example: 2 })
+  seasonsCreated: number;
+
+  @ApiProperty({ description: 'Episodes created (or that would be, in dry-run)', example: 100 })
+  episodesCreated: number;
+
+  @ApiProperty({ description: 'Episodes updated (or that would be, in dry-run)', example: 5 })
+  episodesUpdated: number;
+
+  @ApiProperty({ description: 'Programs and episodes already up to date', example: 4 })
+  unchanged: number;
+
+  @ApiProperty({ description: 'Per-row errors (capped)', type: [ImportRowErrorDto] })
+  errors: ImportRowErrorDto[];
+
+  @ApiPropertyOptional({ description: 'Job-level failure' })
+  lastError?: string;
+
+  @ApiPropertyOptional({ description: 'User who started the import' })
+  createdBy?: string;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: string;
+
+  @ApiPropertyOptional({ description: 'When processing started' })
+  startedAt?: string;
+
+  @ApiPropertyOptional({ description: 'When processing finished' })
+  completedAt?: string;
+}
@@ -0,0 +1,139 @@
+/**
+ * Catalog Import Job Status Enum
+ */
+export enum ImportJobStatus {
+  PENDING = 'PENDING',
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Catalog Format Enum
+ *
+ * Wire formats accepted by the import endpoint and produced by the export endpoint.
+ */
+export enum CatalogFormat {
+  NDJSON = 'NDJSON',
+  CSV = 'CSV',
+}
+
+/**
+ * Per-row import error
+ *
+ * `row` is the 1-based line (NDJSON) or data row (CSV) the error was found on.
+ */
+export interface ImportRowError {
+  row: number;
+  externalId?: string;
+  field?: string;
+  message: string;
+}
+
+/**
+ * Import counters, persisted as the job progresses
+ *
+ * In dry-run mode the created/updated counters are what would have been written.
+ */
+export interface ImportJobCounters {
+  totalRows: number;
+  processedRows: number;
+  failedRows: number;
+  programsCreated: number;
+  programsUpdated: number;
+  seasonsCreated: number;
+  episodesCreated: number;
+  episodesUpdated: number;
+  unchanged: number;
+}
+
+/**
+ * Catalog Import Job Entity
+ *
+ * Tracks a bulk import of programs (with nested episodes) that runs in the background.
+ */
+export class CatalogImportJob implements ImportJobCounters {
+  id: string;
+  format: CatalogFormat;
+  status: ImportJobStatus;
+  dryRun: boolean;
+  payload?: string; // Raw import body, cleared once the job finishes
+  totalRows: number;
+  processedRows: number;
+  failedRows: number;
+  programsCreated: number;
+  programsUpdated: number;
+  seasonsCreated: number;
+  episodesCreated: number;
+  episodesUpdated: number;
+  unchanged: number;
+  errors: ImportRowError[];
+  lastError?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+
+  constructor(partial: Partial<CatalogImportJob>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create CatalogImportJob entity from Prisma model
+   */
+  static fromPrisma(prismaJob: {
+    id: string;
+    format: string;
+    status: string;
+    dryRun: boolean;
+    payload?: string | null; // Not selected when listing jobs
+    totalRows: number;
+    processedRows: number;
+    failedRows: number;
+    programsCreated: number;
+    programsUpdated: number;
+    seasonsCreated: number;
+    episodesCreated: number;
+    episodesUpdated: number;
+    unchanged: number;
+    errors: any;
+    lastError: string | null;
+    createdBy: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+    startedAt: Date | null;
+    completedAt: Date | null;
+  }): CatalogImportJob {
+    return new CatalogImportJob({
+      id: prismaJob.id,
+      format: prismaJob.format as CatalogFormat,
+      status: prismaJob.status as ImportJobStatus,
+      dryRun: prismaJob.dryRun,
+      payload: prismaJob.payload ?? undefined,
+      totalRows: prismaJob.totalRows,
+      processedRows: prismaJob.processedRows,
+      failedRows: prismaJob.failedRows,
+      programsCreated: prismaJob.programsCreated,
+      programsUpdated: prismaJob.programsUpdated,
+      seasonsCreated: prismaJob.seasonsCreated,
+      episodesCreated: prismaJob.episodesCreated,
+      episodesUpdated: prismaJob.episodesUpdated,
+      unchanged: prismaJob.unchanged,
+      errors: prismaJob.errors || [],
+      lastError: prismaJob.lastError || undefined,
+      createdBy: prismaJob.createdBy || undefined,
+      createdAt: prismaJob.createdAt,
+      updatedAt: prismaJob.updatedAt,
+      startedAt: prismaJob.startedAt || undefined,
+      completedAt: prismaJob.completedAt || undefined,
+    });
+  }
+
+  /**
+   * Whether the job has finished (successfully or not)
+   */
+  isFinished(): boolean {
+    return this.status === ImportJobStatus.COMPLETED || this.status === ImportJobStatus.FAILED;
+  }
+}
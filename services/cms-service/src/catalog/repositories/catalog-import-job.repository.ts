@@ -0,0 +1,207 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  CatalogFormat,
+  CatalogImportJob,
+  ImportJobCounters,
+  ImportJobStatus,
+  ImportRowError,
+} from '../entities/catalog-import-job.entity';
+
+// Every column except the (potentially large) raw payload
+const JOB_SUMMARY_SELECT = {
+  id: true,
+  format: true,
+  status: true,
+  dryRun: true,
+  totalRows: true,
+  processedRows: true,
+  failedRows: true,
+  programsCreated: true,
+  programsUpdated: true,
+  seasonsCreated: true,
+  episodesCreated: true,
+  episodesUpdated: true,
+  unchanged: true,
+  errors: true,
+  lastError: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+  startedAt: true,
+  completedAt: true,
+};
+
+/**
+ * Catalog Import Job Repository
+ *
+ * Data access layer for CatalogImportJob entities.
+ */
+@Injectable()
+export class CatalogImportJobRepository {
+  private readonly logger = new Logger(CatalogImportJobRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a new PENDING import job
+   */
+  async create(data: {
+    format: CatalogFormat;
+    dryRun: boolean;
+    payload: string;
+    createdBy?: string;
+  }): Promise<CatalogImportJob> {
+    const prismaJob = await this.prisma.catalogImportJob.create({
+      data: {
+        format: data.format,
+        dryRun: data.dryRun,
+        payload: data.payload,
+        createdBy: data.createdBy,
+        status: ImportJobStatus.PENDING,
+      },
+      select: JOB_SUMMARY_SELECT,
+    });
+
+    return CatalogImportJob.fromPrisma(prismaJob);
+  }
+
+  /**
+   * Find import job by ID (without payload)
+   */
+  async findById(id: string): Promise<CatalogImportJob | null> {
+    const prismaJob = await this.prisma.catalogImportJob.findUnique({
+      where: { id },
+      select: JOB_SUMMARY_SELECT,
+    });
+
+    return prismaJob ? CatalogImportJob.fromPrisma(prismaJob) : null;
+  }
+
+  /**
+   * Find import jobs with pagination, newest first (without payload)
+   */
+  async findAll(
+    status?: ImportJobStatus,
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<CatalogImportJob[]> {
+    const prismaJobs = await this.prisma.catalogImportJob.findMany({
+      where: status ? { status } : undefined,
+      skip,
+      take,
+      orderBy: { createdAt: 'desc' },
+      select: JOB_SUMMARY_SELECT,
+    });
+
+    return prismaJobs.map(CatalogImportJob.fromPrisma);
+  }
+
+  /**
+   * Claim the oldest PENDING job by moving it to RUNNING
+   *
+   * The status-guarded updateMany makes the claim safe when several instances poll
+   * concurrently: only the instance whose update matched the row gets the job.
+   *
+   * @returns the claimed job including its payload, or null if nothing is pending
+   */
+  async claimNext(): Promise<CatalogImportJob | null> {
+    const next = await this.prisma.catalogImportJob.findFirst({
+      where: { status: ImportJobStatus.PENDING },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+
+    if (!next) {
+      return null;
+    }
+
+    const { count } = await this.prisma.catalogImportJob.updateMany({
+      where: { id: next.id, status: ImportJobStatus.PENDING },
+      data: { status: ImportJobStatus.RUNNING, startedAt: new Date() },
+    });
+
+    if (count !== 1) {
+      this.logger.debug(`Import job ${next.id} was claimed by another instance`);
+      return null;
+    }
+
+    const prismaJob = await this.prisma.catalogImportJob.findUnique({
+      where: { id: next.id },
+    });
+
+    return prismaJob ? CatalogImportJob.fromPrisma(prismaJob) : null;
+  }
+
+  /**
+   * Persist progress of a running job (also refreshes its updatedAt heartbeat)
+   */
+  async updateProgress(
+    id: string,
+    counters: ImportJobCounters,
+    errors: ImportRowError[],
+  ): Promise<void> {
+    await this.prisma.catalogImportJob.update({
+      where: { id },
+      data: { ...counters, errors: toErrorsJson(errors) },
+    });
+  }
+
+  /**
+   * Mark job as completed and drop its payload
+   */
+  async complete(id: string, counters: ImportJobCounters, errors: ImportRowError[]): Promise<void> {
+    await this.prisma.catalogImportJob.update({
+      where: { id },
+      data: {
+        ...counters,
+        errors: toErrorsJson(errors),
+        status: ImportJobStatus.COMPLETED,
+        payload: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Mark job as failed and drop its payload
+   */
+  async fail(id: string, lastError: string): Promise<void> {
+    await this.prisma.catalogImportJob.update({
+      where: { id },
+      data: {
+        status: ImportJobStatus.FAILED,
+        lastError,
+        payload: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Fail RUNNING jobs whose heartbeat is older than `before` (the worker died mid-run)
+   *
+   * @returns number of jobs failed
+   */
+  async failStale(before: Date): Promise<number> {
+    const { count } = await this.prisma.catalogImportJob.updateMany({
+      where: { status: ImportJobStatus.RUNNING, updatedAt: { lt: before } },
+      data: {
+        status: ImportJobStatus.FAILED,
+        lastError: 'Import interrupted: no progress reported before the stale timeout',
+        payload: null,
+        completedAt: new Date(),
+      },
+    });
+
+    return count;
+  }
+}
+
+/**
+ * Row errors as a Prisma JSON value
+ */
+function toErrorsJson(errors: ImportRowError[]): Prisma.InputJsonValue {
+  return errors.map((error) => ({ ...error }));
+}
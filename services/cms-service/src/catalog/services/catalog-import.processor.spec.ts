@@ -0,0 +1,75 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CatalogImportProcessor } from './catalog-import.processor';
+import { CatalogImportService } from './catalog-import.service';
+import { CatalogImportJobRepository } from '../repositories/catalog-import-job.repository';
+import { CATALOG_CONFIG } from '../../config/env.constants';
+
+describe('CatalogImportProcessor', () => {
+  let processor: CatalogImportProcessor;
+  let importJobRepository: jest.Mocked<CatalogImportJobRepository>;
+  let catalogImportService: jest.Mocked<CatalogImportService>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CatalogImportProcessor,
+        {
+          provide: CatalogImportJobRepository,
+          useValue: {
+            failStale: jest.fn().mockResolvedValue(0),
+            claimNext: jest.fn().mockResolvedValue(null),
+          },
+        },
+        {
+          provide: CatalogImportService,
+          useValue: { run: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    processor = module.get<CatalogImportProcessor>(CatalogImportProcessor);
+    importJobRepository = module.get(CatalogImportJobRepository);
+    catalogImportService = module.get(CatalogImportService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should run claimed jobs until none are pending', async () => {
+    importJobRepository.claimNext
+      .mockResolvedValueOnce({ id: 'job-1' } as any)
+      .mockResolvedValueOnce({ id: 'job-2' } as any)
+      .mockResolvedValueOnce(null);
+
+    const processed = await processor.runPending();
+
+    expect(processed).toBe(2);
+    expect(catalogImportService.run).toHaveBeenCalledWith({ id: 'job-1' });
+    expect(catalogImportService.run).toHaveBeenCalledWith({ id: 'job-2' });
+  });
+
+  it('should fail stale jobs before claiming', async () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+
+    await processor.runPending(now);
+
+    expect(importJobRepository.failStale).toHaveBeenCalledWith(
+      new Date(now.getTime() - CATALOG_CONFIG.STALE_AFTER_MS),
+    );
+  });
+
+  it('should skip a poll while the previous one is still running', async () => {
+    let release!: () => void;
+    importJobRepository.failStale.mockReturnValueOnce(
+      new Promise((resolve) => (release = () => resolve(0))),
+    );
+
+    const first = processor.processPendingJobs();
+    await processor.processPendingJobs();
+    release();
+    await first;
+
+    expect(importJobRepository.failStale).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,68 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { CatalogImportJobRepository } from '../repositories/catalog-import-job.repository';
+import { CatalogImportService } from './catalog-import.service';
+import { CATALOG_CONFIG } from '../../config/env.constants';
+
+/**
+ * Catalog Import Processor
+ *
+ * Background worker that claims PENDING import jobs one at a time and runs them.
+ * RUNNING jobs that stopped reporting progress (the instance running them died) are
+ * failed so they don't stay RUNNING forever; imports upsert by external ID, so the
+ * file can simply be submitted again.
+ */
+@Injectable()
+export class CatalogImportProcessor {
+  private readonly logger = new Logger(CatalogImportProcessor.name);
+  private running = false;
+
+  constructor(
+    private readonly importJobRepository: CatalogImportJobRepository,
+    private readonly catalogImportService: CatalogImportService,
+  ) {}
+
+  /**
+   * Poll for pending import jobs
+   */
+  @Interval(CATALOG_CONFIG.POLL_INTERVAL_MS)
+  async processPendingJobs(): Promise<void> {
+    // Skip if the previous run is still processing
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runPending();
+    } catch (error) {
+      this.logger.error('Error processing catalog import jobs:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Fail stale jobs, then run pending jobs until none are left
+   *
+   * @returns number of jobs run
+   */
+  async runPending(now: Date = new Date()): Promise<number> {
+    const stale = await this.importJobRepository.failStale(
+      new Date(now.getTime() - CATALOG_CONFIG.STALE_AFTER_MS),
+    );
+    if (stale > 0) {
+      this.logger.warn(`Failed ${stale} stale catalog import job(s)`);
+    }
+
+    let processed = 0;
+    let job = await this.importJobRepository.claimNext();
+    while (job) {
+      await this.catalogImportService.run(job);
+      processed++;
+      job = await this.importJobRepository.claimNext();
+    }
+
+    return processed;
+  }
+}
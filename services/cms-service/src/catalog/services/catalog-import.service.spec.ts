@@ -0,0 +1,385 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { CatalogImportService } from './catalog-import.service';
+import { CatalogImportJobRepository } from '../repositories/catalog-import-job.repository';
+import {
+  CatalogFormat,
+  CatalogImportJob,
+  ImportJobStatus,
+} from '../entities/catalog-import-job.entity';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { ProgramService } from '../../programs/services/program.service';
+import { Program } from '../../programs/entities/program.entity';
+import { EpisodeRepository } from '../../episodes/repositories/episode.repository';
+import { EpisodeService } from '../../episodes/services/episode.service';
+import { Episode } from '../../episodes/entities/episode.entity';
+import { SeasonRepository } from '../../seasons/repositories/season.repository';
+import { SeasonService } from '../../seasons/services/season.service';
+import { Season } from '../../seasons/entities/season.entity';
+import { ContentStatus } from '@mediamesh/shared';
+
+describe('CatalogImportService', () => {
+  let service: CatalogImportService;
+  let importJobRepository: jest.Mocked<CatalogImportJobRepository>;
+  let programRepository: jest.Mocked<ProgramRepository>;
+  let programService: jest.Mocked<ProgramService>;
+  let episodeRepository: jest.Mocked<EpisodeRepository>;
+  let episodeService: jest.Mocked<EpisodeService>;
+  let seasonRepository: jest.Mocked<SeasonRepository>;
+  let seasonService: jest.Mocked<SeasonService>;
+
+  const existingProgram = new Program({
+    id: 'program-1',
+    externalId: 'show-1',
+    title: 'Show One',
+    description: 'Old description',
+    status: ContentStatus.DRAFT,
+    version: 3,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  const existingEpisode = new Episode({
+    id: 'episode-1',
+    programId: 'program-1',
+    title: 'Pilot',
+    episodeNumber: 1,
+    status: ContentStatus.DRAFT,
+    version: 2,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  const createJob = (payload: string, overrides: Partial<CatalogImportJob> = {}) =>
+    new CatalogImportJob({
+      id: 'job-1',
+      format: CatalogFormat.NDJSON,
+      status: ImportJobStatus.RUNNING,
+      dryRun: false,
+      payload,
+      createdBy: 'admin-1',
+      errors: [],
+      ...overrides,
+    });
+
+  const ndjson = (...records: Record<string, any>[]) =>
+    records.map((record) => JSON.stringify(record)).join('\n');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CatalogImportService,
+        {
+          provide: CatalogImportJobRepository,
+          useValue: {
+            create: jest.fn(),
+            findById: jest.fn(),
+            findAll: jest.fn(),
+            updateProgress: jest.fn(),
+            complete: jest.fn(),
+            fail: jest.fn(),
+          },
+        },
+        {
+          provide: ProgramRepository,
+          useValue: { findByExternalId: jest.fn().mockResolvedValue(null) },
+        },
+        {
+          provide: ProgramService,
+          useValue: {
+            create: jest.fn((data) => Promise.resolve(new Program({ id: 'program-new', ...data }))),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: EpisodeRepository,
+          useValue: { findByProgramIds: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: EpisodeService,
+          useValue: { create: jest.fn(), update: jest.fn() },
+        },
+        {
+          provide: SeasonRepository,
+          useValue: { findByProgramId: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: SeasonService,
+          useValue: {
+            create: jest.fn((data) => Promise.resolve(new Season({ id: 'season-new', ...data }))),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CatalogImportService>(CatalogImportService);
+    importJobRepository = module.get(CatalogImportJobRepository);
+    programRepository = module.get(ProgramRepository);
+    programService = module.get(ProgramService);
+    episodeRepository = module.get(EpisodeRepository);
+    episodeService = module.get(EpisodeService);
+    seasonRepository = module.get(SeasonRepository);
+    seasonService = module.get(SeasonService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createJob', () => {
+    it('should queue a job with the payload', async () => {
+      importJobRepository.create.mockResolvedValue(createJob('x', { dryRun: true }));
+
+      await service.createJob('{"title":"Show"}', CatalogFormat.NDJSON, {
+        dryRun: true,
+        createdBy: 'admin-1',
+      });
+
+      expect(importJobRepository.create).toHaveBeenCalledWith({
+        format: CatalogFormat.NDJSON,
+        dryRun: true,
+        payload: '{"title":"Show"}',
+        createdBy: 'admin-1',
+      });
+    });
+
+    it('should reject an empty body', async () => {
+      await expect(service.createJob('  \n', CatalogFormat.CSV)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(importJobRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('run', () => {
+    it('should create new programs with their episodes', async () => {
+      const job = createJob(
+        ndjson({
+          externalId: 'show-2',
+          title: 'Show Two',
+          episodes: [
+            { externalId: 'ep-1', episodeNumber: 1, title: 'Pilot', duration: 1800 },
+            { episodeNumber: 2, title: 'Second' },
+          ],
+        }),
+      );
+
+      const counters = await service.run(job);
+
+      expect(programService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Show Two', externalId: 'show-2' }),
+        'admin-1',
+      );
+      expect(episodeService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          programId: 'program-new',
+          externalId: 'ep-1',
+          episodeNumber: 1,
+          duration: 1800,
+        }),
+        'admin-1',
+      );
+      expect(episodeService.create).toHaveBeenCalledTimes(2);
+      expect(counters).toMatchObject({
+        totalRows: 1,
+        processedRows: 1,
+        failedRows: 0,
+        programsCreated: 1,
+        episodesCreated: 2,
+      });
+      expect(importJobRepository.complete).toHaveBeenCalledWith('job-1', counters, []);
+    });
+
+    it('should upsert by external ID and skip unchanged content', async () => {
+      programRepository.findByExternalId.mockResolvedValue(existingProgram);
+      episodeRepository.findByProgramIds.mockResolvedValue([existingEpisode]);
+      programService.update.mockResolvedValue(existingProgram);
+
+      const counters = await service.run(
+        createJob(
+          ndjson({
+            externalId: 'show-1',
+            title: 'Show One',
+            description: 'New description',
+            episodes: [
+              { externalId: 'ep-1', episodeNumber: 1, title: 'Pilot' },
+              { episodeNumber: 1, title: 'Duplicate' },
+            ],
+          }),
+        ),
+      );
+
+      expect(programService.update).toHaveBeenCalledWith(
+        'program-1',
+        { description: 'New description' },
+        'admin-1',
+        3,
+      );
+      // Matched by episode number, adopts the external ID
+      expect(episodeService.update).toHaveBeenCalledWith(
+        'episode-1',
+        { externalId: 'ep-1' },
+        'admin-1',
+        2,
+      );
+      expect(programService.create).not.toHaveBeenCalled();
+      expect(episodeService.create).not.toHaveBeenCalled();
+      expect(counters).toMatchObject({ programsUpdated: 1, episodesUpdated: 1, failedRows: 1 });
+      expect(importJobRepository.complete).toHaveBeenCalledWith('job-1', counters, [
+        expect.objectContaining({
+          row: 1,
+          field: 'episodes[1].episodeNumber',
+          message: 'Duplicate episode 1 in program record',
+        }),
+      ]);
+    });
+
+    it('should place episodes in seasons, creating missing ones once', async () => {
+      const season1 = new Season({ id: 'season-1', programId: 'program-1', seasonNumber: 1 });
+      programRepository.findByExternalId.mockResolvedValue(existingProgram);
+      episodeRepository.findByProgramIds.mockResolvedValue([
+        new Episode({ ...existingEpisode, externalId: 'ep-1' }),
+      ]);
+      seasonRepository.findByProgramId.mockResolvedValue([season1]);
+
+      const counters = await service.run(
+        createJob(
+          ndjson({
+            externalId: 'show-1',
+            title: 'Show One',
+            description: 'Old description',
+            episodes: [
+              { externalId: 'ep-1', seasonNumber: 1, episodeNumber: 1, title: 'Pilot' },
+              { seasonNumber: 2, episodeNumber: 1, title: 'Return' },
+              { seasonNumber: 2, episodeNumber: 2, title: 'Second' },
+            ],
+          }),
+        ),
+      );
+
+      expect(seasonService.create).toHaveBeenCalledTimes(1);
+      expect(seasonService.create).toHaveBeenCalledWith({
+        programId: 'program-1',
+        seasonNumber: 2,
+      });
+      // Matched by external ID, the season-less episode moves into season 1
+      expect(episodeService.update).toHaveBeenCalledWith(
+        'episode-1',
+        { seasonId: 'season-1' },
+        'admin-1',
+        2,
+      );
+      expect(episodeService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ seasonId: 'season-new', episodeNumber: 1, title: 'Return' }),
+        'admin-1',
+      );
+      expect(counters).toMatchObject({
+        seasonsCreated: 1,
+        episodesCreated: 2,
+        episodesUpdated: 1,
+        failedRows: 0,
+      });
+    });
+
+    it('should count unchanged programs', async () => {
+      programRepository.findByExternalId.mockResolvedValue(existingProgram);
+
+      const counters = await service.run(
+        createJob(ndjson({ externalId: 'show-1', title: 'Show One' })),
+      );
+
+      expect(programService.update).not.toHaveBeenCalled();
+      expect(counters.unchanged).toBe(1);
+    });
+
+    it('should report per-row validation errors and apply the valid rows', async () => {
+      const csv = [
+        'program_external_id,program_title,episode_number,episode_title',
+        'show-2,Show Two,1,Pilot',
+        'show-2,Show Two,0,Bad number',
+        'show-3,,1,No program title',
+      ].join('\n');
+
+      const counters = await service.run(createJob(csv, { format: CatalogFormat.CSV }));
+
+      expect(programService.create).toHaveBeenCalledTimes(1);
+      expect(episodeService.create).toHaveBeenCalledTimes(1);
+      expect(counters).toMatchObject({ totalRows: 3, processedRows: 3, failedRows: 2 });
+      expect(importJobRepository.complete).toHaveBeenCalledWith(
+        'job-1',
+        counters,
+        expect.arrayContaining([
+          expect.objectContaining({ row: 2, externalId: 'show-2', field: 'episode_number' }),
+          expect.objectContaining({ row: 3, externalId: 'show-3', field: 'program_title' }),
+        ]),
+      );
+    });
+
+    it('should turn service errors into row errors', async () => {
+      episodeService.create.mockRejectedValueOnce(
+        new ConflictException('Episode number 1 already exists for program program-new'),
+      );
+
+      const counters = await service.run(
+        createJob(
+          ndjson(
+            { title: 'Show', episodes: [{ episodeNumber: 1, title: 'Pilot' }] },
+            { title: 'Other show' },
+          ),
+        ),
+      );
+
+      expect(counters).toMatchObject({ programsCreated: 2, failedRows: 1, processedRows: 2 });
+      expect(importJobRepository.complete).toHaveBeenCalledWith('job-1', counters, [
+        expect.objectContaining({ row: 1, message: expect.stringContaining('already exists') }),
+      ]);
+    });
+
+    it('should only count changes in dry-run mode', async () => {
+      programRepository.findByExternalId.mockImplementation((externalId) =>
+        Promise.resolve(externalId === 'show-1' ? existingProgram : null),
+      );
+      episodeRepository.findByProgramIds.mockResolvedValue([existingEpisode]);
+
+      const counters = await service.run(
+        createJob(
+          ndjson(
+            {
+              externalId: 'show-1',
+              title: 'Renamed',
+              episodes: [{ episodeNumber: 2, title: 'New' }],
+            },
+            {
+              externalId: 'show-2',
+              title: 'New show',
+              episodes: [{ seasonNumber: 1, episodeNumber: 1, title: 'A' }],
+            },
+          ),
+          { dryRun: true },
+        ),
+      );
+
+      expect(programService.create).not.toHaveBeenCalled();
+      expect(programService.update).not.toHaveBeenCalled();
+      expect(episodeService.create).not.toHaveBeenCalled();
+      expect(episodeService.update).not.toHaveBeenCalled();
+      expect(seasonService.create).not.toHaveBeenCalled();
+      expect(counters).toMatchObject({
+        programsCreated: 1,
+        programsUpdated: 1,
+        seasonsCreated: 1,
+        episodesCreated: 2,
+      });
+    });
+
+    it('should fail the job when the input cannot be read', async () => {
+      await service.run(createJob('title\nShow', { format: CatalogFormat.CSV }));
+
+      expect(importJobRepository.fail).toHaveBeenCalledWith(
+        'job-1',
+        'CSV header must include a program_title column',
+      );
+      expect(importJobRepository.complete).not.toHaveBeenCalled();
+    });
+  });
+});
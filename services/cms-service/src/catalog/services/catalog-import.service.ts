@@ -0,0 +1,437 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { throwIfNotFound } from '@mediamesh/shared';
+import { CatalogImportJobRepository } from '../repositories/catalog-import-job.repository';
+import {
+  CatalogFormat,
+  CatalogImportJob,
+  ImportJobCounters,
+  ImportJobStatus,
+  ImportRowError,
+} from '../entities/catalog-import-job.entity';
+import { CatalogEpisodeRecordDto, CatalogProgramRecordDto } from '../dto/catalog.dto';
+import {
+  locateCatalogField,
+  parseCatalog,
+  ParsedCatalogRecord,
+} from '../utils/catalog-format.util';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { ProgramService } from '../../programs/services/program.service';
+import { Program } from '../../programs/entities/program.entity';
+import { EpisodeRepository } from '../../episodes/repositories/episode.repository';
+import { EpisodeService } from '../../episodes/services/episode.service';
+import { Episode } from '../../episodes/entities/episode.entity';
+import { SeasonRepository } from '../../seasons/repositories/season.repository';
+import { SeasonService } from '../../seasons/services/season.service';
+import { Season } from '../../seasons/entities/season.entity';
+import { CATALOG_CONFIG } from '../../config/env.constants';
+
+/**
+ * Running state of one import
+ */
+class ImportRun {
+  readonly counters: ImportJobCounters = {
+    totalRows: 0,
+    processedRows: 0,
+    failedRows: 0,
+    programsCreated: 0,
+    programsUpdated: 0,
+    seasonsCreated: 0,
+    episodesCreated: 0,
+    episodesUpdated: 0,
+    unchanged: 0,
+  };
+  readonly errors: ImportRowError[] = [];
+  private readonly failed = new Set<number>();
+
+  addError(error: ImportRowError): void {
+    if (this.errors.length < CATALOG_CONFIG.MAX_ERRORS) {
+      this.errors.push(error);
+    }
+    this.failed.add(error.row);
+    this.counters.failedRows = this.failed.size;
+  }
+}
+
+/**
+ * Catalog Import Service
+ *
+ * Bulk import of programs with nested episodes. Imports are queued as jobs and run in
+ * the background by CatalogImportProcessor.
+ *
+ * Programs are upserted by externalId (records without one are always created). Seasons
+ * are looked up by seasonNumber and created when missing. Episodes are matched within
+ * their program by externalId, else by episodeNumber within the season. Writes go
+ * through ProgramService/EpisodeService, so validation rules, revisions and content
+ * events are the same as for API edits. Invalid rows are reported on the job and
+ * skipped; the rest of the import still applies.
+ */
+@Injectable()
+export class CatalogImportService {
+  private readonly logger = new Logger(CatalogImportService.name);
+
+  constructor(
+    private readonly importJobRepository: CatalogImportJobRepository,
+    private readonly programRepository: ProgramRepository,
+    private readonly programService: ProgramService,
+    private readonly episodeRepository: EpisodeRepository,
+    private readonly episodeService: EpisodeService,
+    private readonly seasonRepository: SeasonRepository,
+    private readonly seasonService: SeasonService,
+  ) {}
+
+  /**
+   * Queue an import job
+   */
+  async createJob(
+    content: string,
+    format: CatalogFormat,
+    options: { dryRun?: boolean; createdBy?: string } = {},
+  ): Promise<CatalogImportJob> {
+    if (typeof content !== 'string' || content.trim() === '') {
+      throw new BadRequestException('Import body is empty');
+    }
+
+    const job = await this.importJobRepository.create({
+      format,
+      dryRun: options.dryRun ?? false,
+      payload: content,
+      createdBy: options.createdBy,
+    });
+
+    this.logger.log(`Catalog import queued: ${job.id} (${format}${job.dryRun ? ', dry run' : ''})`);
+
+    return job;
+  }
+
+  /**
+   * Find import job by ID
+   */
+  async findJob(id: string): Promise<CatalogImportJob> {
+    const job = await this.importJobRepository.findById(id);
+    throwIfNotFound(job, 'Import job', id);
+    return job;
+  }
+
+  /**
+   * Find import jobs with pagination, newest first
+   */
+  async findJobs(
+    status?: ImportJobStatus,
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<CatalogImportJob[]> {
+    return await this.importJobRepository.findAll(status, skip, take);
+  }
+
+  /**
+   * Run a claimed job to completion
+   *
+   * Progress is persisted every CATALOG_CONFIG.PROGRESS_INTERVAL programs. Input that
+   * cannot be read at all fails the job.
+   */
+  async run(job: CatalogImportJob): Promise<ImportJobCounters> {
+    const state = new ImportRun();
+    this.logger.log(`Running catalog import ${job.id}`);
+
+    try {
+      const parsed = parseCatalog(job.payload ?? '', job.format);
+      state.counters.totalRows = parsed.totalRows;
+      parsed.errors.forEach((error) => state.addError(error));
+      state.counters.processedRows = parsed.errors.length;
+
+      for (const [index, record] of parsed.records.entries()) {
+        await this.importRecord(record, state, job);
+        state.counters.processedRows += record.rows.length;
+
+        if ((index + 1) % CATALOG_CONFIG.PROGRESS_INTERVAL === 0) {
+          await this.importJobRepository.updateProgress(job.id, state.counters, state.errors);
+        }
+      }
+
+      await this.importJobRepository.complete(job.id, state.counters, state.errors);
+    } catch (error: any) {
+      this.logger.error(`Catalog import ${job.id} failed:`, error);
+      await this.importJobRepository.fail(job.id, error.message);
+      return state.counters;
+    }
+
+    this.logger.log(
+      `Catalog import ${job.id} completed: ${state.counters.processedRows} rows, ` +
+        `${state.counters.failedRows} failed`,
+    );
+
+    return state.counters;
+  }
+
+  /**
+   * Validate and apply (or, in dry-run, count) one program record
+   */
+  private async importRecord(
+    record: ParsedCatalogRecord,
+    state: ImportRun,
+    job: CatalogImportJob,
+  ): Promise<void> {
+    const dto = plainToInstance(CatalogProgramRecordDto, record.data);
+    const externalId =
+      typeof record.data.externalId === 'string' ? record.data.externalId : undefined;
+    const report = (path: string | undefined, message: string) => {
+      const location = path ? locateCatalogField(record, path) : { row: record.row };
+      state.addError({ ...location, externalId, message });
+    };
+
+    const invalid = new Set<number>();
+    let programInvalid = false;
+    for (const { path, message } of flattenValidationErrors(
+      await validate(dto, { whitelist: true, forbidNonWhitelisted: true }),
+    )) {
+      const episodeIndex = /^episodes\.(\d+)/.exec(path);
+      if (episodeIndex) {
+        invalid.add(parseInt(episodeIndex[1], 10));
+      } else {
+        programInvalid = true;
+      }
+      report(path, message);
+    }
+
+    if (programInvalid) {
+      return;
+    }
+
+    const episodes = (dto.episodes ?? [])
+      .map((episode, index) => ({ episode, index }))
+      .filter(({ index }) => !invalid.has(index));
+    const seen = new Set<string>();
+    const unique = episodes.filter(({ episode, index }) => {
+      const keys = [
+        `#${episode.seasonNumber ?? ''}:${episode.episodeNumber}`,
+        episode.externalId && `@${episode.externalId}`,
+      ];
+      const duplicate = keys.find((key) => key && seen.has(key));
+      if (duplicate) {
+        const byNumber = duplicate.startsWith('#');
+        const season = byNumber && episode.seasonNumber ? ` in season ${episode.seasonNumber}` : '';
+        report(
+          `episodes.${index}.${byNumber ? 'episodeNumber' : 'externalId'}`,
+          `Duplicate episode ${byNumber ? episode.episodeNumber : episode.externalId}${season} ` +
+            'in program record',
+        );
+        return false;
+      }
+      keys.forEach((key) => key && seen.add(key));
+      return true;
+    });
+
+    let program: Program | null;
+    try {
+      program = await this.upsertProgram(dto, state, job);
+    } catch (error: any) {
+      report(undefined, error.message);
+      return;
+    }
+
+    const existing = program ? await this.episodeRepository.findByProgramIds([program.id]) : [];
+    const seasons = new Map<number, Season | null>(
+      (program ? await this.seasonRepository.findByProgramId(program.id) : []).map((season) => [
+        season.seasonNumber,
+        season,
+      ]),
+    );
+    for (const { episode, index } of unique) {
+      try {
+        const season = await this.resolveSeason(program, episode.seasonNumber, seasons, state, job);
+        await this.upsertEpisode(program, season, episode, existing, state, job);
+      } catch (error: any) {
+        report(`episodes.${index}`, error.message);
+      }
+    }
+  }
+
+  /**
+   * Create or update the program of a record
+   *
+   * @returns the program, or null when a dry run would create it
+   */
+  private async upsertProgram(
+    dto: CatalogProgramRecordDto,
+    state: ImportRun,
+    job: CatalogImportJob,
+  ): Promise<Program | null> {
+    const existing = dto.externalId
+      ? await this.programRepository.findByExternalId(dto.externalId)
+      : null;
+
+    if (!existing) {
+      state.counters.programsCreated++;
+      if (job.dryRun) {
+        return null;
+      }
+
+      return await this.programService.create(
+        {
+          title: dto.title,
+          description: dto.description,
+          status: dto.status,
+          metadataId: dto.metadataId,
+          externalId: dto.externalId,
+        },
+        job.createdBy,
+      );
+    }
+
+    const changes = pickChanges(existing, {
+      title: dto.title,
+      description: dto.description,
+      status: dto.status,
+      metadataId: dto.metadataId,
+    });
+
+    if (!changes) {
+      state.counters.unchanged++;
+      return existing;
+    }
+
+    state.counters.programsUpdated++;
+    if (job.dryRun) {
+      return existing;
+    }
+
+    return await this.programService.update(existing.id, changes, job.createdBy, existing.version);
+  }
+
+  /**
+   * Find the program's season by number, creating it on first use
+   *
+   * @returns the season (null when a dry run would create it), or undefined for
+   *   episodes without a season number
+   */
+  private async resolveSeason(
+    program: Program | null,
+    seasonNumber: number | undefined,
+    seasons: Map<number, Season | null>,
+    state: ImportRun,
+    job: CatalogImportJob,
+  ): Promise<Season | null | undefined> {
+    if (seasonNumber === undefined) {
+      return undefined;
+    }
+    if (seasons.has(seasonNumber)) {
+      return seasons.get(seasonNumber);
+    }
+
+    state.counters.seasonsCreated++;
+    const season = job.dryRun
+      ? null
+      : await this.seasonService.create({ programId: program!.id, seasonNumber });
+    seasons.set(seasonNumber, season);
+    return season;
+  }
+
+  /**
+   * Create or update one episode of a record's program
+   */
+  private async upsertEpisode(
+    program: Program | null,
+    season: Season | null | undefined,
+    dto: CatalogEpisodeRecordDto,
+    existingEpisodes: Episode[],
+    state: ImportRun,
+    job: CatalogImportJob,
+  ): Promise<void> {
+    // A season that does not exist yet (dry run) has no episodes to match by number
+    const existing =
+      (dto.externalId && existingEpisodes.find((ep) => ep.externalId === dto.externalId)) ||
+      (season !== null
+        ? existingEpisodes.find(
+            (ep) => ep.episodeNumber === dto.episodeNumber && ep.seasonId === season?.id,
+          )
+        : undefined);
+
+    if (existing?.externalId && dto.externalId && existing.externalId !== dto.externalId) {
+      throw new Error(
+        `Episode number ${dto.episodeNumber} already belongs to episode ${existing.externalId}`,
+      );
+    }
+
+    if (!existing) {
+      state.counters.episodesCreated++;
+      if (job.dryRun) {
+        return;
+      }
+
+      await this.episodeService.create(
+        {
+          programId: program!.id,
+          seasonId: season?.id,
+          title: dto.title,
+          description: dto.description,
+          episodeNumber: dto.episodeNumber,
+          duration: dto.duration,
+          status: dto.status,
+          metadataId: dto.metadataId,
+          externalId: dto.externalId,
+        },
+        job.createdBy,
+      );
+      return;
+    }
+
+    const changes = pickChanges(existing, {
+      seasonId: season?.id,
+      title: dto.title,
+      description: dto.description,
+      episodeNumber: dto.episodeNumber,
+      duration: dto.duration,
+      status: dto.status,
+      metadataId: dto.metadataId,
+      externalId: dto.externalId,
+    });
+
+    // Moving into a season that a dry run would create is a change as well
+    if (!changes && season !== null) {
+      state.counters.unchanged++;
+      return;
+    }
+
+    state.counters.episodesUpdated++;
+    if (!job.dryRun) {
+      await this.episodeService.update(existing.id, changes!, job.createdBy, existing.version);
+    }
+  }
+}
+
+/**
+ * Keep the provided fields that differ from the current values
+ *
+ * @returns the changed fields, or null if nothing changed
+ */
+function pickChanges<T extends Record<string, any>>(
+  current: Record<string, any>,
+  next: T,
+): Partial<T> | null {
+  const changes: Partial<T> = {};
+
+  for (const key of Object.keys(next) as (keyof T)[]) {
+    if (next[key] !== undefined && next[key] !== current[key as string]) {
+      changes[key] = next[key];
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Flatten nested class-validator errors into `path: message` pairs
+ * (e.g. `episodes.1.episodeNumber`)
+ */
+function flattenValidationErrors(
+  errors: ValidationError[],
+  prefix: string = '',
+): { path: string; message: string }[] {
+  return errors.flatMap((error) => {
+    const path = prefix ? `${prefix}.${error.property}` : error.property;
+    const own = Object.values(error.constraints ?? {}).map((message) => ({ path, message }));
+    return [...own, ...flattenValidationErrors(error.children ?? [], path)];
+  });
+}
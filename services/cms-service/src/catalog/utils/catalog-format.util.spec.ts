@@ -0,0 +1,138 @@
+import { CatalogFormat } from '../entities/catalog-import-job.entity';
+import {
+  CatalogRecord,
+  locateCatalogField,
+  parseCatalog,
+  parseCsv,
+  resolveCatalogFormat,
+  toCsvHeader,
+  toCsvRows,
+  toNdjsonLine,
+} from './catalog-format.util';
+
+describe('catalog-format.util', () => {
+  const record: CatalogRecord = {
+    externalId: 'show-1',
+    title: 'Show, "The" One',
+    description: 'Line one\nLine two',
+    status: 'DRAFT',
+    episodes: [
+      { externalId: 'ep-1', seasonNumber: 1, episodeNumber: 1, title: 'Pilot', duration: 1800 },
+      { episodeNumber: 2, title: 'Second' },
+    ],
+  };
+
+  describe('resolveCatalogFormat', () => {
+    it('should resolve content types and short names', () => {
+      expect(resolveCatalogFormat('application/x-ndjson')).toBe(CatalogFormat.NDJSON);
+      expect(resolveCatalogFormat('text/csv; charset=utf-8')).toBe(CatalogFormat.CSV);
+      expect(resolveCatalogFormat('CSV')).toBe(CatalogFormat.CSV);
+      expect(resolveCatalogFormat('application/json')).toBeUndefined();
+      expect(resolveCatalogFormat(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should handle quoted commas, quotes, line breaks and CRLF', () => {
+      const rows = parseCsv('a,b,c\r\n"x, y","say ""hi""","multi\nline"\r\n1,,3');
+
+      expect(rows).toEqual([
+        ['a', 'b', 'c'],
+        ['x, y', 'say "hi"', 'multi\nline'],
+        ['1', '', '3'],
+      ]);
+    });
+  });
+
+  describe('parseCatalog (NDJSON)', () => {
+    it('should parse one record per line and report malformed lines', () => {
+      const content = [toNdjsonLine(record).trim(), '', '{not json', '[1]'].join('\n');
+
+      const parsed = parseCatalog(content, CatalogFormat.NDJSON);
+
+      expect(parsed.totalRows).toBe(3);
+      expect(parsed.records).toHaveLength(1);
+      expect(parsed.records[0]).toMatchObject({ row: 1, rows: [1], data: { title: record.title } });
+      expect(parsed.errors).toEqual([
+        expect.objectContaining({ row: 3, message: expect.stringContaining('Invalid JSON') }),
+        { row: 4, message: 'Each line must be a JSON object' },
+      ]);
+    });
+  });
+
+  describe('parseCatalog (CSV)', () => {
+    it('should round-trip exported rows', () => {
+      const content = toCsvHeader() + toCsvRows(record);
+
+      const parsed = parseCatalog(content, CatalogFormat.CSV);
+
+      expect(parsed.totalRows).toBe(2);
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.records).toHaveLength(1);
+      expect(parsed.records[0].rows).toEqual([1, 2]);
+      expect(parsed.records[0].episodeRows).toEqual([1, 2]);
+      expect(JSON.parse(JSON.stringify(parsed.records[0].data))).toEqual(record);
+    });
+
+    it('should group rows without external ID by consecutive title', () => {
+      const content = [
+        'program_title,episode_number,episode_title',
+        'Show A,1,A1',
+        'Show A,2,A2',
+        'Show B,,',
+        'Show A,3,A3',
+      ].join('\n');
+
+      const parsed = parseCatalog(content, CatalogFormat.CSV);
+
+      expect(parsed.records.map((r) => [r.data.title, r.data.episodes.length])).toEqual([
+        ['Show A', 2],
+        ['Show B', 0],
+        ['Show A', 1],
+      ]);
+    });
+
+    it('should keep non-numeric numbers for validation and report rows without a program', () => {
+      const content = [
+        'program_external_id,program_title,episode_number',
+        'show-1,Show,one',
+        ',,2',
+      ].join('\n');
+
+      const parsed = parseCatalog(content, CatalogFormat.CSV);
+
+      expect(parsed.records[0].data.episodes[0].episodeNumber).toBe('one');
+      expect(parsed.errors).toEqual([expect.objectContaining({ row: 2, field: 'program_title' })]);
+    });
+
+    it('should reject unknown or missing columns', () => {
+      expect(() => parseCatalog('program_title,rating\nShow,PG', CatalogFormat.CSV)).toThrow(
+        'Unknown CSV columns: rating',
+      );
+      expect(() => parseCatalog('episode_title\nPilot', CatalogFormat.CSV)).toThrow(
+        'program_title',
+      );
+    });
+  });
+
+  describe('locateCatalogField', () => {
+    it('should map episode errors to their CSV row and column', () => {
+      const [parsed] = parseCatalog(toCsvHeader() + toCsvRows(record), CatalogFormat.CSV).records;
+
+      expect(locateCatalogField(parsed, 'episodes.1.episodeNumber')).toEqual({
+        row: 2,
+        field: 'episode_number',
+      });
+      expect(locateCatalogField(parsed, 'title')).toEqual({ row: 1, field: 'program_title' });
+    });
+
+    it('should keep NDJSON errors on the record line', () => {
+      const [parsed] = parseCatalog(toNdjsonLine(record), CatalogFormat.NDJSON).records;
+
+      expect(locateCatalogField(parsed, 'episodes.1.title')).toEqual({
+        row: 1,
+        field: 'episodes[1].title',
+      });
+    });
+  });
+});
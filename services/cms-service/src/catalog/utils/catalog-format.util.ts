@@ -0,0 +1,421 @@
+import { NestFastifyApplication } from '@nestjs/platform-fastify';
+import { CatalogFormat, ImportRowError } from '../entities/catalog-import-job.entity';
+import { CATALOG_CONFIG } from '../../config/env.constants';
+
+/**
+ * Catalog wire formats
+ *
+ * NDJSON: one program per line, episodes nested under `episodes`.
+ * CSV: one row per episode with the program columns repeated; a program without
+ * episodes is a single row with empty episode columns. Rows belong to the same program
+ * when they share program_external_id, or (without one) when consecutive rows share
+ * program_title. Program columns are taken from the first row of each group.
+ * Episodes with a season number are placed in that season, which is created on import
+ * if the program does not have it yet.
+ */
+
+export const CATALOG_CONTENT_TYPES: Record<CatalogFormat, string> = {
+  [CatalogFormat.NDJSON]: 'application/x-ndjson',
+  [CatalogFormat.CSV]: 'text/csv',
+};
+
+export const CATALOG_CSV_COLUMNS = [
+  'program_external_id',
+  'program_title',
+  'program_description',
+  'program_status',
+  'program_metadata_id',
+  'episode_external_id',
+  'episode_season_number',
+  'episode_number',
+  'episode_title',
+  'episode_description',
+  'episode_duration',
+  'episode_status',
+  'episode_metadata_id',
+] as const;
+
+// Record field -> CSV column, for reporting validation errors against the CSV header
+const PROGRAM_COLUMNS: Record<string, string> = {
+  externalId: 'program_external_id',
+  title: 'program_title',
+  description: 'program_description',
+  status: 'program_status',
+  metadataId: 'program_metadata_id',
+};
+
+const EPISODE_COLUMNS: Record<string, string> = {
+  externalId: 'episode_external_id',
+  seasonNumber: 'episode_season_number',
+  episodeNumber: 'episode_number',
+  title: 'episode_title',
+  description: 'episode_description',
+  duration: 'episode_duration',
+  status: 'episode_status',
+  metadataId: 'episode_metadata_id',
+};
+
+/**
+ * A program record read from an import, with the rows it came from
+ *
+ * `episodeRows[i]` is the CSV row of `data.episodes[i]`; NDJSON records keep every
+ * episode on the record's own line and leave it unset.
+ */
+export interface ParsedCatalogRecord {
+  row: number;
+  rows: number[];
+  episodeRows?: number[];
+  data: Record<string, any>;
+}
+
+export interface ParsedCatalog {
+  totalRows: number;
+  records: ParsedCatalogRecord[];
+  errors: ImportRowError[];
+}
+
+/**
+ * Program record as exported (and accepted back by the import)
+ */
+export interface CatalogRecord {
+  externalId?: string;
+  title: string;
+  description?: string;
+  status?: string;
+  metadataId?: string;
+  episodes: {
+    externalId?: string;
+    seasonNumber?: number;
+    episodeNumber: number;
+    title: string;
+    description?: string;
+    duration?: number;
+    status?: string;
+    metadataId?: string;
+  }[];
+}
+
+/**
+ * Resolve the catalog format from a Content-Type header or a `format` query value
+ */
+export function resolveCatalogFormat(value?: string): CatalogFormat | undefined {
+  const normalized = value?.split(';')[0].trim().toLowerCase();
+  switch (normalized) {
+    case 'ndjson':
+    case 'jsonl':
+    case 'application/x-ndjson':
+    case 'application/jsonl':
+      return CatalogFormat.NDJSON;
+    case 'csv':
+    case 'text/csv':
+      return CatalogFormat.CSV;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse an import body into program records
+ *
+ * Rows that cannot be read (malformed JSON, a CSV row without program_title) are
+ * reported as errors; a CSV without the required header throws.
+ */
+export function parseCatalog(content: string, format: CatalogFormat): ParsedCatalog {
+  return format === CatalogFormat.CSV ? parseCatalogCsv(content) : parseCatalogNdjson(content);
+}
+
+function parseCatalogNdjson(content: string): ParsedCatalog {
+  const result: ParsedCatalog = { totalRows: 0, records: [], errors: [] };
+
+  stripBom(content)
+    .split(/\r?\n/)
+    .forEach((line, index) => {
+      if (line.trim() === '') {
+        return;
+      }
+
+      const row = index + 1;
+      result.totalRows++;
+
+      let data: unknown;
+      try {
+        data = JSON.parse(line);
+      } catch (error: any) {
+        result.errors.push({ row, message: `Invalid JSON: ${error.message}` });
+        return;
+      }
+
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        result.errors.push({ row, message: 'Each line must be a JSON object' });
+        return;
+      }
+
+      result.records.push({ row, rows: [row], data: data as Record<string, any> });
+    });
+
+  return result;
+}
+
+function parseCatalogCsv(content: string): ParsedCatalog {
+  const result: ParsedCatalog = { totalRows: 0, records: [], errors: [] };
+  const [header, ...rows] = parseCsv(stripBom(content));
+
+  if (!header) {
+    return result;
+  }
+
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const known: readonly string[] = CATALOG_CSV_COLUMNS;
+  const unknown = columns.filter((column) => !known.includes(column));
+  if (!columns.includes('program_title')) {
+    throw new Error('CSV header must include a program_title column');
+  }
+  if (unknown.length > 0) {
+    throw new Error(`Unknown CSV columns: ${unknown.join(', ')}`);
+  }
+
+  let current: ParsedCatalogRecord | undefined;
+  let currentKey: string | undefined;
+  const byExternalId = new Map<string, ParsedCatalogRecord>();
+
+  rows.forEach((values, index) => {
+    // Data rows are numbered from 1, after the header
+    const row = index + 1;
+    const cell = (column: string) => {
+      const value = values[columns.indexOf(column)]?.trim();
+      return value === undefined || value === '' ? undefined : value;
+    };
+
+    if (values.every((value) => value.trim() === '')) {
+      return;
+    }
+
+    result.totalRows++;
+
+    const externalId = cell('program_external_id');
+    const title = cell('program_title');
+    if (!externalId && !title) {
+      result.errors.push({
+        row,
+        field: 'program_title',
+        message: 'Row has neither program_external_id nor program_title',
+      });
+      return;
+    }
+
+    // Group by external ID anywhere in the file, otherwise by consecutive titles
+    const key = externalId ? `id:${externalId}` : `title:${title}`;
+    let record = externalId ? byExternalId.get(externalId) : undefined;
+    if (!record && !externalId && current && currentKey === key) {
+      record = current;
+    }
+
+    if (!record) {
+      record = {
+        row,
+        rows: [],
+        episodeRows: [],
+        data: {
+          externalId,
+          title,
+          description: cell('program_description'),
+          status: cell('program_status'),
+          metadataId: cell('program_metadata_id'),
+          episodes: [],
+        },
+      };
+      result.records.push(record);
+      if (externalId) {
+        byExternalId.set(externalId, record);
+      }
+    }
+    current = record;
+    currentKey = key;
+    record.rows.push(row);
+
+    const hasEpisode = Object.values(EPISODE_COLUMNS).some((column) => cell(column) !== undefined);
+    if (hasEpisode) {
+      record.data.episodes.push({
+        externalId: cell('episode_external_id'),
+        seasonNumber: toNumber(cell('episode_season_number')),
+        episodeNumber: toNumber(cell('episode_number')),
+        title: cell('episode_title'),
+        description: cell('episode_description'),
+        duration: toNumber(cell('episode_duration')),
+        status: cell('episode_status'),
+        metadataId: cell('episode_metadata_id'),
+      });
+      record.episodeRows!.push(row);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Map a record field path (e.g. `episodes.2.title`) to the row and CSV column it came from
+ */
+export function locateCatalogField(
+  record: ParsedCatalogRecord,
+  path: string,
+): { row: number; field: string } {
+  const episodeMatch = /^episodes\.(\d+)\.(\w+)/.exec(path);
+
+  if (!record.episodeRows) {
+    return {
+      row: record.row,
+      field: episodeMatch ? `episodes[${episodeMatch[1]}].${episodeMatch[2]}` : path,
+    };
+  }
+
+  if (episodeMatch) {
+    const index = parseInt(episodeMatch[1], 10);
+    return {
+      row: record.episodeRows[index] ?? record.row,
+      field: EPISODE_COLUMNS[episodeMatch[2]] ?? episodeMatch[2],
+    };
+  }
+
+  return { row: record.row, field: PROGRAM_COLUMNS[path] ?? path };
+}
+
+/**
+ * Serialize a program record as one NDJSON line
+ */
+export function toNdjsonLine(record: CatalogRecord): string {
+  return `${JSON.stringify(record)}\n`;
+}
+
+/**
+ * CSV header line
+ */
+export function toCsvHeader(): string {
+  return `${CATALOG_CSV_COLUMNS.join(',')}\r\n`;
+}
+
+/**
+ * Serialize a program record as CSV rows (one per episode, or one without episodes)
+ */
+export function toCsvRows(record: CatalogRecord): string {
+  const program = [
+    record.externalId,
+    record.title,
+    record.description,
+    record.status,
+    record.metadataId,
+  ];
+
+  if (record.episodes.length === 0) {
+    return toCsvLine([...program, ...Array(8).fill(undefined)]);
+  }
+
+  return record.episodes
+    .map((episode) =>
+      toCsvLine([
+        ...program,
+        episode.externalId,
+        episode.seasonNumber,
+        episode.episodeNumber,
+        episode.title,
+        episode.description,
+        episode.duration,
+        episode.status,
+        episode.metadataId,
+      ]),
+    )
+    .join('');
+}
+
+/**
+ * Parse CSV text into rows of raw string values (RFC 4180: quoted fields may contain
+ * commas, line breaks and doubled quotes)
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Register body parsers for the catalog import content types
+ *
+ * Bodies are read as text (up to CATALOG_CONFIG.MAX_IMPORT_BYTES) and parsed by the job.
+ */
+export function registerCatalogContentTypeParsers(app: NestFastifyApplication): void {
+  app
+    .getHttpAdapter()
+    .getInstance()
+    .addContentTypeParser(
+      Object.values(CATALOG_CONTENT_TYPES),
+      { parseAs: 'string', bodyLimit: CATALOG_CONFIG.MAX_IMPORT_BYTES },
+      (_request, body, done) => done(null, body),
+    );
+}
+
+function toCsvLine(values: (string | number | undefined)[]): string {
+  return `${values.map(escapeCsv).join(',')}\r\n`;
+}
+
+function escapeCsv(value: string | number | undefined): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toNumber(value?: string): number | string | undefined {
+  // Non-numeric values are kept so validation reports them against the column
+  return value !== undefined && /^-?\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
+function stripBom(content: string): string {
+  return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+}
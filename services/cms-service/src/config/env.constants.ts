@@ -35,3 +35,58 @@ export const KAFKA_CONFIG = {
   BROKER: process.env.KAFKA_BROKER || 'localhost:9092',
   CLIENT_ID: process.env.KAFKA_CLIENT_ID || 'cms-service',
 };
+
+// Outbox relay configuration
+export const OUTBOX_CONFIG = {
+  POLL_INTERVAL_MS: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000', 10),
+  BATCH_SIZE: parseInt(process.env.OUTBOX_BATCH_SIZE || '100', 10),
+  MAX_ATTEMPTS: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10', 10),
+  RETRY_BASE_DELAY_MS: parseInt(process.env.OUTBOX_RETRY_BASE_DELAY_MS || '1000', 10),
+  RETRY_MAX_DELAY_MS: parseInt(process.env.OUTBOX_RETRY_MAX_DELAY_MS || '300000', 10),
+  STUCK_THRESHOLD_MS: parseInt(process.env.OUTBOX_STUCK_THRESHOLD_MS || '60000', 10),
+};
+
+// Content scheduler configuration (scheduled publish/unpublish)
+export const SCHEDULER_CONFIG = {
+  POLL_INTERVAL_MS: parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '30000', 10),
+  BATCH_SIZE: parseInt(process.env.SCHEDULER_BATCH_SIZE || '100', 10),
+};
+
+// Editorial workflow configuration
+export const WORKFLOW_CONFIG = {
+  // When true, programs and episodes must be APPROVED before they can be published or scheduled
+  REQUIRE_REVIEW: process.env.WORKFLOW_REQUIRE_REVIEW !== 'false',
+  // Roles allowed to approve/reject (higher roles such as ADMIN are always allowed)
+  REVIEWER_ROLES: (process.env.WORKFLOW_REVIEWER_ROLES || 'REVIEWER')
+    .split(',')
+    .map((role) => role.trim())
+    .filter(Boolean),
+};
+
+// Optimistic concurrency configuration (ETag / If-Match)
+export const CONCURRENCY_CONFIG = {
+  // When true, PUT/DELETE on programs and episodes without If-Match are rejected with 428
+  REQUIRE_IF_MATCH: process.env.CONCURRENCY_REQUIRE_IF_MATCH === 'true',
+};
+
+// Catalog bulk import/export configuration
+export const CATALOG_CONFIG = {
+  POLL_INTERVAL_MS: parseInt(process.env.CATALOG_IMPORT_POLL_INTERVAL_MS || '5000', 10),
+  // Largest accepted import body (application/x-ndjson, text/csv)
+  MAX_IMPORT_BYTES: parseInt(process.env.CATALOG_IMPORT_MAX_BYTES || '52428800', 10),
+  // Per-row errors kept on the job; further errors are only counted
+  MAX_ERRORS: parseInt(process.env.CATALOG_IMPORT_MAX_ERRORS || '1000', 10),
+  // Programs processed between progress updates
+  PROGRESS_INTERVAL: parseInt(process.env.CATALOG_IMPORT_PROGRESS_INTERVAL || '50', 10),
+  // RUNNING jobs without a progress update for this long are failed
+  STALE_AFTER_MS: parseInt(process.env.CATALOG_IMPORT_STALE_AFTER_MS || '900000', 10),
+  EXPORT_BATCH_SIZE: parseInt(process.env.CATALOG_EXPORT_BATCH_SIZE || '100', 10),
+};
+
+// Trash (soft delete) configuration
+export const TRASH_CONFIG = {
+  // Days deleted programs and episodes stay restorable before they are purged
+  RETENTION_DAYS: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+  PURGE_INTERVAL_MS: parseInt(process.env.TRASH_PURGE_INTERVAL_MS || '3600000', 10),
+  BATCH_SIZE: parseInt(process.env.TRASH_PURGE_BATCH_SIZE || '100', 10),
+};
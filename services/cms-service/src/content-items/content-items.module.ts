@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { ContentItemRepository } from './repositories/content-item.repository';
+import { ContentItemService } from './services/content-item.service';
+import { MoviesController } from './controllers/movies.controller';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { RevisionsModule } from '../revisions/revisions.module';
+import { JWT_CONFIG } from '../config/env.constants';
+
+/**
+ * Content Items Module
+ *
+ * Provides management of standalone content (movies).
+ */
+@Module({
+  imports: [
+    WorkflowModule,
+    RevisionsModule,
+    JwtModule.register({
+      secret: JWT_CONFIG.SECRET,
+      signOptions: {
+        expiresIn: JWT_CONFIG.EXPIRATION_STRING,
+      },
+    }),
+  ],
+  controllers: [MoviesController],
+  providers: [ContentItemRepository, ContentItemService],
+  exports: [ContentItemRepository, ContentItemService],
+})
+export class ContentItemsModule {}
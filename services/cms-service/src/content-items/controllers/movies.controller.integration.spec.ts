@@ -0,0 +1,258 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import request from 'supertest';
+import { FastifyAdapter } from '@nestjs/platform-fastify';
+import { MoviesController } from './movies.controller';
+import { ContentItemService } from '../services/content-item.service';
+import { ContentItemRepository } from '../repositories/content-item.repository';
+import { ContentItem } from '../entities/content-item.entity';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { RevisionService } from '../../revisions/services/revision.service';
+import { ContentRevisionRepository } from '../../revisions/repositories/content-revision.repository';
+import { ContentRevision } from '../../revisions/entities/content-revision.entity';
+import { WorkflowService } from '../../workflow/services/workflow.service';
+import { ContentTransitionRepository } from '../../workflow/repositories/content-transition.repository';
+import { ContentTransition } from '../../workflow/entities/content-transition.entity';
+import { ContentStatus, ContentType, JwtAuthGuard, RolesGuard, UserRoles } from '@mediamesh/shared';
+
+describe('MoviesController (integration)', () => {
+  let app: INestApplication;
+  let contentItemRepository: jest.Mocked<ContentItemRepository>;
+  let outboxService: jest.Mocked<OutboxService>;
+
+  const movieId = '550e8400-e29b-41d4-a716-446655440009';
+
+  const mockMovie = new ContentItem({
+    id: movieId,
+    type: ContentType.MOVIE,
+    title: 'The Long Voyage',
+    status: ContentStatus.DRAFT,
+    duration: 6300,
+    releaseDate: new Date('2024-05-17'),
+    version: 3,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      controllers: [MoviesController],
+      providers: [
+        ContentItemService,
+        RevisionService,
+        {
+          provide: ContentRevisionRepository,
+          useValue: {
+            create: jest.fn((data) =>
+              Promise.resolve(
+                new ContentRevision({ id: 'revision-1', ...data, createdAt: new Date() }),
+              ),
+            ),
+            findLatest: jest.fn().mockResolvedValue(null),
+            findByRevision: jest.fn(),
+            findByContentId: jest.fn(),
+          },
+        },
+        WorkflowService,
+        {
+          provide: ContentTransitionRepository,
+          useValue: {
+            create: jest.fn((data) =>
+              Promise.resolve(
+                new ContentTransition({ id: 'transition-1', ...data, createdAt: new Date() }),
+              ),
+            ),
+            findByContentId: jest.fn(),
+          },
+        },
+        {
+          provide: ContentItemRepository,
+          useValue: {
+            create: jest.fn(),
+            findById: jest.fn(),
+            findAll: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn().mockResolvedValue(undefined),
+            count: jest.fn(),
+          },
+        },
+        {
+          provide: PrismaService,
+          useValue: { $transaction: jest.fn((fn) => fn({})) },
+        },
+        {
+          provide: OutboxService,
+          useValue: {
+            enqueueContentCreated: jest.fn(),
+            enqueueContentUpdated: jest.fn(),
+            enqueueContentPublished: jest.fn(),
+            enqueueContentUnpublished: jest.fn(),
+            enqueueContentDeleted: jest.fn(),
+            enqueueContentArchived: jest.fn(),
+          },
+        },
+        {
+          provide: JwtService,
+          useValue: {
+            signAsync: jest.fn(),
+            verifyAsync: jest.fn(),
+          },
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: jest.fn((context) => {
+          context.switchToHttp().getRequest().user = { id: 'user-1', role: UserRoles.EDITOR };
+          return true;
+        }),
+      })
+      .overrideGuard(RolesGuard)
+      .useValue({
+        canActivate: jest.fn(() => true),
+      })
+      .compile();
+
+    app = moduleFixture.createNestApplication(new FastifyAdapter());
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    contentItemRepository = moduleFixture.get(ContentItemRepository);
+    outboxService = moduleFixture.get(OutboxService);
+
+    await app.init();
+    await app.getHttpAdapter().getInstance().ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.clearAllMocks();
+  });
+
+  describe('GET /movies', () => {
+    it('should list movies filtered by status', async () => {
+      contentItemRepository.findAll.mockResolvedValue([mockMovie]);
+
+      const response = await request(app.getHttpServer())
+        .get('/movies')
+        .query({ status: ContentStatus.DRAFT, take: '10' })
+        .expect(200);
+
+      expect(response.body).toEqual([
+        expect.objectContaining({ id: movieId, contentType: 'MOVIE', duration: 6300 }),
+      ]);
+      expect(contentItemRepository.findAll).toHaveBeenCalledWith(
+        ContentType.MOVIE,
+        ContentStatus.DRAFT,
+        0,
+        10,
+      );
+    });
+  });
+
+  describe('GET /movies/:id', () => {
+    it('should return a movie with its ETag', async () => {
+      contentItemRepository.findById.mockResolvedValue(mockMovie);
+
+      const response = await request(app.getHttpServer()).get(`/movies/${movieId}`).expect(200);
+
+      expect(response.headers.etag).toBe('"3"');
+      expect(response.body).toMatchObject({
+        id: movieId,
+        releaseDate: '2024-05-17T00:00:00.000Z',
+        version: 3,
+      });
+    });
+
+    it('should return 404 if movie not found', async () => {
+      contentItemRepository.findById.mockResolvedValue(null);
+
+      await request(app.getHttpServer()).get(`/movies/${movieId}`).expect(404);
+    });
+  });
+
+  describe('POST /movies', () => {
+    it('should create a movie', async () => {
+      contentItemRepository.create.mockResolvedValue(mockMovie);
+
+      const response = await request(app.getHttpServer())
+        .post('/movies')
+        .send({ title: 'The Long Voyage', duration: 6300, releaseDate: '2024-05-17' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ id: movieId, contentType: 'MOVIE' });
+      expect(contentItemRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: ContentType.MOVIE,
+          title: 'The Long Voyage',
+          releaseDate: new Date('2024-05-17'),
+        }),
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentCreated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ contentType: 'MOVIE', createdBy: 'user-1' }),
+      );
+    });
+
+    it('should return 400 for episode fields', async () => {
+      await request(app.getHttpServer())
+        .post('/movies')
+        .send({ title: 'The Long Voyage', episodeNumber: 1 })
+        .expect(400);
+
+      expect(contentItemRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /movies/:id', () => {
+    it('should return 412 when If-Match is stale', async () => {
+      contentItemRepository.findById.mockResolvedValue(mockMovie);
+
+      const response = await request(app.getHttpServer())
+        .put(`/movies/${movieId}`)
+        .set('If-Match', '"2"')
+        .send({ title: 'Renamed' })
+        .expect(412);
+
+      expect(response.headers.etag).toBe('"3"');
+      expect(contentItemRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /movies/:id/transitions', () => {
+    it('should submit a movie for review', async () => {
+      contentItemRepository.findById.mockResolvedValue(mockMovie);
+      contentItemRepository.update.mockResolvedValue(
+        new ContentItem({ ...mockMovie, status: ContentStatus.IN_REVIEW }),
+      );
+
+      const response = await request(app.getHttpServer())
+        .post(`/movies/${movieId}/transitions`)
+        .send({ action: 'SUBMIT' })
+        .expect(200);
+
+      expect(response.body.status).toBe(ContentStatus.IN_REVIEW);
+    });
+  });
+
+  describe('DELETE /movies/:id', () => {
+    it('should delete a movie', async () => {
+      contentItemRepository.findById.mockResolvedValue(mockMovie);
+
+      await request(app.getHttpServer()).delete(`/movies/${movieId}`).expect(204);
+
+      expect(outboxService.enqueueContentDeleted).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ contentId: movieId, contentType: 'MOVIE' }),
+      );
+    });
+  });
+});
@@ -0,0 +1,738 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  UseGuards,
+  Headers,
+  Res,
+  HttpException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { FastifyReply } from 'fastify';
+import { ContentItemService } from '../services/content-item.service';
+import { ContentItem } from '../entities/content-item.entity';
+import { CreateMovieDto, UpdateMovieDto } from '../dto/movie.dto';
+import {
+  TransitionContentDto,
+  ContentTransitionDto,
+} from '../../workflow/dto/content-transition.dto';
+import { ContentTransition } from '../../workflow/entities/content-transition.entity';
+import { ContentRevisionDto } from '../../revisions/dto/content-revision.dto';
+import { ContentRevision } from '../../revisions/entities/content-revision.entity';
+import { CONCURRENCY_CONFIG } from '../../config/env.constants';
+import { ContentStatus, ContentType, ContentItemDto, toETag, matchesETag } from '@mediamesh/shared';
+import {
+  JwtAuthGuard,
+  RolesGuard,
+  Roles,
+  CurrentUser,
+  Public,
+  RequestUser,
+} from '@mediamesh/shared';
+import { UserRole } from '@mediamesh/shared';
+
+/**
+ * Movies Controller
+ *
+ * Handles movie management endpoints (movies are content items of type MOVIE):
+ * - GET /movies - List movies
+ * - GET /movies/:id - Get movie by ID (with ETag)
+ * - POST /movies - Create new movie
+ * - PUT /movies/:id - Update movie (honours If-Match)
+ * - DELETE /movies/:id - Delete movie (honours If-Match)
+ * - POST /movies/:id/transitions - Apply editorial workflow action
+ * - GET /movies/:id/transitions - Get workflow transition history
+ * - GET /movies/:id/revisions - Get revision history
+ * - POST /movies/:id/publish - Publish movie
+ * - POST /movies/:id/unpublish - Unpublish movie
+ * - POST /movies/:id/archive - Archive movie
+ * - POST /movies/:id/restore - Restore archived movie
+ */
+@ApiTags('Movies')
+@Controller('movies')
+export class MoviesController {
+  private readonly logger = new Logger(MoviesController.name);
+
+  constructor(private readonly contentItemService: ContentItemService) {}
+
+  /**
+   * Get all movies with pagination
+   * GET /movies
+   */
+  @Get()
+  @Public()
+  @ApiOperation({ summary: 'Get all movies' })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    type: Number,
+    description: 'Number of records to skip',
+  })
+  @ApiQuery({
+    name: 'take',
+    required: false,
+    type: Number,
+    description: 'Number of records to take',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ContentStatus,
+    description: 'Filter by status',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of movies',
+    type: [ContentItemDto],
+  })
+  async findAll(
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+    @Query('status') status?: ContentStatus,
+  ): Promise<ContentItemDto[]> {
+    const skipNum = skip ? parseInt(skip, 10) : 0;
+    const takeNum = take ? parseInt(take, 10) : 20;
+
+    const movies = await this.contentItemService.findAll(
+      ContentType.MOVIE,
+      status,
+      skipNum,
+      takeNum,
+    );
+    return movies.map((movie) => this.toDto(movie));
+  }
+
+  /**
+   * Get movie by ID
+   * GET /movies/:id
+   */
+  @Get(':id')
+  @Public()
+  @ApiOperation({ summary: 'Get movie by ID' })
+  @ApiParam({ name: 'id', type: String, description: 'Movie ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Movie details; the ETag header carries the current version',
+    type: ContentItemDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Movie not found',
+  })
+  async findOne(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<ContentItemDto> {
+    const movie = await this.contentItemService.findOne(ContentType.MOVIE, id);
+    reply.header('ETag', toETag(movie.version));
+    return this.toDto(movie);
+  }
+
+  /**
+   * Create a new movie
+   * POST /movies
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Create a new movie' })
+  @ApiBody({ type: CreateMovieDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Movie successfully created',
+    type: ContentItemDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @Body() createMovieDto: CreateMovieDto,
+    @CurrentUser('id') userId: string,
+  ): Promise<ContentItemDto> {
+    this.logger.log(`Creating movie: ${createMovieDto.title}`);
+    const movie = await this.contentItemService.create(
+      ContentType.MOVIE,
+      {
+        title: createMovieDto.title,
+        description: createMovieDto.description,
+        status: createMovieDto.status || ContentStatus.DRAFT,
+        metadataId: createMovieDto.metadataId,
+        externalId: createMovieDto.externalId,
+        duration: createMovieDto.duration,
+        releaseDate: createMovieDto.releaseDate ? new Date(createMovieDto.releaseDate) : undefined,
+      },
+      userId,
+    );
+    return this.toDto(movie);
+  }
+
+  /**
+   * Update movie
+   * PUT /movies/:id
+   */
+  @Put(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update movie' })
+  @ApiParam({ name: 'id', type: String, description: 'Movie ID' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from GET /movies/:id; the update is rejected if the movie changed',
+  })
+  @ApiBody({ type: UpdateMovieDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Movie successfully updated',
+    type: ContentItemDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error or invalid status transition',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Movie not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match does not match; the body carries the current movie',
+  })
+  @ApiResponse({
+    status: 428,
+    description: 'If-Match header required (CONCURRENCY_REQUIRE_IF_MATCH)',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body() updateMovieDto: UpdateMovieDto,
+    @CurrentUser('id') userId: string,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<ContentItemDto> {
+    this.logger.log(`Updating movie: ${id}`);
+    const expectedVersion = await this.checkIfMatch(id, ifMatch, reply);
+    const movie = await this.contentItemService.update(
+      ContentType.MOVIE,
+      id,
+      {
+        title: updateMovieDto.title,
+        description: updateMovieDto.description,
+        status: updateMovieDto.status,
+        metadataId: updateMovieDto.metadataId,
+        duration: updateMovieDto.duration,
+        releaseDate: updateMovieDto.releaseDate ? new Date(updateMovieDto.releaseDate) : undefined,
+      },
+      userId,
+      expectedVersion,
+    );
+    reply.header('ETag', toETag(movie.version));
+    return this.toDto(movie);
+  }
+
+  /**
+   * Delete movie
+   * DELETE /movies/:id
+   */
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Delete movie' })
+  @ApiParam({ name: 'id', type: String, description: 'Movie ID' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from GET /movies/:id; the delete is rejected if the movie changed',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Movie successfully deleted',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Movie not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match does not match; the body carries the current movie',
+  })
+  @ApiResponse({
+    status: 428,
+    description: 'If-Match header required (CONCURRENCY_REQUIRE_IF_MATCH)',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<void> {
+    this.logger.log(`Deleting movie: ${id}`);
+    const expectedVersion = await this.checkIfMatch(id, ifMatch, reply);
+    await this.contentItemService.delete(ContentType.MOVIE, id, userId, expectedVersion);
+  }
+
+  /**
+   * Apply editorial workflow action
+   * POST /movies/:id/transitions
+   */
+  @Post(':id/transitions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Apply workflow action (submit, approve, reject, withdraw, publish)',
+    description:
+      'Only ADMIN or a reviewer role can approve or reject. Rejecting requires a comment.',
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Movie ID' })
+  @ApiBody({ type: TransitionContentDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Workflow action applied',
+    type: ContentItemDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid status transition or missing comment',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Movie not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Movie already published',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async transition(
+    @Param('id') id: string,
+    @Body() transitionDto: TransitionContentDto,
+    @CurrentUser() user: RequestUser,
+  ): Promise<ContentItemDto> {
+    this.logger.log(`Applying ${transitionDto.action} to movie: ${id}`);
+    const movie = await this.contentItemService.transition(
+      ContentType.MOVIE,
+      id,
+      transitionDto.action,
+      { id: user.id, role: user.role },
+      transitionDto.comment,
+    );
+    return this.toDto(movie);
+  }
+
+  /**
+   * Get workflow transition history
+   * GET /movies/:id/transitions
+   */
+  @Get(':id/transitions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get workflow transition history of a movie' })
+  @ApiParam({ name: 'id', type: String, description: 'Movie ID' })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    type: Number,
+    description: 'Number of records to skip',
+  })
+  @ApiQuery({
+    name: 'take',
+    required: false,
+    type: Number,
+    description: 'Number of records to take',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Transitions, oldest first',
+    type: [ContentTransitionDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Movie not found',
+  })
+  async findTransitions(
+    @Param('id') id: string,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<ContentTransitionDto[]> {
+    const skipNum = skip ? parseInt(skip, 10) : 0;
+    const takeNum = take ? parseInt(take, 10) : 50;
+
+    const transitions = await this.contentItemService.findTransitions(
+      ContentType.MOVIE,
+      id,
+      skipNum,
+      takeNum,
+    );
+    return transitions.map((transition) => this.toTransitionDto(transition));
+  }
+
+  /**
+   * Get revision history
+   * GET /movies/:id/revisions
+   */
+  @Get(':id/revisions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get revision history of a movie' })
+  @ApiParam({ name: 'id', type: String, description: 'Movie ID' })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    type: Number,
+    description: 'Number of records to skip',
+  })
+  @ApiQuery({
+    name: 'take',
+    required: false,
+    type: Number,
+    description: 'Number of records to take',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revisions, newest first',
+    type: [ContentRevisionDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Movie not found',
+  })
+  async findRevisions(
+    @Param('id') id: string,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<ContentRevisionDto[]> {
+    const skipNum = skip ? parseInt(skip, 10) : 0;
+    const takeNum = take ? parseInt(take, 10) : 20;
+
+    const revisions = await this.contentItemService.findRevisions(
+      ContentType.MOVIE,
+      id,
+      skipNum,
+      takeNum,
+    );
+    return revisions.map((revision) => this.toRevisionDto(revision));
+  }
+
+  /**
+   * Publish movie
+   * POST /movies/:id/publish
+   */
+  @Post(':id/publish')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Publish movie (APPROVED -> PUBLISHED, or DRAFT when review is not required)',
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Movie ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Movie successfully published',
+    type: ContentItemDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Movie has not been approved',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Movie not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Movie already published',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async publish(
+    @Param('id') id: string,
+    @CurrentUser() user: RequestUser,
+  ): Promise<ContentItemDto> {
+    this.logger.log(`Publishing movie: ${id}`);
+    const movie = await this.contentItemService.publish(ContentType.MOVIE, id, {
+      id: user.id,
+      role: user.role,
+    });
+    return this.toDto(movie);
+  }
+
+  /**
+   * Unpublish movie
+   * POST /movies/:id/unpublish
+   */
+  @Post(':id/unpublish')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unpublish movie (PUBLISHED -> DRAFT)' })
+  @ApiParam({ name: 'id', type: String, description: 'Movie ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Movie successfully unpublished',
+    type: ContentItemDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Movie is not published',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Movie not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Movie already in draft status',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async unpublish(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<ContentItemDto> {
+    this.logger.log(`Unpublishing movie: ${id}`);
+    const movie = await this.contentItemService.unpublish(ContentType.MOVIE, id, userId);
+    return this.toDto(movie);
+  }
+
+  /**
+   * Archive movie
+   * POST /movies/:id/archive
+   */
+  @Post(':id/archive')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Archive movie (any status -> ARCHIVED)' })
+  @ApiParam({ name: 'id', type: String, description: 'Movie ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Movie successfully archived',
+    type: ContentItemDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Movie not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Movie already archived',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async archive(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<ContentItemDto> {
+    this.logger.log(`Archiving movie: ${id}`);
+    const movie = await this.contentItemService.archive(ContentType.MOVIE, id, userId);
+    return this.toDto(movie);
+  }
+
+  /**
+   * Restore archived movie
+   * POST /movies/:id/restore
+   */
+  @Post(':id/restore')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore archived movie (ARCHIVED -> DRAFT)' })
+  @ApiParam({ name: 'id', type: String, description: 'Movie ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Movie successfully restored',
+    type: ContentItemDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Movie is not archived',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Movie not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async restore(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<ContentItemDto> {
+    this.logger.log(`Restoring movie: ${id}`);
+    const movie = await this.contentItemService.restore(ContentType.MOVIE, id, userId);
+    return this.toDto(movie);
+  }
+
+  /**
+   * Enforce If-Match against the current movie version
+   *
+   * Returns the version the write must still match. A stale ETag is rejected with 412, the
+   * current representation in the body and its ETag in the header.
+   */
+  private async checkIfMatch(
+    id: string,
+    ifMatch: string | undefined,
+    reply: FastifyReply,
+  ): Promise<number | undefined> {
+    if (!ifMatch) {
+      if (CONCURRENCY_CONFIG.REQUIRE_IF_MATCH) {
+        throw new HttpException('If-Match header is required', HttpStatus.PRECONDITION_REQUIRED);
+      }
+      return undefined;
+    }
+
+    const movie = await this.contentItemService.findOne(ContentType.MOVIE, id);
+    if (!matchesETag(ifMatch, movie.version)) {
+      reply.header('ETag', toETag(movie.version));
+      throw new PreconditionFailedException({
+        statusCode: HttpStatus.PRECONDITION_FAILED,
+        message: `Movie ${id} has been modified (current version ${movie.version})`,
+        error: 'Precondition Failed',
+        current: this.toDto(movie),
+      });
+    }
+
+    return movie.version;
+  }
+
+  /**
+   * Convert ContentItem entity to DTO
+   */
+  private toDto(movie: ContentItem): ContentItemDto {
+    return {
+      id: movie.id,
+      contentType: movie.type,
+      title: movie.title,
+      description: movie.description,
+      status: movie.status,
+      duration: movie.duration,
+      releaseDate: movie.releaseDate?.toISOString(),
+      externalId: movie.externalId,
+      version: movie.version,
+      publishedAt: movie.publishedAt?.toISOString(),
+      createdAt: movie.createdAt.toISOString(),
+      updatedAt: movie.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Convert ContentRevision entity to DTO
+   */
+  private toRevisionDto(revision: ContentRevision): ContentRevisionDto {
+    return {
+      id: revision.id,
+      contentId: revision.contentId,
+      contentType: revision.contentType,
+      revision: revision.revision,
+      action: revision.action,
+      snapshot: revision.snapshot,
+      diff: revision.diff,
+      authorId: revision.authorId,
+      restoredFrom: revision.restoredFrom,
+      createdAt: revision.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Convert ContentTransition entity to DTO
+   */
+  private toTransitionDto(transition: ContentTransition): ContentTransitionDto {
+    return {
+      id: transition.id,
+      contentId: transition.contentId,
+      contentType: transition.contentType,
+      action: transition.action,
+      fromStatus: transition.fromStatus,
+      toStatus: transition.toStatus,
+      actorId: transition.actorId,
+      actorRole: transition.actorRole,
+      comment: transition.comment,
+      createdAt: transition.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { ContentStatus } from '@mediamesh/shared';
+
+/**
+ * Create Movie DTO
+ *
+ * Request body for POST /movies.
+ */
+export class CreateMovieDto {
+  @ApiProperty({ description: 'Movie title', example: 'The Long Voyage' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  title: string;
+
+  @ApiPropertyOptional({ description: 'Movie description' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Running time in seconds', example: 6300 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  duration?: number;
+
+  @ApiPropertyOptional({ description: 'Release date', example: '2024-05-17' })
+  @IsOptional()
+  @IsDateString()
+  releaseDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Initial status (PUBLISHED only when review is not required)',
+    enum: [ContentStatus.DRAFT, ContentStatus.PUBLISHED],
+    default: ContentStatus.DRAFT,
+  })
+  @IsOptional()
+  @IsEnum(ContentStatus)
+  status?: ContentStatus;
+
+  @ApiPropertyOptional({ description: 'Metadata service record ID' })
+  @IsOptional()
+  @IsUUID()
+  metadataId?: string;
+
+  @ApiPropertyOptional({ description: 'ID in the source catalog, unique among movies' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  externalId?: string;
+}
+
+/**
+ * Update Movie DTO
+ *
+ * Request body for PUT /movies/:id. The external ID cannot be changed.
+ */
+export class UpdateMovieDto extends PartialType(
+  OmitType(CreateMovieDto, ['externalId'] as const),
+) {}
@@ -0,0 +1,75 @@
+import { ContentStatus, ContentType } from '@mediamesh/shared';
+
+/**
+ * Content types stored as standalone content items (no episodes)
+ */
+export type ContentItemType = ContentType.MOVIE;
+
+/**
+ * Content Item Entity
+ *
+ * Represents standalone content (a movie) in the CMS. Unlike programs, content items
+ * have no seasons or episodes; the type tells consumers which kind of content it is.
+ */
+export class ContentItem {
+  id: string;
+  type: ContentItemType;
+  title: string;
+  description?: string;
+  status: ContentStatus;
+  metadataId?: string; // Optional FK to metadata service
+  externalId?: string; // ID in the source catalog
+  duration?: number; // in seconds
+  releaseDate?: Date;
+  version: number; // Incremented on every write, exposed as ETag
+  createdAt: Date;
+  updatedAt: Date;
+  publishedAt?: Date;
+
+  constructor(partial: Partial<ContentItem>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create ContentItem entity from Prisma model
+   */
+  static fromPrisma(prismaItem: {
+    id: string;
+    type: string;
+    title: string;
+    description: string | null;
+    status: string;
+    metadataId: string | null;
+    externalId: string | null;
+    duration: number | null;
+    releaseDate: Date | null;
+    version: number;
+    createdAt: Date;
+    updatedAt: Date;
+    publishedAt: Date | null;
+  }): ContentItem {
+    return new ContentItem({
+      id: prismaItem.id,
+      type: prismaItem.type as ContentItemType,
+      title: prismaItem.title,
+      description: prismaItem.description || undefined,
+      status: prismaItem.status as ContentStatus,
+      metadataId: prismaItem.metadataId || undefined,
+      externalId: prismaItem.externalId || undefined,
+      duration: prismaItem.duration ?? undefined,
+      releaseDate: prismaItem.releaseDate || undefined,
+      version: prismaItem.version,
+      createdAt: prismaItem.createdAt,
+      updatedAt: prismaItem.updatedAt,
+      publishedAt: prismaItem.publishedAt || undefined,
+    });
+  }
+
+  /**
+   * Convert to DTO
+   */
+  toDto() {
+    const { ...dto } = this;
+    return dto;
+  }
+}
@@ -0,0 +1,142 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ContentItem, ContentItemType } from '../entities/content-item.entity';
+import { ContentStatus } from '@mediamesh/shared';
+
+/**
+ * Content Item Repository
+ *
+ * Data access layer for ContentItem entities. Every query is scoped to a content type.
+ */
+@Injectable()
+export class ContentItemRepository {
+  private readonly logger = new Logger(ContentItemRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a new content item
+   */
+  async create(
+    data: {
+      type: ContentItemType;
+      title: string;
+      description?: string;
+      status?: ContentStatus;
+      metadataId?: string;
+      externalId?: string;
+      duration?: number;
+      releaseDate?: Date;
+      publishedAt?: Date;
+    },
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<ContentItem> {
+    const prismaItem = await tx.contentItem.create({
+      data: {
+        type: data.type,
+        title: data.title,
+        description: data.description,
+        status: data.status || ContentStatus.DRAFT,
+        metadataId: data.metadataId,
+        externalId: data.externalId,
+        duration: data.duration,
+        releaseDate: data.releaseDate,
+        publishedAt: data.publishedAt,
+      },
+    });
+
+    return ContentItem.fromPrisma(prismaItem);
+  }
+
+  /**
+   * Find content item of a type by ID
+   */
+  async findById(type: ContentItemType, id: string): Promise<ContentItem | null> {
+    const prismaItem = await this.prisma.contentItem.findFirst({
+      where: { id, type },
+    });
+
+    return prismaItem ? ContentItem.fromPrisma(prismaItem) : null;
+  }
+
+  /**
+   * Find content items of a type with pagination, optionally filtered by status
+   */
+  async findAll(
+    type: ContentItemType,
+    status?: ContentStatus,
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<ContentItem[]> {
+    const prismaItems = await this.prisma.contentItem.findMany({
+      where: { type, ...(status && { status }) },
+      skip,
+      take,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return prismaItems.map(ContentItem.fromPrisma);
+  }
+
+  /**
+   * Update content item
+   *
+   * Every update increments the version. When expectedVersion is given the update only applies
+   * to that version; otherwise Prisma rejects it with P2025 (record not found).
+   */
+  async update(
+    id: string,
+    data: {
+      title?: string;
+      description?: string | null;
+      status?: ContentStatus;
+      metadataId?: string | null;
+      duration?: number | null;
+      releaseDate?: Date | null;
+      publishedAt?: Date;
+    },
+    tx: Prisma.TransactionClient = this.prisma,
+    expectedVersion?: number,
+  ): Promise<ContentItem> {
+    const prismaItem = await tx.contentItem.update({
+      where: { id, ...(expectedVersion !== undefined && { version: expectedVersion }) },
+      data: {
+        ...(data.title !== undefined && { title: data.title }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.status !== undefined && { status: data.status }),
+        ...(data.metadataId !== undefined && { metadataId: data.metadataId }),
+        ...(data.duration !== undefined && { duration: data.duration }),
+        ...(data.releaseDate !== undefined && { releaseDate: data.releaseDate }),
+        ...(data.publishedAt !== undefined && { publishedAt: data.publishedAt }),
+        version: { increment: 1 },
+      },
+    });
+
+    return ContentItem.fromPrisma(prismaItem);
+  }
+
+  /**
+   * Delete content item
+   *
+   * When expectedVersion is given the delete only applies to that version.
+   */
+  async delete(
+    id: string,
+    tx: Prisma.TransactionClient = this.prisma,
+    expectedVersion?: number,
+  ): Promise<void> {
+    await tx.contentItem.delete({
+      where: { id, ...(expectedVersion !== undefined && { version: expectedVersion }) },
+    });
+  }
+
+  /**
+   * Count content items of a type, optionally by status
+   */
+  async count(type: ContentItemType, status?: ContentStatus): Promise<number> {
+    return await this.prisma.contentItem.count({
+      where: { type, ...(status && { status }) },
+    });
+  }
+}
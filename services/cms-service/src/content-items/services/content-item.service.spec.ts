@@ -0,0 +1,355 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { ContentItemService } from './content-item.service';
+import { ContentItemRepository } from '../repositories/content-item.repository';
+import { ContentItem } from '../entities/content-item.entity';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { RevisionService } from '../../revisions/services/revision.service';
+import { ContentRevisionRepository } from '../../revisions/repositories/content-revision.repository';
+import { ContentRevision } from '../../revisions/entities/content-revision.entity';
+import { WorkflowService } from '../../workflow/services/workflow.service';
+import { ContentTransitionRepository } from '../../workflow/repositories/content-transition.repository';
+import {
+  ContentTransition,
+  WorkflowAction,
+} from '../../workflow/entities/content-transition.entity';
+import { ContentStatus, ContentType, UserRole } from '@mediamesh/shared';
+
+describe('ContentItemService', () => {
+  let service: ContentItemService;
+  let contentItemRepository: jest.Mocked<ContentItemRepository>;
+  let outboxService: jest.Mocked<OutboxService>;
+  let workflowService: WorkflowService;
+  let transitionRepository: jest.Mocked<ContentTransitionRepository>;
+  let revisionRepository: jest.Mocked<ContentRevisionRepository>;
+
+  const mockMovie = new ContentItem({
+    id: 'movie-1',
+    type: ContentType.MOVIE,
+    title: 'The Long Voyage',
+    description: 'A film',
+    status: ContentStatus.DRAFT,
+    duration: 6300,
+    version: 1,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ContentItemService,
+        RevisionService,
+        {
+          provide: ContentRevisionRepository,
+          useValue: {
+            create: jest.fn((data) =>
+              Promise.resolve(
+                new ContentRevision({ id: 'revision-1', ...data, createdAt: new Date() }),
+              ),
+            ),
+            findLatest: jest.fn().mockResolvedValue(null),
+            findByRevision: jest.fn(),
+            findByContentId: jest.fn(),
+          },
+        },
+        WorkflowService,
+        {
+          provide: ContentTransitionRepository,
+          useValue: {
+            create: jest.fn((data) =>
+              Promise.resolve(
+                new ContentTransition({ id: 'transition-1', ...data, createdAt: new Date() }),
+              ),
+            ),
+            findByContentId: jest.fn(),
+          },
+        },
+        {
+          provide: ContentItemRepository,
+          useValue: {
+            create: jest.fn(),
+            findById: jest.fn(),
+            findAll: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn().mockResolvedValue(undefined),
+            count: jest.fn(),
+          },
+        },
+        {
+          provide: PrismaService,
+          useValue: { $transaction: jest.fn((fn) => fn({})) },
+        },
+        {
+          provide: OutboxService,
+          useValue: {
+            enqueueContentCreated: jest.fn(),
+            enqueueContentUpdated: jest.fn(),
+            enqueueContentPublished: jest.fn(),
+            enqueueContentUnpublished: jest.fn(),
+            enqueueContentDeleted: jest.fn(),
+            enqueueContentArchived: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ContentItemService>(ContentItemService);
+    contentItemRepository = module.get(ContentItemRepository);
+    outboxService = module.get(OutboxService);
+    workflowService = module.get<WorkflowService>(WorkflowService);
+    transitionRepository = module.get(ContentTransitionRepository);
+    revisionRepository = module.get(ContentRevisionRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a draft movie and enqueue content.created', async () => {
+      contentItemRepository.create.mockResolvedValue(mockMovie);
+
+      const result = await service.create(
+        ContentType.MOVIE,
+        { title: 'The Long Voyage', duration: 6300 },
+        'user-1',
+      );
+
+      expect(result).toEqual(mockMovie);
+      expect(contentItemRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: ContentType.MOVIE,
+          title: 'The Long Voyage',
+          status: ContentStatus.DRAFT,
+          duration: 6300,
+        }),
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentCreated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'movie-1',
+          contentType: 'MOVIE',
+          item: expect.objectContaining({ id: 'movie-1', duration: 6300 }),
+        }),
+      );
+      expect(revisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ contentId: 'movie-1', contentType: 'MOVIE', revision: 1 }),
+        expect.anything(),
+      );
+    });
+
+    it('should reject creating a published movie when review is required', async () => {
+      jest.spyOn(workflowService, 'isReviewRequired').mockReturnValue(true);
+
+      await expect(
+        service.create(ContentType.MOVIE, { title: 'x', status: ContentStatus.PUBLISHED }),
+      ).rejects.toThrow(BadRequestException);
+      expect(contentItemRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should look the item up within its type', async () => {
+      contentItemRepository.findById.mockResolvedValue(mockMovie);
+
+      await service.findOne(ContentType.MOVIE, 'movie-1');
+
+      expect(contentItemRepository.findById).toHaveBeenCalledWith(ContentType.MOVIE, 'movie-1');
+    });
+
+    it('should throw NotFoundException naming the content type', async () => {
+      contentItemRepository.findById.mockResolvedValue(null);
+
+      await expect(service.findOne(ContentType.MOVIE, 'missing')).rejects.toThrow(
+        "Movie with identifier 'missing' not found",
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should update fields and emit the changes', async () => {
+      const updated = new ContentItem({ ...mockMovie, title: 'Renamed', version: 2 });
+      contentItemRepository.findById.mockResolvedValue(mockMovie);
+      contentItemRepository.update.mockResolvedValue(updated);
+
+      const result = await service.update(
+        ContentType.MOVIE,
+        'movie-1',
+        { title: 'Renamed', releaseDate: new Date('2024-05-17') },
+        'user-1',
+      );
+
+      expect(result).toEqual(updated);
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentType: 'MOVIE',
+          changes: {
+            title: { old: 'The Long Voyage', new: 'Renamed' },
+            releaseDate: { old: undefined, new: '2024-05-17T00:00:00.000Z' },
+          },
+        }),
+      );
+    });
+
+    it('should map a stale expected version to PreconditionFailedException', async () => {
+      contentItemRepository.findById.mockResolvedValue(mockMovie);
+      contentItemRepository.update.mockRejectedValue({ code: 'P2025' });
+
+      await expect(
+        service.update(ContentType.MOVIE, 'movie-1', { title: 'Renamed' }, 'user-1', 1),
+      ).rejects.toThrow(PreconditionFailedException);
+      expect(outboxService.enqueueContentUpdated).not.toHaveBeenCalled();
+    });
+
+    it('should reject a direct status change to APPROVED', async () => {
+      contentItemRepository.findById.mockResolvedValue(mockMovie);
+
+      await expect(
+        service.update(ContentType.MOVIE, 'movie-1', { status: ContentStatus.APPROVED }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the movie and enqueue content.deleted', async () => {
+      contentItemRepository.findById.mockResolvedValue(mockMovie);
+
+      await service.delete(ContentType.MOVIE, 'movie-1', 'user-1');
+
+      expect(contentItemRepository.delete).toHaveBeenCalledWith(
+        'movie-1',
+        expect.anything(),
+        undefined,
+      );
+      expect(outboxService.enqueueContentDeleted).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'movie-1',
+          contentType: 'MOVIE',
+          deletedBy: 'user-1',
+        }),
+      );
+    });
+
+    it('should throw if movie not found', async () => {
+      contentItemRepository.findById.mockResolvedValue(null);
+
+      await expect(service.delete(ContentType.MOVIE, 'missing')).rejects.toThrow(
+        "Movie with identifier 'missing' not found",
+      );
+      expect(contentItemRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transition', () => {
+    it('should submit a draft movie for review and record the transition', async () => {
+      const inReview = new ContentItem({ ...mockMovie, status: ContentStatus.IN_REVIEW });
+      contentItemRepository.findById.mockResolvedValue(mockMovie);
+      contentItemRepository.update.mockResolvedValue(inReview);
+
+      const result = await service.transition(ContentType.MOVIE, 'movie-1', WorkflowAction.SUBMIT, {
+        id: 'user-1',
+        role: UserRole.EDITOR,
+      });
+
+      expect(result.status).toBe(ContentStatus.IN_REVIEW);
+      expect(transitionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          contentId: 'movie-1',
+          contentType: 'MOVIE',
+          action: WorkflowAction.SUBMIT,
+          fromStatus: ContentStatus.DRAFT,
+          toStatus: ContentStatus.IN_REVIEW,
+        }),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('publish', () => {
+    it('should publish an approved movie and enqueue content.published', async () => {
+      const approved = new ContentItem({ ...mockMovie, status: ContentStatus.APPROVED });
+      const published = new ContentItem({
+        ...mockMovie,
+        status: ContentStatus.PUBLISHED,
+        publishedAt: new Date('2024-02-01'),
+      });
+      contentItemRepository.findById.mockResolvedValue(approved);
+      contentItemRepository.update.mockResolvedValue(published);
+
+      const result = await service.publish(ContentType.MOVIE, 'movie-1', {
+        id: 'user-1',
+        role: UserRole.EDITOR,
+      });
+
+      expect(result.status).toBe(ContentStatus.PUBLISHED);
+      expect(outboxService.enqueueContentPublished).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'movie-1',
+          contentType: 'MOVIE',
+          item: expect.objectContaining({ status: ContentStatus.PUBLISHED }),
+        }),
+      );
+    });
+
+    it('should throw ConflictException if already published', async () => {
+      contentItemRepository.findById.mockResolvedValue(
+        new ContentItem({ ...mockMovie, status: ContentStatus.PUBLISHED }),
+      );
+
+      await expect(service.publish(ContentType.MOVIE, 'movie-1')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('unpublish', () => {
+    it('should unpublish a published movie and enqueue content.unpublished', async () => {
+      contentItemRepository.findById.mockResolvedValue(
+        new ContentItem({ ...mockMovie, status: ContentStatus.PUBLISHED }),
+      );
+      contentItemRepository.update.mockResolvedValue(mockMovie);
+
+      await service.unpublish(ContentType.MOVIE, 'movie-1', 'user-1');
+
+      expect(outboxService.enqueueContentUnpublished).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ contentId: 'movie-1', contentType: 'MOVIE' }),
+      );
+    });
+  });
+
+  describe('archive and restore', () => {
+    it('should archive a movie and enqueue content.archived', async () => {
+      contentItemRepository.findById.mockResolvedValue(mockMovie);
+      contentItemRepository.update.mockResolvedValue(
+        new ContentItem({ ...mockMovie, status: ContentStatus.ARCHIVED }),
+      );
+
+      await service.archive(ContentType.MOVIE, 'movie-1', 'user-1');
+
+      expect(outboxService.enqueueContentArchived).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ contentId: 'movie-1', contentType: 'MOVIE' }),
+      );
+    });
+
+    it('should only restore archived movies', async () => {
+      contentItemRepository.findById.mockResolvedValue(mockMovie);
+
+      await expect(service.restore(ContentType.MOVIE, 'movie-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(contentItemRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
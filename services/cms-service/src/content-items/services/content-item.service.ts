@@ -0,0 +1,683 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ContentItemRepository } from '../repositories/content-item.repository';
+import { ContentItem, ContentItemType } from '../entities/content-item.entity';
+import { ContentStatus, ContentType } from '@mediamesh/shared';
+import { throwIfNotFound } from '@mediamesh/shared';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { WorkflowService } from '../../workflow/services/workflow.service';
+import {
+  ContentTransition,
+  WorkflowAction,
+  WorkflowActor,
+} from '../../workflow/entities/content-transition.entity';
+import { RevisionService } from '../../revisions/services/revision.service';
+import {
+  ContentRevision,
+  RevisionAction,
+  RevisionSnapshot,
+} from '../../revisions/entities/content-revision.entity';
+
+/**
+ * Human-readable name of each content item type, used in error messages
+ */
+const CONTENT_ITEM_NAMES: Record<ContentItemType, string> = {
+  [ContentType.MOVIE]: 'Movie',
+};
+
+/**
+ * Content Item Service
+ *
+ * Business logic layer for standalone content (movies). Follows the same publishing workflow
+ * as programs: content events are written to the outbox in the same transaction as the change,
+ * every status change is recorded as a workflow transition and every edit as a revision.
+ * Every operation is scoped to a content type, so a movie ID never resolves another type.
+ */
+@Injectable()
+export class ContentItemService {
+  private readonly logger = new Logger(ContentItemService.name);
+
+  constructor(
+    private readonly contentItemRepository: ContentItemRepository,
+    private readonly prisma: PrismaService,
+    private readonly outboxService: OutboxService,
+    private readonly workflowService: WorkflowService,
+    private readonly revisionService: RevisionService,
+  ) {}
+
+  /**
+   * Create a new content item
+   */
+  async create(
+    type: ContentItemType,
+    data: {
+      title: string;
+      description?: string;
+      status?: ContentStatus;
+      metadataId?: string;
+      externalId?: string;
+      duration?: number;
+      releaseDate?: Date;
+    },
+    createdBy?: string,
+  ): Promise<ContentItem> {
+    this.logger.log(`Creating new ${type}: ${data.title}`);
+
+    // Validate status
+    const status = data.status || ContentStatus.DRAFT;
+    if (
+      status !== ContentStatus.DRAFT &&
+      (this.workflowService.isReviewRequired() || status !== ContentStatus.PUBLISHED)
+    ) {
+      throw new BadRequestException(
+        `Cannot create ${this.name(type).toLowerCase()} with status: ${status}. ` +
+          'Use the review workflow instead.',
+      );
+    }
+
+    // Create item and enqueue content.created event atomically
+    const item = await this.prisma.$transaction(async (tx) => {
+      const created = await this.contentItemRepository.create(
+        {
+          type,
+          title: data.title,
+          description: data.description,
+          status,
+          metadataId: data.metadataId, // Optional FK to metadata service
+          externalId: data.externalId,
+          duration: data.duration,
+          releaseDate: data.releaseDate,
+          publishedAt: status === ContentStatus.PUBLISHED ? new Date() : undefined,
+        },
+        tx,
+      );
+
+      await this.outboxService.enqueueContentCreated(tx, {
+        contentId: created.id,
+        contentType: type,
+        title: created.title,
+        description: created.description,
+        status: created.status,
+        metadataId: created.metadataId,
+        createdAt: created.createdAt,
+        createdBy,
+        item: this.toEventItem(created),
+      });
+
+      await this.revisionService.record(tx, {
+        contentId: created.id,
+        contentType: type,
+        action: RevisionAction.CREATE,
+        snapshot: this.toSnapshot(created),
+        authorId: createdBy,
+      });
+
+      return created;
+    });
+
+    this.logger.log(`${this.name(type)} created: ${item.id} (${item.title})`);
+
+    return item;
+  }
+
+  /**
+   * Find content items of a type with pagination, optionally filtered by status
+   */
+  async findAll(
+    type: ContentItemType,
+    status?: ContentStatus,
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<ContentItem[]> {
+    return await this.contentItemRepository.findAll(type, status, skip, take);
+  }
+
+  /**
+   * Find content item by ID
+   */
+  async findOne(type: ContentItemType, id: string): Promise<ContentItem> {
+    const item = await this.contentItemRepository.findById(type, id);
+    throwIfNotFound(item, this.name(type), id);
+    return item;
+  }
+
+  /**
+   * Update content item
+   *
+   * When expectedVersion is given (from If-Match) the write fails with 412 if the item
+   * has been modified since that version.
+   */
+  async update(
+    type: ContentItemType,
+    id: string,
+    data: {
+      title?: string;
+      description?: string;
+      status?: ContentStatus;
+      metadataId?: string;
+      duration?: number;
+      releaseDate?: Date;
+    },
+    updatedBy?: string,
+    expectedVersion?: number,
+  ): Promise<ContentItem> {
+    this.logger.log(`Updating ${type}: ${id}`);
+
+    const existing = await this.findOne(type, id);
+
+    // Track changes for event
+    const changes: Record<string, { old: any; new: any }> = {};
+    if (data.title !== undefined && data.title !== existing.title) {
+      changes.title = { old: existing.title, new: data.title };
+    }
+    if (data.description !== undefined && data.description !== existing.description) {
+      changes.description = { old: existing.description, new: data.description };
+    }
+    if (data.status !== undefined && data.status !== existing.status) {
+      changes.status = { old: existing.status, new: data.status };
+    }
+    if (data.metadataId !== undefined && data.metadataId !== existing.metadataId) {
+      changes.metadataId = { old: existing.metadataId, new: data.metadataId };
+    }
+    if (data.duration !== undefined && data.duration !== existing.duration) {
+      changes.duration = { old: existing.duration, new: data.duration };
+    }
+    if (
+      data.releaseDate !== undefined &&
+      data.releaseDate.getTime() !== existing.releaseDate?.getTime()
+    ) {
+      changes.releaseDate = {
+        old: existing.releaseDate?.toISOString(),
+        new: data.releaseDate.toISOString(),
+      };
+    }
+
+    // Validate status transition
+    if (data.status) {
+      this.validateStatusTransition(existing.status, data.status);
+    }
+
+    // Keep publishedAt when unpublishing, set it on first publish
+    const publishedAt =
+      data.status === ContentStatus.PUBLISHED && !existing.publishedAt
+        ? new Date()
+        : existing.publishedAt;
+
+    // Update item and enqueue content.updated event atomically
+    const item = await this.prisma.$transaction(async (tx) => {
+      const updated = await this.contentItemRepository
+        .update(
+          id,
+          {
+            title: data.title,
+            description: data.description,
+            status: data.status,
+            metadataId: data.metadataId,
+            duration: data.duration,
+            releaseDate: data.releaseDate,
+            publishedAt,
+          },
+          tx,
+          expectedVersion,
+        )
+        .catch((error) => this.rethrowVersionConflict(error, type, id, expectedVersion));
+
+      if (changes.status) {
+        const transition = await this.recordTransition(tx, updated, {
+          action:
+            data.status === ContentStatus.PUBLISHED
+              ? WorkflowAction.PUBLISH
+              : WorkflowAction.UNPUBLISH,
+          fromStatus: existing.status,
+          actorId: updatedBy,
+        });
+        changes.transition = transition.toChange();
+      }
+
+      await this.revisionService.record(tx, {
+        contentId: id,
+        contentType: type,
+        action: RevisionAction.UPDATE,
+        snapshot: this.toSnapshot(updated),
+        previous: this.toSnapshot(existing),
+        authorId: updatedBy,
+      });
+
+      // Emit content.updated event if there were changes
+      if (Object.keys(changes).length > 0) {
+        await this.outboxService.enqueueContentUpdated(tx, {
+          contentId: updated.id,
+          contentType: type,
+          title: updated.title,
+          status: updated.status,
+          updatedBy,
+          changes,
+          item: this.toEventItem(updated),
+        });
+      }
+
+      return updated;
+    });
+
+    this.logger.log(`${this.name(type)} updated: ${id}`);
+
+    return item;
+  }
+
+  /**
+   * Get the revision history of a content item (newest first)
+   */
+  async findRevisions(
+    type: ContentItemType,
+    id: string,
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<ContentRevision[]> {
+    await this.findOne(type, id);
+    return await this.revisionService.findAll(id, skip, take);
+  }
+
+  /**
+   * Delete content item
+   *
+   * When expectedVersion is given (from If-Match) the delete fails with 412 on a stale version.
+   */
+  async delete(
+    type: ContentItemType,
+    id: string,
+    deletedBy?: string,
+    expectedVersion?: number,
+  ): Promise<void> {
+    this.logger.log(`Deleting ${type}: ${id}`);
+
+    const item = await this.findOne(type, id);
+
+    // Delete item and enqueue content.deleted event atomically
+    await this.prisma.$transaction(async (tx) => {
+      await this.contentItemRepository
+        .delete(id, tx, expectedVersion)
+        .catch((error) => this.rethrowVersionConflict(error, type, id, expectedVersion));
+
+      await this.outboxService.enqueueContentDeleted(tx, {
+        contentId: item.id,
+        contentType: type,
+        title: item.title,
+        deletedBy,
+        deletedAt: new Date(),
+      });
+    });
+
+    this.logger.log(`${this.name(type)} deleted: ${id}`);
+  }
+
+  /**
+   * Apply an editorial workflow action (submit, approve, reject, withdraw, publish)
+   *
+   * Emits content.updated with the status and the recorded transition in the changes map.
+   */
+  async transition(
+    type: ContentItemType,
+    id: string,
+    action: WorkflowAction,
+    actor: WorkflowActor,
+    comment?: string,
+  ): Promise<ContentItem> {
+    if (action === WorkflowAction.PUBLISH) {
+      return await this.publish(type, id, actor);
+    }
+
+    this.logger.log(`Applying ${action} to ${type}: ${id}`);
+
+    const item = await this.findOne(type, id);
+    const status = this.workflowService.resolve(action, item.status, actor, comment);
+
+    // Update status, record transition and enqueue content.updated event atomically
+    const transitioned = await this.prisma.$transaction(async (tx) => {
+      const updated = await this.contentItemRepository.update(id, { status }, tx);
+
+      const transition = await this.recordTransition(tx, updated, {
+        action,
+        fromStatus: item.status,
+        actorId: actor.id,
+        actorRole: actor.role,
+        comment,
+      });
+
+      await this.outboxService.enqueueContentUpdated(tx, {
+        contentId: updated.id,
+        contentType: type,
+        title: updated.title,
+        status: updated.status,
+        updatedBy: actor.id,
+        changes: {
+          status: { old: item.status, new: status },
+          transition: transition.toChange(),
+        },
+        item: this.toEventItem(updated),
+      });
+
+      return updated;
+    });
+
+    this.logger.log(`${this.name(type)} ${id} moved from ${item.status} to ${status}`);
+    return transitioned;
+  }
+
+  /**
+   * Get the workflow transition history of a content item
+   */
+  async findTransitions(
+    type: ContentItemType,
+    id: string,
+    skip: number = 0,
+    take: number = 50,
+  ): Promise<ContentTransition[]> {
+    await this.findOne(type, id);
+    return await this.workflowService.findHistory(id, skip, take);
+  }
+
+  /**
+   * Publish content item (APPROVED -> PUBLISHED, or DRAFT when review is not required)
+   */
+  async publish(type: ContentItemType, id: string, actor?: WorkflowActor): Promise<ContentItem> {
+    this.logger.log(`Publishing ${type}: ${id}`);
+
+    const item = await this.findOne(type, id);
+
+    if (item.status === ContentStatus.PUBLISHED) {
+      throw new ConflictException(`${this.name(type)} ${id} is already published`);
+    }
+
+    this.workflowService.resolve(WorkflowAction.PUBLISH, item.status, actor);
+
+    // Publish item and enqueue content.published event atomically
+    const publishedItem = await this.prisma.$transaction(async (tx) => {
+      const published = await this.contentItemRepository.update(
+        id,
+        {
+          status: ContentStatus.PUBLISHED,
+          publishedAt: new Date(),
+        },
+        tx,
+      );
+
+      await this.recordTransition(tx, published, {
+        action: WorkflowAction.PUBLISH,
+        fromStatus: item.status,
+        actorId: actor?.id,
+        actorRole: actor?.role,
+      });
+
+      await this.outboxService.enqueueContentPublished(tx, {
+        contentId: published.id,
+        contentType: type,
+        title: published.title,
+        publishedBy: actor?.id,
+        publishedAt: published.publishedAt!,
+        item: this.toEventItem(published),
+      });
+
+      return published;
+    });
+
+    this.logger.log(`${this.name(type)} published: ${id}`);
+
+    return publishedItem;
+  }
+
+  /**
+   * Unpublish content item (PUBLISHED -> DRAFT)
+   */
+  async unpublish(type: ContentItemType, id: string, unpublishedBy?: string): Promise<ContentItem> {
+    this.logger.log(`Unpublishing ${type}: ${id}`);
+
+    const item = await this.findOne(type, id);
+
+    if (item.status === ContentStatus.DRAFT) {
+      throw new ConflictException(`${this.name(type)} ${id} is already in draft status`);
+    }
+
+    if (item.status !== ContentStatus.PUBLISHED) {
+      throw new BadRequestException(
+        `Cannot unpublish ${this.name(type).toLowerCase()} with status: ${item.status}`,
+      );
+    }
+
+    // Unpublish item and enqueue content.unpublished event atomically
+    const unpublishedItem = await this.prisma.$transaction(async (tx) => {
+      // Don't clear publishedAt - keep it for history
+      const unpublished = await this.contentItemRepository.update(
+        id,
+        { status: ContentStatus.DRAFT },
+        tx,
+      );
+
+      await this.recordTransition(tx, unpublished, {
+        action: WorkflowAction.UNPUBLISH,
+        fromStatus: item.status,
+        actorId: unpublishedBy,
+      });
+
+      await this.outboxService.enqueueContentUnpublished(tx, {
+        contentId: unpublished.id,
+        contentType: type,
+        title: unpublished.title,
+        unpublishedBy,
+        unpublishedAt: unpublished.updatedAt,
+      });
+
+      return unpublished;
+    });
+
+    this.logger.log(`${this.name(type)} unpublished: ${id}`);
+    return unpublishedItem;
+  }
+
+  /**
+   * Archive content item (any status -> ARCHIVED)
+   */
+  async archive(type: ContentItemType, id: string, archivedBy?: string): Promise<ContentItem> {
+    this.logger.log(`Archiving ${type}: ${id}`);
+
+    const item = await this.findOne(type, id);
+
+    if (item.status === ContentStatus.ARCHIVED) {
+      throw new ConflictException(`${this.name(type)} ${id} is already archived`);
+    }
+
+    // Archive item and enqueue content.archived event atomically
+    const archivedItem = await this.prisma.$transaction(async (tx) => {
+      const archived = await this.contentItemRepository.update(
+        id,
+        { status: ContentStatus.ARCHIVED },
+        tx,
+      );
+
+      await this.recordTransition(tx, archived, {
+        action: WorkflowAction.ARCHIVE,
+        fromStatus: item.status,
+        actorId: archivedBy,
+      });
+
+      await this.outboxService.enqueueContentArchived(tx, {
+        contentId: archived.id,
+        contentType: type,
+        title: archived.title,
+        archivedBy,
+        archivedAt: archived.updatedAt,
+      });
+
+      return archived;
+    });
+
+    this.logger.log(`${this.name(type)} archived: ${id}`);
+    return archivedItem;
+  }
+
+  /**
+   * Restore archived content item (ARCHIVED -> DRAFT)
+   */
+  async restore(type: ContentItemType, id: string, restoredBy?: string): Promise<ContentItem> {
+    this.logger.log(`Restoring ${type}: ${id}`);
+
+    const item = await this.findOne(type, id);
+
+    if (item.status !== ContentStatus.ARCHIVED) {
+      throw new BadRequestException(
+        `Cannot restore ${this.name(type).toLowerCase()} with status: ${item.status}`,
+      );
+    }
+
+    // Restore item and enqueue content.updated event atomically
+    const restoredItem = await this.prisma.$transaction(async (tx) => {
+      const restored = await this.contentItemRepository.update(
+        id,
+        { status: ContentStatus.DRAFT },
+        tx,
+      );
+
+      const transition = await this.recordTransition(tx, restored, {
+        action: WorkflowAction.RESTORE,
+        fromStatus: ContentStatus.ARCHIVED,
+        actorId: restoredBy,
+      });
+
+      await this.outboxService.enqueueContentUpdated(tx, {
+        contentId: restored.id,
+        contentType: type,
+        title: restored.title,
+        status: restored.status,
+        updatedBy: restoredBy,
+        changes: {
+          status: { old: ContentStatus.ARCHIVED, new: ContentStatus.DRAFT },
+          transition: transition.toChange(),
+        },
+        item: this.toEventItem(restored),
+      });
+
+      return restored;
+    });
+
+    this.logger.log(`${this.name(type)} restored: ${id}`);
+    return restoredItem;
+  }
+
+  /**
+   * Count content items of a type, optionally by status
+   */
+  async count(type: ContentItemType, status?: ContentStatus): Promise<number> {
+    return await this.contentItemRepository.count(type, status);
+  }
+
+  /**
+   * Record a transition to the item's new status within the caller's transaction
+   */
+  private async recordTransition(
+    tx: Prisma.TransactionClient,
+    item: ContentItem,
+    data: {
+      action: WorkflowAction;
+      fromStatus: ContentStatus;
+      actorId?: string;
+      actorRole?: string;
+      comment?: string;
+    },
+  ): Promise<ContentTransition> {
+    return await this.workflowService.record(tx, {
+      contentId: item.id,
+      contentType: item.type,
+      toStatus: item.status,
+      ...data,
+    });
+  }
+
+  /**
+   * Map a version-guarded write that matched no row (Prisma P2025) to 412 Precondition Failed
+   */
+  private rethrowVersionConflict(
+    error: any,
+    type: ContentItemType,
+    id: string,
+    expectedVersion?: number,
+  ): never {
+    if (expectedVersion !== undefined && error?.code === 'P2025') {
+      throw new PreconditionFailedException(
+        `${this.name(type)} ${id} has been modified since version ${expectedVersion}`,
+      );
+    }
+    throw error;
+  }
+
+  /**
+   * Validate status transition
+   *
+   * Direct status updates only allow unpublishing, and publishing drafts when review is off;
+   * every other change goes through transition(), publish(), unpublish(), archive() or restore().
+   */
+  private validateStatusTransition(currentStatus: ContentStatus, newStatus: ContentStatus): void {
+    if (currentStatus === newStatus) {
+      return;
+    }
+
+    const validTransitions = [{ from: ContentStatus.PUBLISHED, to: ContentStatus.DRAFT }];
+    if (!this.workflowService.isReviewRequired()) {
+      validTransitions.push({ from: ContentStatus.DRAFT, to: ContentStatus.PUBLISHED });
+    }
+
+    const isValid = validTransitions.some(
+      (transition) => transition.from === currentStatus && transition.to === newStatus,
+    );
+
+    if (!isValid) {
+      throw new BadRequestException(
+        `Invalid status transition from ${currentStatus} to ${newStatus}. Use transition(), publish(), unpublish(), archive() or restore() methods.`,
+      );
+    }
+  }
+
+  /**
+   * Editable content item fields kept in revisions
+   */
+  private toSnapshot(item: ContentItem): RevisionSnapshot {
+    return {
+      title: item.title,
+      description: item.description ?? null,
+      metadataId: item.metadataId ?? null,
+      duration: item.duration ?? null,
+      releaseDate: item.releaseDate?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Build content item data for event payloads
+   */
+  private toEventItem(item: ContentItem) {
+    return {
+      id: item.id,
+      contentType: item.type,
+      title: item.title,
+      description: item.description,
+      status: item.status,
+      metadataId: item.metadataId,
+      duration: item.duration,
+      releaseDate: item.releaseDate?.toISOString(),
+      createdAt: item.createdAt.toISOString(),
+      updatedAt: item.updatedAt.toISOString(),
+      publishedAt: item.publishedAt?.toISOString(),
+    };
+  }
+
+  /**
+   * Name of a content item type for messages
+   */
+  private name(type: ContentItemType): string {
+    return CONTENT_ITEM_NAMES[type];
+  }
+}
@@ -7,9 +7,18 @@ import { EpisodesController } from './episodes.controller';
 import { EpisodeService } from '../services/episode.service';
 import { EpisodeRepository } from '../repositories/episode.repository';
 import { ProgramRepository } from '../../programs/repositories/program.repository';
-import { KafkaService } from '../../kafka/kafka.service';
+import { SeasonRepository } from '../../seasons/repositories/season.repository';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { RevisionService } from '../../revisions/services/revision.service';
+import { ContentRevisionRepository } from '../../revisions/repositories/content-revision.repository';
+import { ContentRevision } from '../../revisions/entities/content-revision.entity';
+import { WorkflowService } from '../../workflow/services/workflow.service';
+import { ContentTransitionRepository } from '../../workflow/repositories/content-transition.repository';
+import { ContentTransition } from '../../workflow/entities/content-transition.entity';
 import { Episode } from '../entities/episode.entity';
 import { Program } from '../../programs/entities/program.entity';
+import { Season } from '../../seasons/entities/season.entity';
 import { ContentStatus, JwtAuthGuard, RolesGuard } from '@mediamesh/shared';
 
 describe('EpisodesController (integration)', () => {
@@ -17,7 +26,9 @@ describe('EpisodesController (integration)', () => {
   let episodeService: EpisodeService;
   let episodeRepository: jest.Mocked<EpisodeRepository>;
   let programRepository: jest.Mocked<ProgramRepository>;
-  let kafkaService: jest.Mocked<KafkaService>;
+  let seasonRepository: jest.Mocked<SeasonRepository>;
+  let outboxService: jest.Mocked<OutboxService>;
+  let revisionRepository: jest.Mocked<ContentRevisionRepository>;
 
   const mockProgram: Program = {
     id: '550e8400-e29b-41d4-a716-446655440001',
@@ -25,6 +36,7 @@ describe('EpisodesController (integration)', () => {
     description: 'Test Description',
     status: ContentStatus.DRAFT,
     metadataId: undefined,
+    version: 1,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     publishedAt: undefined,
@@ -40,6 +52,7 @@ describe('EpisodesController (integration)', () => {
     duration: 3600,
     status: ContentStatus.DRAFT,
     metadataId: undefined,
+    version: 1,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     toDto: jest.fn(),
@@ -51,8 +64,11 @@ describe('EpisodesController (integration)', () => {
       findById: jest.fn(),
       findAll: jest.fn(),
       findByProgramId: jest.fn(),
+      findByEpisodeNumber: jest.fn(),
+      findBySeasonId: jest.fn(),
       findByStatus: jest.fn(),
       update: jest.fn(),
+      softDelete: jest.fn(),
       delete: jest.fn(),
       count: jest.fn(),
       countByProgramId: jest.fn(),
@@ -62,16 +78,51 @@ describe('EpisodesController (integration)', () => {
       findById: jest.fn(),
     };
 
-    const mockKafkaService = {
-      emitContentCreated: jest.fn(),
-      emitContentUpdated: jest.fn(),
-      emitContentPublished: jest.fn(),
+    const mockPrismaService = {
+      $transaction: jest.fn((fn) => fn({})),
+    };
+
+    const mockOutboxService = {
+      enqueueContentCreated: jest.fn(),
+      enqueueContentUpdated: jest.fn(),
+      enqueueContentPublished: jest.fn(),
+      enqueueContentUnpublished: jest.fn(),
+      enqueueContentDeleted: jest.fn(),
+      enqueueContentArchived: jest.fn(),
+    };
+
+    const mockRevisionRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(new ContentRevision({ id: 'revision-1', ...data, createdAt: new Date() })),
+      ),
+      findLatest: jest.fn().mockResolvedValue(null),
+      findByRevision: jest.fn(),
+      findByContentId: jest.fn(),
+    };
+
+    const mockTransitionRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(
+          new ContentTransition({ id: 'transition-1', ...data, createdAt: new Date() }),
+        ),
+      ),
+      findByContentId: jest.fn(),
     };
 
     const moduleFixture: TestingModule = await Test.createTestingModule({
       controllers: [EpisodesController],
       providers: [
         EpisodeService,
+        RevisionService,
+        {
+          provide: ContentRevisionRepository,
+          useValue: mockRevisionRepository,
+        },
+        WorkflowService,
+        {
+          provide: ContentTransitionRepository,
+          useValue: mockTransitionRepository,
+        },
         {
           provide: EpisodeRepository,
           useValue: mockEpisodeRepository,
@@ -81,8 +132,16 @@ describe('EpisodesController (integration)', () => {
           useValue: mockProgramRepository,
         },
         {
-          provide: KafkaService,
-          useValue: mockKafkaService,
+          provide: SeasonRepository,
+          useValue: { findById: jest.fn() },
+        },
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: OutboxService,
+          useValue: mockOutboxService,
         },
         {
           provide: JwtService,
@@ -115,7 +174,9 @@ describe('EpisodesController (integration)', () => {
     episodeService = moduleFixture.get<EpisodeService>(EpisodeService);
     episodeRepository = moduleFixture.get(EpisodeRepository);
     programRepository = moduleFixture.get(ProgramRepository);
-    kafkaService = moduleFixture.get(KafkaService);
+    seasonRepository = moduleFixture.get(SeasonRepository);
+    outboxService = moduleFixture.get(OutboxService);
+    revisionRepository = moduleFixture.get(ContentRevisionRepository);
 
     await app.init();
     await app.getHttpAdapter().getInstance().ready();
@@ -166,6 +227,34 @@ describe('EpisodesController (integration)', () => {
     });
   });
 
+  describe('GET /seasons/:seasonId/episodes', () => {
+    it('should return the episodes of a season with their season number', async () => {
+      seasonRepository.findById.mockResolvedValue(
+        new Season({ id: 'season-2', programId: mockProgram.id, seasonNumber: 2 }),
+      );
+      episodeRepository.findBySeasonId.mockResolvedValue([
+        new Episode({ ...mockEpisode, seasonId: 'season-2', seasonNumber: 2 }),
+      ]);
+
+      const response = await request(app.getHttpServer())
+        .get('/seasons/season-2/episodes')
+        .expect(200);
+
+      expect(episodeRepository.findBySeasonId).toHaveBeenCalledWith('season-2', 0, 20);
+      expect(response.body[0]).toMatchObject({
+        id: mockEpisode.id,
+        seasonId: 'season-2',
+        seasonNumber: 2,
+      });
+    });
+
+    it('should return 404 if season not found', async () => {
+      seasonRepository.findById.mockResolvedValue(null);
+
+      await request(app.getHttpServer()).get('/seasons/missing/episodes').expect(404);
+    });
+  });
+
   describe('GET /episodes', () => {
     it('should return all episodes', async () => {
       const episodes = [mockEpisode];
@@ -204,7 +293,9 @@ describe('EpisodesController (integration)', () => {
       expect(response.body).toMatchObject({
         id: mockEpisode.id,
         title: mockEpisode.title,
+        version: 1,
       });
+      expect(response.headers.etag).toBe('"1"');
     });
 
     it('should return 404 if episode not found', async () => {
@@ -226,7 +317,7 @@ describe('EpisodesController (integration)', () => {
       };
 
       programRepository.findById.mockResolvedValue(mockProgram);
-      episodeRepository.findByProgramId.mockResolvedValue([]);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
       const createdEpisode = { ...mockEpisode, ...createDto, toDto: jest.fn() };
       episodeRepository.create.mockResolvedValue(createdEpisode);
 
@@ -241,7 +332,7 @@ describe('EpisodesController (integration)', () => {
         programId: createDto.programId,
       });
       expect(episodeRepository.create).toHaveBeenCalled();
-      expect(kafkaService.emitContentCreated).toHaveBeenCalled();
+      expect(outboxService.enqueueContentCreated).toHaveBeenCalled();
     });
 
     it('should return 404 if program not found', async () => {
@@ -263,7 +354,7 @@ describe('EpisodesController (integration)', () => {
     it('should return 409 if episode number already exists', async () => {
       const existingEpisode = { ...mockEpisode, episodeNumber: 1, toDto: jest.fn() };
       programRepository.findById.mockResolvedValue(mockProgram);
-      episodeRepository.findByProgramId.mockResolvedValue([existingEpisode]);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(existingEpisode);
 
       await request(app.getHttpServer())
         .post('/episodes')
@@ -286,7 +377,7 @@ describe('EpisodesController (integration)', () => {
       };
 
       episodeRepository.findById.mockResolvedValue(mockEpisode);
-      episodeRepository.findByProgramId.mockResolvedValue([]);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
       episodeRepository.update.mockResolvedValue({ ...mockEpisode, ...updateDto, toDto: jest.fn() });
       programRepository.findById.mockResolvedValue(mockProgram);
 
@@ -301,6 +392,53 @@ describe('EpisodesController (integration)', () => {
       });
     });
 
+    it('should guard the update with the If-Match version', async () => {
+      episodeRepository.findById.mockResolvedValue(mockEpisode);
+      episodeRepository.update.mockResolvedValue({
+        ...mockEpisode,
+        title: 'Updated Title',
+        version: 2,
+        toDto: jest.fn(),
+      });
+      programRepository.findById.mockResolvedValue(mockProgram);
+
+      const response = await request(app.getHttpServer())
+        .put('/episodes/550e8400-e29b-41d4-a716-446655440002')
+        .set('If-Match', '"1"')
+        .send({ title: 'Updated Title' })
+        .expect(200);
+
+      expect(response.headers.etag).toBe('"2"');
+      expect(episodeRepository.update).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440002',
+        expect.objectContaining({ title: 'Updated Title' }),
+        expect.anything(),
+        1,
+      );
+    });
+
+    it('should return 412 with the current episode on a stale If-Match', async () => {
+      episodeRepository.findById.mockResolvedValue({
+        ...mockEpisode,
+        version: 3,
+        toDto: jest.fn(),
+      });
+
+      const response = await request(app.getHttpServer())
+        .put('/episodes/550e8400-e29b-41d4-a716-446655440002')
+        .set('If-Match', '"1"')
+        .send({ title: 'Updated Title' })
+        .expect(412);
+
+      expect(response.headers.etag).toBe('"3"');
+      expect(response.body.current).toMatchObject({
+        id: mockEpisode.id,
+        title: mockEpisode.title,
+        version: 3,
+      });
+      expect(episodeRepository.update).not.toHaveBeenCalled();
+    });
+
     it('should return 404 if episode not found', async () => {
       episodeRepository.findById.mockResolvedValue(null);
 
@@ -311,14 +449,54 @@ describe('EpisodesController (integration)', () => {
     });
   });
 
+  describe('GET /episodes/:id/revisions/:rev', () => {
+    it('should return a specific revision', async () => {
+      episodeRepository.findById.mockResolvedValue(mockEpisode);
+      revisionRepository.findByRevision.mockResolvedValue(
+        new ContentRevision({
+          id: 'revision-1',
+          contentId: mockEpisode.id,
+          contentType: 'EPISODE',
+          revision: 1,
+          action: 'CREATE' as any,
+          snapshot: { title: 'Test Episode', episodeNumber: 1 },
+          createdAt: new Date('2024-01-01'),
+        }),
+      );
+
+      const response = await request(app.getHttpServer())
+        .get(`/episodes/${mockEpisode.id}/revisions/1`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        revision: 1,
+        contentType: 'EPISODE',
+        snapshot: { title: 'Test Episode', episodeNumber: 1 },
+      });
+      expect(revisionRepository.findByRevision).toHaveBeenCalledWith(mockEpisode.id, 1);
+    });
+
+    it('should return 404 if episode not found', async () => {
+      episodeRepository.findById.mockResolvedValue(null);
+
+      await request(app.getHttpServer()).get('/episodes/non-existent/revisions/1').expect(404);
+    });
+  });
+
   describe('DELETE /episodes/:id', () => {
-    it('should delete an episode', async () => {
+    it('should move an episode to the trash', async () => {
       episodeRepository.findById.mockResolvedValue(mockEpisode);
-      episodeRepository.delete.mockResolvedValue(undefined);
+      episodeRepository.softDelete.mockResolvedValue(undefined);
 
       await request(app.getHttpServer()).delete('/episodes/550e8400-e29b-41d4-a716-446655440002').expect(204);
 
-      expect(episodeRepository.delete).toHaveBeenCalledWith('550e8400-e29b-41d4-a716-446655440002');
+      expect(episodeRepository.softDelete).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440002',
+        expect.any(Date),
+        expect.anything(),
+        undefined,
+      );
+      expect(episodeRepository.delete).not.toHaveBeenCalled();
     });
 
     it('should return 404 if episode not found', async () => {
@@ -326,5 +504,20 @@ describe('EpisodesController (integration)', () => {
 
       await request(app.getHttpServer()).delete('/episodes/non-existent').expect(404);
     });
+
+    it('should return 412 on a stale If-Match', async () => {
+      episodeRepository.findById.mockResolvedValue({
+        ...mockEpisode,
+        version: 2,
+        toDto: jest.fn(),
+      });
+
+      await request(app.getHttpServer())
+        .delete('/episodes/550e8400-e29b-41d4-a716-446655440002')
+        .set('If-Match', '"1"')
+        .expect(412);
+
+      expect(episodeRepository.softDelete).not.toHaveBeenCalled();
+    });
   });
 });
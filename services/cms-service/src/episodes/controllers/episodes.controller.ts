@@ -11,6 +11,11 @@ import {
   HttpStatus,
   Logger,
   UseGuards,
+  ParseIntPipe,
+  Headers,
+  Res,
+  HttpException,
+  PreconditionFailedException,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -20,15 +25,35 @@ import {
   ApiParam,
   ApiQuery,
   ApiBearerAuth,
+  ApiHeader,
 } from '@nestjs/swagger';
+import { FastifyReply } from 'fastify';
 import { EpisodeService } from '../services/episode.service';
 import { Episode } from '../entities/episode.entity';
+import { ScheduleContentDto } from '../../schedules/dto/schedule.dto';
+import {
+  TransitionContentDto,
+  ContentTransitionDto,
+} from '../../workflow/dto/content-transition.dto';
+import { ContentTransition } from '../../workflow/entities/content-transition.entity';
+import { ContentRevisionDto } from '../../revisions/dto/content-revision.dto';
+import { ContentRevision } from '../../revisions/entities/content-revision.entity';
+import { CONCURRENCY_CONFIG } from '../../config/env.constants';
 import {
   ContentStatus,
   EpisodeDto,
   PaginationDto,
+  toETag,
+  matchesETag,
+} from '@mediamesh/shared';
+import {
+  JwtAuthGuard,
+  RolesGuard,
+  Roles,
+  CurrentUser,
+  Public,
+  RequestUser,
 } from '@mediamesh/shared';
-import { JwtAuthGuard, RolesGuard, Roles, Public } from '@mediamesh/shared';
 import { UserRole } from '@mediamesh/shared';
 
 /**
@@ -41,6 +66,10 @@ class CreateEpisodeDto {
   @IsUUID()
   programId: string;
 
+  @IsOptional()
+  @IsUUID()
+  seasonId?: string;
+
   @IsString()
   @MinLength(1)
   @MaxLength(200)
@@ -69,12 +98,21 @@ class CreateEpisodeDto {
   @IsOptional()
   @IsUUID()
   metadataId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  externalId?: string; // ID in the source catalog, unique per program
 }
 
 /**
  * Update Episode DTO (for request body)
  */
 class UpdateEpisodeDto {
+  @IsOptional()
+  @IsUUID()
+  seasonId?: string | null; // null removes the episode from its season
+
   @IsOptional()
   @IsString()
   @MinLength(1)
@@ -112,10 +150,18 @@ class UpdateEpisodeDto {
  * 
  * Handles episode management endpoints:
  * - GET /programs/:programId/episodes - List episodes for a program
+ * - GET /seasons/:seasonId/episodes - List episodes of a season
  * - GET /episodes/:id - Get episode by ID
  * - POST /episodes - Create new episode
- * - PUT /episodes/:id - Update episode
- * - DELETE /episodes/:id - Delete episode
+ * - PUT /episodes/:id - Update episode (honours If-Match)
+ * - DELETE /episodes/:id - Delete episode (honours If-Match)
+ * - POST /episodes/:id/transitions - Apply editorial workflow action
+ * - GET /episodes/:id/transitions - Get workflow transition history
+ * - POST /episodes/:id/schedule - Schedule publishAt/unpublishAt
+ * - DELETE /episodes/:id/schedule - Cancel upcoming schedule
+ * - GET /episodes/:id/revisions - Get revision history
+ * - GET /episodes/:id/revisions/:rev - Get a specific revision
+ * - POST /episodes/:id/revisions/:rev/restore - Restore episode fields from a revision
  */
 @ApiTags('Episodes')
 @Controller()
@@ -134,6 +180,12 @@ export class EpisodesController {
   @ApiParam({ name: 'programId', type: String, description: 'Program ID' })
   @ApiQuery({ name: 'skip', required: false, type: Number, description: 'Number of records to skip' })
   @ApiQuery({ name: 'take', required: false, type: Number, description: 'Number of records to take' })
+  @ApiQuery({
+    name: 'externalId',
+    required: false,
+    type: String,
+    description: 'Filter by source catalog ID',
+  })
   @ApiResponse({
     status: 200,
     description: 'List of episodes for the program',
@@ -147,14 +199,61 @@ export class EpisodesController {
     @Param('programId') programId: string,
     @Query('skip') skip?: string,
     @Query('take') take?: string,
+    @Query('externalId') externalId?: string,
   ): Promise<EpisodeDto[]> {
     const skipNum = skip ? parseInt(skip, 10) : 0;
     const takeNum = take ? parseInt(take, 10) : 20;
 
+    if (externalId) {
+      const episode = await this.episodeService.findByExternalId(programId, externalId);
+      return episode ? [this.toDto(episode)] : [];
+    }
+
     const episodes = await this.episodeService.findAllByProgram(programId, skipNum, takeNum);
     return episodes.map((episode) => this.toDto(episode));
   }
 
+  /**
+   * Get all episodes of a season
+   * GET /seasons/:seasonId/episodes
+   */
+  @Get('seasons/:seasonId/episodes')
+  @Public()
+  @ApiOperation({ summary: 'Get all episodes of a season' })
+  @ApiParam({ name: 'seasonId', type: String, description: 'Season ID' })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    type: Number,
+    description: 'Number of records to skip',
+  })
+  @ApiQuery({
+    name: 'take',
+    required: false,
+    type: Number,
+    description: 'Number of records to take',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of episodes in the season',
+    type: [EpisodeDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Season not found',
+  })
+  async findAllBySeason(
+    @Param('seasonId') seasonId: string,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<EpisodeDto[]> {
+    const skipNum = skip ? parseInt(skip, 10) : 0;
+    const takeNum = take ? parseInt(take, 10) : 20;
+
+    const episodes = await this.episodeService.findAllBySeason(seasonId, skipNum, takeNum);
+    return episodes.map((episode) => this.toDto(episode));
+  }
+
   /**
    * Get all episodes with pagination
    * GET /episodes
@@ -195,15 +294,19 @@ export class EpisodesController {
   @ApiParam({ name: 'id', type: String, description: 'Episode ID' })
   @ApiResponse({
     status: 200,
-    description: 'Episode details',
+    description: 'Episode details; the ETag header carries the current version',
     type: EpisodeDto,
   })
   @ApiResponse({
     status: 404,
     description: 'Episode not found',
   })
-  async findOne(@Param('id') id: string): Promise<EpisodeDto> {
+  async findOne(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<EpisodeDto> {
     const episode = await this.episodeService.findOne(id);
+    reply.header('ETag', toETag(episode.version));
     return this.toDto(episode);
   }
 
@@ -224,15 +327,15 @@ export class EpisodesController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Validation error',
+    description: 'Validation error or season belongs to another program',
   })
   @ApiResponse({
     status: 404,
-    description: 'Program not found',
+    description: 'Program or season not found',
   })
   @ApiResponse({
     status: 409,
-    description: 'Episode number already exists for this program',
+    description: 'Episode number or external ID already exists in this season (or program)',
   })
   @ApiResponse({
     status: 401,
@@ -243,17 +346,25 @@ export class EpisodesController {
     description: 'Forbidden - Insufficient permissions',
   })
   @HttpCode(HttpStatus.CREATED)
-  async create(@Body() createEpisodeDto: CreateEpisodeDto): Promise<EpisodeDto> {
+  async create(
+    @Body() createEpisodeDto: CreateEpisodeDto,
+    @CurrentUser('id') userId: string,
+  ): Promise<EpisodeDto> {
     this.logger.log(`Creating episode: ${createEpisodeDto.title} for program ${createEpisodeDto.programId}`);
-    const episode = await this.episodeService.create({
-      programId: createEpisodeDto.programId,
-      title: createEpisodeDto.title,
-      description: createEpisodeDto.description,
-      episodeNumber: createEpisodeDto.episodeNumber,
-      duration: createEpisodeDto.duration,
-      status: createEpisodeDto.status,
-      metadataId: createEpisodeDto.metadataId,
-    });
+    const episode = await this.episodeService.create(
+      {
+        programId: createEpisodeDto.programId,
+        seasonId: createEpisodeDto.seasonId,
+        title: createEpisodeDto.title,
+        description: createEpisodeDto.description,
+        episodeNumber: createEpisodeDto.episodeNumber,
+        duration: createEpisodeDto.duration,
+        status: createEpisodeDto.status,
+        metadataId: createEpisodeDto.metadataId,
+        externalId: createEpisodeDto.externalId,
+      },
+      userId,
+    );
     return this.toDto(episode);
   }
 
@@ -267,6 +378,11 @@ export class EpisodesController {
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({ summary: 'Update episode' })
   @ApiParam({ name: 'id', type: String, description: 'Episode ID' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from GET /episodes/:id; the update is rejected if the episode changed',
+  })
   @ApiBody({ type: UpdateEpisodeDto })
   @ApiResponse({
     status: 200,
@@ -279,11 +395,11 @@ export class EpisodesController {
   })
   @ApiResponse({
     status: 404,
-    description: 'Episode not found',
+    description: 'Episode or season not found',
   })
   @ApiResponse({
     status: 409,
-    description: 'Episode number already exists for this program',
+    description: 'Episode number already exists in this season (or program)',
   })
   @ApiResponse({
     status: 401,
@@ -293,19 +409,38 @@ export class EpisodesController {
     status: 403,
     description: 'Forbidden - Insufficient permissions',
   })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match does not match; the body carries the current episode',
+  })
+  @ApiResponse({
+    status: 428,
+    description: 'If-Match header required (CONCURRENCY_REQUIRE_IF_MATCH)',
+  })
   async update(
     @Param('id') id: string,
     @Body() updateEpisodeDto: UpdateEpisodeDto,
+    @CurrentUser('id') userId: string,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) reply: FastifyReply,
   ): Promise<EpisodeDto> {
     this.logger.log(`Updating episode: ${id}`);
-    const episode = await this.episodeService.update(id, {
-      title: updateEpisodeDto.title,
-      description: updateEpisodeDto.description,
-      episodeNumber: updateEpisodeDto.episodeNumber,
-      duration: updateEpisodeDto.duration,
-      status: updateEpisodeDto.status,
-      metadataId: updateEpisodeDto.metadataId,
-    });
+    const expectedVersion = await this.checkIfMatch(id, ifMatch, reply);
+    const episode = await this.episodeService.update(
+      id,
+      {
+        seasonId: updateEpisodeDto.seasonId,
+        title: updateEpisodeDto.title,
+        description: updateEpisodeDto.description,
+        episodeNumber: updateEpisodeDto.episodeNumber,
+        duration: updateEpisodeDto.duration,
+        status: updateEpisodeDto.status,
+        metadataId: updateEpisodeDto.metadataId,
+      },
+      userId,
+      expectedVersion,
+    );
+    reply.header('ETag', toETag(episode.version));
     return this.toDto(episode);
   }
 
@@ -317,11 +452,19 @@ export class EpisodesController {
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.EDITOR)
   @ApiBearerAuth('JWT-auth')
-  @ApiOperation({ summary: 'Delete episode' })
+  @ApiOperation({
+    summary: 'Delete episode',
+    description: 'Moves the episode to the trash (restorable via /trash).',
+  })
   @ApiParam({ name: 'id', type: String, description: 'Episode ID' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from GET /episodes/:id; the delete is rejected if the episode changed',
+  })
   @ApiResponse({
     status: 204,
-    description: 'Episode successfully deleted',
+    description: 'Episode moved to the trash',
   })
   @ApiResponse({
     status: 404,
@@ -335,10 +478,399 @@ export class EpisodesController {
     status: 403,
     description: 'Forbidden - Insufficient permissions',
   })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match does not match; the body carries the current episode',
+  })
+  @ApiResponse({
+    status: 428,
+    description: 'If-Match header required (CONCURRENCY_REQUIRE_IF_MATCH)',
+  })
   @HttpCode(HttpStatus.NO_CONTENT)
-  async delete(@Param('id') id: string): Promise<void> {
+  async delete(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<void> {
     this.logger.log(`Deleting episode: ${id}`);
-    await this.episodeService.delete(id);
+    const expectedVersion = await this.checkIfMatch(id, ifMatch, reply);
+    await this.episodeService.delete(id, userId, expectedVersion);
+  }
+
+  /**
+   * Apply editorial workflow action
+   * POST /episodes/:id/transitions
+   */
+  @Post('episodes/:id/transitions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Apply workflow action (submit, approve, reject, withdraw, publish)',
+    description:
+      'Only ADMIN or a reviewer role can approve or reject. Rejecting requires a comment.',
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Episode ID' })
+  @ApiBody({ type: TransitionContentDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Workflow action applied',
+    type: EpisodeDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid status transition or missing comment',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Episode not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Episode already published',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async transition(
+    @Param('id') id: string,
+    @Body() transitionDto: TransitionContentDto,
+    @CurrentUser() user: RequestUser,
+  ): Promise<EpisodeDto> {
+    this.logger.log(`Applying ${transitionDto.action} to episode: ${id}`);
+    const episode = await this.episodeService.transition(
+      id,
+      transitionDto.action,
+      { id: user.id, role: user.role },
+      transitionDto.comment,
+    );
+    return this.toDto(episode);
+  }
+
+  /**
+   * Get workflow transition history
+   * GET /episodes/:id/transitions
+   */
+  @Get('episodes/:id/transitions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get workflow transition history of an episode' })
+  @ApiParam({ name: 'id', type: String, description: 'Episode ID' })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    type: Number,
+    description: 'Number of records to skip',
+  })
+  @ApiQuery({
+    name: 'take',
+    required: false,
+    type: Number,
+    description: 'Number of records to take',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Transitions, oldest first',
+    type: [ContentTransitionDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Episode not found',
+  })
+  async findTransitions(
+    @Param('id') id: string,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<ContentTransitionDto[]> {
+    const skipNum = skip ? parseInt(skip, 10) : 0;
+    const takeNum = take ? parseInt(take, 10) : 50;
+
+    const transitions = await this.episodeService.findTransitions(id, skipNum, takeNum);
+    return transitions.map((transition) => this.toTransitionDto(transition));
+  }
+
+  /**
+   * Schedule episode publishing/unpublishing
+   * POST /episodes/:id/schedule
+   */
+  @Post('episodes/:id/schedule')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Schedule episode publishAt and/or unpublishAt' })
+  @ApiParam({ name: 'id', type: String, description: 'Episode ID' })
+  @ApiBody({ type: ScheduleContentDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Episode successfully scheduled',
+    type: EpisodeDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid schedule or status',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Episode not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async schedule(
+    @Param('id') id: string,
+    @Body() scheduleDto: ScheduleContentDto,
+    @CurrentUser('id') userId: string,
+  ): Promise<EpisodeDto> {
+    this.logger.log(`Scheduling episode: ${id}`);
+    const episode = await this.episodeService.schedule(
+      id,
+      {
+        publishAt: scheduleDto.publishAt ? new Date(scheduleDto.publishAt) : undefined,
+        unpublishAt: scheduleDto.unpublishAt ? new Date(scheduleDto.unpublishAt) : undefined,
+      },
+      userId,
+    );
+    return this.toDto(episode);
+  }
+
+  /**
+   * Cancel upcoming episode schedule
+   * DELETE /episodes/:id/schedule
+   */
+  @Delete('episodes/:id/schedule')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel upcoming episode schedule' })
+  @ApiParam({ name: 'id', type: String, description: 'Episode ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Episode schedule cancelled',
+    type: EpisodeDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Episode has no upcoming schedule',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Episode not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async cancelSchedule(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<EpisodeDto> {
+    this.logger.log(`Cancelling schedule for episode: ${id}`);
+    const episode = await this.episodeService.cancelSchedule(id, userId);
+    return this.toDto(episode);
+  }
+
+  /**
+   * Get revision history
+   * GET /episodes/:id/revisions
+   */
+  @Get('episodes/:id/revisions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get revision history of an episode' })
+  @ApiParam({ name: 'id', type: String, description: 'Episode ID' })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    type: Number,
+    description: 'Number of records to skip',
+  })
+  @ApiQuery({
+    name: 'take',
+    required: false,
+    type: Number,
+    description: 'Number of records to take',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revisions, newest first',
+    type: [ContentRevisionDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Episode not found',
+  })
+  async findRevisions(
+    @Param('id') id: string,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<ContentRevisionDto[]> {
+    const skipNum = skip ? parseInt(skip, 10) : 0;
+    const takeNum = take ? parseInt(take, 10) : 20;
+
+    const revisions = await this.episodeService.findRevisions(id, skipNum, takeNum);
+    return revisions.map((revision) => this.toRevisionDto(revision));
+  }
+
+  /**
+   * Get a specific revision
+   * GET /episodes/:id/revisions/:rev
+   */
+  @Get('episodes/:id/revisions/:rev')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get a specific revision of an episode' })
+  @ApiParam({ name: 'id', type: String, description: 'Episode ID' })
+  @ApiParam({ name: 'rev', type: Number, description: 'Revision number' })
+  @ApiResponse({
+    status: 200,
+    description: 'Revision snapshot and diff',
+    type: ContentRevisionDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Episode or revision not found',
+  })
+  async findRevision(
+    @Param('id') id: string,
+    @Param('rev', ParseIntPipe) rev: number,
+  ): Promise<ContentRevisionDto> {
+    const revision = await this.episodeService.findRevision(id, rev);
+    return this.toRevisionDto(revision);
+  }
+
+  /**
+   * Restore episode fields from a revision
+   * POST /episodes/:id/revisions/:rev/restore
+   */
+  @Post('episodes/:id/revisions/:rev/restore')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore episode fields from a revision',
+    description: 'Creates a new revision; status is not affected.',
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Episode ID' })
+  @ApiParam({ name: 'rev', type: Number, description: 'Revision number to restore' })
+  @ApiResponse({
+    status: 200,
+    description: 'Episode restored',
+    type: EpisodeDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Episode or revision not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Episode number of the revision is taken by another episode',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async restoreRevision(
+    @Param('id') id: string,
+    @Param('rev', ParseIntPipe) rev: number,
+    @CurrentUser('id') userId: string,
+  ): Promise<EpisodeDto> {
+    this.logger.log(`Restoring episode ${id} to revision ${rev}`);
+    const episode = await this.episodeService.restoreRevision(id, rev, userId);
+    return this.toDto(episode);
+  }
+
+  /**
+   * Convert ContentRevision entity to DTO
+   */
+  private toRevisionDto(revision: ContentRevision): ContentRevisionDto {
+    return {
+      id: revision.id,
+      contentId: revision.contentId,
+      contentType: revision.contentType,
+      revision: revision.revision,
+      action: revision.action,
+      snapshot: revision.snapshot,
+      diff: revision.diff,
+      authorId: revision.authorId,
+      restoredFrom: revision.restoredFrom,
+      createdAt: revision.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Enforce If-Match against the current episode version
+   *
+   * Returns the version the write must still match. A stale ETag is rejected with 412, the
+   * current representation in the body and its ETag in the header.
+   */
+  private async checkIfMatch(
+    id: string,
+    ifMatch: string | undefined,
+    reply: FastifyReply,
+  ): Promise<number | undefined> {
+    if (!ifMatch) {
+      if (CONCURRENCY_CONFIG.REQUIRE_IF_MATCH) {
+        throw new HttpException('If-Match header is required', HttpStatus.PRECONDITION_REQUIRED);
+      }
+      return undefined;
+    }
+
+    const episode = await this.episodeService.findOne(id);
+    if (!matchesETag(ifMatch, episode.version)) {
+      reply.header('ETag', toETag(episode.version));
+      throw new PreconditionFailedException({
+        statusCode: HttpStatus.PRECONDITION_FAILED,
+        message: `Episode ${id} has been modified (current version ${episode.version})`,
+        error: 'Precondition Failed',
+        current: this.toDto(episode),
+      });
+    }
+
+    return episode.version;
+  }
+
+  /**
+   * Convert ContentTransition entity to DTO
+   */
+  private toTransitionDto(transition: ContentTransition): ContentTransitionDto {
+    return {
+      id: transition.id,
+      contentId: transition.contentId,
+      contentType: transition.contentType,
+      action: transition.action,
+      fromStatus: transition.fromStatus,
+      toStatus: transition.toStatus,
+      actorId: transition.actorId,
+      actorRole: transition.actorRole,
+      comment: transition.comment,
+      createdAt: transition.createdAt.toISOString(),
+    };
   }
 
   /**
@@ -351,9 +883,14 @@ export class EpisodesController {
       title: episode.title,
       description: episode.description,
       episodeNumber: episode.episodeNumber,
-      seasonNumber: 1, // Default season number (can be extended later)
+      seasonId: episode.seasonId,
+      seasonNumber: episode.seasonNumber,
       duration: episode.duration,
       status: episode.status as any,
+      publishAt: episode.publishAt?.toISOString(),
+      unpublishAt: episode.unpublishAt?.toISOString(),
+      externalId: episode.externalId,
+      version: episode.version,
       createdAt: episode.createdAt.toISOString(),
       updatedAt: episode.updatedAt.toISOString(),
     } as EpisodeDto;
@@ -8,14 +8,21 @@ import { ContentStatus } from '@mediamesh/shared';
 export class Episode {
   id: string;
   programId: string;
+  seasonId?: string; // Episodes without a season are numbered per program
+  seasonNumber?: number; // From the season, for display
   title: string;
   description?: string;
   episodeNumber: number;
   duration?: number; // in seconds
   status: ContentStatus;
   metadataId?: string; // Optional FK to metadata service
+  externalId?: string; // ID in the source catalog (bulk import), unique per program
+  publishAt?: Date; // Scheduled publish time
+  unpublishAt?: Date; // Scheduled unpublish time
+  version: number; // Incremented on every write, exposed as ETag
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date; // Set while the episode is in the trash
 
   constructor(partial: Partial<Episode>) {
     Object.assign(this, partial);
@@ -27,26 +34,40 @@ export class Episode {
   static fromPrisma(prismaEpisode: {
     id: string;
     programId: string;
+    seasonId?: string | null;
+    season?: { seasonNumber: number } | null;
     title: string;
     description: string | null;
     episodeNumber: number;
     duration: number | null;
     status: string;
     metadataId: string | null;
+    externalId: string | null;
+    publishAt: Date | null;
+    unpublishAt: Date | null;
+    version: number;
     createdAt: Date;
     updatedAt: Date;
+    deletedAt?: Date | null;
   }): Episode {
     return new Episode({
       id: prismaEpisode.id,
       programId: prismaEpisode.programId,
+      seasonId: prismaEpisode.seasonId || undefined,
+      seasonNumber: prismaEpisode.season?.seasonNumber,
       title: prismaEpisode.title,
       description: prismaEpisode.description || undefined,
       episodeNumber: prismaEpisode.episodeNumber,
       duration: prismaEpisode.duration || undefined,
       status: prismaEpisode.status as ContentStatus,
       metadataId: prismaEpisode.metadataId || undefined,
+      externalId: prismaEpisode.externalId || undefined,
+      publishAt: prismaEpisode.publishAt || undefined,
+      unpublishAt: prismaEpisode.unpublishAt || undefined,
+      version: prismaEpisode.version,
       createdAt: prismaEpisode.createdAt,
       updatedAt: prismaEpisode.updatedAt,
+      deletedAt: prismaEpisode.deletedAt || undefined,
     });
   }
 
@@ -4,6 +4,9 @@ import { EpisodeRepository } from './repositories/episode.repository';
 import { EpisodeService } from './services/episode.service';
 import { EpisodesController } from './controllers/episodes.controller';
 import { ProgramsModule } from '../programs/programs.module';
+import { RevisionsModule } from '../revisions/revisions.module';
+import { SeasonsModule } from '../seasons/seasons.module';
+import { WorkflowModule } from '../workflow/workflow.module';
 import { JWT_CONFIG } from '../config/env.constants';
 
 /**
@@ -14,6 +17,9 @@ import { JWT_CONFIG } from '../config/env.constants';
 @Module({
   imports: [
     ProgramsModule,
+    RevisionsModule,
+    SeasonsModule,
+    WorkflowModule,
     JwtModule.register({
       secret: JWT_CONFIG.SECRET,
       signOptions: {
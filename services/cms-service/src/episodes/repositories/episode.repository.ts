@@ -1,12 +1,23 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import { Episode } from '../entities/episode.entity';
 import { ContentStatus } from '@mediamesh/shared';
 
+// Loaded with every episode so it can report its season number
+const SEASON_NUMBER = { season: { select: { seasonNumber: true } } };
+
+// Season order first (episodes without a season last), then episode number
+const SEASON_EPISODE_ORDER = [
+  { season: { seasonNumber: 'asc' as const } },
+  { episodeNumber: 'asc' as const },
+];
+
 /**
  * Episode Repository
  * 
  * Data access layer for Episode entities.
+ * Episodes in the trash (deletedAt set) are left out of every query except the trash ones.
  */
 @Injectable()
 export class EpisodeRepository {
@@ -17,24 +28,32 @@ export class EpisodeRepository {
   /**
    * Create a new episode
    */
-  async create(data: {
-    programId: string;
-    title: string;
-    description?: string;
-    episodeNumber: number;
-    duration?: number;
-    status?: ContentStatus;
-    metadataId?: string;
-  }): Promise<Episode> {
-    const prismaEpisode = await this.prisma.episode.create({
+  async create(
+    data: {
+      programId: string;
+      seasonId?: string;
+      title: string;
+      description?: string;
+      episodeNumber: number;
+      duration?: number;
+      status?: ContentStatus;
+      metadataId?: string;
+      externalId?: string;
+    },
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<Episode> {
+    const prismaEpisode = await tx.episode.create({
+      include: SEASON_NUMBER,
       data: {
         programId: data.programId,
+        seasonId: data.seasonId,
         title: data.title,
         description: data.description,
         episodeNumber: data.episodeNumber,
         duration: data.duration,
         status: data.status || ContentStatus.DRAFT,
         metadataId: data.metadataId,
+        externalId: data.externalId,
       },
     });
 
@@ -45,8 +64,9 @@ export class EpisodeRepository {
    * Find episode by ID
    */
   async findById(id: string): Promise<Episode | null> {
-    const prismaEpisode = await this.prisma.episode.findUnique({
-      where: { id },
+    const prismaEpisode = await this.prisma.episode.findFirst({
+      include: SEASON_NUMBER,
+      where: { id, deletedAt: null },
     });
 
     return prismaEpisode ? Episode.fromPrisma(prismaEpisode) : null;
@@ -57,7 +77,72 @@ export class EpisodeRepository {
    */
   async findByProgramId(programId: string, skip: number = 0, take: number = 20): Promise<Episode[]> {
     const prismaEpisodes = await this.prisma.episode.findMany({
-      where: { programId },
+      include: SEASON_NUMBER,
+      where: { programId, deletedAt: null },
+      skip,
+      take,
+      orderBy: SEASON_EPISODE_ORDER,
+    });
+
+    return prismaEpisodes.map(Episode.fromPrisma);
+  }
+
+  /**
+   * Find episode by external (source catalog) ID within a program
+   */
+  async findByExternalId(programId: string, externalId: string): Promise<Episode | null> {
+    const prismaEpisode = await this.prisma.episode.findFirst({
+      include: SEASON_NUMBER,
+      where: { programId, externalId, deletedAt: null },
+    });
+
+    return prismaEpisode ? Episode.fromPrisma(prismaEpisode) : null;
+  }
+
+  /**
+   * Find the episode using a number in a season (or, without a season, among the program's
+   * season-less episodes), optionally ignoring one episode
+   */
+  async findByEpisodeNumber(
+    programId: string,
+    seasonId: string | undefined,
+    episodeNumber: number,
+    excludeId?: string,
+  ): Promise<Episode | null> {
+    const prismaEpisode = await this.prisma.episode.findFirst({
+      include: SEASON_NUMBER,
+      where: {
+        programId,
+        seasonId: seasonId ?? null,
+        episodeNumber,
+        deletedAt: null,
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+
+    return prismaEpisode ? Episode.fromPrisma(prismaEpisode) : null;
+  }
+
+  /**
+   * Find all episodes of the given programs, grouped by program and ordered by episode number
+   */
+  async findByProgramIds(programIds: string[]): Promise<Episode[]> {
+    const prismaEpisodes = await this.prisma.episode.findMany({
+      include: SEASON_NUMBER,
+      where: { programId: { in: programIds }, deletedAt: null },
+      orderBy: [{ programId: 'asc' }, ...SEASON_EPISODE_ORDER],
+    });
+
+    return prismaEpisodes.map(Episode.fromPrisma);
+  }
+
+  /**
+   * Find episodes of a season
+   */
+  async findBySeasonId(seasonId: string, skip: number = 0, take: number = 20): Promise<Episode[]> {
+    const prismaEpisodes = await this.prisma.episode.findMany({
+      include: SEASON_NUMBER,
+      where: { seasonId, deletedAt: null },
       skip,
       take,
       orderBy: { episodeNumber: 'asc' },
@@ -71,6 +156,8 @@ export class EpisodeRepository {
    */
   async findAll(skip: number = 0, take: number = 20): Promise<Episode[]> {
     const prismaEpisodes = await this.prisma.episode.findMany({
+      include: SEASON_NUMBER,
+      where: { deletedAt: null },
       skip,
       take,
       orderBy: { createdAt: 'desc' },
@@ -84,7 +171,8 @@ export class EpisodeRepository {
    */
   async findByStatus(status: ContentStatus, skip: number = 0, take: number = 20): Promise<Episode[]> {
     const prismaEpisodes = await this.prisma.episode.findMany({
-      where: { status },
+      include: SEASON_NUMBER,
+      where: { status, deletedAt: null },
       skip,
       take,
       orderBy: { createdAt: 'desc' },
@@ -93,38 +181,177 @@ export class EpisodeRepository {
     return prismaEpisodes.map(Episode.fromPrisma);
   }
 
+  /**
+   * Find SCHEDULED episodes with a pending publish time, soonest first
+   */
+  async findScheduledForPublish(before?: Date, take: number = 100): Promise<Episode[]> {
+    const prismaEpisodes = await this.prisma.episode.findMany({
+      include: SEASON_NUMBER,
+      where: {
+        status: ContentStatus.SCHEDULED,
+        publishAt: before ? { lte: before } : { not: null },
+        deletedAt: null,
+      },
+      take,
+      orderBy: { publishAt: 'asc' },
+    });
+
+    return prismaEpisodes.map(Episode.fromPrisma);
+  }
+
+  /**
+   * Find SCHEDULED or PUBLISHED episodes with a pending unpublish time, soonest first
+   */
+  async findScheduledForUnpublish(before?: Date, take: number = 100): Promise<Episode[]> {
+    const prismaEpisodes = await this.prisma.episode.findMany({
+      include: SEASON_NUMBER,
+      where: {
+        status: { in: [ContentStatus.SCHEDULED, ContentStatus.PUBLISHED] },
+        unpublishAt: before ? { lte: before } : { not: null },
+        deletedAt: null,
+      },
+      take,
+      orderBy: { unpublishAt: 'asc' },
+    });
+
+    return prismaEpisodes.map(Episode.fromPrisma);
+  }
+
   /**
    * Update episode
+   *
+   * Every update increments the version. When expectedVersion is given the update only applies
+   * to that version; otherwise Prisma rejects it with P2025 (record not found).
    */
-  async update(id: string, data: {
-    title?: string;
-    description?: string;
-    episodeNumber?: number;
-    duration?: number;
-    status?: ContentStatus;
-    metadataId?: string;
-  }): Promise<Episode> {
-    const prismaEpisode = await this.prisma.episode.update({
-      where: { id },
+  async update(
+    id: string,
+    data: {
+      seasonId?: string | null;
+      title?: string;
+      description?: string | null;
+      episodeNumber?: number;
+      duration?: number | null;
+      status?: ContentStatus;
+      metadataId?: string | null;
+      externalId?: string;
+      publishAt?: Date | null;
+      unpublishAt?: Date | null;
+    },
+    tx: Prisma.TransactionClient = this.prisma,
+    expectedVersion?: number,
+  ): Promise<Episode> {
+    const prismaEpisode = await tx.episode.update({
+      include: SEASON_NUMBER,
+      where: { id, ...(expectedVersion !== undefined && { version: expectedVersion }) },
       data: {
+        ...(data.seasonId !== undefined && { seasonId: data.seasonId }),
         ...(data.title !== undefined && { title: data.title }),
         ...(data.description !== undefined && { description: data.description }),
         ...(data.episodeNumber !== undefined && { episodeNumber: data.episodeNumber }),
         ...(data.duration !== undefined && { duration: data.duration }),
         ...(data.status !== undefined && { status: data.status }),
         ...(data.metadataId !== undefined && { metadataId: data.metadataId }),
+        ...(data.externalId !== undefined && { externalId: data.externalId }),
+        ...(data.publishAt !== undefined && { publishAt: data.publishAt }),
+        ...(data.unpublishAt !== undefined && { unpublishAt: data.unpublishAt }),
+        version: { increment: 1 },
+      },
+    });
+
+    return Episode.fromPrisma(prismaEpisode);
+  }
+
+  /**
+   * Move an episode to the trash
+   *
+   * When expectedVersion is given the change only applies to that version.
+   */
+  async softDelete(
+    id: string,
+    deletedAt: Date,
+    tx: Prisma.TransactionClient = this.prisma,
+    expectedVersion?: number,
+  ): Promise<void> {
+    await tx.episode.update({
+      where: {
+        id,
+        deletedAt: null,
+        ...(expectedVersion !== undefined && { version: expectedVersion }),
       },
+      data: { deletedAt, version: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Find an episode in the trash by ID
+   */
+  async findDeletedById(id: string): Promise<Episode | null> {
+    const prismaEpisode = await this.prisma.episode.findFirst({
+      include: SEASON_NUMBER,
+      where: { id, deletedAt: { not: null } },
+    });
+
+    return prismaEpisode ? Episode.fromPrisma(prismaEpisode) : null;
+  }
+
+  /**
+   * Find episodes deleted on their own, most recently deleted first
+   *
+   * Episodes deleted along with their program are left out; they come back with it.
+   */
+  async findDeleted(skip: number = 0, take: number = 20): Promise<Episode[]> {
+    const prismaEpisodes = await this.prisma.episode.findMany({
+      include: SEASON_NUMBER,
+      where: { deletedAt: { not: null }, program: { deletedAt: null } },
+      skip,
+      take,
+      orderBy: { deletedAt: 'desc' },
+    });
+
+    return prismaEpisodes.map(Episode.fromPrisma);
+  }
+
+  /**
+   * Find episodes deleted on their own at or before the cutoff, oldest first
+   *
+   * Episodes deleted along with their program are purged by the program's cascade.
+   */
+  async findPurgeable(before: Date, take: number = 100): Promise<Episode[]> {
+    const prismaEpisodes = await this.prisma.episode.findMany({
+      include: SEASON_NUMBER,
+      where: { deletedAt: { lte: before }, program: { deletedAt: null } },
+      take,
+      orderBy: { deletedAt: 'asc' },
+    });
+
+    return prismaEpisodes.map(Episode.fromPrisma);
+  }
+
+  /**
+   * Take an episode out of the trash
+   */
+  async restoreDeleted(id: string, tx: Prisma.TransactionClient = this.prisma): Promise<Episode> {
+    const prismaEpisode = await tx.episode.update({
+      include: SEASON_NUMBER,
+      where: { id, deletedAt: { not: null } },
+      data: { deletedAt: null, version: { increment: 1 } },
     });
 
     return Episode.fromPrisma(prismaEpisode);
   }
 
   /**
-   * Delete episode
+   * Delete episode permanently
+   *
+   * When expectedVersion is given the delete only applies to that version.
    */
-  async delete(id: string): Promise<void> {
-    await this.prisma.episode.delete({
-      where: { id },
+  async delete(
+    id: string,
+    tx: Prisma.TransactionClient = this.prisma,
+    expectedVersion?: number,
+  ): Promise<void> {
+    await tx.episode.delete({
+      where: { id, ...(expectedVersion !== undefined && { version: expectedVersion }) },
     });
   }
 
@@ -132,7 +359,9 @@ export class EpisodeRepository {
    * Count episodes
    */
   async count(): Promise<number> {
-    return await this.prisma.episode.count();
+    return await this.prisma.episode.count({
+      where: { deletedAt: null },
+    });
   }
 
   /**
@@ -140,7 +369,7 @@ export class EpisodeRepository {
    */
   async countByProgramId(programId: string): Promise<number> {
     return await this.prisma.episode.count({
-      where: { programId },
+      where: { programId, deletedAt: null },
     });
   }
 }
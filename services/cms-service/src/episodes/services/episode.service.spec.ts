@@ -1,18 +1,41 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  PreconditionFailedException,
+} from '@nestjs/common';
 import { EpisodeService } from './episode.service';
 import { EpisodeRepository } from '../repositories/episode.repository';
 import { ProgramRepository } from '../../programs/repositories/program.repository';
-import { KafkaService } from '../../kafka/kafka.service';
+import { SeasonRepository } from '../../seasons/repositories/season.repository';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { RevisionService } from '../../revisions/services/revision.service';
+import { ContentRevisionRepository } from '../../revisions/repositories/content-revision.repository';
+import { WorkflowService } from '../../workflow/services/workflow.service';
+import { ContentTransitionRepository } from '../../workflow/repositories/content-transition.repository';
+import {
+  ContentTransition,
+  WorkflowAction,
+} from '../../workflow/entities/content-transition.entity';
+import { ContentRevision, RevisionAction } from '../../revisions/entities/content-revision.entity';
 import { Episode } from '../entities/episode.entity';
 import { Program } from '../../programs/entities/program.entity';
-import { ContentStatus } from '@mediamesh/shared';
+import { Season } from '../../seasons/entities/season.entity';
+import { ContentStatus, UserRole } from '@mediamesh/shared';
 
 describe('EpisodeService', () => {
   let service: EpisodeService;
   let episodeRepository: jest.Mocked<EpisodeRepository>;
   let programRepository: jest.Mocked<ProgramRepository>;
-  let kafkaService: jest.Mocked<KafkaService>;
+  let seasonRepository: jest.Mocked<SeasonRepository>;
+  let outboxService: jest.Mocked<OutboxService>;
+  let revisionRepository: jest.Mocked<ContentRevisionRepository>;
+  let workflowService: WorkflowService;
+  let transitionRepository: jest.Mocked<ContentTransitionRepository>;
+
+  const editor = { id: 'user-1', role: UserRole.EDITOR };
 
   const mockProgram: Program = {
     id: 'program-1',
@@ -20,6 +43,7 @@ describe('EpisodeService', () => {
     description: 'Test Description',
     status: ContentStatus.DRAFT,
     metadataId: undefined,
+    version: 1,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     publishedAt: undefined,
@@ -35,19 +59,34 @@ describe('EpisodeService', () => {
     duration: 3600,
     status: ContentStatus.DRAFT,
     metadataId: undefined,
+    version: 1,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     toDto: jest.fn(),
   };
 
+  const mockSeason = new Season({
+    id: 'season-2',
+    programId: 'program-1',
+    seasonNumber: 2,
+    status: ContentStatus.DRAFT,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
   beforeEach(async () => {
     const mockEpisodeRepository = {
       create: jest.fn(),
       findById: jest.fn(),
       findAll: jest.fn(),
       findByProgramId: jest.fn(),
+      findByExternalId: jest.fn(),
+      findByEpisodeNumber: jest.fn(),
       findByStatus: jest.fn(),
       update: jest.fn(),
+      softDelete: jest.fn(),
+      findDeletedById: jest.fn(),
+      restoreDeleted: jest.fn(),
       delete: jest.fn(),
       count: jest.fn(),
       countByProgramId: jest.fn(),
@@ -57,15 +96,54 @@ describe('EpisodeService', () => {
       findById: jest.fn(),
     };
 
-    const mockKafkaService = {
-      emitContentCreated: jest.fn(),
-      emitContentUpdated: jest.fn(),
-      emitContentPublished: jest.fn(),
+    const mockSeasonRepository = {
+      findById: jest.fn(),
+    };
+
+    const mockPrismaService = {
+      $transaction: jest.fn((fn) => fn({})),
+    };
+
+    const mockOutboxService = {
+      enqueueContentCreated: jest.fn(),
+      enqueueContentUpdated: jest.fn(),
+      enqueueContentPublished: jest.fn(),
+      enqueueContentUnpublished: jest.fn(),
+      enqueueContentDeleted: jest.fn(),
+      enqueueContentArchived: jest.fn(),
+    };
+
+    const mockRevisionRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(new ContentRevision({ id: 'revision-1', ...data, createdAt: new Date() })),
+      ),
+      findLatest: jest.fn().mockResolvedValue(null),
+      findByRevision: jest.fn(),
+      findByContentId: jest.fn(),
+    };
+
+    const mockTransitionRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(
+          new ContentTransition({ id: 'transition-1', ...data, createdAt: new Date('2024-01-02') }),
+        ),
+      ),
+      findByContentId: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         EpisodeService,
+        RevisionService,
+        {
+          provide: ContentRevisionRepository,
+          useValue: mockRevisionRepository,
+        },
+        WorkflowService,
+        {
+          provide: ContentTransitionRepository,
+          useValue: mockTransitionRepository,
+        },
         {
           provide: EpisodeRepository,
           useValue: mockEpisodeRepository,
@@ -75,8 +153,16 @@ describe('EpisodeService', () => {
           useValue: mockProgramRepository,
         },
         {
-          provide: KafkaService,
-          useValue: mockKafkaService,
+          provide: SeasonRepository,
+          useValue: mockSeasonRepository,
+        },
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: OutboxService,
+          useValue: mockOutboxService,
         },
       ],
     }).compile();
@@ -84,7 +170,11 @@ describe('EpisodeService', () => {
     service = module.get<EpisodeService>(EpisodeService);
     episodeRepository = module.get(EpisodeRepository);
     programRepository = module.get(ProgramRepository);
-    kafkaService = module.get(KafkaService);
+    seasonRepository = module.get(SeasonRepository);
+    outboxService = module.get(OutboxService);
+    revisionRepository = module.get(ContentRevisionRepository);
+    workflowService = module.get<WorkflowService>(WorkflowService);
+    transitionRepository = module.get(ContentTransitionRepository);
   });
 
   afterEach(() => {
@@ -102,19 +192,22 @@ describe('EpisodeService', () => {
 
     it('should create a new episode', async () => {
       programRepository.findById.mockResolvedValue(mockProgram);
-      episodeRepository.findByProgramId.mockResolvedValue([]);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
       episodeRepository.create.mockResolvedValue(mockEpisode);
 
       const result = await service.create(createData);
 
       expect(result).toEqual(mockEpisode);
       expect(programRepository.findById).toHaveBeenCalledWith('program-1');
-      expect(episodeRepository.create).toHaveBeenCalledWith({
-        ...createData,
-        status: ContentStatus.DRAFT,
-        metadataId: undefined,
-      });
-      expect(kafkaService.emitContentCreated).toHaveBeenCalled();
+      expect(episodeRepository.create).toHaveBeenCalledWith(
+        {
+          ...createData,
+          status: ContentStatus.DRAFT,
+          metadataId: undefined,
+        },
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentCreated).toHaveBeenCalled();
     });
 
     it('should throw NotFoundException if program does not exist', async () => {
@@ -127,38 +220,114 @@ describe('EpisodeService', () => {
     it('should throw ConflictException if episode number already exists', async () => {
       const existingEpisode = { ...mockEpisode, episodeNumber: 1, toDto: jest.fn() };
       programRepository.findById.mockResolvedValue(mockProgram);
-      episodeRepository.findByProgramId.mockResolvedValue([existingEpisode]);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(existingEpisode);
 
       await expect(service.create(createData)).rejects.toThrow(ConflictException);
+      expect(episodeRepository.findByEpisodeNumber).toHaveBeenCalledWith(
+        'program-1',
+        undefined,
+        1,
+        undefined,
+      );
       expect(episodeRepository.create).not.toHaveBeenCalled();
     });
 
+    it('should throw ConflictException if the external ID already exists', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
+      episodeRepository.findByExternalId.mockResolvedValue(mockEpisode);
+
+      await expect(service.create({ ...createData, externalId: 'guid-1' })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(episodeRepository.findByExternalId).toHaveBeenCalledWith('program-1', 'guid-1');
+      expect(episodeRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should allow the same episode number in another season', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
+      episodeRepository.create.mockResolvedValue(mockEpisode);
+
+      await service.create({ ...createData, seasonId: 'season-2' });
+
+      expect(episodeRepository.findByEpisodeNumber).toHaveBeenCalledWith(
+        'program-1',
+        'season-2',
+        1,
+        undefined,
+      );
+      expect(episodeRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ seasonId: 'season-2', episodeNumber: 1 }),
+        expect.anything(),
+      );
+    });
+
+    it('should throw ConflictException if the number is taken in the season', async () => {
+      const existingEpisode = {
+        ...mockEpisode,
+        seasonId: 'season-2',
+        episodeNumber: 1,
+        toDto: jest.fn(),
+      };
+      programRepository.findById.mockResolvedValue(mockProgram);
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(existingEpisode);
+
+      await expect(service.create({ ...createData, seasonId: 'season-2' })).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should throw BadRequestException if the season belongs to another program', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      seasonRepository.findById.mockResolvedValue(
+        new Season({ ...mockSeason, programId: 'program-2' }),
+      );
+
+      await expect(service.create({ ...createData, seasonId: 'season-2' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(episodeRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if the season does not exist', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      seasonRepository.findById.mockResolvedValue(null);
+
+      await expect(service.create({ ...createData, seasonId: 'missing' })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
     it('should throw BadRequestException if episode number is less than 1', async () => {
       programRepository.findById.mockResolvedValue(mockProgram);
-      episodeRepository.findByProgramId.mockResolvedValue([]);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
 
-      await expect(
-        service.create({ ...createData, episodeNumber: 0 }),
-      ).rejects.toThrow(BadRequestException);
+      await expect(service.create({ ...createData, episodeNumber: 0 })).rejects.toThrow(
+        BadRequestException,
+      );
     });
 
     it('should throw BadRequestException if duration is negative', async () => {
       programRepository.findById.mockResolvedValue(mockProgram);
-      episodeRepository.findByProgramId.mockResolvedValue([]);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
 
-      await expect(
-        service.create({ ...createData, duration: -1 }),
-      ).rejects.toThrow(BadRequestException);
+      await expect(service.create({ ...createData, duration: -1 })).rejects.toThrow(
+        BadRequestException,
+      );
     });
 
     it('should include program data in created event', async () => {
       programRepository.findById.mockResolvedValue(mockProgram);
-      episodeRepository.findByProgramId.mockResolvedValue([]);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
       episodeRepository.create.mockResolvedValue(mockEpisode);
 
       await service.create(createData);
 
-      expect(kafkaService.emitContentCreated).toHaveBeenCalledWith(
+      expect(outboxService.enqueueContentCreated).toHaveBeenCalledWith(
+        expect.anything(),
         expect.objectContaining({
           contentId: mockEpisode.id,
           contentType: 'EPISODE',
@@ -244,7 +413,7 @@ describe('EpisodeService', () => {
       const updatedEpisode = { ...mockEpisode, ...updateData, toDto: jest.fn() };
 
       episodeRepository.findById.mockResolvedValue(mockEpisode);
-      episodeRepository.findByProgramId.mockResolvedValue([]);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
       episodeRepository.update.mockResolvedValue(updatedEpisode);
       programRepository.findById.mockResolvedValue(mockProgram);
 
@@ -254,19 +423,53 @@ describe('EpisodeService', () => {
       expect(episodeRepository.update).toHaveBeenCalled();
     });
 
+    it('should throw PreconditionFailedException on a concurrent change', async () => {
+      episodeRepository.findById.mockResolvedValue(mockEpisode);
+      programRepository.findById.mockResolvedValue(mockProgram);
+      episodeRepository.update.mockRejectedValue(
+        Object.assign(new Error('Not found'), { code: 'P2025' }),
+      );
+
+      await expect(
+        service.update('episode-1', { title: 'New Title' }, 'user-1', 1),
+      ).rejects.toThrow(PreconditionFailedException);
+      expect(episodeRepository.update).toHaveBeenCalledWith(
+        'episode-1',
+        expect.objectContaining({ title: 'New Title' }),
+        expect.anything(),
+        1,
+      );
+      expect(outboxService.enqueueContentUpdated).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when a concurrent write takes the number', async () => {
+      episodeRepository.findById.mockResolvedValue(mockEpisode);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
+      programRepository.findById.mockResolvedValue(mockProgram);
+      episodeRepository.update.mockRejectedValue(
+        Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }),
+      );
+
+      await expect(service.update('episode-1', { episodeNumber: 2 })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(outboxService.enqueueContentUpdated).not.toHaveBeenCalled();
+    });
+
     it('should track changes and emit updated event', async () => {
       const existingEpisode = { ...mockEpisode, title: 'Old Title', toDto: jest.fn() };
       const updateData = { title: 'New Title' };
       const updatedEpisode = { ...existingEpisode, ...updateData, toDto: jest.fn() };
 
       episodeRepository.findById.mockResolvedValue(existingEpisode);
-      episodeRepository.findByProgramId.mockResolvedValue([]);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
       episodeRepository.update.mockResolvedValue(updatedEpisode);
       programRepository.findById.mockResolvedValue(mockProgram);
 
       await service.update('episode-1', updateData);
 
-      expect(kafkaService.emitContentUpdated).toHaveBeenCalledWith(
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
         expect.objectContaining({
           contentId: 'episode-1',
           contentType: 'EPISODE',
@@ -285,23 +488,102 @@ describe('EpisodeService', () => {
       const updateData = { episodeNumber: 2 };
 
       episodeRepository.findById.mockResolvedValue(existingEpisode);
-      episodeRepository.findByProgramId.mockResolvedValue([existingEpisode, otherEpisode]);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(otherEpisode);
 
       await expect(service.update('episode-1', updateData)).rejects.toThrow(ConflictException);
+      expect(episodeRepository.findByEpisodeNumber).toHaveBeenCalledWith(
+        'program-1',
+        undefined,
+        2,
+        'episode-1',
+      );
+    });
+
+    it('should move an episode into a season and track the change', async () => {
+      const existingEpisode = { ...mockEpisode, toDto: jest.fn() };
+      const updatedEpisode = { ...existingEpisode, seasonId: 'season-2', toDto: jest.fn() };
+
+      episodeRepository.findById.mockResolvedValue(existingEpisode);
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
+      episodeRepository.update.mockResolvedValue(updatedEpisode);
+      programRepository.findById.mockResolvedValue(mockProgram);
+
+      await service.update('episode-1', { seasonId: 'season-2' });
+
+      expect(episodeRepository.update).toHaveBeenCalledWith(
+        'episode-1',
+        expect.objectContaining({ seasonId: 'season-2' }),
+        expect.anything(),
+        undefined,
+      );
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          changes: { seasonId: { old: undefined, new: 'season-2' } },
+        }),
+      );
     });
 
-    it('should validate status transition', async () => {
+    it('should throw ConflictException if the number is taken in the target season', async () => {
+      const existingEpisode = { ...mockEpisode, toDto: jest.fn() };
+      const seasonEpisode = {
+        ...mockEpisode,
+        id: 'episode-2',
+        seasonId: 'season-2',
+        toDto: jest.fn(),
+      };
+
+      episodeRepository.findById.mockResolvedValue(existingEpisode);
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(seasonEpisode);
+
+      await expect(service.update('episode-1', { seasonId: 'season-2' })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(episodeRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should publish a draft directly when review is not required', async () => {
+      jest.spyOn(workflowService, 'isReviewRequired').mockReturnValue(false);
       const existingEpisode = { ...mockEpisode, status: ContentStatus.DRAFT, toDto: jest.fn() };
       const updateData = { status: ContentStatus.PUBLISHED };
 
       episodeRepository.findById.mockResolvedValue(existingEpisode);
-      episodeRepository.findByProgramId.mockResolvedValue([]);
-      episodeRepository.update.mockResolvedValue({ ...existingEpisode, ...updateData, toDto: jest.fn() });
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
+      episodeRepository.update.mockResolvedValue({
+        ...existingEpisode,
+        ...updateData,
+        toDto: jest.fn(),
+      });
       programRepository.findById.mockResolvedValue(mockProgram);
 
       const result = await service.update('episode-1', updateData);
 
       expect(result.status).toBe(ContentStatus.PUBLISHED);
+      expect(transitionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          contentId: 'episode-1',
+          contentType: 'EPISODE',
+          action: WorkflowAction.PUBLISH,
+          fromStatus: ContentStatus.DRAFT,
+          toStatus: ContentStatus.PUBLISHED,
+        }),
+        expect.anything(),
+      );
+    });
+
+    it('should reject publishing a draft directly when review is required', async () => {
+      jest.spyOn(workflowService, 'isReviewRequired').mockReturnValue(true);
+      const existingEpisode = { ...mockEpisode, status: ContentStatus.DRAFT, toDto: jest.fn() };
+
+      episodeRepository.findById.mockResolvedValue(existingEpisode);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
+
+      await expect(
+        service.update('episode-1', { status: ContentStatus.PUBLISHED }),
+      ).rejects.toThrow(BadRequestException);
+      expect(episodeRepository.update).not.toHaveBeenCalled();
     });
 
     it('should throw BadRequestException for invalid status transition', async () => {
@@ -309,21 +591,104 @@ describe('EpisodeService', () => {
       const updateData = { status: 'INVALID_STATUS' as any };
 
       episodeRepository.findById.mockResolvedValue(existingEpisode);
-      episodeRepository.findByProgramId.mockResolvedValue([]);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
 
       await expect(service.update('episode-1', updateData)).rejects.toThrow(BadRequestException);
     });
   });
 
+  describe('restoreRevision', () => {
+    const revision1 = new ContentRevision({
+      id: 'revision-1',
+      contentId: 'episode-1',
+      contentType: 'EPISODE',
+      revision: 1,
+      action: RevisionAction.CREATE,
+      snapshot: {
+        title: 'Original Title',
+        description: 'Test Description',
+        episodeNumber: 2,
+        duration: 3600,
+        metadataId: null,
+      },
+      createdAt: new Date('2024-01-01'),
+    });
+
+    it('should restore fields and emit content.updated with the program', async () => {
+      const restoredEpisode = {
+        ...mockEpisode,
+        title: 'Original Title',
+        episodeNumber: 2,
+        toDto: jest.fn(),
+      };
+      episodeRepository.findById.mockResolvedValue(mockEpisode);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
+      episodeRepository.update.mockResolvedValue(restoredEpisode);
+      programRepository.findById.mockResolvedValue(mockProgram);
+      revisionRepository.findByRevision.mockResolvedValue(revision1);
+
+      await service.restoreRevision('episode-1', 1, 'user-1');
+
+      expect(episodeRepository.update).toHaveBeenCalledWith(
+        'episode-1',
+        expect.objectContaining({ title: 'Original Title', episodeNumber: 2 }),
+        expect.anything(),
+      );
+      expect(revisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ action: RevisionAction.RESTORE, restoredFrom: 1 }),
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentType: 'EPISODE',
+          changes: expect.objectContaining({
+            title: { old: 'Test Episode', new: 'Original Title' },
+            restoredFromRevision: { old: null, new: 1 },
+          }),
+          program: expect.objectContaining({ id: 'program-1' }),
+        }),
+      );
+    });
+
+    it('should throw ConflictException if the episode number is taken', async () => {
+      episodeRepository.findById.mockResolvedValue(mockEpisode);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue({
+        ...mockEpisode,
+        id: 'episode-2',
+        episodeNumber: 2,
+        toDto: jest.fn(),
+      });
+      revisionRepository.findByRevision.mockResolvedValue(revision1);
+
+      await expect(service.restoreRevision('episode-1', 1)).rejects.toThrow(ConflictException);
+      expect(episodeRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('delete', () => {
-    it('should delete an episode', async () => {
+    it('should move an episode to the trash', async () => {
       episodeRepository.findById.mockResolvedValue(mockEpisode);
-      episodeRepository.delete.mockResolvedValue(undefined);
+      episodeRepository.softDelete.mockResolvedValue(undefined);
 
-      await service.delete('episode-1');
+      await service.delete('episode-1', 'user-1');
 
       expect(episodeRepository.findById).toHaveBeenCalledWith('episode-1');
-      expect(episodeRepository.delete).toHaveBeenCalledWith('episode-1');
+      expect(episodeRepository.softDelete).toHaveBeenCalledWith(
+        'episode-1',
+        expect.any(Date),
+        expect.anything(),
+        undefined,
+      );
+      expect(episodeRepository.delete).not.toHaveBeenCalled();
+      expect(outboxService.enqueueContentUnpublished).toHaveBeenCalledWith(expect.anything(), {
+        contentId: 'episode-1',
+        contentType: 'EPISODE',
+        title: mockEpisode.title,
+        programId: mockEpisode.programId,
+        unpublishedBy: 'user-1',
+        unpublishedAt: expect.any(Date),
+      });
     });
 
     it('should throw NotFoundException if episode not found', async () => {
@@ -337,6 +702,256 @@ describe('EpisodeService', () => {
     });
   });
 
+  describe('restoreDeleted', () => {
+    const deletedEpisode = { ...mockEpisode, deletedAt: new Date('2024-03-01T00:00:00.000Z') };
+
+    it('should restore an episode and emit content.updated', async () => {
+      episodeRepository.findDeletedById.mockResolvedValue(deletedEpisode as any);
+      programRepository.findById.mockResolvedValue(mockProgram);
+      episodeRepository.restoreDeleted.mockResolvedValue(mockEpisode);
+
+      const result = await service.restoreDeleted('episode-1', 'admin-1');
+
+      expect(result).toEqual(mockEpisode);
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'episode-1',
+          contentType: 'EPISODE',
+          updatedBy: 'admin-1',
+          changes: { deletedAt: { old: '2024-03-01T00:00:00.000Z', new: null } },
+        }),
+      );
+    });
+
+    it('should throw ConflictException while its program is in the trash', async () => {
+      episodeRepository.findDeletedById.mockResolvedValue(deletedEpisode as any);
+      programRepository.findById.mockResolvedValue(null);
+
+      await expect(service.restoreDeleted('episode-1')).rejects.toThrow(ConflictException);
+      expect(episodeRepository.restoreDeleted).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException if another episode has taken its number', async () => {
+      episodeRepository.findDeletedById.mockResolvedValue(deletedEpisode as any);
+      programRepository.findById.mockResolvedValue(mockProgram);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue({
+        ...mockEpisode,
+        id: 'episode-2',
+        toDto: jest.fn(),
+      });
+
+      await expect(service.restoreDeleted('episode-1')).rejects.toThrow(ConflictException);
+      expect(episodeRepository.findByEpisodeNumber).toHaveBeenCalledWith(
+        'program-1',
+        undefined,
+        mockEpisode.episodeNumber,
+        'episode-1',
+      );
+      expect(episodeRepository.restoreDeleted).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException if another episode has taken its external ID', async () => {
+      episodeRepository.findDeletedById.mockResolvedValue({
+        ...deletedEpisode,
+        externalId: 'guid-1',
+      } as any);
+      programRepository.findById.mockResolvedValue(mockProgram);
+      episodeRepository.findByEpisodeNumber.mockResolvedValue(null);
+      episodeRepository.findByExternalId.mockResolvedValue({
+        ...mockEpisode,
+        id: 'episode-2',
+        toDto: jest.fn(),
+      });
+
+      await expect(service.restoreDeleted('episode-1')).rejects.toThrow(ConflictException);
+      expect(episodeRepository.restoreDeleted).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purge', () => {
+    it('should delete the episode permanently and emit content.deleted', async () => {
+      const now = new Date('2024-04-01T00:00:00.000Z');
+      episodeRepository.findDeletedById.mockResolvedValue({
+        ...mockEpisode,
+        deletedAt: new Date('2024-03-01T00:00:00.000Z'),
+      } as any);
+
+      const result = await service.purge('episode-1', new Date('2024-03-02'), now);
+
+      expect(result).toBe(true);
+      expect(episodeRepository.delete).toHaveBeenCalledWith('episode-1', expect.anything());
+      expect(outboxService.enqueueContentDeleted).toHaveBeenCalledWith(expect.anything(), {
+        contentId: 'episode-1',
+        contentType: 'EPISODE',
+        title: mockEpisode.title,
+        programId: mockEpisode.programId,
+        deletedAt: now,
+      });
+    });
+  });
+
+  describe('schedule', () => {
+    it('should move an APPROVED episode to SCHEDULED', async () => {
+      const publishAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      const approvedEpisode = { ...mockEpisode, status: ContentStatus.APPROVED, toDto: jest.fn() };
+
+      episodeRepository.findById.mockResolvedValue(approvedEpisode);
+      episodeRepository.update.mockResolvedValue({
+        ...mockEpisode,
+        status: ContentStatus.SCHEDULED,
+        publishAt,
+        toDto: jest.fn(),
+      });
+
+      const result = await service.schedule('episode-1', { publishAt });
+
+      expect(result.status).toBe(ContentStatus.SCHEDULED);
+      expect(episodeRepository.update).toHaveBeenCalledWith(
+        'episode-1',
+        { status: ContentStatus.SCHEDULED, publishAt, unpublishAt: null },
+        expect.anything(),
+      );
+      expect(transitionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: WorkflowAction.SCHEDULE,
+          fromStatus: ContentStatus.APPROVED,
+          toStatus: ContentStatus.SCHEDULED,
+        }),
+        expect.anything(),
+      );
+    });
+
+    it('should reject scheduling a DRAFT episode when review is required', async () => {
+      jest.spyOn(workflowService, 'isReviewRequired').mockReturnValue(true);
+      episodeRepository.findById.mockResolvedValue(mockEpisode);
+
+      await expect(
+        service.schedule('episode-1', { publishAt: new Date(Date.now() + 60000) }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject scheduling only unpublishAt on a DRAFT episode', async () => {
+      episodeRepository.findById.mockResolvedValue(mockEpisode);
+
+      await expect(
+        service.schedule('episode-1', { unpublishAt: new Date(Date.now() + 60000) }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('publishScheduled', () => {
+    it('should publish a due episode with its programId in the event', async () => {
+      const now = new Date();
+      const scheduledEpisode = {
+        ...mockEpisode,
+        status: ContentStatus.SCHEDULED,
+        publishAt: new Date(now.getTime() - 1000),
+        toDto: jest.fn(),
+      };
+
+      episodeRepository.findById.mockResolvedValue(scheduledEpisode);
+      episodeRepository.update.mockResolvedValue({
+        ...mockEpisode,
+        status: ContentStatus.PUBLISHED,
+        toDto: jest.fn(),
+      });
+
+      const result = await service.publishScheduled('episode-1', now);
+
+      expect(result).toBe(true);
+      expect(outboxService.enqueueContentPublished).toHaveBeenCalledWith(expect.anything(), {
+        contentId: 'episode-1',
+        contentType: 'EPISODE',
+        title: mockEpisode.title,
+        programId: 'program-1',
+        publishedAt: now,
+      });
+    });
+
+    it('should skip an episode that is not due yet', async () => {
+      episodeRepository.findById.mockResolvedValue({
+        ...mockEpisode,
+        status: ContentStatus.SCHEDULED,
+        publishAt: new Date(Date.now() + 60000),
+        toDto: jest.fn(),
+      });
+
+      const result = await service.publishScheduled('episode-1');
+
+      expect(result).toBe(false);
+      expect(outboxService.enqueueContentPublished).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transition', () => {
+    it('should submit a draft for review and emit the transition', async () => {
+      episodeRepository.findById.mockResolvedValue(mockEpisode);
+      programRepository.findById.mockResolvedValue(mockProgram);
+      episodeRepository.update.mockResolvedValue({
+        ...mockEpisode,
+        status: ContentStatus.IN_REVIEW,
+        toDto: jest.fn(),
+      });
+
+      const result = await service.transition('episode-1', WorkflowAction.SUBMIT, editor);
+
+      expect(result.status).toBe(ContentStatus.IN_REVIEW);
+      expect(episodeRepository.update).toHaveBeenCalledWith(
+        'episode-1',
+        { status: ContentStatus.IN_REVIEW },
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'episode-1',
+          contentType: 'EPISODE',
+          changes: {
+            status: { old: ContentStatus.DRAFT, new: ContentStatus.IN_REVIEW },
+            transition: {
+              old: ContentStatus.DRAFT,
+              new: expect.objectContaining({
+                action: WorkflowAction.SUBMIT,
+                actorId: 'user-1',
+              }),
+            },
+          },
+        }),
+      );
+    });
+
+    it('should publish an approved episode', async () => {
+      episodeRepository.findById.mockResolvedValue({
+        ...mockEpisode,
+        status: ContentStatus.APPROVED,
+        toDto: jest.fn(),
+      });
+      episodeRepository.update.mockResolvedValue({
+        ...mockEpisode,
+        status: ContentStatus.PUBLISHED,
+        toDto: jest.fn(),
+      });
+
+      await service.transition('episode-1', WorkflowAction.PUBLISH, editor);
+
+      expect(outboxService.enqueueContentPublished).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ contentId: 'episode-1', programId: 'program-1' }),
+      );
+    });
+
+    it('should reject publishing a draft when review is required', async () => {
+      jest.spyOn(workflowService, 'isReviewRequired').mockReturnValue(true);
+      episodeRepository.findById.mockResolvedValue(mockEpisode);
+
+      await expect(service.transition('episode-1', WorkflowAction.PUBLISH, editor)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(episodeRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('countByProgramId', () => {
     it('should return episode count for a program', async () => {
       programRepository.findById.mockResolvedValue(mockProgram);
@@ -1,16 +1,45 @@
-import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  PreconditionFailedException,
+} from '@nestjs/common';
 import { EpisodeRepository } from '../repositories/episode.repository';
 import { ProgramRepository } from '../../programs/repositories/program.repository';
 import { Episode } from '../entities/episode.entity';
+import { Program } from '../../programs/entities/program.entity';
+import { SeasonRepository } from '../../seasons/repositories/season.repository';
+import { Season } from '../../seasons/entities/season.entity';
+import { Prisma } from '@prisma/client';
 import { ContentStatus } from '@mediamesh/shared';
-import { throwIfNotFound } from '@mediamesh/shared';
-import { KafkaService } from '../../kafka/kafka.service';
+import { throwIfNotFound, isFuture } from '@mediamesh/shared';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { WorkflowService } from '../../workflow/services/workflow.service';
+import {
+  ContentTransition,
+  WorkflowAction,
+  WorkflowActor,
+} from '../../workflow/entities/content-transition.entity';
+import { RevisionService } from '../../revisions/services/revision.service';
+import {
+  ContentRevision,
+  RevisionAction,
+  RevisionSnapshot,
+} from '../../revisions/entities/content-revision.entity';
 
 /**
  * Episode Service
  * 
  * Business logic layer for episode operations.
  * Handles validation and business rules.
+ * Content events are written to the outbox in the same transaction as the change.
+ * Episodes follow the same publishing workflow as programs: every status change is
+ * recorded as a workflow transition and every edit as a revision.
+ * Episode numbers are unique within a season; episodes without a season are numbered
+ * per program.
  */
 @Injectable()
 export class EpisodeService {
@@ -19,38 +48,64 @@ export class EpisodeService {
   constructor(
     private readonly episodeRepository: EpisodeRepository,
     private readonly programRepository: ProgramRepository,
-    private readonly kafkaService: KafkaService,
+    private readonly seasonRepository: SeasonRepository,
+    private readonly prisma: PrismaService,
+    private readonly outboxService: OutboxService,
+    private readonly workflowService: WorkflowService,
+    private readonly revisionService: RevisionService,
   ) {}
 
   /**
    * Create a new episode
    */
-  async create(data: {
-    programId: string;
-    title: string;
-    description?: string;
-    episodeNumber: number;
-    duration?: number;
-    status?: ContentStatus;
-    metadataId?: string;
-  }): Promise<Episode> {
+  async create(
+    data: {
+      programId: string;
+      seasonId?: string;
+      title: string;
+      description?: string;
+      episodeNumber: number;
+      duration?: number;
+      status?: ContentStatus;
+      metadataId?: string;
+      externalId?: string;
+    },
+    createdBy?: string,
+  ): Promise<Episode> {
     this.logger.log(`Creating new episode: ${data.title} for program ${data.programId}`);
 
+    // Validate status
+    const status = data.status || ContentStatus.DRAFT;
+    if (
+      status !== ContentStatus.DRAFT &&
+      (this.workflowService.isReviewRequired() || status !== ContentStatus.PUBLISHED)
+    ) {
+      throw new BadRequestException(
+        `Cannot create episode with status: ${status}. Use the review workflow instead.`,
+      );
+    }
+
     // Validate program exists
     const program = await this.programRepository.findById(data.programId);
     if (!program) {
       throw new NotFoundException(`Program with ID ${data.programId} not found`);
     }
 
-    // Validate episode number is unique for this program
-    const existingEpisodes = await this.episodeRepository.findByProgramId(data.programId, 0, 1000);
-    const episodeNumberExists = existingEpisodes.some(
-      (ep) => ep.episodeNumber === data.episodeNumber,
-    );
+    // Validate season belongs to the program
+    if (data.seasonId) {
+      await this.findSeason(data.programId, data.seasonId);
+    }
+
+    // Validate episode number is unique for this season (or program)
+    await this.assertEpisodeNumberAvailable(data.programId, data.seasonId, data.episodeNumber);
 
-    if (episodeNumberExists) {
+    // Validate external ID is unique for this program
+    if (
+      data.externalId &&
+      (await this.episodeRepository.findByExternalId(data.programId, data.externalId))
+    ) {
       throw new ConflictException(
-        `Episode number ${data.episodeNumber} already exists for program ${data.programId}`,
+        `Episode with external ID ${data.externalId} already exists in this program`,
       );
     }
 
@@ -64,42 +119,52 @@ export class EpisodeService {
       throw new BadRequestException('Episode number must be at least 1');
     }
 
-    // Create episode
-    const episode = await this.episodeRepository.create({
-      programId: data.programId,
-      title: data.title,
-      description: data.description,
-      episodeNumber: data.episodeNumber,
-      duration: data.duration,
-      status: data.status || ContentStatus.DRAFT,
-      metadataId: data.metadataId,
-    });
+    // Create episode and enqueue content.created event atomically
+    const episode = await this.prisma.$transaction(async (tx) => {
+      const created = await this.episodeRepository
+        .create(
+          {
+            programId: data.programId,
+            seasonId: data.seasonId,
+            title: data.title,
+            description: data.description,
+            episodeNumber: data.episodeNumber,
+            duration: data.duration,
+            status,
+            metadataId: data.metadataId,
+            externalId: data.externalId,
+          },
+          tx,
+        )
+        .catch((error) => this.rethrowUniqueConflict(error));
 
-    this.logger.log(`Episode created: ${episode.id} (${episode.title})`);
+      // Program already fetched above
+      await this.outboxService.enqueueContentCreated(tx, {
+        contentId: created.id,
+        contentType: 'EPISODE',
+        title: created.title,
+        description: created.description,
+        programId: created.programId,
+        episodeNumber: created.episodeNumber,
+        status: created.status,
+        metadataId: created.metadataId,
+        createdAt: created.createdAt,
+        program: this.toEventProgram(program),
+      });
 
-    // Emit content.created event (program already fetched above)
-    await this.kafkaService.emitContentCreated({
-      contentId: episode.id,
-      contentType: 'EPISODE',
-      title: episode.title,
-      description: episode.description,
-      programId: episode.programId,
-      episodeNumber: episode.episodeNumber,
-      status: episode.status,
-      metadataId: episode.metadataId,
-      createdAt: episode.createdAt,
-      program: {
-        id: program.id,
-        title: program.title,
-        description: program.description,
-        status: program.status,
-        metadataId: program.metadataId,
-        createdAt: program.createdAt.toISOString(),
-        updatedAt: program.updatedAt.toISOString(),
-        publishedAt: program.publishedAt?.toISOString(),
-      },
+      await this.revisionService.record(tx, {
+        contentId: created.id,
+        contentType: 'EPISODE',
+        action: RevisionAction.CREATE,
+        snapshot: this.toSnapshot(created),
+        authorId: createdBy,
+      });
+
+      return created;
     });
 
+    this.logger.log(`Episode created: ${episode.id} (${episode.title})`);
+
     return episode;
   }
 
@@ -116,6 +181,32 @@ export class EpisodeService {
     return await this.episodeRepository.findByProgramId(programId, skip, take);
   }
 
+  /**
+   * Find an episode of a program by external (source catalog) ID
+   */
+  async findByExternalId(programId: string, externalId: string): Promise<Episode | null> {
+    // Validate program exists
+    const program = await this.programRepository.findById(programId);
+    if (!program) {
+      throw new NotFoundException(`Program with ID ${programId} not found`);
+    }
+
+    return await this.episodeRepository.findByExternalId(programId, externalId);
+  }
+
+  /**
+   * Find all episodes of a season
+   */
+  async findAllBySeason(seasonId: string, skip: number = 0, take: number = 20): Promise<Episode[]> {
+    // Validate season exists
+    const season = await this.seasonRepository.findById(seasonId);
+    if (!season) {
+      throw new NotFoundException(`Season with ID ${seasonId} not found`);
+    }
+
+    return await this.episodeRepository.findBySeasonId(seasonId, skip, take);
+  }
+
   /**
    * Find all episodes with pagination
    */
@@ -141,44 +232,51 @@ export class EpisodeService {
 
   /**
    * Update episode
+   *
+   * When expectedVersion is given (from If-Match) the write fails with 412 if the episode
+   * has been modified since that version.
    */
   async update(
     id: string,
     data: {
+      seasonId?: string | null; // null moves the episode out of its season
       title?: string;
       description?: string;
       episodeNumber?: number;
       duration?: number;
       status?: ContentStatus;
       metadataId?: string;
+      externalId?: string;
     },
+    updatedBy?: string,
+    expectedVersion?: number,
   ): Promise<Episode> {
     this.logger.log(`Updating episode: ${id}`);
 
     // Check if episode exists
     const existingEpisode = await this.findOne(id);
 
-    // Validate episode number uniqueness if being changed
-    if (data.episodeNumber !== undefined && data.episodeNumber !== existingEpisode.episodeNumber) {
-      const existingEpisodes = await this.episodeRepository.findByProgramId(
-        existingEpisode.programId,
-        0,
-        1000,
-      );
-      const episodeNumberExists = existingEpisodes.some(
-        (ep) => ep.id !== id && ep.episodeNumber === data.episodeNumber,
-      );
-
-      if (episodeNumberExists) {
-        throw new ConflictException(
-          `Episode number ${data.episodeNumber} already exists for this program`,
-        );
-      }
+    // Validate the new season belongs to the same program
+    const seasonId =
+      data.seasonId !== undefined ? (data.seasonId ?? undefined) : existingEpisode.seasonId;
+    if (data.seasonId) {
+      await this.findSeason(existingEpisode.programId, data.seasonId);
+    }
 
+    // Validate episode number uniqueness if the number or season is being changed
+    const episodeNumber = data.episodeNumber ?? existingEpisode.episodeNumber;
+    if (episodeNumber !== existingEpisode.episodeNumber || seasonId !== existingEpisode.seasonId) {
       // Validate episode number
-      if (data.episodeNumber < 1) {
+      if (episodeNumber < 1) {
         throw new BadRequestException('Episode number must be at least 1');
       }
+
+      await this.assertEpisodeNumberAvailable(
+        existingEpisode.programId,
+        seasonId,
+        episodeNumber,
+        id,
+      );
     }
 
     // Validate duration if provided
@@ -188,6 +286,9 @@ export class EpisodeService {
 
     // Track changes for event
     const changes: Record<string, { old: any; new: any }> = {};
+    if (seasonId !== existingEpisode.seasonId) {
+      changes.seasonId = { old: existingEpisode.seasonId, new: seasonId };
+    }
     if (data.title !== undefined && data.title !== existingEpisode.title) {
       changes.title = { old: existingEpisode.title, new: data.title };
     }
@@ -212,57 +313,814 @@ export class EpisodeService {
       this.validateStatusTransition(existingEpisode.status, data.status);
     }
 
-    // Update episode
-    const episode = await this.episodeRepository.update(id, {
-      title: data.title,
-      description: data.description,
-      episodeNumber: data.episodeNumber,
-      duration: data.duration,
-      status: data.status,
-      metadataId: data.metadataId,
+    // Get program data for event
+    const program = await this.programRepository.findById(existingEpisode.programId);
+
+    // Update episode and enqueue content.updated event atomically
+    const episode = await this.prisma.$transaction(async (tx) => {
+      const updated = await this.episodeRepository
+        .update(
+          id,
+          {
+            seasonId: data.seasonId,
+            title: data.title,
+            description: data.description,
+            episodeNumber: data.episodeNumber,
+            duration: data.duration,
+            status: data.status,
+            metadataId: data.metadataId,
+            externalId: data.externalId,
+          },
+          tx,
+          expectedVersion,
+        )
+        .catch((error) => this.rethrowVersionConflict(error, id, expectedVersion))
+        .catch((error) => this.rethrowUniqueConflict(error));
+
+      if (changes.status) {
+        const transition = await this.recordTransition(tx, {
+          episodeId: id,
+          action:
+            data.status === ContentStatus.PUBLISHED
+              ? WorkflowAction.PUBLISH
+              : WorkflowAction.UNPUBLISH,
+          fromStatus: existingEpisode.status,
+          toStatus: updated.status,
+          actorId: updatedBy,
+        });
+        changes.transition = transition.toChange();
+      }
+
+      await this.revisionService.record(tx, {
+        contentId: id,
+        contentType: 'EPISODE',
+        action: RevisionAction.UPDATE,
+        snapshot: this.toSnapshot(updated),
+        previous: this.toSnapshot(existingEpisode),
+        authorId: updatedBy,
+      });
+
+      // Emit content.updated event if there were changes
+      if (Object.keys(changes).length > 0) {
+        await this.outboxService.enqueueContentUpdated(tx, {
+          contentId: updated.id,
+          contentType: 'EPISODE',
+          title: updated.title,
+          status: updated.status,
+          deletedAt: updated.deletedAt,
+          updatedBy,
+          changes,
+          program: program ? this.toEventProgram(program) : undefined,
+        });
+      }
+
+      return updated;
     });
 
     this.logger.log(`Episode updated: ${id}`);
 
-    // Get program data for event
+    return episode;
+  }
+
+  /**
+   * Get the revision history of an episode (newest first)
+   */
+  async findRevisions(id: string, skip: number = 0, take: number = 20): Promise<ContentRevision[]> {
+    await this.findOne(id);
+    return await this.revisionService.findAll(id, skip, take);
+  }
+
+  /**
+   * Get a specific revision of an episode
+   */
+  async findRevision(id: string, revision: number): Promise<ContentRevision> {
+    await this.findOne(id);
+    return await this.revisionService.findOne(id, revision);
+  }
+
+  /**
+   * Restore episode fields from a revision
+   *
+   * Records a new RESTORE revision and emits content.updated. Status is not part of revisions.
+   */
+  async restoreRevision(id: string, revision: number, restoredBy?: string): Promise<Episode> {
+    this.logger.log(`Restoring episode ${id} to revision ${revision}`);
+
+    const episode = await this.findOne(id);
+    const source = await this.revisionService.findOne(id, revision);
+
+    const changes = this.revisionService.diff(this.toSnapshot(episode), source.snapshot);
+    if (Object.keys(changes).length === 0) {
+      this.logger.log(`Episode ${id} already matches revision ${revision}`);
+      return episode;
+    }
+
+    // The episode number may have been taken by another episode since
+    if (changes.episodeNumber) {
+      await this.assertEpisodeNumberAvailable(
+        episode.programId,
+        episode.seasonId,
+        source.snapshot.episodeNumber,
+        id,
+      );
+    }
+
     const program = await this.programRepository.findById(episode.programId);
 
-    // Emit content.updated event if there were changes
-    if (Object.keys(changes).length > 0) {
-      await this.kafkaService.emitContentUpdated({
+    // Restore fields, record revision and enqueue content.updated event atomically
+    const restoredEpisode = await this.prisma.$transaction(async (tx) => {
+      const restored = await this.episodeRepository
+        .update(
+          id,
+          {
+            title: source.snapshot.title,
+            description: source.snapshot.description ?? null,
+            episodeNumber: source.snapshot.episodeNumber,
+            duration: source.snapshot.duration ?? null,
+            metadataId: source.snapshot.metadataId ?? null,
+          },
+          tx,
+        )
+        .catch((error) => this.rethrowUniqueConflict(error));
+
+      await this.revisionService.record(tx, {
+        contentId: id,
+        contentType: 'EPISODE',
+        action: RevisionAction.RESTORE,
+        snapshot: this.toSnapshot(restored),
+        previous: this.toSnapshot(episode),
+        authorId: restoredBy,
+        restoredFrom: revision,
+      });
+
+      await this.outboxService.enqueueContentUpdated(tx, {
+        contentId: restored.id,
+        contentType: 'EPISODE',
+        title: restored.title,
+        status: restored.status,
+        deletedAt: restored.deletedAt,
+        updatedBy: restoredBy,
+        changes: {
+          ...changes,
+          restoredFromRevision: { old: null, new: revision },
+        },
+        program: program ? this.toEventProgram(program) : undefined,
+      });
+
+      return restored;
+    });
+
+    this.logger.log(`Episode ${id} restored to revision ${revision}`);
+    return restoredEpisode;
+  }
+
+  /**
+   * Delete episode (move it to the trash)
+   *
+   * The episode stays restorable until TrashPurger removes it after the retention period.
+   * Emits content.unpublished so it drops out of discovery and search; content.deleted
+   * follows when it is purged.
+   * When expectedVersion is given (from If-Match) the delete fails with 412 on a stale version.
+   */
+  async delete(id: string, deletedBy?: string, expectedVersion?: number): Promise<void> {
+    this.logger.log(`Deleting episode: ${id}`);
+
+    // Check if episode exists
+    const episode = await this.findOne(id);
+
+    // Move episode to the trash and enqueue content.unpublished event atomically
+    await this.prisma.$transaction(async (tx) => {
+      const deletedAt = new Date();
+      await this.episodeRepository
+        .softDelete(id, deletedAt, tx, expectedVersion)
+        .catch((error) => this.rethrowVersionConflict(error, id, expectedVersion));
+
+      await this.outboxService.enqueueContentUnpublished(tx, {
         contentId: episode.id,
         contentType: 'EPISODE',
         title: episode.title,
-        changes,
-        program: program ? {
-          id: program.id,
-          title: program.title,
-          description: program.description,
-          status: program.status,
-          metadataId: program.metadataId,
-          createdAt: program.createdAt.toISOString(),
-          updatedAt: program.updatedAt.toISOString(),
-          publishedAt: program.publishedAt?.toISOString(),
-        } : undefined,
+        programId: episode.programId,
+        unpublishedBy: deletedBy,
+        unpublishedAt: deletedAt,
       });
+    });
+
+    this.logger.log(`Episode moved to trash: ${id}`);
+  }
+
+  /**
+   * Take an episode out of the trash
+   *
+   * Episodes deleted along with their program can only come back with it, and only while no
+   * other episode has taken their number or external ID.
+   * Emits content.updated with the deletedAt change.
+   */
+  async restoreDeleted(id: string, restoredBy?: string): Promise<Episode> {
+    this.logger.log(`Restoring episode from trash: ${id}`);
+
+    const episode = await this.episodeRepository.findDeletedById(id);
+    throwIfNotFound(episode, 'Episode', id);
+
+    const program = await this.programRepository.findById(episode.programId);
+    if (!program) {
+      throw new ConflictException(
+        `Program ${episode.programId} is in the trash; restore the program instead`,
+      );
     }
 
-    return episode;
+    await this.assertEpisodeNumberAvailable(
+      episode.programId,
+      episode.seasonId,
+      episode.episodeNumber,
+      id,
+    );
+    if (
+      episode.externalId &&
+      (await this.episodeRepository.findByExternalId(episode.programId, episode.externalId))
+    ) {
+      throw new ConflictException(
+        `Episode with external ID ${episode.externalId} already exists in this program`,
+      );
+    }
+
+    const restoredEpisode = await this.prisma.$transaction(async (tx) => {
+      const restored = await this.episodeRepository
+        .restoreDeleted(id, tx)
+        .catch((error) => this.rethrowUniqueConflict(error));
+
+      await this.outboxService.enqueueContentUpdated(tx, {
+        contentId: restored.id,
+        contentType: 'EPISODE',
+        title: restored.title,
+        status: restored.status,
+        deletedAt: restored.deletedAt,
+        updatedBy: restoredBy,
+        changes: {
+          deletedAt: { old: episode.deletedAt!.toISOString(), new: null },
+        },
+        program: this.toEventProgram(program),
+      });
+
+      return restored;
+    });
+
+    this.logger.log(`Episode restored from trash: ${id}`);
+    return restoredEpisode;
   }
 
   /**
-   * Delete episode
+   * Permanently delete an episode from the trash (called by TrashPurger)
+   *
+   * @returns false if the episode is no longer in the trash or was deleted after the cutoff
    */
-  async delete(id: string): Promise<void> {
-    this.logger.log(`Deleting episode: ${id}`);
+  async purge(id: string, before: Date, now: Date = new Date()): Promise<boolean> {
+    const episode = await this.episodeRepository.findDeletedById(id);
+    if (!episode || episode.deletedAt! > before) {
+      return false;
+    }
 
-    // Check if episode exists
+    await this.prisma.$transaction(async (tx) => {
+      await this.episodeRepository.delete(id, tx);
+
+      await this.outboxService.enqueueContentDeleted(tx, {
+        contentId: episode.id,
+        contentType: 'EPISODE',
+        title: episode.title,
+        programId: episode.programId,
+        deletedAt: now,
+      });
+    });
+
+    this.logger.log(`Episode purged from trash: ${id}`);
+    return true;
+  }
+
+  /**
+   * Apply an editorial workflow action (submit, approve, reject, withdraw, publish)
+   *
+   * Emits content.updated with the status and the recorded transition in the changes map.
+   */
+  async transition(
+    id: string,
+    action: WorkflowAction,
+    actor: WorkflowActor,
+    comment?: string,
+  ): Promise<Episode> {
+    if (action === WorkflowAction.PUBLISH) {
+      return await this.publish(id, actor);
+    }
+
+    this.logger.log(`Applying ${action} to episode: ${id}`);
+
+    const episode = await this.findOne(id);
+    const status = this.workflowService.resolve(action, episode.status, actor, comment);
+    const program = await this.programRepository.findById(episode.programId);
+
+    // Update status, record transition and enqueue content.updated event atomically
+    const transitionedEpisode = await this.prisma.$transaction(async (tx) => {
+      const updated = await this.episodeRepository.update(id, { status }, tx);
+
+      const transition = await this.recordTransition(tx, {
+        episodeId: id,
+        action,
+        fromStatus: episode.status,
+        toStatus: status,
+        actorId: actor.id,
+        actorRole: actor.role,
+        comment,
+      });
+
+      await this.outboxService.enqueueContentUpdated(tx, {
+        contentId: updated.id,
+        contentType: 'EPISODE',
+        title: updated.title,
+        status: updated.status,
+        deletedAt: updated.deletedAt,
+        updatedBy: actor.id,
+        changes: {
+          status: { old: episode.status, new: status },
+          transition: transition.toChange(),
+        },
+        program: program ? this.toEventProgram(program) : undefined,
+      });
+
+      return updated;
+    });
+
+    this.logger.log(`Episode ${id} moved from ${episode.status} to ${status}`);
+    return transitionedEpisode;
+  }
+
+  /**
+   * Get the workflow transition history of an episode
+   */
+  async findTransitions(
+    id: string,
+    skip: number = 0,
+    take: number = 50,
+  ): Promise<ContentTransition[]> {
     await this.findOne(id);
+    return await this.workflowService.findHistory(id, skip, take);
+  }
+
+  /**
+   * Publish episode (APPROVED/SCHEDULED -> PUBLISHED, or DRAFT when review is not required)
+   */
+  async publish(id: string, actor?: WorkflowActor): Promise<Episode> {
+    this.logger.log(`Publishing episode: ${id}`);
+
+    const episode = await this.findOne(id);
+
+    // Validate current status
+    if (episode.status === ContentStatus.PUBLISHED) {
+      throw new ConflictException(`Episode ${id} is already published`);
+    }
+
+    this.workflowService.resolve(WorkflowAction.PUBLISH, episode.status, actor);
+
+    // Publish episode and enqueue content.published event atomically
+    const publishedEpisode = await this.prisma.$transaction(async (tx) => {
+      const published = await this.episodeRepository.update(
+        id,
+        {
+          status: ContentStatus.PUBLISHED,
+          // Publishing now supersedes a pending publish schedule
+          ...(episode.publishAt && { publishAt: null }),
+        },
+        tx,
+      );
+
+      await this.recordTransition(tx, {
+        episodeId: id,
+        action: WorkflowAction.PUBLISH,
+        fromStatus: episode.status,
+        toStatus: published.status,
+        actorId: actor?.id,
+        actorRole: actor?.role,
+      });
+
+      await this.outboxService.enqueueContentPublished(tx, {
+        contentId: published.id,
+        contentType: 'EPISODE',
+        title: published.title,
+        programId: published.programId,
+        publishedAt: published.updatedAt,
+      });
+
+      return published;
+    });
+
+    this.logger.log(`Episode published: ${id}`);
+    return publishedEpisode;
+  }
+
+  /**
+   * Schedule episode publishing and/or unpublishing
+   *
+   * Setting publishAt moves an APPROVED episode (or DRAFT when review is not required) to
+   * SCHEDULED; setting only unpublishAt puts an embargo end on a SCHEDULED or PUBLISHED
+   * episode. Omitted fields keep their current value.
+   */
+  async schedule(
+    id: string,
+    data: { publishAt?: Date; unpublishAt?: Date },
+    scheduledBy?: string,
+  ): Promise<Episode> {
+    this.logger.log(`Scheduling episode: ${id}`);
+
+    const episode = await this.findOne(id);
+
+    if (!data.publishAt && !data.unpublishAt) {
+      throw new BadRequestException('Either publishAt or unpublishAt is required');
+    }
+
+    if (data.publishAt) {
+      if (
+        !this.workflowService.canPublish(episode.status) &&
+        episode.status !== ContentStatus.SCHEDULED
+      ) {
+        throw new BadRequestException(
+          `Cannot schedule publishing of episode with status: ${episode.status}`,
+        );
+      }
+    } else if (
+      episode.status !== ContentStatus.SCHEDULED &&
+      episode.status !== ContentStatus.PUBLISHED
+    ) {
+      throw new BadRequestException(
+        `Cannot schedule unpublishing of episode with status: ${episode.status}`,
+      );
+    }
+
+    const publishAt = data.publishAt ?? episode.publishAt;
+    const unpublishAt = data.unpublishAt ?? episode.unpublishAt;
+    this.validateSchedule(data, { publishAt, unpublishAt });
+
+    const status = data.publishAt ? ContentStatus.SCHEDULED : episode.status;
+    const changes = this.getScheduleChanges(episode, { status, publishAt, unpublishAt });
+
+    // Save schedule and enqueue content.updated event atomically
+    const scheduledEpisode = await this.prisma.$transaction(async (tx) => {
+      const scheduled = await this.episodeRepository.update(
+        id,
+        {
+          status,
+          publishAt: publishAt ?? null,
+          unpublishAt: unpublishAt ?? null,
+        },
+        tx,
+      );
+
+      if (changes.status) {
+        const transition = await this.recordTransition(tx, {
+          episodeId: id,
+          action: WorkflowAction.SCHEDULE,
+          fromStatus: episode.status,
+          toStatus: status,
+          actorId: scheduledBy,
+        });
+        changes.transition = transition.toChange();
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await this.outboxService.enqueueContentUpdated(tx, {
+          contentId: scheduled.id,
+          contentType: 'EPISODE',
+          title: scheduled.title,
+          status: scheduled.status,
+          deletedAt: scheduled.deletedAt,
+          updatedBy: scheduledBy,
+          changes,
+        });
+      }
+
+      return scheduled;
+    });
+
+    this.logger.log(`Episode scheduled: ${id}`);
+    return scheduledEpisode;
+  }
+
+  /**
+   * Cancel upcoming schedule
+   *
+   * A SCHEDULED episode goes back to APPROVED (DRAFT when review is not required); a
+   * PUBLISHED episode loses its unpublish time.
+   */
+  async cancelSchedule(id: string, cancelledBy?: string): Promise<Episode> {
+    this.logger.log(`Cancelling schedule for episode: ${id}`);
+
+    const episode = await this.findOne(id);
+
+    if (!episode.publishAt && !episode.unpublishAt) {
+      throw new BadRequestException(`Episode ${id} has no upcoming schedule`);
+    }
+
+    const status =
+      episode.status === ContentStatus.SCHEDULED ? this.getUnscheduledStatus() : episode.status;
+    const changes = this.getScheduleChanges(episode, { status });
+
+    // Clear schedule and enqueue content.updated event atomically
+    const cancelledEpisode = await this.prisma.$transaction(async (tx) => {
+      const cancelled = await this.episodeRepository.update(
+        id,
+        {
+          status,
+          publishAt: null,
+          unpublishAt: null,
+        },
+        tx,
+      );
+
+      if (changes.status) {
+        const transition = await this.recordTransition(tx, {
+          episodeId: id,
+          action: WorkflowAction.CANCEL_SCHEDULE,
+          fromStatus: episode.status,
+          toStatus: status,
+          actorId: cancelledBy,
+        });
+        changes.transition = transition.toChange();
+      }
+
+      await this.outboxService.enqueueContentUpdated(tx, {
+        contentId: cancelled.id,
+        contentType: 'EPISODE',
+        title: cancelled.title,
+        status: cancelled.status,
+        deletedAt: cancelled.deletedAt,
+        updatedBy: cancelledBy,
+        changes,
+      });
+
+      return cancelled;
+    });
+
+    this.logger.log(`Episode schedule cancelled: ${id}`);
+    return cancelledEpisode;
+  }
+
+  /**
+   * Publish episode whose publishAt has passed (called by ContentScheduler)
+   *
+   * @returns false if the episode is no longer due (schedule cancelled or changed meanwhile)
+   */
+  async publishScheduled(id: string, now: Date = new Date()): Promise<boolean> {
+    const episode = await this.episodeRepository.findById(id);
+    if (
+      !episode ||
+      episode.status !== ContentStatus.SCHEDULED ||
+      !episode.publishAt ||
+      episode.publishAt > now
+    ) {
+      return false;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const published = await this.episodeRepository.update(
+        id,
+        {
+          status: ContentStatus.PUBLISHED,
+          publishAt: null,
+        },
+        tx,
+      );
+
+      await this.recordTransition(tx, {
+        episodeId: id,
+        action: WorkflowAction.PUBLISH,
+        fromStatus: ContentStatus.SCHEDULED,
+        toStatus: ContentStatus.PUBLISHED,
+      });
+
+      await this.outboxService.enqueueContentPublished(tx, {
+        contentId: published.id,
+        contentType: 'EPISODE',
+        title: published.title,
+        programId: published.programId,
+        publishedAt: now,
+      });
+    });
+
+    this.logger.log(`Scheduled episode published: ${id}`);
+    return true;
+  }
 
-    // Delete episode
-    await this.episodeRepository.delete(id);
+  /**
+   * Unpublish episode whose unpublishAt has passed (called by ContentScheduler)
+   *
+   * @returns false if the episode is no longer due (schedule cancelled or changed meanwhile)
+   */
+  async unpublishScheduled(id: string, now: Date = new Date()): Promise<boolean> {
+    const episode = await this.episodeRepository.findById(id);
+    if (
+      !episode ||
+      episode.status !== ContentStatus.PUBLISHED ||
+      !episode.unpublishAt ||
+      episode.unpublishAt > now
+    ) {
+      return false;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const unpublished = await this.episodeRepository.update(
+        id,
+        {
+          status: ContentStatus.DRAFT,
+          unpublishAt: null,
+        },
+        tx,
+      );
 
-    this.logger.log(`Episode deleted: ${id}`);
+      await this.recordTransition(tx, {
+        episodeId: id,
+        action: WorkflowAction.UNPUBLISH,
+        fromStatus: ContentStatus.PUBLISHED,
+        toStatus: ContentStatus.DRAFT,
+      });
+
+      await this.outboxService.enqueueContentUnpublished(tx, {
+        contentId: unpublished.id,
+        contentType: 'EPISODE',
+        title: unpublished.title,
+        programId: unpublished.programId,
+        unpublishedAt: now,
+      });
+    });
+
+    this.logger.log(`Scheduled episode unpublished: ${id}`);
+    return true;
+  }
+
+  /**
+   * Validate schedule times: new times in the future, unpublishAt after publishAt
+   */
+  private validateSchedule(
+    data: { publishAt?: Date; unpublishAt?: Date },
+    schedule: { publishAt?: Date; unpublishAt?: Date },
+  ): void {
+    if (data.publishAt && !isFuture(data.publishAt)) {
+      throw new BadRequestException('publishAt must be in the future');
+    }
+
+    if (data.unpublishAt && !isFuture(data.unpublishAt)) {
+      throw new BadRequestException('unpublishAt must be in the future');
+    }
+
+    if (schedule.publishAt && schedule.unpublishAt && schedule.unpublishAt <= schedule.publishAt) {
+      throw new BadRequestException('unpublishAt must be after publishAt');
+    }
+  }
+
+  /**
+   * Track schedule changes for content.updated events
+   */
+  private getScheduleChanges(
+    episode: Episode,
+    next: { status: ContentStatus; publishAt?: Date; unpublishAt?: Date },
+  ): Record<string, { old: any; new: any }> {
+    const changes: Record<string, { old: any; new: any }> = {};
+    if (next.status !== episode.status) {
+      changes.status = { old: episode.status, new: next.status };
+    }
+    if (next.publishAt?.getTime() !== episode.publishAt?.getTime()) {
+      changes.publishAt = {
+        old: episode.publishAt?.toISOString(),
+        new: next.publishAt?.toISOString(),
+      };
+    }
+    if (next.unpublishAt?.getTime() !== episode.unpublishAt?.getTime()) {
+      changes.unpublishAt = {
+        old: episode.unpublishAt?.toISOString(),
+        new: next.unpublishAt?.toISOString(),
+      };
+    }
+    return changes;
+  }
+
+  /**
+   * Record an episode transition within the caller's transaction
+   */
+  private async recordTransition(
+    tx: Prisma.TransactionClient,
+    data: {
+      episodeId: string;
+      action: WorkflowAction;
+      fromStatus: ContentStatus;
+      toStatus: ContentStatus;
+      actorId?: string;
+      actorRole?: string;
+      comment?: string;
+    },
+  ): Promise<ContentTransition> {
+    const { episodeId, ...transition } = data;
+    return await this.workflowService.record(tx, {
+      contentId: episodeId,
+      contentType: 'EPISODE',
+      ...transition,
+    });
+  }
+
+  /**
+   * Map a version-guarded write that matched no row (Prisma P2025) to 412 Precondition Failed
+   */
+  private rethrowVersionConflict(error: any, id: string, expectedVersion?: number): never {
+    if (expectedVersion !== undefined && error?.code === 'P2025') {
+      throw new PreconditionFailedException(
+        `Episode ${id} has been modified since version ${expectedVersion}`,
+      );
+    }
+    throw error;
+  }
+
+  /**
+   * Map a write that hit a unique key (Prisma P2002) to 409 Conflict
+   *
+   * Covers a concurrent request taking the episode number or external ID after it was checked.
+   */
+  private rethrowUniqueConflict(error: any): never {
+    if (error?.code === 'P2002') {
+      throw new ConflictException(
+        'Another episode already uses this episode number or external ID',
+      );
+    }
+    throw error;
+  }
+
+  /**
+   * Status an episode returns to when its publish schedule is cancelled
+   */
+  private getUnscheduledStatus(): ContentStatus {
+    return this.workflowService.isReviewRequired() ? ContentStatus.APPROVED : ContentStatus.DRAFT;
+  }
+
+  /**
+   * Editable episode fields kept in revisions
+   */
+  private toSnapshot(episode: Episode): RevisionSnapshot {
+    return {
+      title: episode.title,
+      description: episode.description ?? null,
+      episodeNumber: episode.episodeNumber,
+      duration: episode.duration ?? null,
+      metadataId: episode.metadataId ?? null,
+    };
+  }
+
+  /**
+   * Find a season and check it belongs to the program
+   */
+  private async findSeason(programId: string, seasonId: string): Promise<Season> {
+    const season = await this.seasonRepository.findById(seasonId);
+    if (!season) {
+      throw new NotFoundException(`Season with ID ${seasonId} not found`);
+    }
+    if (season.programId !== programId) {
+      throw new BadRequestException(`Season ${seasonId} does not belong to program ${programId}`);
+    }
+    return season;
+  }
+
+  /**
+   * Ensure no other episode in the same season (or, without a season, among the
+   * program's season-less episodes) uses the number
+   */
+  private async assertEpisodeNumberAvailable(
+    programId: string,
+    seasonId: string | undefined,
+    episodeNumber: number,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.episodeRepository.findByEpisodeNumber(
+      programId,
+      seasonId,
+      episodeNumber,
+      excludeId,
+    );
+
+    if (existing) {
+      throw new ConflictException(
+        seasonId
+          ? `Episode number ${episodeNumber} already exists in season ${seasonId}`
+          : `Episode number ${episodeNumber} already exists for program ${programId}`,
+      );
+    }
+  }
+
+  /**
+   * Build parent program data for event payloads
+   */
+  private toEventProgram(program: Program) {
+    return {
+      id: program.id,
+      title: program.title,
+      description: program.description,
+      status: program.status,
+      metadataId: program.metadataId,
+      createdAt: program.createdAt.toISOString(),
+      updatedAt: program.updatedAt.toISOString(),
+      publishedAt: program.publishedAt?.toISOString(),
+    };
   }
 
   /**
@@ -274,11 +1132,17 @@ export class EpisodeService {
       return;
     }
 
-    // Valid transitions: DRAFT <-> PUBLISHED
-    const validTransitions = [
-      { from: ContentStatus.DRAFT, to: ContentStatus.PUBLISHED },
-      { from: ContentStatus.PUBLISHED, to: ContentStatus.DRAFT },
-    ];
+    // Valid transitions:
+    // DRAFT -> IN_REVIEW -> APPROVED/REJECTED (via transition method only)
+    // APPROVED -> PUBLISHED (via transition method)
+    // APPROVED <-> SCHEDULED (via schedule/cancelSchedule methods only)
+    // PUBLISHED -> DRAFT
+
+    // Direct status updates only allow unpublishing, and publishing drafts when review is off
+    const validTransitions = [{ from: ContentStatus.PUBLISHED, to: ContentStatus.DRAFT }];
+    if (!this.workflowService.isReviewRequired()) {
+      validTransitions.push({ from: ContentStatus.DRAFT, to: ContentStatus.PUBLISHED });
+    }
 
     const isValid = validTransitions.some(
       (transition) => transition.from === currentStatus && transition.to === newStatus,
@@ -286,7 +1150,7 @@ export class EpisodeService {
 
     if (!isValid) {
       throw new BadRequestException(
-        `Invalid status transition from ${currentStatus} to ${newStatus}`,
+        `Invalid status transition from ${currentStatus} to ${newStatus}. Use transition(), schedule() or cancelSchedule() methods.`,
       );
     }
   }
@@ -4,6 +4,7 @@ import { ValidationPipe } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 import { SERVER_CONFIG } from './config/env.constants';
+import { registerCatalogContentTypeParsers } from './catalog/utils/catalog-format.util';
 
 async function bootstrap() {
   const app = await NestFactory.create<NestFastifyApplication>(
@@ -11,6 +12,9 @@ async function bootstrap() {
     new FastifyAdapter(),
   );
 
+  // NDJSON/CSV bodies for catalog imports
+  registerCatalogContentTypeParsers(app);
+
   // Global validation pipe
   app.useGlobalPipes(
     new ValidationPipe({
@@ -40,7 +44,13 @@ async function bootstrap() {
       'JWT-auth', // This name is important for @ApiBearerAuth()
     )
     .addTag('Programs', 'Program management endpoints')
+    .addTag('Seasons', 'Season management endpoints')
     .addTag('Episodes', 'Episode management endpoints')
+    .addTag('Movies', 'Movie management endpoints')
+    .addTag('Outbox', 'Content event outbox monitoring (admin)')
+    .addTag('Schedules', 'Scheduled publishing')
+    .addTag('Catalog', 'Bulk catalog import/export (admin)')
+    .addTag('Trash', 'Deleted content and restore (admin)')
     .build();
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('api/docs', app, document, {
@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { OutboxService } from '../services/outbox.service';
+import { OutboxEvent, OutboxStatus } from '../entities/outbox-event.entity';
+import { OutboxEventDto, OutboxStatsDto } from '../dto/outbox.dto';
+import { JwtAuthGuard, RolesGuard, Roles } from '@mediamesh/shared';
+import { UserRole } from '@mediamesh/shared';
+
+/**
+ * Outbox Controller
+ *
+ * Admin endpoints for monitoring the content event outbox:
+ * - GET /outbox - List unpublished (pending/failed) events
+ * - GET /outbox/stats - Event counts per status
+ * - POST /outbox/:id/retry - Requeue a failed event
+ */
+@ApiTags('Outbox')
+@Controller('outbox')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class OutboxController {
+  private readonly logger = new Logger(OutboxController.name);
+
+  constructor(private readonly outboxService: OutboxService) {}
+
+  /**
+   * List unpublished events
+   * GET /outbox
+   */
+  @Get()
+  @ApiOperation({ summary: 'List unpublished outbox events' })
+  @ApiQuery({ name: 'status', required: false, enum: [OutboxStatus.PENDING, OutboxStatus.FAILED] })
+  @ApiQuery({
+    name: 'stuck',
+    required: false,
+    type: Boolean,
+    description: 'Only events older than the stuck threshold',
+  })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    type: Number,
+    description: 'Number of records to skip',
+  })
+  @ApiQuery({
+    name: 'take',
+    required: false,
+    type: Number,
+    description: 'Number of records to take',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of unpublished outbox events',
+    type: [OutboxEventDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid status filter',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async findUnpublished(
+    @Query('status') status?: OutboxStatus,
+    @Query('stuck') stuck?: string,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<OutboxEventDto[]> {
+    const skipNum = skip ? parseInt(skip, 10) : 0;
+    const takeNum = take ? parseInt(take, 10) : 20;
+
+    const events = await this.outboxService.findUnpublished(
+      { status, stuckOnly: stuck === 'true' },
+      skipNum,
+      takeNum,
+    );
+    return events.map((event) => this.toDto(event));
+  }
+
+  /**
+   * Get outbox statistics
+   * GET /outbox/stats
+   */
+  @Get('stats')
+  @ApiOperation({ summary: 'Get outbox event counts per status' })
+  @ApiResponse({
+    status: 200,
+    description: 'Outbox statistics',
+    type: OutboxStatsDto,
+  })
+  async getStats(): Promise<OutboxStatsDto> {
+    return await this.outboxService.getStats();
+  }
+
+  /**
+   * Retry failed event
+   * POST /outbox/:id/retry
+   */
+  @Post(':id/retry')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Requeue a failed outbox event' })
+  @ApiParam({ name: 'id', type: String, description: 'Outbox event ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Event requeued',
+    type: OutboxEventDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Event is not in FAILED status',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Outbox event not found',
+  })
+  async retry(@Param('id') id: string): Promise<OutboxEventDto> {
+    this.logger.log(`Retrying outbox event: ${id}`);
+    const event = await this.outboxService.retry(id);
+    return this.toDto(event);
+  }
+
+  /**
+   * Convert OutboxEvent entity to DTO
+   */
+  private toDto(event: OutboxEvent): OutboxEventDto {
+    return {
+      id: event.id,
+      aggregateId: event.aggregateId,
+      aggregateType: event.aggregateType,
+      topic: event.topic,
+      status: event.status,
+      attempts: event.attempts,
+      lastError: event.lastError,
+      nextAttemptAt: event.nextAttemptAt.toISOString(),
+      createdAt: event.createdAt.toISOString(),
+      publishedAt: event.publishedAt?.toISOString(),
+      payload: event.payload,
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OutboxStatus } from '../entities/outbox-event.entity';
+
+/**
+ * Outbox Event DTO
+ */
+export class OutboxEventDto {
+  @ApiProperty({ description: 'Outbox event ID', example: '550e8400-e29b-41d4-a716-446655440001' })
+  id: string;
+
+  @ApiProperty({ description: 'Content ID the event belongs to' })
+  aggregateId: string;
+
+  @ApiProperty({ description: 'Content type', example: 'PROGRAM' })
+  aggregateType: string;
+
+  @ApiProperty({ description: 'Kafka topic', example: 'content.created' })
+  topic: string;
+
+  @ApiProperty({ description: 'Relay status', enum: OutboxStatus })
+  status: OutboxStatus;
+
+  @ApiProperty({ description: 'Number of failed publish attempts', example: 0 })
+  attempts: number;
+
+  @ApiPropertyOptional({ description: 'Last publish error' })
+  lastError?: string;
+
+  @ApiProperty({ description: 'Next publish attempt' })
+  nextAttemptAt: string;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: string;
+
+  @ApiPropertyOptional({ description: 'Publish timestamp' })
+  publishedAt?: string;
+
+  @ApiProperty({ description: 'Event envelope (metadata + payload)' })
+  payload: Record<string, any>;
+}
+
+/**
+ * Outbox Stats DTO
+ */
+export class OutboxStatsDto {
+  @ApiProperty({ description: 'Events waiting to be published', example: 0 })
+  PENDING: number;
+
+  @ApiProperty({ description: 'Events published to Kafka', example: 1200 })
+  PUBLISHED: number;
+
+  @ApiProperty({ description: 'Events that exhausted their retries', example: 0 })
+  FAILED: number;
+}
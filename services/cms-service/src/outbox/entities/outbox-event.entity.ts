@@ -0,0 +1,74 @@
+/**
+ * Outbox Event Status Enum
+ */
+export enum OutboxStatus {
+  PENDING = 'PENDING',
+  PUBLISHED = 'PUBLISHED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Outbox Event Entity
+ *
+ * Represents a content event written in the same transaction as the
+ * Program/Episode change and later relayed to Kafka.
+ */
+export class OutboxEvent {
+  id: string;
+  aggregateId: string; // contentId
+  aggregateType: string; // PROGRAM, EPISODE
+  topic: string;
+  payload: Record<string, any>;
+  headers?: Record<string, string>;
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt: Date;
+  createdAt: Date;
+  publishedAt?: Date;
+
+  constructor(partial: Partial<OutboxEvent>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create OutboxEvent entity from Prisma model
+   */
+  static fromPrisma(prismaEvent: {
+    id: string;
+    aggregateId: string;
+    aggregateType: string;
+    topic: string;
+    payload: any;
+    headers: any;
+    status: string;
+    attempts: number;
+    lastError: string | null;
+    nextAttemptAt: Date;
+    createdAt: Date;
+    publishedAt: Date | null;
+  }): OutboxEvent {
+    return new OutboxEvent({
+      id: prismaEvent.id,
+      aggregateId: prismaEvent.aggregateId,
+      aggregateType: prismaEvent.aggregateType,
+      topic: prismaEvent.topic,
+      payload: prismaEvent.payload,
+      headers: prismaEvent.headers || undefined,
+      status: prismaEvent.status as OutboxStatus,
+      attempts: prismaEvent.attempts,
+      lastError: prismaEvent.lastError || undefined,
+      nextAttemptAt: prismaEvent.nextAttemptAt,
+      createdAt: prismaEvent.createdAt,
+      publishedAt: prismaEvent.publishedAt || undefined,
+    });
+  }
+
+  /**
+   * Convert to DTO
+   */
+  toDto() {
+    const { ...dto } = this;
+    return dto;
+  }
+}
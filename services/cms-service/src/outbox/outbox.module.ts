@@ -0,0 +1,29 @@
+import { Module, Global } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { OutboxRepository } from './repositories/outbox.repository';
+import { OutboxService } from './services/outbox.service';
+import { OutboxRelay } from './services/outbox.relay';
+import { OutboxController } from './controllers/outbox.controller';
+import { JWT_CONFIG } from '../config/env.constants';
+
+/**
+ * Outbox Module
+ *
+ * Transactional outbox for content events: services enqueue events in the
+ * same transaction as their writes and OutboxRelay publishes them to Kafka.
+ */
+@Global()
+@Module({
+  imports: [
+    JwtModule.register({
+      secret: JWT_CONFIG.SECRET,
+      signOptions: {
+        expiresIn: JWT_CONFIG.EXPIRATION_STRING,
+      },
+    }),
+  ],
+  controllers: [OutboxController],
+  providers: [OutboxRepository, OutboxService, OutboxRelay],
+  exports: [OutboxService],
+})
+export class OutboxModule {}
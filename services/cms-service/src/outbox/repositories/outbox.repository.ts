@@ -0,0 +1,191 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxEvent, OutboxStatus } from '../entities/outbox-event.entity';
+
+/**
+ * Outbox Repository
+ *
+ * Data access layer for OutboxEvent entities.
+ */
+@Injectable()
+export class OutboxRepository {
+  private readonly logger = new Logger(OutboxRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a new outbox event
+   *
+   * Pass the transaction client so the row commits together with the content change.
+   */
+  async create(
+    data: {
+      aggregateId: string;
+      aggregateType: string;
+      topic: string;
+      payload: Record<string, any>;
+      headers?: Record<string, string>;
+    },
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<OutboxEvent> {
+    const prismaEvent = await tx.outboxEvent.create({
+      data: {
+        aggregateId: data.aggregateId,
+        aggregateType: data.aggregateType,
+        topic: data.topic,
+        payload: data.payload,
+        headers: data.headers,
+        status: OutboxStatus.PENDING,
+      },
+    });
+
+    return OutboxEvent.fromPrisma(prismaEvent);
+  }
+
+  /**
+   * Find outbox event by ID
+   */
+  async findById(id: string): Promise<OutboxEvent | null> {
+    const prismaEvent = await this.prisma.outboxEvent.findUnique({
+      where: { id },
+    });
+
+    return prismaEvent ? OutboxEvent.fromPrisma(prismaEvent) : null;
+  }
+
+  /**
+   * Find pending events that are due, in creation order (oldest first)
+   *
+   * Content with an event waiting for backoff or FAILED is left out entirely, so its
+   * held-back events neither fill the batch nor overtake the waiting one.
+   */
+  async findPending(take: number = 100): Promise<OutboxEvent[]> {
+    const now = new Date();
+    const held = await this.prisma.outboxEvent.findMany({
+      where: {
+        OR: [
+          { status: OutboxStatus.FAILED },
+          { status: OutboxStatus.PENDING, nextAttemptAt: { gt: now } },
+        ],
+      },
+      select: { aggregateId: true },
+      distinct: ['aggregateId'],
+    });
+
+    const prismaEvents = await this.prisma.outboxEvent.findMany({
+      where: {
+        status: OutboxStatus.PENDING,
+        nextAttemptAt: { lte: now },
+        aggregateId: { notIn: held.map((row: { aggregateId: string }) => row.aggregateId) },
+      },
+      take,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return prismaEvents.map(OutboxEvent.fromPrisma);
+  }
+
+  /**
+   * Find which of the given aggregates have a FAILED event blocking them
+   */
+  async findFailedAggregateIds(aggregateIds: string[]): Promise<string[]> {
+    if (aggregateIds.length === 0) {
+      return [];
+    }
+
+    const rows = await this.prisma.outboxEvent.findMany({
+      where: {
+        status: OutboxStatus.FAILED,
+        aggregateId: { in: aggregateIds },
+      },
+      select: { aggregateId: true },
+      distinct: ['aggregateId'],
+    });
+
+    return rows.map((row: { aggregateId: string }) => row.aggregateId);
+  }
+
+  /**
+   * Find unpublished events (PENDING or FAILED) with pagination
+   */
+  async findUnpublished(
+    options: { status?: OutboxStatus; createdBefore?: Date },
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<OutboxEvent[]> {
+    const prismaEvents = await this.prisma.outboxEvent.findMany({
+      where: {
+        status: options.status ?? { in: [OutboxStatus.PENDING, OutboxStatus.FAILED] },
+        ...(options.createdBefore && { createdAt: { lt: options.createdBefore } }),
+      },
+      skip,
+      take,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return prismaEvents.map(OutboxEvent.fromPrisma);
+  }
+
+  /**
+   * Mark event as published
+   */
+  async markPublished(id: string): Promise<void> {
+    await this.prisma.outboxEvent.update({
+      where: { id },
+      data: {
+        status: OutboxStatus.PUBLISHED,
+        publishedAt: new Date(),
+        lastError: null,
+      },
+    });
+  }
+
+  /**
+   * Record a failed publish attempt
+   */
+  async recordFailure(
+    id: string,
+    data: {
+      attempts: number;
+      lastError: string;
+      nextAttemptAt: Date;
+      status: OutboxStatus;
+    },
+  ): Promise<void> {
+    await this.prisma.outboxEvent.update({
+      where: { id },
+      data: {
+        attempts: data.attempts,
+        lastError: data.lastError,
+        nextAttemptAt: data.nextAttemptAt,
+        status: data.status,
+      },
+    });
+  }
+
+  /**
+   * Reset event to PENDING for immediate retry
+   */
+  async resetForRetry(id: string): Promise<OutboxEvent> {
+    const prismaEvent = await this.prisma.outboxEvent.update({
+      where: { id },
+      data: {
+        status: OutboxStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      },
+    });
+
+    return OutboxEvent.fromPrisma(prismaEvent);
+  }
+
+  /**
+   * Count events by status
+   */
+  async countByStatus(status: OutboxStatus): Promise<number> {
+    return await this.prisma.outboxEvent.count({
+      where: { status },
+    });
+  }
+}
@@ -0,0 +1,140 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { OutboxRelay } from './outbox.relay';
+import { OutboxRepository } from '../repositories/outbox.repository';
+import { KafkaService } from '../../kafka/kafka.service';
+import { OutboxEvent, OutboxStatus } from '../entities/outbox-event.entity';
+import { OUTBOX_CONFIG } from '../../config/env.constants';
+
+describe('OutboxRelay', () => {
+  let relay: OutboxRelay;
+  let repository: jest.Mocked<OutboxRepository>;
+  let kafkaService: jest.Mocked<KafkaService>;
+
+  const buildEvent = (overrides: Partial<OutboxEvent>): OutboxEvent =>
+    new OutboxEvent({
+      id: 'outbox-1',
+      aggregateId: 'program-1',
+      aggregateType: 'PROGRAM',
+      topic: 'content.created',
+      payload: { metadata: { eventId: 'evt-1' }, payload: { contentId: 'program-1' } },
+      headers: { 'content-id': 'program-1' },
+      status: OutboxStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: new Date('2024-01-01'),
+      createdAt: new Date('2024-01-01'),
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    const mockRepository = {
+      findPending: jest.fn(),
+      findFailedAggregateIds: jest.fn().mockResolvedValue([]),
+      markPublished: jest.fn(),
+      recordFailure: jest.fn(),
+    };
+
+    const mockKafkaService = {
+      publish: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboxRelay,
+        {
+          provide: OutboxRepository,
+          useValue: mockRepository,
+        },
+        {
+          provide: KafkaService,
+          useValue: mockKafkaService,
+        },
+      ],
+    }).compile();
+
+    relay = module.get<OutboxRelay>(OutboxRelay);
+    repository = module.get(OutboxRepository);
+    kafkaService = module.get(KafkaService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should publish pending events keyed by contentId and mark them published', async () => {
+    const event = buildEvent({});
+    repository.findPending.mockResolvedValue([event]);
+
+    const published = await relay.relayBatch();
+
+    expect(published).toBe(1);
+    expect(kafkaService.publish).toHaveBeenCalledWith({
+      topic: 'content.created',
+      key: 'program-1',
+      value: expect.any(Buffer),
+      headers: event.headers,
+    });
+    expect(repository.markPublished).toHaveBeenCalledWith('outbox-1');
+  });
+
+  it('should hold back later events for the same content after a failure', async () => {
+    const first = buildEvent({ id: 'outbox-1', topic: 'content.created' });
+    const second = buildEvent({ id: 'outbox-2', topic: 'content.updated' });
+    const other = buildEvent({ id: 'outbox-3', aggregateId: 'program-2' });
+    repository.findPending.mockResolvedValue([first, second, other]);
+    kafkaService.publish
+      .mockRejectedValueOnce(new Error('broker unavailable'))
+      .mockResolvedValue(undefined);
+
+    const published = await relay.relayBatch();
+
+    expect(published).toBe(1);
+    expect(kafkaService.publish).toHaveBeenCalledTimes(2);
+    expect(kafkaService.publish).toHaveBeenLastCalledWith(
+      expect.objectContaining({ key: 'program-2' }),
+    );
+    expect(repository.recordFailure).toHaveBeenCalledWith('outbox-1', {
+      attempts: 1,
+      lastError: 'broker unavailable',
+      nextAttemptAt: expect.any(Date),
+      status: OutboxStatus.PENDING,
+    });
+    expect(repository.markPublished).not.toHaveBeenCalledWith('outbox-2');
+  });
+
+  it('should skip events waiting for backoff and everything after them', async () => {
+    const waiting = buildEvent({ id: 'outbox-1', nextAttemptAt: new Date(Date.now() + 60000) });
+    const next = buildEvent({ id: 'outbox-2' });
+    repository.findPending.mockResolvedValue([waiting, next]);
+
+    const published = await relay.relayBatch();
+
+    expect(published).toBe(0);
+    expect(kafkaService.publish).not.toHaveBeenCalled();
+  });
+
+  it('should skip content that has a FAILED event', async () => {
+    repository.findPending.mockResolvedValue([buildEvent({})]);
+    repository.findFailedAggregateIds.mockResolvedValue(['program-1']);
+
+    const published = await relay.relayBatch();
+
+    expect(published).toBe(0);
+    expect(kafkaService.publish).not.toHaveBeenCalled();
+  });
+
+  it('should mark event FAILED after MAX_ATTEMPTS', async () => {
+    const event = buildEvent({ attempts: OUTBOX_CONFIG.MAX_ATTEMPTS - 1 });
+    repository.findPending.mockResolvedValue([event]);
+    kafkaService.publish.mockRejectedValue(new Error('broker unavailable'));
+
+    await relay.relayBatch();
+
+    expect(repository.recordFailure).toHaveBeenCalledWith(
+      'outbox-1',
+      expect.objectContaining({
+        attempts: OUTBOX_CONFIG.MAX_ATTEMPTS,
+        status: OutboxStatus.FAILED,
+      }),
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { serializeEventToBuffer } from '@mediamesh/shared';
+import { OutboxRepository } from '../repositories/outbox.repository';
+import { OutboxEvent, OutboxStatus } from '../entities/outbox-event.entity';
+import { KafkaService } from '../../kafka/kafka.service';
+import { OUTBOX_CONFIG } from '../../config/env.constants';
+
+/**
+ * Outbox Relay
+ *
+ * Scheduled worker that publishes pending outbox events to Kafka.
+ *
+ * Events are processed oldest first and keyed by contentId. Once an event for a
+ * content item fails (or is waiting for its backoff), later events for the same
+ * item are held back so consumers always see them in order. Delivery is
+ * at-least-once: a crash between send and markPublished re-sends the event.
+ */
+@Injectable()
+export class OutboxRelay {
+  private readonly logger = new Logger(OutboxRelay.name);
+  private running = false;
+
+  constructor(
+    private readonly outboxRepository: OutboxRepository,
+    private readonly kafkaService: KafkaService,
+  ) {}
+
+  /**
+   * Poll the outbox for pending events
+   */
+  @Interval(OUTBOX_CONFIG.POLL_INTERVAL_MS)
+  async relayPendingEvents(): Promise<void> {
+    // Skip if the previous run is still publishing
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.relayBatch();
+    } catch (error) {
+      this.logger.error('Error relaying outbox events:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Publish one batch of pending events
+   *
+   * @returns number of events published
+   */
+  async relayBatch(): Promise<number> {
+    const events = await this.outboxRepository.findPending(OUTBOX_CONFIG.BATCH_SIZE);
+    if (events.length === 0) {
+      return 0;
+    }
+
+    const aggregateIds = [...new Set(events.map((event) => event.aggregateId))];
+    const blocked = new Set(await this.outboxRepository.findFailedAggregateIds(aggregateIds));
+    const now = new Date();
+    let published = 0;
+
+    for (const event of events) {
+      if (blocked.has(event.aggregateId)) {
+        continue;
+      }
+
+      // Waiting for backoff: hold back later events for the same content
+      if (event.nextAttemptAt > now) {
+        blocked.add(event.aggregateId);
+        continue;
+      }
+
+      try {
+        await this.kafkaService.publish({
+          topic: event.topic,
+          key: event.aggregateId,
+          value: serializeEventToBuffer(event.payload as any),
+          headers: event.headers,
+        });
+        await this.outboxRepository.markPublished(event.id);
+        published++;
+      } catch (error: any) {
+        blocked.add(event.aggregateId);
+        await this.recordFailure(event, error);
+      }
+    }
+
+    if (published > 0) {
+      this.logger.log(`Relayed ${published} outbox event(s) to Kafka`);
+    }
+
+    return published;
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or mark FAILED after MAX_ATTEMPTS
+   */
+  private async recordFailure(event: OutboxEvent, error: any): Promise<void> {
+    const attempts = event.attempts + 1;
+    const exhausted = attempts >= OUTBOX_CONFIG.MAX_ATTEMPTS;
+    const delay = Math.min(
+      OUTBOX_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1),
+      OUTBOX_CONFIG.RETRY_MAX_DELAY_MS,
+    );
+
+    await this.outboxRepository.recordFailure(event.id, {
+      attempts,
+      lastError: error?.message || String(error),
+      nextAttemptAt: new Date(Date.now() + delay),
+      status: exhausted ? OutboxStatus.FAILED : OutboxStatus.PENDING,
+    });
+
+    if (exhausted) {
+      this.logger.error(
+        `Outbox event ${event.id} (${event.topic} for ${event.aggregateId}) failed after ${attempts} attempts`,
+      );
+    } else {
+      this.logger.warn(
+        `Failed to publish outbox event ${event.id} (${event.topic}), retrying in ${delay}ms`,
+      );
+    }
+  }
+}
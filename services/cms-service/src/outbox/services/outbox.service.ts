@@ -0,0 +1,372 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  BaseEvent,
+  ContentEventType,
+  ContentCreatedEvent,
+  ContentUpdatedEvent,
+  ContentPublishedEvent,
+  ContentUnpublishedEvent,
+  ContentDeletedEvent,
+  ContentArchivedEvent,
+  createEventMetadata,
+  throwIfNotFound,
+} from '@mediamesh/shared';
+import { OutboxRepository } from '../repositories/outbox.repository';
+import { OutboxEvent, OutboxStatus } from '../entities/outbox-event.entity';
+import { KAFKA_CONFIG, OUTBOX_CONFIG } from '../../config/env.constants';
+
+/**
+ * Outbox Service
+ *
+ * Builds content events and writes them to the outbox table inside the
+ * caller's transaction. OutboxRelay publishes them to Kafka afterwards:
+ * - content.created - when program/episode/season is created
+ * - content.updated - when program/episode/season is updated
+ * - content.published - when content is published (manually or by schedule)
+ * - content.unpublished - when content is unpublished (manually or by schedule)
+ * - content.deleted - when program/episode/season is deleted (one per cascaded episode)
+ * - content.archived - when content is archived
+ */
+@Injectable()
+export class OutboxService {
+  private readonly logger = new Logger(OutboxService.name);
+
+  constructor(private readonly outboxRepository: OutboxRepository) {}
+
+  /**
+   * Enqueue content.created event
+   */
+  async enqueueContentCreated(
+    tx: Prisma.TransactionClient,
+    data: {
+      contentId: string;
+      contentType: 'PROGRAM' | 'EPISODE' | 'SEASON' | 'MOVIE';
+      title: string;
+      description?: string;
+      programId?: string; // For episodes and seasons
+      episodeNumber?: number; // For episodes
+      status: string;
+      metadataId?: string;
+      createdAt: Date;
+      createdBy?: string;
+      program?: any; // Full program data for episodes
+      item?: any; // Full content item data for standalone content (movies)
+    },
+  ): Promise<OutboxEvent> {
+    const metadata = createEventMetadata(ContentEventType.CONTENT_CREATED, KAFKA_CONFIG.CLIENT_ID, {
+      userId: data.createdBy,
+    });
+
+    const event: ContentCreatedEvent = {
+      metadata: {
+        ...metadata,
+        eventType: ContentEventType.CONTENT_CREATED,
+      },
+      payload: {
+        contentId: data.contentId,
+        contentType: data.contentType,
+        title: data.title,
+        status: data.status,
+        createdBy: data.createdBy || 'system',
+        programId: data.programId,
+        program: data.program,
+        item: data.item,
+      },
+    };
+
+    return await this.enqueue(tx, ContentEventType.CONTENT_CREATED, data.contentType, event);
+  }
+
+  /**
+   * Enqueue content.updated event
+   */
+  async enqueueContentUpdated(
+    tx: Prisma.TransactionClient,
+    data: {
+      contentId: string;
+      contentType: 'PROGRAM' | 'EPISODE' | 'SEASON' | 'MOVIE';
+      title: string;
+      status: string;
+      deletedAt?: Date | null;
+      updatedBy?: string;
+      changes: Record<string, { old: any; new: any }>;
+      programId?: string; // For episodes and seasons
+      program?: any; // Full program data
+      item?: any; // Full content item data
+    },
+  ): Promise<OutboxEvent> {
+    const metadata = createEventMetadata(ContentEventType.CONTENT_UPDATED, KAFKA_CONFIG.CLIENT_ID, {
+      userId: data.updatedBy,
+    });
+
+    const event: ContentUpdatedEvent = {
+      metadata: {
+        ...metadata,
+        eventType: ContentEventType.CONTENT_UPDATED,
+      },
+      payload: {
+        contentId: data.contentId,
+        contentType: data.contentType,
+        title: data.title,
+        status: data.status,
+        deletedAt: data.deletedAt?.toISOString() ?? null,
+        updatedBy: data.updatedBy || 'system',
+        changes: data.changes,
+        programId: data.programId,
+        program: data.program,
+        item: data.item,
+      },
+    };
+
+    return await this.enqueue(tx, ContentEventType.CONTENT_UPDATED, data.contentType, event);
+  }
+
+  /**
+   * Enqueue content.published event
+   */
+  async enqueueContentPublished(
+    tx: Prisma.TransactionClient,
+    data: {
+      contentId: string;
+      contentType: 'PROGRAM' | 'EPISODE' | 'SEASON' | 'MOVIE';
+      title: string;
+      publishedBy?: string;
+      publishedAt: Date;
+      programId?: string; // For episodes
+      program?: any; // Full program data
+      item?: any; // Full content item data
+    },
+  ): Promise<OutboxEvent> {
+    const metadata = createEventMetadata(
+      ContentEventType.CONTENT_PUBLISHED,
+      KAFKA_CONFIG.CLIENT_ID,
+      {
+        userId: data.publishedBy,
+      },
+    );
+
+    const event: ContentPublishedEvent = {
+      metadata: {
+        ...metadata,
+        eventType: ContentEventType.CONTENT_PUBLISHED,
+      },
+      payload: {
+        contentId: data.contentId,
+        contentType: data.contentType,
+        title: data.title,
+        publishedBy: data.publishedBy || 'system',
+        publishedAt: data.publishedAt.toISOString(),
+        programId: data.programId,
+        program: data.program,
+        item: data.item,
+      },
+    };
+
+    return await this.enqueue(tx, ContentEventType.CONTENT_PUBLISHED, data.contentType, event);
+  }
+
+  /**
+   * Enqueue content.unpublished event
+   */
+  async enqueueContentUnpublished(
+    tx: Prisma.TransactionClient,
+    data: {
+      contentId: string;
+      contentType: 'PROGRAM' | 'EPISODE' | 'SEASON' | 'MOVIE';
+      title: string;
+      programId?: string; // For episodes
+      unpublishedBy?: string;
+      unpublishedAt: Date;
+    },
+  ): Promise<OutboxEvent> {
+    const metadata = createEventMetadata(
+      ContentEventType.CONTENT_UNPUBLISHED,
+      KAFKA_CONFIG.CLIENT_ID,
+      {
+        userId: data.unpublishedBy,
+      },
+    );
+
+    const event: ContentUnpublishedEvent = {
+      metadata: {
+        ...metadata,
+        eventType: ContentEventType.CONTENT_UNPUBLISHED,
+      },
+      payload: {
+        contentId: data.contentId,
+        contentType: data.contentType,
+        title: data.title,
+        unpublishedBy: data.unpublishedBy || 'system',
+        unpublishedAt: data.unpublishedAt.toISOString(),
+        programId: data.programId,
+      },
+    };
+
+    return await this.enqueue(tx, ContentEventType.CONTENT_UNPUBLISHED, data.contentType, event);
+  }
+
+  /**
+   * Enqueue content.deleted event
+   */
+  async enqueueContentDeleted(
+    tx: Prisma.TransactionClient,
+    data: {
+      contentId: string;
+      contentType: 'PROGRAM' | 'EPISODE' | 'SEASON' | 'MOVIE';
+      title: string;
+      programId?: string; // For episodes
+      deletedBy?: string;
+      deletedAt: Date;
+    },
+  ): Promise<OutboxEvent> {
+    const metadata = createEventMetadata(ContentEventType.CONTENT_DELETED, KAFKA_CONFIG.CLIENT_ID, {
+      userId: data.deletedBy,
+    });
+
+    const event: ContentDeletedEvent = {
+      metadata: {
+        ...metadata,
+        eventType: ContentEventType.CONTENT_DELETED,
+      },
+      payload: {
+        contentId: data.contentId,
+        contentType: data.contentType,
+        title: data.title,
+        deletedBy: data.deletedBy || 'system',
+        deletedAt: data.deletedAt.toISOString(),
+        programId: data.programId,
+      },
+    };
+
+    return await this.enqueue(tx, ContentEventType.CONTENT_DELETED, data.contentType, event);
+  }
+
+  /**
+   * Enqueue content.archived event
+   */
+  async enqueueContentArchived(
+    tx: Prisma.TransactionClient,
+    data: {
+      contentId: string;
+      contentType: 'PROGRAM' | 'EPISODE' | 'MOVIE';
+      title: string;
+      programId?: string; // For episodes
+      archivedBy?: string;
+      archivedAt: Date;
+    },
+  ): Promise<OutboxEvent> {
+    const metadata = createEventMetadata(
+      ContentEventType.CONTENT_ARCHIVED,
+      KAFKA_CONFIG.CLIENT_ID,
+      {
+        userId: data.archivedBy,
+      },
+    );
+
+    const event: ContentArchivedEvent = {
+      metadata: {
+        ...metadata,
+        eventType: ContentEventType.CONTENT_ARCHIVED,
+      },
+      payload: {
+        contentId: data.contentId,
+        contentType: data.contentType,
+        title: data.title,
+        archivedBy: data.archivedBy || 'system',
+        archivedAt: data.archivedAt.toISOString(),
+        programId: data.programId,
+      },
+    };
+
+    return await this.enqueue(tx, ContentEventType.CONTENT_ARCHIVED, data.contentType, event);
+  }
+
+  /**
+   * Find unpublished events (PENDING or FAILED)
+   *
+   * With `stuckOnly`, only events older than OUTBOX_CONFIG.STUCK_THRESHOLD_MS are returned.
+   */
+  async findUnpublished(
+    options: { status?: OutboxStatus; stuckOnly?: boolean },
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<OutboxEvent[]> {
+    if (options.status === OutboxStatus.PUBLISHED) {
+      throw new BadRequestException('Only PENDING or FAILED events can be listed');
+    }
+
+    const createdBefore = options.stuckOnly
+      ? new Date(Date.now() - OUTBOX_CONFIG.STUCK_THRESHOLD_MS)
+      : undefined;
+
+    return await this.outboxRepository.findUnpublished(
+      { status: options.status, createdBefore },
+      skip,
+      take,
+    );
+  }
+
+  /**
+   * Get outbox counts per status
+   */
+  async getStats(): Promise<Record<OutboxStatus, number>> {
+    const [pending, published, failed] = await Promise.all([
+      this.outboxRepository.countByStatus(OutboxStatus.PENDING),
+      this.outboxRepository.countByStatus(OutboxStatus.PUBLISHED),
+      this.outboxRepository.countByStatus(OutboxStatus.FAILED),
+    ]);
+
+    return {
+      [OutboxStatus.PENDING]: pending,
+      [OutboxStatus.PUBLISHED]: published,
+      [OutboxStatus.FAILED]: failed,
+    };
+  }
+
+  /**
+   * Requeue a FAILED event for immediate publishing
+   */
+  async retry(id: string): Promise<OutboxEvent> {
+    const event = await this.outboxRepository.findById(id);
+    throwIfNotFound(event, 'OutboxEvent', id);
+
+    if (event.status !== OutboxStatus.FAILED) {
+      throw new BadRequestException('Only failed outbox events can be retried');
+    }
+
+    this.logger.log(`Requeueing outbox event ${id} for ${event.aggregateId}`);
+    return await this.outboxRepository.resetForRetry(id);
+  }
+
+  /**
+   * Write an event to the outbox
+   */
+  private async enqueue(
+    tx: Prisma.TransactionClient,
+    topic: ContentEventType,
+    contentType: string,
+    event: BaseEvent,
+  ): Promise<OutboxEvent> {
+    const contentId: string = event.payload.contentId;
+
+    const outboxEvent = await this.outboxRepository.create(
+      {
+        aggregateId: contentId,
+        aggregateType: contentType,
+        topic,
+        payload: event,
+        headers: {
+          'event-type': topic,
+          'event-version': event.metadata.eventVersion,
+          'content-type': contentType,
+          'content-id': contentId,
+        },
+      },
+      tx,
+    );
+
+    this.logger.debug(`Outbox event enqueued: ${topic} for ${contentId} (${contentType})`);
+    return outboxEvent;
+  }
+}
@@ -6,15 +6,26 @@ import { FastifyAdapter } from '@nestjs/platform-fastify';
 import { ProgramsController } from './programs.controller';
 import { ProgramService } from '../services/program.service';
 import { ProgramRepository } from '../repositories/program.repository';
-import { KafkaService } from '../../kafka/kafka.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { RevisionService } from '../../revisions/services/revision.service';
+import { ContentRevisionRepository } from '../../revisions/repositories/content-revision.repository';
+import { ContentRevision } from '../../revisions/entities/content-revision.entity';
+import { WorkflowService } from '../../workflow/services/workflow.service';
+import { ContentTransitionRepository } from '../../workflow/repositories/content-transition.repository';
+import { ContentTransition } from '../../workflow/entities/content-transition.entity';
 import { Program } from '../entities/program.entity';
+import { CONCURRENCY_CONFIG } from '../../config/env.constants';
 import { ContentStatus, JwtAuthGuard, RolesGuard, UserRoles } from '@mediamesh/shared';
 
 describe('ProgramsController (integration)', () => {
   let app: INestApplication;
   let programService: ProgramService;
   let programRepository: jest.Mocked<ProgramRepository>;
-  let kafkaService: jest.Mocked<KafkaService>;
+  let outboxService: jest.Mocked<OutboxService>;
+  let revisionRepository: jest.Mocked<ContentRevisionRepository>;
+  let transitionRepository: jest.Mocked<ContentTransitionRepository>;
+  let currentUser: { id: string; role: UserRoles };
 
   const mockProgram: Program = {
     id: 'program-1',
@@ -22,6 +33,7 @@ describe('ProgramsController (integration)', () => {
     description: 'Test Description',
     status: ContentStatus.DRAFT,
     metadataId: undefined,
+    version: 1,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     publishedAt: undefined,
@@ -35,28 +47,70 @@ describe('ProgramsController (integration)', () => {
       findAll: jest.fn(),
       findByStatus: jest.fn(),
       update: jest.fn(),
+      softDelete: jest.fn(),
       delete: jest.fn(),
       count: jest.fn(),
       countByStatus: jest.fn(),
     };
 
-    const mockKafkaService = {
-      emitContentCreated: jest.fn(),
-      emitContentUpdated: jest.fn(),
-      emitContentPublished: jest.fn(),
+    const mockPrismaService = {
+      $transaction: jest.fn((fn) => fn({})),
+    };
+
+    const mockOutboxService = {
+      enqueueContentCreated: jest.fn(),
+      enqueueContentUpdated: jest.fn(),
+      enqueueContentPublished: jest.fn(),
+      enqueueContentUnpublished: jest.fn(),
+      enqueueContentDeleted: jest.fn(),
+      enqueueContentArchived: jest.fn(),
+    };
+
+    const mockTransitionRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(
+          new ContentTransition({ id: 'transition-1', ...data, createdAt: new Date() }),
+        ),
+      ),
+      findByContentId: jest.fn(),
+    };
+
+    currentUser = { id: 'user-1', role: UserRoles.EDITOR };
+
+    const mockRevisionRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(new ContentRevision({ id: 'revision-1', ...data, createdAt: new Date() })),
+      ),
+      findLatest: jest.fn().mockResolvedValue(null),
+      findByRevision: jest.fn(),
+      findByContentId: jest.fn(),
     };
 
     const moduleFixture: TestingModule = await Test.createTestingModule({
       controllers: [ProgramsController],
       providers: [
         ProgramService,
+        RevisionService,
+        {
+          provide: ContentRevisionRepository,
+          useValue: mockRevisionRepository,
+        },
+        WorkflowService,
+        {
+          provide: ContentTransitionRepository,
+          useValue: mockTransitionRepository,
+        },
         {
           provide: ProgramRepository,
           useValue: mockRepository,
         },
         {
-          provide: KafkaService,
-          useValue: mockKafkaService,
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: OutboxService,
+          useValue: mockOutboxService,
         },
         {
           provide: JwtService,
@@ -69,7 +123,10 @@ describe('ProgramsController (integration)', () => {
     })
       .overrideGuard(JwtAuthGuard)
       .useValue({
-        canActivate: jest.fn(() => true),
+        canActivate: jest.fn((context) => {
+          context.switchToHttp().getRequest().user = currentUser;
+          return true;
+        }),
       })
       .overrideGuard(RolesGuard)
       .useValue({
@@ -88,7 +145,9 @@ describe('ProgramsController (integration)', () => {
 
     programService = moduleFixture.get<ProgramService>(ProgramService);
     programRepository = moduleFixture.get(ProgramRepository);
-    kafkaService = moduleFixture.get(KafkaService);
+    outboxService = moduleFixture.get(OutboxService);
+    revisionRepository = moduleFixture.get(ContentRevisionRepository);
+    transitionRepository = moduleFixture.get(ContentTransitionRepository);
 
     await app.init();
     await app.getHttpAdapter().getInstance().ready();
@@ -149,7 +208,9 @@ describe('ProgramsController (integration)', () => {
       expect(response.body).toMatchObject({
         id: mockProgram.id,
         title: mockProgram.title,
+        version: 1,
       });
+      expect(response.headers.etag).toBe('"1"');
     });
 
     it('should return 404 if program not found', async () => {
@@ -211,6 +272,80 @@ describe('ProgramsController (integration)', () => {
       });
     });
 
+    it('should guard the update with the If-Match version', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      programRepository.update.mockResolvedValue({
+        ...mockProgram,
+        title: 'Updated Title',
+        version: 2,
+        toDto: jest.fn(),
+      });
+
+      const response = await request(app.getHttpServer())
+        .put('/programs/program-1')
+        .set('If-Match', '"1"')
+        .send({ title: 'Updated Title' })
+        .expect(200);
+
+      expect(response.headers.etag).toBe('"2"');
+      expect(response.body.version).toBe(2);
+      expect(programRepository.update).toHaveBeenCalledWith(
+        'program-1',
+        expect.objectContaining({ title: 'Updated Title' }),
+        expect.anything(),
+        1,
+      );
+    });
+
+    it('should return 412 with the current program on a stale If-Match', async () => {
+      programRepository.findById.mockResolvedValue({
+        ...mockProgram,
+        version: 3,
+        toDto: jest.fn(),
+      });
+
+      const response = await request(app.getHttpServer())
+        .put('/programs/program-1')
+        .set('If-Match', '"1"')
+        .send({ title: 'Updated Title' })
+        .expect(412);
+
+      expect(response.headers.etag).toBe('"3"');
+      expect(response.body.current).toMatchObject({
+        id: mockProgram.id,
+        title: mockProgram.title,
+        version: 3,
+      });
+      expect(programRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 412 on a weak If-Match even when the version matches', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+
+      await request(app.getHttpServer())
+        .put('/programs/program-1')
+        .set('If-Match', 'W/"1"')
+        .send({ title: 'Updated Title' })
+        .expect(412);
+
+      expect(programRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 428 without If-Match when it is required', async () => {
+      CONCURRENCY_CONFIG.REQUIRE_IF_MATCH = true;
+
+      try {
+        await request(app.getHttpServer())
+          .put('/programs/program-1')
+          .send({ title: 'Updated Title' })
+          .expect(428);
+      } finally {
+        CONCURRENCY_CONFIG.REQUIRE_IF_MATCH = false;
+      }
+
+      expect(programRepository.update).not.toHaveBeenCalled();
+    });
+
     it('should return 404 if program not found', async () => {
       programRepository.findById.mockResolvedValue(null);
 
@@ -221,14 +356,88 @@ describe('ProgramsController (integration)', () => {
     });
   });
 
+  describe('GET /programs/:id/revisions', () => {
+    it('should return the revision history', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      revisionRepository.findByContentId.mockResolvedValue([
+        new ContentRevision({
+          id: 'revision-2',
+          contentId: 'program-1',
+          contentType: 'PROGRAM',
+          revision: 2,
+          action: 'UPDATE' as any,
+          snapshot: { title: 'Test Program' },
+          diff: { title: { old: 'Draft Title', new: 'Test Program' } },
+          authorId: 'user-1',
+          createdAt: new Date('2024-01-02'),
+        }),
+      ]);
+
+      const response = await request(app.getHttpServer())
+        .get('/programs/program-1/revisions')
+        .query({ skip: 0, take: 5 })
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0]).toMatchObject({ revision: 2, authorId: 'user-1' });
+      expect(revisionRepository.findByContentId).toHaveBeenCalledWith('program-1', 0, 5);
+    });
+
+    it('should return 400 for a non-numeric revision', async () => {
+      await request(app.getHttpServer()).get('/programs/program-1/revisions/latest').expect(400);
+    });
+
+    it('should return 404 if revision not found', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      revisionRepository.findByRevision.mockResolvedValue(null);
+
+      await request(app.getHttpServer()).get('/programs/program-1/revisions/7').expect(404);
+    });
+  });
+
+  describe('POST /programs/:id/revisions/:rev/restore', () => {
+    it('should restore a program from a revision', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      programRepository.update.mockResolvedValue({
+        ...mockProgram,
+        title: 'Draft Title',
+        toDto: jest.fn(),
+      });
+      revisionRepository.findByRevision.mockResolvedValue(
+        new ContentRevision({
+          id: 'revision-1',
+          contentId: 'program-1',
+          contentType: 'PROGRAM',
+          revision: 1,
+          action: 'CREATE' as any,
+          snapshot: { title: 'Draft Title', description: 'Test Description', metadataId: null },
+          createdAt: new Date('2024-01-01'),
+        }),
+      );
+
+      const response = await request(app.getHttpServer())
+        .post('/programs/program-1/revisions/1/restore')
+        .expect(200);
+
+      expect(response.body.title).toBe('Draft Title');
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalled();
+    });
+  });
+
   describe('DELETE /programs/:id', () => {
-    it('should delete a program', async () => {
+    it('should move a program to the trash', async () => {
       programRepository.findById.mockResolvedValue(mockProgram);
-      programRepository.delete.mockResolvedValue(undefined);
+      programRepository.softDelete.mockResolvedValue([]);
 
       await request(app.getHttpServer()).delete('/programs/program-1').expect(204);
 
-      expect(programRepository.delete).toHaveBeenCalledWith('program-1');
+      expect(programRepository.softDelete).toHaveBeenCalledWith(
+        'program-1',
+        expect.any(Date),
+        expect.anything(),
+        undefined,
+      );
+      expect(programRepository.delete).not.toHaveBeenCalled();
     });
 
     it('should return 404 if program not found', async () => {
@@ -236,20 +445,56 @@ describe('ProgramsController (integration)', () => {
 
       await request(app.getHttpServer()).delete('/programs/non-existent').expect(404);
     });
+
+    it('should return 412 on a stale If-Match', async () => {
+      programRepository.findById.mockResolvedValue({
+        ...mockProgram,
+        version: 2,
+        toDto: jest.fn(),
+      });
+
+      await request(app.getHttpServer())
+        .delete('/programs/program-1')
+        .set('If-Match', '"1"')
+        .expect(412);
+
+      expect(programRepository.softDelete).not.toHaveBeenCalled();
+    });
+
+    it('should accept a wildcard If-Match', async () => {
+      programRepository.findById.mockResolvedValue({
+        ...mockProgram,
+        version: 2,
+        toDto: jest.fn(),
+      });
+      programRepository.softDelete.mockResolvedValue([]);
+
+      await request(app.getHttpServer())
+        .delete('/programs/program-1')
+        .set('If-Match', '*')
+        .expect(204);
+
+      expect(programRepository.softDelete).toHaveBeenCalledWith(
+        'program-1',
+        expect.any(Date),
+        expect.anything(),
+        2,
+      );
+    });
   });
 
   describe('POST /programs/:id/publish', () => {
-    it('should publish a program', async () => {
-      const draftProgram = { ...mockProgram, toDto: jest.fn(), status: ContentStatus.DRAFT };
+    it('should publish an approved program', async () => {
+      const approvedProgram = { ...mockProgram, toDto: jest.fn(), status: ContentStatus.APPROVED };
       const publishedAt = new Date();
       const publishedProgram = {
-        ...draftProgram,
+        ...approvedProgram,
         status: ContentStatus.PUBLISHED,
         publishedAt,
         toDto: jest.fn(),
       };
 
-      programRepository.findById.mockResolvedValue(draftProgram);
+      programRepository.findById.mockResolvedValue(approvedProgram);
       programRepository.update.mockResolvedValue(publishedProgram);
 
       const response = await request(app.getHttpServer())
@@ -257,7 +502,19 @@ describe('ProgramsController (integration)', () => {
         .expect(200);
 
       expect(response.body.status).toBe(ContentStatus.PUBLISHED);
-      expect(kafkaService.emitContentPublished).toHaveBeenCalled();
+      expect(outboxService.enqueueContentPublished).toHaveBeenCalled();
+      expect(transitionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'PUBLISH', actorId: 'user-1', actorRole: 'EDITOR' }),
+        expect.anything(),
+      );
+    });
+
+    it('should return 400 if program has not been approved', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+
+      await request(app.getHttpServer())
+        .post('/programs/program-1/publish')
+        .expect(400);
     });
 
     it('should return 409 if program already published', async () => {
@@ -311,4 +568,186 @@ describe('ProgramsController (integration)', () => {
         .expect(409);
     });
   });
+
+  describe('POST /programs/:id/schedule', () => {
+    it('should schedule an approved program', async () => {
+      const publishAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      const scheduledProgram = {
+        ...mockProgram,
+        status: ContentStatus.SCHEDULED,
+        publishAt,
+        toDto: jest.fn(),
+      };
+
+      programRepository.findById.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.APPROVED,
+        toDto: jest.fn(),
+      });
+      programRepository.update.mockResolvedValue(scheduledProgram);
+
+      const response = await request(app.getHttpServer())
+        .post('/programs/program-1/schedule')
+        .send({ publishAt: publishAt.toISOString() })
+        .expect(200);
+
+      expect(response.body.status).toBe(ContentStatus.SCHEDULED);
+      expect(response.body.publishAt).toBe(publishAt.toISOString());
+    });
+
+    it('should return 400 for a publishAt in the past', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+
+      await request(app.getHttpServer())
+        .post('/programs/program-1/schedule')
+        .send({ publishAt: '2020-01-01T00:00:00.000Z' })
+        .expect(400);
+    });
+  });
+
+  describe('POST /programs/:id/transitions', () => {
+    it('should submit a draft program for review', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      programRepository.update.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.IN_REVIEW,
+        toDto: jest.fn(),
+      });
+
+      const response = await request(app.getHttpServer())
+        .post('/programs/program-1/transitions')
+        .send({ action: 'SUBMIT' })
+        .expect(200);
+
+      expect(response.body.status).toBe(ContentStatus.IN_REVIEW);
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          changes: expect.objectContaining({
+            status: { old: ContentStatus.DRAFT, new: ContentStatus.IN_REVIEW },
+            transition: expect.objectContaining({ old: ContentStatus.DRAFT }),
+          }),
+        }),
+      );
+    });
+
+    it('should return 403 when an editor approves', async () => {
+      programRepository.findById.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.IN_REVIEW,
+        toDto: jest.fn(),
+      });
+
+      await request(app.getHttpServer())
+        .post('/programs/program-1/transitions')
+        .send({ action: 'APPROVE' })
+        .expect(403);
+    });
+
+    it('should let a reviewer approve', async () => {
+      currentUser = { id: 'reviewer-1', role: UserRoles.REVIEWER };
+      programRepository.findById.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.IN_REVIEW,
+        toDto: jest.fn(),
+      });
+      programRepository.update.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.APPROVED,
+        toDto: jest.fn(),
+      });
+
+      const response = await request(app.getHttpServer())
+        .post('/programs/program-1/transitions')
+        .send({ action: 'APPROVE' })
+        .expect(200);
+
+      expect(response.body.status).toBe(ContentStatus.APPROVED);
+    });
+
+    it('should return 400 for actions outside the review workflow', async () => {
+      await request(app.getHttpServer())
+        .post('/programs/program-1/transitions')
+        .send({ action: 'ARCHIVE' })
+        .expect(400);
+    });
+  });
+
+  describe('GET /programs/:id/transitions', () => {
+    it('should return the transition history', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      transitionRepository.findByContentId.mockResolvedValue([
+        new ContentTransition({
+          id: 'transition-1',
+          contentId: 'program-1',
+          contentType: 'PROGRAM',
+          action: 'SUBMIT' as any,
+          fromStatus: ContentStatus.DRAFT,
+          toStatus: ContentStatus.IN_REVIEW,
+          actorId: 'user-1',
+          actorRole: 'EDITOR',
+          createdAt: new Date('2024-01-02'),
+        }),
+      ]);
+
+      const response = await request(app.getHttpServer())
+        .get('/programs/program-1/transitions')
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0]).toMatchObject({
+        action: 'SUBMIT',
+        actorId: 'user-1',
+        createdAt: '2024-01-02T00:00:00.000Z',
+      });
+      expect(transitionRepository.findByContentId).toHaveBeenCalledWith('program-1', 0, 50);
+    });
+  });
+
+  describe('POST /programs/:id/archive', () => {
+    it('should archive a program', async () => {
+      const archivedProgram = { ...mockProgram, status: ContentStatus.ARCHIVED, toDto: jest.fn() };
+
+      programRepository.findById.mockResolvedValue(mockProgram);
+      programRepository.update.mockResolvedValue(archivedProgram);
+
+      const response = await request(app.getHttpServer())
+        .post('/programs/program-1/archive')
+        .expect(200);
+
+      expect(response.body.status).toBe(ContentStatus.ARCHIVED);
+      expect(outboxService.enqueueContentArchived).toHaveBeenCalled();
+    });
+
+    it('should return 409 if program already archived', async () => {
+      const archivedProgram = { ...mockProgram, status: ContentStatus.ARCHIVED, toDto: jest.fn() };
+
+      programRepository.findById.mockResolvedValue(archivedProgram);
+
+      await request(app.getHttpServer()).post('/programs/program-1/archive').expect(409);
+    });
+  });
+
+  describe('POST /programs/:id/restore', () => {
+    it('should restore an archived program', async () => {
+      const archivedProgram = { ...mockProgram, status: ContentStatus.ARCHIVED, toDto: jest.fn() };
+      const restoredProgram = { ...mockProgram, status: ContentStatus.DRAFT, toDto: jest.fn() };
+
+      programRepository.findById.mockResolvedValue(archivedProgram);
+      programRepository.update.mockResolvedValue(restoredProgram);
+
+      const response = await request(app.getHttpServer())
+        .post('/programs/program-1/restore')
+        .expect(200);
+
+      expect(response.body.status).toBe(ContentStatus.DRAFT);
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalled();
+    });
+
+    it('should return 400 if program is not archived', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+
+      await request(app.getHttpServer()).post('/programs/program-1/restore').expect(400);
+    });
+  });
 });
@@ -11,6 +11,11 @@ import {
   HttpStatus,
   Logger,
   UseGuards,
+  ParseIntPipe,
+  Headers,
+  Res,
+  HttpException,
+  PreconditionFailedException,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -20,9 +25,20 @@ import {
   ApiParam,
   ApiQuery,
   ApiBearerAuth,
+  ApiHeader,
 } from '@nestjs/swagger';
+import { FastifyReply } from 'fastify';
 import { ProgramService } from '../services/program.service';
 import { Program } from '../entities/program.entity';
+import { ScheduleContentDto } from '../../schedules/dto/schedule.dto';
+import {
+  TransitionContentDto,
+  ContentTransitionDto,
+} from '../../workflow/dto/content-transition.dto';
+import { ContentTransition } from '../../workflow/entities/content-transition.entity';
+import { ContentRevisionDto } from '../../revisions/dto/content-revision.dto';
+import { ContentRevision } from '../../revisions/entities/content-revision.entity';
+import { CONCURRENCY_CONFIG } from '../../config/env.constants';
 import {
   ContentStatus,
   ProgramDto,
@@ -30,8 +46,17 @@ import {
   UpdateProgramDto,
   PaginationDto,
   PaginatedResponseDto,
+  toETag,
+  matchesETag,
+} from '@mediamesh/shared';
+import {
+  JwtAuthGuard,
+  RolesGuard,
+  Roles,
+  CurrentUser,
+  Public,
+  RequestUser,
 } from '@mediamesh/shared';
-import { JwtAuthGuard, RolesGuard, Roles, CurrentUser, Public } from '@mediamesh/shared';
 import { UserRole } from '@mediamesh/shared';
 
 /**
@@ -39,12 +64,21 @@ import { UserRole } from '@mediamesh/shared';
  * 
  * Handles program management endpoints:
  * - GET /programs - List all programs
- * - GET /programs/:id - Get program by ID
+ * - GET /programs/:id - Get program by ID (with ETag)
  * - POST /programs - Create new program
- * - PUT /programs/:id - Update program
- * - DELETE /programs/:id - Delete program
+ * - PUT /programs/:id - Update program (honours If-Match)
+ * - DELETE /programs/:id - Delete program (honours If-Match)
+ * - POST /programs/:id/transitions - Apply editorial workflow action
+ * - GET /programs/:id/transitions - Get workflow transition history
+ * - GET /programs/:id/revisions - Get revision history
+ * - GET /programs/:id/revisions/:rev - Get a specific revision
+ * - POST /programs/:id/revisions/:rev/restore - Restore program fields from a revision
  * - POST /programs/:id/publish - Publish program
  * - POST /programs/:id/unpublish - Unpublish program
+ * - POST /programs/:id/schedule - Schedule publishAt/unpublishAt
+ * - DELETE /programs/:id/schedule - Cancel upcoming schedule
+ * - POST /programs/:id/archive - Archive program
+ * - POST /programs/:id/restore - Restore archived program
  */
 @ApiTags('Programs')
 @Controller('programs')
@@ -63,6 +97,12 @@ export class ProgramsController {
   @ApiQuery({ name: 'skip', required: false, type: Number, description: 'Number of records to skip' })
   @ApiQuery({ name: 'take', required: false, type: Number, description: 'Number of records to take' })
   @ApiQuery({ name: 'status', required: false, enum: ContentStatus, description: 'Filter by status' })
+  @ApiQuery({
+    name: 'externalId',
+    required: false,
+    type: String,
+    description: 'Filter by source catalog ID',
+  })
   @ApiResponse({
     status: 200,
     description: 'List of programs',
@@ -72,10 +112,16 @@ export class ProgramsController {
     @Query('skip') skip?: string,
     @Query('take') take?: string,
     @Query('status') status?: ContentStatus,
+    @Query('externalId') externalId?: string,
   ): Promise<ProgramDto[]> {
     const skipNum = skip ? parseInt(skip, 10) : 0;
     const takeNum = take ? parseInt(take, 10) : 20;
 
+    if (externalId) {
+      const program = await this.programService.findByExternalId(externalId);
+      return program ? [this.toDto(program)] : [];
+    }
+
     const programs = status
       ? await this.programService.findByStatus(status, skipNum, takeNum)
       : await this.programService.findAll(skipNum, takeNum);
@@ -93,15 +139,19 @@ export class ProgramsController {
   @ApiParam({ name: 'id', type: String, description: 'Program ID' })
   @ApiResponse({
     status: 200,
-    description: 'Program details',
+    description: 'Program details; the ETag header carries the current version',
     type: ProgramDto,
   })
   @ApiResponse({
     status: 404,
     description: 'Program not found',
   })
-  async findOne(@Param('id') id: string): Promise<ProgramDto> {
+  async findOne(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<ProgramDto> {
     const program = await this.programService.findOne(id);
+    reply.header('ETag', toETag(program.version));
     return this.toDto(program);
   }
 
@@ -124,6 +174,10 @@ export class ProgramsController {
     status: 400,
     description: 'Validation error',
   })
+  @ApiResponse({
+    status: 409,
+    description: 'A program with this external ID already exists',
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized',
@@ -133,13 +187,20 @@ export class ProgramsController {
     description: 'Forbidden - Insufficient permissions',
   })
   @HttpCode(HttpStatus.CREATED)
-  async create(@Body() createProgramDto: CreateProgramDto): Promise<ProgramDto> {
+  async create(
+    @Body() createProgramDto: CreateProgramDto,
+    @CurrentUser('id') userId: string,
+  ): Promise<ProgramDto> {
     this.logger.log(`Creating program: ${createProgramDto.title}`);
-    const program = await this.programService.create({
-      title: createProgramDto.title,
-      description: createProgramDto.description,
-      status: createProgramDto.status || ContentStatus.DRAFT,
-    });
+    const program = await this.programService.create(
+      {
+        title: createProgramDto.title,
+        description: createProgramDto.description,
+        status: createProgramDto.status || ContentStatus.DRAFT,
+        externalId: createProgramDto.externalId,
+      },
+      userId,
+    );
     return this.toDto(program);
   }
 
@@ -153,6 +214,11 @@ export class ProgramsController {
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({ summary: 'Update program' })
   @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from GET /programs/:id; the update is rejected if the program changed',
+  })
   @ApiBody({ type: UpdateProgramDto })
   @ApiResponse({
     status: 200,
@@ -175,16 +241,35 @@ export class ProgramsController {
     status: 403,
     description: 'Forbidden - Insufficient permissions',
   })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match does not match; the body carries the current program',
+  })
+  @ApiResponse({
+    status: 428,
+    description: 'If-Match header required (CONCURRENCY_REQUIRE_IF_MATCH)',
+  })
   async update(
     @Param('id') id: string,
     @Body() updateProgramDto: UpdateProgramDto,
+    @CurrentUser('id') userId: string,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) reply: FastifyReply,
   ): Promise<ProgramDto> {
     this.logger.log(`Updating program: ${id}`);
-    const program = await this.programService.update(id, {
-      title: updateProgramDto.title,
-      description: updateProgramDto.description,
-      status: updateProgramDto.status,
-    });
+    const expectedVersion = await this.checkIfMatch(id, ifMatch, reply);
+    const program = await this.programService.update(
+      id,
+      {
+        title: updateProgramDto.title,
+        description: updateProgramDto.description,
+        status: updateProgramDto.status,
+        metadataId: updateProgramDto.metadataId,
+      },
+      userId,
+      expectedVersion,
+    );
+    reply.header('ETag', toETag(program.version));
     return this.toDto(program);
   }
 
@@ -196,11 +281,19 @@ export class ProgramsController {
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.EDITOR)
   @ApiBearerAuth('JWT-auth')
-  @ApiOperation({ summary: 'Delete program' })
+  @ApiOperation({
+    summary: 'Delete program',
+    description: 'Moves the program and its episodes to the trash (restorable via /trash).',
+  })
   @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag from GET /programs/:id; the delete is rejected if the program changed',
+  })
   @ApiResponse({
     status: 204,
-    description: 'Program successfully deleted',
+    description: 'Program moved to the trash',
   })
   @ApiResponse({
     status: 404,
@@ -214,10 +307,236 @@ export class ProgramsController {
     status: 403,
     description: 'Forbidden - Insufficient permissions',
   })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match does not match; the body carries the current program',
+  })
+  @ApiResponse({
+    status: 428,
+    description: 'If-Match header required (CONCURRENCY_REQUIRE_IF_MATCH)',
+  })
   @HttpCode(HttpStatus.NO_CONTENT)
-  async delete(@Param('id') id: string): Promise<void> {
+  async delete(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<void> {
     this.logger.log(`Deleting program: ${id}`);
-    await this.programService.delete(id);
+    const expectedVersion = await this.checkIfMatch(id, ifMatch, reply);
+    await this.programService.delete(id, userId, expectedVersion);
+  }
+
+  /**
+   * Apply editorial workflow action
+   * POST /programs/:id/transitions
+   */
+  @Post(':id/transitions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Apply workflow action (submit, approve, reject, withdraw, publish)',
+    description:
+      'Only ADMIN or a reviewer role can approve or reject. Rejecting requires a comment.',
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiBody({ type: TransitionContentDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Workflow action applied',
+    type: ProgramDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid status transition or missing comment',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Program not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Program already published',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async transition(
+    @Param('id') id: string,
+    @Body() transitionDto: TransitionContentDto,
+    @CurrentUser() user: RequestUser,
+  ): Promise<ProgramDto> {
+    this.logger.log(`Applying ${transitionDto.action} to program: ${id}`);
+    const program = await this.programService.transition(
+      id,
+      transitionDto.action,
+      { id: user.id, role: user.role },
+      transitionDto.comment,
+    );
+    return this.toDto(program);
+  }
+
+  /**
+   * Get workflow transition history
+   * GET /programs/:id/transitions
+   */
+  @Get(':id/transitions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get workflow transition history of a program' })
+  @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    type: Number,
+    description: 'Number of records to skip',
+  })
+  @ApiQuery({
+    name: 'take',
+    required: false,
+    type: Number,
+    description: 'Number of records to take',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Transitions, oldest first',
+    type: [ContentTransitionDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Program not found',
+  })
+  async findTransitions(
+    @Param('id') id: string,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<ContentTransitionDto[]> {
+    const skipNum = skip ? parseInt(skip, 10) : 0;
+    const takeNum = take ? parseInt(take, 10) : 50;
+
+    const transitions = await this.programService.findTransitions(id, skipNum, takeNum);
+    return transitions.map((transition) => this.toTransitionDto(transition));
+  }
+
+  /**
+   * Get revision history
+   * GET /programs/:id/revisions
+   */
+  @Get(':id/revisions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get revision history of a program' })
+  @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    type: Number,
+    description: 'Number of records to skip',
+  })
+  @ApiQuery({
+    name: 'take',
+    required: false,
+    type: Number,
+    description: 'Number of records to take',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revisions, newest first',
+    type: [ContentRevisionDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Program not found',
+  })
+  async findRevisions(
+    @Param('id') id: string,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<ContentRevisionDto[]> {
+    const skipNum = skip ? parseInt(skip, 10) : 0;
+    const takeNum = take ? parseInt(take, 10) : 20;
+
+    const revisions = await this.programService.findRevisions(id, skipNum, takeNum);
+    return revisions.map((revision) => this.toRevisionDto(revision));
+  }
+
+  /**
+   * Get a specific revision
+   * GET /programs/:id/revisions/:rev
+   */
+  @Get(':id/revisions/:rev')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get a specific revision of a program' })
+  @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiParam({ name: 'rev', type: Number, description: 'Revision number' })
+  @ApiResponse({
+    status: 200,
+    description: 'Revision snapshot and diff',
+    type: ContentRevisionDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Program or revision not found',
+  })
+  async findRevision(
+    @Param('id') id: string,
+    @Param('rev', ParseIntPipe) rev: number,
+  ): Promise<ContentRevisionDto> {
+    const revision = await this.programService.findRevision(id, rev);
+    return this.toRevisionDto(revision);
+  }
+
+  /**
+   * Restore program fields from a revision
+   * POST /programs/:id/revisions/:rev/restore
+   */
+  @Post(':id/revisions/:rev/restore')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore program fields from a revision',
+    description: 'Creates a new revision; status is not affected.',
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiParam({ name: 'rev', type: Number, description: 'Revision number to restore' })
+  @ApiResponse({
+    status: 200,
+    description: 'Program restored',
+    type: ProgramDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Program or revision not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async restoreRevision(
+    @Param('id') id: string,
+    @Param('rev', ParseIntPipe) rev: number,
+    @CurrentUser('id') userId: string,
+  ): Promise<ProgramDto> {
+    this.logger.log(`Restoring program ${id} to revision ${rev}`);
+    const program = await this.programService.restoreRevision(id, rev, userId);
+    return this.toDto(program);
   }
 
   /**
@@ -229,7 +548,7 @@ export class ProgramsController {
   @Roles(UserRole.ADMIN, UserRole.EDITOR)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Publish program (DRAFT -> PUBLISHED)' })
+  @ApiOperation({ summary: 'Publish program (APPROVED/SCHEDULED -> PUBLISHED)' })
   @ApiParam({ name: 'id', type: String, description: 'Program ID' })
   @ApiResponse({
     status: 200,
@@ -256,9 +575,9 @@ export class ProgramsController {
     status: 403,
     description: 'Forbidden - Insufficient permissions',
   })
-  async publish(@Param('id') id: string): Promise<ProgramDto> {
+  async publish(@Param('id') id: string, @CurrentUser() user: RequestUser): Promise<ProgramDto> {
     this.logger.log(`Publishing program: ${id}`);
-    const program = await this.programService.publish(id);
+    const program = await this.programService.publish(id, { id: user.id, role: user.role });
     return this.toDto(program);
   }
 
@@ -298,12 +617,211 @@ export class ProgramsController {
     status: 403,
     description: 'Forbidden - Insufficient permissions',
   })
-  async unpublish(@Param('id') id: string): Promise<ProgramDto> {
+  async unpublish(@Param('id') id: string, @CurrentUser('id') userId: string): Promise<ProgramDto> {
     this.logger.log(`Unpublishing program: ${id}`);
-    const program = await this.programService.unpublish(id);
+    const program = await this.programService.unpublish(id, userId);
+    return this.toDto(program);
+  }
+
+  /**
+   * Schedule program publishing/unpublishing
+   * POST /programs/:id/schedule
+   */
+  @Post(':id/schedule')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Schedule program publishAt and/or unpublishAt' })
+  @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiBody({ type: ScheduleContentDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Program successfully scheduled',
+    type: ProgramDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid schedule or status',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Program not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async schedule(
+    @Param('id') id: string,
+    @Body() scheduleDto: ScheduleContentDto,
+    @CurrentUser('id') userId: string,
+  ): Promise<ProgramDto> {
+    this.logger.log(`Scheduling program: ${id}`);
+    const program = await this.programService.schedule(
+      id,
+      {
+        publishAt: scheduleDto.publishAt ? new Date(scheduleDto.publishAt) : undefined,
+        unpublishAt: scheduleDto.unpublishAt ? new Date(scheduleDto.unpublishAt) : undefined,
+      },
+      userId,
+    );
+    return this.toDto(program);
+  }
+
+  /**
+   * Cancel upcoming program schedule
+   * DELETE /programs/:id/schedule
+   */
+  @Delete(':id/schedule')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel upcoming program schedule' })
+  @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Program schedule cancelled',
+    type: ProgramDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Program has no upcoming schedule',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Program not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async cancelSchedule(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<ProgramDto> {
+    this.logger.log(`Cancelling schedule for program: ${id}`);
+    const program = await this.programService.cancelSchedule(id, userId);
+    return this.toDto(program);
+  }
+
+  /**
+   * Archive program
+   * POST /programs/:id/archive
+   */
+  @Post(':id/archive')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Archive program (DRAFT/PUBLISHED -> ARCHIVED)' })
+  @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Program successfully archived',
+    type: ProgramDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Program not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Program already archived',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async archive(@Param('id') id: string, @CurrentUser('id') userId: string): Promise<ProgramDto> {
+    this.logger.log(`Archiving program: ${id}`);
+    const program = await this.programService.archive(id, userId);
     return this.toDto(program);
   }
 
+  /**
+   * Restore archived program
+   * POST /programs/:id/restore
+   */
+  @Post(':id/restore')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore archived program (ARCHIVED -> DRAFT)' })
+  @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Program successfully restored',
+    type: ProgramDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Program is not archived',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Program not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async restore(@Param('id') id: string, @CurrentUser('id') userId: string): Promise<ProgramDto> {
+    this.logger.log(`Restoring program: ${id}`);
+    const program = await this.programService.restore(id, userId);
+    return this.toDto(program);
+  }
+
+  /**
+   * Enforce If-Match against the current program version
+   *
+   * Returns the version the write must still match. A stale ETag is rejected with 412, the
+   * current representation in the body and its ETag in the header.
+   */
+  private async checkIfMatch(
+    id: string,
+    ifMatch: string | undefined,
+    reply: FastifyReply,
+  ): Promise<number | undefined> {
+    if (!ifMatch) {
+      if (CONCURRENCY_CONFIG.REQUIRE_IF_MATCH) {
+        throw new HttpException('If-Match header is required', HttpStatus.PRECONDITION_REQUIRED);
+      }
+      return undefined;
+    }
+
+    const program = await this.programService.findOne(id);
+    if (!matchesETag(ifMatch, program.version)) {
+      reply.header('ETag', toETag(program.version));
+      throw new PreconditionFailedException({
+        statusCode: HttpStatus.PRECONDITION_FAILED,
+        message: `Program ${id} has been modified (current version ${program.version})`,
+        error: 'Precondition Failed',
+        current: this.toDto(program),
+      });
+    }
+
+    return program.version;
+  }
+
   /**
    * Convert Program entity to DTO
    */
@@ -314,8 +832,48 @@ export class ProgramsController {
       description: program.description,
       contentType: 'PROGRAM' as any, // Default for CMS programs
       status: program.status as any,
+      publishAt: program.publishAt?.toISOString(),
+      unpublishAt: program.unpublishAt?.toISOString(),
+      externalId: program.externalId,
+      version: program.version,
       createdAt: program.createdAt.toISOString(),
       updatedAt: program.updatedAt.toISOString(),
     } as ProgramDto;
   }
+
+  /**
+   * Convert ContentRevision entity to DTO
+   */
+  private toRevisionDto(revision: ContentRevision): ContentRevisionDto {
+    return {
+      id: revision.id,
+      contentId: revision.contentId,
+      contentType: revision.contentType,
+      revision: revision.revision,
+      action: revision.action,
+      snapshot: revision.snapshot,
+      diff: revision.diff,
+      authorId: revision.authorId,
+      restoredFrom: revision.restoredFrom,
+      createdAt: revision.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Convert ContentTransition entity to DTO
+   */
+  private toTransitionDto(transition: ContentTransition): ContentTransitionDto {
+    return {
+      id: transition.id,
+      contentId: transition.contentId,
+      contentType: transition.contentType,
+      action: transition.action,
+      fromStatus: transition.fromStatus,
+      toStatus: transition.toStatus,
+      actorId: transition.actorId,
+      actorRole: transition.actorRole,
+      comment: transition.comment,
+      createdAt: transition.createdAt.toISOString(),
+    };
+  }
 }
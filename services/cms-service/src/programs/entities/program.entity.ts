@@ -11,9 +11,14 @@ export class Program {
   description?: string;
   status: ContentStatus;
   metadataId?: string; // Optional FK to metadata service
+  externalId?: string; // ID in the source catalog (bulk import)
   createdAt: Date;
   updatedAt: Date;
   publishedAt?: Date;
+  publishAt?: Date; // Scheduled publish time
+  unpublishAt?: Date; // Scheduled unpublish time
+  version: number; // Incremented on every write, exposed as ETag
+  deletedAt?: Date; // Set while the program is in the trash
 
   constructor(partial: Partial<Program>) {
     Object.assign(this, partial);
@@ -28,9 +33,14 @@ export class Program {
     description: string | null;
     status: string;
     metadataId: string | null;
+    externalId: string | null;
     createdAt: Date;
     updatedAt: Date;
     publishedAt: Date | null;
+    publishAt: Date | null;
+    unpublishAt: Date | null;
+    version: number;
+    deletedAt?: Date | null;
   }): Program {
     return new Program({
       id: prismaProgram.id,
@@ -38,9 +48,14 @@ export class Program {
       description: prismaProgram.description || undefined,
       status: prismaProgram.status as ContentStatus,
       metadataId: prismaProgram.metadataId || undefined,
+      externalId: prismaProgram.externalId || undefined,
       createdAt: prismaProgram.createdAt,
       updatedAt: prismaProgram.updatedAt,
       publishedAt: prismaProgram.publishedAt || undefined,
+      publishAt: prismaProgram.publishAt || undefined,
+      unpublishAt: prismaProgram.unpublishAt || undefined,
+      version: prismaProgram.version,
+      deletedAt: prismaProgram.deletedAt || undefined,
     });
   }
 
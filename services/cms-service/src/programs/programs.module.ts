@@ -3,6 +3,8 @@ import { JwtModule } from '@nestjs/jwt';
 import { ProgramRepository } from './repositories/program.repository';
 import { ProgramService } from './services/program.service';
 import { ProgramsController } from './controllers/programs.controller';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { RevisionsModule } from '../revisions/revisions.module';
 import { JWT_CONFIG } from '../config/env.constants';
 
 /**
@@ -12,6 +14,8 @@ import { JWT_CONFIG } from '../config/env.constants';
  */
 @Module({
   imports: [
+    WorkflowModule,
+    RevisionsModule,
     JwtModule.register({
       secret: JWT_CONFIG.SECRET,
       signOptions: {
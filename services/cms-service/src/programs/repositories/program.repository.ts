@@ -1,4 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import { Program } from '../entities/program.entity';
 import { ContentStatus } from '@mediamesh/shared';
@@ -7,6 +8,7 @@ import { ContentStatus } from '@mediamesh/shared';
  * Program Repository
  * 
  * Data access layer for Program entities.
+ * Programs in the trash (deletedAt set) are left out of every query except the trash ones.
  */
 @Injectable()
 export class ProgramRepository {
@@ -17,19 +19,24 @@ export class ProgramRepository {
   /**
    * Create a new program
    */
-  async create(data: {
-    title: string;
-    description?: string;
-    status?: ContentStatus;
-    metadataId?: string;
-    publishedAt?: Date;
-  }): Promise<Program> {
-    const prismaProgram = await this.prisma.program.create({
+  async create(
+    data: {
+      title: string;
+      description?: string;
+      status?: ContentStatus;
+      metadataId?: string;
+      externalId?: string;
+      publishedAt?: Date;
+    },
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<Program> {
+    const prismaProgram = await tx.program.create({
       data: {
         title: data.title,
         description: data.description,
         status: data.status || ContentStatus.DRAFT,
         metadataId: data.metadataId,
+        externalId: data.externalId,
         publishedAt: data.publishedAt,
       },
     });
@@ -41,18 +48,44 @@ export class ProgramRepository {
    * Find program by ID
    */
   async findById(id: string): Promise<Program | null> {
-    const prismaProgram = await this.prisma.program.findUnique({
-      where: { id },
+    const prismaProgram = await this.prisma.program.findFirst({
+      where: { id, deletedAt: null },
     });
 
     return prismaProgram ? Program.fromPrisma(prismaProgram) : null;
   }
 
+  /**
+   * Find program by external (source catalog) ID
+   */
+  async findByExternalId(externalId: string): Promise<Program | null> {
+    const prismaProgram = await this.prisma.program.findFirst({
+      where: { externalId, deletedAt: null },
+    });
+
+    return prismaProgram ? Program.fromPrisma(prismaProgram) : null;
+  }
+
+  /**
+   * Find the next batch of programs after a cursor, in stable ID order (for exports)
+   */
+  async findBatchAfter(cursor?: string, take: number = 100): Promise<Program[]> {
+    const prismaPrograms = await this.prisma.program.findMany({
+      where: { deletedAt: null },
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      take,
+      orderBy: { id: 'asc' },
+    });
+
+    return prismaPrograms.map(Program.fromPrisma);
+  }
+
   /**
    * Find all programs with pagination
    */
   async findAll(skip: number = 0, take: number = 20): Promise<Program[]> {
     const prismaPrograms = await this.prisma.program.findMany({
+      where: { deletedAt: null },
       skip,
       take,
       orderBy: { createdAt: 'desc' },
@@ -66,7 +99,7 @@ export class ProgramRepository {
    */
   async findByStatus(status: ContentStatus, skip: number = 0, take: number = 20): Promise<Program[]> {
     const prismaPrograms = await this.prisma.program.findMany({
-      where: { status },
+      where: { status, deletedAt: null },
       skip,
       take,
       orderBy: { createdAt: 'desc' },
@@ -75,24 +108,71 @@ export class ProgramRepository {
     return prismaPrograms.map(Program.fromPrisma);
   }
 
+  /**
+   * Find SCHEDULED programs with a pending publish time, soonest first
+   */
+  async findScheduledForPublish(before?: Date, take: number = 100): Promise<Program[]> {
+    const prismaPrograms = await this.prisma.program.findMany({
+      where: {
+        status: ContentStatus.SCHEDULED,
+        publishAt: before ? { lte: before } : { not: null },
+        deletedAt: null,
+      },
+      take,
+      orderBy: { publishAt: 'asc' },
+    });
+
+    return prismaPrograms.map(Program.fromPrisma);
+  }
+
+  /**
+   * Find SCHEDULED or PUBLISHED programs with a pending unpublish time, soonest first
+   */
+  async findScheduledForUnpublish(before?: Date, take: number = 100): Promise<Program[]> {
+    const prismaPrograms = await this.prisma.program.findMany({
+      where: {
+        status: { in: [ContentStatus.SCHEDULED, ContentStatus.PUBLISHED] },
+        unpublishAt: before ? { lte: before } : { not: null },
+        deletedAt: null,
+      },
+      take,
+      orderBy: { unpublishAt: 'asc' },
+    });
+
+    return prismaPrograms.map(Program.fromPrisma);
+  }
+
   /**
    * Update program
+   *
+   * Every update increments the version. When expectedVersion is given the update only applies
+   * to that version; otherwise Prisma rejects it with P2025 (record not found).
    */
-  async update(id: string, data: {
-    title?: string;
-    description?: string;
-    status?: ContentStatus;
-    metadataId?: string;
-    publishedAt?: Date;
-  }): Promise<Program> {
-    const prismaProgram = await this.prisma.program.update({
-      where: { id },
+  async update(
+    id: string,
+    data: {
+      title?: string;
+      description?: string | null;
+      status?: ContentStatus;
+      metadataId?: string | null;
+      publishedAt?: Date;
+      publishAt?: Date | null;
+      unpublishAt?: Date | null;
+    },
+    tx: Prisma.TransactionClient = this.prisma,
+    expectedVersion?: number,
+  ): Promise<Program> {
+    const prismaProgram = await tx.program.update({
+      where: { id, ...(expectedVersion !== undefined && { version: expectedVersion }) },
       data: {
         ...(data.title !== undefined && { title: data.title }),
         ...(data.description !== undefined && { description: data.description }),
         ...(data.status !== undefined && { status: data.status }),
         ...(data.metadataId !== undefined && { metadataId: data.metadataId }),
+        ...(data.publishAt !== undefined && { publishAt: data.publishAt }),
+        ...(data.unpublishAt !== undefined && { unpublishAt: data.unpublishAt }),
         ...(data.publishedAt !== undefined && { publishedAt: data.publishedAt }),
+        version: { increment: 1 },
       },
     });
 
@@ -100,19 +180,134 @@ export class ProgramRepository {
   }
 
   /**
-   * Delete program
+   * Move a program and its episodes to the trash
+   *
+   * The episodes get the same deletedAt so restoring the program brings back exactly them;
+   * they are returned so callers can emit events for them.
+   * When expectedVersion is given the change only applies to that version.
    */
-  async delete(id: string): Promise<void> {
-    await this.prisma.program.delete({
-      where: { id },
+  async softDelete(
+    id: string,
+    deletedAt: Date,
+    tx: Prisma.TransactionClient = this.prisma,
+    expectedVersion?: number,
+  ): Promise<{ id: string; title: string }[]> {
+    await tx.program.update({
+      where: {
+        id,
+        deletedAt: null,
+        ...(expectedVersion !== undefined && { version: expectedVersion }),
+      },
+      data: { deletedAt, version: { increment: 1 } },
+    });
+
+    const episodes = await tx.episode.findMany({
+      where: { programId: id, deletedAt: null },
+      select: { id: true, title: true },
+    });
+    await tx.episode.updateMany({
+      where: { programId: id, deletedAt: null },
+      data: { deletedAt, version: { increment: 1 } },
     });
+
+    return episodes;
+  }
+
+  /**
+   * Find a program in the trash by ID
+   */
+  async findDeletedById(id: string): Promise<Program | null> {
+    const prismaProgram = await this.prisma.program.findFirst({
+      where: { id, deletedAt: { not: null } },
+    });
+
+    return prismaProgram ? Program.fromPrisma(prismaProgram) : null;
+  }
+
+  /**
+   * Find programs in the trash, most recently deleted first
+   */
+  async findDeleted(skip: number = 0, take: number = 20): Promise<Program[]> {
+    const prismaPrograms = await this.prisma.program.findMany({
+      where: { deletedAt: { not: null } },
+      skip,
+      take,
+      orderBy: { deletedAt: 'desc' },
+    });
+
+    return prismaPrograms.map(Program.fromPrisma);
+  }
+
+  /**
+   * Find programs deleted at or before the cutoff, oldest first
+   */
+  async findPurgeable(before: Date, take: number = 100): Promise<Program[]> {
+    const prismaPrograms = await this.prisma.program.findMany({
+      where: { deletedAt: { lte: before } },
+      take,
+      orderBy: { deletedAt: 'asc' },
+    });
+
+    return prismaPrograms.map(Program.fromPrisma);
+  }
+
+  /**
+   * Take a program and the episodes deleted along with it out of the trash
+   *
+   * @returns the restored program and episodes
+   */
+  async restoreDeleted(
+    id: string,
+    deletedAt: Date,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<{ program: Program; episodes: { id: string; title: string; status: string }[] }> {
+    const prismaProgram = await tx.program.update({
+      where: { id, deletedAt },
+      data: { deletedAt: null, version: { increment: 1 } },
+    });
+
+    const episodes = await tx.episode.findMany({
+      where: { programId: id, deletedAt },
+      select: { id: true, title: true, status: true },
+    });
+    await tx.episode.updateMany({
+      where: { programId: id, deletedAt },
+      data: { deletedAt: null, version: { increment: 1 } },
+    });
+
+    return { program: Program.fromPrisma(prismaProgram), episodes };
+  }
+
+  /**
+   * Delete program permanently
+   *
+   * Episodes are removed by the cascade; they are returned so callers can emit events for them.
+   * When expectedVersion is given the delete only applies to that version.
+   */
+  async delete(
+    id: string,
+    tx: Prisma.TransactionClient = this.prisma,
+    expectedVersion?: number,
+  ): Promise<{ id: string; title: string }[]> {
+    const prismaProgram = await tx.program.delete({
+      where: { id, ...(expectedVersion !== undefined && { version: expectedVersion }) },
+      include: {
+        episodes: {
+          select: { id: true, title: true },
+        },
+      },
+    });
+
+    return prismaProgram.episodes;
   }
 
   /**
    * Count programs
    */
   async count(): Promise<number> {
-    return await this.prisma.program.count();
+    return await this.prisma.program.count({
+      where: { deletedAt: null },
+    });
   }
 
   /**
@@ -120,7 +315,7 @@ export class ProgramRepository {
    */
   async countByStatus(status: ContentStatus): Promise<number> {
     return await this.prisma.program.count({
-      where: { status },
+      where: { status, deletedAt: null },
     });
   }
 }
@@ -1,15 +1,36 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  PreconditionFailedException,
+} from '@nestjs/common';
 import { ProgramService } from './program.service';
 import { ProgramRepository } from '../repositories/program.repository';
-import { KafkaService } from '../../kafka/kafka.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { RevisionService } from '../../revisions/services/revision.service';
+import { ContentRevisionRepository } from '../../revisions/repositories/content-revision.repository';
+import { ContentRevision, RevisionAction } from '../../revisions/entities/content-revision.entity';
+import { WorkflowService } from '../../workflow/services/workflow.service';
+import { ContentTransitionRepository } from '../../workflow/repositories/content-transition.repository';
+import {
+  ContentTransition,
+  WorkflowAction,
+} from '../../workflow/entities/content-transition.entity';
 import { Program } from '../entities/program.entity';
-import { ContentStatus } from '@mediamesh/shared';
+import { ContentStatus, UserRole } from '@mediamesh/shared';
 
 describe('ProgramService', () => {
   let service: ProgramService;
   let repository: jest.Mocked<ProgramRepository>;
-  let kafkaService: jest.Mocked<KafkaService>;
+  let outboxService: jest.Mocked<OutboxService>;
+  let workflowService: WorkflowService;
+  let transitionRepository: jest.Mocked<ContentTransitionRepository>;
+  let revisionRepository: jest.Mocked<ContentRevisionRepository>;
+
+  const editor = { id: 'user-1', role: UserRole.EDITOR };
+  const reviewer = { id: 'reviewer-1', role: UserRole.REVIEWER };
 
   const mockProgram: Program = {
     id: 'program-1',
@@ -17,6 +38,7 @@ describe('ProgramService', () => {
     description: 'Test Description',
     status: ContentStatus.DRAFT,
     metadataId: undefined,
+    version: 1,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     publishedAt: undefined,
@@ -27,37 +49,85 @@ describe('ProgramService', () => {
     const mockRepository = {
       create: jest.fn(),
       findById: jest.fn(),
+      findByExternalId: jest.fn(),
       findAll: jest.fn(),
       findByStatus: jest.fn(),
+      findScheduledForPublish: jest.fn(),
+      findScheduledForUnpublish: jest.fn(),
       update: jest.fn(),
+      softDelete: jest.fn(),
+      findDeletedById: jest.fn(),
+      restoreDeleted: jest.fn(),
       delete: jest.fn(),
       count: jest.fn(),
       countByStatus: jest.fn(),
     };
 
-    const mockKafkaService = {
-      emitContentCreated: jest.fn(),
-      emitContentUpdated: jest.fn(),
-      emitContentPublished: jest.fn(),
+    const mockPrismaService = {
+      $transaction: jest.fn((fn) => fn({})),
+    };
+
+    const mockOutboxService = {
+      enqueueContentCreated: jest.fn(),
+      enqueueContentUpdated: jest.fn(),
+      enqueueContentPublished: jest.fn(),
+      enqueueContentUnpublished: jest.fn(),
+      enqueueContentDeleted: jest.fn(),
+      enqueueContentArchived: jest.fn(),
+    };
+
+    const mockTransitionRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(
+          new ContentTransition({ id: 'transition-1', ...data, createdAt: new Date('2024-01-02') }),
+        ),
+      ),
+      findByContentId: jest.fn(),
+    };
+
+    const mockRevisionRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(new ContentRevision({ id: 'revision-1', ...data, createdAt: new Date() })),
+      ),
+      findLatest: jest.fn().mockResolvedValue(null),
+      findByRevision: jest.fn(),
+      findByContentId: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         ProgramService,
+        RevisionService,
+        {
+          provide: ContentRevisionRepository,
+          useValue: mockRevisionRepository,
+        },
+        WorkflowService,
+        {
+          provide: ContentTransitionRepository,
+          useValue: mockTransitionRepository,
+        },
         {
           provide: ProgramRepository,
           useValue: mockRepository,
         },
         {
-          provide: KafkaService,
-          useValue: mockKafkaService,
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: OutboxService,
+          useValue: mockOutboxService,
         },
       ],
     }).compile();
 
     service = module.get<ProgramService>(ProgramService);
     repository = module.get(ProgramRepository);
-    kafkaService = module.get(KafkaService);
+    outboxService = module.get(OutboxService);
+    workflowService = module.get<WorkflowService>(WorkflowService);
+    transitionRepository = module.get(ContentTransitionRepository);
+    revisionRepository = module.get(ContentRevisionRepository);
   });
 
   afterEach(() => {
@@ -77,14 +147,17 @@ describe('ProgramService', () => {
       const result = await service.create(createData);
 
       expect(result).toEqual(createdProgram);
-      expect(repository.create).toHaveBeenCalledWith({
-        title: createData.title,
-        description: createData.description,
-        status: ContentStatus.DRAFT,
-        metadataId: undefined,
-        publishedAt: undefined,
-      });
-      expect(kafkaService.emitContentCreated).toHaveBeenCalledWith({
+      expect(repository.create).toHaveBeenCalledWith(
+        {
+          title: createData.title,
+          description: createData.description,
+          status: ContentStatus.DRAFT,
+          metadataId: undefined,
+          publishedAt: undefined,
+        },
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentCreated).toHaveBeenCalledWith(expect.anything(), {
         contentId: createdProgram.id,
         contentType: 'PROGRAM',
         title: createdProgram.title,
@@ -95,7 +168,37 @@ describe('ProgramService', () => {
       });
     });
 
-    it('should create a program with PUBLISHED status and set publishedAt', async () => {
+    it('should reject a duplicate external ID', async () => {
+      repository.findByExternalId.mockResolvedValue(mockProgram);
+
+      await expect(service.create({ title: 'New Program', externalId: 'feed-1' })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(repository.findByExternalId).toHaveBeenCalledWith('feed-1');
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an external ID taken by a concurrent create', async () => {
+      repository.findByExternalId.mockResolvedValue(null);
+      repository.create.mockRejectedValue(
+        Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }),
+      );
+
+      await expect(service.create({ title: 'New Program', externalId: 'feed-1' })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(outboxService.enqueueContentCreated).not.toHaveBeenCalled();
+    });
+
+    it('should reject creating a PUBLISHED program when review is required', async () => {
+      await expect(
+        service.create({ title: 'Published Program', status: ContentStatus.PUBLISHED }),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should create a PUBLISHED program and set publishedAt when review is off', async () => {
+      jest.spyOn(workflowService, 'isReviewRequired').mockReturnValue(false);
       const createData = {
         title: 'Published Program',
         status: ContentStatus.PUBLISHED,
@@ -113,14 +216,17 @@ describe('ProgramService', () => {
       const result = await service.create(createData);
 
       expect(result).toEqual(createdProgram);
-      expect(repository.create).toHaveBeenCalledWith({
-        title: createData.title,
-        description: undefined,
-        status: ContentStatus.PUBLISHED,
-        metadataId: undefined,
-        publishedAt: expect.any(Date),
-      });
-      expect(kafkaService.emitContentCreated).toHaveBeenCalled();
+      expect(repository.create).toHaveBeenCalledWith(
+        {
+          title: createData.title,
+          description: undefined,
+          status: ContentStatus.PUBLISHED,
+          metadataId: undefined,
+          publishedAt: expect.any(Date),
+        },
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentCreated).toHaveBeenCalled();
     });
 
     it('should create a program with metadataId', async () => {
@@ -135,13 +241,16 @@ describe('ProgramService', () => {
       const result = await service.create(createData);
 
       expect(result).toEqual(createdProgram);
-      expect(repository.create).toHaveBeenCalledWith({
-        title: createData.title,
-        description: undefined,
-        status: ContentStatus.DRAFT,
-        metadataId: 'metadata-1',
-        publishedAt: undefined,
-      });
+      expect(repository.create).toHaveBeenCalledWith(
+        {
+          title: createData.title,
+          description: undefined,
+          status: ContentStatus.DRAFT,
+          metadataId: 'metadata-1',
+          publishedAt: undefined,
+        },
+        expect.anything(),
+      );
     });
   });
 
@@ -209,7 +318,12 @@ describe('ProgramService', () => {
         description: 'Updated Description',
       };
 
-      const updatedProgram = { ...existingProgram, ...updateData, updatedAt: new Date() , toDto: jest.fn() };
+      const updatedProgram = {
+        ...existingProgram,
+        ...updateData,
+        updatedAt: new Date(),
+        toDto: jest.fn(),
+      };
       repository.findById.mockResolvedValue(existingProgram);
       repository.update.mockResolvedValue(updatedProgram);
 
@@ -217,20 +331,21 @@ describe('ProgramService', () => {
 
       expect(result).toEqual(updatedProgram);
       expect(repository.update).toHaveBeenCalled();
-      expect(kafkaService.emitContentUpdated).toHaveBeenCalled();
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalled();
     });
 
     it('should track changes and emit updated event', async () => {
       const existingProgram = { ...mockProgram, toDto: jest.fn(), title: 'Old Title' };
       const updateData = { title: 'New Title' };
 
-      const updatedProgram = { ...existingProgram, ...updateData , toDto: jest.fn() };
+      const updatedProgram = { ...existingProgram, ...updateData, toDto: jest.fn() };
       repository.findById.mockResolvedValue(existingProgram);
       repository.update.mockResolvedValue(updatedProgram);
 
       await service.update('program-1', updateData);
 
-      expect(kafkaService.emitContentUpdated).toHaveBeenCalledWith(
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
         expect.objectContaining({
           contentId: 'program-1',
           contentType: 'PROGRAM',
@@ -243,16 +358,34 @@ describe('ProgramService', () => {
     });
 
     it('should validate status transition', async () => {
-      const existingProgram = { ...mockProgram, toDto: jest.fn(), status: ContentStatus.DRAFT };
-      const updateData = { status: ContentStatus.PUBLISHED };
+      const existingProgram = { ...mockProgram, toDto: jest.fn(), status: ContentStatus.PUBLISHED };
+      const updateData = { status: ContentStatus.DRAFT };
 
       repository.findById.mockResolvedValue(existingProgram);
-      repository.update.mockResolvedValue({ ...existingProgram, ...updateData , toDto: jest.fn() });
+      repository.update.mockResolvedValue({ ...existingProgram, ...updateData, toDto: jest.fn() });
 
-      const result = await service.update('program-1', updateData);
+      const result = await service.update('program-1', updateData, 'user-1');
 
-      expect(result.status).toBe(ContentStatus.PUBLISHED);
+      expect(result.status).toBe(ContentStatus.DRAFT);
       expect(repository.update).toHaveBeenCalled();
+      expect(transitionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: WorkflowAction.UNPUBLISH,
+          fromStatus: ContentStatus.PUBLISHED,
+          toStatus: ContentStatus.DRAFT,
+          actorId: 'user-1',
+        }),
+        expect.anything(),
+      );
+    });
+
+    it('should reject publishing via update when review is required', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+
+      await expect(
+        service.update('program-1', { status: ContentStatus.PUBLISHED }),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.update).not.toHaveBeenCalled();
     });
 
     it('should throw BadRequestException for invalid status transition', async () => {
@@ -264,7 +397,8 @@ describe('ProgramService', () => {
       await expect(service.update('program-1', updateData)).rejects.toThrow(BadRequestException);
     });
 
-    it('should set publishedAt when publishing via update', async () => {
+    it('should set publishedAt when publishing via update with review off', async () => {
+      jest.spyOn(workflowService, 'isReviewRequired').mockReturnValue(false);
       const existingProgram = { ...mockProgram, toDto: jest.fn(), status: ContentStatus.DRAFT };
       const updateData = { status: ContentStatus.PUBLISHED };
       const publishedAt = new Date();
@@ -284,19 +418,209 @@ describe('ProgramService', () => {
           status: ContentStatus.PUBLISHED,
           publishedAt: expect.any(Date),
         }),
+        expect.anything(),
+        undefined,
+      );
+    });
+
+    it('should guard the update with the expected version', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+      repository.update.mockResolvedValue({
+        ...mockProgram,
+        title: 'New Title',
+        version: 2,
+        toDto: jest.fn(),
+      });
+
+      const result = await service.update('program-1', { title: 'New Title' }, 'user-1', 1);
+
+      expect(result.version).toBe(2);
+      expect(repository.update).toHaveBeenCalledWith(
+        'program-1',
+        expect.objectContaining({ title: 'New Title' }),
+        expect.anything(),
+        1,
       );
     });
+
+    it('should throw PreconditionFailedException on a concurrent change', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+      repository.update.mockRejectedValue(Object.assign(new Error('Not found'), { code: 'P2025' }));
+
+      await expect(
+        service.update('program-1', { title: 'New Title' }, 'user-1', 1),
+      ).rejects.toThrow(PreconditionFailedException);
+      expect(outboxService.enqueueContentUpdated).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revisions', () => {
+    const revision2 = new ContentRevision({
+      id: 'revision-2',
+      contentId: 'program-1',
+      contentType: 'PROGRAM',
+      revision: 2,
+      action: RevisionAction.UPDATE,
+      snapshot: { title: 'Old Title', description: 'Old Description', metadataId: null },
+      createdAt: new Date('2024-01-02'),
+    });
+    const currentSnapshot = {
+      title: 'Test Program',
+      description: 'Test Description',
+      metadataId: null,
+    };
+
+    it('should record an UPDATE revision with the author', async () => {
+      const updatedProgram = { ...mockProgram, title: 'New Title', toDto: jest.fn() };
+      repository.findById.mockResolvedValue(mockProgram);
+      repository.update.mockResolvedValue(updatedProgram);
+      revisionRepository.findLatest.mockResolvedValue(
+        new ContentRevision({ ...revision2, snapshot: currentSnapshot }),
+      );
+
+      await service.update('program-1', { title: 'New Title' }, 'user-1');
+
+      expect(revisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          revision: 3,
+          action: RevisionAction.UPDATE,
+          diff: { title: { old: 'Test Program', new: 'New Title' } },
+          authorId: 'user-1',
+        }),
+        expect.anything(),
+      );
+    });
+
+    it('should restore fields from a revision and emit content.updated', async () => {
+      const restoredProgram = {
+        ...mockProgram,
+        title: 'Old Title',
+        description: 'Old Description',
+        toDto: jest.fn(),
+      };
+      repository.findById.mockResolvedValue(mockProgram);
+      repository.update.mockResolvedValue(restoredProgram);
+      revisionRepository.findByRevision.mockResolvedValue(revision2);
+      revisionRepository.findLatest.mockResolvedValue(
+        new ContentRevision({ ...revision2, revision: 3, snapshot: currentSnapshot }),
+      );
+
+      const result = await service.restoreRevision('program-1', 2, 'user-1');
+
+      expect(result.title).toBe('Old Title');
+      expect(repository.update).toHaveBeenCalledWith(
+        'program-1',
+        { title: 'Old Title', description: 'Old Description', metadataId: null },
+        expect.anything(),
+      );
+      expect(revisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          revision: 4,
+          action: RevisionAction.RESTORE,
+          restoredFrom: 2,
+          authorId: 'user-1',
+        }),
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'program-1',
+          updatedBy: 'user-1',
+          changes: {
+            title: { old: 'Test Program', new: 'Old Title' },
+            description: { old: 'Test Description', new: 'Old Description' },
+            restoredFromRevision: { old: null, new: 2 },
+          },
+        }),
+      );
+    });
+
+    it('should not write anything if the program already matches the revision', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+      revisionRepository.findByRevision.mockResolvedValue(
+        new ContentRevision({ ...revision2, snapshot: currentSnapshot }),
+      );
+
+      await service.restoreRevision('program-1', 2);
+
+      expect(repository.update).not.toHaveBeenCalled();
+      expect(outboxService.enqueueContentUpdated).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if revision not found', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+      revisionRepository.findByRevision.mockResolvedValue(null);
+
+      await expect(service.restoreRevision('program-1', 9)).rejects.toThrow(
+        expect.objectContaining({
+          message: expect.stringContaining('Revision'),
+        }),
+      );
+      expect(repository.update).not.toHaveBeenCalled();
+    });
   });
 
   describe('delete', () => {
-    it('should delete a program', async () => {
+    it('should move a program to the trash', async () => {
       repository.findById.mockResolvedValue(mockProgram);
-      repository.delete.mockResolvedValue(undefined);
+      repository.softDelete.mockResolvedValue([]);
 
-      await service.delete('program-1');
+      await service.delete('program-1', 'user-1');
 
       expect(repository.findById).toHaveBeenCalledWith('program-1');
-      expect(repository.delete).toHaveBeenCalledWith('program-1');
+      expect(repository.softDelete).toHaveBeenCalledWith(
+        'program-1',
+        expect.any(Date),
+        expect.anything(),
+        undefined,
+      );
+      expect(repository.delete).not.toHaveBeenCalled();
+      expect(outboxService.enqueueContentUnpublished).toHaveBeenCalledWith(expect.anything(), {
+        contentId: 'program-1',
+        contentType: 'PROGRAM',
+        title: mockProgram.title,
+        unpublishedBy: 'user-1',
+        unpublishedAt: expect.any(Date),
+      });
+      expect(outboxService.enqueueContentDeleted).not.toHaveBeenCalled();
+    });
+
+    it('should throw PreconditionFailedException when deleting a stale version', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+      repository.softDelete.mockRejectedValue(
+        Object.assign(new Error('Not found'), { code: 'P2025' }),
+      );
+
+      await expect(service.delete('program-1', 'user-1', 1)).rejects.toThrow(
+        PreconditionFailedException,
+      );
+      expect(outboxService.enqueueContentUnpublished).not.toHaveBeenCalled();
+    });
+
+    it('should emit content.unpublished for every episode moved with it', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+      repository.softDelete.mockResolvedValue([
+        { id: 'episode-1', title: 'Episode 1' },
+        { id: 'episode-2', title: 'Episode 2' },
+      ]);
+
+      await service.delete('program-1');
+
+      expect(outboxService.enqueueContentUnpublished).toHaveBeenCalledTimes(3);
+      expect(outboxService.enqueueContentUnpublished).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'episode-2',
+          contentType: 'EPISODE',
+          title: 'Episode 2',
+          programId: 'program-1',
+        }),
+      );
+      expect(outboxService.enqueueContentUnpublished).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.objectContaining({ contentId: 'program-1', contentType: 'PROGRAM' }),
+      );
     });
 
     it('should throw NotFoundException if program not found', async () => {
@@ -310,36 +634,161 @@ describe('ProgramService', () => {
     });
   });
 
+  describe('restoreDeleted', () => {
+    const deletedAt = new Date('2024-03-01T00:00:00.000Z');
+
+    it('should restore the program and the episodes deleted with it', async () => {
+      repository.findDeletedById.mockResolvedValue({ ...mockProgram, deletedAt } as any);
+      repository.restoreDeleted.mockResolvedValue({
+        program: mockProgram,
+        episodes: [{ id: 'episode-1', title: 'Episode 1', status: 'PUBLISHED' }],
+      });
+
+      const result = await service.restoreDeleted('program-1', 'admin-1');
+
+      expect(result).toEqual(mockProgram);
+      expect(repository.restoreDeleted).toHaveBeenCalledWith(
+        'program-1',
+        deletedAt,
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledTimes(2);
+      expect(outboxService.enqueueContentUpdated).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'program-1',
+          contentType: 'PROGRAM',
+          updatedBy: 'admin-1',
+          changes: { deletedAt: { old: '2024-03-01T00:00:00.000Z', new: null } },
+        }),
+      );
+    });
+
+    it('should throw NotFoundException if the program is not in the trash', async () => {
+      repository.findDeletedById.mockResolvedValue(null);
+
+      await expect(service.restoreDeleted('program-1')).rejects.toThrow(
+        "Program with identifier 'program-1' not found",
+      );
+      expect(repository.restoreDeleted).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException if another program has taken its external ID', async () => {
+      repository.findDeletedById.mockResolvedValue({
+        ...mockProgram,
+        externalId: 'feed-1',
+        deletedAt,
+      } as any);
+      repository.findByExternalId.mockResolvedValue({ ...mockProgram, id: 'program-2' } as any);
+
+      await expect(service.restoreDeleted('program-1')).rejects.toThrow(ConflictException);
+      expect(repository.findByExternalId).toHaveBeenCalledWith('feed-1');
+      expect(repository.restoreDeleted).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purge', () => {
+    const deletedAt = new Date('2024-03-01T00:00:00.000Z');
+    const now = new Date('2024-04-01T00:00:00.000Z');
+
+    it('should delete the program permanently and emit content.deleted', async () => {
+      repository.findDeletedById.mockResolvedValue({ ...mockProgram, deletedAt } as any);
+      repository.delete.mockResolvedValue([{ id: 'episode-1', title: 'Episode 1' }]);
+
+      const result = await service.purge('program-1', new Date('2024-03-02'), now);
+
+      expect(result).toBe(true);
+      expect(repository.delete).toHaveBeenCalledWith('program-1', expect.anything());
+      expect(outboxService.enqueueContentDeleted).toHaveBeenCalledTimes(2);
+      expect(outboxService.enqueueContentDeleted).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ contentId: 'episode-1', programId: 'program-1', deletedAt: now }),
+      );
+      expect(outboxService.enqueueContentDeleted).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.objectContaining({ contentId: 'program-1', contentType: 'PROGRAM' }),
+      );
+    });
+
+    it('should skip a program deleted after the cutoff', async () => {
+      repository.findDeletedById.mockResolvedValue({ ...mockProgram, deletedAt } as any);
+
+      const result = await service.purge('program-1', new Date('2024-02-01'), now);
+
+      expect(result).toBe(false);
+      expect(repository.delete).not.toHaveBeenCalled();
+    });
+  });
+
   describe('publish', () => {
-    it('should publish a DRAFT program', async () => {
-      const draftProgram = { ...mockProgram, toDto: jest.fn(), status: ContentStatus.DRAFT };
+    it('should publish an APPROVED program', async () => {
+      const approvedProgram = { ...mockProgram, toDto: jest.fn(), status: ContentStatus.APPROVED };
       const publishedAt = new Date();
       const publishedProgram = {
-        ...draftProgram,
+        ...approvedProgram,
         status: ContentStatus.PUBLISHED,
         publishedAt,
         toDto: jest.fn(),
       };
 
-      repository.findById.mockResolvedValue(draftProgram);
+      repository.findById.mockResolvedValue(approvedProgram);
       repository.update.mockResolvedValue(publishedProgram);
 
-      const result = await service.publish('program-1');
+      const result = await service.publish('program-1', editor);
 
       expect(result.status).toBe(ContentStatus.PUBLISHED);
       expect(result.publishedAt).toBeDefined();
-      expect(repository.update).toHaveBeenCalledWith('program-1', {
-        status: ContentStatus.PUBLISHED,
-        publishedAt: expect.any(Date),
-      });
-      expect(kafkaService.emitContentPublished).toHaveBeenCalledWith(
+      expect(repository.update).toHaveBeenCalledWith(
+        'program-1',
+        {
+          status: ContentStatus.PUBLISHED,
+          publishedAt: expect.any(Date),
+        },
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentPublished).toHaveBeenCalledWith(
+        expect.anything(),
         expect.objectContaining({
           contentId: 'program-1',
           contentType: 'PROGRAM',
-          title: draftProgram.title,
+          title: approvedProgram.title,
           publishedAt: expect.any(Date),
         }),
       );
+      expect(transitionRepository.create).toHaveBeenCalledWith(
+        {
+          contentId: 'program-1',
+          contentType: 'PROGRAM',
+          action: WorkflowAction.PUBLISH,
+          fromStatus: ContentStatus.APPROVED,
+          toStatus: ContentStatus.PUBLISHED,
+          actorId: 'user-1',
+          actorRole: UserRole.EDITOR,
+        },
+        expect.anything(),
+      );
+    });
+
+    it('should throw BadRequestException for a DRAFT program when review is required', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+
+      await expect(service.publish('program-1', editor)).rejects.toThrow(BadRequestException);
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should publish a DRAFT program when review is off', async () => {
+      jest.spyOn(workflowService, 'isReviewRequired').mockReturnValue(false);
+      repository.findById.mockResolvedValue(mockProgram);
+      repository.update.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.PUBLISHED,
+        publishedAt: new Date(),
+        toDto: jest.fn(),
+      });
+
+      const result = await service.publish('program-1', editor);
+
+      expect(result.status).toBe(ContentStatus.PUBLISHED);
     });
 
     it('should throw ConflictException if program already published', async () => {
@@ -356,7 +805,7 @@ describe('ProgramService', () => {
       expect(repository.update).not.toHaveBeenCalled();
     });
 
-    it('should throw BadRequestException if program not in DRAFT status', async () => {
+    it('should throw BadRequestException if program not in APPROVED status', async () => {
       const archivedProgram = {
         ...mockProgram,
         status: 'ARCHIVED' as any,
@@ -392,9 +841,20 @@ describe('ProgramService', () => {
 
       expect(result.status).toBe(ContentStatus.DRAFT);
       expect(result.publishedAt).toBe(publishedAt); // Preserved for history
-      expect(repository.update).toHaveBeenCalledWith('program-1', {
-        status: ContentStatus.DRAFT,
-      });
+      expect(repository.update).toHaveBeenCalledWith(
+        'program-1',
+        {
+          status: ContentStatus.DRAFT,
+        },
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentUnpublished).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'program-1',
+          contentType: 'PROGRAM',
+        }),
+      );
     });
 
     it('should throw ConflictException if program already in DRAFT', async () => {
@@ -415,6 +875,396 @@ describe('ProgramService', () => {
     });
   });
 
+  describe('schedule', () => {
+    const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const inOneWeek = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+    it('should move an APPROVED program to SCHEDULED', async () => {
+      const publishAt = inOneDay();
+      const unpublishAt = inOneWeek();
+      const scheduledProgram = {
+        ...mockProgram,
+        status: ContentStatus.SCHEDULED,
+        publishAt,
+        unpublishAt,
+        toDto: jest.fn(),
+      };
+
+      repository.findById.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.APPROVED,
+        toDto: jest.fn(),
+      });
+      repository.update.mockResolvedValue(scheduledProgram);
+
+      const result = await service.schedule('program-1', { publishAt, unpublishAt }, 'user-1');
+
+      expect(result.status).toBe(ContentStatus.SCHEDULED);
+      expect(repository.update).toHaveBeenCalledWith(
+        'program-1',
+        { status: ContentStatus.SCHEDULED, publishAt, unpublishAt },
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          updatedBy: 'user-1',
+          changes: expect.objectContaining({
+            status: { old: ContentStatus.APPROVED, new: ContentStatus.SCHEDULED },
+            transition: expect.objectContaining({ old: ContentStatus.APPROVED }),
+          }),
+        }),
+      );
+    });
+
+    it('should set only an unpublish time on a PUBLISHED program', async () => {
+      const unpublishAt = inOneWeek();
+      const publishedProgram = {
+        ...mockProgram,
+        status: ContentStatus.PUBLISHED,
+        publishedAt: new Date(),
+        toDto: jest.fn(),
+      };
+
+      repository.findById.mockResolvedValue(publishedProgram);
+      repository.update.mockResolvedValue({ ...publishedProgram, unpublishAt, toDto: jest.fn() });
+
+      await service.schedule('program-1', { unpublishAt });
+
+      expect(repository.update).toHaveBeenCalledWith(
+        'program-1',
+        { status: ContentStatus.PUBLISHED, publishAt: null, unpublishAt },
+        expect.anything(),
+      );
+    });
+
+    it('should reject scheduling a DRAFT program when review is required', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+
+      await expect(service.schedule('program-1', { publishAt: inOneDay() })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject a publishAt in the past', async () => {
+      repository.findById.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.APPROVED,
+        toDto: jest.fn(),
+      });
+
+      await expect(
+        service.schedule('program-1', { publishAt: new Date('2020-01-01') }),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unpublishAt before publishAt', async () => {
+      repository.findById.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.APPROVED,
+        toDto: jest.fn(),
+      });
+
+      await expect(
+        service.schedule('program-1', { publishAt: inOneWeek(), unpublishAt: inOneDay() }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject scheduling publishing of a PUBLISHED program', async () => {
+      repository.findById.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.PUBLISHED,
+        toDto: jest.fn(),
+      });
+
+      await expect(service.schedule('program-1', { publishAt: inOneDay() })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('cancelSchedule', () => {
+    it('should move a SCHEDULED program back to APPROVED', async () => {
+      const scheduledProgram = {
+        ...mockProgram,
+        status: ContentStatus.SCHEDULED,
+        publishAt: new Date(Date.now() + 60000),
+        toDto: jest.fn(),
+      };
+
+      repository.findById.mockResolvedValue(scheduledProgram);
+      repository.update.mockResolvedValue({ ...mockProgram, toDto: jest.fn() });
+
+      await service.cancelSchedule('program-1');
+
+      expect(repository.update).toHaveBeenCalledWith(
+        'program-1',
+        { status: ContentStatus.APPROVED, publishAt: null, unpublishAt: null },
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalled();
+      expect(transitionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ action: WorkflowAction.CANCEL_SCHEDULE }),
+        expect.anything(),
+      );
+    });
+
+    it('should throw BadRequestException if program has no schedule', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+
+      await expect(service.cancelSchedule('program-1')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('publishScheduled', () => {
+    it('should publish a due SCHEDULED program and emit content.published', async () => {
+      const now = new Date();
+      const scheduledProgram = {
+        ...mockProgram,
+        status: ContentStatus.SCHEDULED,
+        publishAt: new Date(now.getTime() - 1000),
+        toDto: jest.fn(),
+      };
+
+      repository.findById.mockResolvedValue(scheduledProgram);
+      repository.update.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.PUBLISHED,
+        publishedAt: now,
+        toDto: jest.fn(),
+      });
+
+      const result = await service.publishScheduled('program-1', now);
+
+      expect(result).toBe(true);
+      expect(repository.update).toHaveBeenCalledWith(
+        'program-1',
+        { status: ContentStatus.PUBLISHED, publishedAt: now, publishAt: null },
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentPublished).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ contentId: 'program-1', publishedAt: now }),
+      );
+    });
+
+    it('should skip a program whose schedule was cancelled', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+
+      const result = await service.publishScheduled('program-1');
+
+      expect(result).toBe(false);
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unpublishScheduled', () => {
+    it('should unpublish a PUBLISHED program past its unpublishAt', async () => {
+      const now = new Date();
+      const publishedProgram = {
+        ...mockProgram,
+        status: ContentStatus.PUBLISHED,
+        unpublishAt: new Date(now.getTime() - 1000),
+        toDto: jest.fn(),
+      };
+
+      repository.findById.mockResolvedValue(publishedProgram);
+      repository.update.mockResolvedValue({ ...mockProgram, toDto: jest.fn() });
+
+      const result = await service.unpublishScheduled('program-1', now);
+
+      expect(result).toBe(true);
+      expect(outboxService.enqueueContentUnpublished).toHaveBeenCalledWith(expect.anything(), {
+        contentId: 'program-1',
+        contentType: 'PROGRAM',
+        title: mockProgram.title,
+        unpublishedAt: now,
+      });
+    });
+  });
+
+  describe('transition', () => {
+    it('should submit a DRAFT program for review and emit the transition', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+      repository.update.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.IN_REVIEW,
+        toDto: jest.fn(),
+      });
+
+      const result = await service.transition('program-1', WorkflowAction.SUBMIT, editor);
+
+      expect(result.status).toBe(ContentStatus.IN_REVIEW);
+      expect(repository.update).toHaveBeenCalledWith(
+        'program-1',
+        { status: ContentStatus.IN_REVIEW },
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          updatedBy: 'user-1',
+          changes: {
+            status: { old: ContentStatus.DRAFT, new: ContentStatus.IN_REVIEW },
+            transition: {
+              old: ContentStatus.DRAFT,
+              new: {
+                action: WorkflowAction.SUBMIT,
+                status: ContentStatus.IN_REVIEW,
+                actorId: 'user-1',
+                actorRole: UserRole.EDITOR,
+                comment: undefined,
+                createdAt: '2024-01-02T00:00:00.000Z',
+              },
+            },
+          },
+        }),
+      );
+    });
+
+    it('should let a reviewer reject with a comment', async () => {
+      const inReviewProgram = { ...mockProgram, status: ContentStatus.IN_REVIEW, toDto: jest.fn() };
+      repository.findById.mockResolvedValue(inReviewProgram);
+      repository.update.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.REJECTED,
+        toDto: jest.fn(),
+      });
+
+      await service.transition('program-1', WorkflowAction.REJECT, reviewer, 'Needs artwork');
+
+      expect(transitionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: WorkflowAction.REJECT,
+          fromStatus: ContentStatus.IN_REVIEW,
+          toStatus: ContentStatus.REJECTED,
+          actorId: 'reviewer-1',
+          comment: 'Needs artwork',
+        }),
+        expect.anything(),
+      );
+    });
+
+    it('should throw ForbiddenException when an editor approves', async () => {
+      repository.findById.mockResolvedValue({
+        ...mockProgram,
+        status: ContentStatus.IN_REVIEW,
+        toDto: jest.fn(),
+      });
+
+      await expect(service.transition('program-1', WorkflowAction.APPROVE, editor)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should delegate PUBLISH to publish', async () => {
+      const publishSpy = jest.spyOn(service, 'publish').mockResolvedValue(mockProgram);
+
+      await service.transition('program-1', WorkflowAction.PUBLISH, editor);
+
+      expect(publishSpy).toHaveBeenCalledWith('program-1', editor);
+    });
+  });
+
+  describe('findTransitions', () => {
+    it('should return the transition history of a program', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+      transitionRepository.findByContentId.mockResolvedValue([]);
+
+      await service.findTransitions('program-1', 0, 10);
+
+      expect(transitionRepository.findByContentId).toHaveBeenCalledWith('program-1', 0, 10);
+    });
+
+    it('should throw NotFoundException if program not found', async () => {
+      repository.findById.mockResolvedValue(null);
+
+      await expect(service.findTransitions('missing')).rejects.toThrow(
+        expect.objectContaining({
+          message: expect.stringContaining('Program'),
+        }),
+      );
+    });
+  });
+
+  describe('archive', () => {
+    it('should archive a PUBLISHED program', async () => {
+      const publishedProgram = {
+        ...mockProgram,
+        status: ContentStatus.PUBLISHED,
+        publishedAt: new Date(),
+        toDto: jest.fn(),
+      };
+      const archivedProgram = {
+        ...publishedProgram,
+        status: ContentStatus.ARCHIVED,
+        toDto: jest.fn(),
+      };
+
+      repository.findById.mockResolvedValue(publishedProgram);
+      repository.update.mockResolvedValue(archivedProgram);
+
+      const result = await service.archive('program-1', 'user-1');
+
+      expect(result.status).toBe(ContentStatus.ARCHIVED);
+      expect(repository.update).toHaveBeenCalledWith(
+        'program-1',
+        { status: ContentStatus.ARCHIVED, publishAt: null, unpublishAt: null },
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentArchived).toHaveBeenCalledWith(expect.anything(), {
+        contentId: 'program-1',
+        contentType: 'PROGRAM',
+        title: mockProgram.title,
+        archivedBy: 'user-1',
+        archivedAt: archivedProgram.updatedAt,
+      });
+    });
+
+    it('should throw ConflictException if program already archived', async () => {
+      const archivedProgram = { ...mockProgram, status: ContentStatus.ARCHIVED, toDto: jest.fn() };
+
+      repository.findById.mockResolvedValue(archivedProgram);
+
+      await expect(service.archive('program-1')).rejects.toThrow(ConflictException);
+      expect(outboxService.enqueueContentArchived).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore an ARCHIVED program to DRAFT', async () => {
+      const archivedProgram = { ...mockProgram, status: ContentStatus.ARCHIVED, toDto: jest.fn() };
+      const restoredProgram = { ...mockProgram, status: ContentStatus.DRAFT, toDto: jest.fn() };
+
+      repository.findById.mockResolvedValue(archivedProgram);
+      repository.update.mockResolvedValue(restoredProgram);
+
+      const result = await service.restore('program-1', 'user-1');
+
+      expect(result.status).toBe(ContentStatus.DRAFT);
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'program-1',
+          updatedBy: 'user-1',
+          changes: {
+            status: { old: ContentStatus.ARCHIVED, new: ContentStatus.DRAFT },
+            transition: expect.objectContaining({ old: ContentStatus.ARCHIVED }),
+          },
+        }),
+      );
+    });
+
+    it('should throw BadRequestException if program is not archived', async () => {
+      repository.findById.mockResolvedValue(mockProgram);
+
+      await expect(service.restore('program-1')).rejects.toThrow(BadRequestException);
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('count', () => {
     it('should return total program count', async () => {
       repository.count.mockResolvedValue(10);
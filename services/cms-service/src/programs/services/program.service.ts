@@ -1,15 +1,37 @@
-import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { ProgramRepository } from '../repositories/program.repository';
 import { Program } from '../entities/program.entity';
 import { ContentStatus } from '@mediamesh/shared';
-import { throwIfNotFound } from '@mediamesh/shared';
-import { KafkaService } from '../../kafka/kafka.service';
+import { throwIfNotFound, isFuture } from '@mediamesh/shared';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { WorkflowService } from '../../workflow/services/workflow.service';
+import {
+  ContentTransition,
+  WorkflowAction,
+  WorkflowActor,
+} from '../../workflow/entities/content-transition.entity';
+import { RevisionService } from '../../revisions/services/revision.service';
+import {
+  ContentRevision,
+  RevisionAction,
+  RevisionSnapshot,
+} from '../../revisions/entities/content-revision.entity';
 
 /**
  * Program Service
  * 
  * Business logic layer for program operations.
  * Handles validation, publishing workflow, and business rules.
+ * Content events are written to the outbox in the same transaction as the change.
+ * Every status change is recorded as a workflow transition and every edit as a revision.
  */
 @Injectable()
 export class ProgramService {
@@ -17,45 +39,82 @@ export class ProgramService {
 
   constructor(
     private readonly programRepository: ProgramRepository,
-    private readonly kafkaService: KafkaService,
+    private readonly prisma: PrismaService,
+    private readonly outboxService: OutboxService,
+    private readonly workflowService: WorkflowService,
+    private readonly revisionService: RevisionService,
   ) {}
 
   /**
    * Create a new program
    */
-  async create(data: {
-    title: string;
-    description?: string;
-    status?: ContentStatus;
-    metadataId?: string;
-  }): Promise<Program> {
+  async create(
+    data: {
+      title: string;
+      description?: string;
+      status?: ContentStatus;
+      metadataId?: string;
+      externalId?: string;
+    },
+    createdBy?: string,
+  ): Promise<Program> {
     this.logger.log(`Creating new program: ${data.title}`);
 
     // Validate status
     const status = data.status || ContentStatus.DRAFT;
+    if (
+      status !== ContentStatus.DRAFT &&
+      (this.workflowService.isReviewRequired() || status !== ContentStatus.PUBLISHED)
+    ) {
+      throw new BadRequestException(
+        `Cannot create program with status: ${status}. Use the review workflow instead.`,
+      );
+    }
 
-    // Create program
-    const program = await this.programRepository.create({
-      title: data.title,
-      description: data.description,
-      status,
-      metadataId: data.metadataId, // Optional FK to metadata service
-      publishedAt: status === ContentStatus.PUBLISHED ? new Date() : undefined,
-    });
+    // Validate external ID is unique
+    if (data.externalId && (await this.programRepository.findByExternalId(data.externalId))) {
+      throw new ConflictException(`Program with external ID ${data.externalId} already exists`);
+    }
 
-    this.logger.log(`Program created: ${program.id} (${program.title})`);
+    // Create program and enqueue content.created event atomically
+    const program = await this.prisma.$transaction(async (tx) => {
+      const created = await this.programRepository
+        .create(
+          {
+            title: data.title,
+            description: data.description,
+            status,
+            metadataId: data.metadataId, // Optional FK to metadata service
+            externalId: data.externalId,
+            publishedAt: status === ContentStatus.PUBLISHED ? new Date() : undefined,
+          },
+          tx,
+        )
+        .catch((error) => this.rethrowUniqueConflict(error, data.externalId));
 
-    // Emit content.created event
-    await this.kafkaService.emitContentCreated({
-      contentId: program.id,
-      contentType: 'PROGRAM',
-      title: program.title,
-      description: program.description,
-      status: program.status,
-      metadataId: program.metadataId,
-      createdAt: program.createdAt,
+      await this.outboxService.enqueueContentCreated(tx, {
+        contentId: created.id,
+        contentType: 'PROGRAM',
+        title: created.title,
+        description: created.description,
+        status: created.status,
+        metadataId: created.metadataId,
+        createdAt: created.createdAt,
+      });
+
+      await this.revisionService.record(tx, {
+        contentId: created.id,
+        contentType: 'PROGRAM',
+        action: RevisionAction.CREATE,
+        snapshot: this.toSnapshot(created),
+        authorId: createdBy,
+      });
+
+      return created;
     });
 
+    this.logger.log(`Program created: ${program.id} (${program.title})`);
+
     return program;
   }
 
@@ -66,6 +125,13 @@ export class ProgramService {
     return await this.programRepository.findAll(skip, take);
   }
 
+  /**
+   * Find program by external (source catalog) ID
+   */
+  async findByExternalId(externalId: string): Promise<Program | null> {
+    return await this.programRepository.findByExternalId(externalId);
+  }
+
   /**
    * Find program by ID
    */
@@ -84,6 +150,9 @@ export class ProgramService {
 
   /**
    * Update program
+   *
+   * When expectedVersion is given (from If-Match) the write fails with 412 if the program
+   * has been modified since that version.
    */
   async update(
     id: string,
@@ -93,6 +162,8 @@ export class ProgramService {
       status?: ContentStatus;
       metadataId?: string;
     },
+    updatedBy?: string,
+    expectedVersion?: number,
   ): Promise<Program> {
     this.logger.log(`Updating program: ${id}`);
 
@@ -128,59 +199,354 @@ export class ProgramService {
       publishedAt = publishedAt;
     }
 
-    // Update program
-    const program = await this.programRepository.update(id, {
-      title: data.title,
-      description: data.description,
-      status: data.status,
-      metadataId: data.metadataId, // Metadata updates handled separately
-      publishedAt,
+    // Update program and enqueue content.updated event atomically
+    const program = await this.prisma.$transaction(async (tx) => {
+      const updated = await this.programRepository
+        .update(
+          id,
+          {
+            title: data.title,
+            description: data.description,
+            status: data.status,
+            metadataId: data.metadataId, // Metadata updates handled separately
+            publishedAt,
+          },
+          tx,
+          expectedVersion,
+        )
+        .catch((error) => this.rethrowVersionConflict(error, id, expectedVersion));
+
+      if (changes.status) {
+        const transition = await this.recordTransition(tx, {
+          programId: id,
+          action:
+            data.status === ContentStatus.PUBLISHED
+              ? WorkflowAction.PUBLISH
+              : WorkflowAction.UNPUBLISH,
+          fromStatus: existingProgram.status,
+          toStatus: updated.status,
+          actorId: updatedBy,
+        });
+        changes.transition = transition.toChange();
+      }
+
+      await this.revisionService.record(tx, {
+        contentId: id,
+        contentType: 'PROGRAM',
+        action: RevisionAction.UPDATE,
+        snapshot: this.toSnapshot(updated),
+        previous: this.toSnapshot(existingProgram),
+        authorId: updatedBy,
+      });
+
+      // Emit content.updated event if there were changes
+      if (Object.keys(changes).length > 0) {
+        await this.outboxService.enqueueContentUpdated(tx, {
+          contentId: updated.id,
+          contentType: 'PROGRAM',
+          title: updated.title,
+          status: updated.status,
+          deletedAt: updated.deletedAt,
+          updatedBy,
+          changes,
+          program: this.toEventProgram(updated),
+        });
+      }
+
+      return updated;
     });
 
     this.logger.log(`Program updated: ${id}`);
 
-    // Emit content.updated event if there were changes
-    if (Object.keys(changes).length > 0) {
-      await this.kafkaService.emitContentUpdated({
+    return program;
+  }
+
+  /**
+   * Get the revision history of a program (newest first)
+   */
+  async findRevisions(id: string, skip: number = 0, take: number = 20): Promise<ContentRevision[]> {
+    await this.findOne(id);
+    return await this.revisionService.findAll(id, skip, take);
+  }
+
+  /**
+   * Get a specific revision of a program
+   */
+  async findRevision(id: string, revision: number): Promise<ContentRevision> {
+    await this.findOne(id);
+    return await this.revisionService.findOne(id, revision);
+  }
+
+  /**
+   * Restore program fields from a revision
+   *
+   * Records a new RESTORE revision (history is never rewritten) and emits content.updated.
+   * Status is not part of revisions and stays under the review workflow.
+   */
+  async restoreRevision(id: string, revision: number, restoredBy?: string): Promise<Program> {
+    this.logger.log(`Restoring program ${id} to revision ${revision}`);
+
+    const program = await this.findOne(id);
+    const source = await this.revisionService.findOne(id, revision);
+
+    const changes = this.revisionService.diff(this.toSnapshot(program), source.snapshot);
+    if (Object.keys(changes).length === 0) {
+      this.logger.log(`Program ${id} already matches revision ${revision}`);
+      return program;
+    }
+
+    // Restore fields, record revision and enqueue content.updated event atomically
+    const restoredProgram = await this.prisma.$transaction(async (tx) => {
+      const restored = await this.programRepository.update(
+        id,
+        {
+          title: source.snapshot.title,
+          description: source.snapshot.description ?? null,
+          metadataId: source.snapshot.metadataId ?? null,
+        },
+        tx,
+      );
+
+      await this.revisionService.record(tx, {
+        contentId: id,
+        contentType: 'PROGRAM',
+        action: RevisionAction.RESTORE,
+        snapshot: this.toSnapshot(restored),
+        previous: this.toSnapshot(program),
+        authorId: restoredBy,
+        restoredFrom: revision,
+      });
+
+      await this.outboxService.enqueueContentUpdated(tx, {
+        contentId: restored.id,
+        contentType: 'PROGRAM',
+        title: restored.title,
+        status: restored.status,
+        deletedAt: restored.deletedAt,
+        updatedBy: restoredBy,
+        changes: {
+          ...changes,
+          restoredFromRevision: { old: null, new: revision },
+        },
+        program: this.toEventProgram(restored),
+      });
+
+      return restored;
+    });
+
+    this.logger.log(`Program ${id} restored to revision ${revision}`);
+    return restoredProgram;
+  }
+
+  /**
+   * Delete program (move it and its episodes to the trash)
+   *
+   * The program stays restorable until TrashPurger removes it after the retention period.
+   * Emits content.unpublished for the program and every episode so it drops out of discovery
+   * and search; content.deleted follows when it is purged.
+   * When expectedVersion is given (from If-Match) the delete fails with 412 on a stale version.
+   */
+  async delete(id: string, deletedBy?: string, expectedVersion?: number): Promise<void> {
+    this.logger.log(`Deleting program: ${id}`);
+
+    // Check if program exists
+    const program = await this.findOne(id);
+
+    // Move program and episodes to the trash and enqueue events atomically
+    const deletedEpisodes = await this.prisma.$transaction(async (tx) => {
+      const deletedAt = new Date();
+      const episodes = await this.programRepository
+        .softDelete(id, deletedAt, tx, expectedVersion)
+        .catch((error) => this.rethrowVersionConflict(error, id, expectedVersion));
+
+      for (const episode of episodes) {
+        await this.outboxService.enqueueContentUnpublished(tx, {
+          contentId: episode.id,
+          contentType: 'EPISODE',
+          title: episode.title,
+          programId: id,
+          unpublishedBy: deletedBy,
+          unpublishedAt: deletedAt,
+        });
+      }
+
+      await this.outboxService.enqueueContentUnpublished(tx, {
         contentId: program.id,
         contentType: 'PROGRAM',
         title: program.title,
+        unpublishedBy: deletedBy,
+        unpublishedAt: deletedAt,
+      });
+
+      return episodes;
+    });
+
+    this.logger.log(`Program moved to trash: ${id} (${deletedEpisodes.length} episode(s) with it)`);
+  }
+
+  /**
+   * Take a program out of the trash, together with the episodes deleted along with it
+   *
+   * Fails with 409 when another program has taken its external ID in the meantime.
+   * Emits content.updated with the deletedAt change for the program and each episode.
+   */
+  async restoreDeleted(id: string, restoredBy?: string): Promise<Program> {
+    this.logger.log(`Restoring program from trash: ${id}`);
+
+    const program = await this.programRepository.findDeletedById(id);
+    throwIfNotFound(program, 'Program', id);
+
+    if (program.externalId && (await this.programRepository.findByExternalId(program.externalId))) {
+      throw new ConflictException(`Program with external ID ${program.externalId} already exists`);
+    }
+
+    const restoredProgram = await this.prisma.$transaction(async (tx) => {
+      const restored = await this.programRepository
+        .restoreDeleted(id, program.deletedAt!, tx)
+        .catch((error) => this.rethrowUniqueConflict(error, program.externalId));
+      const changes = {
+        deletedAt: { old: program.deletedAt!.toISOString(), new: null },
+      };
+
+      for (const episode of restored.episodes) {
+        await this.outboxService.enqueueContentUpdated(tx, {
+          contentId: episode.id,
+          contentType: 'EPISODE',
+          title: episode.title,
+          status: episode.status,
+          updatedBy: restoredBy,
+          changes,
+          program: this.toEventProgram(restored.program),
+        });
+      }
+
+      await this.outboxService.enqueueContentUpdated(tx, {
+        contentId: restored.program.id,
+        contentType: 'PROGRAM',
+        title: restored.program.title,
+        status: restored.program.status,
+        deletedAt: restored.program.deletedAt,
+        updatedBy: restoredBy,
         changes,
-        program: {
-          id: program.id,
-          title: program.title,
-          description: program.description,
-          status: program.status,
-          metadataId: program.metadataId,
-          createdAt: program.createdAt.toISOString(),
-          updatedAt: program.updatedAt.toISOString(),
-          publishedAt: program.publishedAt?.toISOString(),
-        },
+        program: this.toEventProgram(restored.program),
       });
+
+      return restored.program;
+    });
+
+    this.logger.log(`Program restored from trash: ${id}`);
+    return restoredProgram;
+  }
+
+  /**
+   * Permanently delete a program from the trash (called by TrashPurger)
+   *
+   * Emits content.deleted for the program and for every episode removed by the cascade.
+   *
+   * @returns false if the program is no longer in the trash or was deleted after the cutoff
+   */
+  async purge(id: string, before: Date, now: Date = new Date()): Promise<boolean> {
+    const program = await this.programRepository.findDeletedById(id);
+    if (!program || program.deletedAt! > before) {
+      return false;
     }
 
-    return program;
+    await this.prisma.$transaction(async (tx) => {
+      const episodes = await this.programRepository.delete(id, tx);
+
+      for (const episode of episodes) {
+        await this.outboxService.enqueueContentDeleted(tx, {
+          contentId: episode.id,
+          contentType: 'EPISODE',
+          title: episode.title,
+          programId: id,
+          deletedAt: now,
+        });
+      }
+
+      await this.outboxService.enqueueContentDeleted(tx, {
+        contentId: program.id,
+        contentType: 'PROGRAM',
+        title: program.title,
+        deletedAt: now,
+      });
+    });
+
+    this.logger.log(`Program purged from trash: ${id}`);
+    return true;
   }
 
   /**
-   * Delete program
+   * Apply an editorial workflow action (submit, approve, reject, withdraw, publish)
+   *
+   * Emits content.updated with the status and the recorded transition in the changes map.
    */
-  async delete(id: string): Promise<void> {
-    this.logger.log(`Deleting program: ${id}`);
+  async transition(
+    id: string,
+    action: WorkflowAction,
+    actor: WorkflowActor,
+    comment?: string,
+  ): Promise<Program> {
+    if (action === WorkflowAction.PUBLISH) {
+      return await this.publish(id, actor);
+    }
 
-    // Check if program exists
-    await this.findOne(id);
+    this.logger.log(`Applying ${action} to program: ${id}`);
+
+    const program = await this.findOne(id);
+    const status = this.workflowService.resolve(action, program.status, actor, comment);
+
+    // Update status, record transition and enqueue content.updated event atomically
+    const transitionedProgram = await this.prisma.$transaction(async (tx) => {
+      const updated = await this.programRepository.update(id, { status }, tx);
+
+      const transition = await this.recordTransition(tx, {
+        programId: id,
+        action,
+        fromStatus: program.status,
+        toStatus: status,
+        actorId: actor.id,
+        actorRole: actor.role,
+        comment,
+      });
+
+      await this.outboxService.enqueueContentUpdated(tx, {
+        contentId: updated.id,
+        contentType: 'PROGRAM',
+        title: updated.title,
+        status: updated.status,
+        deletedAt: updated.deletedAt,
+        updatedBy: actor.id,
+        changes: {
+          status: { old: program.status, new: status },
+          transition: transition.toChange(),
+        },
+        program: this.toEventProgram(updated),
+      });
 
-    // Delete program (cascade will delete episodes)
-    await this.programRepository.delete(id);
+      return updated;
+    });
+
+    this.logger.log(`Program ${id} moved from ${program.status} to ${status}`);
+    return transitionedProgram;
+  }
 
-    this.logger.log(`Program deleted: ${id}`);
+  /**
+   * Get the workflow transition history of a program
+   */
+  async findTransitions(
+    id: string,
+    skip: number = 0,
+    take: number = 50,
+  ): Promise<ContentTransition[]> {
+    await this.findOne(id);
+    return await this.workflowService.findHistory(id, skip, take);
   }
 
   /**
-   * Publish program (DRAFT -> PUBLISHED)
+   * Publish program (APPROVED/SCHEDULED -> PUBLISHED, or DRAFT when review is not required)
    */
-  async publish(id: string): Promise<Program> {
+  async publish(id: string, actor?: WorkflowActor): Promise<Program> {
     this.logger.log(`Publishing program: ${id}`);
 
     const program = await this.findOne(id);
@@ -190,43 +556,50 @@ export class ProgramService {
       throw new ConflictException(`Program ${id} is already published`);
     }
 
-    if (program.status !== ContentStatus.DRAFT) {
-      throw new BadRequestException(`Cannot publish program with status: ${program.status}`);
-    }
+    this.workflowService.resolve(WorkflowAction.PUBLISH, program.status, actor);
 
-    // Publish program
-    const publishedProgram = await this.programRepository.update(id, {
-      status: ContentStatus.PUBLISHED,
-      publishedAt: new Date(),
-    });
+    // Publish program and enqueue content.published event atomically
+    const publishedProgram = await this.prisma.$transaction(async (tx) => {
+      const published = await this.programRepository.update(
+        id,
+        {
+          status: ContentStatus.PUBLISHED,
+          publishedAt: new Date(),
+          // Publishing now supersedes a pending publish schedule
+          ...(program.publishAt && { publishAt: null }),
+        },
+        tx,
+      );
 
-    this.logger.log(`Program published: ${id}`);
+      await this.recordTransition(tx, {
+        programId: id,
+        action: WorkflowAction.PUBLISH,
+        fromStatus: program.status,
+        toStatus: published.status,
+        actorId: actor?.id,
+        actorRole: actor?.role,
+      });
 
-    // Emit content.published event
-    await this.kafkaService.emitContentPublished({
-      contentId: publishedProgram.id,
-      contentType: 'PROGRAM',
-      title: publishedProgram.title,
-      publishedAt: publishedProgram.publishedAt!,
-      program: {
-        id: publishedProgram.id,
-        title: publishedProgram.title,
-        description: publishedProgram.description,
-        status: publishedProgram.status,
-        metadataId: publishedProgram.metadataId,
-        createdAt: publishedProgram.createdAt.toISOString(),
-        updatedAt: publishedProgram.updatedAt.toISOString(),
-        publishedAt: publishedProgram.publishedAt?.toISOString(),
-      },
+      await this.outboxService.enqueueContentPublished(tx, {
+        contentId: published.id,
+        contentType: 'PROGRAM',
+        title: published.title,
+        publishedAt: published.publishedAt!,
+        program: this.toEventProgram(published),
+      });
+
+      return published;
     });
 
+    this.logger.log(`Program published: ${id}`);
+
     return publishedProgram;
   }
 
   /**
    * Unpublish program (PUBLISHED -> DRAFT)
    */
-  async unpublish(id: string): Promise<Program> {
+  async unpublish(id: string, unpublishedBy?: string): Promise<Program> {
     this.logger.log(`Unpublishing program: ${id}`);
 
     const program = await this.findOne(id);
@@ -240,16 +613,509 @@ export class ProgramService {
       throw new BadRequestException(`Cannot unpublish program with status: ${program.status}`);
     }
 
-    // Unpublish program (keep publishedAt for history)
-    const unpublishedProgram = await this.programRepository.update(id, {
-      status: ContentStatus.DRAFT,
-      // Don't clear publishedAt - keep it for history
+    // Unpublish program and enqueue content.unpublished event atomically
+    const unpublishedProgram = await this.prisma.$transaction(async (tx) => {
+      const unpublished = await this.programRepository.update(
+        id,
+        {
+          status: ContentStatus.DRAFT,
+          // Don't clear publishedAt - keep it for history
+          ...(program.unpublishAt && { unpublishAt: null }),
+        },
+        tx,
+      );
+
+      await this.recordTransition(tx, {
+        programId: id,
+        action: WorkflowAction.UNPUBLISH,
+        fromStatus: program.status,
+        toStatus: unpublished.status,
+        actorId: unpublishedBy,
+      });
+
+      await this.outboxService.enqueueContentUnpublished(tx, {
+        contentId: unpublished.id,
+        contentType: 'PROGRAM',
+        title: unpublished.title,
+        unpublishedBy,
+        unpublishedAt: unpublished.updatedAt,
+      });
+
+      return unpublished;
     });
 
     this.logger.log(`Program unpublished: ${id}`);
     return unpublishedProgram;
   }
 
+  /**
+   * Schedule program publishing and/or unpublishing
+   *
+   * Setting publishAt moves an APPROVED program (or DRAFT when review is not required) to
+   * SCHEDULED; setting only unpublishAt puts an embargo end on a SCHEDULED or PUBLISHED
+   * program. Omitted fields keep their current value.
+   */
+  async schedule(
+    id: string,
+    data: { publishAt?: Date; unpublishAt?: Date },
+    scheduledBy?: string,
+  ): Promise<Program> {
+    this.logger.log(`Scheduling program: ${id}`);
+
+    const program = await this.findOne(id);
+
+    if (!data.publishAt && !data.unpublishAt) {
+      throw new BadRequestException('Either publishAt or unpublishAt is required');
+    }
+
+    if (data.publishAt) {
+      if (
+        !this.workflowService.canPublish(program.status) &&
+        program.status !== ContentStatus.SCHEDULED
+      ) {
+        throw new BadRequestException(
+          `Cannot schedule publishing of program with status: ${program.status}`,
+        );
+      }
+    } else if (
+      program.status !== ContentStatus.SCHEDULED &&
+      program.status !== ContentStatus.PUBLISHED
+    ) {
+      throw new BadRequestException(
+        `Cannot schedule unpublishing of program with status: ${program.status}`,
+      );
+    }
+
+    const publishAt = data.publishAt ?? program.publishAt;
+    const unpublishAt = data.unpublishAt ?? program.unpublishAt;
+    this.validateSchedule(data, { publishAt, unpublishAt });
+
+    const status = data.publishAt ? ContentStatus.SCHEDULED : program.status;
+    const changes = this.getScheduleChanges(program, { status, publishAt, unpublishAt });
+
+    // Save schedule and enqueue content.updated event atomically
+    const scheduledProgram = await this.prisma.$transaction(async (tx) => {
+      const scheduled = await this.programRepository.update(
+        id,
+        {
+          status,
+          publishAt: publishAt ?? null,
+          unpublishAt: unpublishAt ?? null,
+        },
+        tx,
+      );
+
+      if (changes.status) {
+        const transition = await this.recordTransition(tx, {
+          programId: id,
+          action: WorkflowAction.SCHEDULE,
+          fromStatus: program.status,
+          toStatus: status,
+          actorId: scheduledBy,
+        });
+        changes.transition = transition.toChange();
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await this.outboxService.enqueueContentUpdated(tx, {
+          contentId: scheduled.id,
+          contentType: 'PROGRAM',
+          title: scheduled.title,
+          status: scheduled.status,
+          deletedAt: scheduled.deletedAt,
+          updatedBy: scheduledBy,
+          changes,
+          program: this.toEventProgram(scheduled),
+        });
+      }
+
+      return scheduled;
+    });
+
+    this.logger.log(`Program scheduled: ${id}`);
+    return scheduledProgram;
+  }
+
+  /**
+   * Cancel upcoming schedule
+   *
+   * A SCHEDULED program goes back to APPROVED (DRAFT when review is not required); a
+   * PUBLISHED program loses its unpublish time.
+   */
+  async cancelSchedule(id: string, cancelledBy?: string): Promise<Program> {
+    this.logger.log(`Cancelling schedule for program: ${id}`);
+
+    const program = await this.findOne(id);
+
+    if (!program.publishAt && !program.unpublishAt) {
+      throw new BadRequestException(`Program ${id} has no upcoming schedule`);
+    }
+
+    const status =
+      program.status === ContentStatus.SCHEDULED ? this.getUnscheduledStatus() : program.status;
+    const changes = this.getScheduleChanges(program, { status });
+
+    // Clear schedule and enqueue content.updated event atomically
+    const cancelledProgram = await this.prisma.$transaction(async (tx) => {
+      const cancelled = await this.programRepository.update(
+        id,
+        {
+          status,
+          publishAt: null,
+          unpublishAt: null,
+        },
+        tx,
+      );
+
+      if (changes.status) {
+        const transition = await this.recordTransition(tx, {
+          programId: id,
+          action: WorkflowAction.CANCEL_SCHEDULE,
+          fromStatus: program.status,
+          toStatus: status,
+          actorId: cancelledBy,
+        });
+        changes.transition = transition.toChange();
+      }
+
+      await this.outboxService.enqueueContentUpdated(tx, {
+        contentId: cancelled.id,
+        contentType: 'PROGRAM',
+        title: cancelled.title,
+        status: cancelled.status,
+        deletedAt: cancelled.deletedAt,
+        updatedBy: cancelledBy,
+        changes,
+        program: this.toEventProgram(cancelled),
+      });
+
+      return cancelled;
+    });
+
+    this.logger.log(`Program schedule cancelled: ${id}`);
+    return cancelledProgram;
+  }
+
+  /**
+   * Publish program whose publishAt has passed (called by ContentScheduler)
+   *
+   * @returns false if the program is no longer due (schedule cancelled or changed meanwhile)
+   */
+  async publishScheduled(id: string, now: Date = new Date()): Promise<boolean> {
+    const program = await this.programRepository.findById(id);
+    if (
+      !program ||
+      program.status !== ContentStatus.SCHEDULED ||
+      !program.publishAt ||
+      program.publishAt > now
+    ) {
+      return false;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const published = await this.programRepository.update(
+        id,
+        {
+          status: ContentStatus.PUBLISHED,
+          publishedAt: now,
+          publishAt: null,
+        },
+        tx,
+      );
+
+      await this.recordTransition(tx, {
+        programId: id,
+        action: WorkflowAction.PUBLISH,
+        fromStatus: ContentStatus.SCHEDULED,
+        toStatus: ContentStatus.PUBLISHED,
+      });
+
+      await this.outboxService.enqueueContentPublished(tx, {
+        contentId: published.id,
+        contentType: 'PROGRAM',
+        title: published.title,
+        publishedAt: published.publishedAt!,
+        program: this.toEventProgram(published),
+      });
+    });
+
+    this.logger.log(`Scheduled program published: ${id}`);
+    return true;
+  }
+
+  /**
+   * Unpublish program whose unpublishAt has passed (called by ContentScheduler)
+   *
+   * @returns false if the program is no longer due (schedule cancelled or changed meanwhile)
+   */
+  async unpublishScheduled(id: string, now: Date = new Date()): Promise<boolean> {
+    const program = await this.programRepository.findById(id);
+    if (
+      !program ||
+      program.status !== ContentStatus.PUBLISHED ||
+      !program.unpublishAt ||
+      program.unpublishAt > now
+    ) {
+      return false;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const unpublished = await this.programRepository.update(
+        id,
+        {
+          status: ContentStatus.DRAFT,
+          unpublishAt: null,
+        },
+        tx,
+      );
+
+      await this.recordTransition(tx, {
+        programId: id,
+        action: WorkflowAction.UNPUBLISH,
+        fromStatus: ContentStatus.PUBLISHED,
+        toStatus: ContentStatus.DRAFT,
+      });
+
+      await this.outboxService.enqueueContentUnpublished(tx, {
+        contentId: unpublished.id,
+        contentType: 'PROGRAM',
+        title: unpublished.title,
+        unpublishedAt: now,
+      });
+    });
+
+    this.logger.log(`Scheduled program unpublished: ${id}`);
+    return true;
+  }
+
+  /**
+   * Archive program (any status -> ARCHIVED)
+   */
+  async archive(id: string, archivedBy?: string): Promise<Program> {
+    this.logger.log(`Archiving program: ${id}`);
+
+    const program = await this.findOne(id);
+
+    if (program.status === ContentStatus.ARCHIVED) {
+      throw new ConflictException(`Program ${id} is already archived`);
+    }
+
+    // Archive program and enqueue content.archived event atomically
+    const archivedProgram = await this.prisma.$transaction(async (tx) => {
+      const archived = await this.programRepository.update(
+        id,
+        {
+          status: ContentStatus.ARCHIVED,
+          // Archived content must not be picked up by the scheduler
+          publishAt: null,
+          unpublishAt: null,
+        },
+        tx,
+      );
+
+      await this.recordTransition(tx, {
+        programId: id,
+        action: WorkflowAction.ARCHIVE,
+        fromStatus: program.status,
+        toStatus: archived.status,
+        actorId: archivedBy,
+      });
+
+      await this.outboxService.enqueueContentArchived(tx, {
+        contentId: archived.id,
+        contentType: 'PROGRAM',
+        title: archived.title,
+        archivedBy,
+        archivedAt: archived.updatedAt,
+      });
+
+      return archived;
+    });
+
+    this.logger.log(`Program archived: ${id}`);
+    return archivedProgram;
+  }
+
+  /**
+   * Restore archived program (ARCHIVED -> DRAFT)
+   */
+  async restore(id: string, restoredBy?: string): Promise<Program> {
+    this.logger.log(`Restoring program: ${id}`);
+
+    const program = await this.findOne(id);
+
+    if (program.status !== ContentStatus.ARCHIVED) {
+      throw new BadRequestException(`Cannot restore program with status: ${program.status}`);
+    }
+
+    // Restore program and enqueue content.updated event atomically
+    const restoredProgram = await this.prisma.$transaction(async (tx) => {
+      const restored = await this.programRepository.update(
+        id,
+        {
+          status: ContentStatus.DRAFT,
+        },
+        tx,
+      );
+
+      const transition = await this.recordTransition(tx, {
+        programId: id,
+        action: WorkflowAction.RESTORE,
+        fromStatus: ContentStatus.ARCHIVED,
+        toStatus: ContentStatus.DRAFT,
+        actorId: restoredBy,
+      });
+
+      await this.outboxService.enqueueContentUpdated(tx, {
+        contentId: restored.id,
+        contentType: 'PROGRAM',
+        title: restored.title,
+        status: restored.status,
+        deletedAt: restored.deletedAt,
+        updatedBy: restoredBy,
+        changes: {
+          status: { old: ContentStatus.ARCHIVED, new: ContentStatus.DRAFT },
+          transition: transition.toChange(),
+        },
+        program: this.toEventProgram(restored),
+      });
+
+      return restored;
+    });
+
+    this.logger.log(`Program restored: ${id}`);
+    return restoredProgram;
+  }
+
+  /**
+   * Validate schedule times: new times in the future, unpublishAt after publishAt
+   */
+  private validateSchedule(
+    data: { publishAt?: Date; unpublishAt?: Date },
+    schedule: { publishAt?: Date; unpublishAt?: Date },
+  ): void {
+    if (data.publishAt && !isFuture(data.publishAt)) {
+      throw new BadRequestException('publishAt must be in the future');
+    }
+
+    if (data.unpublishAt && !isFuture(data.unpublishAt)) {
+      throw new BadRequestException('unpublishAt must be in the future');
+    }
+
+    if (schedule.publishAt && schedule.unpublishAt && schedule.unpublishAt <= schedule.publishAt) {
+      throw new BadRequestException('unpublishAt must be after publishAt');
+    }
+  }
+
+  /**
+   * Track schedule changes for content.updated events
+   */
+  private getScheduleChanges(
+    program: Program,
+    next: { status: ContentStatus; publishAt?: Date; unpublishAt?: Date },
+  ): Record<string, { old: any; new: any }> {
+    const changes: Record<string, { old: any; new: any }> = {};
+    if (next.status !== program.status) {
+      changes.status = { old: program.status, new: next.status };
+    }
+    if (next.publishAt?.getTime() !== program.publishAt?.getTime()) {
+      changes.publishAt = {
+        old: program.publishAt?.toISOString(),
+        new: next.publishAt?.toISOString(),
+      };
+    }
+    if (next.unpublishAt?.getTime() !== program.unpublishAt?.getTime()) {
+      changes.unpublishAt = {
+        old: program.unpublishAt?.toISOString(),
+        new: next.unpublishAt?.toISOString(),
+      };
+    }
+    return changes;
+  }
+
+  /**
+   * Record a program transition within the caller's transaction
+   */
+  private async recordTransition(
+    tx: Prisma.TransactionClient,
+    data: {
+      programId: string;
+      action: WorkflowAction;
+      fromStatus: ContentStatus;
+      toStatus: ContentStatus;
+      actorId?: string;
+      actorRole?: string;
+      comment?: string;
+    },
+  ): Promise<ContentTransition> {
+    const { programId, ...transition } = data;
+    return await this.workflowService.record(tx, {
+      contentId: programId,
+      contentType: 'PROGRAM',
+      ...transition,
+    });
+  }
+
+  /**
+   * Map a version-guarded write that matched no row (Prisma P2025) to 412 Precondition Failed
+   */
+  private rethrowVersionConflict(error: any, id: string, expectedVersion?: number): never {
+    if (expectedVersion !== undefined && error?.code === 'P2025') {
+      throw new PreconditionFailedException(
+        `Program ${id} has been modified since version ${expectedVersion}`,
+      );
+    }
+    throw error;
+  }
+
+  /**
+   * Map a write that hit a unique key (Prisma P2002) to 409 Conflict
+   *
+   * Covers a concurrent request taking the external ID after it was checked.
+   */
+  private rethrowUniqueConflict(error: any, externalId?: string): never {
+    if (error?.code === 'P2002') {
+      throw new ConflictException(`Program with external ID ${externalId} already exists`);
+    }
+    throw error;
+  }
+
+  /**
+   * Status a program returns to when its publish schedule is cancelled
+   */
+  private getUnscheduledStatus(): ContentStatus {
+    return this.workflowService.isReviewRequired() ? ContentStatus.APPROVED : ContentStatus.DRAFT;
+  }
+
+  /**
+   * Editable program fields kept in revisions
+   */
+  private toSnapshot(program: Program): RevisionSnapshot {
+    return {
+      title: program.title,
+      description: program.description ?? null,
+      metadataId: program.metadataId ?? null,
+    };
+  }
+
+  /**
+   * Build program data for event payloads
+   */
+  private toEventProgram(program: Program) {
+    return {
+      id: program.id,
+      title: program.title,
+      description: program.description,
+      status: program.status,
+      metadataId: program.metadataId,
+      createdAt: program.createdAt.toISOString(),
+      updatedAt: program.updatedAt.toISOString(),
+      publishedAt: program.publishedAt?.toISOString(),
+      publishAt: program.publishAt?.toISOString(),
+      unpublishAt: program.unpublishAt?.toISOString(),
+    };
+  }
+
   /**
    * Validate status transition
    */
@@ -260,15 +1126,18 @@ export class ProgramService {
     }
 
     // Valid transitions:
-    // DRAFT -> PUBLISHED (via publish method)
+    // DRAFT -> IN_REVIEW -> APPROVED/REJECTED (via transition method only)
+    // APPROVED -> PUBLISHED (via publish method)
     // PUBLISHED -> DRAFT (via unpublish method)
+    // Any -> ARCHIVED -> DRAFT (via archive/restore methods only)
+    // APPROVED <-> SCHEDULED (via schedule/cancelSchedule methods only)
     // Any -> same (no-op)
 
-    // Direct status updates should only allow DRAFT <-> PUBLISHED
-    const validTransitions = [
-      { from: ContentStatus.DRAFT, to: ContentStatus.PUBLISHED },
-      { from: ContentStatus.PUBLISHED, to: ContentStatus.DRAFT },
-    ];
+    // Direct status updates only allow unpublishing, and publishing drafts when review is off
+    const validTransitions = [{ from: ContentStatus.PUBLISHED, to: ContentStatus.DRAFT }];
+    if (!this.workflowService.isReviewRequired()) {
+      validTransitions.push({ from: ContentStatus.DRAFT, to: ContentStatus.PUBLISHED });
+    }
 
     const isValid = validTransitions.some(
       (transition) => transition.from === currentStatus && transition.to === newStatus,
@@ -276,7 +1145,7 @@ export class ProgramService {
 
     if (!isValid) {
       throw new BadRequestException(
-        `Invalid status transition from ${currentStatus} to ${newStatus}. Use publish() or unpublish() methods.`,
+        `Invalid status transition from ${currentStatus} to ${newStatus}. Use transition(), publish(), unpublish(), schedule(), archive() or restore() methods.`,
       );
     }
   }
@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RevisionAction } from '../entities/content-revision.entity';
+
+/**
+ * Content Revision DTO
+ */
+export class ContentRevisionDto {
+  @ApiProperty({ description: 'Revision ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Content ID' })
+  contentId: string;
+
+  @ApiProperty({ description: 'Content type', enum: ['PROGRAM', 'EPISODE', 'MOVIE'] })
+  contentType: 'PROGRAM' | 'EPISODE' | 'MOVIE';
+
+  @ApiProperty({ description: 'Revision number (1-based)', example: 3 })
+  revision: number;
+
+  @ApiProperty({ description: 'What created the revision', enum: RevisionAction })
+  action: RevisionAction;
+
+  @ApiProperty({
+    description: 'Editable fields after the change',
+    example: { title: 'Morning Show', description: 'Daily news and talk' },
+  })
+  snapshot: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'Changed fields compared to the previous revision',
+    example: { title: { old: 'Morning Shw', new: 'Morning Show' } },
+  })
+  diff?: Record<string, { old: any; new: any }>;
+
+  @ApiPropertyOptional({ description: 'User ID of the author' })
+  authorId?: string;
+
+  @ApiPropertyOptional({ description: 'Source revision (RESTORE only)' })
+  restoredFrom?: number;
+
+  @ApiProperty({ description: 'When the revision was created' })
+  createdAt: string;
+}
@@ -0,0 +1,70 @@
+/**
+ * Revision Action Enum
+ */
+export enum RevisionAction {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  RESTORE = 'RESTORE',
+}
+
+/**
+ * Editable content fields captured by a revision
+ */
+export type RevisionSnapshot = Record<string, any>;
+
+/**
+ * Field changes between two revisions
+ */
+export type RevisionDiff = Record<string, { old: any; new: any }>;
+
+/**
+ * Content Revision Entity
+ *
+ * Full snapshot of a program's, episode's or movie's editable fields after a change,
+ * with the author and the diff against the previous revision.
+ */
+export class ContentRevision {
+  id: string;
+  contentId: string;
+  contentType: 'PROGRAM' | 'EPISODE' | 'MOVIE';
+  revision: number;
+  action: RevisionAction;
+  snapshot: RevisionSnapshot;
+  diff?: RevisionDiff;
+  authorId?: string;
+  restoredFrom?: number; // Source revision for RESTORE
+  createdAt: Date;
+
+  constructor(partial: Partial<ContentRevision>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create ContentRevision entity from Prisma model
+   */
+  static fromPrisma(prismaRevision: {
+    id: string;
+    contentId: string;
+    contentType: string;
+    revision: number;
+    action: string;
+    snapshot: any;
+    diff: any;
+    authorId: string | null;
+    restoredFrom: number | null;
+    createdAt: Date;
+  }): ContentRevision {
+    return new ContentRevision({
+      id: prismaRevision.id,
+      contentId: prismaRevision.contentId,
+      contentType: prismaRevision.contentType as 'PROGRAM' | 'EPISODE' | 'MOVIE',
+      revision: prismaRevision.revision,
+      action: prismaRevision.action as RevisionAction,
+      snapshot: prismaRevision.snapshot,
+      diff: prismaRevision.diff || undefined,
+      authorId: prismaRevision.authorId || undefined,
+      restoredFrom: prismaRevision.restoredFrom ?? undefined,
+      createdAt: prismaRevision.createdAt,
+    });
+  }
+}
@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  ContentRevision,
+  RevisionAction,
+  RevisionDiff,
+  RevisionSnapshot,
+} from '../entities/content-revision.entity';
+
+/**
+ * Content Revision Repository
+ *
+ * Data access layer for program and episode revisions.
+ */
+@Injectable()
+export class ContentRevisionRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a revision
+   *
+   * Pass the transaction client so the row commits together with the content change.
+   */
+  async create(
+    data: {
+      contentId: string;
+      contentType: string;
+      revision: number;
+      action: RevisionAction;
+      snapshot: RevisionSnapshot;
+      diff?: RevisionDiff;
+      authorId?: string;
+      restoredFrom?: number;
+    },
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<ContentRevision> {
+    const prismaRevision = await tx.contentRevision.create({
+      data,
+    });
+
+    return ContentRevision.fromPrisma(prismaRevision);
+  }
+
+  /**
+   * Find the latest revision of a content item
+   */
+  async findLatest(
+    contentId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<ContentRevision | null> {
+    const prismaRevision = await tx.contentRevision.findFirst({
+      where: { contentId },
+      orderBy: { revision: 'desc' },
+    });
+
+    return prismaRevision ? ContentRevision.fromPrisma(prismaRevision) : null;
+  }
+
+  /**
+   * Find a specific revision of a content item
+   */
+  async findByRevision(contentId: string, revision: number): Promise<ContentRevision | null> {
+    const prismaRevision = await this.prisma.contentRevision.findUnique({
+      where: { contentId_revision: { contentId, revision } },
+    });
+
+    return prismaRevision ? ContentRevision.fromPrisma(prismaRevision) : null;
+  }
+
+  /**
+   * Find revisions of a content item (newest first)
+   */
+  async findByContentId(
+    contentId: string,
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<ContentRevision[]> {
+    const prismaRevisions = await this.prisma.contentRevision.findMany({
+      where: { contentId },
+      skip,
+      take,
+      orderBy: { revision: 'desc' },
+    });
+
+    return prismaRevisions.map((revision) => ContentRevision.fromPrisma(revision));
+  }
+}
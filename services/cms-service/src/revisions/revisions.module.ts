@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ContentRevisionRepository } from './repositories/content-revision.repository';
+import { RevisionService } from './services/revision.service';
+
+/**
+ * Revisions Module
+ *
+ * Revision history (snapshots, author, diff) for programs and episodes.
+ */
+@Module({
+  providers: [ContentRevisionRepository, RevisionService],
+  exports: [RevisionService],
+})
+export class RevisionsModule {}
@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RevisionService } from './revision.service';
+import { ContentRevisionRepository } from '../repositories/content-revision.repository';
+import { ContentRevision, RevisionAction } from '../entities/content-revision.entity';
+
+describe('RevisionService', () => {
+  let service: RevisionService;
+  let repository: jest.Mocked<ContentRevisionRepository>;
+
+  const tx = {} as any;
+
+  const buildRevision = (overrides: Partial<ContentRevision>): ContentRevision =>
+    new ContentRevision({
+      id: 'revision-1',
+      contentId: 'program-1',
+      contentType: 'PROGRAM',
+      revision: 1,
+      action: RevisionAction.CREATE,
+      snapshot: { title: 'Old Title', description: null, metadataId: null },
+      createdAt: new Date('2024-01-01'),
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    const mockRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(
+          new ContentRevision({ id: 'revision-new', ...data, createdAt: new Date() }),
+        ),
+      ),
+      findLatest: jest.fn().mockResolvedValue(null),
+      findByRevision: jest.fn(),
+      findByContentId: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RevisionService,
+        {
+          provide: ContentRevisionRepository,
+          useValue: mockRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RevisionService>(RevisionService);
+    repository = module.get(ContentRevisionRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('record', () => {
+    it('should record the first revision without a diff', async () => {
+      const result = await service.record(tx, {
+        contentId: 'program-1',
+        contentType: 'PROGRAM',
+        action: RevisionAction.CREATE,
+        snapshot: { title: 'New Program', description: null, metadataId: null },
+        authorId: 'user-1',
+      });
+
+      expect(result?.revision).toBe(1);
+      expect(repository.create).toHaveBeenCalledWith(
+        {
+          contentId: 'program-1',
+          contentType: 'PROGRAM',
+          revision: 1,
+          action: RevisionAction.CREATE,
+          snapshot: { title: 'New Program', description: null, metadataId: null },
+          diff: undefined,
+          authorId: 'user-1',
+          restoredFrom: undefined,
+        },
+        tx,
+      );
+    });
+
+    it('should increment the revision and store the diff', async () => {
+      repository.findLatest.mockResolvedValue(buildRevision({ revision: 3 }));
+
+      const result = await service.record(tx, {
+        contentId: 'program-1',
+        contentType: 'PROGRAM',
+        action: RevisionAction.UPDATE,
+        snapshot: { title: 'New Title', description: 'Added', metadataId: null },
+        authorId: 'user-2',
+      });
+
+      expect(result?.revision).toBe(4);
+      expect(result?.diff).toEqual({
+        title: { old: 'Old Title', new: 'New Title' },
+        description: { old: null, new: 'Added' },
+      });
+    });
+
+    it('should skip snapshots identical to the latest revision', async () => {
+      repository.findLatest.mockResolvedValue(buildRevision({}));
+
+      const result = await service.record(tx, {
+        contentId: 'program-1',
+        contentType: 'PROGRAM',
+        action: RevisionAction.UPDATE,
+        snapshot: { title: 'Old Title' },
+      });
+
+      expect(result).toBeNull();
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep the previous state as revision 1 for content without history', async () => {
+      const result = await service.record(tx, {
+        contentId: 'program-1',
+        contentType: 'PROGRAM',
+        action: RevisionAction.UPDATE,
+        snapshot: { title: 'New Title' },
+        previous: { title: 'Old Title' },
+        authorId: 'user-1',
+      });
+
+      expect(repository.create).toHaveBeenCalledTimes(2);
+      expect(repository.create).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ revision: 1, snapshot: { title: 'Old Title' } }),
+        tx,
+      );
+      expect(result).toMatchObject({
+        revision: 2,
+        diff: { title: { old: 'Old Title', new: 'New Title' } },
+        authorId: 'user-1',
+      });
+    });
+  });
+
+  describe('findOne', () => {
+    it('should return a revision', async () => {
+      const revision = buildRevision({});
+      repository.findByRevision.mockResolvedValue(revision);
+
+      const result = await service.findOne('program-1', 1);
+
+      expect(result).toBe(revision);
+      expect(repository.findByRevision).toHaveBeenCalledWith('program-1', 1);
+    });
+
+    it('should throw NotFoundException if revision not found', async () => {
+      repository.findByRevision.mockResolvedValue(null);
+
+      await expect(service.findOne('program-1', 9)).rejects.toThrow(
+        expect.objectContaining({
+          message: expect.stringContaining('Revision'),
+        }),
+      );
+    });
+  });
+});
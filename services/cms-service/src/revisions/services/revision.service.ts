@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { throwIfNotFound } from '@mediamesh/shared';
+import { ContentRevisionRepository } from '../repositories/content-revision.repository';
+import {
+  ContentRevision,
+  RevisionAction,
+  RevisionDiff,
+  RevisionSnapshot,
+} from '../entities/content-revision.entity';
+
+/**
+ * Revision Service
+ *
+ * Keeps a numbered history of full snapshots per program/episode. Content services
+ * call record() inside their write transaction after every edit.
+ */
+@Injectable()
+export class RevisionService {
+  constructor(private readonly revisionRepository: ContentRevisionRepository) {}
+
+  /**
+   * Record a revision within the caller's transaction
+   *
+   * Content created before revisions existed has no history yet: pass `previous` so
+   * its state before the edit is kept as the first revision.
+   *
+   * @returns null if the snapshot matches the latest revision
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    data: {
+      contentId: string;
+      contentType: 'PROGRAM' | 'EPISODE' | 'MOVIE';
+      action: RevisionAction;
+      snapshot: RevisionSnapshot;
+      previous?: RevisionSnapshot;
+      authorId?: string;
+      restoredFrom?: number;
+    },
+  ): Promise<ContentRevision | null> {
+    let latest = await this.revisionRepository.findLatest(data.contentId, tx);
+
+    if (!latest && data.previous) {
+      latest = await this.revisionRepository.create(
+        {
+          contentId: data.contentId,
+          contentType: data.contentType,
+          revision: 1,
+          action: RevisionAction.CREATE,
+          snapshot: data.previous,
+        },
+        tx,
+      );
+    }
+
+    const diff = latest ? this.diff(latest.snapshot, data.snapshot) : undefined;
+    if (diff && Object.keys(diff).length === 0) {
+      return null;
+    }
+
+    return await this.revisionRepository.create(
+      {
+        contentId: data.contentId,
+        contentType: data.contentType,
+        revision: (latest?.revision ?? 0) + 1,
+        action: data.action,
+        snapshot: data.snapshot,
+        diff,
+        authorId: data.authorId,
+        restoredFrom: data.restoredFrom,
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Get revisions of a content item (newest first)
+   */
+  async findAll(
+    contentId: string,
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<ContentRevision[]> {
+    return await this.revisionRepository.findByContentId(contentId, skip, take);
+  }
+
+  /**
+   * Get a specific revision of a content item
+   */
+  async findOne(contentId: string, revision: number): Promise<ContentRevision> {
+    const contentRevision = await this.revisionRepository.findByRevision(contentId, revision);
+    throwIfNotFound(contentRevision, 'Revision', `${contentId}:${revision}`);
+    return contentRevision;
+  }
+
+  /**
+   * Compare two snapshots field by field (missing fields count as null)
+   */
+  diff(from: RevisionSnapshot, to: RevisionSnapshot): RevisionDiff {
+    const changes: RevisionDiff = {};
+    const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+    for (const field of fields) {
+      const oldValue = from[field] ?? null;
+      const newValue = to[field] ?? null;
+      if (oldValue !== newValue) {
+        changes[field] = { old: oldValue, new: newValue };
+      }
+    }
+
+    return changes;
+  }
+}
@@ -0,0 +1,103 @@
+import { Controller, Get, Query, UseGuards, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
+import { ScheduleService } from '../services/schedule.service';
+import { ScheduleEntry } from '../entities/schedule-entry.entity';
+import { ScheduleEntryDto } from '../dto/schedule.dto';
+import { JwtAuthGuard, RolesGuard, Roles } from '@mediamesh/shared';
+import { UserRole } from '@mediamesh/shared';
+
+/**
+ * Schedules Controller
+ *
+ * Lists upcoming scheduled publishing across programs and episodes:
+ * - GET /schedules - List upcoming publish/unpublish actions
+ *
+ * Schedules are set and cancelled via /programs/:id/schedule and /episodes/:id/schedule.
+ */
+@ApiTags('Schedules')
+@Controller('schedules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.EDITOR)
+@ApiBearerAuth('JWT-auth')
+export class SchedulesController {
+  constructor(private readonly scheduleService: ScheduleService) {}
+
+  /**
+   * List upcoming schedules
+   * GET /schedules
+   */
+  @Get()
+  @ApiOperation({ summary: 'List upcoming scheduled publish/unpublish actions' })
+  @ApiQuery({ name: 'contentType', required: false, enum: ['PROGRAM', 'EPISODE'] })
+  @ApiQuery({
+    name: 'before',
+    required: false,
+    type: String,
+    description: 'Only actions scheduled at or before this time (ISO 8601)',
+  })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    type: Number,
+    description: 'Number of records to skip',
+  })
+  @ApiQuery({
+    name: 'take',
+    required: false,
+    type: Number,
+    description: 'Number of records to take',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Upcoming schedule entries, soonest first',
+    type: [ScheduleEntryDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid filter',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async findUpcoming(
+    @Query('contentType') contentType?: 'PROGRAM' | 'EPISODE',
+    @Query('before') before?: string,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<ScheduleEntryDto[]> {
+    const skipNum = skip ? parseInt(skip, 10) : 0;
+    const takeNum = take ? parseInt(take, 10) : 20;
+
+    if (contentType && contentType !== 'PROGRAM' && contentType !== 'EPISODE') {
+      throw new BadRequestException('contentType must be PROGRAM or EPISODE');
+    }
+
+    const beforeDate = before ? new Date(before) : undefined;
+    if (beforeDate && isNaN(beforeDate.getTime())) {
+      throw new BadRequestException('before must be a valid ISO 8601 date');
+    }
+
+    const entries = await this.scheduleService.findUpcoming(
+      { contentType, before: beforeDate },
+      skipNum,
+      takeNum,
+    );
+    return entries.map((entry) => this.toDto(entry));
+  }
+
+  /**
+   * Convert ScheduleEntry to DTO
+   */
+  private toDto(entry: ScheduleEntry): ScheduleEntryDto {
+    return {
+      contentId: entry.contentId,
+      contentType: entry.contentType,
+      title: entry.title,
+      programId: entry.programId,
+      status: entry.status,
+      action: entry.action,
+      scheduledAt: entry.scheduledAt.toISOString(),
+    };
+  }
+}
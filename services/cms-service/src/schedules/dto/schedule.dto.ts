@@ -0,0 +1,53 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsDateString } from 'class-validator';
+import { ContentStatus } from '@mediamesh/shared';
+import { ScheduleAction } from '../entities/schedule-entry.entity';
+
+/**
+ * Schedule Content DTO
+ *
+ * Request body for POST /programs/:id/schedule and POST /episodes/:id/schedule.
+ */
+export class ScheduleContentDto {
+  @ApiPropertyOptional({
+    description: 'When to publish the content (moves DRAFT content to SCHEDULED)',
+    example: '2026-12-01T08:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  publishAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'When to unpublish the content (embargo end / takedown date)',
+    example: '2027-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  unpublishAt?: string;
+}
+
+/**
+ * Schedule Entry DTO
+ */
+export class ScheduleEntryDto {
+  @ApiProperty({ description: 'Content ID', example: '550e8400-e29b-41d4-a716-446655440001' })
+  contentId: string;
+
+  @ApiProperty({ description: 'Content type', enum: ['PROGRAM', 'EPISODE'] })
+  contentType: 'PROGRAM' | 'EPISODE';
+
+  @ApiProperty({ description: 'Content title' })
+  title: string;
+
+  @ApiPropertyOptional({ description: 'Program ID (episodes only)' })
+  programId?: string;
+
+  @ApiProperty({ description: 'Current content status', enum: ContentStatus })
+  status: ContentStatus;
+
+  @ApiProperty({ description: 'Scheduled action', enum: ScheduleAction })
+  action: ScheduleAction;
+
+  @ApiProperty({ description: 'When the action runs' })
+  scheduledAt: string;
+}
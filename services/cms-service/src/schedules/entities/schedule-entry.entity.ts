@@ -0,0 +1,60 @@
+import { ContentStatus } from '@mediamesh/shared';
+import { Program } from '../../programs/entities/program.entity';
+import { Episode } from '../../episodes/entities/episode.entity';
+
+/**
+ * Schedule Action Enum
+ */
+export enum ScheduleAction {
+  PUBLISH = 'PUBLISH',
+  UNPUBLISH = 'UNPUBLISH',
+}
+
+/**
+ * Schedule Entry
+ *
+ * One upcoming scheduled status change of a program or episode. Content with both
+ * publishAt and unpublishAt yields two entries.
+ */
+export class ScheduleEntry {
+  contentId: string;
+  contentType: 'PROGRAM' | 'EPISODE';
+  title: string;
+  programId?: string; // For episodes
+  status: ContentStatus;
+  action: ScheduleAction;
+  scheduledAt: Date;
+
+  constructor(partial: Partial<ScheduleEntry>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create ScheduleEntry from a scheduled program
+   */
+  static fromProgram(program: Program, action: ScheduleAction): ScheduleEntry {
+    return new ScheduleEntry({
+      contentId: program.id,
+      contentType: 'PROGRAM',
+      title: program.title,
+      status: program.status,
+      action,
+      scheduledAt: action === ScheduleAction.PUBLISH ? program.publishAt : program.unpublishAt,
+    });
+  }
+
+  /**
+   * Create ScheduleEntry from a scheduled episode
+   */
+  static fromEpisode(episode: Episode, action: ScheduleAction): ScheduleEntry {
+    return new ScheduleEntry({
+      contentId: episode.id,
+      contentType: 'EPISODE',
+      title: episode.title,
+      programId: episode.programId,
+      status: episode.status,
+      action,
+      scheduledAt: action === ScheduleAction.PUBLISH ? episode.publishAt : episode.unpublishAt,
+    });
+  }
+}
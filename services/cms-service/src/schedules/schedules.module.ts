@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { ProgramsModule } from '../programs/programs.module';
+import { EpisodesModule } from '../episodes/episodes.module';
+import { ScheduleService } from './services/schedule.service';
+import { ContentScheduler } from './services/content.scheduler';
+import { SchedulesController } from './controllers/schedules.controller';
+import { JWT_CONFIG } from '../config/env.constants';
+
+/**
+ * Schedules Module
+ *
+ * Scheduled publishing: ContentScheduler applies due publishAt/unpublishAt times
+ * and SchedulesController lists upcoming ones.
+ */
+@Module({
+  imports: [
+    ProgramsModule,
+    EpisodesModule,
+    JwtModule.register({
+      secret: JWT_CONFIG.SECRET,
+      signOptions: {
+        expiresIn: JWT_CONFIG.EXPIRATION_STRING,
+      },
+    }),
+  ],
+  controllers: [SchedulesController],
+  providers: [ScheduleService, ContentScheduler],
+})
+export class SchedulesModule {}
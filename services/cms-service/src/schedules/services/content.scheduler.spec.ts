@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ContentScheduler } from './content.scheduler';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { ProgramService } from '../../programs/services/program.service';
+import { EpisodeRepository } from '../../episodes/repositories/episode.repository';
+import { EpisodeService } from '../../episodes/services/episode.service';
+
+describe('ContentScheduler', () => {
+  let scheduler: ContentScheduler;
+  let programRepository: jest.Mocked<ProgramRepository>;
+  let programService: jest.Mocked<ProgramService>;
+  let episodeRepository: jest.Mocked<EpisodeRepository>;
+  let episodeService: jest.Mocked<EpisodeService>;
+
+  beforeEach(async () => {
+    const mockProgramRepository = {
+      findScheduledForPublish: jest.fn().mockResolvedValue([]),
+      findScheduledForUnpublish: jest.fn().mockResolvedValue([]),
+    };
+
+    const mockProgramService = {
+      publishScheduled: jest.fn().mockResolvedValue(true),
+      unpublishScheduled: jest.fn().mockResolvedValue(true),
+    };
+
+    const mockEpisodeRepository = {
+      findScheduledForPublish: jest.fn().mockResolvedValue([]),
+      findScheduledForUnpublish: jest.fn().mockResolvedValue([]),
+    };
+
+    const mockEpisodeService = {
+      publishScheduled: jest.fn().mockResolvedValue(true),
+      unpublishScheduled: jest.fn().mockResolvedValue(true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ContentScheduler,
+        {
+          provide: ProgramRepository,
+          useValue: mockProgramRepository,
+        },
+        {
+          provide: ProgramService,
+          useValue: mockProgramService,
+        },
+        {
+          provide: EpisodeRepository,
+          useValue: mockEpisodeRepository,
+        },
+        {
+          provide: EpisodeService,
+          useValue: mockEpisodeService,
+        },
+      ],
+    }).compile();
+
+    scheduler = module.get<ContentScheduler>(ContentScheduler);
+    programRepository = module.get(ProgramRepository);
+    programService = module.get(ProgramService);
+    episodeRepository = module.get(EpisodeRepository);
+    episodeService = module.get(EpisodeService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should publish and unpublish due programs and episodes', async () => {
+    const now = new Date();
+    programRepository.findScheduledForPublish.mockResolvedValue([{ id: 'program-1' } as any]);
+    episodeRepository.findScheduledForPublish.mockResolvedValue([{ id: 'episode-1' } as any]);
+    programRepository.findScheduledForUnpublish.mockResolvedValue([{ id: 'program-2' } as any]);
+
+    const result = await scheduler.runDue(now);
+
+    expect(result).toEqual({ published: 2, unpublished: 1 });
+    expect(programRepository.findScheduledForPublish).toHaveBeenCalledWith(now, expect.any(Number));
+    expect(programService.publishScheduled).toHaveBeenCalledWith('program-1', now);
+    expect(episodeService.publishScheduled).toHaveBeenCalledWith('episode-1', now);
+    expect(programService.unpublishScheduled).toHaveBeenCalledWith('program-2', now);
+    expect(episodeService.unpublishScheduled).not.toHaveBeenCalled();
+  });
+
+  it('should publish before unpublishing', async () => {
+    const calls: string[] = [];
+    programRepository.findScheduledForPublish.mockResolvedValue([{ id: 'program-1' } as any]);
+    programRepository.findScheduledForUnpublish.mockImplementation(() => {
+      calls.push('findUnpublish');
+      return Promise.resolve([]);
+    });
+    programService.publishScheduled.mockImplementation(() => {
+      calls.push('publish');
+      return Promise.resolve(true);
+    });
+
+    await scheduler.runDue(new Date());
+
+    expect(calls).toEqual(['publish', 'findUnpublish']);
+  });
+
+  it('should keep going when one item fails', async () => {
+    programRepository.findScheduledForPublish.mockResolvedValue([
+      { id: 'program-1' } as any,
+      { id: 'program-2' } as any,
+    ]);
+    programService.publishScheduled
+      .mockRejectedValueOnce(new Error('database unavailable'))
+      .mockResolvedValueOnce(true);
+
+    const result = await scheduler.runDue(new Date());
+
+    expect(result.published).toBe(1);
+    expect(programService.publishScheduled).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not count items that are no longer due', async () => {
+    episodeRepository.findScheduledForPublish.mockResolvedValue([{ id: 'episode-1' } as any]);
+    episodeService.publishScheduled.mockResolvedValue(false);
+
+    const result = await scheduler.runDue(new Date());
+
+    expect(result.published).toBe(0);
+  });
+});
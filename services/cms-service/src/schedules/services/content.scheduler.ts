@@ -0,0 +1,110 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { ProgramService } from '../../programs/services/program.service';
+import { EpisodeRepository } from '../../episodes/repositories/episode.repository';
+import { EpisodeService } from '../../episodes/services/episode.service';
+import { SCHEDULER_CONFIG } from '../../config/env.constants';
+
+/**
+ * Content Scheduler
+ *
+ * Scheduled worker that flips programs and episodes whose publishAt/unpublishAt has
+ * passed. Publishing runs before unpublishing so content whose whole window elapsed
+ * while the scheduler was down still gets both events, in order.
+ */
+@Injectable()
+export class ContentScheduler {
+  private readonly logger = new Logger(ContentScheduler.name);
+  private running = false;
+
+  constructor(
+    private readonly programRepository: ProgramRepository,
+    private readonly programService: ProgramService,
+    private readonly episodeRepository: EpisodeRepository,
+    private readonly episodeService: EpisodeService,
+  ) {}
+
+  /**
+   * Poll for due schedules
+   */
+  @Interval(SCHEDULER_CONFIG.POLL_INTERVAL_MS)
+  async processDueSchedules(): Promise<void> {
+    // Skip if the previous run is still processing
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runDue(new Date());
+    } catch (error) {
+      this.logger.error('Error processing content schedules:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Apply all schedules due at `now`
+   *
+   * @returns number of published and unpublished items
+   */
+  async runDue(now: Date): Promise<{ published: number; unpublished: number }> {
+    const batchSize = SCHEDULER_CONFIG.BATCH_SIZE;
+    let published = 0;
+    let unpublished = 0;
+
+    published += await this.applyAll(
+      'publish program',
+      await this.programRepository.findScheduledForPublish(now, batchSize),
+      (id) => this.programService.publishScheduled(id, now),
+    );
+    published += await this.applyAll(
+      'publish episode',
+      await this.episodeRepository.findScheduledForPublish(now, batchSize),
+      (id) => this.episodeService.publishScheduled(id, now),
+    );
+    unpublished += await this.applyAll(
+      'unpublish program',
+      await this.programRepository.findScheduledForUnpublish(now, batchSize),
+      (id) => this.programService.unpublishScheduled(id, now),
+    );
+    unpublished += await this.applyAll(
+      'unpublish episode',
+      await this.episodeRepository.findScheduledForUnpublish(now, batchSize),
+      (id) => this.episodeService.unpublishScheduled(id, now),
+    );
+
+    if (published > 0 || unpublished > 0) {
+      this.logger.log(`Schedules applied: ${published} published, ${unpublished} unpublished`);
+    }
+
+    return { published, unpublished };
+  }
+
+  /**
+   * Run a scheduled action per item; failures are logged and retried on the next poll
+   *
+   * @returns number of items the action was applied to
+   */
+  private async applyAll(
+    action: string,
+    items: { id: string }[],
+    run: (id: string) => Promise<boolean>,
+  ): Promise<number> {
+    let applied = 0;
+
+    for (const item of items) {
+      try {
+        if (await run(item.id)) {
+          applied++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to ${action} ${item.id}:`, error);
+      }
+    }
+
+    return applied;
+  }
+}
@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ScheduleService } from './schedule.service';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { EpisodeRepository } from '../../episodes/repositories/episode.repository';
+import { ScheduleAction } from '../entities/schedule-entry.entity';
+import { ContentStatus } from '@mediamesh/shared';
+
+describe('ScheduleService', () => {
+  let service: ScheduleService;
+  let programRepository: jest.Mocked<ProgramRepository>;
+  let episodeRepository: jest.Mocked<EpisodeRepository>;
+
+  const program = {
+    id: 'program-1',
+    title: 'Test Program',
+    status: ContentStatus.SCHEDULED,
+    publishAt: new Date('2030-01-02'),
+    unpublishAt: new Date('2030-01-05'),
+  } as any;
+
+  const episode = {
+    id: 'episode-1',
+    programId: 'program-2',
+    title: 'Test Episode',
+    status: ContentStatus.PUBLISHED,
+    unpublishAt: new Date('2030-01-03'),
+  } as any;
+
+  beforeEach(async () => {
+    const mockProgramRepository = {
+      findScheduledForPublish: jest.fn().mockResolvedValue([program]),
+      findScheduledForUnpublish: jest.fn().mockResolvedValue([program]),
+    };
+
+    const mockEpisodeRepository = {
+      findScheduledForPublish: jest.fn().mockResolvedValue([]),
+      findScheduledForUnpublish: jest.fn().mockResolvedValue([episode]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScheduleService,
+        {
+          provide: ProgramRepository,
+          useValue: mockProgramRepository,
+        },
+        {
+          provide: EpisodeRepository,
+          useValue: mockEpisodeRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ScheduleService>(ScheduleService);
+    programRepository = module.get(ProgramRepository);
+    episodeRepository = module.get(EpisodeRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should merge publish and unpublish entries soonest first', async () => {
+    const entries = await service.findUpcoming({});
+
+    expect(entries.map((entry) => [entry.contentId, entry.action])).toEqual([
+      ['program-1', ScheduleAction.PUBLISH],
+      ['episode-1', ScheduleAction.UNPUBLISH],
+      ['program-1', ScheduleAction.UNPUBLISH],
+    ]);
+    expect(entries[1].programId).toBe('program-2');
+  });
+
+  it('should fetch skip + take rows per source and page the merged list', async () => {
+    const entries = await service.findUpcoming({}, 1, 1);
+
+    expect(programRepository.findScheduledForPublish).toHaveBeenCalledWith(undefined, 2);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].contentId).toBe('episode-1');
+  });
+
+  it('should only query the requested content type', async () => {
+    const before = new Date('2030-02-01');
+
+    await service.findUpcoming({ contentType: 'EPISODE', before });
+
+    expect(programRepository.findScheduledForPublish).not.toHaveBeenCalled();
+    expect(episodeRepository.findScheduledForUnpublish).toHaveBeenCalledWith(before, 20);
+  });
+});
@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { EpisodeRepository } from '../../episodes/repositories/episode.repository';
+import { ScheduleEntry, ScheduleAction } from '../entities/schedule-entry.entity';
+
+/**
+ * Schedule Service
+ *
+ * Lists upcoming scheduled publish/unpublish actions across programs and episodes.
+ * Scheduling and cancelling live in ProgramService and EpisodeService.
+ */
+@Injectable()
+export class ScheduleService {
+  constructor(
+    private readonly programRepository: ProgramRepository,
+    private readonly episodeRepository: EpisodeRepository,
+  ) {}
+
+  /**
+   * Find upcoming schedule entries, soonest first
+   *
+   * Each source is already ordered by its schedule time, so fetching skip + take rows
+   * from each and merging is enough to page through the combined list.
+   */
+  async findUpcoming(
+    options: { contentType?: 'PROGRAM' | 'EPISODE'; before?: Date },
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<ScheduleEntry[]> {
+    const limit = skip + take;
+    const sources: Promise<ScheduleEntry[]>[] = [];
+
+    if (!options.contentType || options.contentType === 'PROGRAM') {
+      sources.push(
+        this.programRepository
+          .findScheduledForPublish(options.before, limit)
+          .then((programs) =>
+            programs.map((program) => ScheduleEntry.fromProgram(program, ScheduleAction.PUBLISH)),
+          ),
+        this.programRepository
+          .findScheduledForUnpublish(options.before, limit)
+          .then((programs) =>
+            programs.map((program) => ScheduleEntry.fromProgram(program, ScheduleAction.UNPUBLISH)),
+          ),
+      );
+    }
+
+    if (!options.contentType || options.contentType === 'EPISODE') {
+      sources.push(
+        this.episodeRepository
+          .findScheduledForPublish(options.before, limit)
+          .then((episodes) =>
+            episodes.map((episode) => ScheduleEntry.fromEpisode(episode, ScheduleAction.PUBLISH)),
+          ),
+        this.episodeRepository
+          .findScheduledForUnpublish(options.before, limit)
+          .then((episodes) =>
+            episodes.map((episode) => ScheduleEntry.fromEpisode(episode, ScheduleAction.UNPUBLISH)),
+          ),
+      );
+    }
+
+    const entries = (await Promise.all(sources)).flat();
+    entries.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+
+    return entries.slice(skip, limit);
+  }
+}
@@ -0,0 +1,208 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import request from 'supertest';
+import { FastifyAdapter } from '@nestjs/platform-fastify';
+import { SeasonsController } from './seasons.controller';
+import { SeasonService } from '../services/season.service';
+import { SeasonRepository } from '../repositories/season.repository';
+import { Season } from '../entities/season.entity';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { Program } from '../../programs/entities/program.entity';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { ContentStatus, JwtAuthGuard, RolesGuard } from '@mediamesh/shared';
+
+describe('SeasonsController (integration)', () => {
+  let app: INestApplication;
+  let seasonRepository: jest.Mocked<SeasonRepository>;
+  let programRepository: jest.Mocked<ProgramRepository>;
+
+  const programId = '550e8400-e29b-41d4-a716-446655440001';
+
+  const mockProgram = new Program({
+    id: programId,
+    title: 'Test Program',
+    status: ContentStatus.DRAFT,
+    version: 1,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  const mockSeason = new Season({
+    id: 'season-1',
+    programId,
+    seasonNumber: 1,
+    title: 'Season One',
+    status: ContentStatus.DRAFT,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      controllers: [SeasonsController],
+      providers: [
+        SeasonService,
+        {
+          provide: SeasonRepository,
+          useValue: {
+            create: jest.fn(),
+            findById: jest.fn(),
+            findByNumber: jest.fn(),
+            findByProgramId: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn(),
+            countEpisodes: jest.fn(),
+          },
+        },
+        {
+          provide: ProgramRepository,
+          useValue: { findById: jest.fn() },
+        },
+        {
+          provide: PrismaService,
+          useValue: { $transaction: jest.fn((fn) => fn({})) },
+        },
+        {
+          provide: OutboxService,
+          useValue: {
+            enqueueContentCreated: jest.fn(),
+            enqueueContentUpdated: jest.fn(),
+            enqueueContentPublished: jest.fn(),
+            enqueueContentUnpublished: jest.fn(),
+            enqueueContentDeleted: jest.fn(),
+          },
+        },
+        {
+          provide: JwtService,
+          useValue: {
+            signAsync: jest.fn(),
+            verifyAsync: jest.fn(),
+          },
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: jest.fn(() => true),
+      })
+      .overrideGuard(RolesGuard)
+      .useValue({
+        canActivate: jest.fn(() => true),
+      })
+      .compile();
+
+    app = moduleFixture.createNestApplication(new FastifyAdapter());
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    seasonRepository = moduleFixture.get(SeasonRepository);
+    programRepository = moduleFixture.get(ProgramRepository);
+
+    await app.init();
+    await app.getHttpAdapter().getInstance().ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.clearAllMocks();
+  });
+
+  describe('GET /programs/:programId/seasons', () => {
+    it('should return the seasons of a program', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      seasonRepository.findByProgramId.mockResolvedValue([mockSeason]);
+
+      const response = await request(app.getHttpServer())
+        .get(`/programs/${programId}/seasons`)
+        .expect(200);
+
+      expect(response.body).toEqual([
+        expect.objectContaining({ id: 'season-1', seasonNumber: 1, title: 'Season One' }),
+      ]);
+    });
+
+    it('should return 404 if program not found', async () => {
+      programRepository.findById.mockResolvedValue(null);
+
+      await request(app.getHttpServer()).get(`/programs/${programId}/seasons`).expect(404);
+    });
+  });
+
+  describe('POST /programs/:programId/seasons', () => {
+    it('should create a season', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      seasonRepository.findByNumber.mockResolvedValue(null);
+      seasonRepository.create.mockResolvedValue(mockSeason);
+
+      const response = await request(app.getHttpServer())
+        .post(`/programs/${programId}/seasons`)
+        .send({ seasonNumber: 1, title: 'Season One' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ id: 'season-1', programId, seasonNumber: 1 });
+      expect(seasonRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ programId, seasonNumber: 1, title: 'Season One' }),
+        expect.anything(),
+      );
+    });
+
+    it('should return 400 for an invalid season number', async () => {
+      await request(app.getHttpServer())
+        .post(`/programs/${programId}/seasons`)
+        .send({ seasonNumber: 0 })
+        .expect(400);
+
+      expect(seasonRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 if the season number is taken', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      seasonRepository.findByNumber.mockResolvedValue(mockSeason);
+
+      await request(app.getHttpServer())
+        .post(`/programs/${programId}/seasons`)
+        .send({ seasonNumber: 1 })
+        .expect(409);
+    });
+  });
+
+  describe('PUT /seasons/:id', () => {
+    it('should update a season', async () => {
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      seasonRepository.update.mockResolvedValue(
+        new Season({ ...mockSeason, status: ContentStatus.PUBLISHED }),
+      );
+
+      const response = await request(app.getHttpServer())
+        .put('/seasons/season-1')
+        .send({ status: ContentStatus.PUBLISHED })
+        .expect(200);
+
+      expect(response.body.status).toBe(ContentStatus.PUBLISHED);
+    });
+  });
+
+  describe('DELETE /seasons/:id', () => {
+    it('should delete an empty season', async () => {
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      seasonRepository.countEpisodes.mockResolvedValue(0);
+
+      await request(app.getHttpServer()).delete('/seasons/season-1').expect(204);
+    });
+
+    it('should return 409 if the season has episodes', async () => {
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      seasonRepository.countEpisodes.mockResolvedValue(2);
+
+      await request(app.getHttpServer()).delete('/seasons/season-1').expect(409);
+      expect(seasonRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SeasonService } from '../services/season.service';
+import { Season } from '../entities/season.entity';
+import { CreateSeasonDto, UpdateSeasonDto, SeasonDto } from '../dto/season.dto';
+import { JwtAuthGuard, RolesGuard, Roles, Public, CurrentUser } from '@mediamesh/shared';
+import { UserRole } from '@mediamesh/shared';
+
+/**
+ * Seasons Controller
+ *
+ * Handles season management endpoints:
+ * - GET /programs/:programId/seasons - List seasons of a program
+ * - POST /programs/:programId/seasons - Create season
+ * - GET /seasons/:id - Get season by ID
+ * - PUT /seasons/:id - Update season
+ * - DELETE /seasons/:id - Delete an empty season
+ *
+ * Episodes are assigned to a season through seasonId on the episode endpoints
+ * (GET /seasons/:id/episodes lists them).
+ */
+@ApiTags('Seasons')
+@Controller()
+export class SeasonsController {
+  private readonly logger = new Logger(SeasonsController.name);
+
+  constructor(private readonly seasonService: SeasonService) {}
+
+  /**
+   * Get all seasons of a program
+   * GET /programs/:programId/seasons
+   */
+  @Get('programs/:programId/seasons')
+  @Public()
+  @ApiOperation({ summary: 'Get all seasons of a program' })
+  @ApiParam({ name: 'programId', type: String, description: 'Program ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Seasons in season order',
+    type: [SeasonDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Program not found',
+  })
+  async findAllByProgram(@Param('programId') programId: string): Promise<SeasonDto[]> {
+    const seasons = await this.seasonService.findAllByProgram(programId);
+    return seasons.map((season) => this.toDto(season));
+  }
+
+  /**
+   * Create a season
+   * POST /programs/:programId/seasons
+   */
+  @Post('programs/:programId/seasons')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Create a season for a program' })
+  @ApiParam({ name: 'programId', type: String, description: 'Program ID' })
+  @ApiBody({ type: CreateSeasonDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Season successfully created',
+    type: SeasonDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Program not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Season number already exists for this program',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @Param('programId') programId: string,
+    @Body() createSeasonDto: CreateSeasonDto,
+    @CurrentUser('id') userId: string,
+  ): Promise<SeasonDto> {
+    this.logger.log(`Creating season ${createSeasonDto.seasonNumber} for program ${programId}`);
+    const season = await this.seasonService.create(
+      {
+        programId,
+        seasonNumber: createSeasonDto.seasonNumber,
+        title: createSeasonDto.title,
+        description: createSeasonDto.description,
+        status: createSeasonDto.status,
+      },
+      userId,
+    );
+    return this.toDto(season);
+  }
+
+  /**
+   * Get season by ID
+   * GET /seasons/:id
+   */
+  @Get('seasons/:id')
+  @Public()
+  @ApiOperation({ summary: 'Get season by ID' })
+  @ApiParam({ name: 'id', type: String, description: 'Season ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Season details',
+    type: SeasonDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Season not found',
+  })
+  async findOne(@Param('id') id: string): Promise<SeasonDto> {
+    const season = await this.seasonService.findOne(id);
+    return this.toDto(season);
+  }
+
+  /**
+   * Update season
+   * PUT /seasons/:id
+   */
+  @Put('seasons/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update season' })
+  @ApiParam({ name: 'id', type: String, description: 'Season ID' })
+  @ApiBody({ type: UpdateSeasonDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Season successfully updated',
+    type: SeasonDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Season not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Season number already exists for this program',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body() updateSeasonDto: UpdateSeasonDto,
+    @CurrentUser('id') userId: string,
+  ): Promise<SeasonDto> {
+    this.logger.log(`Updating season: ${id}`);
+    const season = await this.seasonService.update(
+      id,
+      {
+        seasonNumber: updateSeasonDto.seasonNumber,
+        title: updateSeasonDto.title,
+        description: updateSeasonDto.description,
+        status: updateSeasonDto.status,
+      },
+      userId,
+    );
+    return this.toDto(season);
+  }
+
+  /**
+   * Delete season
+   * DELETE /seasons/:id
+   */
+  @Delete('seasons/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Delete a season without episodes' })
+  @ApiParam({ name: 'id', type: String, description: 'Season ID' })
+  @ApiResponse({
+    status: 204,
+    description: 'Season successfully deleted',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Season not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Season still has episodes',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(@Param('id') id: string, @CurrentUser('id') userId: string): Promise<void> {
+    this.logger.log(`Deleting season: ${id}`);
+    await this.seasonService.delete(id, userId);
+  }
+
+  /**
+   * Convert Season entity to DTO
+   */
+  private toDto(season: Season): SeasonDto {
+    return {
+      id: season.id,
+      programId: season.programId,
+      seasonNumber: season.seasonNumber,
+      title: season.title,
+      description: season.description,
+      status: season.status,
+      createdAt: season.createdAt.toISOString(),
+      updatedAt: season.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, IsString, MaxLength, Min, MinLength } from 'class-validator';
+import { ContentStatus } from '@mediamesh/shared';
+
+/**
+ * Statuses a season can have (seasons have no review workflow)
+ */
+export const SEASON_STATUSES = [
+  ContentStatus.DRAFT,
+  ContentStatus.PUBLISHED,
+  ContentStatus.ARCHIVED,
+];
+
+/**
+ * Create Season DTO
+ *
+ * Request body for POST /programs/:programId/seasons.
+ */
+export class CreateSeasonDto {
+  @ApiProperty({ description: 'Season number, unique within the program', example: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  seasonNumber: number;
+
+  @ApiPropertyOptional({ description: 'Season title', example: 'Season 1: Origins' })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  title?: string;
+
+  @ApiPropertyOptional({ description: 'Season description' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Season status',
+    enum: SEASON_STATUSES,
+    default: ContentStatus.DRAFT,
+  })
+  @IsOptional()
+  @IsIn(SEASON_STATUSES)
+  status?: ContentStatus;
+}
+
+/**
+ * Update Season DTO
+ *
+ * Request body for PUT /seasons/:id.
+ */
+export class UpdateSeasonDto extends PartialType(CreateSeasonDto) {}
+
+/**
+ * Season DTO
+ */
+export class SeasonDto {
+  @ApiProperty({ description: 'Season ID', example: '550e8400-e29b-41d4-a716-446655440001' })
+  id: string;
+
+  @ApiProperty({ description: 'Program ID' })
+  programId: string;
+
+  @ApiProperty({ description: 'Season number', example: 1 })
+  seasonNumber: number;
+
+  @ApiPropertyOptional({ description: 'Season title' })
+  title?: string;
+
+  @ApiPropertyOptional({ description: 'Season description' })
+  description?: string;
+
+  @ApiProperty({ description: 'Season status', enum: SEASON_STATUSES })
+  status: ContentStatus;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: string;
+
+  @ApiProperty({ description: 'Last update timestamp' })
+  updatedAt: string;
+}
@@ -0,0 +1,54 @@
+import { ContentStatus } from '@mediamesh/shared';
+
+/**
+ * Season Entity
+ *
+ * Groups a program's episodes; episode numbers are unique within a season.
+ */
+export class Season {
+  id: string;
+  programId: string;
+  seasonNumber: number;
+  title?: string;
+  description?: string;
+  status: ContentStatus; // DRAFT, PUBLISHED, ARCHIVED
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<Season>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create Season entity from Prisma model
+   */
+  static fromPrisma(prismaSeason: {
+    id: string;
+    programId: string;
+    seasonNumber: number;
+    title: string | null;
+    description: string | null;
+    status: string;
+    createdAt: Date;
+    updatedAt: Date;
+  }): Season {
+    return new Season({
+      id: prismaSeason.id,
+      programId: prismaSeason.programId,
+      seasonNumber: prismaSeason.seasonNumber,
+      title: prismaSeason.title || undefined,
+      description: prismaSeason.description || undefined,
+      status: prismaSeason.status as ContentStatus,
+      createdAt: prismaSeason.createdAt,
+      updatedAt: prismaSeason.updatedAt,
+    });
+  }
+
+  /**
+   * Convert to DTO
+   */
+  toDto() {
+    const { ...dto } = this;
+    return dto;
+  }
+}
@@ -0,0 +1,123 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Season } from '../entities/season.entity';
+import { ContentStatus } from '@mediamesh/shared';
+
+/**
+ * Season Repository
+ *
+ * Data access layer for Season entities.
+ */
+@Injectable()
+export class SeasonRepository {
+  private readonly logger = new Logger(SeasonRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a new season
+   */
+  async create(
+    data: {
+      programId: string;
+      seasonNumber: number;
+      title?: string;
+      description?: string;
+      status?: ContentStatus;
+    },
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<Season> {
+    const prismaSeason = await tx.season.create({
+      data: {
+        programId: data.programId,
+        seasonNumber: data.seasonNumber,
+        title: data.title,
+        description: data.description,
+        status: data.status || ContentStatus.DRAFT,
+      },
+    });
+
+    return Season.fromPrisma(prismaSeason);
+  }
+
+  /**
+   * Find season by ID
+   */
+  async findById(id: string): Promise<Season | null> {
+    const prismaSeason = await this.prisma.season.findUnique({
+      where: { id },
+    });
+
+    return prismaSeason ? Season.fromPrisma(prismaSeason) : null;
+  }
+
+  /**
+   * Find season by number within a program
+   */
+  async findByNumber(programId: string, seasonNumber: number): Promise<Season | null> {
+    const prismaSeason = await this.prisma.season.findUnique({
+      where: { programId_seasonNumber: { programId, seasonNumber } },
+    });
+
+    return prismaSeason ? Season.fromPrisma(prismaSeason) : null;
+  }
+
+  /**
+   * Find all seasons of a program, in season order
+   */
+  async findByProgramId(programId: string): Promise<Season[]> {
+    const prismaSeasons = await this.prisma.season.findMany({
+      where: { programId },
+      orderBy: { seasonNumber: 'asc' },
+    });
+
+    return prismaSeasons.map(Season.fromPrisma);
+  }
+
+  /**
+   * Update season
+   */
+  async update(
+    id: string,
+    data: {
+      seasonNumber?: number;
+      title?: string | null;
+      description?: string | null;
+      status?: ContentStatus;
+    },
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<Season> {
+    const prismaSeason = await tx.season.update({
+      where: { id },
+      data: {
+        ...(data.seasonNumber !== undefined && { seasonNumber: data.seasonNumber }),
+        ...(data.title !== undefined && { title: data.title }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.status !== undefined && { status: data.status }),
+      },
+    });
+
+    return Season.fromPrisma(prismaSeason);
+  }
+
+  /**
+   * Delete season
+   */
+  async delete(id: string, tx: Prisma.TransactionClient = this.prisma): Promise<void> {
+    await tx.season.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Count episodes assigned to a season
+   *
+   * Episodes in the trash still reference the season, so they are counted too.
+   */
+  async countEpisodes(id: string): Promise<number> {
+    return await this.prisma.episode.count({
+      where: { seasonId: id },
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { ProgramsModule } from '../programs/programs.module';
+import { SeasonRepository } from './repositories/season.repository';
+import { SeasonService } from './services/season.service';
+import { SeasonsController } from './controllers/seasons.controller';
+import { JWT_CONFIG } from '../config/env.constants';
+
+/**
+ * Seasons Module
+ *
+ * Provides season management; EpisodesModule uses SeasonRepository to place
+ * episodes in seasons.
+ */
+@Module({
+  imports: [
+    ProgramsModule,
+    JwtModule.register({
+      secret: JWT_CONFIG.SECRET,
+      signOptions: {
+        expiresIn: JWT_CONFIG.EXPIRATION_STRING,
+      },
+    }),
+  ],
+  controllers: [SeasonsController],
+  providers: [SeasonRepository, SeasonService],
+  exports: [SeasonRepository, SeasonService],
+})
+export class SeasonsModule {}
@@ -0,0 +1,282 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { SeasonService } from './season.service';
+import { SeasonRepository } from '../repositories/season.repository';
+import { Season } from '../entities/season.entity';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { Program } from '../../programs/entities/program.entity';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { ContentStatus } from '@mediamesh/shared';
+
+describe('SeasonService', () => {
+  let service: SeasonService;
+  let seasonRepository: jest.Mocked<SeasonRepository>;
+  let programRepository: jest.Mocked<ProgramRepository>;
+  let outboxService: jest.Mocked<OutboxService>;
+
+  const mockProgram = new Program({
+    id: 'program-1',
+    title: 'Test Program',
+    status: ContentStatus.DRAFT,
+    version: 1,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  const mockSeason = new Season({
+    id: 'season-1',
+    programId: 'program-1',
+    seasonNumber: 1,
+    title: 'Season One',
+    status: ContentStatus.DRAFT,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SeasonService,
+        {
+          provide: SeasonRepository,
+          useValue: {
+            create: jest.fn(),
+            findById: jest.fn(),
+            findByNumber: jest.fn(),
+            findByProgramId: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn(),
+            countEpisodes: jest.fn(),
+          },
+        },
+        {
+          provide: ProgramRepository,
+          useValue: { findById: jest.fn() },
+        },
+        {
+          provide: PrismaService,
+          useValue: { $transaction: jest.fn((fn) => fn({})) },
+        },
+        {
+          provide: OutboxService,
+          useValue: {
+            enqueueContentCreated: jest.fn(),
+            enqueueContentUpdated: jest.fn(),
+            enqueueContentPublished: jest.fn(),
+            enqueueContentUnpublished: jest.fn(),
+            enqueueContentDeleted: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SeasonService>(SeasonService);
+    seasonRepository = module.get(SeasonRepository);
+    programRepository = module.get(ProgramRepository);
+    outboxService = module.get(OutboxService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a season', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      seasonRepository.findByNumber.mockResolvedValue(null);
+      seasonRepository.create.mockResolvedValue(mockSeason);
+
+      const result = await service.create({
+        programId: 'program-1',
+        seasonNumber: 1,
+        title: 'Season One',
+      });
+
+      expect(result).toEqual(mockSeason);
+      expect(seasonRepository.findByNumber).toHaveBeenCalledWith('program-1', 1);
+      expect(seasonRepository.create).toHaveBeenCalledWith(
+        {
+          programId: 'program-1',
+          seasonNumber: 1,
+          title: 'Season One',
+        },
+        expect.anything(),
+      );
+      expect(outboxService.enqueueContentCreated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'season-1',
+          contentType: 'SEASON',
+          title: 'Season One',
+          programId: 'program-1',
+        }),
+      );
+      expect(outboxService.enqueueContentPublished).not.toHaveBeenCalled();
+    });
+
+    it('should also emit content.published for a season created as PUBLISHED', async () => {
+      const publishedSeason = new Season({ ...mockSeason, status: ContentStatus.PUBLISHED });
+      programRepository.findById.mockResolvedValue(mockProgram);
+      seasonRepository.findByNumber.mockResolvedValue(null);
+      seasonRepository.create.mockResolvedValue(publishedSeason);
+
+      await service.create({
+        programId: 'program-1',
+        seasonNumber: 1,
+        status: ContentStatus.PUBLISHED,
+      });
+
+      expect(outboxService.enqueueContentPublished).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ contentId: 'season-1', programId: 'program-1' }),
+      );
+    });
+
+    it('should throw NotFoundException if program does not exist', async () => {
+      programRepository.findById.mockResolvedValue(null);
+
+      await expect(service.create({ programId: 'missing', seasonNumber: 1 })).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(seasonRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException if the season number is taken', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      seasonRepository.findByNumber.mockResolvedValue(mockSeason);
+
+      await expect(service.create({ programId: 'program-1', seasonNumber: 1 })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(seasonRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAllByProgram', () => {
+    it('should return the seasons of a program', async () => {
+      programRepository.findById.mockResolvedValue(mockProgram);
+      seasonRepository.findByProgramId.mockResolvedValue([mockSeason]);
+
+      const result = await service.findAllByProgram('program-1');
+
+      expect(result).toEqual([mockSeason]);
+    });
+
+    it('should throw NotFoundException if program does not exist', async () => {
+      programRepository.findById.mockResolvedValue(null);
+
+      await expect(service.findAllByProgram('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('update', () => {
+    it('should update a season', async () => {
+      const updated = new Season({ ...mockSeason, title: 'Renamed' });
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      seasonRepository.update.mockResolvedValue(updated);
+
+      const result = await service.update('season-1', { title: 'Renamed' });
+
+      expect(result).toEqual(updated);
+      expect(seasonRepository.findByNumber).not.toHaveBeenCalled();
+      expect(outboxService.enqueueContentUpdated).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'season-1',
+          contentType: 'SEASON',
+          programId: 'program-1',
+          changes: { title: { old: 'Season One', new: 'Renamed' } },
+        }),
+      );
+    });
+
+    it('should emit content.published when the season is published', async () => {
+      const published = new Season({ ...mockSeason, status: ContentStatus.PUBLISHED });
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      seasonRepository.update.mockResolvedValue(published);
+
+      await service.update('season-1', { status: ContentStatus.PUBLISHED }, 'user-1');
+
+      expect(outboxService.enqueueContentPublished).toHaveBeenCalledWith(expect.anything(), {
+        contentId: 'season-1',
+        contentType: 'SEASON',
+        title: 'Season One',
+        programId: 'program-1',
+        publishedBy: 'user-1',
+        publishedAt: published.updatedAt,
+      });
+    });
+
+    it('should emit content.unpublished when a published season goes back to DRAFT', async () => {
+      seasonRepository.findById.mockResolvedValue(
+        new Season({ ...mockSeason, status: ContentStatus.PUBLISHED }),
+      );
+      seasonRepository.update.mockResolvedValue(mockSeason);
+
+      await service.update('season-1', { status: ContentStatus.DRAFT });
+
+      expect(outboxService.enqueueContentUnpublished).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ contentId: 'season-1', programId: 'program-1' }),
+      );
+      expect(outboxService.enqueueContentPublished).not.toHaveBeenCalled();
+    });
+
+    it('should not emit events when nothing changes', async () => {
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      seasonRepository.update.mockResolvedValue(mockSeason);
+
+      await service.update('season-1', { title: 'Season One' });
+
+      expect(outboxService.enqueueContentUpdated).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when renumbering onto another season', async () => {
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      seasonRepository.findByNumber.mockResolvedValue(
+        new Season({ ...mockSeason, id: 'season-2', seasonNumber: 2 }),
+      );
+
+      await expect(service.update('season-1', { seasonNumber: 2 })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(seasonRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if season not found', async () => {
+      seasonRepository.findById.mockResolvedValue(null);
+
+      await expect(service.update('missing', { title: 'x' })).rejects.toThrow(
+        "Season with identifier 'missing' not found",
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete an empty season', async () => {
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      seasonRepository.countEpisodes.mockResolvedValue(0);
+
+      await service.delete('season-1');
+
+      expect(seasonRepository.delete).toHaveBeenCalledWith('season-1', expect.anything());
+      expect(outboxService.enqueueContentDeleted).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          contentId: 'season-1',
+          contentType: 'SEASON',
+          programId: 'program-1',
+        }),
+      );
+    });
+
+    it('should throw ConflictException if the season has episodes', async () => {
+      seasonRepository.findById.mockResolvedValue(mockSeason);
+      seasonRepository.countEpisodes.mockResolvedValue(3);
+
+      await expect(service.delete('season-1')).rejects.toThrow(ConflictException);
+      expect(seasonRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
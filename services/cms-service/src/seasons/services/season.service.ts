@@ -0,0 +1,263 @@
+import { Injectable, Logger, ConflictException, NotFoundException } from '@nestjs/common';
+import { SeasonRepository } from '../repositories/season.repository';
+import { Season } from '../entities/season.entity';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { Prisma } from '@prisma/client';
+import { ContentStatus, throwIfNotFound } from '@mediamesh/shared';
+
+/**
+ * Season Service
+ *
+ * Business logic layer for season operations.
+ * Season numbers are unique per program; a season can only be deleted once it has
+ * no episodes left.
+ * Content events (contentType SEASON, with the programId) are written to the outbox in
+ * the same transaction as the change.
+ */
+@Injectable()
+export class SeasonService {
+  private readonly logger = new Logger(SeasonService.name);
+
+  constructor(
+    private readonly seasonRepository: SeasonRepository,
+    private readonly programRepository: ProgramRepository,
+    private readonly prisma: PrismaService,
+    private readonly outboxService: OutboxService,
+  ) {}
+
+  /**
+   * Create a new season for a program
+   */
+  async create(
+    data: {
+      programId: string;
+      seasonNumber: number;
+      title?: string;
+      description?: string;
+      status?: ContentStatus;
+    },
+    createdBy?: string,
+  ): Promise<Season> {
+    this.logger.log(`Creating season ${data.seasonNumber} for program ${data.programId}`);
+
+    const program = await this.programRepository.findById(data.programId);
+    if (!program) {
+      throw new NotFoundException(`Program with ID ${data.programId} not found`);
+    }
+
+    await this.assertSeasonNumberAvailable(data.programId, data.seasonNumber);
+
+    // Create season and enqueue content.created (and content.published) atomically
+    const season = await this.prisma.$transaction(async (tx) => {
+      const created = await this.seasonRepository.create(data, tx);
+
+      await this.outboxService.enqueueContentCreated(tx, {
+        contentId: created.id,
+        contentType: 'SEASON',
+        title: this.getTitle(created),
+        description: created.description,
+        programId: created.programId,
+        status: created.status,
+        createdAt: created.createdAt,
+        createdBy,
+      });
+
+      if (created.status === ContentStatus.PUBLISHED) {
+        await this.enqueuePublished(tx, created, createdBy);
+      }
+
+      return created;
+    });
+
+    this.logger.log(`Season created: ${season.id} (program ${season.programId})`);
+
+    return season;
+  }
+
+  /**
+   * Find all seasons of a program
+   */
+  async findAllByProgram(programId: string): Promise<Season[]> {
+    const program = await this.programRepository.findById(programId);
+    if (!program) {
+      throw new NotFoundException(`Program with ID ${programId} not found`);
+    }
+
+    return await this.seasonRepository.findByProgramId(programId);
+  }
+
+  /**
+   * Find season by ID
+   */
+  async findOne(id: string): Promise<Season> {
+    const season = await this.seasonRepository.findById(id);
+    throwIfNotFound(season, 'Season', id);
+    return season;
+  }
+
+  /**
+   * Update season
+   */
+  async update(
+    id: string,
+    data: {
+      seasonNumber?: number;
+      title?: string;
+      description?: string;
+      status?: ContentStatus;
+    },
+    updatedBy?: string,
+  ): Promise<Season> {
+    this.logger.log(`Updating season: ${id}`);
+
+    const existingSeason = await this.findOne(id);
+
+    if (data.seasonNumber !== undefined && data.seasonNumber !== existingSeason.seasonNumber) {
+      await this.assertSeasonNumberAvailable(existingSeason.programId, data.seasonNumber);
+    }
+
+    const changes = this.getChanges(existingSeason, data);
+
+    // Update season and enqueue its events atomically
+    const season = await this.prisma.$transaction(async (tx) => {
+      const updated = await this.seasonRepository.update(id, data, tx);
+
+      if (Object.keys(changes).length > 0) {
+        await this.outboxService.enqueueContentUpdated(tx, {
+          contentId: updated.id,
+          contentType: 'SEASON',
+          title: this.getTitle(updated),
+          status: updated.status,
+          updatedBy,
+          changes,
+          programId: updated.programId,
+        });
+      }
+
+      if (changes.status?.new === ContentStatus.PUBLISHED) {
+        await this.enqueuePublished(tx, updated, updatedBy);
+      } else if (changes.status?.old === ContentStatus.PUBLISHED) {
+        await this.outboxService.enqueueContentUnpublished(tx, {
+          contentId: updated.id,
+          contentType: 'SEASON',
+          title: this.getTitle(updated),
+          programId: updated.programId,
+          unpublishedBy: updatedBy,
+          unpublishedAt: updated.updatedAt,
+        });
+      }
+
+      return updated;
+    });
+
+    this.logger.log(`Season updated: ${id}`);
+
+    return season;
+  }
+
+  /**
+   * Delete season
+   *
+   * Episodes must be moved or deleted first so they are never silently re-numbered.
+   */
+  async delete(id: string, deletedBy?: string): Promise<void> {
+    this.logger.log(`Deleting season: ${id}`);
+
+    const season = await this.findOne(id);
+
+    const episodeCount = await this.seasonRepository.countEpisodes(id);
+    if (episodeCount > 0) {
+      throw new ConflictException(
+        `Season ${id} still has ${episodeCount} episode(s); move or delete them first`,
+      );
+    }
+
+    // Delete season and enqueue content.deleted event atomically
+    await this.prisma.$transaction(async (tx) => {
+      await this.seasonRepository.delete(id, tx);
+
+      await this.outboxService.enqueueContentDeleted(tx, {
+        contentId: season.id,
+        contentType: 'SEASON',
+        title: this.getTitle(season),
+        programId: season.programId,
+        deletedBy,
+        deletedAt: new Date(),
+      });
+    });
+
+    this.logger.log(`Season deleted: ${id}`);
+  }
+
+  /**
+   * Enqueue content.published for a season that became PUBLISHED
+   */
+  private async enqueuePublished(
+    tx: Prisma.TransactionClient,
+    season: Season,
+    publishedBy?: string,
+  ): Promise<void> {
+    await this.outboxService.enqueueContentPublished(tx, {
+      contentId: season.id,
+      contentType: 'SEASON',
+      title: this.getTitle(season),
+      programId: season.programId,
+      publishedBy,
+      publishedAt: season.updatedAt,
+    });
+  }
+
+  /**
+   * Season title for events, falling back to its number
+   */
+  private getTitle(season: Season): string {
+    return season.title || `Season ${season.seasonNumber}`;
+  }
+
+  /**
+   * Fields that actually change, in the content.updated changes format
+   */
+  private getChanges(
+    existingSeason: Season,
+    data: {
+      seasonNumber?: number;
+      title?: string;
+      description?: string;
+      status?: ContentStatus;
+    },
+  ): Record<string, { old: any; new: any }> {
+    const changes: Record<string, { old: any; new: any }> = {};
+
+    if (data.seasonNumber !== undefined && data.seasonNumber !== existingSeason.seasonNumber) {
+      changes.seasonNumber = { old: existingSeason.seasonNumber, new: data.seasonNumber };
+    }
+    if (data.title !== undefined && data.title !== existingSeason.title) {
+      changes.title = { old: existingSeason.title, new: data.title };
+    }
+    if (data.description !== undefined && data.description !== existingSeason.description) {
+      changes.description = { old: existingSeason.description, new: data.description };
+    }
+    if (data.status !== undefined && data.status !== existingSeason.status) {
+      changes.status = { old: existingSeason.status, new: data.status };
+    }
+
+    return changes;
+  }
+
+  /**
+   * Ensure no other season of the program uses the number
+   */
+  private async assertSeasonNumberAvailable(
+    programId: string,
+    seasonNumber: number,
+  ): Promise<void> {
+    const existing = await this.seasonRepository.findByNumber(programId, seasonNumber);
+    if (existing) {
+      throw new ConflictException(
+        `Season number ${seasonNumber} already exists for program ${programId}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { TrashService } from '../services/trash.service';
+import { TrashEntry } from '../entities/trash-entry.entity';
+import { TrashEntryDto } from '../dto/trash.dto';
+import { JwtAuthGuard, RolesGuard, Roles, CurrentUser } from '@mediamesh/shared';
+import { UserRole } from '@mediamesh/shared';
+
+/**
+ * Trash Controller
+ *
+ * Deleted programs and episodes (ADMIN only):
+ * - GET /trash - List deleted content
+ * - POST /trash/:id/restore - Restore a deleted program or episode
+ *
+ * Content is moved here by DELETE /programs/:id and DELETE /episodes/:id and purged
+ * after TRASH_RETENTION_DAYS.
+ */
+@ApiTags('Trash')
+@Controller('trash')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class TrashController {
+  private readonly logger = new Logger(TrashController.name);
+
+  constructor(private readonly trashService: TrashService) {}
+
+  /**
+   * List deleted content
+   * GET /trash
+   */
+  @Get()
+  @ApiOperation({ summary: 'List deleted programs and episodes, most recently deleted first' })
+  @ApiQuery({ name: 'contentType', required: false, enum: ['PROGRAM', 'EPISODE'] })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    type: Number,
+    description: 'Number of records to skip',
+  })
+  @ApiQuery({
+    name: 'take',
+    required: false,
+    type: Number,
+    description: 'Number of records to take',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Trash entries',
+    type: [TrashEntryDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid filter',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async findAll(
+    @Query('contentType') contentType?: 'PROGRAM' | 'EPISODE',
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<TrashEntryDto[]> {
+    const skipNum = skip ? parseInt(skip, 10) : 0;
+    const takeNum = take ? parseInt(take, 10) : 20;
+
+    if (contentType && contentType !== 'PROGRAM' && contentType !== 'EPISODE') {
+      throw new BadRequestException('contentType must be PROGRAM or EPISODE');
+    }
+
+    const entries = await this.trashService.findAll({ contentType }, skipNum, takeNum);
+    return entries.map((entry) => this.toDto(entry));
+  }
+
+  /**
+   * Restore deleted content
+   * POST /trash/:id/restore
+   */
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore a deleted program or episode',
+    description: 'A program comes back with the episodes that were deleted along with it.',
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Program or episode ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The trash entry that was restored',
+    type: TrashEntryDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Not in the trash',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      "The episode's program is in the trash, or newer content has taken the external ID or episode number",
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async restore(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<TrashEntryDto> {
+    this.logger.log(`Restoring from trash: ${id}`);
+    const entry = await this.trashService.restore(id, userId);
+    return this.toDto(entry);
+  }
+
+  /**
+   * Convert TrashEntry to DTO
+   */
+  private toDto(entry: TrashEntry): TrashEntryDto {
+    return {
+      contentId: entry.contentId,
+      contentType: entry.contentType,
+      title: entry.title,
+      programId: entry.programId,
+      status: entry.status,
+      deletedAt: entry.deletedAt.toISOString(),
+      purgeAt: entry.purgeAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ContentStatus } from '@mediamesh/shared';
+
+/**
+ * Trash Entry DTO
+ */
+export class TrashEntryDto {
+  @ApiProperty({ description: 'Content ID', example: '550e8400-e29b-41d4-a716-446655440001' })
+  contentId: string;
+
+  @ApiProperty({ description: 'Content type', enum: ['PROGRAM', 'EPISODE'] })
+  contentType: 'PROGRAM' | 'EPISODE';
+
+  @ApiProperty({ description: 'Content title' })
+  title: string;
+
+  @ApiPropertyOptional({ description: 'Program ID (episodes only)' })
+  programId?: string;
+
+  @ApiProperty({ description: 'Status the content had when it was deleted', enum: ContentStatus })
+  status: ContentStatus;
+
+  @ApiProperty({ description: 'When the content was moved to the trash' })
+  deletedAt: string;
+
+  @ApiProperty({ description: 'When the content will be permanently deleted' })
+  purgeAt: string;
+}
@@ -0,0 +1,57 @@
+import { ContentStatus } from '@mediamesh/shared';
+import { Program } from '../../programs/entities/program.entity';
+import { Episode } from '../../episodes/entities/episode.entity';
+import { TRASH_CONFIG } from '../../config/env.constants';
+
+/**
+ * Trash Entry
+ *
+ * A program or episode in the trash. Episodes deleted along with their program are not
+ * listed separately; they are restored and purged with it.
+ */
+export class TrashEntry {
+  contentId: string;
+  contentType: 'PROGRAM' | 'EPISODE';
+  title: string;
+  programId?: string; // For episodes
+  status: ContentStatus;
+  deletedAt: Date;
+  purgeAt: Date; // When TrashPurger removes it for good
+
+  constructor(partial: Partial<TrashEntry>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create TrashEntry from a deleted program
+   */
+  static fromProgram(program: Program): TrashEntry {
+    return new TrashEntry({
+      contentId: program.id,
+      contentType: 'PROGRAM',
+      title: program.title,
+      status: program.status,
+      deletedAt: program.deletedAt,
+      purgeAt: TrashEntry.purgeAt(program.deletedAt!),
+    });
+  }
+
+  /**
+   * Create TrashEntry from a deleted episode
+   */
+  static fromEpisode(episode: Episode): TrashEntry {
+    return new TrashEntry({
+      contentId: episode.id,
+      contentType: 'EPISODE',
+      title: episode.title,
+      programId: episode.programId,
+      status: episode.status,
+      deletedAt: episode.deletedAt,
+      purgeAt: TrashEntry.purgeAt(episode.deletedAt!),
+    });
+  }
+
+  private static purgeAt(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + TRASH_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  }
+}
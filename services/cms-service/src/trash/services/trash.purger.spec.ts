@@ -0,0 +1,85 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TrashPurger } from './trash.purger';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { ProgramService } from '../../programs/services/program.service';
+import { EpisodeRepository } from '../../episodes/repositories/episode.repository';
+import { EpisodeService } from '../../episodes/services/episode.service';
+import { TRASH_CONFIG } from '../../config/env.constants';
+
+describe('TrashPurger', () => {
+  let purger: TrashPurger;
+  let programRepository: jest.Mocked<ProgramRepository>;
+  let programService: jest.Mocked<ProgramService>;
+  let episodeRepository: jest.Mocked<EpisodeRepository>;
+  let episodeService: jest.Mocked<EpisodeService>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrashPurger,
+        {
+          provide: ProgramRepository,
+          useValue: { findPurgeable: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: ProgramService,
+          useValue: { purge: jest.fn().mockResolvedValue(true) },
+        },
+        {
+          provide: EpisodeRepository,
+          useValue: { findPurgeable: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: EpisodeService,
+          useValue: { purge: jest.fn().mockResolvedValue(true) },
+        },
+      ],
+    }).compile();
+
+    purger = module.get<TrashPurger>(TrashPurger);
+    programRepository = module.get(ProgramRepository);
+    programService = module.get(ProgramService);
+    episodeRepository = module.get(EpisodeRepository);
+    episodeService = module.get(EpisodeService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should purge content deleted before the retention cutoff', async () => {
+    const now = new Date('2024-06-01T00:00:00.000Z');
+    const cutoff = new Date(now.getTime() - TRASH_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    programRepository.findPurgeable.mockResolvedValue([{ id: 'program-1' } as any]);
+    episodeRepository.findPurgeable.mockResolvedValue([{ id: 'episode-1' } as any]);
+
+    const result = await purger.runPurge(now);
+
+    expect(result).toEqual({ programs: 1, episodes: 1 });
+    expect(programRepository.findPurgeable).toHaveBeenCalledWith(cutoff, expect.any(Number));
+    expect(episodeService.purge).toHaveBeenCalledWith('episode-1', cutoff, now);
+    expect(programService.purge).toHaveBeenCalledWith('program-1', cutoff, now);
+  });
+
+  it('should not count items that are no longer purgeable', async () => {
+    programRepository.findPurgeable.mockResolvedValue([{ id: 'program-1' } as any]);
+    programService.purge.mockResolvedValue(false);
+
+    const result = await purger.runPurge(new Date());
+
+    expect(result).toEqual({ programs: 0, episodes: 0 });
+  });
+
+  it('should keep purging when one item fails', async () => {
+    programRepository.findPurgeable.mockResolvedValue([
+      { id: 'program-1' } as any,
+      { id: 'program-2' } as any,
+    ]);
+    programService.purge.mockRejectedValueOnce(new Error('DB down'));
+
+    const result = await purger.runPurge(new Date());
+
+    expect(result.programs).toBe(1);
+    expect(programService.purge).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,98 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { ProgramService } from '../../programs/services/program.service';
+import { EpisodeRepository } from '../../episodes/repositories/episode.repository';
+import { EpisodeService } from '../../episodes/services/episode.service';
+import { TRASH_CONFIG } from '../../config/env.constants';
+
+/**
+ * Trash Purger
+ *
+ * Scheduled worker that permanently deletes programs and episodes that have been in the
+ * trash longer than TRASH_CONFIG.RETENTION_DAYS, emitting content.deleted for each.
+ */
+@Injectable()
+export class TrashPurger {
+  private readonly logger = new Logger(TrashPurger.name);
+  private running = false;
+
+  constructor(
+    private readonly programRepository: ProgramRepository,
+    private readonly programService: ProgramService,
+    private readonly episodeRepository: EpisodeRepository,
+    private readonly episodeService: EpisodeService,
+  ) {}
+
+  /**
+   * Poll for expired trash
+   */
+  @Interval(TRASH_CONFIG.PURGE_INTERVAL_MS)
+  async purgeExpired(): Promise<void> {
+    // Skip if the previous run is still processing
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runPurge(new Date());
+    } catch (error) {
+      this.logger.error('Error purging trash:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Purge everything whose retention period has ended at `now`
+   *
+   * @returns number of purged programs and episodes (not counting cascaded episodes)
+   */
+  async runPurge(now: Date): Promise<{ programs: number; episodes: number }> {
+    const before = new Date(now.getTime() - TRASH_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const batchSize = TRASH_CONFIG.BATCH_SIZE;
+
+    const episodes = await this.purgeAll(
+      'episode',
+      await this.episodeRepository.findPurgeable(before, batchSize),
+      (id) => this.episodeService.purge(id, before, now),
+    );
+    const programs = await this.purgeAll(
+      'program',
+      await this.programRepository.findPurgeable(before, batchSize),
+      (id) => this.programService.purge(id, before, now),
+    );
+
+    if (programs > 0 || episodes > 0) {
+      this.logger.log(`Trash purged: ${programs} program(s), ${episodes} episode(s)`);
+    }
+
+    return { programs, episodes };
+  }
+
+  /**
+   * Purge items one by one; failures are logged and retried on the next run
+   *
+   * @returns number of items purged
+   */
+  private async purgeAll(
+    kind: string,
+    items: { id: string }[],
+    purge: (id: string) => Promise<boolean>,
+  ): Promise<number> {
+    let purged = 0;
+
+    for (const item of items) {
+      try {
+        if (await purge(item.id)) {
+          purged++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to purge ${kind} ${item.id}:`, error);
+      }
+    }
+
+    return purged;
+  }
+}
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TrashService } from './trash.service';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { ProgramService } from '../../programs/services/program.service';
+import { EpisodeRepository } from '../../episodes/repositories/episode.repository';
+import { EpisodeService } from '../../episodes/services/episode.service';
+import { Program } from '../../programs/entities/program.entity';
+import { Episode } from '../../episodes/entities/episode.entity';
+import { ContentStatus } from '@mediamesh/shared';
+
+describe('TrashService', () => {
+  let service: TrashService;
+  let programRepository: jest.Mocked<ProgramRepository>;
+  let programService: jest.Mocked<ProgramService>;
+  let episodeRepository: jest.Mocked<EpisodeRepository>;
+  let episodeService: jest.Mocked<EpisodeService>;
+
+  const deletedProgram = new Program({
+    id: 'program-1',
+    title: 'Deleted Program',
+    status: ContentStatus.PUBLISHED,
+    version: 2,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    deletedAt: new Date('2024-03-01T00:00:00.000Z'),
+  });
+
+  const deletedEpisode = new Episode({
+    id: 'episode-1',
+    programId: 'program-2',
+    title: 'Deleted Episode',
+    episodeNumber: 1,
+    status: ContentStatus.DRAFT,
+    version: 2,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    deletedAt: new Date('2024-03-02T00:00:00.000Z'),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrashService,
+        {
+          provide: ProgramRepository,
+          useValue: {
+            findDeleted: jest.fn().mockResolvedValue([]),
+            findDeletedById: jest.fn().mockResolvedValue(null),
+          },
+        },
+        {
+          provide: ProgramService,
+          useValue: { restoreDeleted: jest.fn() },
+        },
+        {
+          provide: EpisodeRepository,
+          useValue: {
+            findDeleted: jest.fn().mockResolvedValue([]),
+            findDeletedById: jest.fn().mockResolvedValue(null),
+          },
+        },
+        {
+          provide: EpisodeService,
+          useValue: { restoreDeleted: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TrashService>(TrashService);
+    programRepository = module.get(ProgramRepository);
+    programService = module.get(ProgramService);
+    episodeRepository = module.get(EpisodeRepository);
+    episodeService = module.get(EpisodeService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should merge programs and episodes, most recently deleted first', async () => {
+      programRepository.findDeleted.mockResolvedValue([deletedProgram]);
+      episodeRepository.findDeleted.mockResolvedValue([deletedEpisode]);
+
+      const entries = await service.findAll({}, 0, 20);
+
+      expect(entries.map((entry) => entry.contentId)).toEqual(['episode-1', 'program-1']);
+      expect(entries[0]).toMatchObject({ contentType: 'EPISODE', programId: 'program-2' });
+      expect(entries[1].purgeAt.getTime()).toBeGreaterThan(entries[1].deletedAt.getTime());
+    });
+
+    it('should only query the requested content type', async () => {
+      await service.findAll({ contentType: 'PROGRAM' }, 20, 10);
+
+      expect(programRepository.findDeleted).toHaveBeenCalledWith(0, 30);
+      expect(episodeRepository.findDeleted).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore a deleted program', async () => {
+      programRepository.findDeletedById.mockResolvedValue(deletedProgram);
+
+      const entry = await service.restore('program-1', 'admin-1');
+
+      expect(entry).toMatchObject({ contentId: 'program-1', contentType: 'PROGRAM' });
+      expect(programService.restoreDeleted).toHaveBeenCalledWith('program-1', 'admin-1');
+      expect(episodeService.restoreDeleted).not.toHaveBeenCalled();
+    });
+
+    it('should restore a deleted episode', async () => {
+      episodeRepository.findDeletedById.mockResolvedValue(deletedEpisode);
+
+      const entry = await service.restore('episode-1', 'admin-1');
+
+      expect(entry).toMatchObject({ contentId: 'episode-1', contentType: 'EPISODE' });
+      expect(episodeService.restoreDeleted).toHaveBeenCalledWith('episode-1', 'admin-1');
+    });
+
+    it('should throw NotFoundException if nothing with the ID is in the trash', async () => {
+      await expect(service.restore('missing')).rejects.toThrow(
+        "Trash entry with identifier 'missing' not found",
+      );
+    });
+  });
+});
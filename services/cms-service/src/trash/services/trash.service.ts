@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { throwIfNotFound } from '@mediamesh/shared';
+import { ProgramRepository } from '../../programs/repositories/program.repository';
+import { ProgramService } from '../../programs/services/program.service';
+import { EpisodeRepository } from '../../episodes/repositories/episode.repository';
+import { EpisodeService } from '../../episodes/services/episode.service';
+import { TrashEntry } from '../entities/trash-entry.entity';
+
+/**
+ * Trash Service
+ *
+ * Lists and restores deleted programs and episodes. Moving content to the trash and
+ * purging it live in ProgramService and EpisodeService.
+ */
+@Injectable()
+export class TrashService {
+  constructor(
+    private readonly programRepository: ProgramRepository,
+    private readonly programService: ProgramService,
+    private readonly episodeRepository: EpisodeRepository,
+    private readonly episodeService: EpisodeService,
+  ) {}
+
+  /**
+   * Find trash entries, most recently deleted first
+   *
+   * Each source is already ordered by deletedAt, so fetching skip + take rows from each
+   * and merging is enough to page through the combined list.
+   */
+  async findAll(
+    options: { contentType?: 'PROGRAM' | 'EPISODE' },
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<TrashEntry[]> {
+    const limit = skip + take;
+    const sources: Promise<TrashEntry[]>[] = [];
+
+    if (!options.contentType || options.contentType === 'PROGRAM') {
+      sources.push(
+        this.programRepository
+          .findDeleted(0, limit)
+          .then((programs) => programs.map((program) => TrashEntry.fromProgram(program))),
+      );
+    }
+
+    if (!options.contentType || options.contentType === 'EPISODE') {
+      sources.push(
+        this.episodeRepository
+          .findDeleted(0, limit)
+          .then((episodes) => episodes.map((episode) => TrashEntry.fromEpisode(episode))),
+      );
+    }
+
+    const entries = (await Promise.all(sources)).flat();
+    entries.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+
+    return entries.slice(skip, limit);
+  }
+
+  /**
+   * Restore a program or episode from the trash
+   *
+   * @returns the entry that was restored
+   */
+  async restore(id: string, restoredBy?: string): Promise<TrashEntry> {
+    const program = await this.programRepository.findDeletedById(id);
+    if (program) {
+      await this.programService.restoreDeleted(id, restoredBy);
+      return TrashEntry.fromProgram(program);
+    }
+
+    const episode = await this.episodeRepository.findDeletedById(id);
+    throwIfNotFound(episode, 'Trash entry', id);
+
+    await this.episodeService.restoreDeleted(id, restoredBy);
+    return TrashEntry.fromEpisode(episode);
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { ProgramsModule } from '../programs/programs.module';
+import { EpisodesModule } from '../episodes/episodes.module';
+import { TrashService } from './services/trash.service';
+import { TrashPurger } from './services/trash.purger';
+import { TrashController } from './controllers/trash.controller';
+import { JWT_CONFIG } from '../config/env.constants';
+
+/**
+ * Trash Module
+ *
+ * Soft-deleted programs and episodes: TrashController lists and restores them and
+ * TrashPurger removes them for good once the retention period has passed.
+ */
+@Module({
+  imports: [
+    ProgramsModule,
+    EpisodesModule,
+    JwtModule.register({
+      secret: JWT_CONFIG.SECRET,
+      signOptions: {
+        expiresIn: JWT_CONFIG.EXPIRATION_STRING,
+      },
+    }),
+  ],
+  controllers: [TrashController],
+  providers: [TrashService, TrashPurger],
+})
+export class TrashModule {}
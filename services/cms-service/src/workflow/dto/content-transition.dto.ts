@@ -0,0 +1,73 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ContentStatus } from '@mediamesh/shared';
+import { WorkflowAction } from '../entities/content-transition.entity';
+
+/**
+ * Actions available through POST /programs/:id/transitions
+ */
+export const REVIEW_ACTIONS = [
+  WorkflowAction.SUBMIT,
+  WorkflowAction.APPROVE,
+  WorkflowAction.REJECT,
+  WorkflowAction.WITHDRAW,
+  WorkflowAction.PUBLISH,
+];
+
+/**
+ * Transition Content DTO
+ */
+export class TransitionContentDto {
+  @ApiProperty({
+    description: 'Workflow action',
+    enum: REVIEW_ACTIONS,
+    example: WorkflowAction.SUBMIT,
+  })
+  @IsEnum(WorkflowAction)
+  @IsIn(REVIEW_ACTIONS)
+  action: WorkflowAction;
+
+  @ApiPropertyOptional({
+    description: 'Reviewer comment (required when rejecting)',
+    example: 'Description needs a synopsis of the season',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
+
+/**
+ * Content Transition DTO
+ */
+export class ContentTransitionDto {
+  @ApiProperty({ description: 'Transition ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Content ID' })
+  contentId: string;
+
+  @ApiProperty({ description: 'Content type', enum: ['PROGRAM', 'EPISODE', 'MOVIE'] })
+  contentType: 'PROGRAM' | 'EPISODE' | 'MOVIE';
+
+  @ApiProperty({ description: 'Workflow action', enum: WorkflowAction })
+  action: WorkflowAction;
+
+  @ApiProperty({ description: 'Status before the transition', enum: ContentStatus })
+  fromStatus: ContentStatus;
+
+  @ApiProperty({ description: 'Status after the transition', enum: ContentStatus })
+  toStatus: ContentStatus;
+
+  @ApiProperty({ description: 'User ID of the actor, or "system"' })
+  actorId: string;
+
+  @ApiPropertyOptional({ description: 'Role of the actor' })
+  actorRole?: string;
+
+  @ApiPropertyOptional({ description: 'Reviewer comment' })
+  comment?: string;
+
+  @ApiProperty({ description: 'When the transition happened' })
+  createdAt: string;
+}
@@ -0,0 +1,97 @@
+import { ContentStatus, UserRole } from '@mediamesh/shared';
+
+/**
+ * Workflow Action Enum
+ *
+ * Editorial actions that move content between statuses.
+ */
+export enum WorkflowAction {
+  SUBMIT = 'SUBMIT',
+  APPROVE = 'APPROVE',
+  REJECT = 'REJECT',
+  WITHDRAW = 'WITHDRAW',
+  PUBLISH = 'PUBLISH',
+  UNPUBLISH = 'UNPUBLISH',
+  SCHEDULE = 'SCHEDULE',
+  CANCEL_SCHEDULE = 'CANCEL_SCHEDULE',
+  ARCHIVE = 'ARCHIVE',
+  RESTORE = 'RESTORE',
+}
+
+/**
+ * Workflow Actor
+ *
+ * The user performing a transition (role is used for approval checks).
+ */
+export interface WorkflowActor {
+  id: string;
+  role: UserRole;
+}
+
+/**
+ * Content Transition Entity
+ *
+ * One recorded status change of a program, episode or movie, with actor and timestamp.
+ */
+export class ContentTransition {
+  id: string;
+  contentId: string;
+  contentType: 'PROGRAM' | 'EPISODE' | 'MOVIE';
+  action: WorkflowAction;
+  fromStatus: ContentStatus;
+  toStatus: ContentStatus;
+  actorId: string; // User ID, or "system" for scheduled transitions
+  actorRole?: string;
+  comment?: string;
+  createdAt: Date;
+
+  constructor(partial: Partial<ContentTransition>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create ContentTransition entity from Prisma model
+   */
+  static fromPrisma(prismaTransition: {
+    id: string;
+    contentId: string;
+    contentType: string;
+    action: string;
+    fromStatus: string;
+    toStatus: string;
+    actorId: string;
+    actorRole: string | null;
+    comment: string | null;
+    createdAt: Date;
+  }): ContentTransition {
+    return new ContentTransition({
+      id: prismaTransition.id,
+      contentId: prismaTransition.contentId,
+      contentType: prismaTransition.contentType as 'PROGRAM' | 'EPISODE' | 'MOVIE',
+      action: prismaTransition.action as WorkflowAction,
+      fromStatus: prismaTransition.fromStatus as ContentStatus,
+      toStatus: prismaTransition.toStatus as ContentStatus,
+      actorId: prismaTransition.actorId,
+      actorRole: prismaTransition.actorRole || undefined,
+      comment: prismaTransition.comment || undefined,
+      createdAt: prismaTransition.createdAt,
+    });
+  }
+
+  /**
+   * Entry for the changes map of content.updated events
+   */
+  toChange(): { old: ContentStatus; new: Record<string, any> } {
+    return {
+      old: this.fromStatus,
+      new: {
+        action: this.action,
+        status: this.toStatus,
+        actorId: this.actorId,
+        actorRole: this.actorRole,
+        comment: this.comment,
+        createdAt: this.createdAt.toISOString(),
+      },
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ContentTransition } from '../entities/content-transition.entity';
+
+/**
+ * Content Transition Repository
+ *
+ * Data access layer for the content transition history.
+ */
+@Injectable()
+export class ContentTransitionRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Record a transition
+   *
+   * Pass the transaction client so the row commits together with the status change.
+   */
+  async create(
+    data: {
+      contentId: string;
+      contentType: string;
+      action: string;
+      fromStatus: string;
+      toStatus: string;
+      actorId: string;
+      actorRole?: string;
+      comment?: string;
+    },
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<ContentTransition> {
+    const prismaTransition = await tx.contentTransition.create({
+      data,
+    });
+
+    return ContentTransition.fromPrisma(prismaTransition);
+  }
+
+  /**
+   * Find transitions of a content item (oldest first)
+   */
+  async findByContentId(
+    contentId: string,
+    skip: number = 0,
+    take: number = 50,
+  ): Promise<ContentTransition[]> {
+    const prismaTransitions = await this.prisma.contentTransition.findMany({
+      where: { contentId },
+      skip,
+      take,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return prismaTransitions.map((transition) => ContentTransition.fromPrisma(transition));
+  }
+}
@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ContentStatus, UserRole } from '@mediamesh/shared';
+import { WorkflowService } from './workflow.service';
+import { ContentTransitionRepository } from '../repositories/content-transition.repository';
+import { ContentTransition, WorkflowAction } from '../entities/content-transition.entity';
+
+describe('WorkflowService', () => {
+  let service: WorkflowService;
+  let repository: jest.Mocked<ContentTransitionRepository>;
+
+  const editor = { id: 'user-1', role: UserRole.EDITOR };
+  const reviewer = { id: 'reviewer-1', role: UserRole.REVIEWER };
+  const admin = { id: 'admin-1', role: UserRole.ADMIN };
+
+  beforeEach(async () => {
+    const mockRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(
+          new ContentTransition({ id: 'transition-1', ...data, createdAt: new Date() }),
+        ),
+      ),
+      findByContentId: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowService,
+        {
+          provide: ContentTransitionRepository,
+          useValue: mockRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowService>(WorkflowService);
+    repository = module.get(ContentTransitionRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolve', () => {
+    it('should follow DRAFT -> IN_REVIEW -> APPROVED -> PUBLISHED', () => {
+      expect(service.resolve(WorkflowAction.SUBMIT, ContentStatus.DRAFT, editor)).toBe(
+        ContentStatus.IN_REVIEW,
+      );
+      expect(service.resolve(WorkflowAction.APPROVE, ContentStatus.IN_REVIEW, reviewer)).toBe(
+        ContentStatus.APPROVED,
+      );
+      expect(service.resolve(WorkflowAction.PUBLISH, ContentStatus.APPROVED, editor)).toBe(
+        ContentStatus.PUBLISHED,
+      );
+    });
+
+    it('should allow resubmitting REJECTED content', () => {
+      expect(service.resolve(WorkflowAction.SUBMIT, ContentStatus.REJECTED, editor)).toBe(
+        ContentStatus.IN_REVIEW,
+      );
+    });
+
+    it('should let ADMIN approve', () => {
+      expect(service.resolve(WorkflowAction.APPROVE, ContentStatus.IN_REVIEW, admin)).toBe(
+        ContentStatus.APPROVED,
+      );
+    });
+
+    it('should throw ForbiddenException when an editor approves or rejects', () => {
+      expect(() =>
+        service.resolve(WorkflowAction.APPROVE, ContentStatus.IN_REVIEW, editor),
+      ).toThrow(ForbiddenException);
+      expect(() =>
+        service.resolve(WorkflowAction.REJECT, ContentStatus.IN_REVIEW, editor, 'No'),
+      ).toThrow(ForbiddenException);
+    });
+
+    it('should require a comment to reject', () => {
+      expect(() =>
+        service.resolve(WorkflowAction.REJECT, ContentStatus.IN_REVIEW, reviewer, '  '),
+      ).toThrow(BadRequestException);
+      expect(
+        service.resolve(WorkflowAction.REJECT, ContentStatus.IN_REVIEW, reviewer, 'Fix title'),
+      ).toBe(ContentStatus.REJECTED);
+    });
+
+    it('should throw BadRequestException for an invalid source status', () => {
+      expect(() => service.resolve(WorkflowAction.APPROVE, ContentStatus.DRAFT, reviewer)).toThrow(
+        BadRequestException,
+      );
+      expect(() => service.resolve(WorkflowAction.PUBLISH, ContentStatus.DRAFT, editor)).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should allow publishing DRAFT content when review is not required', () => {
+      jest.spyOn(service, 'isReviewRequired').mockReturnValue(false);
+
+      expect(service.resolve(WorkflowAction.PUBLISH, ContentStatus.DRAFT, editor)).toBe(
+        ContentStatus.PUBLISHED,
+      );
+    });
+
+    it('should skip role checks for system transitions', () => {
+      expect(service.resolve(WorkflowAction.PUBLISH, ContentStatus.SCHEDULED)).toBe(
+        ContentStatus.PUBLISHED,
+      );
+    });
+
+    it('should reject actions without a rule', () => {
+      expect(() => service.resolve(WorkflowAction.ARCHIVE, ContentStatus.DRAFT, admin)).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('record', () => {
+    it('should record the transition as system when no actor is given', async () => {
+      const tx = {} as any;
+
+      await service.record(tx, {
+        contentId: 'program-1',
+        contentType: 'PROGRAM',
+        action: WorkflowAction.PUBLISH,
+        fromStatus: ContentStatus.SCHEDULED,
+        toStatus: ContentStatus.PUBLISHED,
+      });
+
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'system', action: WorkflowAction.PUBLISH }),
+        tx,
+      );
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { Injectable, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ContentStatus, UserRole, UserRoles, hasRolePermission } from '@mediamesh/shared';
+import { ContentTransitionRepository } from '../repositories/content-transition.repository';
+import {
+  ContentTransition,
+  WorkflowAction,
+  WorkflowActor,
+} from '../entities/content-transition.entity';
+import { WORKFLOW_CONFIG } from '../../config/env.constants';
+
+/**
+ * Workflow Rule
+ */
+interface WorkflowRule {
+  from: ContentStatus[];
+  to: ContentStatus;
+  roles: string[]; // Minimum roles (hierarchy applies), any of
+  requireComment?: boolean;
+}
+
+/**
+ * Workflow Service
+ *
+ * Editorial state machine: DRAFT -> IN_REVIEW -> APPROVED -> PUBLISHED, with
+ * REJECTED (plus reviewer comment) sending content back to the editor.
+ * Review can be turned off with WORKFLOW_REQUIRE_REVIEW=false, in which case
+ * DRAFT content may be published directly.
+ */
+@Injectable()
+export class WorkflowService {
+  private readonly rules: Partial<Record<WorkflowAction, WorkflowRule>>;
+
+  constructor(private readonly transitionRepository: ContentTransitionRepository) {
+    const reviewerRoles = WORKFLOW_CONFIG.REVIEWER_ROLES;
+
+    this.rules = {
+      [WorkflowAction.SUBMIT]: {
+        from: [ContentStatus.DRAFT, ContentStatus.REJECTED],
+        to: ContentStatus.IN_REVIEW,
+        roles: [UserRole.EDITOR],
+      },
+      [WorkflowAction.APPROVE]: {
+        from: [ContentStatus.IN_REVIEW],
+        to: ContentStatus.APPROVED,
+        roles: reviewerRoles,
+      },
+      [WorkflowAction.REJECT]: {
+        from: [ContentStatus.IN_REVIEW],
+        to: ContentStatus.REJECTED,
+        roles: reviewerRoles,
+        requireComment: true,
+      },
+      [WorkflowAction.WITHDRAW]: {
+        from: [ContentStatus.IN_REVIEW, ContentStatus.APPROVED],
+        to: ContentStatus.DRAFT,
+        roles: [UserRole.EDITOR],
+      },
+      // DRAFT is also publishable when review is not required (see canPublish)
+      [WorkflowAction.PUBLISH]: {
+        from: [ContentStatus.APPROVED, ContentStatus.SCHEDULED],
+        to: ContentStatus.PUBLISHED,
+        roles: [UserRole.EDITOR],
+      },
+    };
+  }
+
+  /**
+   * Whether content must be approved before it can be published
+   */
+  isReviewRequired(): boolean {
+    return WORKFLOW_CONFIG.REQUIRE_REVIEW;
+  }
+
+  /**
+   * Whether content in this status may be published or scheduled for publishing
+   */
+  canPublish(status: ContentStatus): boolean {
+    return (
+      status === ContentStatus.APPROVED ||
+      (!this.isReviewRequired() && status === ContentStatus.DRAFT)
+    );
+  }
+
+  /**
+   * Resolve the target status of an editorial action
+   *
+   * Actions without a rule (archive, schedule, ...) are validated by the content
+   * services themselves. Omit the actor for system transitions.
+   */
+  resolve(
+    action: WorkflowAction,
+    from: ContentStatus,
+    actor?: WorkflowActor,
+    comment?: string,
+  ): ContentStatus {
+    const rule = this.rules[action];
+    if (!rule) {
+      throw new BadRequestException(`Unsupported workflow action: ${action}`);
+    }
+
+    const publishable = action === WorkflowAction.PUBLISH && this.canPublish(from);
+    if (!rule.from.includes(from) && !publishable) {
+      throw new BadRequestException(`Cannot ${action.toLowerCase()} content with status: ${from}`);
+    }
+
+    if (actor && !this.hasAnyRole(actor.role, rule.roles)) {
+      throw new ForbiddenException(`Role ${actor.role} is not allowed to ${action.toLowerCase()}`);
+    }
+
+    if (rule.requireComment && !comment?.trim()) {
+      throw new BadRequestException(`A comment is required to ${action.toLowerCase()}`);
+    }
+
+    return rule.to;
+  }
+
+  /**
+   * Record a transition within the caller's transaction
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    data: {
+      contentId: string;
+      contentType: 'PROGRAM' | 'EPISODE' | 'MOVIE';
+      action: WorkflowAction;
+      fromStatus: ContentStatus;
+      toStatus: ContentStatus;
+      actorId?: string;
+      actorRole?: string;
+      comment?: string;
+    },
+  ): Promise<ContentTransition> {
+    return await this.transitionRepository.create(
+      {
+        ...data,
+        actorId: data.actorId || 'system',
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Get the transition history of a content item
+   */
+  async findHistory(
+    contentId: string,
+    skip: number = 0,
+    take: number = 50,
+  ): Promise<ContentTransition[]> {
+    return await this.transitionRepository.findByContentId(contentId, skip, take);
+  }
+
+  private hasAnyRole(role: string, roles: string[]): boolean {
+    return roles.some((required) =>
+      hasRolePermission(role as unknown as UserRoles, required as unknown as UserRoles),
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ContentTransitionRepository } from './repositories/content-transition.repository';
+import { WorkflowService } from './services/workflow.service';
+
+/**
+ * Workflow Module
+ *
+ * Editorial review state machine and transition history for content.
+ */
+@Module({
+  providers: [ContentTransitionRepository, WorkflowService],
+  exports: [WorkflowService],
+})
+export class WorkflowModule {}
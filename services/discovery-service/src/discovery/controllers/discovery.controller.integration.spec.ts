@@ -6,6 +6,7 @@ import { FastifyAdapter } from '@nestjs/platform-fastify';
 import { DiscoveryController } from './discovery.controller';
 import { DiscoveryService } from '../services/discovery.service';
 import { DiscoveryRepository } from '../repositories/discovery.repository';
+import { DynamoDBDiscoveryRepository } from '../repositories/dynamodb-discovery.repository';
 import { ContentStatus, ContentType } from '@mediamesh/shared';
 
 describe('DiscoveryController (integration)', () => {
@@ -33,12 +34,36 @@ describe('DiscoveryController (integration)', () => {
     updatedAt: new Date('2024-01-01'),
   };
 
+  const mockSeason = {
+    id: '550e8400-e29b-41d4-a716-446655440003',
+    programId: '550e8400-e29b-41d4-a716-446655440001',
+    seasonNumber: 1,
+    title: 'Season One',
+    status: ContentStatus.PUBLISHED,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockMovie = {
+    id: '550e8400-e29b-41d4-a716-446655440009',
+    type: ContentType.MOVIE,
+    title: 'The Long Voyage',
+    duration: 6300,
+    status: ContentStatus.PUBLISHED,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
   beforeEach(async () => {
     const mockRepository = {
       search: jest.fn(),
       findPrograms: jest.fn(),
       findProgramById: jest.fn(),
       findEpisodesByProgramId: jest.fn(),
+      findSeasonsByProgramId: jest.fn(),
+      findSeasonEpisodes: jest.fn(),
+      findContentItems: jest.fn(),
+      findContentItemById: jest.fn(),
       findTrending: jest.fn(),
       findPopular: jest.fn(),
     };
@@ -57,6 +82,15 @@ describe('DiscoveryController (integration)', () => {
           provide: DiscoveryRepository,
           useValue: mockRepository,
         },
+        {
+          provide: DynamoDBDiscoveryRepository,
+          useValue: {
+            getTrending: jest.fn().mockResolvedValue(null),
+            storeTrending: jest.fn(),
+            getPopular: jest.fn().mockResolvedValue(null),
+            storePopular: jest.fn(),
+          },
+        },
         {
           provide: CACHE_MANAGER,
           useValue: mockCacheManager,
@@ -232,6 +266,129 @@ describe('DiscoveryController (integration)', () => {
     });
   });
 
+  describe('GET /discovery/programs/:id/seasons', () => {
+    it('should return seasons for program', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      discoveryRepository.findProgramById.mockResolvedValue(mockProgram);
+      discoveryRepository.findSeasonsByProgramId.mockResolvedValue([mockSeason]);
+
+      const response = await request(app.getHttpServer())
+        .get(`/discovery/programs/${mockProgram.id}/seasons`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        seasons: [expect.objectContaining({ seasonNumber: 1, title: 'Season One' })],
+      });
+    });
+
+    it('should return 404 if program not found', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      discoveryRepository.findProgramById.mockResolvedValue(null);
+
+      const response = await request(app.getHttpServer())
+        .get('/discovery/programs/non-existent/seasons')
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        statusCode: 404,
+        message: 'Program not found',
+      });
+    });
+  });
+
+  describe('GET /discovery/programs/:id/seasons/:seasonNumber/episodes', () => {
+    it('should return episodes for season', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      discoveryRepository.findSeasonEpisodes.mockResolvedValue({
+        season: mockSeason,
+        episodes: [{ ...mockEpisode, seasonNumber: 1 }],
+        total: 1,
+      });
+
+      const response = await request(app.getHttpServer())
+        .get(`/discovery/programs/${mockProgram.id}/seasons/1/episodes`)
+        .expect(200);
+
+      expect(discoveryRepository.findSeasonEpisodes).toHaveBeenCalledWith(mockProgram.id, 1, 0, 20);
+      expect(response.body).toMatchObject({
+        season: expect.objectContaining({ seasonNumber: 1 }),
+        episodes: [expect.objectContaining({ seasonNumber: 1 })],
+        total: 1,
+      });
+    });
+
+    it('should return 404 if season not found', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      discoveryRepository.findSeasonEpisodes.mockResolvedValue({
+        season: null,
+        episodes: [],
+        total: 0,
+      });
+
+      const response = await request(app.getHttpServer())
+        .get(`/discovery/programs/${mockProgram.id}/seasons/9/episodes`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        statusCode: 404,
+        message: 'Season not found',
+      });
+    });
+
+    it('should reject a non-numeric season number', async () => {
+      await request(app.getHttpServer())
+        .get(`/discovery/programs/${mockProgram.id}/seasons/one/episodes`)
+        .expect(400);
+    });
+  });
+
+  describe('GET /discovery/movies', () => {
+    it('should return published movies', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      discoveryRepository.findContentItems.mockResolvedValue({ items: [mockMovie], total: 1 });
+
+      const response = await request(app.getHttpServer())
+        .get('/discovery/movies')
+        .query({ page: 1, limit: 10 })
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        movies: [expect.objectContaining({ id: mockMovie.id, title: 'The Long Voyage' })],
+        total: 1,
+        page: 1,
+        limit: 10,
+      });
+      expect(discoveryRepository.findContentItems).toHaveBeenCalledWith(ContentType.MOVIE, 0, 10);
+    });
+  });
+
+  describe('GET /discovery/movies/:id', () => {
+    it('should return movie by ID', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      discoveryRepository.findContentItemById.mockResolvedValue(mockMovie);
+
+      const response = await request(app.getHttpServer())
+        .get(`/discovery/movies/${mockMovie.id}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ id: mockMovie.id, duration: 6300 });
+    });
+
+    it('should return 404 if movie not found', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      discoveryRepository.findContentItemById.mockResolvedValue(null);
+
+      const response = await request(app.getHttpServer())
+        .get('/discovery/movies/non-existent')
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        statusCode: 404,
+        message: 'Movie not found',
+      });
+    });
+  });
+
   describe('GET /discovery/trending', () => {
     it('should return trending content', async () => {
       const trending = [mockProgram];
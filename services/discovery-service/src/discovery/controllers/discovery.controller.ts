@@ -7,6 +7,7 @@ import {
   HttpStatus,
   Logger,
   Header,
+  ParseIntPipe,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -19,6 +20,7 @@ import { DiscoveryService } from '../services/discovery.service';
 import {
   SearchQueryDto,
   ProgramsQueryDto,
+  MoviesQueryDto,
   TrendingQueryDto,
   PopularQueryDto,
 } from '../dto/discovery.dto';
@@ -33,6 +35,10 @@ import { REDIS_CONFIG } from '../../config/env.constants';
  * - GET /discovery/programs - List programs
  * - GET /discovery/programs/:id - Get program details
  * - GET /discovery/programs/:id/episodes - Get episodes for program
+ * - GET /discovery/programs/:id/seasons - Get seasons for program
+ * - GET /discovery/programs/:id/seasons/:seasonNumber/episodes - Get episodes for a season
+ * - GET /discovery/movies - List published movies
+ * - GET /discovery/movies/:id - Get movie details
  * - GET /discovery/trending - Get trending content
  * - GET /discovery/popular - Get popular content
  */
@@ -146,6 +152,113 @@ export class DiscoveryController {
     return result;
   }
 
+  /**
+   * Get seasons for a program
+   * GET /discovery/programs/:id/seasons
+   */
+  @Get('programs/:id/seasons')
+  @Public()
+  @ApiOperation({ summary: 'Get published seasons for a program' })
+  @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of seasons',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Program not found',
+  })
+  @Header('Cache-Control', `public, max-age=${REDIS_CONFIG.TTL.EPISODES}`)
+  async getSeasons(@Param('id') id: string) {
+    const seasons = await this.discoveryService.getSeasons(id);
+    if (!seasons) {
+      return { statusCode: 404, message: 'Program not found' };
+    }
+    return { seasons };
+  }
+
+  /**
+   * Get episodes for a season
+   * GET /discovery/programs/:id/seasons/:seasonNumber/episodes
+   */
+  @Get('programs/:id/seasons/:seasonNumber/episodes')
+  @Public()
+  @ApiOperation({ summary: 'Get episodes for a season of a program' })
+  @ApiParam({ name: 'id', type: String, description: 'Program ID' })
+  @ApiParam({ name: 'seasonNumber', type: Number, description: 'Season number' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Season with its episodes',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Season not found',
+  })
+  @Header('Cache-Control', `public, max-age=${REDIS_CONFIG.TTL.EPISODES}`)
+  async getSeasonEpisodes(
+    @Param('id') id: string,
+    @Param('seasonNumber', ParseIntPipe) seasonNumber: number,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    const result = await this.discoveryService.getSeasonEpisodes(
+      id,
+      seasonNumber,
+      page || 1,
+      limit || 20,
+    );
+    if (!result) {
+      return { statusCode: 404, message: 'Season not found' };
+    }
+    return result;
+  }
+
+  /**
+   * Get published movies with pagination
+   * GET /discovery/movies
+   */
+  @Get('movies')
+  @Public()
+  @ApiOperation({ summary: 'Get published movies with pagination' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'List of movies',
+  })
+  @Header('Cache-Control', `public, max-age=${REDIS_CONFIG.TTL.PROGRAMS}`)
+  async getMovies(@Query() query: MoviesQueryDto) {
+    const result = await this.discoveryService.getMovies(query.page, query.limit);
+    return result;
+  }
+
+  /**
+   * Get movie by ID
+   * GET /discovery/movies/:id
+   */
+  @Get('movies/:id')
+  @Public()
+  @ApiOperation({ summary: 'Get published movie by ID' })
+  @ApiParam({ name: 'id', type: String, description: 'Movie ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Movie details',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Movie not found',
+  })
+  @Header('Cache-Control', `public, max-age=${REDIS_CONFIG.TTL.PROGRAMS}`)
+  async getMovie(@Param('id') id: string) {
+    const movie = await this.discoveryService.getMovie(id);
+    if (!movie) {
+      return { statusCode: 404, message: 'Movie not found' };
+    }
+    return movie;
+  }
+
   /**
    * Get trending content
    * GET /discovery/trending
@@ -65,6 +65,26 @@ export class ProgramsQueryDto {
   limit?: number = 20;
 }
 
+/**
+ * Movies Query DTO
+ */
+export class MoviesQueryDto {
+  @ApiPropertyOptional({ description: 'Page number', example: 1, minimum: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', example: 20, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
 /**
  * Trending Query DTO
  */
@@ -2,11 +2,18 @@ import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ContentStatus, ContentType } from '@mediamesh/shared';
 
+// Episodes are listed season by season; episodes without a season sort last
+const SEASON_EPISODE_ORDER = [
+  { season: { seasonNumber: 'asc' as const } },
+  { episodeNumber: 'asc' as const },
+];
+
 /**
  * Discovery Repository
  * 
  * Data access layer for discovery operations.
  * Reads from read-only database replica.
+ * Programs and episodes in the CMS trash (deletedAt set) are never returned.
  */
 @Injectable()
 export class DiscoveryRepository {
@@ -31,6 +38,7 @@ export class DiscoveryRepository {
         { description: { contains: searchTerm } },
       ],
       status: ContentStatus.PUBLISHED,
+      deletedAt: null,
     };
 
     const whereEpisodes: any = {
@@ -39,6 +47,7 @@ export class DiscoveryRepository {
         { description: { contains: searchTerm } },
       ],
       status: ContentStatus.PUBLISHED,
+      deletedAt: null,
     };
 
     const [programs, episodes, programCount, episodeCount] = await Promise.all([
@@ -73,7 +82,7 @@ export class DiscoveryRepository {
     skip: number = 0,
     take: number = 20,
   ): Promise<{ programs: any[]; total: number }> {
-    const where: any = {};
+    const where: any = { deletedAt: null };
     if (status) {
       where.status = status;
     } else {
@@ -97,8 +106,8 @@ export class DiscoveryRepository {
    * Find program by ID
    */
   async findProgramById(id: string): Promise<any | null> {
-    return await this.prisma.program.findUnique({
-      where: { id },
+    return await this.prisma.program.findFirst({
+      where: { id, deletedAt: null },
     });
   }
 
@@ -113,6 +122,63 @@ export class DiscoveryRepository {
     const where = {
       programId,
       status: ContentStatus.PUBLISHED,
+      deletedAt: null,
+    };
+
+    const [episodes, total] = await Promise.all([
+      this.prisma.episode.findMany({
+        where,
+        skip,
+        take,
+        include: { season: { select: { seasonNumber: true } } },
+        orderBy: SEASON_EPISODE_ORDER,
+      }),
+      this.prisma.episode.count({ where }),
+    ]);
+
+    return { episodes: episodes.map(withSeasonNumber), total };
+  }
+
+  /**
+   * Find published seasons of a program
+   */
+  async findSeasonsByProgramId(programId: string): Promise<any[]> {
+    return await this.prisma.season.findMany({
+      where: {
+        programId,
+        status: ContentStatus.PUBLISHED,
+        program: { deletedAt: null },
+      },
+      orderBy: { seasonNumber: 'asc' },
+    });
+  }
+
+  /**
+   * Find a published season by number with its published episodes
+   */
+  async findSeasonEpisodes(
+    programId: string,
+    seasonNumber: number,
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<{ season: any | null; episodes: any[]; total: number }> {
+    const season = await this.prisma.season.findFirst({
+      where: {
+        programId,
+        seasonNumber,
+        status: ContentStatus.PUBLISHED,
+        program: { deletedAt: null },
+      },
+    });
+
+    if (!season) {
+      return { season: null, episodes: [], total: 0 };
+    }
+
+    const where = {
+      seasonId: season.id,
+      status: ContentStatus.PUBLISHED,
+      deletedAt: null,
     };
 
     const [episodes, total] = await Promise.all([
@@ -125,7 +191,50 @@ export class DiscoveryRepository {
       this.prisma.episode.count({ where }),
     ]);
 
-    return { episodes, total };
+    return {
+      season,
+      episodes: episodes.map((episode: any) => ({ ...episode, seasonNumber })),
+      total,
+    };
+  }
+
+  /**
+   * Find published content items (movies) of a type, most recently published first
+   */
+  async findContentItems(
+    type: ContentType,
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<{ items: any[]; total: number }> {
+    const where = {
+      type,
+      status: ContentStatus.PUBLISHED,
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.contentItem.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { publishedAt: 'desc' },
+      }),
+      this.prisma.contentItem.count({ where }),
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * Find a published content item of a type by ID
+   */
+  async findContentItemById(type: ContentType, id: string): Promise<any | null> {
+    return await this.prisma.contentItem.findFirst({
+      where: {
+        id,
+        type,
+        status: ContentStatus.PUBLISHED,
+      },
+    });
   }
 
   /**
@@ -139,6 +248,7 @@ export class DiscoveryRepository {
     // For now, we'll use recently published content
     const where: any = {
       status: ContentStatus.PUBLISHED,
+      deletedAt: null,
     };
 
     return await this.prisma.program.findMany({
@@ -159,6 +269,7 @@ export class DiscoveryRepository {
     // For now, we'll use programs with most episodes
     const where: any = {
       status: ContentStatus.PUBLISHED,
+      deletedAt: null,
     };
 
     return await this.prisma.program.findMany({
@@ -168,3 +279,10 @@ export class DiscoveryRepository {
     });
   }
 }
+
+/**
+ * Flatten the joined season into a seasonNumber field
+ */
+function withSeasonNumber({ season, ...episode }: any): any {
+  return { ...episode, seasonNumber: season?.seasonNumber ?? null };
+}
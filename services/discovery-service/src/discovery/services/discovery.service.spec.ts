@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { DiscoveryService } from './discovery.service';
 import { DiscoveryRepository } from '../repositories/discovery.repository';
+import { DynamoDBDiscoveryRepository } from '../repositories/dynamodb-discovery.repository';
 import { ContentType, ContentStatus } from '@mediamesh/shared';
 
 describe('DiscoveryService', () => {
@@ -28,12 +29,37 @@ describe('DiscoveryService', () => {
     updatedAt: new Date('2024-01-01'),
   };
 
+  const mockSeason = {
+    id: '550e8400-e29b-41d4-a716-446655440003',
+    programId: '550e8400-e29b-41d4-a716-446655440001',
+    seasonNumber: 1,
+    title: 'Season One',
+    status: ContentStatus.PUBLISHED,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockMovie = {
+    id: '550e8400-e29b-41d4-a716-446655440009',
+    type: ContentType.MOVIE,
+    title: 'The Long Voyage',
+    duration: 6300,
+    status: ContentStatus.PUBLISHED,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    publishedAt: new Date('2024-02-01'),
+  };
+
   beforeEach(async () => {
     const mockRepository = {
       search: jest.fn(),
       findPrograms: jest.fn(),
       findProgramById: jest.fn(),
       findEpisodesByProgramId: jest.fn(),
+      findSeasonsByProgramId: jest.fn(),
+      findSeasonEpisodes: jest.fn(),
+      findContentItems: jest.fn(),
+      findContentItemById: jest.fn(),
       findTrending: jest.fn(),
       findPopular: jest.fn(),
     };
@@ -51,6 +77,15 @@ describe('DiscoveryService', () => {
           provide: DiscoveryRepository,
           useValue: mockRepository,
         },
+        {
+          provide: DynamoDBDiscoveryRepository,
+          useValue: {
+            getTrending: jest.fn().mockResolvedValue(null),
+            storeTrending: jest.fn(),
+            getPopular: jest.fn().mockResolvedValue(null),
+            storePopular: jest.fn(),
+          },
+        },
         {
           provide: CACHE_MANAGER,
           useValue: mockCacheManager,
@@ -220,6 +255,108 @@ describe('DiscoveryService', () => {
     });
   });
 
+  describe('getSeasons', () => {
+    it('should return cached seasons if available', async () => {
+      cacheManager.get.mockResolvedValue([mockSeason]);
+
+      const result = await service.getSeasons(mockProgram.id);
+
+      expect(result).toEqual([mockSeason]);
+      expect(repository.findSeasonsByProgramId).not.toHaveBeenCalled();
+    });
+
+    it('should query database and cache result on cache miss', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      repository.findProgramById.mockResolvedValue(mockProgram);
+      repository.findSeasonsByProgramId.mockResolvedValue([mockSeason]);
+
+      const result = await service.getSeasons(mockProgram.id);
+
+      expect(result).toEqual([mockSeason]);
+      expect(cacheManager.set).toHaveBeenCalledWith(
+        `program:${mockProgram.id}:seasons`,
+        [mockSeason],
+        expect.any(Number),
+      );
+    });
+
+    it('should return null if program not found', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      repository.findProgramById.mockResolvedValue(null);
+
+      const result = await service.getSeasons('non-existent');
+
+      expect(result).toBeNull();
+      expect(repository.findSeasonsByProgramId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSeasonEpisodes', () => {
+    it('should query database and cache result on cache miss', async () => {
+      const dbResult = {
+        season: mockSeason,
+        episodes: [{ ...mockEpisode, seasonNumber: 1 }],
+        total: 1,
+      };
+      cacheManager.get.mockResolvedValue(null);
+      repository.findSeasonEpisodes.mockResolvedValue(dbResult);
+
+      const result = await service.getSeasonEpisodes(mockProgram.id, 1, 2, 10);
+
+      expect(result).toEqual({ ...dbResult, page: 2, limit: 10 });
+      expect(repository.findSeasonEpisodes).toHaveBeenCalledWith(mockProgram.id, 1, 10, 10);
+      expect(cacheManager.set).toHaveBeenCalled();
+    });
+
+    it('should return null and not cache if season not found', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      repository.findSeasonEpisodes.mockResolvedValue({ season: null, episodes: [], total: 0 });
+
+      const result = await service.getSeasonEpisodes(mockProgram.id, 9);
+
+      expect(result).toBeNull();
+      expect(cacheManager.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMovies', () => {
+    it('should query published movies and cache result on cache miss', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      repository.findContentItems.mockResolvedValue({ items: [mockMovie], total: 1 });
+
+      const result = await service.getMovies(2, 10);
+
+      expect(result).toEqual({ movies: [mockMovie], total: 1, page: 2, limit: 10 });
+      expect(repository.findContentItems).toHaveBeenCalledWith(ContentType.MOVIE, 10, 10);
+      expect(cacheManager.set).toHaveBeenCalledWith('movies:2:10', result, expect.any(Number));
+    });
+  });
+
+  describe('getMovie', () => {
+    it('should return cached movie if available', async () => {
+      cacheManager.get.mockResolvedValue(mockMovie);
+
+      const result = await service.getMovie(mockMovie.id);
+
+      expect(result).toEqual(mockMovie);
+      expect(repository.findContentItemById).not.toHaveBeenCalled();
+    });
+
+    it('should return null and not cache if movie not found', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      repository.findContentItemById.mockResolvedValue(null);
+
+      const result = await service.getMovie('non-existent');
+
+      expect(result).toBeNull();
+      expect(repository.findContentItemById).toHaveBeenCalledWith(
+        ContentType.MOVIE,
+        'non-existent',
+      );
+      expect(cacheManager.set).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getTrending', () => {
     it('should return cached trending if available', async () => {
       const cached = [mockProgram];
@@ -279,6 +416,17 @@ describe('DiscoveryService', () => {
       await service.invalidateProgramCache(mockProgram.id);
 
       expect(cacheManager.del).toHaveBeenCalled();
+      expect(cacheManager.del).toHaveBeenCalledWith(`program:${mockProgram.id}:seasons`);
+    });
+  });
+
+  describe('invalidateProgramSeasonsCache', () => {
+    it('should invalidate the seasons of a program', async () => {
+      cacheManager.del.mockResolvedValue(undefined);
+
+      await service.invalidateProgramSeasonsCache(mockProgram.id);
+
+      expect(cacheManager.del).toHaveBeenCalledWith(`program:${mockProgram.id}:seasons`);
     });
   });
 });
@@ -12,8 +12,13 @@ const CacheKeys = {
   program: (id: string) => `program:${id}`,
   programEpisodes: (programId: string, page: number, limit: number) =>
     `program:${programId}:episodes:${page}:${limit}`,
+  programSeasons: (programId: string) => `program:${programId}:seasons`,
+  seasonEpisodes: (programId: string, seasonNumber: number, page: number, limit: number) =>
+    `program:${programId}:seasons:${seasonNumber}:episodes:${page}:${limit}`,
   programs: (status: string, page: number, limit: number) =>
     `programs:${status || 'all'}:${page}:${limit}`,
+  movie: (id: string) => `movie:${id}`,
+  movies: (page: number, limit: number) => `movies:${page}:${limit}`,
   search: (query: string, contentType: string, page: number, limit: number) =>
     `search:${query}:${contentType || 'all'}:${page}:${limit}`,
   trending: (contentType: string, limit: number) =>
@@ -168,6 +173,140 @@ export class DiscoveryService {
     return response;
   }
 
+  /**
+   * Get published seasons of a program
+   *
+   * @returns null if the program does not exist
+   */
+  async getSeasons(programId: string): Promise<any[] | null> {
+    const cacheKey = CacheKeys.programSeasons(programId);
+
+    // Try cache first
+    const cached = await this.cacheManager.get<any[]>(cacheKey);
+    if (cached) {
+      this.logger.debug(`Cache hit for seasons: ${programId}`);
+      return cached;
+    }
+
+    // Cache miss - query database
+    this.logger.debug(`Cache miss for seasons: ${programId}`);
+    const program = await this.getProgram(programId);
+    if (!program) {
+      return null;
+    }
+
+    const seasons = await this.repository.findSeasonsByProgramId(programId);
+
+    // Store in cache
+    await this.cacheManager.set(cacheKey, seasons, REDIS_CONFIG.TTL.EPISODES * 1000);
+
+    return seasons;
+  }
+
+  /**
+   * Get episodes of a program's season, by season number
+   *
+   * @returns null if the season does not exist or is not published
+   */
+  async getSeasonEpisodes(
+    programId: string,
+    seasonNumber: number,
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ season: any; episodes: any[]; total: number; page: number; limit: number } | null> {
+    const skip = (page - 1) * limit;
+    const cacheKey = CacheKeys.seasonEpisodes(programId, seasonNumber, page, limit);
+
+    // Try cache first
+    const cached = await this.cacheManager.get<any>(cacheKey);
+    if (cached) {
+      this.logger.debug(`Cache hit for season episodes: ${programId} S${seasonNumber}`);
+      return cached;
+    }
+
+    // Cache miss - query database
+    this.logger.debug(`Cache miss for season episodes: ${programId} S${seasonNumber}`);
+    const result = await this.repository.findSeasonEpisodes(programId, seasonNumber, skip, limit);
+
+    if (!result.season) {
+      return null;
+    }
+
+    const response = {
+      ...result,
+      page,
+      limit,
+    };
+
+    // Store in cache
+    await this.cacheManager.set(cacheKey, response, REDIS_CONFIG.TTL.EPISODES * 1000);
+
+    return response;
+  }
+
+  /**
+   * Get published movies with pagination
+   */
+  async getMovies(
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ movies: any[]; total: number; page: number; limit: number }> {
+    const skip = (page - 1) * limit;
+    const cacheKey = CacheKeys.movies(page, limit);
+
+    // Try cache first
+    const cached = await this.cacheManager.get<any>(cacheKey);
+    if (cached) {
+      this.logger.debug(`Cache hit for movies: ${page}`);
+      return cached;
+    }
+
+    // Cache miss - query database
+    this.logger.debug(`Cache miss for movies: ${page}`);
+    const { items, total } = await this.repository.findContentItems(ContentType.MOVIE, skip, limit);
+
+    const response = {
+      movies: items,
+      total,
+      page,
+      limit,
+    };
+
+    // Store in cache
+    await this.cacheManager.set(cacheKey, response, REDIS_CONFIG.TTL.PROGRAMS * 1000);
+
+    return response;
+  }
+
+  /**
+   * Get published movie by ID
+   *
+   * @returns null if the movie does not exist or is not published
+   */
+  async getMovie(id: string): Promise<any> {
+    const cacheKey = CacheKeys.movie(id);
+
+    // Try cache first
+    const cached = await this.cacheManager.get<any>(cacheKey);
+    if (cached) {
+      this.logger.debug(`Cache hit for movie: ${id}`);
+      return cached;
+    }
+
+    // Cache miss - query database
+    this.logger.debug(`Cache miss for movie: ${id}`);
+    const movie = await this.repository.findContentItemById(ContentType.MOVIE, id);
+
+    if (!movie) {
+      return null;
+    }
+
+    // Store in cache
+    await this.cacheManager.set(cacheKey, movie, REDIS_CONFIG.TTL.PROGRAMS * 1000);
+
+    return movie;
+  }
+
   /**
    * Get trending content
    * 
@@ -290,6 +429,7 @@ export class DiscoveryService {
   async invalidateProgramCache(programId: string): Promise<void> {
     const keys = [
       CacheKeys.program(programId),
+      CacheKeys.programSeasons(programId),
       CacheKeys.trending('all', 10),
       CacheKeys.popular('all', 10),
     ];
@@ -302,6 +442,16 @@ export class DiscoveryService {
     this.logger.log(`Cache invalidated for program: ${programId}`);
   }
 
+  /**
+   * Invalidate cache for a movie
+   */
+  async invalidateMovieCache(movieId: string): Promise<void> {
+    await this.cacheManager.del(CacheKeys.movie(movieId));
+
+    // Movie list caches expire with their TTL (in production, use pattern matching)
+    this.logger.log(`Cache invalidated for movie: ${movieId}`);
+  }
+
   /**
    * Invalidate cache for program episodes
    */
@@ -310,6 +460,16 @@ export class DiscoveryService {
     this.logger.log(`Cache invalidated for program episodes: ${programId}`);
   }
 
+  /**
+   * Invalidate cache for the seasons of a program
+   */
+  async invalidateProgramSeasonsCache(programId: string): Promise<void> {
+    await this.cacheManager.del(CacheKeys.programSeasons(programId));
+
+    // Season episode pages expire with their TTL (in production, use pattern matching)
+    this.logger.log(`Cache invalidated for program seasons: ${programId}`);
+  }
+
   /**
    * Invalidate search cache
    */
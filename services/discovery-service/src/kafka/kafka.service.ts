@@ -25,7 +25,13 @@ export class KafkaService implements OnModuleInit {
   async onModuleInit() {
     await this.consumer.connect();
     await this.consumer.subscribe({
-      topics: ['content.updated', 'content.published', 'content.deleted'],
+      topics: [
+        'content.updated',
+        'content.published',
+        'content.unpublished',
+        'content.deleted',
+        'content.archived',
+      ],
     });
 
     await this.consumer.run({
@@ -48,18 +54,21 @@ export class KafkaService implements OnModuleInit {
     switch (topic) {
       case 'content.updated':
       case 'content.published':
-        if (event.payload?.contentType === 'PROGRAM' && event.payload?.contentId) {
-          await this.discoveryService.invalidateProgramCache(event.payload.contentId);
-          await this.discoveryService.invalidateProgramEpisodesCache(event.payload.contentId);
-          await this.discoveryService.invalidateSearchCache();
-        }
-        break;
-
+      case 'content.unpublished':
       case 'content.deleted':
+      case 'content.archived':
         if (event.payload?.contentType === 'PROGRAM' && event.payload?.contentId) {
           await this.discoveryService.invalidateProgramCache(event.payload.contentId);
           await this.discoveryService.invalidateProgramEpisodesCache(event.payload.contentId);
           await this.discoveryService.invalidateSearchCache();
+        } else if (event.payload?.contentType === 'EPISODE' && event.payload?.programId) {
+          await this.discoveryService.invalidateProgramEpisodesCache(event.payload.programId);
+        } else if (event.payload?.contentType === 'SEASON' && event.payload?.programId) {
+          await this.discoveryService.invalidateProgramSeasonsCache(event.payload.programId);
+          await this.discoveryService.invalidateProgramEpisodesCache(event.payload.programId);
+        } else if (event.payload?.contentType === 'MOVIE' && event.payload?.contentId) {
+          await this.discoveryService.invalidateMovieCache(event.payload.contentId);
+          await this.discoveryService.invalidateSearchCache();
         }
         break;
     }
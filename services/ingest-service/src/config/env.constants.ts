@@ -33,7 +33,9 @@ export const KAFKA_CONFIG = {
 // YouTube API configuration
 export const YOUTUBE_CONFIG = {
   API_KEY: process.env.YOUTUBE_API_KEY || '',
-  MAX_RESULTS: parseInt(process.env.YOUTUBE_MAX_RESULTS || '50', 10),
+  MAX_RESULTS: parseInt(process.env.YOUTUBE_MAX_RESULTS || '50', 10), // Per page (API maximum 50)
+  MAX_VIDEOS: parseInt(process.env.YOUTUBE_MAX_VIDEOS || '1000', 10), // Per playlist or channel
+  API_BASE_URL: process.env.YOUTUBE_API_BASE_URL || 'https://www.googleapis.com/youtube/v3',
 };
 
 // JWT configuration (must match auth-service secret)
@@ -46,5 +48,61 @@ export const JWT_CONFIG = {
 export const INGEST_CONFIG = {
   MAX_RETRIES: parseInt(process.env.MAX_RETRIES || '3', 10),
   RETRY_DELAY_MS: parseInt(process.env.RETRY_DELAY_MS || '5000', 10),
-  BATCH_SIZE: parseInt(process.env.INGEST_BATCH_SIZE || '10', 10),
+  RETRY_MAX_DELAY_MS: parseInt(process.env.RETRY_MAX_DELAY_MS || '3600000', 10), // Backoff cap
+  BATCH_SIZE: parseInt(process.env.INGEST_BATCH_SIZE || '10', 10), // Jobs per processor run
+  CONCURRENCY: parseInt(process.env.INGEST_CONCURRENCY || '3', 10), // Jobs run at once
+  LEASE_MS: parseInt(process.env.INGEST_LEASE_MS || '900000', 10), // Renewed by progress writes
+  API_MAX_PAGES: parseInt(process.env.INGEST_API_MAX_PAGES || '20', 10), // Per API job
+};
+
+// Downstream services that ingested content is written to
+export const SERVICE_CONFIG = {
+  CMS_SERVICE: process.env.CMS_SERVICE_URL || 'http://localhost:8002',
+  METADATA_SERVICE: process.env.METADATA_SERVICE_URL || 'http://localhost:8003',
+  MEDIA_SERVICE: process.env.MEDIA_SERVICE_URL || 'http://localhost:8004',
+};
+
+// Import of episode enclosures and artwork into media-service
+export const ASSET_CONFIG = {
+  DOWNLOAD: process.env.INGEST_DOWNLOAD_ASSETS === 'true', // Default; metadata.downloadAssets overrides
+  TIMEOUT_MS: parseInt(process.env.INGEST_ASSET_TIMEOUT_MS || '600000', 10), // Per asset import
+};
+
+// Resilience configuration for calls to downstream services
+export const RESILIENCE_CONFIG = {
+  REQUEST_TIMEOUT: parseInt(process.env.REQUEST_TIMEOUT || '30000', 10), // ms
+  RETRY_MAX_ATTEMPTS: parseInt(process.env.RETRY_MAX_ATTEMPTS || '3', 10),
+  RETRY_INITIAL_DELAY: parseInt(process.env.RETRY_INITIAL_DELAY || '1000', 10), // ms
+  RETRY_MAX_DELAY: parseInt(process.env.RETRY_MAX_DELAY || '10000', 10), // ms
+  RETRY_MULTIPLIER: parseInt(process.env.RETRY_MULTIPLIER || '2', 10),
+};
+
+// Duplicate detection configuration
+export const DEDUP_CONFIG = {
+  STRATEGY: process.env.INGEST_DEDUP_STRATEGY || 'UPDATE', // SKIP, UPDATE or NEW_VERSION
+  TITLE_SIMILARITY: parseFloat(process.env.INGEST_DEDUP_TITLE_SIMILARITY || '0.9'), // 0-1
+  DURATION_TOLERANCE_SECONDS: parseInt(process.env.INGEST_DEDUP_DURATION_TOLERANCE || '5', 10),
+  CANDIDATE_LIMIT: 50, // Fingerprints compared by title per episode
+};
+
+// Feed subscription configuration
+export const SUBSCRIPTION_CONFIG = {
+  DEFAULT_POLL_INTERVAL_MINUTES: parseInt(
+    process.env.SUBSCRIPTION_POLL_INTERVAL_MINUTES || '60',
+    10,
+  ),
+  MIN_POLL_INTERVAL_MINUTES: parseInt(
+    process.env.SUBSCRIPTION_MIN_POLL_INTERVAL_MINUTES || '5',
+    10,
+  ),
+  BATCH_SIZE: parseInt(process.env.SUBSCRIPTION_BATCH_SIZE || '10', 10), // Sources polled per tick
+};
+
+// Webhook push configuration
+export const WEBHOOK_CONFIG = {
+  SIGNATURE_TOLERANCE_SECONDS: parseInt(
+    process.env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS || '300',
+    10,
+  ), // Max age of X-Webhook-Timestamp
+  SECRET_GRACE_HOURS: parseInt(process.env.WEBHOOK_SECRET_GRACE_HOURS || '24', 10), // Previous secret stays valid after a rotation
 };
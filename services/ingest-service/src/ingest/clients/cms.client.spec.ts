@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import axios from 'axios';
+import { HttpRetryService, CircuitBreakerService, ContentType } from '@mediamesh/shared';
+import { CmsClient } from './cms.client';
+import { ASSET_CONFIG, SERVICE_CONFIG } from '../../config/env.constants';
+
+jest.mock('axios');
+
+describe('CmsClient', () => {
+  let client: CmsClient;
+  let circuitBreakerService: CircuitBreakerService;
+  const request = axios.request as jest.Mock;
+
+  const program = { id: 'program-1', title: 'Test Podcast', version: 3 };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CmsClient,
+        HttpRetryService,
+        CircuitBreakerService,
+        {
+          provide: JwtService,
+          useValue: { signAsync: jest.fn().mockResolvedValue('service-token') },
+        },
+      ],
+    }).compile();
+
+    client = module.get<CmsClient>(CmsClient);
+    circuitBreakerService = module.get<CircuitBreakerService>(CircuitBreakerService);
+    jest.spyOn(HttpRetryService.prototype as any, 'sleep').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should look up a program by external ID with a service token', async () => {
+    request.mockResolvedValue({ status: 200, data: [program] });
+
+    const result = await client.findProgramByExternalId('rss:feed');
+
+    expect(result).toEqual(program);
+    expect(request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'GET',
+        url: expect.stringMatching(/\/programs$/),
+        params: { externalId: 'rss:feed' },
+        headers: expect.objectContaining({ Authorization: 'Bearer service-token' }),
+      }),
+    );
+  });
+
+  it('should send the current version as If-Match on updates', async () => {
+    request.mockResolvedValue({ status: 200, data: program });
+
+    await client.updateProgram(program, { metadataId: 'metadata-1' });
+
+    expect(request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'PUT',
+        url: expect.stringMatching(/\/programs\/program-1$/),
+        headers: expect.objectContaining({ 'If-Match': '"3"' }),
+      }),
+    );
+  });
+
+  it('should not retry client errors', async () => {
+    request.mockRejectedValue({
+      response: { status: 409, data: { message: 'Episode number 1 already exists' } },
+    });
+
+    const error = await client
+      .createEpisode({ programId: 'program-1', title: 'E1', episodeNumber: 1, externalId: 'g1' })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toBe(409);
+    expect(error.message).toBe('Episode number 1 already exists');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry server errors', async () => {
+    request
+      .mockRejectedValueOnce({ response: { status: 503, data: {} } })
+      .mockResolvedValueOnce({ status: 201, data: program });
+
+    const result = await client.createProgram({ title: 'Test Podcast', externalId: 'rss:feed' });
+
+    expect(result).toEqual(program);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject requests while the circuit is open', async () => {
+    jest.spyOn(circuitBreakerService, 'canExecute').mockReturnValue(false);
+
+    await expect(client.findProgramByExternalId('rss:feed')).rejects.toThrow(
+      'temporarily unavailable',
+    );
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('should import media through media-service with the asset timeout', async () => {
+    request.mockResolvedValue({ status: 201, data: { id: 'media-1', url: 'https://cdn/ep1.mp3' } });
+
+    const result = await client.importMedia({
+      contentId: 'episode-1',
+      contentType: ContentType.EPISODE,
+      sourceUrl: 'https://example.com/ep1.mp3',
+      kind: 'ENCLOSURE',
+    });
+
+    expect(result.id).toBe('media-1');
+    expect(request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'POST',
+        url: `${SERVICE_CONFIG.MEDIA_SERVICE}/media/import`,
+        timeout: ASSET_CONFIG.TIMEOUT_MS,
+      }),
+    );
+  });
+
+  it('should return null when content has no metadata', async () => {
+    request.mockRejectedValue({ response: { status: 404, data: { message: 'Not found' } } });
+
+    await expect(client.findMetadataByContentId('program-1')).resolves.toBeNull();
+  });
+});
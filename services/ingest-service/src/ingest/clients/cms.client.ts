@@ -0,0 +1,299 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import axios, { AxiosRequestConfig } from 'axios';
+import {
+  HttpRetryService,
+  CircuitBreakerService,
+  ContentType,
+  UserRole,
+  toETag,
+} from '@mediamesh/shared';
+import { SERVICE_CONFIG, RESILIENCE_CONFIG, ASSET_CONFIG } from '../../config/env.constants';
+
+/**
+ * Program as returned by cms-service
+ */
+export interface CmsProgram {
+  id: string;
+  title: string;
+  externalId?: string;
+  metadataId?: string;
+  version: number;
+}
+
+/**
+ * Episode as returned by cms-service
+ */
+export interface CmsEpisode {
+  id: string;
+  programId: string;
+  title: string;
+  episodeNumber: number;
+  externalId?: string;
+  metadataId?: string;
+  version: number;
+}
+
+/**
+ * CMS Client
+ *
+ * Writes ingested content to cms-service, its metadata to metadata-service and its files
+ * to media-service.
+ * Requests are signed with a service token and go through retry with backoff
+ * and a per-service circuit breaker.
+ */
+@Injectable()
+export class CmsClient {
+  private readonly logger = new Logger(CmsClient.name);
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly httpRetryService: HttpRetryService,
+    private readonly circuitBreakerService: CircuitBreakerService,
+  ) {}
+
+  /**
+   * Find a program by its source catalog ID
+   */
+  async findProgramByExternalId(externalId: string): Promise<CmsProgram | null> {
+    const programs: CmsProgram[] = await this.requestCms('GET', '/programs', undefined, {
+      params: { externalId },
+    });
+    return programs[0] || null;
+  }
+
+  /**
+   * Create a program
+   */
+  async createProgram(data: {
+    title: string;
+    description?: string;
+    externalId: string;
+  }): Promise<CmsProgram> {
+    return this.requestCms('POST', '/programs', {
+      ...data,
+      contentType: ContentType.PROGRAM,
+    });
+  }
+
+  /**
+   * Update a program, guarded by its current version
+   */
+  async updateProgram(
+    program: CmsProgram,
+    data: { title?: string; description?: string; metadataId?: string },
+  ): Promise<CmsProgram> {
+    return this.requestCms('PUT', `/programs/${program.id}`, data, {
+      headers: { 'If-Match': toETag(program.version) },
+    });
+  }
+
+  /**
+   * Find an episode by ID
+   */
+  async findEpisode(id: string): Promise<CmsEpisode | null> {
+    try {
+      return await this.requestCms('GET', `/episodes/${id}`);
+    } catch (error) {
+      if (
+        error instanceof HttpException &&
+        (error.getStatus() as HttpStatus) === HttpStatus.NOT_FOUND
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find an episode of a program by its source catalog ID
+   */
+  async findEpisodeByExternalId(programId: string, externalId: string): Promise<CmsEpisode | null> {
+    const episodes: CmsEpisode[] = await this.requestCms(
+      'GET',
+      `/programs/${programId}/episodes`,
+      undefined,
+      { params: { externalId } },
+    );
+    return episodes[0] || null;
+  }
+
+  /**
+   * Create an episode
+   */
+  async createEpisode(data: {
+    programId: string;
+    title: string;
+    description?: string;
+    episodeNumber: number;
+    duration?: number;
+    externalId: string;
+  }): Promise<CmsEpisode> {
+    return this.requestCms('POST', '/episodes', data);
+  }
+
+  /**
+   * Update an episode, guarded by its current version
+   */
+  async updateEpisode(
+    episode: CmsEpisode,
+    data: {
+      title?: string;
+      description?: string;
+      episodeNumber?: number;
+      duration?: number;
+      metadataId?: string;
+    },
+  ): Promise<CmsEpisode> {
+    return this.requestCms('PUT', `/episodes/${episode.id}`, data, {
+      headers: { 'If-Match': toETag(episode.version) },
+    });
+  }
+
+  /**
+   * Create the metadata record of a program or episode
+   */
+  async createMetadata(data: {
+    contentId: string;
+    contentType: ContentType;
+    title: string;
+    description?: string;
+    duration?: number;
+    publishDate?: string;
+    category?: string; // metadata-service MetadataCategory
+    language?: string;
+  }): Promise<{ id: string }> {
+    return this.request(SERVICE_CONFIG.METADATA_SERVICE, 'metadata-service', {
+      method: 'POST',
+      url: '/metadata',
+      data,
+    });
+  }
+
+  /**
+   * Find the metadata record of a program or episode
+   */
+  async findMetadataByContentId(contentId: string): Promise<{ id: string } | null> {
+    try {
+      return await this.request(SERVICE_CONFIG.METADATA_SERVICE, 'metadata-service', {
+        method: 'GET',
+        url: `/metadata/content/${contentId}`,
+      });
+    } catch (error) {
+      if (
+        error instanceof HttpException &&
+        (error.getStatus() as HttpStatus) === HttpStatus.NOT_FOUND
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Have media-service import a remote file of a program or episode
+   *
+   * media-service downloads and stores the file, so the request waits for the download.
+   */
+  async importMedia(data: {
+    contentId: string;
+    contentType: ContentType;
+    sourceUrl: string;
+    kind: 'ENCLOSURE' | 'ARTWORK';
+    mimeType?: string;
+  }): Promise<{ id: string; url: string }> {
+    return this.request(SERVICE_CONFIG.MEDIA_SERVICE, 'media-service', {
+      method: 'POST',
+      url: '/media/import',
+      data,
+      timeout: ASSET_CONFIG.TIMEOUT_MS,
+    });
+  }
+
+  /**
+   * Request to cms-service
+   */
+  private async requestCms(
+    method: string,
+    path: string,
+    data?: any,
+    config: AxiosRequestConfig = {},
+  ): Promise<any> {
+    return this.request(SERVICE_CONFIG.CMS_SERVICE, 'cms-service', {
+      ...config,
+      method,
+      url: path,
+      data,
+    });
+  }
+
+  /**
+   * Send a request with retry and circuit breaker
+   *
+   * Client errors (4xx) are not retried and do not count against the circuit.
+   */
+  private async request(
+    baseUrl: string,
+    serviceName: string,
+    config: AxiosRequestConfig,
+  ): Promise<any> {
+    const url = `${baseUrl}${config.url}`;
+
+    if (!this.circuitBreakerService.canExecute(serviceName)) {
+      const state = this.circuitBreakerService.getState(serviceName);
+      throw new HttpException(
+        `Service ${serviceName} is temporarily unavailable (circuit breaker ${state})`,
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    const token = await this.jwtService.signAsync({
+      sub: 'ingest-service',
+      role: UserRole.EDITOR,
+    });
+
+    try {
+      const response = await this.httpRetryService.retry(
+        () =>
+          axios.request({
+            ...config,
+            url,
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${token}`,
+              ...config.headers,
+            },
+            timeout: config.timeout ?? RESILIENCE_CONFIG.REQUEST_TIMEOUT,
+          }),
+        {
+          maxAttempts: RESILIENCE_CONFIG.RETRY_MAX_ATTEMPTS,
+          initialDelay: RESILIENCE_CONFIG.RETRY_INITIAL_DELAY,
+          maxDelay: RESILIENCE_CONFIG.RETRY_MAX_DELAY,
+          multiplier: RESILIENCE_CONFIG.RETRY_MULTIPLIER,
+          retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+          retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'ECONNREFUSED'],
+        },
+      );
+
+      this.circuitBreakerService.recordSuccess(serviceName);
+      return response.data;
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (status && status < 500) {
+        this.circuitBreakerService.recordSuccess(serviceName);
+        this.logger.warn(`${config.method} ${url} (${serviceName}) rejected: ${status}`);
+      } else {
+        this.circuitBreakerService.recordFailure(serviceName);
+        this.logger.error(
+          `${config.method} ${url} (${serviceName}) failed: ${status || error.message}`,
+        );
+      }
+
+      const message = error.response?.data?.message || error.message || 'Service error';
+      throw new HttpException(
+        Array.isArray(message) ? message.join(', ') : message,
+        status || HttpStatus.BAD_GATEWAY,
+      );
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Query,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { IngestSourceService } from '../services/ingest-source.service';
+import { IngestSource } from '../entities/ingest-source.entity';
+import {
+  CreateIngestSourceDto,
+  IngestSourceDto,
+  IngestSourcesQueryDto,
+} from '../dto/ingest-source.dto';
+import { JwtAuthGuard, RolesGuard, Roles } from '@mediamesh/shared';
+import { UserRole } from '@mediamesh/shared';
+
+/**
+ * Ingest Sources Controller
+ *
+ * Handles feed subscription endpoints:
+ * - POST /ingest/sources - Subscribe to a feed or channel
+ * - GET /ingest/sources - List subscriptions
+ * - GET /ingest/sources/:id - Get subscription
+ * - POST /ingest/sources/:id/pause - Pause polling
+ * - POST /ingest/sources/:id/resume - Resume polling
+ * - POST /ingest/sources/:id/sync - Sync now
+ * - DELETE /ingest/sources/:id - Unsubscribe
+ */
+@ApiTags('Ingest Sources')
+@Controller('ingest/sources')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.EDITOR)
+@ApiBearerAuth('JWT-auth')
+export class IngestSourcesController {
+  private readonly logger = new Logger(IngestSourcesController.name);
+
+  constructor(private readonly ingestSourceService: IngestSourceService) {}
+
+  /**
+   * Create ingest source
+   * POST /ingest/sources
+   */
+  @Post()
+  @ApiOperation({ summary: 'Subscribe to an RSS feed or YouTube channel' })
+  @ApiBody({ type: CreateIngestSourceDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Subscription created; the first sync runs at the next poll',
+    type: IngestSourceDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Source URL already subscribed',
+  })
+  @HttpCode(HttpStatus.CREATED)
+  async createSource(@Body() createDto: CreateIngestSourceDto): Promise<IngestSourceDto> {
+    const source = await this.ingestSourceService.create(
+      createDto.sourceType,
+      createDto.sourceUrl,
+      createDto.pollIntervalMinutes,
+      createDto.metadata,
+    );
+    return this.toDto(source);
+  }
+
+  /**
+   * Get all ingest sources
+   * GET /ingest/sources
+   */
+  @Get()
+  @ApiOperation({ summary: 'List ingest sources' })
+  @ApiQuery({ name: 'status', required: false, enum: ['ACTIVE', 'PAUSED'] })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'List of ingest sources',
+  })
+  async getSources(@Query() query: IngestSourcesQueryDto) {
+    const result = await this.ingestSourceService.findAll(query.status, query.page, query.limit);
+    return {
+      ...result,
+      sources: result.sources.map((source) => this.toDto(source)),
+    };
+  }
+
+  /**
+   * Get ingest source by ID
+   * GET /ingest/sources/:id
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get ingest source' })
+  @ApiParam({ name: 'id', type: String, description: 'Source ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Source details',
+    type: IngestSourceDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Source not found',
+  })
+  async getSource(@Param('id') id: string): Promise<IngestSourceDto> {
+    const source = await this.ingestSourceService.findOne(id);
+    return this.toDto(source);
+  }
+
+  /**
+   * Pause ingest source
+   * POST /ingest/sources/:id/pause
+   */
+  @Post(':id/pause')
+  @ApiOperation({ summary: 'Pause polling of an ingest source' })
+  @ApiParam({ name: 'id', type: String, description: 'Source ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Source paused',
+    type: IngestSourceDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Source is already paused',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Source not found',
+  })
+  @HttpCode(HttpStatus.OK)
+  async pauseSource(@Param('id') id: string): Promise<IngestSourceDto> {
+    const source = await this.ingestSourceService.pause(id);
+    return this.toDto(source);
+  }
+
+  /**
+   * Resume ingest source
+   * POST /ingest/sources/:id/resume
+   */
+  @Post(':id/resume')
+  @ApiOperation({ summary: 'Resume polling of an ingest source' })
+  @ApiParam({ name: 'id', type: String, description: 'Source ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Source resumed; it is polled at the next run',
+    type: IngestSourceDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Source is not paused',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Source not found',
+  })
+  @HttpCode(HttpStatus.OK)
+  async resumeSource(@Param('id') id: string): Promise<IngestSourceDto> {
+    const source = await this.ingestSourceService.resume(id);
+    return this.toDto(source);
+  }
+
+  /**
+   * Sync ingest source now
+   * POST /ingest/sources/:id/sync
+   */
+  @Post(':id/sync')
+  @ApiOperation({ summary: 'Sync an ingest source now' })
+  @ApiParam({ name: 'id', type: String, description: 'Source ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sync finished; errorMessage is set if it failed',
+    type: IngestSourceDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Source not found',
+  })
+  @HttpCode(HttpStatus.OK)
+  async syncSource(@Param('id') id: string): Promise<IngestSourceDto> {
+    this.logger.log(`Syncing ingest source: ${id}`);
+    const source = await this.ingestSourceService.sync(id);
+    return this.toDto(source);
+  }
+
+  /**
+   * Delete ingest source
+   * DELETE /ingest/sources/:id
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete ingest source' })
+  @ApiParam({ name: 'id', type: String, description: 'Source ID' })
+  @ApiResponse({
+    status: 204,
+    description: 'Source deleted; synced content is kept',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Source not found',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteSource(@Param('id') id: string): Promise<void> {
+    await this.ingestSourceService.delete(id);
+  }
+
+  /**
+   * Convert IngestSource entity to DTO
+   */
+  private toDto(source: IngestSource): IngestSourceDto {
+    return {
+      id: source.id,
+      sourceType: source.sourceType,
+      sourceUrl: source.sourceUrl,
+      status: source.status,
+      pollIntervalMinutes: source.pollIntervalMinutes,
+      nextPollAt: source.nextPollAt.toISOString(),
+      lastPolledAt: source.lastPolledAt?.toISOString(),
+      contentId: source.contentId,
+      lastJobId: source.lastJobId,
+      errorMessage: source.errorMessage,
+      metadata: source.metadata,
+      createdAt: source.createdAt.toISOString(),
+      updatedAt: source.updatedAt.toISOString(),
+    } as IngestSourceDto;
+  }
+}
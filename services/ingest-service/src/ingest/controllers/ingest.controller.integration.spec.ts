@@ -9,8 +9,10 @@ import { IngestRepository } from '../repositories/ingest.repository';
 import { YouTubeParser } from '../parsers/youtube.parser';
 import { RSSParser } from '../parsers/rss.parser';
 import { APIParser } from '../parsers/api.parser';
+import { CmsClient } from '../clients/cms.client';
+import { DedupService } from '../services/dedup.service';
 import { KafkaService } from '../../kafka/kafka.service';
-import { IngestJob, SourceType, IngestStatus } from '../entities/ingest-job.entity';
+import { IngestJob, SourceType, IngestStatus, DedupStrategy } from '../entities/ingest-job.entity';
 import { JwtAuthGuard, RolesGuard } from '@mediamesh/shared';
 
 describe('IngestController (integration)', () => {
@@ -24,6 +26,7 @@ describe('IngestController (integration)', () => {
     sourceType: SourceType.YOUTUBE,
     sourceUrl: 'https://www.youtube.com/watch?v=test123',
     status: IngestStatus.PENDING,
+    dedupStrategy: DedupStrategy.UPDATE,
     retryCount: 0,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
@@ -35,16 +38,22 @@ describe('IngestController (integration)', () => {
       create: jest.fn(),
       findById: jest.fn(),
       findAll: jest.fn(),
-      findPendingJobs: jest.fn(),
+      leaseNext: jest.fn(),
+      lease: jest.fn(),
+      release: jest.fn(),
+      updateProgress: jest.fn().mockResolvedValue(true),
+      cancel: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
       countByStatus: jest.fn(),
     };
 
     const mockYouTubeParser = {
-      extractVideoId: jest.fn(),
+      parseSourceUrl: jest.fn(),
       fetchVideoMetadata: jest.fn(),
-      fetchChannelVideos: jest.fn(),
+      fetchChannel: jest.fn(),
+      fetchPlaylist: jest.fn(),
+      fetchPlaylistVideos: jest.fn(),
     };
 
     const mockRSSParser = {
@@ -58,8 +67,11 @@ describe('IngestController (integration)', () => {
     };
 
     const mockKafkaService = {
+      emitIngestStarted: jest.fn(),
+      emitIngestProgress: jest.fn(),
       emitIngestCompleted: jest.fn(),
       emitIngestFailed: jest.fn(),
+      emitIngestCancelled: jest.fn(),
     };
 
     const moduleFixture: TestingModule = await Test.createTestingModule({
@@ -82,6 +94,14 @@ describe('IngestController (integration)', () => {
           provide: APIParser,
           useValue: mockAPIParser,
         },
+        {
+          provide: CmsClient,
+          useValue: {},
+        },
+        {
+          provide: DedupService,
+          useValue: {},
+        },
         {
           provide: KafkaService,
           useValue: mockKafkaService,
@@ -235,6 +255,42 @@ describe('IngestController (integration)', () => {
     });
   });
 
+  describe('GET /ingest/jobs/:id/progress', () => {
+    it('should return job progress', async () => {
+      ingestRepository.findById.mockResolvedValue({
+        ...mockJob,
+        status: IngestStatus.PROCESSING,
+        progress: {
+          stage: 'syncing',
+          percent: 52,
+          episodesDone: 1,
+          episodesTotal: 2,
+          updatedAt: '2024-01-01T00:00:05.000Z',
+        },
+        toDto: jest.fn(),
+      });
+
+      const response = await request(app.getHttpServer())
+        .get(`/ingest/jobs/${mockJob.id}/progress`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        jobId: mockJob.id,
+        status: IngestStatus.PROCESSING,
+        stage: 'syncing',
+        percent: 52,
+      });
+    });
+
+    it('should return 404 if job not found', async () => {
+      ingestRepository.findById.mockResolvedValue(null);
+
+      await request(app.getHttpServer())
+        .get('/ingest/jobs/non-existent/progress')
+        .expect(404);
+    });
+  });
+
   describe('POST /ingest/jobs/:id/retry', () => {
     it('should retry failed job', async () => {
       const failedJob = { ...mockJob, status: IngestStatus.FAILED, retryCount: 1, toDto: jest.fn() };
@@ -254,18 +310,17 @@ describe('IngestController (integration)', () => {
       const processingJob = {
         ...failedJob,
         status: IngestStatus.PROCESSING,
+        leaseToken: 'lease-1',
         toDto: jest.fn(),
       };
 
       ingestRepository.findById
         .mockResolvedValueOnce(failedJob) // retryJob.findOne
-        .mockResolvedValueOnce(pendingJob) // processJob.findById
-        .mockResolvedValueOnce(pendingJob); // processJob.findById (second call)
+        .mockResolvedValueOnce(pendingJob); // processJob.findOne before leasing
 
-      ingestRepository.update
-        .mockResolvedValueOnce(pendingJob) // retryJob.update
-        .mockResolvedValueOnce(processingJob) // processJob.update (to PROCESSING)
-        .mockResolvedValueOnce(completedJob); // processJob.update (to COMPLETED)
+      ingestRepository.update.mockResolvedValueOnce(pendingJob); // retryJob.update
+      ingestRepository.lease.mockResolvedValueOnce(processingJob);
+      ingestRepository.release.mockResolvedValueOnce(completedJob); // to COMPLETED
 
       kafkaService.emitIngestCompleted.mockResolvedValue(undefined);
 
@@ -285,6 +340,39 @@ describe('IngestController (integration)', () => {
     });
   });
 
+  describe('POST /ingest/jobs/:id/cancel', () => {
+    it('should cancel a pending job', async () => {
+      const cancelledJob = { ...mockJob, status: IngestStatus.CANCELLED, toDto: jest.fn() };
+      ingestRepository.findById
+        .mockResolvedValueOnce(mockJob)
+        .mockResolvedValueOnce(cancelledJob);
+      ingestRepository.cancel.mockResolvedValue(true);
+
+      const response = await request(app.getHttpServer())
+        .post(`/ingest/jobs/${mockJob.id}/cancel`)
+        .send({ reason: 'Wrong feed' })
+        .expect(200);
+
+      expect(response.body.status).toBe(IngestStatus.CANCELLED);
+      expect(kafkaService.emitIngestCancelled).toHaveBeenCalledWith(
+        expect.objectContaining({ jobId: mockJob.id, reason: 'Wrong feed' }),
+      );
+    });
+
+    it('should return 400 if job already finished', async () => {
+      ingestRepository.findById.mockResolvedValue({
+        ...mockJob,
+        status: IngestStatus.COMPLETED,
+        toDto: jest.fn(),
+      });
+      ingestRepository.cancel.mockResolvedValue(false);
+
+      await request(app.getHttpServer())
+        .post(`/ingest/jobs/${mockJob.id}/cancel`)
+        .expect(400);
+    });
+  });
+
   describe('DELETE /ingest/jobs/:id', () => {
     it('should delete job successfully', async () => {
       ingestRepository.findById.mockResolvedValue(mockJob);
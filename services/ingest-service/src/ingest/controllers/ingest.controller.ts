@@ -24,10 +24,14 @@ import { IngestService } from '../services/ingest.service';
 import { IngestJob } from '../entities/ingest-job.entity';
 import {
   CreateIngestJobDto,
+  CancelIngestJobDto,
   IngestJobDto,
+  IngestJobProgressDto,
   IngestJobsQueryDto,
+  PreviewMappingDto,
 } from '../dto/ingest.dto';
-import { JwtAuthGuard, RolesGuard, Roles, Public } from '@mediamesh/shared';
+import { NormalizedContent } from '../services/ingest.service';
+import { JwtAuthGuard, RolesGuard, Roles, CurrentUser } from '@mediamesh/shared';
 import { UserRole } from '@mediamesh/shared';
 
 /**
@@ -37,8 +41,11 @@ import { UserRole } from '@mediamesh/shared';
  * - POST /ingest/jobs - Create ingest job
  * - GET /ingest/jobs - List ingest jobs
  * - GET /ingest/jobs/:id - Get job status
+ * - GET /ingest/jobs/:id/progress - Get job progress
  * - POST /ingest/jobs/:id/retry - Retry failed job
+ * - POST /ingest/jobs/:id/cancel - Cancel pending or running job
  * - DELETE /ingest/jobs/:id - Delete job
+ * - POST /ingest/mappings/preview - Preview an API field mapping
  */
 @ApiTags('Ingest')
 @Controller('ingest')
@@ -81,6 +88,7 @@ export class IngestController {
       createDto.sourceType,
       createDto.sourceUrl,
       createDto.metadata,
+      createDto.dedupStrategy,
     );
     return this.toDto(job);
   }
@@ -94,7 +102,11 @@ export class IngestController {
   @Roles(UserRole.ADMIN, UserRole.EDITOR)
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({ summary: 'List ingest jobs' })
-  @ApiQuery({ name: 'status', required: false, enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'] })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'PARTIALLY_COMPLETED', 'FAILED'],
+  })
   @ApiQuery({ name: 'sourceType', required: false, enum: ['YOUTUBE', 'RSS', 'API'] })
   @ApiQuery({ name: 'page', required: false, type: Number })
   @ApiQuery({ name: 'limit', required: false, type: Number })
@@ -139,6 +151,29 @@ export class IngestController {
     return this.toDto(job);
   }
 
+  /**
+   * Get ingest job progress
+   * GET /ingest/jobs/:id/progress
+   */
+  @Get('jobs/:id/progress')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get ingest job progress' })
+  @ApiParam({ name: 'id', type: String, description: 'Job ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Stage, percent and episode counts of the current or last run',
+    type: IngestJobProgressDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Job not found',
+  })
+  async getJobProgress(@Param('id') id: string): Promise<IngestJobProgressDto> {
+    return this.ingestService.getProgress(id);
+  }
+
   /**
    * Retry failed job
    * POST /ingest/jobs/:id/retry
@@ -169,6 +204,41 @@ export class IngestController {
     return this.toDto(job);
   }
 
+  /**
+   * Cancel ingest job
+   * POST /ingest/jobs/:id/cancel
+   */
+  @Post('jobs/:id/cancel')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Cancel pending or running ingest job' })
+  @ApiParam({ name: 'id', type: String, description: 'Job ID' })
+  @ApiBody({ type: CancelIngestJobDto, required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'Job cancelled',
+    type: IngestJobDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Job is not pending or processing',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Job not found',
+  })
+  @HttpCode(HttpStatus.OK)
+  async cancelJob(
+    @Param('id') id: string,
+    @Body() cancelDto: CancelIngestJobDto,
+    @CurrentUser('id') userId?: string,
+  ): Promise<IngestJobDto> {
+    this.logger.log(`Cancelling ingest job: ${id}`);
+    const job = await this.ingestService.cancelJob(id, userId, cancelDto?.reason);
+    return this.toDto(job);
+  }
+
   /**
    * Delete ingest job
    * DELETE /ingest/jobs/:id
@@ -193,6 +263,33 @@ export class IngestController {
     await this.ingestService.delete(id);
   }
 
+  /**
+   * Preview API field mapping
+   * POST /ingest/mappings/preview
+   */
+  @Post('mappings/preview')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Preview the normalized result of an API mapping for a sample payload' })
+  @ApiBody({ type: PreviewMappingDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Normalized program and episodes',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid mapping',
+  })
+  @HttpCode(HttpStatus.OK)
+  previewMapping(@Body() previewDto: PreviewMappingDto): NormalizedContent {
+    return this.ingestService.previewMapping(
+      previewDto.mapping,
+      previewDto.payload,
+      previewDto.sourceUrl,
+    );
+  }
+
   /**
    * Convert IngestJob entity to DTO
    */
@@ -204,8 +301,12 @@ export class IngestController {
       status: job.status,
       contentId: job.contentId,
       metadata: job.metadata,
+      results: job.results,
+      dedupStrategy: job.dedupStrategy,
+      duplicates: job.duplicates,
       errorMessage: job.errorMessage,
       retryCount: job.retryCount,
+      nextAttemptAt: job.nextAttemptAt?.toISOString(),
       createdAt: job.createdAt.toISOString(),
       updatedAt: job.updatedAt.toISOString(),
     } as IngestJobDto;
@@ -0,0 +1,318 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { WebhookService } from '../services/webhook.service';
+import { WebhookEndpoint, WebhookDelivery } from '../entities/webhook.entity';
+import {
+  CreateWebhookEndpointDto,
+  UpdateWebhookEndpointDto,
+  WebhookEndpointDto,
+  WebhookEndpointSecretDto,
+  WebhookDeliveryDto,
+  WebhookPaginationQueryDto,
+} from '../dto/webhook.dto';
+import { ApiMapping } from '../parsers/api-mapping';
+import { JwtAuthGuard, RolesGuard, Roles } from '@mediamesh/shared';
+import { UserRole } from '@mediamesh/shared';
+
+/**
+ * Webhook Endpoints Controller
+ *
+ * Handles partner webhook management endpoints:
+ * - POST /ingest/webhook-endpoints - Create endpoint
+ * - GET /ingest/webhook-endpoints - List endpoints
+ * - GET /ingest/webhook-endpoints/:id - Get endpoint
+ * - PATCH /ingest/webhook-endpoints/:id - Update endpoint
+ * - POST /ingest/webhook-endpoints/:id/rotate-secret - Rotate signing secret
+ * - DELETE /ingest/webhook-endpoints/:id - Delete endpoint
+ * - GET /ingest/webhook-endpoints/:id/deliveries - List deliveries
+ * - GET /ingest/webhook-endpoints/:id/deliveries/:deliveryId - Get delivery
+ * - POST /ingest/webhook-endpoints/:id/deliveries/:deliveryId/replay - Replay delivery
+ */
+@ApiTags('Webhooks')
+@Controller('ingest/webhook-endpoints')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class WebhookEndpointsController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  /**
+   * Create webhook endpoint
+   * POST /ingest/webhook-endpoints
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create a partner webhook endpoint' })
+  @ApiBody({ type: CreateWebhookEndpointDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Endpoint created, with its signing secret',
+    type: WebhookEndpointSecretDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error or invalid mapping',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Partner already has an endpoint',
+  })
+  @HttpCode(HttpStatus.CREATED)
+  async createEndpoint(
+    @Body() createDto: CreateWebhookEndpointDto,
+  ): Promise<WebhookEndpointSecretDto> {
+    const endpoint = await this.webhookService.createEndpoint(
+      createDto.partner,
+      createDto.mapping as ApiMapping | undefined,
+      createDto.dedupStrategy,
+      createDto.metadata,
+    );
+    return this.toSecretDto(endpoint);
+  }
+
+  /**
+   * Get all webhook endpoints
+   * GET /ingest/webhook-endpoints
+   */
+  @Get()
+  @ApiOperation({ summary: 'List webhook endpoints' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'List of webhook endpoints',
+  })
+  async getEndpoints(@Query() query: WebhookPaginationQueryDto) {
+    const result = await this.webhookService.findEndpoints(query.page, query.limit);
+    return {
+      ...result,
+      endpoints: result.endpoints.map((endpoint) => this.toDto(endpoint)),
+    };
+  }
+
+  /**
+   * Get webhook endpoint by ID
+   * GET /ingest/webhook-endpoints/:id
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get webhook endpoint' })
+  @ApiParam({ name: 'id', type: String, description: 'Endpoint ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Endpoint details',
+    type: WebhookEndpointDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Endpoint not found',
+  })
+  async getEndpoint(@Param('id') id: string): Promise<WebhookEndpointDto> {
+    const endpoint = await this.webhookService.findEndpoint(id);
+    return this.toDto(endpoint);
+  }
+
+  /**
+   * Update webhook endpoint
+   * PATCH /ingest/webhook-endpoints/:id
+   */
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update webhook endpoint' })
+  @ApiParam({ name: 'id', type: String, description: 'Endpoint ID' })
+  @ApiBody({ type: UpdateWebhookEndpointDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Endpoint updated',
+    type: WebhookEndpointDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error or invalid mapping',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Endpoint not found',
+  })
+  async updateEndpoint(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateWebhookEndpointDto,
+  ): Promise<WebhookEndpointDto> {
+    const endpoint = await this.webhookService.updateEndpoint(id, {
+      ...updateDto,
+      mapping: updateDto.mapping as ApiMapping | undefined,
+    });
+    return this.toDto(endpoint);
+  }
+
+  /**
+   * Rotate webhook endpoint secret
+   * POST /ingest/webhook-endpoints/:id/rotate-secret
+   */
+  @Post(':id/rotate-secret')
+  @ApiOperation({ summary: 'Rotate the signing secret of a webhook endpoint' })
+  @ApiParam({ name: 'id', type: String, description: 'Endpoint ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'New secret; the previous one is accepted until previousSecretExpiresAt',
+    type: WebhookEndpointSecretDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Endpoint not found',
+  })
+  @HttpCode(HttpStatus.OK)
+  async rotateSecret(@Param('id') id: string): Promise<WebhookEndpointSecretDto> {
+    const endpoint = await this.webhookService.rotateSecret(id);
+    return this.toSecretDto(endpoint);
+  }
+
+  /**
+   * Delete webhook endpoint
+   * DELETE /ingest/webhook-endpoints/:id
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete webhook endpoint' })
+  @ApiParam({ name: 'id', type: String, description: 'Endpoint ID' })
+  @ApiResponse({
+    status: 204,
+    description: 'Endpoint and its deliveries deleted; ingested content is kept',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Endpoint not found',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteEndpoint(@Param('id') id: string): Promise<void> {
+    await this.webhookService.deleteEndpoint(id);
+  }
+
+  /**
+   * Get deliveries of a webhook endpoint
+   * GET /ingest/webhook-endpoints/:id/deliveries
+   */
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'List deliveries of a webhook endpoint, newest first' })
+  @ApiParam({ name: 'id', type: String, description: 'Endpoint ID' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'List of deliveries',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Endpoint not found',
+  })
+  async getDeliveries(@Param('id') id: string, @Query() query: WebhookPaginationQueryDto) {
+    const result = await this.webhookService.findDeliveries(id, query.page, query.limit);
+    return {
+      ...result,
+      deliveries: result.deliveries.map((delivery) => this.toDeliveryDto(delivery)),
+    };
+  }
+
+  /**
+   * Get webhook delivery
+   * GET /ingest/webhook-endpoints/:id/deliveries/:deliveryId
+   */
+  @Get(':id/deliveries/:deliveryId')
+  @ApiOperation({ summary: 'Get a delivery with its raw payload' })
+  @ApiParam({ name: 'id', type: String, description: 'Endpoint ID' })
+  @ApiParam({ name: 'deliveryId', type: String, description: 'Delivery ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Delivery details',
+    type: WebhookDeliveryDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Delivery not found',
+  })
+  async getDelivery(
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ): Promise<WebhookDeliveryDto> {
+    const delivery = await this.webhookService.findDelivery(id, deliveryId);
+    return this.toDeliveryDto(delivery);
+  }
+
+  /**
+   * Replay webhook delivery
+   * POST /ingest/webhook-endpoints/:id/deliveries/:deliveryId/replay
+   */
+  @Post(':id/deliveries/:deliveryId/replay')
+  @ApiOperation({ summary: 'Ingest a stored delivery again with the current mapping' })
+  @ApiParam({ name: 'id', type: String, description: 'Endpoint ID' })
+  @ApiParam({ name: 'deliveryId', type: String, description: 'Delivery ID' })
+  @ApiResponse({
+    status: 202,
+    description: 'Delivery queued again; jobId is the new ingest job',
+    type: WebhookDeliveryDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Endpoint or delivery not found',
+  })
+  @HttpCode(HttpStatus.ACCEPTED)
+  async replayDelivery(
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ): Promise<WebhookDeliveryDto> {
+    const delivery = await this.webhookService.replay(id, deliveryId);
+    return this.toDeliveryDto(delivery);
+  }
+
+  /**
+   * Convert WebhookEndpoint entity to DTO
+   */
+  private toDto(endpoint: WebhookEndpoint): WebhookEndpointDto {
+    return {
+      id: endpoint.id,
+      partner: endpoint.partner,
+      enabled: endpoint.enabled,
+      previousSecretExpiresAt: endpoint.previousSecretExpiresAt?.toISOString(),
+      mapping: endpoint.mapping,
+      dedupStrategy: endpoint.dedupStrategy,
+      metadata: endpoint.metadata,
+      createdAt: endpoint.createdAt.toISOString(),
+      updatedAt: endpoint.updatedAt.toISOString(),
+    } as WebhookEndpointDto;
+  }
+
+  private toSecretDto(endpoint: WebhookEndpoint): WebhookEndpointSecretDto {
+    return { ...this.toDto(endpoint), secret: endpoint.secret };
+  }
+
+  /**
+   * Convert WebhookDelivery entity to DTO
+   */
+  private toDeliveryDto(delivery: WebhookDelivery): WebhookDeliveryDto {
+    return {
+      id: delivery.id,
+      endpointId: delivery.endpointId,
+      idempotencyKey: delivery.idempotencyKey,
+      rawBody: delivery.rawBody,
+      jobId: delivery.jobId,
+      replayCount: delivery.replayCount,
+      receivedAt: delivery.receivedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { FastifyAdapter } from '@nestjs/platform-fastify';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookService } from '../services/webhook.service';
+import { IngestService } from '../services/ingest.service';
+import { WebhookRepository } from '../repositories/webhook.repository';
+import { APIParser } from '../parsers/api.parser';
+import { WebhookEndpoint, WebhookDelivery } from '../entities/webhook.entity';
+import { DedupStrategy } from '../entities/ingest-job.entity';
+
+describe('WebhooksController (integration)', () => {
+  let app: INestApplication;
+  let webhookService: WebhookService;
+  let webhookRepository: jest.Mocked<WebhookRepository>;
+
+  const mockEndpoint = new WebhookEndpoint({
+    id: '550e8400-e29b-41d4-a716-446655440201',
+    partner: 'acme-radio',
+    enabled: true,
+    secret: 'whsec_current',
+    dedupStrategy: DedupStrategy.UPDATE,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  // Spacing a re-serializing proxy would not keep
+  const body = '{"id": "show-1",  "title": "Show"}';
+
+  const mockDelivery = new WebhookDelivery({
+    id: '550e8400-e29b-41d4-a716-446655440202',
+    endpointId: mockEndpoint.id,
+    idempotencyKey: 'delivery-1',
+    rawBody: body,
+    replayCount: 0,
+    receivedAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      controllers: [WebhooksController],
+      providers: [
+        WebhookService,
+        {
+          provide: WebhookRepository,
+          useValue: {
+            findEndpointByPartner: jest.fn().mockResolvedValue(mockEndpoint),
+            createDelivery: jest.fn().mockResolvedValue({ delivery: mockDelivery, created: true }),
+            setDeliveryJob: jest.fn().mockResolvedValue({ ...mockDelivery, jobId: 'job-1' }),
+          },
+        },
+        {
+          provide: IngestService,
+          useValue: {
+            createJob: jest.fn().mockResolvedValue({ id: 'job-1' }),
+          },
+        },
+        {
+          provide: APIParser,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication(new FastifyAdapter(), { rawBody: true });
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    webhookService = moduleFixture.get<WebhookService>(WebhookService);
+    webhookRepository = moduleFixture.get(WebhookRepository);
+
+    await app.init();
+    await app.getHttpAdapter().getInstance().ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.clearAllMocks();
+  });
+
+  describe('POST /ingest/webhooks/:partner', () => {
+    it('should accept a delivery signed over the body as sent', async () => {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+
+      const response = await request(app.getHttpServer())
+        .post('/ingest/webhooks/acme-radio')
+        .set('Content-Type', 'application/json')
+        .set('X-Webhook-Signature', webhookService.sign(mockEndpoint.secret, timestamp, body))
+        .set('X-Webhook-Timestamp', timestamp)
+        .set('Idempotency-Key', 'delivery-1')
+        .send(body)
+        .expect(202);
+
+      expect(response.body).toEqual({
+        deliveryId: mockDelivery.id,
+        jobId: 'job-1',
+        duplicate: false,
+      });
+      expect(webhookRepository.createDelivery).toHaveBeenCalledWith(
+        expect.objectContaining({ idempotencyKey: 'delivery-1', rawBody: body }),
+      );
+    });
+
+    it('should return 401 for an invalid signature', async () => {
+      await request(app.getHttpServer())
+        .post('/ingest/webhooks/acme-radio')
+        .set('Content-Type', 'application/json')
+        .set('X-Webhook-Signature', 'sha256=0000')
+        .set('X-Webhook-Timestamp', String(Math.floor(Date.now() / 1000)))
+        .send(body)
+        .expect(401);
+
+      expect(webhookRepository.createDelivery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Headers,
+  Req,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiHeader } from '@nestjs/swagger';
+import { FastifyRequest } from 'fastify';
+import { WebhookService } from '../services/webhook.service';
+import { WebhookReceiptDto } from '../dto/webhook.dto';
+
+/**
+ * Webhooks Controller
+ *
+ * Receives partner pushes:
+ * - POST /ingest/webhooks/:partner - Deliver content
+ *
+ * Deliveries are authenticated by their HMAC signature rather than a JWT, and are sent
+ * straight to this service: the signature covers the exact body bytes, which a proxy
+ * re-serializing the JSON would change.
+ */
+@ApiTags('Webhooks')
+@Controller('ingest/webhooks')
+export class WebhooksController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  /**
+   * Receive a webhook delivery
+   * POST /ingest/webhooks/:partner
+   */
+  @Post(':partner')
+  @ApiOperation({ summary: 'Deliver content from a partner' })
+  @ApiParam({ name: 'partner', type: String, description: 'Partner slug' })
+  @ApiHeader({
+    name: 'X-Webhook-Signature',
+    description: 'sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" with the endpoint secret>',
+    required: true,
+  })
+  @ApiHeader({ name: 'X-Webhook-Timestamp', description: 'Unix seconds', required: true })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    description: 'Deliveries repeating a key are not ingested again (defaults to the body hash)',
+    required: false,
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Delivery stored and queued, or recognized as a duplicate',
+    type: WebhookReceiptDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Payload is not JSON',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid signature, or stale timestamp',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Endpoint is disabled',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Unknown partner',
+  })
+  @HttpCode(HttpStatus.ACCEPTED)
+  async receive(
+    @Param('partner') partner: string,
+    @Req() req: RawBodyRequest<FastifyRequest>,
+    @Headers('x-webhook-signature') signature?: string,
+    @Headers('x-webhook-timestamp') timestamp?: string,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ): Promise<WebhookReceiptDto> {
+    if (!req.rawBody) {
+      throw new BadRequestException('Webhook payload must be JSON');
+    }
+
+    const { delivery, duplicate } = await this.webhookService.receive(
+      partner,
+      req.rawBody.toString('utf8'),
+      { signature, timestamp, idempotencyKey },
+    );
+
+    return {
+      deliveryId: delivery.id,
+      jobId: delivery.jobId,
+      duplicate,
+    };
+  }
+}
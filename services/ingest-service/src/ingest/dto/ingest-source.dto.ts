@@ -0,0 +1,142 @@
+import {
+  IsString,
+  IsUUID,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsInt,
+  IsUrl,
+  Min,
+  Max,
+  IsObject,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SourceType } from '../entities/ingest-job.entity';
+import { IngestSourceStatus } from '../entities/ingest-source.entity';
+import { SUBSCRIPTION_CONFIG } from '../../config/env.constants';
+
+/**
+ * Create Ingest Source DTO
+ */
+export class CreateIngestSourceDto {
+  @ApiProperty({ description: 'Source type', enum: [SourceType.RSS, SourceType.YOUTUBE] })
+  @IsIn([SourceType.RSS, SourceType.YOUTUBE], { message: 'Source type must be RSS or YOUTUBE' })
+  sourceType: SourceType;
+
+  @ApiProperty({
+    description: 'Feed URL or YouTube channel URL',
+    example: 'https://feeds.example.com/podcast.xml',
+  })
+  @IsUrl({}, { message: 'Source URL must be a valid URL' })
+  sourceUrl: string;
+
+  @ApiPropertyOptional({
+    description: 'Minutes between polls',
+    example: SUBSCRIPTION_CONFIG.DEFAULT_POLL_INTERVAL_MINUTES,
+    minimum: SUBSCRIPTION_CONFIG.MIN_POLL_INTERVAL_MINUTES,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(SUBSCRIPTION_CONFIG.MIN_POLL_INTERVAL_MINUTES)
+  pollIntervalMinutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Additional metadata (e.g. program title)',
+    type: 'object',
+    additionalProperties: true,
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Ingest Source DTO
+ */
+export class IngestSourceDto {
+  @ApiProperty()
+  @IsUUID()
+  id: string;
+
+  @ApiProperty({ enum: SourceType })
+  @IsEnum(SourceType)
+  sourceType: SourceType;
+
+  @ApiProperty()
+  @IsUrl()
+  sourceUrl: string;
+
+  @ApiProperty({ enum: IngestSourceStatus })
+  @IsEnum(IngestSourceStatus)
+  status: IngestSourceStatus;
+
+  @ApiProperty()
+  @IsInt()
+  pollIntervalMinutes: number;
+
+  @ApiProperty()
+  @IsString()
+  nextPollAt: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  lastPolledAt?: string;
+
+  @ApiPropertyOptional({ description: 'ID of the program synced in cms-service' })
+  @IsOptional()
+  @IsUUID()
+  contentId?: string;
+
+  @ApiPropertyOptional({ description: 'Ingest job of the last sync that found changes' })
+  @IsOptional()
+  @IsUUID()
+  lastJobId?: string;
+
+  @ApiPropertyOptional({ description: 'Error of the last sync, if any' })
+  @IsOptional()
+  @IsString()
+  errorMessage?: string;
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: true,
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+
+  @ApiProperty()
+  @IsString()
+  createdAt: string;
+
+  @ApiProperty()
+  @IsString()
+  updatedAt: string;
+}
+
+/**
+ * Ingest Sources Query DTO
+ */
+export class IngestSourcesQueryDto {
+  @ApiPropertyOptional({ description: 'Status filter', enum: IngestSourceStatus })
+  @IsOptional()
+  @IsEnum(IngestSourceStatus)
+  status?: IngestSourceStatus;
+
+  @ApiPropertyOptional({ description: 'Page number', example: 1, minimum: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', example: 20, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
@@ -2,29 +2,52 @@ import {
   IsString,
   IsUUID,
   IsEnum,
+  IsIn,
   IsOptional,
   IsInt,
   IsUrl,
   Min,
   Max,
   IsObject,
+  IsDefined,
+  MaxLength,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { SourceType, IngestStatus } from '../entities/ingest-job.entity';
+import {
+  SourceType,
+  IngestStatus,
+  IngestEpisodeResult,
+  IngestDuplicate,
+  DedupStrategy,
+} from '../entities/ingest-job.entity';
 
 /**
  * Create Ingest Job DTO
  */
 export class CreateIngestJobDto {
-  @ApiProperty({ description: 'Source type', enum: SourceType })
-  @IsEnum(SourceType, { message: 'Source type must be YOUTUBE, RSS, or API' })
+  @ApiProperty({
+    description: 'Source type (WEBHOOK jobs are created by partner deliveries)',
+    enum: [SourceType.YOUTUBE, SourceType.RSS, SourceType.API],
+  })
+  @IsIn([SourceType.YOUTUBE, SourceType.RSS, SourceType.API], {
+    message: 'Source type must be YOUTUBE, RSS, or API',
+  })
   sourceType: SourceType;
 
   @ApiProperty({ description: 'Source URL', example: 'https://www.youtube.com/channel/UC...' })
   @IsUrl({}, { message: 'Source URL must be a valid URL' })
   sourceUrl: string;
 
+  @ApiPropertyOptional({
+    description:
+      'What to do with items matching already ingested content (defaults to INGEST_DEDUP_STRATEGY)',
+    enum: DedupStrategy,
+  })
+  @IsOptional()
+  @IsEnum(DedupStrategy, { message: 'Dedup strategy must be SKIP, UPDATE, or NEW_VERSION' })
+  dedupStrategy?: DedupStrategy;
+
   @ApiPropertyOptional({ 
     description: 'Additional metadata', 
     type: 'object',
@@ -35,6 +58,41 @@ export class CreateIngestJobDto {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Mapping Preview DTO
+ */
+export class PreviewMappingDto {
+  @ApiProperty({
+    description: 'API field mapping, as given in the metadata.mapping of an API ingest job',
+    type: 'object',
+    additionalProperties: true,
+    example: {
+      id: '$.show.id',
+      title: '$.show.name',
+      episodes: {
+        path: '$.show.episodes[*]',
+        fields: {
+          externalId: '$.id',
+          title: { template: '{{name}} (part {{part}})' },
+          duration: { path: '$.length', transform: 'duration' },
+          publishedAt: { path: '$.aired', transform: 'date' },
+        },
+      },
+    },
+  })
+  @IsObject()
+  mapping: Record<string, any>;
+
+  @ApiProperty({ description: 'Sample API response to map' })
+  @IsDefined()
+  payload: any;
+
+  @ApiPropertyOptional({ description: 'Source URL, used for the program external ID' })
+  @IsOptional()
+  @IsUrl()
+  sourceUrl?: string;
+}
+
 /**
  * Ingest Job DTO
  */
@@ -55,7 +113,7 @@ export class IngestJobDto {
   @IsEnum(IngestStatus)
   status: IngestStatus;
 
-  @ApiPropertyOptional()
+  @ApiPropertyOptional({ description: 'ID of the program created or updated in cms-service' })
   @IsOptional()
   @IsUUID()
   contentId?: string;
@@ -68,6 +126,27 @@ export class IngestJobDto {
   @IsObject()
   metadata?: Record<string, any>;
 
+  @ApiPropertyOptional({
+    description:
+      'Per-episode results; failed episodes carry an error, downloaded files their assets',
+    type: 'array',
+    items: { type: 'object', additionalProperties: true },
+  })
+  @IsOptional()
+  results?: IngestEpisodeResult[];
+
+  @ApiProperty({ enum: DedupStrategy })
+  @IsEnum(DedupStrategy)
+  dedupStrategy: DedupStrategy;
+
+  @ApiPropertyOptional({
+    description: 'Items that matched already ingested content, and the action taken',
+    type: 'array',
+    items: { type: 'object', additionalProperties: true },
+  })
+  @IsOptional()
+  duplicates?: IngestDuplicate[];
+
   @ApiPropertyOptional()
   @IsOptional()
   @IsString()
@@ -78,6 +157,11 @@ export class IngestJobDto {
   @Min(0)
   retryCount: number;
 
+  @ApiPropertyOptional({ description: 'When a pending job is next attempted (retry backoff)' })
+  @IsOptional()
+  @IsString()
+  nextAttemptAt?: string;
+
   @ApiProperty()
   @IsString()
   createdAt: string;
@@ -87,6 +171,39 @@ export class IngestJobDto {
   updatedAt: string;
 }
 
+/**
+ * Ingest Job Progress DTO
+ */
+export class IngestJobProgressDto {
+  @ApiProperty()
+  jobId: string;
+
+  @ApiProperty({ enum: IngestStatus })
+  status: IngestStatus;
+
+  @ApiProperty({
+    description: 'Stage of the current or last run',
+    example: 'syncing',
+    enum: ['fetching', 'normalized', 'syncing', 'completed', 'failed'],
+  })
+  stage: string;
+
+  @ApiProperty({ minimum: 0, maximum: 100 })
+  percent: number;
+
+  @ApiPropertyOptional({ example: '12 of 40 episodes written' })
+  message?: string;
+
+  @ApiPropertyOptional()
+  episodesDone?: number;
+
+  @ApiPropertyOptional()
+  episodesTotal?: number;
+
+  @ApiProperty({ description: 'When the progress last changed' })
+  updatedAt: string;
+}
+
 /**
  * Ingest Jobs Query DTO
  */
@@ -116,3 +233,14 @@ export class IngestJobsQueryDto {
   @Max(100)
   limit?: number = 20;
 }
+
+/**
+ * Cancel Ingest Job DTO
+ */
+export class CancelIngestJobDto {
+  @ApiPropertyOptional({ description: 'Why the job is cancelled', maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,227 @@
+import {
+  IsString,
+  IsUUID,
+  IsEnum,
+  IsOptional,
+  IsInt,
+  IsBoolean,
+  IsObject,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DedupStrategy } from '../entities/ingest-job.entity';
+
+/**
+ * Create Webhook Endpoint DTO
+ */
+export class CreateWebhookEndpointDto {
+  @ApiProperty({
+    description: 'Partner slug; deliveries are pushed to POST /ingest/webhooks/:partner',
+    example: 'acme-radio',
+  })
+  @IsString()
+  @MaxLength(64)
+  @Matches(/^[a-z0-9]+(-[a-z0-9]+)*$/, {
+    message: 'Partner must be lowercase letters, digits and single hyphens',
+  })
+  partner: string;
+
+  @ApiPropertyOptional({
+    description: 'Field mapping applied to each payload, as for API ingest jobs (no pagination)',
+    type: 'object',
+    additionalProperties: true,
+  })
+  @IsOptional()
+  @IsObject()
+  mapping?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description:
+      'What to do with items matching already ingested content (defaults to INGEST_DEDUP_STRATEGY)',
+    enum: DedupStrategy,
+  })
+  @IsOptional()
+  @IsEnum(DedupStrategy, { message: 'Dedup strategy must be SKIP, UPDATE, or NEW_VERSION' })
+  dedupStrategy?: DedupStrategy;
+
+  @ApiPropertyOptional({
+    description: 'Metadata added to every job of the endpoint',
+    type: 'object',
+    additionalProperties: true,
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Update Webhook Endpoint DTO
+ */
+export class UpdateWebhookEndpointDto {
+  @ApiPropertyOptional({ description: 'Whether deliveries are accepted' })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Field mapping applied to each payload (no pagination)',
+    type: 'object',
+    additionalProperties: true,
+  })
+  @IsOptional()
+  @IsObject()
+  mapping?: Record<string, any>;
+
+  @ApiPropertyOptional({ enum: DedupStrategy })
+  @IsOptional()
+  @IsEnum(DedupStrategy, { message: 'Dedup strategy must be SKIP, UPDATE, or NEW_VERSION' })
+  dedupStrategy?: DedupStrategy;
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: true,
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Webhook Endpoint DTO
+ *
+ * The signing secret is only returned when it is created or rotated.
+ */
+export class WebhookEndpointDto {
+  @ApiProperty()
+  @IsUUID()
+  id: string;
+
+  @ApiProperty()
+  @IsString()
+  partner: string;
+
+  @ApiProperty()
+  @IsBoolean()
+  enabled: boolean;
+
+  @ApiPropertyOptional({ description: 'Until when the previous secret is still accepted' })
+  @IsOptional()
+  @IsString()
+  previousSecretExpiresAt?: string;
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: true,
+  })
+  @IsOptional()
+  @IsObject()
+  mapping?: Record<string, any>;
+
+  @ApiProperty({ enum: DedupStrategy })
+  @IsEnum(DedupStrategy)
+  dedupStrategy: DedupStrategy;
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: true,
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+
+  @ApiProperty()
+  @IsString()
+  createdAt: string;
+
+  @ApiProperty()
+  @IsString()
+  updatedAt: string;
+}
+
+/**
+ * Webhook Endpoint DTO with its signing secret
+ */
+export class WebhookEndpointSecretDto extends WebhookEndpointDto {
+  @ApiProperty({
+    description:
+      'Signing secret; deliveries carry X-Webhook-Signature: sha256=<HMAC of "<timestamp>.<body>">',
+  })
+  @IsString()
+  secret: string;
+}
+
+/**
+ * Webhook Delivery DTO
+ */
+export class WebhookDeliveryDto {
+  @ApiProperty()
+  @IsUUID()
+  id: string;
+
+  @ApiProperty()
+  @IsUUID()
+  endpointId: string;
+
+  @ApiProperty({ description: 'Idempotency-Key header, or the SHA-256 of the body' })
+  @IsString()
+  idempotencyKey: string;
+
+  @ApiProperty({ description: 'Payload as received' })
+  @IsString()
+  rawBody: string;
+
+  @ApiPropertyOptional({ description: 'Latest ingest job run for the delivery' })
+  @IsOptional()
+  @IsUUID()
+  jobId?: string;
+
+  @ApiProperty()
+  @IsInt()
+  replayCount: number;
+
+  @ApiProperty()
+  @IsString()
+  receivedAt: string;
+}
+
+/**
+ * Webhook Receipt DTO
+ */
+export class WebhookReceiptDto {
+  @ApiProperty()
+  @IsUUID()
+  deliveryId: string;
+
+  @ApiPropertyOptional({ description: 'Ingest job queued for the delivery' })
+  @IsOptional()
+  @IsUUID()
+  jobId?: string;
+
+  @ApiProperty({ description: 'Whether the delivery repeated an earlier one and was not queued' })
+  @IsBoolean()
+  duplicate: boolean;
+}
+
+/**
+ * Webhook Pagination Query DTO
+ */
+export class WebhookPaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Page number', example: 1, minimum: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', example: 20, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
@@ -0,0 +1,57 @@
+/**
+ * Ingest Fingerprint Entity
+ *
+ * Identity of an episode written to the CMS by ingestion. Later items are matched against
+ * it by GUID, canonical URL, or title and duration.
+ */
+export class IngestFingerprint {
+  id: string;
+  sourceKey: string; // Program externalId
+  guid: string; // Episode externalId
+  canonicalUrl?: string;
+  title: string; // Normalized
+  duration?: number; // Seconds
+  programId: string;
+  episodeId: string;
+  episodeNumber: number;
+  versionOf?: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<IngestFingerprint>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create IngestFingerprint entity from Prisma model
+   */
+  static fromPrisma(prismaFingerprint: {
+    id: string;
+    sourceKey: string;
+    guid: string;
+    canonicalUrl: string | null;
+    title: string;
+    duration: number | null;
+    programId: string;
+    episodeId: string;
+    episodeNumber: number;
+    versionOf: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): IngestFingerprint {
+    return new IngestFingerprint({
+      id: prismaFingerprint.id,
+      sourceKey: prismaFingerprint.sourceKey,
+      guid: prismaFingerprint.guid,
+      canonicalUrl: prismaFingerprint.canonicalUrl || undefined,
+      title: prismaFingerprint.title,
+      duration: prismaFingerprint.duration ?? undefined,
+      programId: prismaFingerprint.programId,
+      episodeId: prismaFingerprint.episodeId,
+      episodeNumber: prismaFingerprint.episodeNumber,
+      versionOf: prismaFingerprint.versionOf || undefined,
+      createdAt: prismaFingerprint.createdAt,
+      updatedAt: prismaFingerprint.updatedAt,
+    });
+  }
+}
@@ -5,6 +5,7 @@ export enum SourceType {
   YOUTUBE = 'YOUTUBE',
   RSS = 'RSS',
   API = 'API',
+  WEBHOOK = 'WEBHOOK', // Pushed by a partner to its webhook endpoint
 }
 
 /**
@@ -14,7 +15,71 @@ export enum IngestStatus {
   PENDING = 'PENDING',
   PROCESSING = 'PROCESSING',
   COMPLETED = 'COMPLETED',
+  PARTIALLY_COMPLETED = 'PARTIALLY_COMPLETED', // Program written, some episodes failed
   FAILED = 'FAILED',
+  DEAD_LETTER = 'DEAD_LETTER', // Failed MAX_RETRIES times; only retried by hand
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Dedup Strategy Enum
+ *
+ * What to do with an item that matches already ingested content.
+ */
+export enum DedupStrategy {
+  SKIP = 'SKIP',
+  UPDATE = 'UPDATE',
+  NEW_VERSION = 'NEW_VERSION',
+}
+
+/**
+ * Outcome of writing one ingested episode to cms-service
+ */
+export interface IngestEpisodeResult {
+  externalId: string;
+  title: string;
+  episodeId?: string; // CMS episode ID, absent when the write failed
+  metadataId?: string;
+  action?: 'CREATED' | 'UPDATED' | 'SKIPPED';
+  error?: string;
+  assets?: IngestAssetResult[]; // When assets are downloaded
+}
+
+/**
+ * Outcome of importing one file of an ingested episode into media-service
+ */
+export interface IngestAssetResult {
+  kind: 'ENCLOSURE' | 'ARTWORK';
+  sourceUrl: string;
+  mediaId?: string; // Absent when the import failed
+  error?: string;
+}
+
+/**
+ * An ingested item that matched already ingested content
+ */
+export interface IngestDuplicate {
+  externalId: string;
+  title: string;
+  matchedBy: 'GUID' | 'URL' | 'TITLE_DURATION';
+  existingProgramId: string;
+  existingEpisodeId: string;
+  action: DedupStrategy;
+  episodeId?: string; // Episode written for the item; the new one for NEW_VERSION
+}
+
+/**
+ * Progress of the current or last run of an ingest job
+ *
+ * Stages: fetching, normalized, syncing, then completed or failed.
+ */
+export interface IngestProgress {
+  stage: string;
+  percent: number; // 0-100
+  message?: string;
+  episodesDone?: number;
+  episodesTotal?: number;
+  updatedAt: string;
 }
 
 /**
@@ -27,10 +92,18 @@ export class IngestJob {
   sourceType: SourceType;
   sourceUrl: string;
   status: IngestStatus;
-  contentId?: string;
+  contentId?: string; // CMS program ID
   metadata?: Record<string, any>;
+  results?: IngestEpisodeResult[];
+  sourceId?: string; // Subscription this job is a sync run of
+  dedupStrategy: DedupStrategy;
+  duplicates?: IngestDuplicate[];
   errorMessage?: string;
   retryCount: number;
+  nextAttemptAt?: Date; // When a PENDING job is due (retry backoff)
+  leaseToken?: string; // Held by the worker processing the job
+  leaseExpiresAt?: Date;
+  progress?: IngestProgress;
   createdAt: Date;
   updatedAt: Date;
 
@@ -48,8 +121,16 @@ export class IngestJob {
     status: string;
     contentId: string | null;
     metadata: any;
+    results?: any;
+    sourceId?: string | null;
+    dedupStrategy?: string;
+    duplicates?: any;
     errorMessage: string | null;
     retryCount: number;
+    nextAttemptAt?: Date | null;
+    leaseToken?: string | null;
+    leaseExpiresAt?: Date | null;
+    progress?: any;
     createdAt: Date;
     updatedAt: Date;
   }): IngestJob {
@@ -60,8 +141,16 @@ export class IngestJob {
       status: prismaJob.status as IngestStatus,
       contentId: prismaJob.contentId || undefined,
       metadata: prismaJob.metadata || undefined,
+      results: prismaJob.results || undefined,
+      sourceId: prismaJob.sourceId || undefined,
+      dedupStrategy: (prismaJob.dedupStrategy as DedupStrategy) || DedupStrategy.UPDATE,
+      duplicates: prismaJob.duplicates || undefined,
       errorMessage: prismaJob.errorMessage || undefined,
       retryCount: prismaJob.retryCount,
+      nextAttemptAt: prismaJob.nextAttemptAt || undefined,
+      leaseToken: prismaJob.leaseToken || undefined,
+      leaseExpiresAt: prismaJob.leaseExpiresAt || undefined,
+      progress: prismaJob.progress || undefined,
       createdAt: prismaJob.createdAt,
       updatedAt: prismaJob.updatedAt,
     });
@@ -0,0 +1,121 @@
+import { SourceType } from './ingest-job.entity';
+
+/**
+ * Ingest Source Status Enum
+ */
+export enum IngestSourceStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED',
+}
+
+/**
+ * Ingest Source Entity
+ *
+ * A feed subscription (RSS feed or YouTube channel) that is polled on a schedule
+ * and synced incrementally into one CMS program.
+ */
+export class IngestSource {
+  id: string;
+  sourceType: SourceType;
+  sourceUrl: string;
+  status: IngestSourceStatus;
+  pollIntervalMinutes: number;
+  nextPollAt: Date;
+  lastPolledAt?: Date;
+  etag?: string; // Validators of the last complete sync
+  lastModified?: string;
+  contentId?: string; // CMS program ID
+  lastJobId?: string;
+  errorMessage?: string;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<IngestSource>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create IngestSource entity from Prisma model
+   */
+  static fromPrisma(prismaSource: {
+    id: string;
+    sourceType: string;
+    sourceUrl: string;
+    status: string;
+    pollIntervalMinutes: number;
+    nextPollAt: Date;
+    lastPolledAt: Date | null;
+    etag: string | null;
+    lastModified: string | null;
+    contentId: string | null;
+    lastJobId: string | null;
+    errorMessage: string | null;
+    metadata: any;
+    createdAt: Date;
+    updatedAt: Date;
+  }): IngestSource {
+    return new IngestSource({
+      id: prismaSource.id,
+      sourceType: prismaSource.sourceType as SourceType,
+      sourceUrl: prismaSource.sourceUrl,
+      status: prismaSource.status as IngestSourceStatus,
+      pollIntervalMinutes: prismaSource.pollIntervalMinutes,
+      nextPollAt: prismaSource.nextPollAt,
+      lastPolledAt: prismaSource.lastPolledAt || undefined,
+      etag: prismaSource.etag || undefined,
+      lastModified: prismaSource.lastModified || undefined,
+      contentId: prismaSource.contentId || undefined,
+      lastJobId: prismaSource.lastJobId || undefined,
+      errorMessage: prismaSource.errorMessage || undefined,
+      metadata: prismaSource.metadata || undefined,
+      createdAt: prismaSource.createdAt,
+      updatedAt: prismaSource.updatedAt,
+    });
+  }
+}
+
+/**
+ * Ingest Source Item Entity
+ *
+ * An item already synced from a source, keyed by its GUID.
+ */
+export class IngestSourceItem {
+  id: string;
+  sourceId: string;
+  guid: string;
+  fingerprint: string;
+  episodeNumber: number;
+  episodeId?: string; // CMS episode ID
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<IngestSourceItem>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create IngestSourceItem entity from Prisma model
+   */
+  static fromPrisma(prismaItem: {
+    id: string;
+    sourceId: string;
+    guid: string;
+    fingerprint: string;
+    episodeNumber: number;
+    episodeId: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): IngestSourceItem {
+    return new IngestSourceItem({
+      id: prismaItem.id,
+      sourceId: prismaItem.sourceId,
+      guid: prismaItem.guid,
+      fingerprint: prismaItem.fingerprint,
+      episodeNumber: prismaItem.episodeNumber,
+      episodeId: prismaItem.episodeId || undefined,
+      createdAt: prismaItem.createdAt,
+      updatedAt: prismaItem.updatedAt,
+    });
+  }
+}
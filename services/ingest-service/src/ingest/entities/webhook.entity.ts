@@ -0,0 +1,114 @@
+import { DedupStrategy } from './ingest-job.entity';
+import { ApiMapping } from '../parsers/api-mapping';
+
+/**
+ * Webhook Endpoint Entity
+ *
+ * A partner pushing content to POST /ingest/webhooks/:partner. Pushes are signed with the
+ * endpoint's secret; after a rotation the previous secret is accepted for a grace period.
+ */
+export class WebhookEndpoint {
+  id: string;
+  partner: string; // URL slug
+  enabled: boolean;
+  secret: string;
+  previousSecret?: string;
+  previousSecretExpiresAt?: Date;
+  mapping?: ApiMapping; // Applied to each payload
+  dedupStrategy: DedupStrategy;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<WebhookEndpoint>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create WebhookEndpoint entity from Prisma model
+   */
+  static fromPrisma(prismaEndpoint: {
+    id: string;
+    partner: string;
+    enabled: boolean;
+    secret: string;
+    previousSecret: string | null;
+    previousSecretExpiresAt: Date | null;
+    mapping: any;
+    dedupStrategy: string;
+    metadata: any;
+    createdAt: Date;
+    updatedAt: Date;
+  }): WebhookEndpoint {
+    return new WebhookEndpoint({
+      id: prismaEndpoint.id,
+      partner: prismaEndpoint.partner,
+      enabled: prismaEndpoint.enabled,
+      secret: prismaEndpoint.secret,
+      previousSecret: prismaEndpoint.previousSecret || undefined,
+      previousSecretExpiresAt: prismaEndpoint.previousSecretExpiresAt || undefined,
+      mapping: prismaEndpoint.mapping || undefined,
+      dedupStrategy: prismaEndpoint.dedupStrategy as DedupStrategy,
+      metadata: prismaEndpoint.metadata || undefined,
+      createdAt: prismaEndpoint.createdAt,
+      updatedAt: prismaEndpoint.updatedAt,
+    });
+  }
+
+  /**
+   * Secrets a signature may be made with at the given time
+   */
+  validSecrets(now: Date = new Date()): string[] {
+    const previousValid =
+      this.previousSecret && this.previousSecretExpiresAt && this.previousSecretExpiresAt > now;
+    return previousValid ? [this.secret, this.previousSecret!] : [this.secret];
+  }
+}
+
+/**
+ * Webhook Delivery Entity
+ *
+ * A verified push, stored as received so it can be replayed.
+ */
+export class WebhookDelivery {
+  id: string;
+  endpointId: string;
+  idempotencyKey: string;
+  rawBody: string;
+  jobId?: string; // Latest ingest job run for the delivery
+  queuedAt?: Date; // Claimed by the request queueing its first job
+  replayCount: number;
+  receivedAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<WebhookDelivery>) {
+    Object.assign(this, partial);
+  }
+
+  /**
+   * Create WebhookDelivery entity from Prisma model
+   */
+  static fromPrisma(prismaDelivery: {
+    id: string;
+    endpointId: string;
+    idempotencyKey: string;
+    rawBody: string;
+    jobId: string | null;
+    queuedAt: Date | null;
+    replayCount: number;
+    receivedAt: Date;
+    updatedAt: Date;
+  }): WebhookDelivery {
+    return new WebhookDelivery({
+      id: prismaDelivery.id,
+      endpointId: prismaDelivery.endpointId,
+      idempotencyKey: prismaDelivery.idempotencyKey,
+      rawBody: prismaDelivery.rawBody,
+      jobId: prismaDelivery.jobId || undefined,
+      queuedAt: prismaDelivery.queuedAt || undefined,
+      replayCount: prismaDelivery.replayCount,
+      receivedAt: prismaDelivery.receivedAt,
+      updatedAt: prismaDelivery.updatedAt,
+    });
+  }
+}
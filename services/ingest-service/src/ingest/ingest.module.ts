@@ -1,12 +1,24 @@
 import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
+import { HttpRetryService, CircuitBreakerService } from '@mediamesh/shared';
 import { IngestController } from './controllers/ingest.controller';
+import { IngestSourcesController } from './controllers/ingest-sources.controller';
+import { WebhooksController } from './controllers/webhooks.controller';
+import { WebhookEndpointsController } from './controllers/webhook-endpoints.controller';
 import { IngestService } from './services/ingest.service';
 import { IngestProcessor } from './services/ingest.processor';
+import { IngestSourceService } from './services/ingest-source.service';
+import { IngestSourcePoller } from './services/ingest-source.poller';
+import { DedupService } from './services/dedup.service';
+import { WebhookService } from './services/webhook.service';
 import { IngestRepository } from './repositories/ingest.repository';
+import { IngestSourceRepository } from './repositories/ingest-source.repository';
+import { IngestFingerprintRepository } from './repositories/ingest-fingerprint.repository';
+import { WebhookRepository } from './repositories/webhook.repository';
 import { YouTubeParser } from './parsers/youtube.parser';
 import { RSSParser } from './parsers/rss.parser';
 import { APIParser } from './parsers/api.parser';
+import { CmsClient } from './clients/cms.client';
 import { JWT_CONFIG } from '../config/env.constants';
 
 /**
@@ -23,14 +35,29 @@ import { JWT_CONFIG } from '../config/env.constants';
       },
     }),
   ],
-  controllers: [IngestController],
+  controllers: [
+    IngestController,
+    IngestSourcesController,
+    WebhooksController,
+    WebhookEndpointsController,
+  ],
   providers: [
     IngestService,
     IngestProcessor,
     IngestRepository,
+    IngestSourceService,
+    IngestSourcePoller,
+    IngestSourceRepository,
+    DedupService,
+    IngestFingerprintRepository,
+    WebhookService,
+    WebhookRepository,
     YouTubeParser,
     RSSParser,
     APIParser,
+    CmsClient,
+    HttpRetryService,
+    CircuitBreakerService,
   ],
   exports: [IngestService],
 })
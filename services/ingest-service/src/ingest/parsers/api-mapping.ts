@@ -0,0 +1,46 @@
+/**
+ * Transforms a mapped value can go through
+ *
+ * - date: ISO strings, RFC 2822 strings, or epoch seconds/milliseconds
+ * - duration: seconds, "hh:mm:ss"/"mm:ss", or ISO 8601 ("PT1H2M3S")
+ */
+export const FIELD_TRANSFORMS = ['string', 'number', 'boolean', 'date', 'duration'] as const;
+
+export type FieldTransform = (typeof FIELD_TRANSFORMS)[number];
+
+/**
+ * How one output field is read from the API response
+ *
+ * A plain string is a path. Paths are JSONPath-like and relative to the current object:
+ * "$.show.name", "show.name", "$.items[0].id", "$['odd key']", "$.episodes[*].id".
+ */
+export type MappingRule = string | FieldMapping;
+
+export interface FieldMapping {
+  path?: string;
+  template?: string; // "{{title}} ({{$.season.name}})"; placeholders are paths
+  value?: any; // Constant
+  default?: any; // Used when the value is missing or empty
+  transform?: FieldTransform;
+  fields?: Record<string, MappingRule>; // Maps each element of the array at path
+}
+
+/**
+ * How further pages of the API are fetched; their episodes are appended
+ */
+export interface ApiPagination {
+  nextLink?: string; // Path of the next page URL in each response
+  pageParam?: string; // Query parameter incremented from startPage
+  startPage?: number;
+  maxPages?: number;
+}
+
+/**
+ * Mapping of an API response to program fields (id, title, description, episodes)
+ *
+ * Every key except pagination is an output field.
+ */
+export type ApiMapping = { pagination?: ApiPagination } & Record<
+  string,
+  MappingRule | ApiPagination
+>;
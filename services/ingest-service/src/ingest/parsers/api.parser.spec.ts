@@ -0,0 +1,162 @@
+import { BadRequestException } from '@nestjs/common';
+import { APIParser } from './api.parser';
+
+describe('APIParser', () => {
+  let parser: APIParser;
+
+  const payload = {
+    show: {
+      id: 42,
+      name: 'Night Lectures',
+      'long summary': 'Talks recorded live',
+      episodes: [
+        { id: 'a1', name: 'Opening', part: 1, length: 'PT1H2M3S', aired: '2024-05-01T20:00:00Z' },
+        { id: 'a2', name: 'Closing', part: 2, length: '45:10', aired: 1714680000 },
+      ],
+    },
+    links: { next: '/v1/shows/42?page=2' },
+  };
+
+  beforeEach(() => {
+    parser = new APIParser();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('normalizeAPIResponse', () => {
+    it('should keep flat key mappings working', () => {
+      expect(parser.normalizeAPIResponse({ name: 'Show', extra: 1 }, { title: 'name' })).toEqual({
+        title: 'Show',
+      });
+    });
+
+    it('should map nested paths, arrays of episodes and transforms', () => {
+      const result = parser.normalizeAPIResponse(payload, {
+        id: '$.show.id',
+        title: '$.show.name',
+        description: "$.show['long summary']",
+        episodes: {
+          path: '$.show.episodes[*]',
+          fields: {
+            externalId: '$.id',
+            title: { template: '{{name}} (part {{part}})' },
+            duration: { path: '$.length', transform: 'duration' },
+            publishedAt: { path: '$.aired', transform: 'date' },
+            thumbnailUrl: { path: '$.image', default: 'https://example.com/default.jpg' },
+          },
+        },
+      });
+
+      expect(result).toEqual({
+        id: 42,
+        title: 'Night Lectures',
+        description: 'Talks recorded live',
+        episodes: [
+          {
+            externalId: 'a1',
+            title: 'Opening (part 1)',
+            duration: 3723,
+            publishedAt: new Date('2024-05-01T20:00:00Z'),
+            thumbnailUrl: 'https://example.com/default.jpg',
+          },
+          {
+            externalId: 'a2',
+            title: 'Closing (part 2)',
+            duration: 2710,
+            publishedAt: new Date('2024-05-02T20:00:00Z'),
+            thumbnailUrl: 'https://example.com/default.jpg',
+          },
+        ],
+      });
+    });
+
+    it('should leave out values that cannot be converted', () => {
+      const result = parser.normalizeAPIResponse(
+        { runtime: 'about an hour', date: 'someday', count: '12 episodes' },
+        {
+          duration: { path: 'runtime', transform: 'duration' },
+          publishedAt: { path: 'date', transform: 'date' },
+          episodeCount: { path: 'count', transform: 'number' },
+        },
+      );
+
+      expect(result).toEqual({ episodeCount: 12 });
+    });
+  });
+
+  describe('validateMapping', () => {
+    it.each([
+      [{ title: '$.show..name' }, 'invalid path'],
+      [{ duration: { path: 'length', transform: 'seconds' } }, 'transform must be one of'],
+      [{ episodes: { path: 'items', fields: { title: { pth: 'name' } } } }, 'episodes.title'],
+      [{ title: 'name', pagination: { nextLink: '$.next', pageParam: 'page' } }, 'either'],
+    ])('should reject %j', (mapping, message) => {
+      expect(() => parser.validateMapping(mapping)).toThrow(BadRequestException);
+      expect(() => parser.validateMapping(mapping)).toThrow(message);
+    });
+  });
+
+  describe('fetchAndNormalize', () => {
+    const mapping = {
+      title: '$.show.name',
+      episodes: { path: '$.show.episodes[*]', fields: { externalId: '$.id' } },
+    };
+
+    it('should follow next links until there are none', async () => {
+      const fetchFromAPI = jest
+        .spyOn(parser, 'fetchFromAPI')
+        .mockResolvedValueOnce(payload)
+        .mockResolvedValueOnce({ show: { episodes: [{ id: 'a3' }] }, links: {} });
+
+      const { normalized, pages } = await parser.fetchAndNormalize(
+        'https://api.example.com/v1/shows/42',
+        { ...mapping, pagination: { nextLink: '$.links.next' } },
+        { params: { lang: 'en' } },
+      );
+
+      expect(pages).toHaveLength(2);
+      expect(normalized.title).toBe('Night Lectures');
+      expect(normalized.episodes.map((episode: any) => episode.externalId)).toEqual([
+        'a1',
+        'a2',
+        'a3',
+      ]);
+      expect(fetchFromAPI).toHaveBeenLastCalledWith('https://api.example.com/v1/shows/42?page=2', {
+        params: undefined,
+      });
+    });
+
+    it('should increment the page parameter until a page has no episodes', async () => {
+      const fetchFromAPI = jest
+        .spyOn(parser, 'fetchFromAPI')
+        .mockResolvedValueOnce(payload)
+        .mockResolvedValueOnce({ show: { episodes: [{ id: 'a3' }] } })
+        .mockResolvedValueOnce({ show: { episodes: [] } });
+
+      const { normalized } = await parser.fetchAndNormalize('https://api.example.com/shows', {
+        ...mapping,
+        pagination: { pageParam: 'page', startPage: 0, maxPages: 5 },
+      });
+
+      expect(normalized.episodes).toHaveLength(3);
+      expect(fetchFromAPI.mock.calls.map(([, options]) => options?.params)).toEqual([
+        { page: 0 },
+        { page: 1 },
+        { page: 2 },
+      ]);
+    });
+
+    it('should stop at maxPages', async () => {
+      const fetchFromAPI = jest.spyOn(parser, 'fetchFromAPI').mockResolvedValue(payload);
+
+      await parser.fetchAndNormalize('https://api.example.com/shows', {
+        ...mapping,
+        pagination: { pageParam: 'page', maxPages: 2 },
+      });
+
+      expect(fetchFromAPI).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -1,5 +1,32 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import axios, { AxiosInstance } from 'axios';
+import {
+  ApiMapping,
+  ApiPagination,
+  FieldMapping,
+  FieldTransform,
+  FIELD_TRANSFORMS,
+  MappingRule,
+} from './api-mapping';
+import { INGEST_CONFIG } from '../../config/env.constants';
+
+// One step of a path: .key, ['key'], [0] or [*]
+const PATH_TOKEN = /\.([^.[\]]+)|\[(\d+|\*|'[^']*'|"[^"]*")\]/y;
+// ISO 8601 duration: P[nD][T[nH][nM][nS]]
+const DECIMAL = '(\\d+(?:\\.\\d+)?)';
+const ISO_DURATION = new RegExp(
+  `^P(?:${DECIMAL}D)?(?:T(?:${DECIMAL}H)?(?:${DECIMAL}M)?(?:${DECIMAL}S)?)?$`,
+  'i',
+);
+const TEMPLATE_PLACEHOLDER = /\{\{\s*([^}]+?)\s*\}\}/g;
+const FIELD_MAPPING_KEYS = ['path', 'template', 'value', 'default', 'transform', 'fields'];
+
+type FetchOptions = {
+  method?: string;
+  headers?: Record<string, string>;
+  params?: Record<string, any>;
+  body?: any;
+};
 
 /**
  * API Parser
@@ -23,12 +50,7 @@ export class APIParser {
   /**
    * Fetch content from API endpoint
    */
-  async fetchFromAPI(apiUrl: string, options?: {
-    method?: string;
-    headers?: Record<string, string>;
-    params?: Record<string, any>;
-    body?: any;
-  }): Promise<any> {
+  async fetchFromAPI(apiUrl: string, options?: FetchOptions): Promise<any> {
     try {
       const config: any = {
         url: apiUrl,
@@ -58,21 +80,362 @@ export class APIParser {
     }
   }
 
+  /**
+   * Fetch an API source and map it, following pagination
+   *
+   * Program fields come from the first page; the episodes (or items) of every page are
+   * concatenated. Paging stops at a page without episodes, a missing next link, or maxPages.
+   */
+  async fetchAndNormalize(
+    apiUrl: string,
+    mapping: ApiMapping,
+    options: FetchOptions = {},
+  ): Promise<{ normalized: any; pages: any[] }> {
+    this.validateMapping(mapping);
+
+    const pagination: ApiPagination | undefined = mapping.pagination;
+    const maxPages = Math.min(
+      pagination?.maxPages ?? INGEST_CONFIG.API_MAX_PAGES,
+      INGEST_CONFIG.API_MAX_PAGES,
+    );
+    let page = pagination?.startPage ?? 1;
+    const pageOptions = (pageNumber: number): FetchOptions =>
+      pagination?.pageParam
+        ? { ...options, params: { ...options.params, [pagination.pageParam]: pageNumber } }
+        : options;
+
+    const first = await this.fetchFromAPI(apiUrl, pageOptions(page));
+    const pages = [first];
+    const normalized = this.normalizeAPIResponse(first, mapping);
+    if (!pagination) {
+      return { normalized, pages };
+    }
+
+    let url = apiUrl;
+    while (pages.length < maxPages) {
+      let data: any;
+      if (pagination.nextLink) {
+        const next = this.resolvePath(pages[pages.length - 1], pagination.nextLink);
+        if (!next || typeof next !== 'string') {
+          break;
+        }
+        // Next links carry their own query string
+        url = new URL(next, url).toString();
+        data = await this.fetchFromAPI(url, { ...options, params: undefined });
+      } else {
+        page++;
+        data = await this.fetchFromAPI(apiUrl, pageOptions(page));
+      }
+
+      const pageNormalized = this.normalizeAPIResponse(data, mapping);
+      let appended = 0;
+      for (const key of ['episodes', 'items']) {
+        if (Array.isArray(pageNormalized[key]) && pageNormalized[key].length > 0) {
+          normalized[key] = [...(normalized[key] || []), ...pageNormalized[key]];
+          appended += pageNormalized[key].length;
+        }
+      }
+      if (appended === 0) {
+        break;
+      }
+      pages.push(data);
+    }
+
+    this.logger.log(`Fetched ${pages.length} pages from API: ${apiUrl}`);
+    return { normalized, pages };
+  }
+
   /**
    * Normalize API response to internal format
    */
-  normalizeAPIResponse(data: any, mapping?: Record<string, string>): any {
+  normalizeAPIResponse(data: any, mapping?: ApiMapping): any {
     if (!mapping) {
       return data;
     }
 
-    const normalized: any = {};
-    for (const [key, value] of Object.entries(mapping)) {
-      if (data[value]) {
-        normalized[key] = data[value];
+    const fields = { ...mapping };
+    delete fields.pagination;
+    return this.applyFields(data, fields as Record<string, MappingRule>);
+  }
+
+  /**
+   * Check a mapping before it is used
+   *
+   * @throws BadRequestException naming the first invalid field
+   */
+  validateMapping(mapping: ApiMapping): void {
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+      throw new BadRequestException('Mapping must be an object');
+    }
+
+    const { pagination, ...fields } = mapping;
+    this.validateFields(fields, '');
+
+    if (pagination !== undefined) {
+      if (typeof pagination !== 'object' || !pagination) {
+        throw new BadRequestException('Invalid mapping for "pagination": must be an object');
+      }
+      if (!pagination.nextLink === !pagination.pageParam) {
+        throw new BadRequestException(
+          'Invalid mapping for "pagination": set either nextLink or pageParam',
+        );
+      }
+      if (pagination.nextLink) {
+        this.assertPath(pagination.nextLink, 'pagination.nextLink');
+      }
+      for (const [key, min] of [
+        ['startPage', 0],
+        ['maxPages', 1],
+      ] as const) {
+        const value = pagination[key];
+        if (value !== undefined && (!Number.isInteger(value) || value < min)) {
+          throw new BadRequestException(
+            `Invalid mapping for "pagination.${key}": must be an integer of at least ${min}`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Map an object's fields; missing values are left out
+   */
+  private applyFields(context: any, fields: Record<string, MappingRule>): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, rule] of Object.entries(fields)) {
+      const value = this.applyRule(context, rule);
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Read one field
+   */
+  private applyRule(context: any, rule: MappingRule): any {
+    if (typeof rule === 'string') {
+      return this.resolvePath(context, rule);
+    }
+
+    let value: any;
+    if (rule.value !== undefined) {
+      value = rule.value;
+    } else if (rule.template !== undefined) {
+      value = this.renderTemplate(context, rule.template);
+    } else if (rule.path !== undefined) {
+      value = this.resolvePath(context, rule.path);
+    }
+
+    if (rule.fields) {
+      const items = value === undefined || value === null ? [] : [value].flat();
+      value = items.map((item) => this.applyFields(item, rule.fields!));
+    } else if (rule.transform && value !== undefined && value !== null) {
+      value = this.applyTransform(value, rule.transform);
+    }
+
+    return value === undefined || value === null || value === '' ? rule.default : value;
+  }
+
+  /**
+   * Resolve a path against an object
+   *
+   * @returns the value, or an array of values when the path has a [*] step
+   */
+  private resolvePath(context: any, path: string): any {
+    const tokens = this.parsePath(path);
+    if (!tokens) {
+      return undefined;
+    }
+
+    let values = [context];
+    let wildcard = false;
+    for (const token of tokens) {
+      if (token === '*') {
+        wildcard = true;
+        values = values.flatMap((value) => {
+          if (Array.isArray(value)) {
+            return value;
+          }
+          return value && typeof value === 'object' ? Object.values(value) : [];
+        });
+      } else {
+        values = values
+          .map((value) => (value === null || value === undefined ? undefined : value[token]))
+          .filter((value) => !wildcard || value !== undefined);
+      }
+    }
+
+    return wildcard ? values : values[0];
+  }
+
+  /**
+   * Split a path into keys, indexes and wildcards
+   *
+   * @returns null when the path is not valid
+   */
+  private parsePath(path: string): Array<string | number> | null {
+    let rest = path.trim();
+    if (rest.startsWith('$')) {
+      rest = rest.slice(1);
+    } else if (!rest.startsWith('[')) {
+      rest = `.${rest}`;
+    }
+
+    const tokens: Array<string | number> = [];
+    PATH_TOKEN.lastIndex = 0;
+    while (PATH_TOKEN.lastIndex < rest.length) {
+      const match = PATH_TOKEN.exec(rest);
+      if (!match) {
+        return null;
+      }
+      if (match[1] !== undefined) {
+        tokens.push(match[1]);
+      } else if (match[2] === '*') {
+        tokens.push('*');
+      } else if (/^\d+$/.test(match[2])) {
+        tokens.push(Number(match[2]));
+      } else {
+        tokens.push(match[2].slice(1, -1));
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Fill the {{path}} placeholders of a template; missing values become empty
+   */
+  private renderTemplate(context: any, template: string): string {
+    return template
+      .replace(TEMPLATE_PLACEHOLDER, (_, path: string) => {
+        const value = this.resolvePath(context, path);
+        return value === undefined || value === null ? '' : String(value);
+      })
+      .trim();
+  }
+
+  /**
+   * Convert a mapped value
+   *
+   * @returns the converted value, or undefined when it cannot be converted
+   */
+  private applyTransform(value: any, transform: FieldTransform): any {
+    switch (transform) {
+      case 'string':
+        return String(value).trim();
+      case 'number': {
+        const number = typeof value === 'number' ? value : parseFloat(String(value));
+        return Number.isFinite(number) ? number : undefined;
+      }
+      case 'boolean':
+        return typeof value === 'boolean'
+          ? value
+          : ['true', '1', 'yes'].includes(String(value).toLowerCase());
+      case 'date':
+        return this.parseDate(value);
+      case 'duration':
+        return this.parseDuration(value);
+    }
+  }
+
+  /**
+   * Parse a date string or epoch timestamp
+   */
+  private parseDate(value: any): Date | undefined {
+    let date: Date;
+    if (typeof value === 'number' || /^\d+$/.test(String(value))) {
+      const timestamp = Number(value);
+      // Up to 11 digits is seconds (until year 5138), more is milliseconds
+      date = new Date(timestamp < 1e11 ? timestamp * 1000 : timestamp);
+    } else {
+      date = new Date(String(value));
+    }
+
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  /**
+   * Parse a duration to whole seconds
+   */
+  private parseDuration(value: any): number | undefined {
+    const text = String(value).trim();
+
+    if (/^\d+(\.\d+)?$/.test(text)) {
+      return Math.round(parseFloat(text));
+    }
+
+    if (/^\d+(:\d{1,2}){1,2}$/.test(text)) {
+      return text.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+    }
+
+    const iso = text.match(ISO_DURATION);
+    if (iso && text.length > 1 && !/T$/i.test(text)) {
+      const [days, hours, minutes, seconds] = iso.slice(1).map((part) => parseFloat(part || '0'));
+      return Math.round(days * 86400 + hours * 3600 + minutes * 60 + seconds);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Validate the rules of a field map
+   */
+  private validateFields(fields: Record<string, any>, prefix: string): void {
+    for (const [key, rule] of Object.entries(fields)) {
+      const name = `${prefix}${key}`;
+
+      if (typeof rule === 'string') {
+        this.assertPath(rule, name);
+        continue;
+      }
+      if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+        throw new BadRequestException(`Invalid mapping for "${name}": must be a path or an object`);
+      }
+
+      const unknown = Object.keys(rule).filter((option) => !FIELD_MAPPING_KEYS.includes(option));
+      if (unknown.length > 0) {
+        throw new BadRequestException(
+          `Invalid mapping for "${name}": unknown option ${unknown.join(', ')}`,
+        );
+      }
+
+      const fieldMapping = rule as FieldMapping;
+      if (fieldMapping.path !== undefined) {
+        this.assertPath(fieldMapping.path, name);
+      }
+      if (fieldMapping.template !== undefined) {
+        if (typeof fieldMapping.template !== 'string') {
+          throw new BadRequestException(`Invalid mapping for "${name}": template must be a string`);
+        }
+        for (const [, path] of fieldMapping.template.matchAll(TEMPLATE_PLACEHOLDER)) {
+          this.assertPath(path, name);
+        }
+      }
+      if (
+        fieldMapping.transform !== undefined &&
+        !FIELD_TRANSFORMS.includes(fieldMapping.transform)
+      ) {
+        throw new BadRequestException(
+          `Invalid mapping for "${name}": transform must be one of ${FIELD_TRANSFORMS.join(', ')}`,
+        );
+      }
+      if (fieldMapping.fields !== undefined) {
+        if (!fieldMapping.fields || typeof fieldMapping.fields !== 'object') {
+          throw new BadRequestException(`Invalid mapping for "${name}": fields must be an object`);
+        }
+        this.validateFields(fieldMapping.fields, `${name}.`);
       }
     }
+  }
 
-    return normalized;
+  /**
+   * Throw when a path cannot be parsed
+   */
+  private assertPath(path: any, name: string): void {
+    if (typeof path !== 'string' || !path.trim() || !this.parsePath(path)) {
+      throw new BadRequestException(`Invalid mapping for "${name}": invalid path ${path}`);
+    }
   }
 }
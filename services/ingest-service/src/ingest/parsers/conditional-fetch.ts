@@ -0,0 +1,17 @@
+/**
+ * HTTP validators from a previous fetch, sent back as If-None-Match / If-Modified-Since
+ */
+export interface FetchValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Result of a conditional fetch
+ *
+ * When notModified is true there is no data and the validators are the ones sent.
+ */
+export interface ConditionalFetchResult<T> extends FetchValidators {
+  notModified: boolean;
+  data?: T;
+}
@@ -0,0 +1,135 @@
+import axios from 'axios';
+import { RSSParser } from './rss.parser';
+
+jest.mock('axios');
+
+describe('RSSParser', () => {
+  let parser: RSSParser;
+  const get = axios.get as jest.Mock;
+
+  const podcastFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+  xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
+  xmlns:podcast="https://podcastindex.org/namespace/1.0">
+  <channel>
+    <title>Night Lectures</title>
+    <description>Talks recorded live</description>
+    <link>https://example.com/lectures</link>
+    <language>en-US</language>
+    <itunes:author>Example Radio</itunes:author>
+    <itunes:image href="https://example.com/cover.jpg"/>
+    <itunes:explicit>no</itunes:explicit>
+    <itunes:category text="Education">
+      <itunes:category text="Courses"/>
+    </itunes:category>
+    <item>
+      <title>Opening</title>
+      <description>The first lecture</description>
+      <guid>lecture-1</guid>
+      <pubDate>Wed, 01 May 2024 20:00:00 GMT</pubDate>
+      <enclosure url="https://cdn.example.com/1.mp3" length="12345678" type="audio/mpeg"/>
+      <itunes:duration>1:02:03</itunes:duration>
+      <itunes:episode>1</itunes:episode>
+      <itunes:image href="https://example.com/1.jpg"/>
+      <itunes:explicit>yes</itunes:explicit>
+      <podcast:transcript url="https://example.com/1.vtt" type="text/vtt" language="en"/>
+      <podcast:transcript url="https://example.com/1.srt" type="application/srt"/>
+      <podcast:chapters url="https://example.com/1.json" type="application/json+chapters"/>
+    </item>
+  </channel>
+</rss>`;
+
+  const atomFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Atom Show</title>
+  <subtitle>Episodes as Atom entries</subtitle>
+  <link rel="alternate" href="https://example.com/atom"/>
+  <updated>2024-05-02T00:00:00Z</updated>
+  <entry>
+    <id>tag:example.com,2024:ep-2</id>
+    <title>Second</title>
+    <summary>Entry summary</summary>
+    <published>2024-05-02T00:00:00Z</published>
+    <link rel="alternate" href="https://example.com/atom/2"/>
+    <link rel="enclosure" href="https://cdn.example.com/2.m4a" type="audio/mp4" length="0"/>
+  </entry>
+</feed>`;
+
+  beforeEach(() => {
+    parser = new RSSParser();
+  });
+
+  afterEach(() => {
+    get.mockReset();
+  });
+
+  describe('fetchFeed', () => {
+    it('should read iTunes and Podcasting 2.0 tags', async () => {
+      get.mockResolvedValue({ status: 200, data: podcastFeed, headers: {} });
+
+      const { data: feed } = await parser.fetchFeed('https://example.com/feed.rss');
+
+      expect(feed).toMatchObject({
+        title: 'Night Lectures',
+        language: 'en-US',
+        imageUrl: 'https://example.com/cover.jpg',
+        author: 'Example Radio',
+        explicit: false,
+        categories: ['Education'],
+      });
+      expect(feed.items[0]).toMatchObject({
+        guid: 'lecture-1',
+        duration: 3723,
+        imageUrl: 'https://example.com/1.jpg',
+        explicit: true,
+        enclosure: {
+          url: 'https://cdn.example.com/1.mp3',
+          type: 'audio/mpeg',
+          length: 12345678,
+        },
+        transcripts: [
+          { url: 'https://example.com/1.vtt', type: 'text/vtt', language: 'en' },
+          { url: 'https://example.com/1.srt', type: 'application/srt', language: undefined },
+        ],
+        chapters: { url: 'https://example.com/1.json', type: 'application/json+chapters' },
+      });
+      expect(parser.extractEpisodeNumber(feed.items[0])).toBe(1);
+    });
+
+    it('should read Atom feeds and their enclosure links', async () => {
+      get.mockResolvedValue({ status: 200, data: atomFeed, headers: {} });
+
+      const { data: feed } = await parser.fetchFeed('https://example.com/feed.atom');
+
+      expect(feed).toMatchObject({
+        title: 'Atom Show',
+        description: 'Episodes as Atom entries',
+        link: 'https://example.com/atom',
+      });
+      expect(feed.items).toEqual([
+        expect.objectContaining({
+          guid: 'tag:example.com,2024:ep-2',
+          title: 'Second',
+          description: 'Entry summary',
+          link: 'https://example.com/atom/2',
+          enclosure: { url: 'https://cdn.example.com/2.m4a', type: 'audio/mp4', length: undefined },
+        }),
+      ]);
+    });
+  });
+
+  describe('parseDuration', () => {
+    it.each([
+      ['3723', 3723],
+      ['62:03', 3723],
+      ['1:02:03', 3723],
+      ['01:02:03.6', 3724],
+      [' 45 ', 45],
+      ['1h 2m', undefined],
+      ['1:75', undefined],
+      [undefined, undefined],
+    ])('should parse %j as %j', (value, seconds) => {
+      expect(parser.parseDuration(value)).toBe(seconds);
+    });
+  });
+});
@@ -1,10 +1,13 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import axios from 'axios';
 import Parser from 'rss-parser';
+import { ConditionalFetchResult, FetchValidators } from './conditional-fetch';
 
 /**
  * RSS Parser
- * 
- * Parses RSS feeds and extracts episodes.
+ *
+ * Parses RSS 2.0 and Atom feeds, including iTunes and Podcasting 2.0 tags, and extracts
+ * episodes.
  */
 @Injectable()
 export class RSSParser {
@@ -12,9 +15,29 @@ export class RSSParser {
   private readonly parser: Parser;
 
   constructor() {
+    // Read as custom fields so they are found without an xmlns declaration on the feed
     this.parser = new Parser({
       customFields: {
-        item: ['itunes:duration', 'itunes:episode', 'itunes:season'],
+        feed: [
+          'subtitle',
+          ['itunes:author', 'itunesAuthor'],
+          ['itunes:summary', 'itunesSummary'],
+          ['itunes:image', 'itunesImage'],
+          ['itunes:explicit', 'itunesExplicit'],
+          ['itunes:category', 'itunesCategories', { keepArray: true }],
+        ] as any[],
+        item: [
+          'itunes:duration',
+          'itunes:episode',
+          'itunes:season',
+          ['itunes:author', 'itunesAuthor'],
+          ['itunes:summary', 'itunesSummary'],
+          ['itunes:image', 'itunesImage'],
+          ['itunes:explicit', 'itunesExplicit'],
+          ['podcast:transcript', 'podcastTranscripts', { keepArray: true }],
+          ['podcast:chapters', 'podcastChapters'],
+          ['link', 'links', { keepArray: true }],
+        ] as any[],
       },
     });
   }
@@ -25,31 +48,140 @@ export class RSSParser {
   async parseFeed(feedUrl: string): Promise<any> {
     try {
       const feed = await this.parser.parseURL(feedUrl);
+      return this.toFeed(feed);
+    } catch (error) {
+      this.logger.error(`Failed to parse RSS feed: ${feedUrl}`, error);
+      throw new BadRequestException(`Failed to parse RSS feed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fetch and parse RSS feed unless it is unchanged since the given validators
+   *
+   * Sends If-None-Match / If-Modified-Since; a 304 response yields notModified.
+   */
+  async fetchFeed(
+    feedUrl: string,
+    validators: FetchValidators = {},
+  ): Promise<ConditionalFetchResult<any>> {
+    try {
+      const response = await axios.get(feedUrl, {
+        responseType: 'text',
+        headers: {
+          ...(validators.etag && { 'If-None-Match': validators.etag }),
+          ...(validators.lastModified && { 'If-Modified-Since': validators.lastModified }),
+        },
+        validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+      });
+
+      if (response.status === 304) {
+        return { notModified: true, ...validators };
+      }
 
+      const feed = await this.parser.parseString(response.data);
       return {
-        title: feed.title,
-        description: feed.description,
-        link: feed.link,
-        items: feed.items.map((item) => ({
-          title: item.title,
-          description: item.contentSnippet || item.content || item.description,
-          link: item.link,
-          pubDate: item.pubDate,
-          guid: item.guid,
-          enclosure: item.enclosure,
-          itunes: {
-            duration: (item as any)['itunes:duration'],
-            episode: (item as any)['itunes:episode'],
-            season: (item as any)['itunes:season'],
-          },
-        })),
+        notModified: false,
+        data: this.toFeed(feed),
+        etag: response.headers['etag'],
+        lastModified: response.headers['last-modified'],
       };
     } catch (error) {
-      this.logger.error(`Failed to parse RSS feed: ${feedUrl}`, error);
-      throw new BadRequestException(`Failed to parse RSS feed: ${error.message}`);
+      this.logger.error(`Failed to fetch RSS feed: ${feedUrl}`, error);
+      throw new BadRequestException(`Failed to fetch RSS feed: ${error.message}`);
     }
   }
 
+  /**
+   * Map a parsed RSS or Atom feed to the ingest feed structure
+   */
+  private toFeed(feed: Parser.Output<any>): any {
+    const raw = feed as any;
+
+    return {
+      title: feed.title,
+      description: feed.description || raw.subtitle || raw.itunesSummary,
+      link: feed.link,
+      language: raw.language,
+      imageUrl: raw.itunesImage?.$?.href || feed.image?.url,
+      author: raw.itunesAuthor || raw.creator,
+      explicit: this.parseExplicit(raw.itunesExplicit),
+      categories: (raw.itunesCategories || [])
+        .map((category: any) => category.$?.text)
+        .filter(Boolean),
+      items: feed.items.map((item: any) => ({
+        title: item.title,
+        description: item.contentSnippet || item.content || item.summary || item.itunesSummary,
+        link: item.link,
+        pubDate: item.pubDate,
+        guid: item.guid || item.id, // Atom entries have an id instead
+        enclosure: this.toEnclosure(item),
+        duration: this.parseDuration(item['itunes:duration']),
+        imageUrl: item.itunesImage?.$?.href,
+        author: item.itunesAuthor || item.creator,
+        explicit: this.parseExplicit(item.itunesExplicit),
+        transcripts: (item.podcastTranscripts || [])
+          .map((transcript: any) => transcript.$)
+          .filter((attrs: any) => attrs?.url)
+          .map(({ url, type, language }: any) => ({ url, type, language })),
+        chapters: item.podcastChapters?.$?.url
+          ? { url: item.podcastChapters.$.url, type: item.podcastChapters.$.type }
+          : undefined,
+        itunes: {
+          duration: item['itunes:duration'],
+          episode: item['itunes:episode'],
+          season: item['itunes:season'],
+        },
+      })),
+    };
+  }
+
+  /**
+   * Enclosure of an RSS item, or the rel="enclosure" link of an Atom entry
+   */
+  private toEnclosure(item: any): { url: string; type?: string; length?: number } | undefined {
+    const attrs = item.enclosure?.url
+      ? { ...item.enclosure, href: item.enclosure.url }
+      : item.links?.find((link: any) => link?.$?.rel === 'enclosure')?.$;
+    if (!attrs?.href) return undefined;
+
+    const length = parseInt(attrs.length, 10);
+    return {
+      url: attrs.href,
+      type: attrs.type,
+      length: length > 0 ? length : undefined, // Feeds often put 0 when unknown
+    };
+  }
+
+  /**
+   * Parse an itunes:duration to seconds
+   *
+   * Accepts seconds ("3723"), "MM:SS" and "HH:MM:SS", with optional fractional seconds.
+   */
+  parseDuration(value: string | undefined): number | undefined {
+    const text = typeof value === 'string' ? value.trim() : '';
+
+    if (/^\d+(\.\d+)?$/.test(text)) {
+      return Math.round(parseFloat(text));
+    }
+
+    if (/^\d+(:[0-5]?\d){1,2}(\.\d+)?$/.test(text)) {
+      const seconds = text.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+      return Math.round(seconds);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Parse itunes:explicit ("yes"/"no", "true"/"false", "explicit"/"clean")
+   */
+  private parseExplicit(value: string | undefined): boolean | undefined {
+    const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (['yes', 'true', 'explicit'].includes(text)) return true;
+    if (['no', 'false', 'clean'].includes(text)) return false;
+    return undefined;
+  }
+
   /**
    * Extract episode number from RSS item
    */
@@ -0,0 +1,165 @@
+import { BadRequestException } from '@nestjs/common';
+import axios from 'axios';
+import { YouTubeParser } from './youtube.parser';
+import { YOUTUBE_CONFIG } from '../../config/env.constants';
+
+jest.mock('axios');
+
+describe('YouTubeParser', () => {
+  let parser: YouTubeParser;
+  const get = axios.get as jest.Mock;
+
+  const playlistItem = (videoId: string, position: number) => ({
+    snippet: {
+      title: `Video ${videoId}`,
+      position,
+      publishedAt: '2024-03-01T00:00:00Z',
+      thumbnails: { default: { url: `https://i.ytimg.com/${videoId}.jpg` } },
+    },
+    contentDetails: { videoId, videoPublishedAt: '2024-01-01T00:00:00Z' },
+  });
+
+  const page = (ids: string[], offset: number, nextPageToken?: string) => ({
+    status: 200,
+    data: {
+      etag: `etag-${offset}`,
+      nextPageToken,
+      items: ids.map((id, index) => playlistItem(id, offset + index)),
+    },
+  });
+
+  // Answers the videos endpoint with a duration for every requested ID but the missing ones
+  const videos =
+    (missing: string[] = []) =>
+    (url: string, config: any) => ({
+      status: 200,
+      data: {
+        items: config.params.id
+          .split(',')
+          .filter((id: string) => !missing.includes(id))
+          .map((id: string) => ({ id, contentDetails: { duration: 'PT1M30S' } })),
+      },
+    });
+
+  beforeEach(() => {
+    parser = new YouTubeParser();
+  });
+
+  afterEach(() => {
+    get.mockReset();
+  });
+
+  describe('parseSourceUrl', () => {
+    it.each([
+      ['https://www.youtube.com/watch?v=abc123&list=PL1', { kind: 'video', id: 'abc123' }],
+      ['https://youtu.be/abc123', { kind: 'video', id: 'abc123' }],
+      ['https://www.youtube.com/playlist?list=PL1&si=x', { kind: 'playlist', id: 'PL1' }],
+      ['https://www.youtube.com/channel/UC1/videos', { kind: 'channel', id: 'UC1' }],
+      ['https://www.youtube.com/user/lectures', { kind: 'user', id: 'lectures' }],
+      ['https://www.youtube.com/@lectures', { kind: 'handle', id: '@lectures' }],
+    ])('should classify %s', (url, ref) => {
+      expect(parser.parseSourceUrl(url)).toEqual(ref);
+    });
+
+    it('should reject other URLs', () => {
+      expect(() => parser.parseSourceUrl('https://vimeo.com/1')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('fetchPlaylistVideos', () => {
+    it('should follow page tokens and look up durations in batches of 50', async () => {
+      const firstPage = Array.from({ length: 50 }, (_, index) => `a${index}`);
+      get.mockImplementation((url: string, config: any) => {
+        if (url.endsWith('/videos')) return videos(['b1'])(url, config);
+        return config.params.pageToken === 'next'
+          ? page(['b0', 'b1', 'b2'], 50)
+          : page(firstPage, 0, 'next');
+      });
+
+      const result = await parser.fetchPlaylistVideos('PL1');
+
+      expect(get).toHaveBeenCalledWith(
+        `${YOUTUBE_CONFIG.API_BASE_URL}/playlistItems`,
+        expect.objectContaining({
+          params: expect.objectContaining({ playlistId: 'PL1', pageToken: 'next' }),
+        }),
+      );
+      const batches = get.mock.calls
+        .filter(([url]) => url.endsWith('/videos'))
+        .map(([, config]) => config.params.id.split(',').length);
+      expect(batches).toEqual([50, 3]);
+
+      expect(result.etag).toBe('etag-0');
+      expect(result.data).toHaveLength(52);
+      expect(result.data!.map((video) => video.videoId)).not.toContain('b1');
+      expect(result.data![51]).toEqual({
+        videoId: 'b2',
+        title: 'Video b2',
+        description: undefined,
+        thumbnailUrl: 'https://i.ytimg.com/b2.jpg',
+        publishedAt: '2024-01-01T00:00:00Z',
+        channelTitle: undefined,
+        position: 52,
+        duration: 90,
+      });
+    });
+
+    it('should stop paging at maxVideos', async () => {
+      get.mockImplementation((url: string, config: any) =>
+        url.endsWith('/videos') ? videos()(url, config) : page(['a', 'b'], 0, 'next'),
+      );
+
+      const result = await parser.fetchPlaylistVideos('PL1', 3);
+
+      expect(result.data).toHaveLength(3);
+      expect(get.mock.calls[1][1].params.maxResults).toBe(1);
+      expect(get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report an unchanged playlist without fetching further', async () => {
+      get.mockResolvedValue({ status: 304, data: '' });
+
+      const result = await parser.fetchPlaylistVideos('PL1', 50, 'etag-0');
+
+      expect(result).toEqual({ notModified: true, etag: 'etag-0' });
+      expect(get).toHaveBeenCalledTimes(1);
+      expect(get.mock.calls[0][1].headers).toEqual({ 'If-None-Match': 'etag-0' });
+    });
+  });
+
+  describe('fetchChannel', () => {
+    it('should look up a handle and return its uploads playlist', async () => {
+      get.mockResolvedValue({
+        status: 200,
+        data: {
+          items: [
+            {
+              id: 'UC1',
+              snippet: { title: 'Lectures', description: 'Talks' },
+              contentDetails: { relatedPlaylists: { uploads: 'UU1' } },
+            },
+          ],
+        },
+      });
+
+      const channel = await parser.fetchChannel({ kind: 'handle', id: '@lectures' });
+
+      expect(channel).toEqual({
+        id: 'UC1',
+        title: 'Lectures',
+        description: 'Talks',
+        thumbnailUrl: undefined,
+        uploadsPlaylistId: 'UU1',
+      });
+      expect(get.mock.calls[0][1].params).toMatchObject({ forHandle: '@lectures' });
+    });
+
+    it('should fail when the channel does not exist', async () => {
+      get.mockResolvedValue({ status: 200, data: { items: [] } });
+
+      await expect(parser.fetchChannel({ kind: 'user', id: 'nobody' })).rejects.toThrow(
+        'Channel not found',
+      );
+    });
+  });
+});
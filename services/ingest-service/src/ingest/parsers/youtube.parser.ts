@@ -1,11 +1,59 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
-import axios from 'axios';
+import axios, { AxiosResponse } from 'axios';
 import { YOUTUBE_CONFIG } from '../../config/env.constants';
+import { ConditionalFetchResult } from './conditional-fetch';
+
+// Most IDs the videos endpoint accepts per request
+const VIDEO_BATCH_SIZE = 50;
+
+/**
+ * What a YouTube URL points to
+ */
+export interface YouTubeSourceRef {
+  kind: 'video' | 'playlist' | 'channel' | 'user' | 'handle';
+  id: string; // Video, playlist or channel ID, username, or @handle
+}
+
+/**
+ * YouTube channel
+ */
+export interface YouTubeChannel {
+  id: string;
+  title: string;
+  description?: string;
+  thumbnailUrl?: string;
+  uploadsPlaylistId: string;
+}
+
+/**
+ * YouTube playlist
+ */
+export interface YouTubePlaylist {
+  id: string;
+  title: string;
+  description?: string;
+  thumbnailUrl?: string;
+  channelTitle?: string;
+}
+
+/**
+ * Video of a playlist
+ */
+export interface YouTubeVideo {
+  videoId: string;
+  title: string;
+  description?: string;
+  thumbnailUrl?: string;
+  publishedAt?: string;
+  channelTitle?: string;
+  position?: number;
+  duration?: number; // Seconds
+}
 
 /**
  * YouTube Parser
  * 
- * Fetches video metadata from YouTube.
+ * Fetches videos, playlists and channels from the YouTube Data API.
  */
 @Injectable()
 export class YouTubeParser {
@@ -36,12 +84,9 @@ export class YouTubeParser {
    */
   async fetchVideoMetadata(videoId: string): Promise<any> {
     try {
-      const response = await axios.get('https://www.googleapis.com/youtube/v3/videos', {
-        params: {
-          part: 'snippet,contentDetails,statistics',
-          id: videoId,
-          key: YOUTUBE_CONFIG.API_KEY,
-        },
+      const response = await this.get('/videos', {
+        part: 'snippet,contentDetails,statistics',
+        id: videoId,
       });
 
       if (!response.data.items || response.data.items.length === 0) {
@@ -53,7 +98,7 @@ export class YouTubeParser {
         id: video.id,
         title: video.snippet.title,
         description: video.snippet.description,
-        thumbnailUrl: video.snippet.thumbnails?.high?.url || video.snippet.thumbnails?.default?.url,
+        thumbnailUrl: this.thumbnailUrl(video.snippet),
         channelId: video.snippet.channelId,
         channelTitle: video.snippet.channelTitle,
         publishedAt: video.snippet.publishedAt,
@@ -68,48 +113,217 @@ export class YouTubeParser {
   }
 
   /**
-   * Fetch channel videos
+   * Tell what a YouTube URL points to
+   *
+   * Watch URLs are videos even when they carry a list parameter; only /playlist URLs are
+   * playlists.
    */
-  async fetchChannelVideos(channelId: string, maxResults: number = 50): Promise<any[]> {
-    try {
-      // First, get uploads playlist ID
-      const channelResponse = await axios.get('https://www.googleapis.com/youtube/v3/channels', {
-        params: {
-          part: 'contentDetails',
-          id: channelId,
-          key: YOUTUBE_CONFIG.API_KEY,
-        },
-      });
+  parseSourceUrl(url: string): YouTubeSourceRef {
+    const patterns: Array<[YouTubeSourceRef['kind'], RegExp]> = [
+      ['playlist', /youtube\.com\/playlist\?(?:.*&)?list=([^&\n#]+)/],
+      ['channel', /youtube\.com\/channel\/([^&\n?#/]+)/],
+      ['user', /youtube\.com\/user\/([^&\n?#/]+)/],
+      ['handle', /youtube\.com\/(@[^&\n?#/]+)/],
+      ['video', /(?:youtube\.com\/watch\?(?:.*&)?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/],
+    ];
 
-      if (!channelResponse.data.items || channelResponse.data.items.length === 0) {
-        throw new BadRequestException(`Channel not found: ${channelId}`);
+    for (const [kind, pattern] of patterns) {
+      const match = url.match(pattern);
+      if (match && match[1]) {
+        return { kind, id: decodeURIComponent(match[1]) };
       }
+    }
 
-      const uploadsPlaylistId = channelResponse.data.items[0].contentDetails.relatedPlaylists.uploads;
+    throw new BadRequestException('Invalid YouTube URL');
+  }
 
-      // Get videos from uploads playlist
-      const videosResponse = await axios.get('https://www.googleapis.com/youtube/v3/playlistItems', {
-        params: {
-          part: 'snippet,contentDetails',
-          playlistId: uploadsPlaylistId,
-          maxResults: Math.min(maxResults, YOUTUBE_CONFIG.MAX_RESULTS),
-          key: YOUTUBE_CONFIG.API_KEY,
-        },
-      });
+  /**
+   * Fetch a channel by ID, legacy username or @handle
+   */
+  async fetchChannel(ref: YouTubeSourceRef): Promise<YouTubeChannel> {
+    const lookup =
+      ref.kind === 'user'
+        ? { forUsername: ref.id }
+        : ref.kind === 'handle'
+          ? { forHandle: ref.id }
+          : { id: ref.id };
+
+    try {
+      const response = await this.get('/channels', { part: 'snippet,contentDetails', ...lookup });
+
+      const channel = response.data.items?.[0];
+      if (!channel) {
+        throw new BadRequestException(`Channel not found: ${ref.id}`);
+      }
 
-      return videosResponse.data.items.map((item: any) => ({
-        videoId: item.contentDetails.videoId,
-        title: item.snippet.title,
-        description: item.snippet.description,
-        thumbnailUrl: item.snippet.thumbnails?.high?.url || item.snippet.thumbnails?.default?.url,
-        publishedAt: item.snippet.publishedAt,
-      }));
+      return {
+        id: channel.id,
+        title: channel.snippet.title,
+        description: channel.snippet.description,
+        thumbnailUrl: this.thumbnailUrl(channel.snippet),
+        uploadsPlaylistId: channel.contentDetails.relatedPlaylists.uploads,
+      };
     } catch (error) {
-      this.logger.error(`Failed to fetch YouTube channel videos: ${channelId}`, error);
+      this.logger.error(`Failed to fetch YouTube channel: ${ref.id}`, error);
       throw new BadRequestException(`Failed to fetch YouTube channel: ${error.message}`);
     }
   }
 
+  /**
+   * Fetch a playlist
+   */
+  async fetchPlaylist(playlistId: string): Promise<YouTubePlaylist> {
+    try {
+      const response = await this.get('/playlists', { part: 'snippet', id: playlistId });
+
+      const playlist = response.data.items?.[0];
+      if (!playlist) {
+        throw new BadRequestException(`Playlist not found: ${playlistId}`);
+      }
+
+      return {
+        id: playlist.id,
+        title: playlist.snippet.title,
+        description: playlist.snippet.description,
+        thumbnailUrl: this.thumbnailUrl(playlist.snippet),
+        channelTitle: playlist.snippet.channelTitle,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to fetch YouTube playlist: ${playlistId}`, error);
+      throw new BadRequestException(`Failed to fetch YouTube playlist: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fetch the videos of a playlist, in playlist order, with their durations
+   *
+   * Pages through playlistItems up to maxVideos, then looks up durations in batches of 50.
+   * Private and deleted videos (which the videos endpoint does not return) are dropped.
+   * YouTube answers If-None-Match on the first page with 304 when the playlist is unchanged.
+   */
+  async fetchPlaylistVideos(
+    playlistId: string,
+    maxVideos: number = YOUTUBE_CONFIG.MAX_VIDEOS,
+    etag?: string,
+  ): Promise<ConditionalFetchResult<YouTubeVideo[]>> {
+    try {
+      const items: any[] = [];
+      let pageToken: string | undefined;
+      let firstPageETag: string | undefined;
+
+      do {
+        const response = await this.get(
+          '/playlistItems',
+          {
+            part: 'snippet,contentDetails',
+            playlistId,
+            maxResults: Math.min(maxVideos - items.length, YOUTUBE_CONFIG.MAX_RESULTS),
+            pageToken,
+          },
+          items.length === 0 && etag ? { 'If-None-Match': etag } : {},
+        );
+
+        if (response.status === 304) {
+          return { notModified: true, etag };
+        }
+        firstPageETag ??= response.data.etag;
+
+        items.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken;
+      } while (pageToken && items.length < maxVideos);
+      items.splice(maxVideos);
+
+      const details = await this.fetchVideoDetails(
+        items.map((item) => item.contentDetails.videoId),
+      );
+
+      return {
+        notModified: false,
+        etag: firstPageETag,
+        data: items
+          .filter((item) => details.has(item.contentDetails.videoId))
+          .map((item) => ({
+            videoId: item.contentDetails.videoId,
+            title: item.snippet.title,
+            description: item.snippet.description,
+            thumbnailUrl: this.thumbnailUrl(item.snippet),
+            publishedAt: item.contentDetails.videoPublishedAt || item.snippet.publishedAt,
+            channelTitle: item.snippet.channelTitle,
+            position: item.snippet.position,
+            duration: details.get(item.contentDetails.videoId),
+          })),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to fetch YouTube playlist videos: ${playlistId}`, error);
+      throw new BadRequestException(`Failed to fetch YouTube playlist: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fetch channel videos
+   */
+  async fetchChannelVideos(channelId: string, maxResults: number = 50): Promise<YouTubeVideo[]> {
+    const result = await this.fetchChannelVideosIfChanged(channelId, maxResults);
+    return result.data!;
+  }
+
+  /**
+   * Fetch the latest channel uploads unless they are unchanged since the given ETag
+   */
+  async fetchChannelVideosIfChanged(
+    channelId: string,
+    maxResults: number = 50,
+    etag?: string,
+  ): Promise<ConditionalFetchResult<YouTubeVideo[]>> {
+    const channel = await this.fetchChannel({ kind: 'channel', id: channelId });
+    return this.fetchPlaylistVideos(channel.uploadsPlaylistId, maxResults, etag);
+  }
+
+  /**
+   * Look up the durations of videos, 50 IDs per request
+   *
+   * @returns duration in seconds by video ID, for the videos that exist
+   */
+  private async fetchVideoDetails(videoIds: string[]): Promise<Map<string, number | undefined>> {
+    const durations = new Map<string, number | undefined>();
+
+    for (let i = 0; i < videoIds.length; i += VIDEO_BATCH_SIZE) {
+      const response = await this.get('/videos', {
+        part: 'contentDetails',
+        id: videoIds.slice(i, i + VIDEO_BATCH_SIZE).join(','),
+        maxResults: VIDEO_BATCH_SIZE,
+      });
+
+      for (const video of response.data.items || []) {
+        durations.set(video.id, this.parseDuration(video.contentDetails?.duration));
+      }
+    }
+
+    return durations;
+  }
+
+  /**
+   * GET a YouTube Data API resource
+   */
+  private async get(
+    resource: string,
+    params: Record<string, any>,
+    headers: Record<string, string> = {},
+  ): Promise<AxiosResponse> {
+    return axios.get(`${YOUTUBE_CONFIG.API_BASE_URL}${resource}`, {
+      params: { ...params, key: YOUTUBE_CONFIG.API_KEY },
+      headers,
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+    });
+  }
+
+  /**
+   * Best thumbnail of a snippet
+   */
+  private thumbnailUrl(snippet: any): string | undefined {
+    return snippet.thumbnails?.high?.url || snippet.thumbnails?.default?.url;
+  }
+
   /**
    * Parse ISO 8601 duration to seconds
    */
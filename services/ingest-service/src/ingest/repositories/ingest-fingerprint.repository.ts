@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { IngestFingerprint } from '../entities/ingest-fingerprint.entity';
+
+/**
+ * Ingest Fingerprint Repository
+ *
+ * Data access layer for the fingerprints of ingested episodes.
+ */
+@Injectable()
+export class IngestFingerprintRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Find the fingerprint of an item of a source
+   */
+  async findByGuid(sourceKey: string, guid: string): Promise<IngestFingerprint | null> {
+    const fingerprint = await this.prisma.ingestFingerprint.findUnique({
+      where: { sourceKey_guid: { sourceKey, guid } },
+    });
+
+    return fingerprint ? IngestFingerprint.fromPrisma(fingerprint) : null;
+  }
+
+  /**
+   * Find the oldest fingerprint with a canonical URL
+   */
+  async findByCanonicalUrl(canonicalUrl: string): Promise<IngestFingerprint | null> {
+    const fingerprint = await this.prisma.ingestFingerprint.findFirst({
+      where: { canonicalUrl },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return fingerprint ? IngestFingerprint.fromPrisma(fingerprint) : null;
+  }
+
+  /**
+   * Find fingerprints with a duration in a range, oldest first
+   */
+  async findByDuration(min: number, max: number, take: number): Promise<IngestFingerprint[]> {
+    const fingerprints = await this.prisma.ingestFingerprint.findMany({
+      where: { duration: { gte: min, lte: max } },
+      take,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return fingerprints.map(IngestFingerprint.fromPrisma);
+  }
+
+  /**
+   * Count the new versions recorded for a fingerprint
+   */
+  async countVersions(id: string): Promise<number> {
+    return await this.prisma.ingestFingerprint.count({
+      where: { versionOf: id },
+    });
+  }
+
+  /**
+   * Highest episode number ingested into a program
+   */
+  async maxEpisodeNumber(programId: string): Promise<number> {
+    const result = await this.prisma.ingestFingerprint.aggregate({
+      where: { programId },
+      _max: { episodeNumber: true },
+    });
+
+    return result._max.episodeNumber ?? 0;
+  }
+
+  /**
+   * Record the fingerprint of an item, keyed by source and GUID
+   */
+  async upsert(data: {
+    sourceKey: string;
+    guid: string;
+    canonicalUrl?: string;
+    title: string;
+    duration?: number;
+    programId: string;
+    episodeId: string;
+    episodeNumber: number;
+    versionOf?: string;
+  }): Promise<IngestFingerprint> {
+    const { sourceKey, guid, ...fields } = data;
+    const fingerprint = await this.prisma.ingestFingerprint.upsert({
+      where: { sourceKey_guid: { sourceKey, guid } },
+      create: data,
+      update: fields,
+    });
+
+    return IngestFingerprint.fromPrisma(fingerprint);
+  }
+}
@@ -0,0 +1,192 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SourceType } from '../entities/ingest-job.entity';
+import {
+  IngestSource,
+  IngestSourceItem,
+  IngestSourceStatus,
+} from '../entities/ingest-source.entity';
+
+/**
+ * Ingest Source Repository
+ *
+ * Data access layer for IngestSource entities and their synced items.
+ */
+@Injectable()
+export class IngestSourceRepository {
+  private readonly logger = new Logger(IngestSourceRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a new source
+   */
+  async create(data: {
+    sourceType: SourceType;
+    sourceUrl: string;
+    pollIntervalMinutes: number;
+    metadata?: Record<string, any>;
+  }): Promise<IngestSource> {
+    const prismaSource = await this.prisma.ingestSource.create({
+      data: {
+        sourceType: data.sourceType,
+        sourceUrl: data.sourceUrl,
+        pollIntervalMinutes: data.pollIntervalMinutes,
+        metadata: data.metadata,
+        status: IngestSourceStatus.ACTIVE,
+        nextPollAt: new Date(),
+      },
+    });
+
+    return IngestSource.fromPrisma(prismaSource);
+  }
+
+  /**
+   * Find source by ID
+   */
+  async findById(id: string): Promise<IngestSource | null> {
+    const prismaSource = await this.prisma.ingestSource.findUnique({
+      where: { id },
+    });
+
+    return prismaSource ? IngestSource.fromPrisma(prismaSource) : null;
+  }
+
+  /**
+   * Find source by URL
+   */
+  async findBySourceUrl(sourceUrl: string): Promise<IngestSource | null> {
+    const prismaSource = await this.prisma.ingestSource.findUnique({
+      where: { sourceUrl },
+    });
+
+    return prismaSource ? IngestSource.fromPrisma(prismaSource) : null;
+  }
+
+  /**
+   * Find all sources with pagination
+   */
+  async findAll(
+    status?: IngestSourceStatus,
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<{ sources: IngestSource[]; total: number }> {
+    const where: any = {};
+    if (status) {
+      where.status = status;
+    }
+
+    const [sources, total] = await Promise.all([
+      this.prisma.ingestSource.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.ingestSource.count({ where }),
+    ]);
+
+    return {
+      sources: sources.map(IngestSource.fromPrisma),
+      total,
+    };
+  }
+
+  /**
+   * Find ACTIVE sources due for a poll, most overdue first
+   */
+  async findDue(now: Date, take: number = 10): Promise<IngestSource[]> {
+    const sources = await this.prisma.ingestSource.findMany({
+      where: {
+        status: IngestSourceStatus.ACTIVE,
+        nextPollAt: { lte: now },
+      },
+      take,
+      orderBy: { nextPollAt: 'asc' },
+    });
+
+    return sources.map(IngestSource.fromPrisma);
+  }
+
+  /**
+   * Update source
+   *
+   * null clears an optional field.
+   */
+  async update(
+    id: string,
+    data: {
+      status?: IngestSourceStatus;
+      pollIntervalMinutes?: number;
+      nextPollAt?: Date;
+      lastPolledAt?: Date;
+      etag?: string | null;
+      lastModified?: string | null;
+      contentId?: string;
+      lastJobId?: string;
+      errorMessage?: string | null;
+    },
+  ): Promise<IngestSource> {
+    const prismaSource = await this.prisma.ingestSource.update({
+      where: { id },
+      data: {
+        ...(data.status !== undefined && { status: data.status }),
+        ...(data.pollIntervalMinutes !== undefined && {
+          pollIntervalMinutes: data.pollIntervalMinutes,
+        }),
+        ...(data.nextPollAt !== undefined && { nextPollAt: data.nextPollAt }),
+        ...(data.lastPolledAt !== undefined && { lastPolledAt: data.lastPolledAt }),
+        ...(data.etag !== undefined && { etag: data.etag }),
+        ...(data.lastModified !== undefined && { lastModified: data.lastModified }),
+        ...(data.contentId !== undefined && { contentId: data.contentId }),
+        ...(data.lastJobId !== undefined && { lastJobId: data.lastJobId }),
+        ...(data.errorMessage !== undefined && { errorMessage: data.errorMessage }),
+      },
+    });
+
+    return IngestSource.fromPrisma(prismaSource);
+  }
+
+  /**
+   * Delete source (its items are removed by the cascade)
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.ingestSource.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find all items synced from a source
+   */
+  async findItems(sourceId: string): Promise<IngestSourceItem[]> {
+    const items = await this.prisma.ingestSourceItem.findMany({
+      where: { sourceId },
+    });
+
+    return items.map(IngestSourceItem.fromPrisma);
+  }
+
+  /**
+   * Record a synced item, keyed by source and GUID
+   */
+  async upsertItem(data: {
+    sourceId: string;
+    guid: string;
+    fingerprint: string;
+    episodeNumber: number;
+    episodeId?: string;
+  }): Promise<IngestSourceItem> {
+    const item = await this.prisma.ingestSourceItem.upsert({
+      where: { sourceId_guid: { sourceId: data.sourceId, guid: data.guid } },
+      create: data,
+      update: {
+        fingerprint: data.fingerprint,
+        episodeNumber: data.episodeNumber,
+        episodeId: data.episodeId,
+      },
+    });
+
+    return IngestSourceItem.fromPrisma(item);
+  }
+}
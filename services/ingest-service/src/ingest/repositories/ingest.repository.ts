@@ -1,6 +1,31 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
-import { IngestJob, SourceType, IngestStatus } from '../entities/ingest-job.entity';
+import {
+  IngestJob,
+  SourceType,
+  IngestStatus,
+  IngestEpisodeResult,
+  IngestDuplicate,
+  IngestProgress,
+  DedupStrategy,
+} from '../entities/ingest-job.entity';
+
+/**
+ * Fields of an ingest job that are updated
+ */
+export interface IngestJobUpdate {
+  status?: IngestStatus;
+  contentId?: string;
+  metadata?: Record<string, any>;
+  results?: IngestEpisodeResult[];
+  duplicates?: IngestDuplicate[];
+  errorMessage?: string;
+  retryCount?: number;
+  nextAttemptAt?: Date;
+  progress?: IngestProgress;
+}
 
 /**
  * Ingest Repository
@@ -20,13 +45,18 @@ export class IngestRepository {
     sourceType: SourceType;
     sourceUrl: string;
     metadata?: Record<string, any>;
+    sourceId?: string;
+    status?: IngestStatus;
+    dedupStrategy?: DedupStrategy;
   }): Promise<IngestJob> {
     const prismaJob = await this.prisma.ingestJob.create({
       data: {
         sourceType: data.sourceType,
         sourceUrl: data.sourceUrl,
         metadata: data.metadata,
-        status: IngestStatus.PENDING,
+        sourceId: data.sourceId,
+        status: data.status || IngestStatus.PENDING,
+        dedupStrategy: data.dedupStrategy,
         retryCount: 0,
       },
     });
@@ -79,44 +109,121 @@ export class IngestRepository {
   }
 
   /**
-   * Find pending jobs
+   * Lease the next due job: a PENDING job past its nextAttemptAt, or a PROCESSING job whose
+   * lease expired (the worker running it died). Taking over an expired lease counts the
+   * dead worker's run as a failed attempt.
+   *
+   * The guarded updateMany makes the lease safe when several instances poll concurrently:
+   * only the instance whose update matched the row gets the job. A row lost to another
+   * instance no longer matches, so the next candidate is tried.
+   *
+   * @returns the leased job, or null if none is due
+   */
+  async leaseNext(leaseMs: number, now: Date = new Date()): Promise<IngestJob | null> {
+    for (;;) {
+      const next = await this.prisma.ingestJob.findFirst({
+        where: this.leasableWhere(now),
+        orderBy: { nextAttemptAt: 'asc' },
+        select: { id: true, leaseToken: true },
+      });
+
+      if (!next) {
+        return null;
+      }
+
+      const job = await this.tryLease(next, this.leasableWhere(now), leaseMs, now);
+      if (job) {
+        return job;
+      }
+      this.logger.debug(`Ingest job ${next.id} was leased by another instance`);
+    }
+  }
+
+  /**
+   * Lease a job now, regardless of its nextAttemptAt
+   *
+   * @returns the leased job, or null if it is neither PENDING nor abandoned by its worker
+   */
+  async lease(id: string, leaseMs: number, now: Date = new Date()): Promise<IngestJob | null> {
+    const job = await this.prisma.ingestJob.findUnique({
+      where: { id },
+      select: { id: true, leaseToken: true },
+    });
+
+    return job ? this.tryLease(job, this.leasableWhere(now, false), leaseMs, now) : null;
+  }
+
+  /**
+   * Write the outcome of a leased run, giving up the lease unless the job stays PROCESSING
+   *
+   * @returns the updated job, or null if the lease was lost (the job was cancelled, or
+   * taken over after its lease expired)
    */
-  async findPendingJobs(limit: number = 10): Promise<IngestJob[]> {
-    const jobs = await this.prisma.ingestJob.findMany({
-      where: {
-        status: IngestStatus.PENDING,
+  async release(id: string, leaseToken: string, data: IngestJobUpdate): Promise<IngestJob | null> {
+    const { count } = await this.prisma.ingestJob.updateMany({
+      where: { id, leaseToken, status: IngestStatus.PROCESSING },
+      data: {
+        ...this.toPrismaData(data),
+        ...(data.status !== IngestStatus.PROCESSING && { leaseToken: null, leaseExpiresAt: null }),
       },
-      take: limit,
-      orderBy: { createdAt: 'asc' },
     });
 
-    return jobs.map(IngestJob.fromPrisma);
+    return count === 1 ? this.findById(id) : null;
   }
 
   /**
-   * Update ingest job
+   * Record the progress of a job, as long as the lease is still held
+   *
+   * Each progress write renews the lease, so it only runs out once the worker stops.
+   *
+   * @returns whether the progress was recorded
    */
-  async update(
+  async updateProgress(
     id: string,
-    data: {
-      status?: IngestStatus;
-      contentId?: string;
-      metadata?: Record<string, any>;
-      errorMessage?: string;
-      retryCount?: number;
-    },
-  ): Promise<IngestJob> {
-    const prismaJob = await this.prisma.ingestJob.update({
-      where: { id },
+    leaseToken: string,
+    progress: IngestProgress,
+    leaseMs: number,
+    now: Date = new Date(),
+  ): Promise<boolean> {
+    const { count } = await this.prisma.ingestJob.updateMany({
+      where: { id, leaseToken, status: IngestStatus.PROCESSING },
+      data: {
+        progress: progress as unknown as Prisma.InputJsonValue,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs),
+      },
+    });
+
+    return count === 1;
+  }
+
+  /**
+   * Cancel a PENDING or PROCESSING job
+   *
+   * @returns whether the job was cancelled
+   */
+  async cancel(id: string, reason?: string): Promise<boolean> {
+    const { count } = await this.prisma.ingestJob.updateMany({
+      where: { id, status: { in: [IngestStatus.PENDING, IngestStatus.PROCESSING] } },
       data: {
-        ...(data.status !== undefined && { status: data.status }),
-        ...(data.contentId !== undefined && { contentId: data.contentId }),
-        ...(data.metadata !== undefined && { metadata: data.metadata }),
-        ...(data.errorMessage !== undefined && { errorMessage: data.errorMessage }),
-        ...(data.retryCount !== undefined && { retryCount: data.retryCount }),
+        status: IngestStatus.CANCELLED,
+        errorMessage: reason,
+        leaseToken: null,
+        leaseExpiresAt: null,
       },
     });
 
+    return count === 1;
+  }
+
+  /**
+   * Update ingest job
+   */
+  async update(id: string, data: IngestJobUpdate): Promise<IngestJob> {
+    const prismaJob = await this.prisma.ingestJob.update({
+      where: { id },
+      data: this.toPrismaData(data),
+    });
+
     return IngestJob.fromPrisma(prismaJob);
   }
 
@@ -137,4 +244,57 @@ export class IngestRepository {
       where: { status },
     });
   }
+
+  /**
+   * Jobs a worker may lease: PENDING ones (once due) and those whose lease expired
+   */
+  private leasableWhere(now: Date, dueOnly: boolean = true): any {
+    return {
+      OR: [
+        { status: IngestStatus.PENDING, ...(dueOnly && { nextAttemptAt: { lte: now } }) },
+        { status: IngestStatus.PROCESSING, leaseExpiresAt: { lt: now } },
+      ],
+    };
+  }
+
+  /**
+   * Take the lease of a job unless its status or lease changed since it was read
+   *
+   * Only PROCESSING jobs hold a lease token, so a job read with one is a takeover.
+   */
+  private async tryLease(
+    job: { id: string; leaseToken: string | null },
+    leasable: any,
+    leaseMs: number,
+    now: Date,
+  ): Promise<IngestJob | null> {
+    const { count } = await this.prisma.ingestJob.updateMany({
+      where: { id: job.id, leaseToken: job.leaseToken, ...leasable },
+      data: {
+        status: IngestStatus.PROCESSING,
+        leaseToken: randomUUID(),
+        leaseExpiresAt: new Date(now.getTime() + leaseMs),
+        ...(job.leaseToken !== null && { retryCount: { increment: 1 } }),
+      },
+    });
+
+    return count === 1 ? this.findById(job.id) : null;
+  }
+
+  /**
+   * Prisma data of a job update, leaving out fields that are not set
+   */
+  private toPrismaData(data: IngestJobUpdate): any {
+    return {
+      ...(data.status !== undefined && { status: data.status }),
+      ...(data.contentId !== undefined && { contentId: data.contentId }),
+      ...(data.metadata !== undefined && { metadata: data.metadata }),
+      ...(data.results !== undefined && { results: data.results }),
+      ...(data.duplicates !== undefined && { duplicates: data.duplicates }),
+      ...(data.errorMessage !== undefined && { errorMessage: data.errorMessage }),
+      ...(data.retryCount !== undefined && { retryCount: data.retryCount }),
+      ...(data.nextAttemptAt !== undefined && { nextAttemptAt: data.nextAttemptAt }),
+      ...(data.progress !== undefined && { progress: data.progress }),
+    };
+  }
 }
@@ -0,0 +1,239 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DedupStrategy } from '../entities/ingest-job.entity';
+import { WebhookEndpoint, WebhookDelivery } from '../entities/webhook.entity';
+import { ApiMapping } from '../parsers/api-mapping';
+
+/**
+ * Webhook Repository
+ *
+ * Data access layer for WebhookEndpoint entities and their deliveries.
+ */
+@Injectable()
+export class WebhookRepository {
+  private readonly logger = new Logger(WebhookRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a new endpoint
+   */
+  async createEndpoint(data: {
+    partner: string;
+    secret: string;
+    mapping?: ApiMapping;
+    dedupStrategy?: DedupStrategy;
+    metadata?: Record<string, any>;
+  }): Promise<WebhookEndpoint> {
+    const prismaEndpoint = await this.prisma.webhookEndpoint.create({
+      data: {
+        partner: data.partner,
+        secret: data.secret,
+        mapping: data.mapping as Prisma.InputJsonValue | undefined,
+        dedupStrategy: data.dedupStrategy,
+        metadata: data.metadata,
+      },
+    });
+
+    return WebhookEndpoint.fromPrisma(prismaEndpoint);
+  }
+
+  /**
+   * Find endpoint by ID
+   */
+  async findEndpointById(id: string): Promise<WebhookEndpoint | null> {
+    const prismaEndpoint = await this.prisma.webhookEndpoint.findUnique({
+      where: { id },
+    });
+
+    return prismaEndpoint ? WebhookEndpoint.fromPrisma(prismaEndpoint) : null;
+  }
+
+  /**
+   * Find endpoint by partner slug
+   */
+  async findEndpointByPartner(partner: string): Promise<WebhookEndpoint | null> {
+    const prismaEndpoint = await this.prisma.webhookEndpoint.findUnique({
+      where: { partner },
+    });
+
+    return prismaEndpoint ? WebhookEndpoint.fromPrisma(prismaEndpoint) : null;
+  }
+
+  /**
+   * Find all endpoints with pagination
+   */
+  async findEndpoints(
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<{ endpoints: WebhookEndpoint[]; total: number }> {
+    const [endpoints, total] = await Promise.all([
+      this.prisma.webhookEndpoint.findMany({
+        skip,
+        take,
+        orderBy: { partner: 'asc' },
+      }),
+      this.prisma.webhookEndpoint.count(),
+    ]);
+
+    return {
+      endpoints: endpoints.map(WebhookEndpoint.fromPrisma),
+      total,
+    };
+  }
+
+  /**
+   * Update endpoint
+   *
+   * null clears an optional field.
+   */
+  async updateEndpoint(
+    id: string,
+    data: {
+      enabled?: boolean;
+      secret?: string;
+      previousSecret?: string | null;
+      previousSecretExpiresAt?: Date | null;
+      mapping?: ApiMapping | null;
+      dedupStrategy?: DedupStrategy;
+      metadata?: Record<string, any>;
+    },
+  ): Promise<WebhookEndpoint> {
+    const prismaEndpoint = await this.prisma.webhookEndpoint.update({
+      where: { id },
+      data: {
+        ...(data.enabled !== undefined && { enabled: data.enabled }),
+        ...(data.secret !== undefined && { secret: data.secret }),
+        ...(data.previousSecret !== undefined && { previousSecret: data.previousSecret }),
+        ...(data.previousSecretExpiresAt !== undefined && {
+          previousSecretExpiresAt: data.previousSecretExpiresAt,
+        }),
+        ...(data.mapping !== undefined && {
+          mapping: (data.mapping as Prisma.InputJsonValue | null) ?? Prisma.DbNull,
+        }),
+        ...(data.dedupStrategy !== undefined && { dedupStrategy: data.dedupStrategy }),
+        ...(data.metadata !== undefined && { metadata: data.metadata }),
+      },
+    });
+
+    return WebhookEndpoint.fromPrisma(prismaEndpoint);
+  }
+
+  /**
+   * Delete endpoint (its deliveries are removed by the cascade)
+   */
+  async deleteEndpoint(id: string): Promise<void> {
+    await this.prisma.webhookEndpoint.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Store a delivery unless one with the same idempotency key exists
+   *
+   * A new delivery is stored claimed (queuedAt), so repeats wait for its job instead of
+   * queueing their own.
+   *
+   * @returns the stored delivery, and whether it was created by this call
+   */
+  async createDelivery(data: {
+    endpointId: string;
+    idempotencyKey: string;
+    rawBody: string;
+    queuedAt: Date;
+  }): Promise<{ delivery: WebhookDelivery; created: boolean }> {
+    // Concurrent deliveries with the same key race on the unique index, not on a lookup
+    const { count } = await this.prisma.webhookDelivery.createMany({
+      data: [data],
+      skipDuplicates: true,
+    });
+
+    const prismaDelivery = await this.prisma.webhookDelivery.findUniqueOrThrow({
+      where: {
+        endpointId_idempotencyKey: {
+          endpointId: data.endpointId,
+          idempotencyKey: data.idempotencyKey,
+        },
+      },
+    });
+
+    return { delivery: WebhookDelivery.fromPrisma(prismaDelivery), created: count === 1 };
+  }
+
+  /**
+   * Claim a delivery that has no job and is not being queued, to queue its job
+   *
+   * @returns false if another request holds the claim or the delivery already has a job
+   */
+  async claimDelivery(id: string, queuedAt: Date): Promise<boolean> {
+    const { count } = await this.prisma.webhookDelivery.updateMany({
+      where: { id, jobId: null, queuedAt: null },
+      data: { queuedAt },
+    });
+
+    return count === 1;
+  }
+
+  /**
+   * Give up the claim on a delivery whose job could not be queued
+   */
+  async releaseDelivery(id: string): Promise<void> {
+    await this.prisma.webhookDelivery.updateMany({
+      where: { id, jobId: null },
+      data: { queuedAt: null },
+    });
+  }
+
+  /**
+   * Find delivery by ID
+   */
+  async findDeliveryById(id: string): Promise<WebhookDelivery | null> {
+    const prismaDelivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id },
+    });
+
+    return prismaDelivery ? WebhookDelivery.fromPrisma(prismaDelivery) : null;
+  }
+
+  /**
+   * Find the deliveries of an endpoint, newest first
+   */
+  async findDeliveries(
+    endpointId: string,
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const where = { endpointId };
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { receivedAt: 'desc' },
+      }),
+      this.prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return {
+      deliveries: deliveries.map(WebhookDelivery.fromPrisma),
+      total,
+    };
+  }
+
+  /**
+   * Link a delivery to the ingest job run for it; a replay also counts up replayCount
+   */
+  async setDeliveryJob(id: string, jobId: string, replay: boolean): Promise<WebhookDelivery> {
+    const prismaDelivery = await this.prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        jobId,
+        ...(replay && { replayCount: { increment: 1 } }),
+      },
+    });
+
+    return WebhookDelivery.fromPrisma(prismaDelivery);
+  }
+}
@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DedupService } from './dedup.service';
+import { IngestFingerprintRepository } from '../repositories/ingest-fingerprint.repository';
+import { IngestFingerprint } from '../entities/ingest-fingerprint.entity';
+
+describe('DedupService', () => {
+  let service: DedupService;
+  let repository: jest.Mocked<IngestFingerprintRepository>;
+
+  const fingerprint = new IngestFingerprint({
+    id: 'fingerprint-1',
+    sourceKey: 'rss:https://example.com/feed.rss',
+    guid: 'guid-1',
+    canonicalUrl: 'youtube:abc123',
+    title: 'episode 12 the big interview',
+    duration: 3600,
+    programId: 'program-1',
+    episodeId: 'episode-1',
+    episodeNumber: 12,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DedupService,
+        {
+          provide: IngestFingerprintRepository,
+          useValue: {
+            findByGuid: jest.fn().mockResolvedValue(null),
+            findByCanonicalUrl: jest.fn().mockResolvedValue(null),
+            findByDuration: jest.fn().mockResolvedValue([]),
+            countVersions: jest.fn(),
+            maxEpisodeNumber: jest.fn(),
+            upsert: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DedupService>(DedupService);
+    repository = module.get(IngestFingerprintRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findDuplicate', () => {
+    it('should match the GUID within the same source first', async () => {
+      repository.findByGuid.mockResolvedValue(fingerprint);
+
+      const match = await service.findDuplicate(fingerprint.sourceKey, {
+        externalId: 'guid-1',
+        title: 'Episode 12',
+      });
+
+      expect(match).toEqual({ fingerprint, matchedBy: 'GUID' });
+      expect(repository.findByGuid).toHaveBeenCalledWith(fingerprint.sourceKey, 'guid-1');
+      expect(repository.findByCanonicalUrl).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['https://youtu.be/abc123', 'youtube:abc123'],
+      ['http://m.youtube.com/watch?v=abc123&feature=share', 'youtube:abc123'],
+      ['HTTP://WWW.Example.com/ep/12/?utm_source=feed&b=2&a=1#player', 'example.com/ep/12?a=1&b=2'],
+    ])('should match %s by its canonical URL', async (url, canonicalUrl) => {
+      repository.findByCanonicalUrl.mockResolvedValue(fingerprint);
+
+      const match = await service.findDuplicate('api:other', {
+        externalId: 'other-id',
+        title: 'Something else',
+        url,
+      });
+
+      expect(match?.matchedBy).toBe('URL');
+      expect(repository.findByCanonicalUrl).toHaveBeenCalledWith(canonicalUrl);
+    });
+
+    it('should match a similar title with a close duration', async () => {
+      repository.findByDuration.mockResolvedValue([fingerprint]);
+
+      const match = await service.findDuplicate('api:other', {
+        externalId: 'other-id',
+        title: 'Episode 12: The Big Interview!',
+        duration: 3603,
+      });
+
+      expect(match).toEqual({ fingerprint, matchedBy: 'TITLE_DURATION' });
+      expect(repository.findByDuration).toHaveBeenCalledWith(3598, 3608, 50);
+    });
+
+    it('should not match a different title with the same duration', async () => {
+      repository.findByDuration.mockResolvedValue([fingerprint]);
+
+      const match = await service.findDuplicate('api:other', {
+        externalId: 'other-id',
+        title: 'Episode 13: Listener questions',
+        duration: 3600,
+      });
+
+      expect(match).toBeNull();
+    });
+
+    it('should not match on title without a duration', async () => {
+      const match = await service.findDuplicate('api:other', {
+        externalId: 'other-id',
+        title: 'Episode 12: The Big Interview',
+      });
+
+      expect(match).toBeNull();
+      expect(repository.findByDuration).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('record', () => {
+    it('should store the normalized identity of the item', async () => {
+      await service.record(
+        'rss:https://example.com/feed.rss',
+        {
+          externalId: 'guid-2',
+          title: 'Épisode 2 — Café',
+          url: 'https://www.example.com/ep/2/',
+          duration: 1800,
+        },
+        { programId: 'program-1', episodeId: 'episode-2', episodeNumber: 2 },
+      );
+
+      expect(repository.upsert).toHaveBeenCalledWith({
+        sourceKey: 'rss:https://example.com/feed.rss',
+        guid: 'guid-2',
+        canonicalUrl: 'example.com/ep/2',
+        title: 'episode 2 cafe',
+        duration: 1800,
+        programId: 'program-1',
+        episodeId: 'episode-2',
+        episodeNumber: 2,
+        versionOf: undefined,
+      });
+    });
+  });
+});
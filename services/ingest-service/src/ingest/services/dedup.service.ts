@@ -0,0 +1,180 @@
+import { Injectable } from '@nestjs/common';
+import { IngestFingerprintRepository } from '../repositories/ingest-fingerprint.repository';
+import { IngestFingerprint } from '../entities/ingest-fingerprint.entity';
+import { IngestDuplicate } from '../entities/ingest-job.entity';
+import { NormalizedEpisode } from './ingest.service';
+import { DEDUP_CONFIG } from '../../config/env.constants';
+
+/**
+ * Already ingested content an item matched, and how
+ */
+export interface DuplicateMatch {
+  fingerprint: IngestFingerprint;
+  matchedBy: IngestDuplicate['matchedBy'];
+}
+
+// Query parameters that only track where a link was clicked
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|source)$/i;
+
+/**
+ * Dedup Service
+ *
+ * Keeps a fingerprint of every episode written to the CMS and matches incoming items
+ * against it, strongest key first:
+ * - GUID: same episode externalId under the same program externalId
+ * - URL: same canonical URL (YouTube links reduce to the video ID)
+ * - TITLE_DURATION: similar normalized title and a duration within the tolerance
+ */
+@Injectable()
+export class DedupService {
+  constructor(private readonly repository: IngestFingerprintRepository) {}
+
+  /**
+   * Find already ingested content matching an item
+   */
+  async findDuplicate(
+    sourceKey: string,
+    episode: NormalizedEpisode,
+  ): Promise<DuplicateMatch | null> {
+    const byGuid = await this.repository.findByGuid(sourceKey, episode.externalId);
+    if (byGuid) {
+      return { fingerprint: byGuid, matchedBy: 'GUID' };
+    }
+
+    const canonicalUrl = this.canonicalizeUrl(episode.url);
+    if (canonicalUrl) {
+      const byUrl = await this.repository.findByCanonicalUrl(canonicalUrl);
+      if (byUrl) {
+        return { fingerprint: byUrl, matchedBy: 'URL' };
+      }
+    }
+
+    // Titles alone are too often reused ("Trailer", "Bonus") to match without a duration
+    const title = this.normalizeTitle(episode.title);
+    if (episode.duration === undefined || !title) {
+      return null;
+    }
+
+    const candidates = await this.repository.findByDuration(
+      episode.duration - DEDUP_CONFIG.DURATION_TOLERANCE_SECONDS,
+      episode.duration + DEDUP_CONFIG.DURATION_TOLERANCE_SECONDS,
+      DEDUP_CONFIG.CANDIDATE_LIMIT,
+    );
+    const byTitle = candidates.find(
+      (candidate) => this.titleSimilarity(candidate.title, title) >= DEDUP_CONFIG.TITLE_SIMILARITY,
+    );
+
+    return byTitle ? { fingerprint: byTitle, matchedBy: 'TITLE_DURATION' } : null;
+  }
+
+  /**
+   * Record the fingerprint of an item written to (or matched in) the CMS
+   */
+  async record(
+    sourceKey: string,
+    episode: NormalizedEpisode,
+    target: { programId: string; episodeId: string; episodeNumber: number },
+    versionOf?: string,
+  ): Promise<void> {
+    await this.repository.upsert({
+      sourceKey,
+      guid: episode.externalId,
+      canonicalUrl: this.canonicalizeUrl(episode.url),
+      title: this.normalizeTitle(episode.title),
+      duration: episode.duration,
+      ...target,
+      versionOf,
+    });
+  }
+
+  /**
+   * Version number the next new version of a fingerprint gets (the original is 1)
+   */
+  async nextVersion(fingerprint: IngestFingerprint): Promise<number> {
+    return (await this.repository.countVersions(fingerprint.id)) + 2;
+  }
+
+  /**
+   * Highest episode number ingested into a program
+   */
+  async maxEpisodeNumber(programId: string): Promise<number> {
+    return await this.repository.maxEpisodeNumber(programId);
+  }
+
+  /**
+   * Reduce a URL to the form shared by its variants
+   *
+   * Scheme, "www.", fragments, tracking parameters, parameter order and trailing slashes
+   * are ignored.
+   */
+  private canonicalizeUrl(url?: string): string | undefined {
+    if (!url) {
+      return undefined;
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return undefined;
+    }
+
+    const host = parsed.hostname.toLowerCase().replace(/^(www|m)\./, '');
+    if (host === 'youtu.be' && parsed.pathname.length > 1) {
+      return `youtube:${parsed.pathname.slice(1)}`;
+    }
+    if (host === 'youtube.com' && parsed.searchParams.get('v')) {
+      return `youtube:${parsed.searchParams.get('v')}`;
+    }
+
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+    const path = parsed.pathname.replace(/\/+$/, '');
+
+    return `${host}${path}${query ? `?${query}` : ''}`;
+  }
+
+  /**
+   * Lowercase a title and strip accents, punctuation and extra whitespace
+   */
+  private normalizeTitle(title: string): string {
+    return title
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim();
+  }
+
+  /**
+   * Dice coefficient of the character bigrams of two normalized titles (0-1)
+   */
+  private titleSimilarity(a: string, b: string): number {
+    if (a === b) {
+      return 1;
+    }
+    if (a.length < 2 || b.length < 2) {
+      return 0;
+    }
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+      const bigram = a.slice(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+
+    let shared = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+      const bigram = b.slice(i, i + 2);
+      const count = bigrams.get(bigram) || 0;
+      if (count > 0) {
+        bigrams.set(bigram, count - 1);
+        shared++;
+      }
+    }
+
+    return (2 * shared) / (a.length + b.length - 2);
+  }
+}
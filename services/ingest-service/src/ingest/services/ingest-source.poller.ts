@@ -0,0 +1,41 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { IngestSourceService } from './ingest-source.service';
+
+/**
+ * Ingest Source Poller
+ *
+ * Scheduled task that syncs subscriptions whose poll is due.
+ */
+@Injectable()
+export class IngestSourcePoller {
+  private readonly logger = new Logger(IngestSourcePoller.name);
+  private running = false;
+
+  constructor(private readonly ingestSourceService: IngestSourceService) {}
+
+  /**
+   * Poll due sources every minute
+   *
+   * A run that takes longer than a minute is not overlapped by the next one.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async pollDueSources() {
+    if (this.running) {
+      this.logger.debug('Previous source poll still running, skipping');
+      return;
+    }
+
+    this.running = true;
+    try {
+      const polled = await this.ingestSourceService.runPolls();
+      if (polled > 0) {
+        this.logger.log(`Polled ${polled} ingest sources`);
+      }
+    } catch (error) {
+      this.logger.error('Error polling ingest sources:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
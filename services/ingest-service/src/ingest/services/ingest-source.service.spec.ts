@@ -0,0 +1,314 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { IngestSourceService } from './ingest-source.service';
+import { IngestService, NormalizedContent } from './ingest.service';
+import { IngestSourceRepository } from '../repositories/ingest-source.repository';
+import { IngestRepository } from '../repositories/ingest.repository';
+import { RSSParser } from '../parsers/rss.parser';
+import { YouTubeParser } from '../parsers/youtube.parser';
+import { KafkaService } from '../../kafka/kafka.service';
+import { IngestSource, IngestSourceStatus } from '../entities/ingest-source.entity';
+import { IngestStatus, SourceType } from '../entities/ingest-job.entity';
+import { ContentType } from '@mediamesh/shared';
+
+describe('IngestSourceService', () => {
+  let service: IngestSourceService;
+  let repository: jest.Mocked<IngestSourceRepository>;
+  let ingestRepository: jest.Mocked<IngestRepository>;
+  let ingestService: jest.Mocked<IngestService>;
+  let rssParser: jest.Mocked<RSSParser>;
+  let kafkaService: jest.Mocked<KafkaService>;
+
+  const now = new Date('2024-06-01T12:00:00Z');
+
+  const mockSource = new IngestSource({
+    id: '550e8400-e29b-41d4-a716-446655440101',
+    sourceType: SourceType.RSS,
+    sourceUrl: 'https://example.com/feed.rss',
+    status: IngestSourceStatus.ACTIVE,
+    pollIntervalMinutes: 60,
+    nextPollAt: now,
+    etag: '"v1"',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  const content: NormalizedContent = {
+    externalId: 'rss:https://example.com/feed.rss',
+    title: 'Test Podcast',
+    contentType: ContentType.PROGRAM,
+    episodes: [
+      {
+        externalId: 'guid-3',
+        title: 'Episode 3',
+        episodeNumber: 1,
+        publishedAt: new Date('2024-05-03'),
+      },
+      {
+        externalId: 'guid-2',
+        title: 'Episode 2 (edited)',
+        episodeNumber: 2,
+        publishedAt: new Date('2024-05-02'),
+      },
+      {
+        externalId: 'guid-1',
+        title: 'Episode 1',
+        episodeNumber: 3,
+        publishedAt: new Date('2024-05-01'),
+      },
+    ],
+  };
+
+  const syncedResults = (synced: NormalizedContent) =>
+    Promise.resolve({
+      programId: 'program-1',
+      results: synced.episodes!.map((episode) => ({
+        externalId: episode.externalId,
+        title: episode.title,
+        episodeId: `episode-${episode.externalId}`,
+      })),
+      duplicates: [],
+    });
+
+  /**
+   * Run a first sync of the given items and return them as the source now knows them
+   */
+  const recordItems = async (episodes: NormalizedContent['episodes']) => {
+    ingestService.normalizeRSSFeed.mockReturnValueOnce({ ...content, episodes });
+    repository.findItems.mockResolvedValueOnce([]);
+    await service.syncSource(mockSource, now);
+
+    const items = repository.upsertItem.mock.calls.map(([item]) => ({
+      ...item,
+      id: `item-${item.guid}`,
+      createdAt: now,
+      updatedAt: now,
+    }));
+    jest.clearAllMocks();
+    return items;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IngestSourceService,
+        {
+          provide: IngestSourceRepository,
+          useValue: {
+            create: jest.fn(),
+            findById: jest.fn(),
+            findBySourceUrl: jest.fn(),
+            findAll: jest.fn(),
+            findDue: jest.fn(),
+            update: jest
+              .fn()
+              .mockImplementation((id, data) => Promise.resolve({ ...mockSource, ...data })),
+            delete: jest.fn(),
+            findItems: jest.fn(),
+            upsertItem: jest.fn(),
+          },
+        },
+        {
+          provide: IngestRepository,
+          useValue: {
+            create: jest.fn().mockResolvedValue({ id: 'job-1', retryCount: 0 }),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: IngestService,
+          useValue: {
+            normalizeRSSFeed: jest.fn().mockReturnValue(content),
+            normalizeChannelVideos: jest.fn(),
+            syncToCms: jest.fn().mockImplementation(syncedResults),
+          },
+        },
+        {
+          provide: RSSParser,
+          useValue: {
+            fetchFeed: jest.fn().mockResolvedValue({
+              notModified: false,
+              data: { title: 'Test Podcast', items: [] },
+              etag: '"v2"',
+            }),
+          },
+        },
+        {
+          provide: YouTubeParser,
+          useValue: {
+            extractVideoId: jest.fn(),
+            fetchChannelVideosIfChanged: jest.fn(),
+          },
+        },
+        {
+          provide: KafkaService,
+          useValue: {
+            emitIngestProgress: jest.fn(),
+            emitIngestCompleted: jest.fn(),
+            emitIngestFailed: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<IngestSourceService>(IngestSourceService);
+    repository = module.get(IngestSourceRepository);
+    ingestRepository = module.get(IngestRepository);
+    ingestService = module.get(IngestService);
+    rssParser = module.get(RSSParser);
+    kafkaService = module.get(KafkaService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should reject a URL that is already subscribed', async () => {
+      repository.findBySourceUrl.mockResolvedValue(mockSource);
+
+      await expect(service.create(SourceType.RSS, mockSource.sourceUrl)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should only subscribe to YouTube channels', async () => {
+      await expect(
+        service.create(SourceType.YOUTUBE, 'https://www.youtube.com/watch?v=abc123'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('pause and resume', () => {
+    it('should pause an active source', async () => {
+      repository.findById.mockResolvedValue(mockSource);
+
+      const result = await service.pause(mockSource.id);
+
+      expect(result.status).toBe(IngestSourceStatus.PAUSED);
+    });
+
+    it('should make a resumed source due right away', async () => {
+      repository.findById.mockResolvedValue({
+        ...mockSource,
+        status: IngestSourceStatus.PAUSED,
+      } as IngestSource);
+
+      await service.resume(mockSource.id);
+
+      expect(repository.update).toHaveBeenCalledWith(mockSource.id, {
+        status: IngestSourceStatus.ACTIVE,
+        nextPollAt: expect.any(Date),
+      });
+    });
+
+    it('should reject resuming an active source', async () => {
+      repository.findById.mockResolvedValue(mockSource);
+
+      await expect(service.resume(mockSource.id)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('syncSource', () => {
+    it('should only reschedule when the feed is not modified', async () => {
+      rssParser.fetchFeed.mockResolvedValue({ notModified: true });
+
+      await service.syncSource(mockSource, now);
+
+      expect(rssParser.fetchFeed).toHaveBeenCalledWith(mockSource.sourceUrl, {
+        etag: '"v1"',
+        lastModified: undefined,
+      });
+      expect(ingestRepository.create).not.toHaveBeenCalled();
+      expect(repository.update).toHaveBeenCalledWith(mockSource.id, {
+        lastPolledAt: now,
+        nextPollAt: new Date('2024-06-01T13:00:00Z'),
+        errorMessage: null,
+      });
+      expect(kafkaService.emitIngestProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ sourceId: mockSource.id, stage: 'not-modified' }),
+      );
+    });
+
+    it('should sync only new and changed items', async () => {
+      const known = await recordItems([
+        content.episodes![2],
+        { ...content.episodes![1], title: 'Episode 2' },
+      ]);
+      repository.findItems.mockResolvedValue(known);
+
+      const result = await service.syncSource(mockSource, now);
+
+      const synced = ingestService.syncToCms.mock.calls[0][0].episodes!;
+      expect(synced.map((episode) => [episode.externalId, episode.episodeNumber])).toEqual([
+        ['guid-2', 2],
+        ['guid-3', 3],
+      ]);
+      expect(ingestRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ sourceId: mockSource.id, status: IngestStatus.PROCESSING }),
+      );
+      expect(repository.upsertItem).toHaveBeenCalledTimes(2);
+      expect(ingestRepository.update).toHaveBeenCalledWith(
+        'job-1',
+        expect.objectContaining({ status: IngestStatus.COMPLETED, contentId: 'program-1' }),
+      );
+      expect(result).toMatchObject({ etag: '"v2"', contentId: 'program-1', lastJobId: 'job-1' });
+    });
+
+    it('should not create a job when nothing changed', async () => {
+      const known = await recordItems(content.episodes);
+      repository.findItems.mockResolvedValue(known);
+
+      await service.syncSource(mockSource, now);
+
+      expect(ingestRepository.create).not.toHaveBeenCalled();
+      expect(ingestService.syncToCms).not.toHaveBeenCalled();
+      expect(repository.update).toHaveBeenCalledWith(
+        mockSource.id,
+        expect.objectContaining({ etag: '"v2"' }),
+      );
+    });
+
+    it('should drop the validators when some items fail', async () => {
+      repository.findItems.mockResolvedValue([]);
+      ingestService.syncToCms.mockResolvedValue({
+        programId: 'program-1',
+        results: [
+          { externalId: 'guid-1', title: 'Episode 1', episodeId: 'episode-1' },
+          { externalId: 'guid-2', title: 'Episode 2 (edited)', error: 'CMS unavailable' },
+          { externalId: 'guid-3', title: 'Episode 3', episodeId: 'episode-3' },
+        ],
+        duplicates: [],
+      });
+
+      const result = await service.syncSource(mockSource, now);
+
+      expect(repository.upsertItem).toHaveBeenCalledTimes(2);
+      expect(repository.upsertItem).not.toHaveBeenCalledWith(
+        expect.objectContaining({ guid: 'guid-2' }),
+      );
+      expect(ingestRepository.update).toHaveBeenCalledWith(
+        'job-1',
+        expect.objectContaining({ status: IngestStatus.PARTIALLY_COMPLETED }),
+      );
+      expect(repository.update).toHaveBeenCalledWith(
+        mockSource.id,
+        expect.objectContaining({ etag: null, lastModified: null }),
+      );
+      expect(result.errorMessage).toBe('1 of 3 episodes failed');
+    });
+
+    it('should record fetch errors on the source', async () => {
+      rssParser.fetchFeed.mockRejectedValue(new Error('Failed to fetch RSS feed'));
+
+      const result = await service.syncSource(mockSource, now);
+
+      expect(result.errorMessage).toBe('Failed to fetch RSS feed');
+      expect(result.nextPollAt).toEqual(new Date('2024-06-01T13:00:00Z'));
+      expect(kafkaService.emitIngestProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ stage: 'failed' }),
+      );
+    });
+  });
+});
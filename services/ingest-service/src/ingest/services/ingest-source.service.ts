@@ -0,0 +1,418 @@
+import { Injectable, Logger, BadRequestException, ConflictException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { IngestSourceRepository } from '../repositories/ingest-source.repository';
+import { IngestRepository } from '../repositories/ingest.repository';
+import {
+  IngestSource,
+  IngestSourceItem,
+  IngestSourceStatus,
+} from '../entities/ingest-source.entity';
+import { IngestJob, IngestStatus, SourceType, DedupStrategy } from '../entities/ingest-job.entity';
+import { IngestService, NormalizedContent, NormalizedEpisode } from './ingest.service';
+import { RSSParser } from '../parsers/rss.parser';
+import { YouTubeParser } from '../parsers/youtube.parser';
+import { ConditionalFetchResult } from '../parsers/conditional-fetch';
+import { KafkaService } from '../../kafka/kafka.service';
+import { throwIfNotFound } from '@mediamesh/shared';
+import { SUBSCRIPTION_CONFIG, YOUTUBE_CONFIG } from '../../config/env.constants';
+
+/**
+ * Ingest Source Service
+ *
+ * Business logic layer for feed subscriptions.
+ * Each sync run fetches the source conditionally and writes only new or changed items
+ * to the CMS, recorded as an IngestJob linked to the source.
+ */
+@Injectable()
+export class IngestSourceService {
+  private readonly logger = new Logger(IngestSourceService.name);
+
+  constructor(
+    private readonly repository: IngestSourceRepository,
+    private readonly ingestRepository: IngestRepository,
+    private readonly ingestService: IngestService,
+    private readonly rssParser: RSSParser,
+    private readonly youtubeParser: YouTubeParser,
+    private readonly kafkaService: KafkaService,
+  ) {}
+
+  /**
+   * Subscribe to an RSS feed or YouTube channel
+   */
+  async create(
+    sourceType: SourceType,
+    sourceUrl: string,
+    pollIntervalMinutes: number = SUBSCRIPTION_CONFIG.DEFAULT_POLL_INTERVAL_MINUTES,
+    metadata?: Record<string, any>,
+  ): Promise<IngestSource> {
+    this.logger.log(`Creating ingest source: ${sourceType} - ${sourceUrl}`);
+
+    if (sourceType === SourceType.YOUTUBE) {
+      if (!/youtube\.com\/channel\//.test(sourceUrl)) {
+        throw new BadRequestException('YouTube subscriptions need a channel URL');
+      }
+    } else if (sourceType !== SourceType.RSS) {
+      throw new BadRequestException(`Subscriptions are not supported for ${sourceType} sources`);
+    }
+    this.assertPollInterval(pollIntervalMinutes);
+
+    if (await this.repository.findBySourceUrl(sourceUrl)) {
+      throw new ConflictException(`A subscription for ${sourceUrl} already exists`);
+    }
+
+    const source = await this.repository.create({
+      sourceType,
+      sourceUrl,
+      pollIntervalMinutes,
+      metadata,
+    });
+
+    this.logger.log(`Ingest source created: ${source.id}`);
+    return source;
+  }
+
+  /**
+   * Find source by ID
+   */
+  async findOne(id: string): Promise<IngestSource> {
+    const source = await this.repository.findById(id);
+    throwIfNotFound(source, 'IngestSource', id);
+    return source;
+  }
+
+  /**
+   * Find all sources with pagination
+   */
+  async findAll(
+    status?: IngestSourceStatus,
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ sources: IngestSource[]; total: number; page: number; limit: number }> {
+    const skip = (page - 1) * limit;
+    const result = await this.repository.findAll(status, skip, limit);
+
+    return {
+      ...result,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Stop polling a source
+   */
+  async pause(id: string): Promise<IngestSource> {
+    this.logger.log(`Pausing ingest source: ${id}`);
+
+    const source = await this.findOne(id);
+    if (source.status === IngestSourceStatus.PAUSED) {
+      throw new BadRequestException('Source is already paused');
+    }
+
+    return await this.repository.update(id, { status: IngestSourceStatus.PAUSED });
+  }
+
+  /**
+   * Resume polling a source; the next poll is due right away
+   */
+  async resume(id: string): Promise<IngestSource> {
+    this.logger.log(`Resuming ingest source: ${id}`);
+
+    const source = await this.findOne(id);
+    if (source.status === IngestSourceStatus.ACTIVE) {
+      throw new BadRequestException('Source is not paused');
+    }
+
+    return await this.repository.update(id, {
+      status: IngestSourceStatus.ACTIVE,
+      nextPollAt: new Date(),
+    });
+  }
+
+  /**
+   * Sync a source now, whatever its schedule
+   */
+  async sync(id: string): Promise<IngestSource> {
+    const source = await this.findOne(id);
+    return await this.syncSource(source);
+  }
+
+  /**
+   * Delete source
+   *
+   * Content already written to the CMS is kept.
+   */
+  async delete(id: string): Promise<void> {
+    this.logger.log(`Deleting ingest source: ${id}`);
+    await this.findOne(id);
+    await this.repository.delete(id);
+  }
+
+  /**
+   * Sync every ACTIVE source whose poll is due
+   *
+   * @returns the number of sources polled
+   */
+  async runPolls(now: Date = new Date()): Promise<number> {
+    const sources = await this.repository.findDue(now, SUBSCRIPTION_CONFIG.BATCH_SIZE);
+
+    for (const source of sources) {
+      await this.syncSource(source, now);
+    }
+
+    return sources.length;
+  }
+
+  /**
+   * Run one incremental sync of a source
+   *
+   * Never throws: failures are recorded on the source (and its sync run) and retried
+   * at the next poll.
+   */
+  async syncSource(source: IngestSource, now: Date = new Date()): Promise<IngestSource> {
+    const nextPollAt = new Date(now.getTime() + source.pollIntervalMinutes * 60 * 1000);
+    let job: IngestJob | undefined;
+
+    await this.emitProgress(source, 'fetching', 0);
+
+    try {
+      const fetched = await this.fetchSource(source);
+      if (fetched.notModified) {
+        await this.emitProgress(source, 'not-modified', 100, 'Source unchanged since last sync');
+        return await this.repository.update(source.id, {
+          lastPolledAt: now,
+          nextPollAt,
+          errorMessage: null,
+        });
+      }
+
+      const content = fetched.data!;
+      const knownItems = await this.repository.findItems(source.id);
+      const changes = this.collectChanges(content.episodes || [], knownItems);
+
+      if (changes.length === 0) {
+        await this.emitProgress(source, 'up-to-date', 100, 'No new or changed items');
+        return await this.repository.update(source.id, {
+          lastPolledAt: now,
+          nextPollAt,
+          etag: fetched.etag ?? null,
+          lastModified: fetched.lastModified ?? null,
+          errorMessage: null,
+        });
+      }
+
+      job = await this.ingestRepository.create({
+        sourceType: source.sourceType,
+        sourceUrl: source.sourceUrl,
+        metadata: source.metadata,
+        sourceId: source.id,
+        status: IngestStatus.PROCESSING,
+        dedupStrategy: DedupStrategy.UPDATE,
+      });
+      await this.emitProgress(
+        source,
+        'syncing',
+        10,
+        `${changes.length} new or changed items`,
+        job.id,
+      );
+
+      // Changed items match their own earlier fingerprints, and the edits must be applied
+      const { programId, results, duplicates } = await this.ingestService.syncToCms(
+        { ...content, episodes: changes.map((change) => change.episode) },
+        DedupStrategy.UPDATE,
+      );
+
+      // Only synced items are recorded, so failed ones show up as new again next time
+      for (const [index, result] of results.entries()) {
+        if (result.error) {
+          continue;
+        }
+        await this.repository.upsertItem({
+          sourceId: source.id,
+          guid: result.externalId,
+          fingerprint: changes[index].fingerprint,
+          episodeNumber: changes[index].episode.episodeNumber!,
+          episodeId: result.episodeId,
+        });
+      }
+
+      const failedCount = results.filter((result) => result.error).length;
+      const errorMessage =
+        failedCount > 0 ? `${failedCount} of ${results.length} episodes failed` : undefined;
+
+      await this.ingestRepository.update(job.id, {
+        status: failedCount > 0 ? IngestStatus.PARTIALLY_COMPLETED : IngestStatus.COMPLETED,
+        contentId: programId,
+        results,
+        duplicates,
+        errorMessage,
+      });
+      await this.kafkaService.emitIngestCompleted({
+        jobId: job.id,
+        contentId: programId,
+        sourceType: source.sourceType,
+        sourceUrl: source.sourceUrl,
+      });
+      await this.emitProgress(
+        source,
+        'completed',
+        100,
+        `${results.length - failedCount} of ${results.length} items synced`,
+        job.id,
+        programId,
+      );
+
+      // A conditional fetch would skip the failed items, so keep validators only on full success
+      return await this.repository.update(source.id, {
+        lastPolledAt: now,
+        nextPollAt,
+        etag: failedCount > 0 ? null : (fetched.etag ?? null),
+        lastModified: failedCount > 0 ? null : (fetched.lastModified ?? null),
+        contentId: programId,
+        lastJobId: job.id,
+        errorMessage: errorMessage ?? null,
+      });
+    } catch (error: any) {
+      this.logger.error(`Sync of ingest source ${source.id} failed: ${error.message}`);
+
+      if (job) {
+        await this.ingestRepository.update(job.id, {
+          status: IngestStatus.FAILED,
+          errorMessage: error.message,
+        });
+        await this.kafkaService.emitIngestFailed({
+          jobId: job.id,
+          sourceType: source.sourceType,
+          sourceUrl: source.sourceUrl,
+          error: error.message,
+          retryCount: job.retryCount,
+        });
+      }
+      await this.emitProgress(source, 'failed', 100, error.message, job?.id);
+
+      return await this.repository.update(source.id, {
+        lastPolledAt: now,
+        nextPollAt,
+        errorMessage: error.message,
+      });
+    }
+  }
+
+  /**
+   * Fetch and normalize a source unless it is unchanged since the last sync
+   */
+  private async fetchSource(
+    source: IngestSource,
+  ): Promise<ConditionalFetchResult<NormalizedContent>> {
+    if (source.sourceType === SourceType.YOUTUBE) {
+      const channelId = this.youtubeParser.extractVideoId(source.sourceUrl);
+      const result = await this.youtubeParser.fetchChannelVideosIfChanged(
+        channelId,
+        YOUTUBE_CONFIG.MAX_RESULTS,
+        source.etag,
+      );
+      return {
+        ...result,
+        data: result.data
+          ? this.ingestService.normalizeChannelVideos(channelId, result.data, source.metadata)
+          : undefined,
+      };
+    }
+
+    const result = await this.rssParser.fetchFeed(source.sourceUrl, {
+      etag: source.etag,
+      lastModified: source.lastModified,
+    });
+    return {
+      ...result,
+      data: result.data
+        ? this.ingestService.normalizeRSSFeed(source.sourceUrl, result.data, source.metadata)
+        : undefined,
+    };
+  }
+
+  /**
+   * Pick the items that are new or whose fingerprint changed
+   *
+   * Known items keep their episode number; new items are numbered after the highest known
+   * number in publish order, so numbers stay stable as the feed grows.
+   */
+  private collectChanges(
+    episodes: NormalizedEpisode[],
+    knownItems: IngestSourceItem[],
+  ): Array<{ episode: NormalizedEpisode; fingerprint: string }> {
+    const known = new Map(knownItems.map((item) => [item.guid, item]));
+    let nextNumber = knownItems.reduce((max, item) => Math.max(max, item.episodeNumber), 0) + 1;
+
+    // Feeds list newest first; without dates that order is kept (reversed)
+    const ordered = [...episodes]
+      .reverse()
+      .sort((a, b) => (a.publishedAt?.getTime() ?? 0) - (b.publishedAt?.getTime() ?? 0));
+
+    const changes: Array<{ episode: NormalizedEpisode; fingerprint: string }> = [];
+    for (const episode of ordered) {
+      const fingerprint = this.fingerprint(episode);
+      const item = known.get(episode.externalId);
+      if (item && item.fingerprint === fingerprint) {
+        continue;
+      }
+
+      changes.push({
+        episode: { ...episode, episodeNumber: item ? item.episodeNumber : nextNumber++ },
+        fingerprint,
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Hash of the item fields written to the CMS
+   */
+  private fingerprint(episode: NormalizedEpisode): string {
+    return createHash('sha256')
+      .update(
+        JSON.stringify([
+          episode.title,
+          episode.description,
+          episode.url,
+          episode.duration,
+          episode.publishedAt?.toISOString(),
+        ]),
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Validate a poll interval
+   */
+  private assertPollInterval(pollIntervalMinutes: number): void {
+    if (pollIntervalMinutes < SUBSCRIPTION_CONFIG.MIN_POLL_INTERVAL_MINUTES) {
+      throw new BadRequestException(
+        `Poll interval must be at least ${SUBSCRIPTION_CONFIG.MIN_POLL_INTERVAL_MINUTES} minutes`,
+      );
+    }
+  }
+
+  /**
+   * Emit ingest.progress for a sync run
+   */
+  private async emitProgress(
+    source: IngestSource,
+    stage: string,
+    progress: number,
+    message?: string,
+    jobId?: string,
+    contentId?: string,
+  ): Promise<void> {
+    await this.kafkaService.emitIngestProgress({
+      sourceId: source.id,
+      jobId,
+      contentId: contentId ?? source.contentId,
+      stage,
+      progress,
+      message,
+    });
+  }
+}
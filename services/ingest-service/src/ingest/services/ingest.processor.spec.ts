@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { IngestProcessor } from './ingest.processor';
+import { IngestService } from './ingest.service';
+import { IngestRepository } from '../repositories/ingest.repository';
+import { INGEST_CONFIG } from '../../config/env.constants';
+
+describe('IngestProcessor', () => {
+  let processor: IngestProcessor;
+  let repository: jest.Mocked<IngestRepository>;
+  let ingestService: jest.Mocked<IngestService>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IngestProcessor,
+        {
+          provide: IngestRepository,
+          useValue: { leaseNext: jest.fn().mockResolvedValue(null) },
+        },
+        {
+          provide: IngestService,
+          useValue: { processJob: jest.fn().mockResolvedValue(undefined) },
+        },
+      ],
+    }).compile();
+
+    processor = module.get<IngestProcessor>(IngestProcessor);
+    repository = module.get(IngestRepository);
+    ingestService = module.get(IngestService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should process leased jobs until none are due', async () => {
+    repository.leaseNext
+      .mockResolvedValueOnce({ id: 'job-1' } as any)
+      .mockResolvedValueOnce({ id: 'job-2' } as any);
+
+    const processed = await processor.runPending();
+
+    expect(processed).toBe(2);
+    expect(repository.leaseNext).toHaveBeenCalledWith(INGEST_CONFIG.LEASE_MS);
+    expect(ingestService.processJob).toHaveBeenCalledWith('job-1', { id: 'job-1' });
+    expect(ingestService.processJob).toHaveBeenCalledWith('job-2', { id: 'job-2' });
+  });
+
+  it('should run no more than CONCURRENCY jobs at a time', async () => {
+    let next = 0;
+    repository.leaseNext.mockImplementation(() =>
+      Promise.resolve(next < 10 ? ({ id: `job-${next++}` } as any) : null),
+    );
+    let active = 0;
+    let peak = 0;
+    ingestService.processJob.mockImplementation(async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise((resolve) => setImmediate(resolve));
+      active--;
+      return undefined as any;
+    });
+
+    const processed = await processor.runPending();
+
+    expect(processed).toBe(Math.min(10, INGEST_CONFIG.BATCH_SIZE));
+    expect(peak).toBe(Math.min(INGEST_CONFIG.CONCURRENCY, INGEST_CONFIG.BATCH_SIZE));
+  });
+
+  it('should keep going after a job fails', async () => {
+    repository.leaseNext
+      .mockResolvedValueOnce({ id: 'job-1' } as any)
+      .mockResolvedValueOnce({ id: 'job-2' } as any);
+    ingestService.processJob.mockRejectedValueOnce(new Error('Feed is gone'));
+
+    const processed = await processor.runPending();
+
+    expect(processed).toBe(2);
+    expect(ingestService.processJob).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip a poll while the previous one is still running', async () => {
+    let release!: () => void;
+    repository.leaseNext.mockReturnValueOnce(
+      new Promise((resolve) => (release = () => resolve(null))),
+    );
+
+    const first = processor.processPendingJobs();
+    await processor.processPendingJobs();
+    release();
+    await first;
+
+    expect(repository.leaseNext).toHaveBeenCalledTimes(
+      Math.min(INGEST_CONFIG.CONCURRENCY, INGEST_CONFIG.BATCH_SIZE),
+    );
+  });
+});
@@ -2,17 +2,19 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { IngestService } from './ingest.service';
 import { IngestRepository } from '../repositories/ingest.repository';
-import { IngestStatus } from '../entities/ingest-job.entity';
 import { INGEST_CONFIG } from '../../config/env.constants';
 
 /**
  * Ingest Processor
- * 
+ *
  * Scheduled task processor for pending ingest jobs.
+ * Jobs are leased one at a time, so several instances can run side by side without
+ * processing the same job; a job whose instance died is leased again once its lease expires.
  */
 @Injectable()
 export class IngestProcessor {
   private readonly logger = new Logger(IngestProcessor.name);
+  private running = false;
 
   constructor(
     private readonly ingestService: IngestService,
@@ -21,31 +23,58 @@ export class IngestProcessor {
 
   /**
    * Process pending jobs every minute
+   *
+   * A run that takes longer than a minute is not overlapped by the next one.
    */
   @Cron(CronExpression.EVERY_MINUTE)
   async processPendingJobs() {
-    this.logger.debug('Processing pending ingest jobs...');
+    if (this.running) {
+      this.logger.debug('Previous ingest run still processing, skipping');
+      return;
+    }
 
+    this.running = true;
     try {
-      const pendingJobs = await this.repository.findPendingJobs(INGEST_CONFIG.BATCH_SIZE);
-
-      if (pendingJobs.length === 0) {
-        this.logger.debug('No pending jobs to process');
-        return;
+      const processed = await this.runPending();
+      if (processed > 0) {
+        this.logger.log(`Processed ${processed} ingest jobs`);
       }
+    } catch (error) {
+      this.logger.error('Error processing pending jobs:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Run up to BATCH_SIZE due jobs, CONCURRENCY at a time
+   *
+   * Each worker leases its next job only when it is free, so no lease runs down while the
+   * job waits for a worker.
+   *
+   * @returns number of jobs processed
+   */
+  async runPending(): Promise<number> {
+    let started = 0;
 
-      this.logger.log(`Processing ${pendingJobs.length} pending jobs`);
+    const worker = async () => {
+      while (started < INGEST_CONFIG.BATCH_SIZE) {
+        started++;
+        const job = await this.repository.leaseNext(INGEST_CONFIG.LEASE_MS);
+        if (!job) {
+          started--;
+          return;
+        }
 
-      // Process jobs in parallel (with concurrency limit)
-      const promises = pendingJobs.map((job) =>
-        this.ingestService.processJob(job.id).catch((error) => {
+        await this.ingestService.processJob(job.id, job).catch((error) => {
           this.logger.error(`Failed to process job ${job.id}:`, error);
-        }),
-      );
+        });
+      }
+    };
 
-      await Promise.all(promises);
-    } catch (error) {
-      this.logger.error('Error processing pending jobs:', error);
-    }
+    const workers = Math.max(1, Math.min(INGEST_CONFIG.CONCURRENCY, INGEST_CONFIG.BATCH_SIZE));
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    return started;
   }
 }
@@ -5,34 +5,85 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { IngestRepository } from '../repositories/ingest.repository';
-import { IngestJob, SourceType, IngestStatus } from '../entities/ingest-job.entity';
-import { YouTubeParser } from '../parsers/youtube.parser';
+import {
+  IngestJob,
+  SourceType,
+  IngestStatus,
+  IngestEpisodeResult,
+  IngestDuplicate,
+  IngestAssetResult,
+  IngestProgress,
+  DedupStrategy,
+} from '../entities/ingest-job.entity';
+import { YouTubeParser, YouTubePlaylist, YouTubeVideo } from '../parsers/youtube.parser';
 import { RSSParser } from '../parsers/rss.parser';
 import { APIParser } from '../parsers/api.parser';
+import { ApiMapping } from '../parsers/api-mapping';
+import { CmsClient, CmsProgram, CmsEpisode } from '../clients/cms.client';
+import { DedupService, DuplicateMatch } from './dedup.service';
 import { KafkaService } from '../../kafka/kafka.service';
-import { throwIfNotFound } from '@mediamesh/shared';
-import { INGEST_CONFIG } from '../../config/env.constants';
+import { throwIfNotFound, truncate } from '@mediamesh/shared';
+import { INGEST_CONFIG, DEDUP_CONFIG, ASSET_CONFIG } from '../../config/env.constants';
 import { ContentType } from '@mediamesh/shared';
 
 /**
  * Normalized content structure
  */
-interface NormalizedContent {
+export interface NormalizedContent {
+  externalId: string; // Matches the CMS program on re-ingest
   title: string;
   description?: string;
   contentType: ContentType;
+  category?: string; // metadata-service MetadataCategory
+  language?: string; // ISO 639-1
   metadata?: Record<string, any>;
-  episodes?: Array<{
-    title: string;
-    description?: string;
-    episodeNumber?: number;
-    duration?: number;
-    url?: string;
-    thumbnailUrl?: string;
-    publishedAt?: Date;
-  }>;
+  episodes?: NormalizedEpisode[];
 }
 
+/**
+ * Normalized episode structure
+ */
+export interface NormalizedEpisode {
+  externalId: string; // Matches the CMS episode on re-ingest
+  title: string;
+  description?: string;
+  episodeNumber?: number;
+  duration?: number;
+  url?: string;
+  thumbnailUrl?: string;
+  publishedAt?: Date;
+  category?: string;
+  language?: string;
+  media?: NormalizedMedia[];
+}
+
+/**
+ * File published with an episode: the enclosure, a transcript or a chapters file
+ */
+export interface NormalizedMedia {
+  kind: 'ENCLOSURE' | 'TRANSCRIPT' | 'CHAPTERS';
+  url: string;
+  mimeType?: string;
+  fileSize?: number; // Bytes
+  language?: string;
+}
+
+// Field limits of cms-service programs and episodes
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+// metadata-service categories of iTunes top-level categories; other feeds with enclosures
+// are PODCAST
+const ITUNES_CATEGORIES: Record<string, string> = {
+  News: 'NEWS',
+  Sports: 'SPORTS',
+  Education: 'EDUCATIONAL',
+  Music: 'MUSIC',
+  'TV & Film': 'TV_SHOW',
+  Comedy: 'ENTERTAINMENT',
+  Leisure: 'ENTERTAINMENT',
+};
+
 /**
  * Ingest Service
  * 
@@ -48,6 +99,8 @@ export class IngestService {
     private readonly youtubeParser: YouTubeParser,
     private readonly rssParser: RSSParser,
     private readonly apiParser: APIParser,
+    private readonly cmsClient: CmsClient,
+    private readonly dedupService: DedupService,
     private readonly kafkaService: KafkaService,
   ) {}
 
@@ -58,13 +111,20 @@ export class IngestService {
     sourceType: SourceType,
     sourceUrl: string,
     metadata?: Record<string, any>,
+    dedupStrategy: DedupStrategy = DEDUP_CONFIG.STRATEGY as DedupStrategy,
   ): Promise<IngestJob> {
     this.logger.log(`Creating ingest job: ${sourceType} - ${sourceUrl}`);
 
+    // Reject a broken mapping now rather than when the job runs
+    if (sourceType === SourceType.API && metadata?.mapping) {
+      this.apiParser.validateMapping(metadata.mapping);
+    }
+
     const job = await this.repository.create({
       sourceType,
       sourceUrl,
       metadata,
+      dedupStrategy,
     });
 
     this.logger.log(`Ingest job created: ${job.id}`);
@@ -73,77 +133,166 @@ export class IngestService {
 
   /**
    * Process ingest job
+   *
+   * The job runs under a lease so no other worker picks it up meanwhile: the processor
+   * passes jobs it leased, others are leased here. A failed run is retried after an
+   * exponential backoff and dead-lettered after MAX_RETRIES attempts; a run whose worker died
+   * counts as an attempt too. A job cancelled while running keeps the episodes it wrote but
+   * is not completed.
+   *
+   * Progress is recorded on the job and emitted as ingest.progress as the run goes through
+   * its stages: fetching, normalized, syncing (per episode), then completed or failed.
    */
-  async processJob(jobId: string): Promise<IngestJob> {
+  async processJob(jobId: string, leased?: IngestJob): Promise<IngestJob> {
     this.logger.log(`Processing ingest job: ${jobId}`);
 
-    const job = await this.repository.findById(jobId);
-    throwIfNotFound(job, 'IngestJob', jobId);
+    const job = leased ?? (await this.leaseJob(jobId));
+    const leaseToken = job.leaseToken!;
+    if (job.retryCount >= INGEST_CONFIG.MAX_RETRIES) {
+      return this.deadLetterAbandoned(job, leaseToken);
+    }
+
+    let progress = this.progress('fetching', 0, `Fetching ${job.sourceUrl}`);
 
-    // Update status to PROCESSING
-    let updatedJob = await this.repository.update(job!.id, {
-      status: IngestStatus.PROCESSING,
+    await this.kafkaService.emitIngestStarted({
+      jobId: job.id,
+      sourceType: job.sourceType,
+      sourceUrl: job.sourceUrl,
+      attempt: job.retryCount + 1,
     });
 
     try {
+      await this.reportProgress(job, leaseToken, progress);
+
       let normalizedContent: NormalizedContent;
-      let contentId: string;
 
       // Process based on source type
-      switch (job!.sourceType) {
+      switch (job.sourceType) {
         case SourceType.YOUTUBE:
-          normalizedContent = await this.processYouTube(job!.sourceUrl, job!.metadata);
+          normalizedContent = await this.processYouTube(job.sourceUrl, job.metadata);
           break;
         case SourceType.RSS:
-          normalizedContent = await this.processRSS(job!.sourceUrl, job!.metadata);
+          normalizedContent = await this.processRSS(job.sourceUrl, job.metadata);
           break;
         case SourceType.API:
-          normalizedContent = await this.processAPI(job!.sourceUrl, job!.metadata);
+          normalizedContent = await this.processAPI(job.sourceUrl, job.metadata);
+          break;
+        case SourceType.WEBHOOK:
+          normalizedContent = this.processWebhook(job.sourceUrl, job.metadata);
           break;
         default:
-          throw new BadRequestException(`Unsupported source type: ${job!.sourceType}`);
+          throw new BadRequestException(`Unsupported source type: ${String(job.sourceType)}`);
       }
 
-      // In a real implementation, you would create content in CMS service here
-      // For now, we'll generate a mock content ID
-      contentId = `content-${Date.now()}`;
+      const episodesTotal = normalizedContent.episodes?.length ?? 0;
+      progress = this.progress(
+        'normalized',
+        10,
+        `${episodesTotal} episodes found`,
+        0,
+        episodesTotal,
+      );
+      await this.reportProgress(job, leaseToken, progress);
+
+      // Create or update the program and its episodes in the CMS
+      const { programId, results, duplicates } = await this.syncToCms(
+        normalizedContent,
+        job.dedupStrategy,
+        async (done, total) => {
+          // Reported per whole percent, so large sources do not write once per episode
+          const percent = 10 + Math.floor((85 * done) / total);
+          if (percent === progress.percent && done < total) return;
 
-      // Update job with success
-      updatedJob = await this.repository.update(job!.id, {
-        status: IngestStatus.COMPLETED,
-        contentId,
+          progress = this.progress(
+            'syncing',
+            percent,
+            `${done} of ${total} episodes written`,
+            done,
+            total,
+          );
+          await this.reportProgress(job, leaseToken, progress);
+        },
+        // A file download can outlast the lease, so it is renewed before each one
+        async () => {
+          await this.repository.updateProgress(
+            job.id,
+            leaseToken,
+            progress,
+            INGEST_CONFIG.LEASE_MS,
+          );
+        },
+      );
+      const failedCount = results.filter((result) => result.error).length;
+      progress = this.progress(
+        'completed',
+        100,
+        `${results.length - failedCount} of ${results.length} episodes written`,
+        results.length - failedCount,
+        results.length,
+      );
+
+      // Update job with success (partial when some episodes failed)
+      const completedJob = await this.repository.release(job.id, leaseToken, {
+        status: failedCount > 0 ? IngestStatus.PARTIALLY_COMPLETED : IngestStatus.COMPLETED,
+        contentId: programId,
         metadata: {
-          ...job!.metadata,
+          ...job.metadata,
           normalizedContent,
         },
+        results,
+        duplicates,
+        ...(failedCount > 0 && {
+          errorMessage: `${failedCount} of ${results.length} episodes failed`,
+        }),
+        progress,
       });
+      if (!completedJob) {
+        return this.leaseLost(job.id);
+      }
+
+      await this.emitProgress(completedJob, progress, programId);
 
       // Emit ingest.completed event
       await this.kafkaService.emitIngestCompleted({
-        jobId: updatedJob.id,
-        contentId,
-        sourceType: updatedJob.sourceType,
-        sourceUrl: updatedJob.sourceUrl,
+        jobId: completedJob.id,
+        contentId: programId,
+        sourceType: completedJob.sourceType,
+        sourceUrl: completedJob.sourceUrl,
       });
 
-      this.logger.log(`Ingest job completed: ${jobId} -> ${contentId}`);
+      this.logger.log(`Ingest job completed: ${jobId} -> ${programId}`);
+      return completedJob;
     } catch (error: any) {
       this.logger.error(`Ingest job failed: ${jobId}`, error);
 
-      const retryCount = job!.retryCount + 1;
+      const retryCount = job.retryCount + 1;
       const shouldRetry = retryCount < INGEST_CONFIG.MAX_RETRIES;
+      progress = this.progress(
+        'failed',
+        progress.percent,
+        error.message,
+        progress.episodesDone,
+        progress.episodesTotal,
+      );
 
-      updatedJob = await this.repository.update(job!.id, {
-        status: shouldRetry ? IngestStatus.PENDING : IngestStatus.FAILED,
+      const failedJob = await this.repository.release(job.id, leaseToken, {
+        status: shouldRetry ? IngestStatus.PENDING : IngestStatus.DEAD_LETTER,
         errorMessage: error.message,
         retryCount,
+        ...(shouldRetry && { nextAttemptAt: this.nextAttemptAt(retryCount) }),
+        progress,
       });
+      if (!failedJob) {
+        return this.leaseLost(job.id);
+      }
+
+      await this.emitProgress(failedJob, progress);
 
       // Emit ingest.failed event
       await this.kafkaService.emitIngestFailed({
-        jobId: updatedJob.id,
-        sourceType: updatedJob.sourceType,
-        sourceUrl: updatedJob.sourceUrl,
+        jobId: failedJob.id,
+        sourceType: failedJob.sourceType,
+        sourceUrl: failedJob.sourceUrl,
         error: error.message,
         retryCount,
       });
@@ -151,13 +300,156 @@ export class IngestService {
       if (!shouldRetry) {
         throw error;
       }
+      return failedJob;
+    }
+  }
+
+  /**
+   * Progress of a job
+   *
+   * Jobs that never reported progress are at 0%, or 100% once completed.
+   */
+  async getProgress(id: string): Promise<{ jobId: string; status: IngestStatus } & IngestProgress> {
+    const job = await this.findOne(id);
+    const completed = [IngestStatus.COMPLETED, IngestStatus.PARTIALLY_COMPLETED].includes(
+      job.status,
+    );
+
+    return {
+      jobId: job.id,
+      status: job.status,
+      stage: job.progress?.stage ?? job.status.toLowerCase(),
+      percent: job.progress?.percent ?? (completed ? 100 : 0),
+      message: job.progress?.message,
+      episodesDone: job.progress?.episodesDone,
+      episodesTotal: job.progress?.episodesTotal,
+      updatedAt: job.progress?.updatedAt ?? job.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Progress as of now
+   */
+  private progress(
+    stage: string,
+    percent: number,
+    message?: string,
+    episodesDone?: number,
+    episodesTotal?: number,
+  ): IngestProgress {
+    return {
+      stage,
+      percent,
+      message,
+      episodesDone,
+      episodesTotal,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Record the progress of a running job and emit ingest.progress
+   *
+   * Nothing is emitted once the job was cancelled or taken over.
+   */
+  private async reportProgress(
+    job: IngestJob,
+    leaseToken: string,
+    progress: IngestProgress,
+  ): Promise<void> {
+    if (
+      await this.repository.updateProgress(job.id, leaseToken, progress, INGEST_CONFIG.LEASE_MS)
+    ) {
+      await this.emitProgress(job, progress);
+    }
+  }
+
+  /**
+   * Emit ingest.progress for a job
+   */
+  private async emitProgress(
+    job: IngestJob,
+    progress: IngestProgress,
+    contentId?: string,
+  ): Promise<void> {
+    await this.kafkaService.emitIngestProgress({
+      jobId: job.id,
+      contentId: contentId ?? job.contentId,
+      stage: progress.stage,
+      progress: progress.percent,
+      message: progress.message,
+      episodesDone: progress.episodesDone,
+      episodesTotal: progress.episodesTotal,
+    });
+  }
+
+  /**
+   * Lease a job for processing outside the processor
+   */
+  private async leaseJob(jobId: string): Promise<IngestJob> {
+    const job = await this.findOne(jobId);
+
+    const leased = await this.repository.lease(jobId, INGEST_CONFIG.LEASE_MS);
+    if (!leased) {
+      throw new BadRequestException(`Ingest job is ${job.status} and cannot be processed`);
+    }
+    return leased;
+  }
+
+  /**
+   * Dead-letter a job taken over from a dead worker when that run used up its last attempt
+   */
+  private async deadLetterAbandoned(job: IngestJob, leaseToken: string): Promise<IngestJob> {
+    const errorMessage = 'Worker stopped while running the job';
+    this.logger.error(`Ingest job ${job.id} dead-lettered: ${errorMessage}`);
+
+    const progress = this.progress('failed', job.progress?.percent ?? 0, errorMessage);
+    const failedJob = await this.repository.release(job.id, leaseToken, {
+      status: IngestStatus.DEAD_LETTER,
+      errorMessage,
+      progress,
+    });
+    if (!failedJob) {
+      return this.leaseLost(job.id);
     }
 
-    return updatedJob;
+    await this.emitProgress(failedJob, progress);
+    await this.kafkaService.emitIngestFailed({
+      jobId: failedJob.id,
+      sourceType: failedJob.sourceType,
+      sourceUrl: failedJob.sourceUrl,
+      error: errorMessage,
+      retryCount: failedJob.retryCount,
+    });
+
+    return failedJob;
+  }
+
+  /**
+   * The job as left by a cancel or by the worker that took it over
+   */
+  private async leaseLost(jobId: string): Promise<IngestJob> {
+    this.logger.warn(`Ingest job ${jobId} was cancelled or taken over while running`);
+    return this.findOne(jobId);
+  }
+
+  /**
+   * When a failed job is tried again: RETRY_DELAY_MS, doubled per failure, up to
+   * RETRY_MAX_DELAY_MS
+   */
+  private nextAttemptAt(retryCount: number, now: Date = new Date()): Date {
+    const delay = Math.min(
+      INGEST_CONFIG.RETRY_DELAY_MS * 2 ** (retryCount - 1),
+      INGEST_CONFIG.RETRY_MAX_DELAY_MS,
+    );
+    return new Date(now.getTime() + delay);
   }
 
   /**
    * Process YouTube source
+   *
+   * A video becomes a program on its own; a playlist or channel becomes a program whose
+   * episodes are its videos.
    */
   async processYouTube(
     sourceUrl: string,
@@ -166,10 +458,33 @@ export class IngestService {
     this.logger.log(`Processing YouTube source: ${sourceUrl}`);
 
     try {
-      const videoId = this.youtubeParser.extractVideoId(sourceUrl);
-      const videoData = await this.youtubeParser.fetchVideoMetadata(videoId);
+      const ref = this.youtubeParser.parseSourceUrl(sourceUrl);
+
+      if (ref.kind === 'playlist') {
+        const playlist = await this.youtubeParser.fetchPlaylist(ref.id);
+        const { data: videos } = await this.youtubeParser.fetchPlaylistVideos(ref.id);
+        return this.normalizePlaylistVideos(playlist, videos!, metadata);
+      }
+
+      if (ref.kind !== 'video') {
+        const channel = await this.youtubeParser.fetchChannel(ref);
+        const { data: videos } = await this.youtubeParser.fetchPlaylistVideos(
+          channel.uploadsPlaylistId,
+        );
+        // Uploads are listed newest first; numbering oldest first keeps numbers stable as
+        // the channel grows
+        return this.normalizeChannelVideos(channel.id, [...videos!].reverse(), {
+          title: channel.title,
+          description: channel.description,
+          thumbnailUrl: channel.thumbnailUrl,
+          ...metadata,
+        });
+      }
+
+      const videoData = await this.youtubeParser.fetchVideoMetadata(ref.id);
 
       return this.normalizeContent({
+        externalId: `youtube:${videoData.id}`,
         title: videoData.title,
         description: videoData.description,
         contentType: ContentType.PROGRAM,
@@ -204,32 +519,148 @@ export class IngestService {
 
     try {
       const feed = await this.rssParser.parseFeed(sourceUrl);
+      return this.normalizeRSSFeed(sourceUrl, feed, metadata);
+    } catch (error: any) {
+      this.logger.error(`Failed to process RSS source: ${sourceUrl}`, error);
+      throw new BadRequestException(`RSS processing failed: ${error.message}`);
+    }
+  }
 
-      const episodes = feed.items.map((item: any) => ({
-        title: item.title,
-        description: item.description,
-        episodeNumber: this.rssParser.extractEpisodeNumber(item),
-        url: item.enclosure?.url || item.link,
-        publishedAt: item.pubDate ? new Date(item.pubDate) : undefined,
-      }));
+  /**
+   * Normalize a parsed RSS feed
+   */
+  normalizeRSSFeed(
+    sourceUrl: string,
+    feed: any,
+    metadata?: Record<string, any>,
+  ): NormalizedContent {
+    const category =
+      ITUNES_CATEGORIES[feed.categories?.[0]] ||
+      (feed.items.some((item: any) => item.enclosure) ? 'PODCAST' : undefined);
+    // Metadata records take the primary language subtag ("en-US" -> "en")
+    const language = feed.language?.split(/[-_]/)[0].toLowerCase() || undefined;
 
-      return this.normalizeContent({
-        title: feed.title,
-        description: feed.description,
-        contentType: ContentType.PROGRAM,
-        metadata: {
-          ...metadata,
-          rss: {
-            link: feed.link,
-            itemCount: feed.items.length,
-          },
+    const episodes = feed.items.map((item: any) => ({
+      externalId: item.guid || item.link,
+      title: item.title,
+      description: item.description,
+      episodeNumber: this.rssParser.extractEpisodeNumber(item),
+      duration: item.duration,
+      url: item.enclosure?.url || item.link,
+      thumbnailUrl: item.imageUrl,
+      publishedAt: item.pubDate ? new Date(item.pubDate) : undefined,
+      category,
+      language,
+      media: this.rssMedia(item),
+    }));
+
+    return this.normalizeContent({
+      externalId: `rss:${sourceUrl}`,
+      title: feed.title,
+      description: feed.description,
+      contentType: ContentType.PROGRAM,
+      category,
+      language,
+      metadata: {
+        ...metadata,
+        rss: {
+          link: feed.link,
+          itemCount: feed.items.length,
+          author: feed.author,
+          explicit: feed.explicit,
+          categories: feed.categories,
         },
-        episodes,
+        thumbnailUrl: feed.imageUrl,
+      },
+      episodes,
+    });
+  }
+
+  /**
+   * Media records of a feed item: enclosure, transcripts and chapters
+   */
+  private rssMedia(item: any): NormalizedMedia[] {
+    const media: NormalizedMedia[] = [];
+
+    if (item.enclosure?.url) {
+      media.push({
+        kind: 'ENCLOSURE',
+        url: item.enclosure.url,
+        mimeType: item.enclosure.type,
+        fileSize: item.enclosure.length,
       });
-    } catch (error: any) {
-      this.logger.error(`Failed to process RSS source: ${sourceUrl}`, error);
-      throw new BadRequestException(`RSS processing failed: ${error.message}`);
     }
+    for (const transcript of item.transcripts || []) {
+      media.push({
+        kind: 'TRANSCRIPT',
+        url: transcript.url,
+        mimeType: transcript.type,
+        language: transcript.language,
+      });
+    }
+    if (item.chapters) {
+      media.push({ kind: 'CHAPTERS', url: item.chapters.url, mimeType: item.chapters.type });
+    }
+
+    return media;
+  }
+
+  /**
+   * Normalize the uploads of a YouTube channel
+   */
+  normalizeChannelVideos(
+    channelId: string,
+    videos: YouTubeVideo[],
+    metadata?: Record<string, any>,
+  ): NormalizedContent {
+    return this.normalizeContent({
+      externalId: `youtube:channel:${channelId}`,
+      title: metadata?.title || videos[0]?.channelTitle || channelId,
+      description: metadata?.description,
+      contentType: ContentType.PROGRAM,
+      metadata: {
+        ...metadata,
+        youtube: { channelId },
+      },
+      episodes: videos.map((video) => this.normalizeVideo(video)),
+    });
+  }
+
+  /**
+   * Normalize the videos of a YouTube playlist, in playlist order
+   */
+  normalizePlaylistVideos(
+    playlist: YouTubePlaylist,
+    videos: YouTubeVideo[],
+    metadata?: Record<string, any>,
+  ): NormalizedContent {
+    return this.normalizeContent({
+      externalId: `youtube:playlist:${playlist.id}`,
+      title: playlist.title,
+      description: playlist.description,
+      contentType: ContentType.PROGRAM,
+      metadata: {
+        ...metadata,
+        youtube: { playlistId: playlist.id, channelTitle: playlist.channelTitle },
+        thumbnailUrl: playlist.thumbnailUrl,
+      },
+      episodes: videos.map((video) => this.normalizeVideo(video)),
+    });
+  }
+
+  /**
+   * Episode fields of a YouTube video
+   */
+  private normalizeVideo(video: YouTubeVideo): Record<string, any> {
+    return {
+      externalId: video.videoId,
+      title: video.title,
+      description: video.description,
+      duration: video.duration,
+      url: `https://www.youtube.com/watch?v=${video.videoId}`,
+      thumbnailUrl: video.thumbnailUrl,
+      publishedAt: video.publishedAt,
+    };
   }
 
   /**
@@ -242,52 +673,110 @@ export class IngestService {
     this.logger.log(`Processing API source: ${sourceUrl}`);
 
     try {
-      const apiData = await this.apiParser.fetchFromAPI(sourceUrl, {
+      const options = {
         headers: metadata?.headers,
         params: metadata?.params,
         method: metadata?.method || 'GET',
         body: metadata?.body,
-      });
+      };
 
       // Normalize API response using mapping if provided
-      const normalized = metadata?.mapping
-        ? this.apiParser.normalizeAPIResponse(apiData, metadata.mapping)
-        : apiData;
-
-      return this.normalizeContent({
-        title: normalized.title || normalized.name || 'Untitled',
-        description: normalized.description,
-        contentType: ContentType.PROGRAM,
-        metadata: {
+      if (metadata?.mapping) {
+        const { normalized, pages } = await this.apiParser.fetchAndNormalize(
+          sourceUrl,
+          metadata.mapping,
+          options,
+        );
+        return this.normalizeAPIData(sourceUrl, normalized, {
           ...metadata,
-          api: {
-            raw: apiData,
-          },
-        },
-        episodes: normalized.episodes || normalized.items || [],
-      });
+          api: { raw: pages[0], pageCount: pages.length },
+        });
+      }
+
+      const apiData = await this.apiParser.fetchFromAPI(sourceUrl, options);
+      return this.normalizeAPIData(sourceUrl, apiData, { ...metadata, api: { raw: apiData } });
     } catch (error: any) {
       this.logger.error(`Failed to process API source: ${sourceUrl}`, error);
       throw new BadRequestException(`API processing failed: ${error.message}`);
     }
   }
 
+  /**
+   * Process a webhook delivery
+   *
+   * The pushed payload is normalized with the endpoint's mapping, like an API response.
+   * Content is keyed by partner, so two partners' IDs cannot collide.
+   */
+  processWebhook(sourceUrl: string, metadata?: Record<string, any>): NormalizedContent {
+    this.logger.log(`Processing webhook delivery: ${sourceUrl}`);
+
+    if (!metadata?.payload || !metadata.webhook?.partner) {
+      throw new BadRequestException('Webhook job has no delivery payload');
+    }
+
+    const { payload, mapping, ...rest } = metadata;
+    const normalized = this.apiParser.normalizeAPIResponse(payload, mapping);
+    return this.normalizeAPIData(sourceUrl, normalized, rest, `webhook:${rest.webhook.partner}`);
+  }
+
+  /**
+   * Show what a mapping makes of a sample API payload
+   *
+   * Pagination is not followed; the payload is treated as the only page.
+   */
+  previewMapping(
+    mapping: ApiMapping,
+    payload: any,
+    sourceUrl: string = 'preview',
+  ): NormalizedContent {
+    this.apiParser.validateMapping(mapping);
+    const normalized = this.apiParser.normalizeAPIResponse(payload, mapping);
+    return this.normalizeAPIData(sourceUrl, normalized);
+  }
+
+  /**
+   * Normalize mapped (or unmapped) API data
+   */
+  private normalizeAPIData(
+    sourceUrl: string,
+    normalized: any,
+    metadata?: Record<string, any>,
+    idPrefix: string = 'api',
+  ): NormalizedContent {
+    return this.normalizeContent({
+      externalId: `${idPrefix}:${normalized.id || sourceUrl}`,
+      title: normalized.title || normalized.name || 'Untitled',
+      description: normalized.description,
+      contentType: ContentType.PROGRAM,
+      metadata,
+      episodes: normalized.episodes || normalized.items || [],
+    });
+  }
+
   /**
    * Normalize content to internal format
    */
   normalizeContent(data: {
+    externalId: string;
     title: string;
     description?: string;
     contentType: ContentType;
+    category?: string;
+    language?: string;
     metadata?: Record<string, any>;
     episodes?: any[];
   }): NormalizedContent {
     return {
+      externalId: data.externalId,
       title: data.title,
       description: data.description,
       contentType: data.contentType,
+      category: data.category,
+      language: data.language,
       metadata: data.metadata,
       episodes: data.episodes?.map((ep, index) => ({
+        // Source IDs (RSS guid, API id) keep re-ingests stable; position is the last resort
+        externalId: String(ep.externalId || ep.guid || ep.id || ep.url || ep.link || index + 1),
         title: ep.title || `Episode ${index + 1}`,
         description: ep.description,
         episodeNumber: ep.episodeNumber || index + 1,
@@ -295,10 +784,306 @@ export class IngestService {
         url: ep.url || ep.link,
         thumbnailUrl: ep.thumbnailUrl || ep.thumbnail,
         publishedAt: ep.publishedAt ? new Date(ep.publishedAt) : undefined,
+        category: ep.category,
+        language: ep.language,
+        media: ep.media,
       })),
     };
   }
 
+  /**
+   * Create or update the program and its episodes in the CMS
+   *
+   * Content is matched on its source externalId, so re-running a job updates what it created
+   * before. Episodes matching content ingested by other jobs or sources are handled by the
+   * dedup strategy and reported as duplicates. A failing episode is recorded in its result
+   * without stopping the others; a failing program fails the job. onEpisode is called after
+   * each episode with the number written so far and the total.
+   *
+   * With downloadAssets in the content metadata (or INGEST_DOWNLOAD_ASSETS), the enclosures
+   * and artwork of written episodes are imported into media-service; a failed import is
+   * recorded in the episode's assets and does not fail the episode. onAsset is called before
+   * each import.
+   */
+  async syncToCms(
+    content: NormalizedContent,
+    strategy: DedupStrategy = DEDUP_CONFIG.STRATEGY as DedupStrategy,
+    onEpisode?: (done: number, total: number) => Promise<void>,
+    onAsset?: () => Promise<void>,
+  ): Promise<{ programId: string; results: IngestEpisodeResult[]; duplicates: IngestDuplicate[] }> {
+    const program = await this.upsertProgram(content);
+    const episodes = content.episodes || [];
+    const downloadAssets: boolean = content.metadata?.downloadAssets ?? ASSET_CONFIG.DOWNLOAD;
+
+    const results: IngestEpisodeResult[] = [];
+    const duplicates: IngestDuplicate[] = [];
+    for (const [index, episode] of episodes.entries()) {
+      const match = await this.dedupService.findDuplicate(content.externalId, episode);
+      const duplicateResult = match
+        ? await this.writeDuplicate(content.externalId, program.id, episode, match, strategy)
+        : null;
+
+      let result: IngestEpisodeResult;
+      if (match && duplicateResult) {
+        result = duplicateResult;
+        duplicates.push({
+          externalId: episode.externalId,
+          title: episode.title,
+          matchedBy: match.matchedBy,
+          existingProgramId: match.fingerprint.programId,
+          existingEpisodeId: match.fingerprint.episodeId,
+          action: strategy,
+          episodeId: duplicateResult.episodeId,
+        });
+      } else {
+        result = await this.upsertEpisode(program.id, episode);
+        if (result.episodeId) {
+          await this.dedupService.record(content.externalId, episode, {
+            programId: program.id,
+            episodeId: result.episodeId,
+            episodeNumber: episode.episodeNumber!,
+          });
+        }
+      }
+
+      if (downloadAssets && result.episodeId && result.action !== 'SKIPPED') {
+        const assets = await this.importAssets(result.episodeId, episode, onAsset);
+        if (assets.length > 0) {
+          result.assets = assets;
+        }
+      }
+      results.push(result);
+
+      await onEpisode?.(index + 1, episodes.length);
+    }
+
+    return { programId: program.id, results, duplicates };
+  }
+
+  /**
+   * Apply the dedup strategy to an episode matching already ingested content
+   *
+   * @returns the result, or null when the matched CMS episode no longer exists
+   */
+  private async writeDuplicate(
+    sourceKey: string,
+    programId: string,
+    episode: NormalizedEpisode,
+    match: DuplicateMatch,
+    strategy: DedupStrategy,
+  ): Promise<IngestEpisodeResult | null> {
+    const { fingerprint } = match;
+
+    if (strategy === DedupStrategy.SKIP) {
+      await this.dedupService.record(sourceKey, episode, {
+        programId: fingerprint.programId,
+        episodeId: fingerprint.episodeId,
+        episodeNumber: fingerprint.episodeNumber,
+      });
+      return {
+        externalId: episode.externalId,
+        title: episode.title,
+        episodeId: fingerprint.episodeId,
+        action: 'SKIPPED',
+      };
+    }
+
+    if (strategy === DedupStrategy.NEW_VERSION) {
+      // The same item again would clash with the original's externalId and episode number
+      const version = await this.dedupService.nextVersion(fingerprint);
+      const newVersion: NormalizedEpisode = {
+        ...episode,
+        externalId:
+          match.matchedBy === 'GUID' ? `${episode.externalId}#v${version}` : episode.externalId,
+        episodeNumber:
+          fingerprint.programId === programId
+            ? (await this.dedupService.maxEpisodeNumber(programId)) + 1
+            : episode.episodeNumber,
+      };
+
+      const result = await this.upsertEpisode(programId, newVersion, null);
+      if (result.episodeId) {
+        await this.dedupService.record(
+          sourceKey,
+          newVersion,
+          { programId, episodeId: result.episodeId, episodeNumber: newVersion.episodeNumber! },
+          fingerprint.id,
+        );
+      }
+      return result;
+    }
+
+    let existing: CmsEpisode | null;
+    try {
+      existing = await this.cmsClient.findEpisode(fingerprint.episodeId);
+    } catch (error: any) {
+      return { externalId: episode.externalId, title: episode.title, error: error.message };
+    }
+    if (!existing) {
+      return null;
+    }
+
+    const result = await this.upsertEpisode(programId, episode, existing);
+    if (result.episodeId) {
+      await this.dedupService.record(sourceKey, episode, {
+        programId: existing.programId,
+        episodeId: existing.id,
+        episodeNumber: existing.episodeNumber,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Import the enclosures and artwork of a written episode into media-service
+   *
+   * media-service returns the media it imported before from the same URL, so re-ingests
+   * do not download files again. onAsset is called before each import.
+   */
+  private async importAssets(
+    episodeId: string,
+    episode: NormalizedEpisode,
+    onAsset?: () => Promise<void>,
+  ): Promise<IngestAssetResult[]> {
+    const assets: { kind: IngestAssetResult['kind']; sourceUrl: string; mimeType?: string }[] = [
+      ...(episode.media || [])
+        .filter((media) => media.kind === 'ENCLOSURE')
+        .map((media) => ({
+          kind: 'ENCLOSURE' as const,
+          sourceUrl: media.url,
+          mimeType: media.mimeType,
+        })),
+      ...(episode.thumbnailUrl
+        ? [{ kind: 'ARTWORK' as const, sourceUrl: episode.thumbnailUrl }]
+        : []),
+    ];
+
+    const results: IngestAssetResult[] = [];
+    for (const asset of assets) {
+      await onAsset?.();
+      try {
+        const media = await this.cmsClient.importMedia({
+          ...asset,
+          contentId: episodeId,
+          contentType: ContentType.EPISODE,
+        });
+        results.push({ kind: asset.kind, sourceUrl: asset.sourceUrl, mediaId: media.id });
+      } catch (error: any) {
+        this.logger.warn(
+          `Failed to import ${asset.kind} of episode ${episode.externalId}: ${error.message}`,
+        );
+        results.push({ kind: asset.kind, sourceUrl: asset.sourceUrl, error: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Create or update the CMS program and link its metadata
+   */
+  private async upsertProgram(content: NormalizedContent): Promise<CmsProgram> {
+    const data = {
+      title: truncate(content.title, MAX_TITLE_LENGTH),
+      description: content.description && truncate(content.description, MAX_DESCRIPTION_LENGTH),
+    };
+
+    const existing = await this.cmsClient.findProgramByExternalId(content.externalId);
+    let program = existing
+      ? await this.cmsClient.updateProgram(existing, data)
+      : await this.cmsClient.createProgram({ ...data, externalId: content.externalId });
+
+    if (!program.metadataId) {
+      const metadataId = await this.linkMetadata(program.id, ContentType.PROGRAM, {
+        ...data,
+        category: content.category,
+        language: content.language,
+      });
+      program = await this.cmsClient.updateProgram(program, { metadataId });
+    }
+
+    return program;
+  }
+
+  /**
+   * Create or update one CMS episode and link its metadata
+   *
+   * The episode to update is looked up by externalId in the program unless given; a given
+   * episode keeps its number, and null always creates.
+   */
+  private async upsertEpisode(
+    programId: string,
+    episode: NormalizedEpisode,
+    target?: CmsEpisode | null,
+  ): Promise<IngestEpisodeResult> {
+    const result: IngestEpisodeResult = { externalId: episode.externalId, title: episode.title };
+
+    try {
+      const data = {
+        title: truncate(episode.title, MAX_TITLE_LENGTH),
+        description: episode.description && truncate(episode.description, MAX_DESCRIPTION_LENGTH),
+        episodeNumber: episode.episodeNumber!,
+        duration: episode.duration,
+      };
+
+      const existing =
+        target === undefined
+          ? await this.cmsClient.findEpisodeByExternalId(programId, episode.externalId)
+          : target;
+      let cmsEpisode = existing
+        ? await this.cmsClient.updateEpisode(existing, {
+            ...data,
+            episodeNumber: target ? target.episodeNumber : data.episodeNumber,
+          })
+        : await this.cmsClient.createEpisode({
+            ...data,
+            programId,
+            externalId: episode.externalId,
+          });
+      result.episodeId = cmsEpisode.id;
+      result.action = existing ? 'UPDATED' : 'CREATED';
+
+      if (!cmsEpisode.metadataId) {
+        const metadataId = await this.linkMetadata(cmsEpisode.id, ContentType.EPISODE, {
+          ...data,
+          publishDate: episode.publishedAt?.toISOString(),
+          category: episode.category,
+          language: episode.language,
+        });
+        cmsEpisode = await this.cmsClient.updateEpisode(cmsEpisode, { metadataId });
+      }
+      result.metadataId = cmsEpisode.metadataId;
+    } catch (error: any) {
+      this.logger.warn(`Failed to write episode ${episode.externalId}: ${error.message}`);
+      result.error = error.message;
+    }
+
+    return result;
+  }
+
+  /**
+   * Find or create the metadata record of CMS content
+   *
+   * @returns the metadata ID
+   */
+  private async linkMetadata(
+    contentId: string,
+    contentType: ContentType,
+    data: {
+      title: string;
+      description?: string;
+      duration?: number;
+      publishDate?: string;
+      category?: string;
+      language?: string;
+    },
+  ): Promise<string> {
+    const metadata =
+      (await this.cmsClient.findMetadataByContentId(contentId)) ||
+      (await this.cmsClient.createMetadata({ ...data, contentId, contentType }));
+    return metadata.id;
+  }
+
   /**
    * Find ingest job by ID
    */
@@ -334,25 +1119,61 @@ export class IngestService {
     this.logger.log(`Retrying ingest job: ${id}`);
 
     const job = await this.findOne(id);
+    const deadLettered = job.status === IngestStatus.DEAD_LETTER;
 
-    if (job.status !== IngestStatus.FAILED) {
-      throw new BadRequestException('Only failed jobs can be retried');
+    if (
+      !deadLettered &&
+      job.status !== IngestStatus.FAILED &&
+      job.status !== IngestStatus.PARTIALLY_COMPLETED
+    ) {
+      throw new BadRequestException(
+        'Only failed, partially completed or dead-lettered jobs can be retried',
+      );
     }
 
-    if (job.retryCount >= INGEST_CONFIG.MAX_RETRIES) {
+    // A dead-lettered job gets a fresh set of attempts
+    if (!deadLettered && job.retryCount >= INGEST_CONFIG.MAX_RETRIES) {
       throw new BadRequestException('Maximum retry count reached');
     }
 
     // Reset job to pending
-    const updatedJob = await this.repository.update(id, {
+    await this.repository.update(id, {
       status: IngestStatus.PENDING,
       errorMessage: undefined,
+      nextAttemptAt: new Date(),
+      ...(deadLettered && { retryCount: 0 }),
     });
 
     // Process the job
     return await this.processJob(id);
   }
 
+  /**
+   * Cancel a pending or running job
+   *
+   * A running job stops at its next status write; episodes it already wrote stay in the CMS.
+   */
+  async cancelJob(id: string, cancelledBy?: string, reason?: string): Promise<IngestJob> {
+    this.logger.log(`Cancelling ingest job: ${id}`);
+
+    const job = await this.findOne(id);
+
+    if (!(await this.repository.cancel(id, reason))) {
+      throw new BadRequestException('Only pending or processing jobs can be cancelled');
+    }
+
+    await this.kafkaService.emitIngestCancelled({
+      jobId: job.id,
+      contentId: job.contentId,
+      sourceType: job.sourceType,
+      sourceUrl: job.sourceUrl,
+      cancelledBy,
+      reason,
+    });
+
+    return this.findOne(id);
+  }
+
   /**
    * Delete ingest job
    */
@@ -0,0 +1,343 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { NotFoundException } from '@mediamesh/shared';
+import { WebhookService } from './webhook.service';
+import { IngestService } from './ingest.service';
+import { WebhookRepository } from '../repositories/webhook.repository';
+import { APIParser } from '../parsers/api.parser';
+import { WebhookEndpoint, WebhookDelivery } from '../entities/webhook.entity';
+import { DedupStrategy, IngestJob, SourceType } from '../entities/ingest-job.entity';
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+  let repository: jest.Mocked<WebhookRepository>;
+  let ingestService: jest.Mocked<IngestService>;
+  let apiParser: jest.Mocked<APIParser>;
+
+  const now = new Date('2024-06-01T12:00:00Z');
+  const timestamp = String(now.getTime() / 1000);
+  const body = JSON.stringify({ id: 'show-1', title: 'Show', episodes: [{ id: 'ep-1' }] });
+
+  const mockEndpoint = new WebhookEndpoint({
+    id: '550e8400-e29b-41d4-a716-446655440201',
+    partner: 'acme-radio',
+    enabled: true,
+    secret: 'whsec_current',
+    mapping: { id: '$.id', title: '$.title', episodes: '$.episodes' },
+    dedupStrategy: DedupStrategy.UPDATE,
+    metadata: { category: 'news' },
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  const mockDelivery = new WebhookDelivery({
+    id: '550e8400-e29b-41d4-a716-446655440202',
+    endpointId: mockEndpoint.id,
+    idempotencyKey: 'delivery-1',
+    rawBody: body,
+    replayCount: 0,
+    receivedAt: now,
+    updatedAt: now,
+  });
+
+  const mockJob = { id: '550e8400-e29b-41d4-a716-446655440203' } as IngestJob;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookService,
+        {
+          provide: WebhookRepository,
+          useValue: {
+            createEndpoint: jest.fn(),
+            findEndpointById: jest.fn(),
+            findEndpointByPartner: jest.fn(),
+            findEndpoints: jest.fn(),
+            updateEndpoint: jest.fn(),
+            deleteEndpoint: jest.fn(),
+            createDelivery: jest.fn(),
+            claimDelivery: jest.fn(),
+            releaseDelivery: jest.fn(),
+            findDeliveryById: jest.fn(),
+            findDeliveries: jest.fn(),
+            setDeliveryJob: jest.fn(),
+          },
+        },
+        {
+          provide: IngestService,
+          useValue: {
+            createJob: jest.fn(),
+          },
+        },
+        {
+          provide: APIParser,
+          useValue: {
+            validateMapping: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhookService>(WebhookService);
+    repository = module.get(WebhookRepository);
+    ingestService = module.get(IngestService);
+    apiParser = module.get(APIParser);
+
+    ingestService.createJob.mockResolvedValue(mockJob);
+    repository.setDeliveryJob.mockImplementation((id, jobId, replay) =>
+      Promise.resolve({
+        ...mockDelivery,
+        jobId,
+        replayCount: mockDelivery.replayCount + (replay ? 1 : 0),
+      }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createEndpoint', () => {
+    it('should create an endpoint with a generated secret', async () => {
+      repository.findEndpointByPartner.mockResolvedValue(null);
+      repository.createEndpoint.mockResolvedValue(mockEndpoint);
+
+      await service.createEndpoint('acme-radio', mockEndpoint.mapping);
+
+      expect(apiParser.validateMapping).toHaveBeenCalledWith(mockEndpoint.mapping);
+      expect(repository.createEndpoint).toHaveBeenCalledWith(
+        expect.objectContaining({
+          partner: 'acme-radio',
+          secret: expect.stringMatching(/^whsec_[0-9a-f]{64}$/),
+        }),
+      );
+    });
+
+    it('should reject a partner that already has an endpoint', async () => {
+      repository.findEndpointByPartner.mockResolvedValue(mockEndpoint);
+
+      await expect(service.createEndpoint('acme-radio')).rejects.toThrow(ConflictException);
+      expect(repository.createEndpoint).not.toHaveBeenCalled();
+    });
+
+    it('should reject a mapping with pagination', async () => {
+      const mapping = { ...mockEndpoint.mapping!, pagination: { type: 'page' } } as any;
+
+      await expect(service.createEndpoint('acme-radio', mapping)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('rotateSecret', () => {
+    it('should keep the previous secret valid for the grace period', async () => {
+      repository.findEndpointById.mockResolvedValue(mockEndpoint);
+      repository.updateEndpoint.mockResolvedValue(mockEndpoint);
+
+      await service.rotateSecret(mockEndpoint.id, now);
+
+      expect(repository.updateEndpoint).toHaveBeenCalledWith(mockEndpoint.id, {
+        secret: expect.stringMatching(/^whsec_/),
+        previousSecret: 'whsec_current',
+        previousSecretExpiresAt: new Date('2024-06-02T12:00:00Z'),
+      });
+    });
+  });
+
+  describe('receive', () => {
+    const signed = (secret: string = mockEndpoint.secret, at: string = timestamp) => ({
+      signature: service.sign(secret, at, body),
+      timestamp: at,
+      idempotencyKey: 'delivery-1',
+    });
+
+    beforeEach(() => {
+      repository.findEndpointByPartner.mockResolvedValue(mockEndpoint);
+      repository.createDelivery.mockResolvedValue({ delivery: mockDelivery, created: true });
+    });
+
+    it('should store and queue a signed delivery', async () => {
+      const result = await service.receive('acme-radio', body, signed(), now);
+
+      expect(result.duplicate).toBe(false);
+      expect(result.delivery.jobId).toBe(mockJob.id);
+      expect(repository.createDelivery).toHaveBeenCalledWith({
+        endpointId: mockEndpoint.id,
+        idempotencyKey: 'delivery-1',
+        rawBody: body,
+        queuedAt: now,
+      });
+      expect(repository.claimDelivery).not.toHaveBeenCalled();
+      expect(ingestService.createJob).toHaveBeenCalledWith(
+        SourceType.WEBHOOK,
+        'webhook://acme-radio',
+        {
+          category: 'news',
+          mapping: mockEndpoint.mapping,
+          webhook: {
+            partner: 'acme-radio',
+            endpointId: mockEndpoint.id,
+            deliveryId: mockDelivery.id,
+          },
+          payload: JSON.parse(body),
+        },
+        DedupStrategy.UPDATE,
+      );
+    });
+
+    it('should reject an invalid signature', async () => {
+      await expect(service.receive('acme-radio', body, signed('whsec_wrong'), now)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(repository.createDelivery).not.toHaveBeenCalled();
+    });
+
+    it('should reject a missing signature', async () => {
+      await expect(service.receive('acme-radio', body, { timestamp }, now)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject a timestamp outside the tolerance', async () => {
+      const stale = String(now.getTime() / 1000 - 301);
+
+      await expect(
+        service.receive('acme-radio', body, signed(mockEndpoint.secret, stale), now),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should accept the previous secret until it expires', async () => {
+      const rotated = new WebhookEndpoint({
+        ...mockEndpoint,
+        secret: 'whsec_next',
+        previousSecret: 'whsec_current',
+        previousSecretExpiresAt: new Date(now.getTime() + 60 * 1000),
+      });
+      repository.findEndpointByPartner.mockResolvedValue(rotated);
+
+      await expect(service.receive('acme-radio', body, signed(), now)).resolves.toMatchObject({
+        duplicate: false,
+      });
+
+      const later = new Date(now.getTime() + 2 * 60 * 1000);
+      const laterSigned = signed('whsec_current', String(later.getTime() / 1000));
+      await expect(service.receive('acme-radio', body, laterSigned, later)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should not queue a delivery repeating an idempotency key', async () => {
+      repository.createDelivery.mockResolvedValue({
+        delivery: { ...mockDelivery, jobId: mockJob.id },
+        created: false,
+      });
+      repository.claimDelivery.mockResolvedValue(false);
+
+      const result = await service.receive('acme-radio', body, signed(), now);
+
+      expect(result).toMatchObject({ duplicate: true, delivery: { jobId: mockJob.id } });
+      expect(repository.claimDelivery).toHaveBeenCalledWith(mockDelivery.id, now);
+      expect(ingestService.createJob).not.toHaveBeenCalled();
+    });
+
+    it('should not queue a repeat while another request is queueing the delivery', async () => {
+      repository.createDelivery.mockResolvedValue({ delivery: mockDelivery, created: false });
+      repository.claimDelivery.mockResolvedValue(false);
+
+      const result = await service.receive('acme-radio', body, signed(), now);
+
+      expect(result).toMatchObject({ duplicate: true });
+      expect(ingestService.createJob).not.toHaveBeenCalled();
+      expect(repository.setDeliveryJob).not.toHaveBeenCalled();
+    });
+
+    it('should release the claim when the job cannot be queued', async () => {
+      ingestService.createJob.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(service.receive('acme-radio', body, signed(), now)).rejects.toThrow(
+        'Database unavailable',
+      );
+      expect(repository.releaseDelivery).toHaveBeenCalledWith(mockDelivery.id);
+      expect(repository.setDeliveryJob).not.toHaveBeenCalled();
+    });
+
+    it('should queue a repeated delivery whose job was never queued', async () => {
+      repository.createDelivery.mockResolvedValue({ delivery: mockDelivery, created: false });
+      repository.claimDelivery.mockResolvedValue(true);
+
+      const result = await service.receive('acme-radio', body, signed(), now);
+
+      expect(result).toMatchObject({ duplicate: false, delivery: { jobId: mockJob.id } });
+      expect(ingestService.createJob).toHaveBeenCalled();
+      expect(repository.setDeliveryJob).toHaveBeenCalledWith(mockDelivery.id, mockJob.id, false);
+    });
+
+    it('should key a delivery without Idempotency-Key by its body', async () => {
+      await service.receive('acme-radio', body, { ...signed(), idempotencyKey: undefined }, now);
+
+      expect(repository.createDelivery).toHaveBeenCalledWith(
+        expect.objectContaining({ idempotencyKey: expect.stringMatching(/^[0-9a-f]{64}$/) }),
+      );
+    });
+
+    it('should reject a payload that is not JSON', async () => {
+      const text = 'not json';
+      const headers = { signature: service.sign(mockEndpoint.secret, timestamp, text), timestamp };
+
+      await expect(service.receive('acme-radio', text, headers, now)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject deliveries to a disabled endpoint', async () => {
+      repository.findEndpointByPartner.mockResolvedValue(
+        new WebhookEndpoint({ ...mockEndpoint, enabled: false }),
+      );
+
+      await expect(service.receive('acme-radio', body, signed(), now)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should throw NotFoundException for an unknown partner', async () => {
+      repository.findEndpointByPartner.mockResolvedValue(null);
+
+      await expect(service.receive('unknown', body, signed(), now)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('replay', () => {
+    it('should queue a stored delivery again', async () => {
+      repository.findEndpointById.mockResolvedValue(mockEndpoint);
+      repository.findDeliveryById.mockResolvedValue(mockDelivery);
+
+      const result = await service.replay(mockEndpoint.id, mockDelivery.id);
+
+      expect(ingestService.createJob).toHaveBeenCalledWith(
+        SourceType.WEBHOOK,
+        'webhook://acme-radio',
+        expect.objectContaining({ payload: JSON.parse(body) }),
+        DedupStrategy.UPDATE,
+      );
+      expect(repository.setDeliveryJob).toHaveBeenCalledWith(mockDelivery.id, mockJob.id, true);
+      expect(result.replayCount).toBe(1);
+    });
+
+    it('should throw NotFoundException for a delivery of another endpoint', async () => {
+      repository.findEndpointById.mockResolvedValue(mockEndpoint);
+      repository.findDeliveryById.mockResolvedValue({ ...mockDelivery, endpointId: 'other' });
+
+      await expect(service.replay(mockEndpoint.id, mockDelivery.id)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(ingestService.createJob).not.toHaveBeenCalled();
+    });
+  });
+});
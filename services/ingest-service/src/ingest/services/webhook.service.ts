@@ -0,0 +1,326 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { WebhookRepository } from '../repositories/webhook.repository';
+import { WebhookEndpoint, WebhookDelivery } from '../entities/webhook.entity';
+import { IngestJob, SourceType, DedupStrategy } from '../entities/ingest-job.entity';
+import { ApiMapping } from '../parsers/api-mapping';
+import { APIParser } from '../parsers/api.parser';
+import { IngestService } from './ingest.service';
+import { throwIfNotFound } from '@mediamesh/shared';
+import { DEDUP_CONFIG, WEBHOOK_CONFIG } from '../../config/env.constants';
+
+/**
+ * Signature headers of a webhook delivery
+ */
+export interface WebhookHeaders {
+  signature?: string; // X-Webhook-Signature: "sha256=<hex HMAC of `${timestamp}.${body}`>"
+  timestamp?: string; // X-Webhook-Timestamp: Unix seconds
+  idempotencyKey?: string; // Idempotency-Key
+}
+
+/**
+ * Webhook Service
+ *
+ * Business logic layer for partner webhooks.
+ * A verified delivery is stored as received and queued as a WEBHOOK ingest job, whose
+ * payload is normalized with the endpoint's mapping like an API response.
+ */
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  constructor(
+    private readonly repository: WebhookRepository,
+    private readonly ingestService: IngestService,
+    private readonly apiParser: APIParser,
+  ) {}
+
+  /**
+   * Create a partner endpoint with a new signing secret
+   */
+  async createEndpoint(
+    partner: string,
+    mapping?: ApiMapping,
+    dedupStrategy: DedupStrategy = DEDUP_CONFIG.STRATEGY as DedupStrategy,
+    metadata?: Record<string, any>,
+  ): Promise<WebhookEndpoint> {
+    this.logger.log(`Creating webhook endpoint: ${partner}`);
+
+    if (mapping) {
+      this.validateMapping(mapping);
+    }
+    if (await this.repository.findEndpointByPartner(partner)) {
+      throw new ConflictException(`A webhook endpoint for ${partner} already exists`);
+    }
+
+    const endpoint = await this.repository.createEndpoint({
+      partner,
+      secret: this.generateSecret(),
+      mapping,
+      dedupStrategy,
+      metadata,
+    });
+
+    this.logger.log(`Webhook endpoint created: ${endpoint.id}`);
+    return endpoint;
+  }
+
+  /**
+   * Find endpoint by ID
+   */
+  async findEndpoint(id: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.repository.findEndpointById(id);
+    throwIfNotFound(endpoint, 'WebhookEndpoint', id);
+    return endpoint;
+  }
+
+  /**
+   * Find all endpoints with pagination
+   */
+  async findEndpoints(
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ endpoints: WebhookEndpoint[]; total: number; page: number; limit: number }> {
+    const skip = (page - 1) * limit;
+    const result = await this.repository.findEndpoints(skip, limit);
+
+    return {
+      ...result,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Update an endpoint; the mapping applies to deliveries processed from now on
+   */
+  async updateEndpoint(
+    id: string,
+    data: {
+      enabled?: boolean;
+      mapping?: ApiMapping;
+      dedupStrategy?: DedupStrategy;
+      metadata?: Record<string, any>;
+    },
+  ): Promise<WebhookEndpoint> {
+    await this.findEndpoint(id);
+    if (data.mapping) {
+      this.validateMapping(data.mapping);
+    }
+
+    return await this.repository.updateEndpoint(id, data);
+  }
+
+  /**
+   * Replace the signing secret
+   *
+   * The previous secret is still accepted for SECRET_GRACE_HOURS, so the partner can
+   * switch over without rejected deliveries.
+   */
+  async rotateSecret(id: string, now: Date = new Date()): Promise<WebhookEndpoint> {
+    this.logger.log(`Rotating secret of webhook endpoint: ${id}`);
+
+    const endpoint = await this.findEndpoint(id);
+
+    return await this.repository.updateEndpoint(id, {
+      secret: this.generateSecret(),
+      previousSecret: endpoint.secret,
+      previousSecretExpiresAt: new Date(
+        now.getTime() + WEBHOOK_CONFIG.SECRET_GRACE_HOURS * 60 * 60 * 1000,
+      ),
+    });
+  }
+
+  /**
+   * Delete an endpoint and its stored deliveries
+   *
+   * Content already written to the CMS is kept.
+   */
+  async deleteEndpoint(id: string): Promise<void> {
+    this.logger.log(`Deleting webhook endpoint: ${id}`);
+    await this.findEndpoint(id);
+    await this.repository.deleteEndpoint(id);
+  }
+
+  /**
+   * Accept a delivery pushed by a partner
+   *
+   * A delivery repeating an earlier idempotency key (or, without one, an earlier body) is
+   * not ingested again; the earlier delivery is returned. Only the request holding the
+   * delivery's claim queues its job, so concurrent repeats cannot queue it twice. When queueing
+   * fails the claim is released and a later repeat queues the job instead.
+   */
+  async receive(
+    partner: string,
+    rawBody: string,
+    headers: WebhookHeaders,
+    now: Date = new Date(),
+  ): Promise<{ delivery: WebhookDelivery; duplicate: boolean }> {
+    const endpoint = await this.repository.findEndpointByPartner(partner);
+    throwIfNotFound(endpoint, 'WebhookEndpoint', partner);
+
+    if (!endpoint.enabled) {
+      throw new ForbiddenException(`Webhook endpoint ${partner} is disabled`);
+    }
+    this.verifySignature(endpoint, rawBody, headers, now);
+    this.parsePayload(rawBody);
+
+    const idempotencyKey =
+      headers.idempotencyKey || createHash('sha256').update(rawBody).digest('hex');
+    const { delivery, created } = await this.repository.createDelivery({
+      endpointId: endpoint.id,
+      idempotencyKey,
+      rawBody,
+      queuedAt: now,
+    });
+
+    if (!created && !(await this.repository.claimDelivery(delivery.id, now))) {
+      this.logger.log(`Duplicate webhook delivery for ${partner}: ${delivery.id}`);
+      return { delivery, duplicate: true };
+    }
+
+    let job: IngestJob;
+    try {
+      job = await this.queue(endpoint, delivery);
+    } catch (error) {
+      await this.repository.releaseDelivery(delivery.id);
+      throw error;
+    }
+    this.logger.log(`Webhook delivery ${delivery.id} from ${partner} queued as job ${job.id}`);
+
+    return {
+      delivery: await this.repository.setDeliveryJob(delivery.id, job.id, false),
+      duplicate: false,
+    };
+  }
+
+  /**
+   * Find the deliveries of an endpoint, newest first
+   */
+  async findDeliveries(
+    endpointId: string,
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number; page: number; limit: number }> {
+    await this.findEndpoint(endpointId);
+
+    const skip = (page - 1) * limit;
+    const result = await this.repository.findDeliveries(endpointId, skip, limit);
+
+    return {
+      ...result,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Find a delivery of an endpoint
+   */
+  async findDelivery(endpointId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await this.repository.findDeliveryById(deliveryId);
+    if (delivery?.endpointId !== endpointId) {
+      throwIfNotFound(null, 'WebhookDelivery', deliveryId);
+    }
+    return delivery!;
+  }
+
+  /**
+   * Ingest a stored delivery again, with the endpoint's current mapping
+   */
+  async replay(endpointId: string, deliveryId: string): Promise<WebhookDelivery> {
+    this.logger.log(`Replaying webhook delivery: ${deliveryId}`);
+
+    const endpoint = await this.findEndpoint(endpointId);
+    const delivery = await this.findDelivery(endpointId, deliveryId);
+
+    const job = await this.queue(endpoint, delivery);
+    return await this.repository.setDeliveryJob(delivery.id, job.id, true);
+  }
+
+  /**
+   * Signature of a delivery body, as partners compute it
+   */
+  sign(secret: string, timestamp: string, rawBody: string): string {
+    const digest = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+    return `sha256=${digest}`;
+  }
+
+  /**
+   * Check the delivery was signed with a valid secret of the endpoint, recently
+   *
+   * @throws UnauthorizedException when the signature or timestamp is missing or wrong
+   */
+  private verifySignature(
+    endpoint: WebhookEndpoint,
+    rawBody: string,
+    headers: WebhookHeaders,
+    now: Date,
+  ): void {
+    const { signature, timestamp } = headers;
+    if (!signature || !timestamp) {
+      throw new UnauthorizedException('Missing webhook signature or timestamp');
+    }
+
+    // The timestamp is signed too, so an intercepted delivery cannot be resent later
+    const age = Math.abs(now.getTime() / 1000 - Number(timestamp));
+    if (!/^\d+$/.test(timestamp) || age > WEBHOOK_CONFIG.SIGNATURE_TOLERANCE_SECONDS) {
+      throw new UnauthorizedException('Webhook timestamp is outside the allowed window');
+    }
+
+    const received = Buffer.from(signature);
+    const valid = endpoint.validSecrets(now).some((secret) => {
+      const expected = Buffer.from(this.sign(secret, timestamp, rawBody));
+      return expected.length === received.length && timingSafeEqual(expected, received);
+    });
+    if (!valid) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+  }
+
+  /**
+   * Queue a delivery as a WEBHOOK ingest job
+   */
+  private async queue(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<IngestJob> {
+    return await this.ingestService.createJob(
+      SourceType.WEBHOOK,
+      `webhook://${endpoint.partner}`,
+      {
+        ...endpoint.metadata,
+        mapping: endpoint.mapping,
+        webhook: { partner: endpoint.partner, endpointId: endpoint.id, deliveryId: delivery.id },
+        payload: this.parsePayload(delivery.rawBody),
+      },
+      endpoint.dedupStrategy,
+    );
+  }
+
+  private parsePayload(rawBody: string): any {
+    try {
+      return JSON.parse(rawBody);
+    } catch {
+      throw new BadRequestException('Webhook payload must be JSON');
+    }
+  }
+
+  /**
+   * Check a mapping; a pushed payload has no further pages to follow
+   */
+  private validateMapping(mapping: ApiMapping): void {
+    this.apiParser.validateMapping(mapping);
+    if (mapping.pagination) {
+      throw new BadRequestException('Webhook mappings cannot have pagination');
+    }
+  }
+
+  private generateSecret(): string {
+    return `whsec_${randomBytes(32).toString('hex')}`;
+  }
+}
@@ -66,6 +66,143 @@ export class KafkaService implements OnModuleInit {
     }
   }
 
+  /**
+   * Emit ingest.started event
+   */
+  async emitIngestStarted(data: {
+    jobId: string;
+    sourceType: string;
+    sourceUrl: string;
+    attempt: number;
+  }): Promise<void> {
+    try {
+      await this.producer.send({
+        topic: 'ingest.started',
+        messages: [
+          {
+            key: data.jobId,
+            value: JSON.stringify({
+              metadata: {
+                eventId: `ingest-${Date.now()}`,
+                eventType: 'ingest.started',
+                eventVersion: '1.0',
+                timestamp: new Date().toISOString(),
+                source: 'ingest-service',
+              },
+              payload: {
+                jobId: data.jobId,
+                sourceType: data.sourceType,
+                sourceUrl: data.sourceUrl,
+                attempt: data.attempt,
+                startedAt: new Date().toISOString(),
+              },
+            }),
+          },
+        ],
+      });
+
+      this.logger.log(`Ingest started event emitted: ${data.jobId}`);
+    } catch (error) {
+      this.logger.error(`Failed to emit ingest.started event: ${data.jobId}`, error);
+    }
+  }
+
+  /**
+   * Emit ingest.progress event
+   *
+   * Keyed by the subscription for sync runs and by the job otherwise, so each stream stays
+   * in order.
+   */
+  async emitIngestProgress(data: {
+    sourceId?: string;
+    jobId?: string;
+    contentId?: string;
+    stage: string;
+    progress: number; // 0-100
+    message?: string;
+    episodesDone?: number;
+    episodesTotal?: number;
+  }): Promise<void> {
+    const key = data.sourceId ?? data.jobId ?? null;
+
+    try {
+      await this.producer.send({
+        topic: 'ingest.progress',
+        messages: [
+          {
+            key,
+            value: JSON.stringify({
+              metadata: {
+                eventId: `ingest-${Date.now()}`,
+                eventType: 'ingest.progress',
+                eventVersion: '1.0',
+                timestamp: new Date().toISOString(),
+                source: 'ingest-service',
+              },
+              payload: {
+                sourceId: data.sourceId,
+                jobId: data.jobId,
+                contentId: data.contentId,
+                stage: data.stage,
+                progress: data.progress,
+                message: data.message,
+                episodesDone: data.episodesDone,
+                episodesTotal: data.episodesTotal,
+              },
+            }),
+          },
+        ],
+      });
+    } catch (error) {
+      this.logger.error(`Failed to emit ingest.progress event: ${key}`, error);
+    }
+  }
+
+  /**
+   * Emit ingest.cancelled event
+   */
+  async emitIngestCancelled(data: {
+    jobId: string;
+    contentId?: string;
+    sourceType: string;
+    sourceUrl: string;
+    cancelledBy?: string;
+    reason?: string;
+  }): Promise<void> {
+    try {
+      await this.producer.send({
+        topic: 'ingest.cancelled',
+        messages: [
+          {
+            key: data.jobId,
+            value: JSON.stringify({
+              metadata: {
+                eventId: `ingest-${Date.now()}`,
+                eventType: 'ingest.cancelled',
+                eventVersion: '1.0',
+                timestamp: new Date().toISOString(),
+                source: 'ingest-service',
+              },
+              payload: {
+                jobId: data.jobId,
+                contentId: data.contentId,
+                sourceType: data.sourceType,
+                sourceUrl: data.sourceUrl,
+                cancelledBy: data.cancelledBy,
+                cancelledAt: new Date().toISOString(),
+                reason: data.reason,
+              },
+            }),
+          },
+        ],
+      });
+
+      this.logger.log(`Ingest cancelled event emitted: ${data.jobId}`);
+    } catch (error) {
+      this.logger.error(`Failed to emit ingest.cancelled event: ${data.jobId}`, error);
+    }
+  }
+
   /**
    * Emit ingest.failed event
    */
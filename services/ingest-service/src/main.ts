@@ -9,6 +9,8 @@ async function bootstrap() {
   const app = await NestFactory.create<NestFastifyApplication>(
     AppModule,
     new FastifyAdapter(),
+    // Webhook signatures are checked against the body as received
+    { rawBody: true },
   );
 
   // Global validation pipe
@@ -40,6 +42,7 @@ async function bootstrap() {
       'JWT-auth', // This name is important for @ApiBearerAuth()
     )
     .addTag('Ingest', 'Content ingestion endpoints')
+    .addTag('Webhooks', 'Partner content pushes')
     .build();
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('api/docs', app, document, {
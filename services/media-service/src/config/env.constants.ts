@@ -55,3 +55,12 @@ export const STORAGE_CONFIG = {
   MINIO_ENDPOINT: process.env.MINIO_ENDPOINT || 'localhost:9000',
   MINIO_USE_SSL: process.env.MINIO_USE_SSL === 'true',
 };
+
+// Import of remote files (podcast enclosures, artwork) into object storage
+export const MEDIA_IMPORT_CONFIG = {
+  MAX_ENCLOSURE_BYTES: parseInt(process.env.MEDIA_IMPORT_MAX_ENCLOSURE_BYTES || '5368709120', 10), // 5GB, as uploads
+  MAX_ARTWORK_BYTES: parseInt(process.env.MEDIA_IMPORT_MAX_ARTWORK_BYTES || '20971520', 10), // 20MB
+  TIMEOUT_MS: parseInt(process.env.MEDIA_IMPORT_TIMEOUT_MS || '600000', 10), // Whole download
+  MAX_BUFFERED_BYTES: parseInt(process.env.MEDIA_IMPORT_MAX_BUFFERED_BYTES || '52428800', 10), // 50MB
+  MAX_REDIRECTS: parseInt(process.env.MEDIA_IMPORT_MAX_REDIRECTS || '5', 10),
+};
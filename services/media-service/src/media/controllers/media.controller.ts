@@ -24,11 +24,7 @@ import {
 import { FastifyRequest } from 'fastify';
 import { MediaService } from '../services/media.service';
 import { Media } from '../entities/media.entity';
-import {
-  MediaDto,
-  UploadMediaDto,
-  GenerateThumbnailDto,
-} from '../dto/media.dto';
+import { MediaDto, UploadMediaDto, ImportMediaDto, GenerateThumbnailDto } from '../dto/media.dto';
 import { JwtAuthGuard, RolesGuard, Roles, Public } from '@mediamesh/shared';
 import { UserRole } from '@mediamesh/shared';
 import { ContentType } from '@mediamesh/shared';
@@ -46,6 +42,7 @@ class FileUploadDto {
  * 
  * Handles media management endpoints:
  * - POST /media/upload - Upload media file
+ * - POST /media/import - Import a remote file
  * - GET /media/:id - Get media by ID
  * - GET /media/content/:contentId - Get media by content ID
  * - DELETE /media/:id - Delete media
@@ -139,6 +136,45 @@ export class MediaController {
     return this.toDto(media);
   }
 
+  /**
+   * Import a remote file
+   * POST /media/import
+   */
+  @Post('import')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Import a podcast enclosure or artwork from a URL' })
+  @ApiBody({ type: ImportMediaDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Media imported, or the media already imported from the URL',
+    type: MediaDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Download failed, or file type or size not allowed',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  @HttpCode(HttpStatus.CREATED)
+  async import(@Body() importDto: ImportMediaDto): Promise<MediaDto> {
+    const media = await this.mediaService.importFromUrl(
+      importDto.contentId,
+      importDto.contentType,
+      importDto.sourceUrl,
+      importDto.kind,
+      importDto.mimeType,
+    );
+    return this.toDto(media);
+  }
+
   /**
    * Get media by ID
    * GET /media/:id
@@ -270,6 +306,7 @@ export class MediaController {
       storageKey: media.storageKey,
       fileSize: Number(media.fileSize),
       mimeType: media.mimeType,
+      sourceUrl: media.sourceUrl,
       createdAt: media.createdAt.toISOString(),
     } as MediaDto;
   }
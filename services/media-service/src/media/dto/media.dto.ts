@@ -4,12 +4,13 @@ import {
   IsEnum,
   IsOptional,
   IsInt,
+  IsUrl,
   Min,
   MaxLength,
 } from 'class-validator';
 import { ContentType } from '@mediamesh/shared';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { StorageType } from '../entities/media.entity';
+import { StorageType, MediaAssetKind } from '../entities/media.entity';
 
 /**
  * Media DTO
@@ -53,6 +54,11 @@ export class MediaDto {
   @IsString()
   mimeType: string;
 
+  @ApiPropertyOptional({ description: 'Remote file the media was imported from' })
+  @IsOptional()
+  @IsString()
+  sourceUrl?: string;
+
   @ApiProperty({ description: 'Creation timestamp' })
   @IsString()
   createdAt: string;
@@ -71,6 +77,39 @@ export class UploadMediaDto {
   contentType: ContentType;
 }
 
+/**
+ * Import Media DTO
+ */
+export class ImportMediaDto {
+  @ApiProperty({ description: 'Content ID', example: '550e8400-e29b-41d4-a716-446655440002' })
+  @IsUUID('4', { message: 'Content ID must be a valid UUID' })
+  contentId: string;
+
+  @ApiProperty({ description: 'Content type', enum: ContentType })
+  @IsEnum(ContentType, { message: 'Content type must be PROGRAM or EPISODE' })
+  contentType: ContentType;
+
+  @ApiProperty({
+    description: 'URL of the file to import',
+    example: 'https://feeds.example.com/ep1.mp3',
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  sourceUrl: string;
+
+  @ApiProperty({ description: 'What the file is', enum: MediaAssetKind })
+  @IsEnum(MediaAssetKind)
+  kind: MediaAssetKind;
+
+  @ApiPropertyOptional({
+    description: 'MIME type declared by the source (e.g. the RSS enclosure type)',
+    example: 'audio/mpeg',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  mimeType?: string;
+}
+
 /**
  * Generate Thumbnail DTO
  */
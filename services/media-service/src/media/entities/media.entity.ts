@@ -9,6 +9,16 @@ export enum StorageType {
   MINIO = 'MINIO',
 }
 
+/**
+ * Media Asset Kind Enum
+ *
+ * What a remote file imported for content is.
+ */
+export enum MediaAssetKind {
+  ENCLOSURE = 'ENCLOSURE', // Audio or video of an episode
+  ARTWORK = 'ARTWORK', // Cover image
+}
+
 /**
  * Media Entity
  * 
@@ -24,6 +34,7 @@ export class Media {
   storageKey: string; // Key in object storage
   fileSize: bigint; // File size in bytes
   mimeType: string;
+  sourceUrl?: string; // Remote file the media was imported from
   createdAt: Date;
 
   constructor(partial: Partial<Media>) {
@@ -43,6 +54,7 @@ export class Media {
     storageKey: string;
     fileSize: bigint;
     mimeType: string;
+    sourceUrl: string | null;
     createdAt: Date;
   }): Media {
     return new Media({
@@ -55,6 +67,7 @@ export class Media {
       storageKey: prismaMedia.storageKey,
       fileSize: prismaMedia.fileSize,
       mimeType: prismaMedia.mimeType,
+      sourceUrl: prismaMedia.sourceUrl || undefined,
       createdAt: prismaMedia.createdAt,
     });
   }
@@ -27,6 +27,7 @@ export class MediaRepository {
     storageKey: string;
     fileSize: bigint;
     mimeType: string;
+    sourceUrl?: string;
   }): Promise<Media> {
     const prismaMedia = await this.prisma.media.create({
       data: {
@@ -38,6 +39,7 @@ export class MediaRepository {
         storageKey: data.storageKey,
         fileSize: data.fileSize,
         mimeType: data.mimeType,
+        sourceUrl: data.sourceUrl,
       },
     });
 
@@ -67,6 +69,17 @@ export class MediaRepository {
     return prismaMediaList.map(Media.fromPrisma);
   }
 
+  /**
+   * Find media of content imported from a remote file
+   */
+  async findByContentIdAndSourceUrl(contentId: string, sourceUrl: string): Promise<Media | null> {
+    const prismaMedia = await this.prisma.media.findFirst({
+      where: { contentId, sourceUrl },
+    });
+
+    return prismaMedia ? Media.fromPrisma(prismaMedia) : null;
+  }
+
   /**
    * Find all media with pagination
    */
@@ -3,8 +3,17 @@ import { BadRequestException } from '@nestjs/common';
 import { MediaService } from './media.service';
 import { MediaRepository } from '../repositories/media.repository';
 import { StorageService } from './storage.service';
-import { Media, StorageType } from '../entities/media.entity';
+import { Media, MediaAssetKind, StorageType } from '../entities/media.entity';
 import { ContentType } from '@mediamesh/shared';
+import { once } from 'events';
+import { AddressInfo, createServer } from 'net';
+import dns from 'dns';
+import { lookup } from 'dns/promises';
+import { fetch } from 'undici';
+import { MEDIA_IMPORT_CONFIG } from '../../config/env.constants';
+
+jest.mock('dns/promises');
+jest.mock('undici', () => ({ ...jest.requireActual<object>('undici'), fetch: jest.fn() }));
 
 describe('MediaService', () => {
   let service: MediaService;
@@ -30,6 +39,7 @@ describe('MediaService', () => {
       create: jest.fn(),
       findById: jest.fn(),
       findByContentId: jest.fn(),
+      findByContentIdAndSourceUrl: jest.fn(),
       findAll: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
@@ -39,6 +49,7 @@ describe('MediaService', () => {
 
     const mockStorageService = {
       uploadFile: jest.fn(),
+      uploadStream: jest.fn(),
       deleteFile: jest.fn(),
       generatePresignedUploadUrl: jest.fn(),
       generatePresignedDownloadUrl: jest.fn(),
@@ -119,6 +130,354 @@ describe('MediaService', () => {
     });
   });
 
+  describe('importFromUrl', () => {
+    const sourceUrl = 'https://feeds.example.com/audio/episode%201.mp3';
+    const audio = Buffer.from('ID3 audio bytes');
+    const resolve = lookup as jest.Mock;
+    const fetchSpy = fetch as jest.Mock;
+
+    const respond = (body: BodyInit, headers: Record<string, string>, status: number = 200) =>
+      fetchSpy.mockResolvedValue(new Response(body, { status, headers }));
+
+    beforeEach(() => {
+      resolve.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+      repository.findByContentIdAndSourceUrl.mockResolvedValue(null);
+      repository.create.mockResolvedValue(mockMedia);
+      storageService.generateStorageKey.mockReturnValue('episode/content-id/1-episode 1.mp3');
+      storageService.uploadStream.mockImplementation(async (key, body) => {
+        // The S3 client reads the whole stream
+        body.resume();
+        await once(body, 'end');
+        return 'https://cdn.example.com/episode 1.mp3';
+      });
+      storageService.uploadFile.mockResolvedValue('https://cdn.example.com/cover.jpg');
+    });
+
+    afterEach(() => {
+      fetchSpy.mockReset();
+    });
+
+    it('should stream a file of known length into storage', async () => {
+      respond(audio, { 'content-type': 'audio/mpeg', 'content-length': String(audio.length) });
+
+      await service.importFromUrl(
+        mockMedia.contentId,
+        ContentType.EPISODE,
+        sourceUrl,
+        MediaAssetKind.ENCLOSURE,
+      );
+
+      expect(storageService.generateStorageKey).toHaveBeenCalledWith(
+        mockMedia.contentId,
+        ContentType.EPISODE,
+        'episode 1.mp3',
+      );
+      expect(storageService.uploadStream).toHaveBeenCalledWith(
+        'episode/content-id/1-episode 1.mp3',
+        expect.anything(),
+        audio.length,
+        'audio/mpeg',
+        expect.objectContaining({ sourceUrl }),
+      );
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://cdn.example.com/episode 1.mp3',
+          fileSize: BigInt(audio.length),
+          mimeType: 'audio/mpeg',
+          sourceUrl,
+        }),
+      );
+    });
+
+    it('should read a file of unknown length and use it as a thumbnail for artwork', async () => {
+      const image = Buffer.from('JFIF image bytes');
+      const chunked = new ReadableStream({
+        start(controller) {
+          controller.enqueue(new Uint8Array(image));
+          controller.close();
+        },
+      });
+      respond(chunked, { 'content-type': 'image/jpeg' });
+
+      await service.importFromUrl(
+        mockMedia.contentId,
+        ContentType.EPISODE,
+        'https://feeds.example.com/cover.jpg',
+        MediaAssetKind.ARTWORK,
+      );
+
+      expect(storageService.uploadFile).toHaveBeenCalledWith(
+        expect.any(String),
+        image,
+        'image/jpeg',
+        expect.any(Object),
+      );
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          thumbnailUrl: 'https://cdn.example.com/cover.jpg',
+          fileSize: BigInt(image.length),
+        }),
+      );
+    });
+
+    it('should use the declared type when the host sends a generic one', async () => {
+      respond(audio, {
+        'content-type': 'application/octet-stream',
+        'content-length': String(audio.length),
+      });
+
+      await service.importFromUrl(
+        mockMedia.contentId,
+        ContentType.EPISODE,
+        sourceUrl,
+        MediaAssetKind.ENCLOSURE,
+        'audio/mpeg',
+      );
+
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ mimeType: 'audio/mpeg' }),
+      );
+    });
+
+    it('should reject a file whose type does not suit its kind', async () => {
+      respond('<html></html>', { 'content-type': 'text/html; charset=utf-8' });
+
+      await expect(
+        service.importFromUrl(
+          mockMedia.contentId,
+          ContentType.EPISODE,
+          sourceUrl,
+          MediaAssetKind.ENCLOSURE,
+          'audio/mpeg',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(storageService.uploadStream).not.toHaveBeenCalled();
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject artwork larger than the size limit', async () => {
+      respond(audio, { 'content-type': 'image/png', 'content-length': String(50 * 1024 * 1024) });
+
+      await expect(
+        service.importFromUrl(
+          mockMedia.contentId,
+          ContentType.EPISODE,
+          'https://feeds.example.com/cover.png',
+          MediaAssetKind.ARTWORK,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(storageService.uploadStream).not.toHaveBeenCalled();
+    });
+
+    it('should reject a failed download', async () => {
+      respond('Not Found', { 'content-type': 'text/plain' }, 404);
+
+      await expect(
+        service.importFromUrl(
+          mockMedia.contentId,
+          ContentType.EPISODE,
+          sourceUrl,
+          MediaAssetKind.ENCLOSURE,
+        ),
+      ).rejects.toThrow('HTTP 404');
+    });
+
+    it('should reject a file of unknown length larger than MAX_BUFFERED_BYTES', async () => {
+      const maxBufferedBytes = MEDIA_IMPORT_CONFIG.MAX_BUFFERED_BYTES;
+      MEDIA_IMPORT_CONFIG.MAX_BUFFERED_BYTES = audio.length - 1;
+      const chunked = new ReadableStream({
+        start(controller) {
+          controller.enqueue(new Uint8Array(audio));
+          controller.close();
+        },
+      });
+      respond(chunked, { 'content-type': 'audio/mpeg' });
+
+      try {
+        await expect(
+          service.importFromUrl(
+            mockMedia.contentId,
+            ContentType.EPISODE,
+            sourceUrl,
+            MediaAssetKind.ENCLOSURE,
+          ),
+        ).rejects.toThrow(BadRequestException);
+        expect(storageService.uploadFile).not.toHaveBeenCalled();
+      } finally {
+        MEDIA_IMPORT_CONFIG.MAX_BUFFERED_BYTES = maxBufferedBytes;
+      }
+    });
+
+    it('should reject URLs that are not http or https', async () => {
+      await expect(
+        service.importFromUrl(
+          mockMedia.contentId,
+          ContentType.EPISODE,
+          'file:///etc/passwd',
+          MediaAssetKind.ENCLOSURE,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reject a host that resolves to a private address', async () => {
+      resolve.mockResolvedValue([{ address: '10.0.0.5', family: 4 }]);
+
+      await expect(
+        service.importFromUrl(
+          mockMedia.contentId,
+          ContentType.EPISODE,
+          sourceUrl,
+          MediaAssetKind.ENCLOSURE,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reject loopback and IPv4-mapped addresses given literally', async () => {
+      resolve.mockImplementation((hostname: string) =>
+        Promise.resolve([{ address: hostname, family: hostname.includes(':') ? 6 : 4 }]),
+      );
+
+      for (const url of [
+        'http://127.0.0.1/a.mp3',
+        'http://[::1]/a.mp3',
+        'http://[::ffff:a9fe:a9fe]/',
+      ]) {
+        await expect(
+          service.importFromUrl(
+            mockMedia.contentId,
+            ContentType.EPISODE,
+            url,
+            MediaAssetKind.ENCLOSURE,
+          ),
+        ).rejects.toThrow(BadRequestException);
+      }
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should follow a redirect to a public host', async () => {
+      fetchSpy.mockResolvedValueOnce(
+        new Response(null, { status: 302, headers: { location: '/audio/moved.mp3' } }),
+      );
+      fetchSpy.mockResolvedValueOnce(
+        new Response(audio, {
+          headers: { 'content-type': 'audio/mpeg', 'content-length': String(audio.length) },
+        }),
+      );
+
+      await service.importFromUrl(
+        mockMedia.contentId,
+        ContentType.EPISODE,
+        sourceUrl,
+        MediaAssetKind.ENCLOSURE,
+      );
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(fetchSpy.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+      expect(String(fetchSpy.mock.calls[1][0])).toBe('https://feeds.example.com/audio/moved.mp3');
+      expect(repository.create).toHaveBeenCalledWith(expect.objectContaining({ sourceUrl }));
+    });
+
+    it('should reject a redirect to a private address', async () => {
+      resolve.mockImplementation((hostname: string) =>
+        Promise.resolve([
+          { address: hostname === '169.254.169.254' ? hostname : '93.184.216.34', family: 4 },
+        ]),
+      );
+      fetchSpy.mockResolvedValueOnce(
+        new Response(null, {
+          status: 301,
+          headers: { location: 'http://169.254.169.254/latest/meta-data/' },
+        }),
+      );
+
+      await expect(
+        service.importFromUrl(
+          mockMedia.contentId,
+          ContentType.EPISODE,
+          sourceUrl,
+          MediaAssetKind.ENCLOSURE,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not connect to a host that resolves to a private address on connecting', async () => {
+      // Public when checked, private when connected to (DNS rebinding)
+      const server = createServer((socket) => socket.destroy());
+      server.listen(0, '127.0.0.1');
+      await once(server, 'listening');
+      const { port } = server.address() as AddressInfo;
+      const connected = jest.fn();
+      server.on('connection', connected);
+
+      fetchSpy.mockImplementation(jest.requireActual<typeof import('undici')>('undici').fetch);
+      const resolveOnConnect = jest
+        .spyOn(dns, 'lookup')
+        .mockImplementation(((
+          hostname: string,
+          options: dns.LookupAllOptions,
+          callback: (error: null, addresses: dns.LookupAddress[]) => void,
+        ) => callback(null, [{ address: '127.0.0.1', family: 4 }])) as typeof dns.lookup);
+
+      try {
+        await expect(
+          service.importFromUrl(
+            mockMedia.contentId,
+            ContentType.EPISODE,
+            `http://feeds.example.com:${port}/audio/episode.mp3`,
+            MediaAssetKind.ENCLOSURE,
+          ),
+        ).rejects.toThrow(BadRequestException);
+        expect(connected).not.toHaveBeenCalled();
+      } finally {
+        resolveOnConnect.mockRestore();
+        server.close();
+      }
+    });
+
+    it('should reject a Content-Length that is not a number', async () => {
+      respond(audio, { 'content-type': 'audio/mpeg', 'content-length': 'abc' });
+
+      await expect(
+        service.importFromUrl(
+          mockMedia.contentId,
+          ContentType.EPISODE,
+          sourceUrl,
+          MediaAssetKind.ENCLOSURE,
+        ),
+      ).rejects.toThrow('Invalid Content-Length');
+      expect(storageService.uploadStream).not.toHaveBeenCalled();
+    });
+
+    it('should reject a URL whose file name is not valid percent-encoding', async () => {
+      await expect(
+        service.importFromUrl(
+          mockMedia.contentId,
+          ContentType.EPISODE,
+          'https://feeds.example.com/audio/episode%E0%A4%A.mp3',
+          MediaAssetKind.ENCLOSURE,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return media already imported from the URL', async () => {
+      repository.findByContentIdAndSourceUrl.mockResolvedValue(mockMedia);
+
+      const result = await service.importFromUrl(
+        mockMedia.contentId,
+        ContentType.EPISODE,
+        sourceUrl,
+        MediaAssetKind.ENCLOSURE,
+      );
+
+      expect(result).toEqual(mockMedia);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('findOne', () => {
     it('should return media by ID', async () => {
       repository.findById.mockResolvedValue(mockMedia);
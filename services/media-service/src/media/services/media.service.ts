@@ -1,20 +1,82 @@
-import {
-  Injectable,
-  Logger,
-  NotFoundException,
-  BadRequestException,
-} from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { MediaRepository } from '../repositories/media.repository';
 import { StorageService } from './storage.service';
-import { Media, StorageType } from '../entities/media.entity';
+import { Media, MediaAssetKind, StorageType } from '../entities/media.entity';
 import { ContentType } from '@mediamesh/shared';
 import { throwIfNotFound } from '@mediamesh/shared';
 import sharp from 'sharp';
-import { STORAGE_CONFIG } from '../../config/env.constants';
+import { Readable, Transform } from 'stream';
+import { ReadableStream as WebReadableStream } from 'stream/web';
+import { BlockList, LookupFunction } from 'net';
+import { LookupAddress, lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import { Agent, fetch, Response } from 'undici';
+import { STORAGE_CONFIG, MEDIA_IMPORT_CONFIG } from '../../config/env.constants';
+
+// MIME types an imported file of each kind may have
+const ASSET_MIME_PREFIXES: Record<MediaAssetKind, string[]> = {
+  [MediaAssetKind.ENCLOSURE]: ['audio/', 'video/'],
+  [MediaAssetKind.ARTWORK]: ['image/'],
+};
+
+// Content-Types hosts send when they do not know better; the declared type is used instead
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream', 'binary/octet-stream'];
+
+// Networks imports may not reach: this host, private and shared networks, link-local,
+// multicast and reserved ranges. IPv4-mapped IPv6 addresses are checked as IPv4.
+const PRIVATE_NETWORKS: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_NETWORKS.forEach(([network, prefix, type]) =>
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, type),
+);
+
+function isPrivate(addresses: LookupAddress[]): boolean {
+  return addresses.some(({ address, family }) =>
+    PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'),
+  );
+}
+
+// Resolves hosts for import connections and refuses private addresses, so a host cannot
+// pass the check before a request and then resolve to a private network for the connection
+const lookupPublic: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (isPrivate(addresses)) {
+      callback(
+        Object.assign(new Error(`${hostname} resolves to a private address`), { code: 'EACCES' }),
+        '',
+      );
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Connections of import downloads
+const IMPORT_AGENT = new Agent({ connect: { lookup: lookupPublic } });
 
 /**
  * Media Service
- * 
+ *
  * Business logic layer for media operations.
  * Handles file uploads, CDN URL generation, and thumbnail creation.
  */
@@ -46,23 +108,14 @@ export class MediaService {
     }
 
     // Generate storage key
-    const storageKey = this.storageService.generateStorageKey(
-      contentId,
-      contentType,
-      filename,
-    );
+    const storageKey = this.storageService.generateStorageKey(contentId, contentType, filename);
 
     // Upload to object storage
-    const url = await this.storageService.uploadFile(
-      storageKey,
-      file,
-      mimeType,
-      {
-        contentId,
-        contentType,
-        originalFilename: filename,
-      },
-    );
+    const url = await this.storageService.uploadFile(storageKey, file, mimeType, {
+      contentId,
+      contentType,
+      originalFilename: filename,
+    });
 
     // Create media record
     const media = await this.mediaRepository.create({
@@ -79,6 +132,101 @@ export class MediaService {
     return media;
   }
 
+  /**
+   * Import a remote file (a podcast enclosure or artwork) for content
+   *
+   * Only http(s) URLs of public hosts are downloaded; redirects are followed by hand so each
+   * hop is checked too. The file is streamed into object storage when the host sends its
+   * length, and read into memory up to MAX_BUFFERED_BYTES otherwise. Its Content-Type must
+   * suit the kind; a generic one is replaced by the declared mimeType. Importing the same
+   * source URL for the same content again returns the existing media.
+   *
+   * @throws BadRequestException when the URL, the download or the file is rejected
+   */
+  async importFromUrl(
+    contentId: string,
+    contentType: ContentType,
+    sourceUrl: string,
+    kind: MediaAssetKind,
+    declaredMimeType?: string,
+  ): Promise<Media> {
+    const existing = await this.mediaRepository.findByContentIdAndSourceUrl(contentId, sourceUrl);
+    if (existing) {
+      return existing;
+    }
+
+    this.logger.log(`Importing ${kind} for content: ${contentId} from ${sourceUrl}`);
+
+    const url = this.parseImportUrl(sourceUrl);
+    const filename = this.importFilename(url, kind);
+    const response = await this.fetchPublic(url, sourceUrl);
+    if (!response.ok || !response.body) {
+      await response.body?.cancel();
+      throw new BadRequestException(`Failed to download ${sourceUrl}: HTTP ${response.status}`);
+    }
+
+    const maxSize =
+      kind === MediaAssetKind.ARTWORK
+        ? MEDIA_IMPORT_CONFIG.MAX_ARTWORK_BYTES
+        : MEDIA_IMPORT_CONFIG.MAX_ENCLOSURE_BYTES;
+    const lengthHeader = response.headers.get('content-length');
+    const contentLength = lengthHeader ? Number(lengthHeader) : undefined;
+    let mimeType: string;
+    try {
+      if (lengthHeader && !/^\d+$/.test(lengthHeader)) {
+        throw new BadRequestException(`Invalid Content-Length from ${sourceUrl}: ${lengthHeader}`);
+      }
+      mimeType = this.importMimeType(kind, response.headers.get('content-type'), declaredMimeType);
+      if (contentLength !== undefined && contentLength > maxSize) {
+        throw new BadRequestException(
+          `File size ${contentLength} exceeds maximum limit of ${maxSize}`,
+        );
+      }
+    } catch (error) {
+      await response.body.cancel();
+      throw error;
+    }
+
+    const storageKey = this.storageService.generateStorageKey(contentId, contentType, filename);
+    const storageMetadata = { contentId, contentType, sourceUrl };
+    const body = Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+
+    let storedUrl: string;
+    let fileSize: number;
+    if (contentLength !== undefined) {
+      storedUrl = await this.storageService.uploadStream(
+        storageKey,
+        body.pipe(this.limitBytes(contentLength)),
+        contentLength,
+        mimeType,
+        storageMetadata,
+      );
+      fileSize = contentLength;
+    } else {
+      const file = await this.readLimited(
+        body,
+        Math.min(maxSize, MEDIA_IMPORT_CONFIG.MAX_BUFFERED_BYTES),
+      );
+      storedUrl = await this.storageService.uploadFile(storageKey, file, mimeType, storageMetadata);
+      fileSize = file.length;
+    }
+
+    const media = await this.mediaRepository.create({
+      contentId,
+      contentType,
+      url: storedUrl,
+      thumbnailUrl: kind === MediaAssetKind.ARTWORK ? storedUrl : undefined,
+      storageType: STORAGE_CONFIG.PROVIDER as StorageType,
+      storageKey,
+      fileSize: BigInt(fileSize),
+      mimeType,
+      sourceUrl,
+    });
+
+    this.logger.log(`Media imported successfully: ${media.id}`);
+    return media;
+  }
+
   /**
    * Find media by ID
    */
@@ -106,7 +254,7 @@ export class MediaService {
     // Delete from object storage
     try {
       await this.storageService.deleteFile(media.storageKey);
-      
+
       // Delete thumbnail if exists
       if (media.thumbnailUrl) {
         const thumbnailKey = this.storageService.generateThumbnailKey(media.storageKey);
@@ -125,11 +273,7 @@ export class MediaService {
   /**
    * Generate thumbnail for media
    */
-  async generateThumbnail(
-    id: string,
-    width: number = 320,
-    height: number = 240,
-  ): Promise<Media> {
+  async generateThumbnail(id: string, width: number = 320, height: number = 240): Promise<Media> {
     this.logger.log(`Generating thumbnail for media: ${id}`);
 
     const media = await this.findOne(id);
@@ -143,7 +287,7 @@ export class MediaService {
     const thumbnailKey = this.storageService.generateThumbnailKey(media.storageKey);
 
     let thumbnailBuffer: Buffer;
-    
+
     if (media.mimeType.startsWith('image/')) {
       // For images, download from storage and generate thumbnail
       // Note: In production, you might want to use a CDN that generates thumbnails on-the-fly
@@ -194,6 +338,144 @@ export class MediaService {
     return updated;
   }
 
+  /**
+   * Parse a URL to import from (or a redirect to resolve against the URL it came from)
+   *
+   * @throws BadRequestException unless it is a valid http(s) URL
+   */
+  private parseImportUrl(href: string, base?: URL): URL {
+    let url: URL;
+    try {
+      url = new URL(href, base);
+    } catch {
+      throw new BadRequestException(`Invalid import URL: ${href}`);
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new BadRequestException(`Only http and https URLs can be imported: ${href}`);
+    }
+    return url;
+  }
+
+  /**
+   * Name of an imported file: the last segment of its URL path, or its kind
+   */
+  private importFilename(url: URL, kind: MediaAssetKind): string {
+    try {
+      return decodeURIComponent(url.pathname.split('/').pop() || '') || kind.toLowerCase();
+    } catch {
+      throw new BadRequestException(`Invalid file name in import URL: ${url.pathname}`);
+    }
+  }
+
+  /**
+   * Request a URL, following up to MAX_REDIRECTS redirects
+   *
+   * Every hop is checked to resolve to public addresses before it is requested, and the
+   * connection itself only goes to public addresses.
+   */
+  private async fetchPublic(url: URL, sourceUrl: string): Promise<Response> {
+    const signal = AbortSignal.timeout(MEDIA_IMPORT_CONFIG.TIMEOUT_MS);
+
+    for (let redirects = 0; ; redirects++) {
+      await this.assertPublicHost(url);
+
+      let response: Response;
+      try {
+        response = await fetch(url, { signal, redirect: 'manual', dispatcher: IMPORT_AGENT });
+      } catch (error) {
+        throw new BadRequestException(`Failed to download ${sourceUrl}: ${error.message}`);
+      }
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      if (redirects >= MEDIA_IMPORT_CONFIG.MAX_REDIRECTS) {
+        throw new BadRequestException(`Failed to download ${sourceUrl}: too many redirects`);
+      }
+      url = this.parseImportUrl(location, url);
+    }
+  }
+
+  /**
+   * Check a host resolves to public addresses only
+   *
+   * @throws BadRequestException for hosts that do not resolve or reach a private network
+   */
+  private async assertPublicHost(url: URL): Promise<void> {
+    // IPv6 literals keep their brackets in URL.hostname
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+
+    let addresses: LookupAddress[];
+    try {
+      addresses = await lookup(hostname, { all: true, verbatim: true });
+    } catch (error) {
+      throw new BadRequestException(`Failed to resolve ${url.hostname}: ${error.code}`);
+    }
+
+    if (isPrivate(addresses)) {
+      throw new BadRequestException(`Importing from ${url.hostname} is not allowed`);
+    }
+  }
+
+  /**
+   * MIME type of an imported file, checked against its kind
+   */
+  private importMimeType(
+    kind: MediaAssetKind,
+    contentTypeHeader: string | null,
+    declaredMimeType?: string,
+  ): string {
+    const received = (contentTypeHeader || '').split(';')[0].trim().toLowerCase();
+    const mimeType = GENERIC_MIME_TYPES.includes(received)
+      ? (declaredMimeType || '').toLowerCase()
+      : received;
+
+    if (!ASSET_MIME_PREFIXES[kind].some((prefix) => mimeType.startsWith(prefix))) {
+      throw new BadRequestException(
+        `File type ${mimeType || 'unknown'} is not allowed for ${kind.toLowerCase()}`,
+      );
+    }
+    return mimeType;
+  }
+
+  /**
+   * Pass a stream through, failing it once it goes past the expected length
+   */
+  private limitBytes(limit: number): Transform {
+    let received = 0;
+    return new Transform({
+      transform(chunk: Buffer, encoding, callback) {
+        received += chunk.length;
+        if (received > limit) {
+          callback(new BadRequestException(`File is larger than its Content-Length ${limit}`));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+  }
+
+  /**
+   * Read a stream of unknown length into memory, up to a limit
+   */
+  private async readLimited(stream: Readable, limit: number): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of stream) {
+      size += chunk.length;
+      if (size > limit) {
+        stream.destroy();
+        throw new BadRequestException(`File size exceeds maximum limit of ${limit}`);
+      }
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
   /**
    * Get CDN URL for media
    */
@@ -210,16 +492,9 @@ export class MediaService {
     filename: string,
     mimeType: string,
   ): Promise<{ uploadUrl: string; storageKey: string }> {
-    const storageKey = this.storageService.generateStorageKey(
-      contentId,
-      contentType,
-      filename,
-    );
+    const storageKey = this.storageService.generateStorageKey(contentId, contentType, filename);
 
-    const uploadUrl = await this.storageService.generatePresignedUploadUrl(
-      storageKey,
-      mimeType,
-    );
+    const uploadUrl = await this.storageService.generatePresignedUploadUrl(storageKey, mimeType);
 
     return { uploadUrl, storageKey };
   }
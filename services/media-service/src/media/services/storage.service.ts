@@ -1,6 +1,7 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
 import { STORAGE_CONFIG } from '../../config/env.constants';
 
 /**
@@ -74,6 +75,38 @@ export class StorageService {
     }
   }
 
+  /**
+   * Upload a stream of known length to object storage
+   *
+   * The file is not held in memory, so large files (podcast enclosures) can be imported.
+   */
+  async uploadStream(
+    key: string,
+    body: Readable,
+    contentLength: number,
+    mimeType: string,
+    metadata?: Record<string, string>,
+  ): Promise<string> {
+    try {
+      const command = new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentLength: contentLength,
+        ContentType: mimeType,
+        Metadata: metadata,
+      });
+
+      await this.s3Client.send(command);
+      this.logger.log(`Stream uploaded successfully: ${key}`);
+
+      return this.getCDNUrl(key);
+    } catch (error) {
+      this.logger.error(`Failed to upload stream: ${key}`, error);
+      throw new BadRequestException(`Failed to upload file: ${error.message}`);
+    }
+  }
+
   /**
    * Delete file from object storage
    */
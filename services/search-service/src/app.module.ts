@@ -1,12 +1,36 @@
 import { Module } from '@nestjs/common';
+import { CacheModule } from '@nestjs/cache-manager';
+import { redisStore } from 'cache-manager-redis-yet';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { REDIS_CONFIG } from './config/env.constants';
 import { PrismaModule } from './prisma/prisma.module';
 import { SearchModule } from './search/search.module';
 import { KafkaModule } from './kafka/kafka.module';
 
 @Module({
-  imports: [PrismaModule, KafkaModule, SearchModule],
+  imports: [
+    CacheModule.registerAsync({
+      isGlobal: true,
+      useFactory: async () => {
+        const store = await redisStore({
+          socket: {
+            host: REDIS_CONFIG.HOST,
+            port: REDIS_CONFIG.PORT,
+          },
+          password: REDIS_CONFIG.PASSWORD,
+          database: REDIS_CONFIG.DB,
+        });
+        return {
+          store: () => store,
+          ttl: REDIS_CONFIG.TTL.SUGGEST * 1000,
+        };
+      },
+    }),
+    PrismaModule,
+    KafkaModule,
+    SearchModule,
+  ],
   controllers: [AppController],
   providers: [AppService],
 })
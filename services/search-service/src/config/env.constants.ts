@@ -45,6 +45,32 @@ export const KAFKA_CONFIG = {
 export const SEARCH_CONFIG = {
   MAX_RESULTS: parseInt(process.env.SEARCH_MAX_RESULTS || '100', 10),
   DEFAULT_LIMIT: parseInt(process.env.SEARCH_DEFAULT_LIMIT || '20', 10),
+  ENGINE: process.env.SEARCH_ENGINE || 'postgres', // postgres, dynamodb or opensearch
+  FACET_SIZE: parseInt(process.env.SEARCH_FACET_SIZE || '20', 10), // Buckets per facet
+  SUGGEST_LIMIT: parseInt(process.env.SEARCH_SUGGEST_LIMIT || '10', 10), // Completions per suggest
+  VOCABULARY_SIZE: parseInt(process.env.SEARCH_VOCABULARY_SIZE || '50000', 10), // Spelling words
+};
+
+// Redis configuration
+export const REDIS_CONFIG = {
+  HOST: process.env.REDIS_HOST || 'localhost',
+  PORT: parseInt(process.env.REDIS_PORT || '6379', 10),
+  PASSWORD: process.env.REDIS_PASSWORD,
+  DB: parseInt(process.env.REDIS_DB || '0', 10),
+  TTL: {
+    SUGGEST: parseInt(process.env.CACHE_TTL_SUGGEST || '300', 10), // 5 minutes
+    VOCABULARY: parseInt(process.env.CACHE_TTL_VOCABULARY || '3600', 10), // 1 hour
+  },
+};
+
+// OpenSearch / Elasticsearch configuration (SEARCH_ENGINE=opensearch)
+export const OPENSEARCH_CONFIG = {
+  URL: process.env.OPENSEARCH_URL || 'http://localhost:9200',
+  USERNAME: process.env.OPENSEARCH_USERNAME,
+  PASSWORD: process.env.OPENSEARCH_PASSWORD,
+  INDEX: process.env.OPENSEARCH_INDEX || 'mediamesh-content',
+  BULK_SIZE: parseInt(process.env.OPENSEARCH_BULK_SIZE || '500', 10),
+  TIMEOUT_MS: parseInt(process.env.OPENSEARCH_TIMEOUT_MS || '10000', 10),
 };
 
 // CMS Service configuration (for fetching content to index)
@@ -65,6 +65,81 @@ describe('KafkaConsumerService', () => {
     });
   });
 
+  describe('handleEvent', () => {
+    it('should skip season events', async () => {
+      await service['handleEvent']('content.created', {
+        metadata: { eventId: 'event-124' },
+        payload: { contentId: 'season-1', contentType: 'SEASON', title: 'Season 1' },
+      });
+      await service['handleEvent']('content.deleted', {
+        metadata: { eventId: 'event-125' },
+        payload: { contentId: 'season-1', contentType: 'SEASON', title: 'Season 1' },
+      });
+
+      expect(searchService.indexContent).not.toHaveBeenCalled();
+      expect(searchService.deleteFromIndex).not.toHaveBeenCalled();
+    });
+
+    it('should index published content on content.updated', async () => {
+      await service['handleEvent']('content.updated', {
+        metadata: { eventId: 'event-126' },
+        payload: {
+          contentId: 'content-123',
+          contentType: ContentType.PROGRAM,
+          title: 'Test Program',
+          status: 'PUBLISHED',
+          deletedAt: null,
+        },
+      });
+
+      expect(searchService.indexContent).toHaveBeenCalledWith(
+        expect.objectContaining({ contentId: 'content-123', title: 'Test Program' }),
+      );
+      expect(searchService.deleteFromIndex).not.toHaveBeenCalled();
+    });
+
+    it('should drop archived or trashed content from the index on content.updated', async () => {
+      await service['handleEvent']('content.updated', {
+        metadata: { eventId: 'event-127' },
+        payload: {
+          contentId: 'content-123',
+          contentType: ContentType.PROGRAM,
+          title: 'Test Program',
+          status: 'ARCHIVED',
+          deletedAt: null,
+        },
+      });
+      await service['handleEvent']('content.updated', {
+        metadata: { eventId: 'event-128' },
+        payload: {
+          contentId: 'content-124',
+          contentType: ContentType.EPISODE,
+          title: 'Test Episode',
+          status: 'PUBLISHED',
+          deletedAt: '2024-03-01T00:00:00.000Z',
+        },
+      });
+
+      expect(searchService.indexContent).not.toHaveBeenCalled();
+      expect(searchService.deleteFromIndex).toHaveBeenCalledWith('content-123');
+      expect(searchService.deleteFromIndex).toHaveBeenCalledWith('content-124');
+    });
+
+    it('should not index draft content on content.created', async () => {
+      await service['handleEvent']('content.created', {
+        metadata: { eventId: 'event-129' },
+        payload: {
+          contentId: 'content-125',
+          contentType: ContentType.PROGRAM,
+          title: 'Draft Program',
+          status: 'DRAFT',
+        },
+      });
+
+      expect(searchService.indexContent).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleContentDeleted', () => {
     it('should delete from index on content.deleted event', async () => {
       searchService.deleteFromIndex.mockResolvedValue(undefined);
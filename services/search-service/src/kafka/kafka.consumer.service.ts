@@ -2,7 +2,7 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { SearchService } from '../search/services/search.service';
 import { KAFKA_CONFIG } from '../config/env.constants';
 import { Kafka, Consumer } from 'kafkajs';
-import { ContentType } from '@mediamesh/shared';
+import { ContentStatus, ContentType } from '@mediamesh/shared';
 
 /**
  * Kafka Consumer Service
@@ -32,7 +32,9 @@ export class KafkaConsumerService implements OnModuleInit {
         'content.created',
         'content.updated',
         'content.published',
+        'content.unpublished',
         'content.deleted',
+        'content.archived',
       ],
     });
 
@@ -59,16 +61,31 @@ export class KafkaConsumerService implements OnModuleInit {
   private async handleEvent(topic: string, event: any): Promise<void> {
     this.logger.log(`Received event: ${topic}`, { eventId: event.metadata?.eventId });
 
+    // Seasons only group episodes, so they are not indexed on their own
+    if (event.payload?.contentType === 'SEASON') {
+      return;
+    }
+
     try {
       switch (topic) {
         case 'content.created':
         case 'content.updated':
+          // Only published content outside the trash is searchable; anything else is dropped
+          if (this.isSearchable(event.payload)) {
+            await this.handleContentEvent(event);
+          } else {
+            await this.handleContentRemoved(topic, event);
+          }
+          break;
+
         case 'content.published':
           await this.handleContentEvent(event);
           break;
 
+        case 'content.unpublished':
         case 'content.deleted':
-          await this.handleContentDeleted(event);
+        case 'content.archived':
+          await this.handleContentRemoved(topic, event);
           break;
 
         case 'ingest.completed':
@@ -84,6 +101,10 @@ export class KafkaConsumerService implements OnModuleInit {
     }
   }
 
+  private isSearchable(payload: any): boolean {
+    return payload?.status === ContentStatus.PUBLISHED && !payload.deletedAt;
+  }
+
   private async handleContentEvent(event: any): Promise<void> {
     const payload = event.payload;
     if (!payload) {
@@ -111,15 +132,16 @@ export class KafkaConsumerService implements OnModuleInit {
     this.logger.log(`Content indexed from event: ${payload.contentId}`);
   }
 
-  private async handleContentDeleted(event: any): Promise<void> {
+  private async handleContentRemoved(topic: string, event: any): Promise<void> {
     const payload = event.payload;
     if (!payload || !payload.contentId) {
-      this.logger.warn('Content ID missing in delete event');
+      this.logger.warn(`Content ID missing in ${topic} event`);
       return;
     }
 
+    // Unpublished and archived content is no longer discoverable, so it is dropped like deleted content
     await this.searchService.deleteFromIndex(payload.contentId);
-    this.logger.log(`Content deleted from index: ${payload.contentId}`);
+    this.logger.log(`Content removed from index (${topic}): ${payload.contentId}`);
   }
 
   private async handleIngestCompleted(event: any): Promise<void> {
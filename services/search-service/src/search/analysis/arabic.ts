@@ -0,0 +1,164 @@
+/**
+ * Arabic text analysis: letter normalization, stop words and a light stemmer
+ * after Larkey et al.'s Light10, which strips common prefixes and suffixes
+ * rather than deriving roots.
+ */
+
+// Tashkeel, Quranic annotation marks, superscript alef and tatweel
+const DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+
+// Hamza forms reach here as a bare letter plus a mark, removed as a diacritic
+const LETTER_VARIANTS: Record<string, string> = {
+  ٱ: 'ا', // alef wasla
+  ى: 'ي', // alef maksura
+  ی: 'ي', // Farsi yeh
+  ک: 'ك', // keheh
+  ة: 'ه', // taa marbuta
+};
+const LETTER_VARIANT_PATTERN = new RegExp(`[${Object.keys(LETTER_VARIANTS).join('')}]`, 'g');
+
+// Checked in order, at most one stripped
+const PREFIXES = ['ال', 'وال', 'بال', 'كال', 'فال', 'لل'];
+
+// Checked in order, each stripped once; written as normalized
+const SUFFIXES = ['ها', 'ان', 'ات', 'ون', 'ين', 'يه', 'ه', 'ي'];
+
+// Shortest stems left by stripping a prefix and a suffix. Light10 allows two
+// letters for both; three for suffixes keeps قرآن from losing its ان.
+const MIN_PREFIX_STEM_LENGTH = 2;
+const MIN_SUFFIX_STEM_LENGTH = 3;
+
+/**
+ * Written as is; compared after normalization
+ */
+export const ARABIC_STOP_WORDS = [
+  'في',
+  'من',
+  'إلى',
+  'على',
+  'عن',
+  'مع',
+  'حتى',
+  'منذ',
+  'خلال',
+  'بين',
+  'عند',
+  'لدى',
+  'نحو',
+  'حول',
+  'دون',
+  'ضد',
+  'تحت',
+  'فوق',
+  'أمام',
+  'خلف',
+  'بعد',
+  'قبل',
+  'و',
+  'أو',
+  'ثم',
+  'أم',
+  'بل',
+  'لكن',
+  'إذا',
+  'إذ',
+  'لو',
+  'كي',
+  'لأن',
+  'إن',
+  'أن',
+  'كأن',
+  'هذا',
+  'هذه',
+  'ذلك',
+  'تلك',
+  'هؤلاء',
+  'أولئك',
+  'هنا',
+  'هناك',
+  'الذي',
+  'التي',
+  'الذين',
+  'اللذان',
+  'اللتان',
+  'اللواتي',
+  'ما',
+  'ماذا',
+  'متى',
+  'أين',
+  'كيف',
+  'لماذا',
+  'كم',
+  'أي',
+  'هو',
+  'هي',
+  'هم',
+  'هن',
+  'هما',
+  'أنا',
+  'نحن',
+  'أنت',
+  'أنتم',
+  'أنتن',
+  'لا',
+  'لم',
+  'لن',
+  'ليس',
+  'ليست',
+  'قد',
+  'لقد',
+  'سوف',
+  'كان',
+  'كانت',
+  'يكون',
+  'تكون',
+  'كل',
+  'بعض',
+  'غير',
+  'أيضا',
+  'كما',
+  'مثل',
+  'عندما',
+  'حيث',
+  'جدا',
+  'فقط',
+  'كذلك',
+];
+
+/**
+ * Strip diacritics and tatweel and unify letter variants. Expects hamza
+ * carriers already decomposed (NFKD), so أ إ آ become ا, ؤ و and ئ ي.
+ */
+export function normalizeArabic(text: string): string {
+  return text
+    .replace(DIACRITICS, '')
+    .replace(LETTER_VARIANT_PATTERN, (letter) => LETTER_VARIANTS[letter]);
+}
+
+/**
+ * Light10 stem of a normalized word: a leading و, then one definite article
+ * prefix, then each suffix in turn
+ */
+export function stemArabic(word: string): string {
+  let stem = word;
+
+  if (stem.length >= 4 && stem.startsWith('و')) {
+    stem = stem.slice(1);
+  }
+
+  const prefix = PREFIXES.find(
+    (candidate) =>
+      stem.startsWith(candidate) && stem.length - candidate.length >= MIN_PREFIX_STEM_LENGTH,
+  );
+  if (prefix) {
+    stem = stem.slice(prefix.length);
+  }
+
+  for (const suffix of SUFFIXES) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= MIN_SUFFIX_STEM_LENGTH) {
+      stem = stem.slice(0, -suffix.length);
+    }
+  }
+
+  return stem;
+}
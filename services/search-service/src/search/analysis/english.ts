@@ -0,0 +1,166 @@
+/**
+ * English text analysis: stop words and a light stemmer that folds plurals,
+ * -ing, -ed and a final e, so "stories" finds "story" and "making" "make".
+ */
+
+export const ENGLISH_STOP_WORDS = [
+  'a',
+  'about',
+  'after',
+  'all',
+  'also',
+  'am',
+  'an',
+  'and',
+  'any',
+  'are',
+  'as',
+  'at',
+  'be',
+  'because',
+  'been',
+  'before',
+  'being',
+  'between',
+  'both',
+  'but',
+  'by',
+  'can',
+  'could',
+  'did',
+  'do',
+  'does',
+  'doing',
+  'down',
+  'during',
+  'each',
+  'few',
+  'for',
+  'from',
+  'further',
+  'had',
+  'has',
+  'have',
+  'having',
+  'he',
+  'her',
+  'here',
+  'hers',
+  'him',
+  'his',
+  'how',
+  'i',
+  'if',
+  'in',
+  'into',
+  'is',
+  'it',
+  'its',
+  'itself',
+  'just',
+  'me',
+  'more',
+  'most',
+  'my',
+  'no',
+  'nor',
+  'not',
+  'now',
+  'of',
+  'off',
+  'on',
+  'once',
+  'only',
+  'or',
+  'other',
+  'our',
+  'ours',
+  'out',
+  'over',
+  'own',
+  'same',
+  'she',
+  'should',
+  'so',
+  'some',
+  'such',
+  'than',
+  'that',
+  'the',
+  'their',
+  'theirs',
+  'them',
+  'then',
+  'there',
+  'these',
+  'they',
+  'this',
+  'those',
+  'through',
+  'to',
+  'too',
+  'under',
+  'until',
+  'up',
+  'very',
+  'was',
+  'we',
+  'were',
+  'what',
+  'when',
+  'where',
+  'which',
+  'while',
+  'who',
+  'whom',
+  'why',
+  'will',
+  'with',
+  'would',
+  'you',
+  'your',
+  'yours',
+];
+
+// Shortest stem left by stripping -ing or -ed
+const MIN_STEM_LENGTH = 3;
+
+const VOWEL = /[aeiouy]/;
+
+/**
+ * Light stem of a lowercase English word. Words of three letters or fewer,
+ * and words with letters outside a-z, are left as they are.
+ */
+export function stemEnglish(word: string): string {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let stem = word;
+
+  if (stem.endsWith('ies') && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (/(?:ss|us|is)$/.test(stem)) {
+    // class, bus, analysis
+  } else if (/(?:s|x|z|ch|sh)es$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith('s')) {
+    stem = stem.slice(0, -1);
+  }
+
+  if (stem.endsWith('ied') && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else {
+    const suffix = ['ing', 'ed'].find((candidate) => stem.endsWith(candidate));
+    const base = suffix ? stem.slice(0, -suffix.length) : '';
+    if (suffix && base.length >= MIN_STEM_LENGTH && VOWEL.test(base)) {
+      stem = base;
+    }
+  }
+
+  if (stem.length > 3 && stem.endsWith('e')) {
+    stem = stem.slice(0, -1);
+  }
+
+  return stem;
+}
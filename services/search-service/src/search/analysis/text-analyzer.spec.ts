@@ -0,0 +1,116 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { analyze, analyzeQuery, highlight, highlightFragments, normalize } from './text-analyzer';
+
+interface Corpus {
+  // Spellings of one word that must analyze to the same terms
+  equivalent: string[][];
+  analyzed: { text: string; terms: string[] }[];
+}
+
+function loadCorpus(name: string): Corpus {
+  return JSON.parse(readFileSync(join(__dirname, 'fixtures', `${name}.json`), 'utf8'));
+}
+
+describe('TextAnalyzer', () => {
+  describe.each(['arabic', 'english', 'transliteration'])('%s corpus', (name) => {
+    const corpus = loadCorpus(name);
+
+    it.each(corpus.equivalent.map((spellings) => [spellings.join(', '), spellings]))(
+      'should analyze %s to the same terms',
+      (_, spellings) => {
+        const [first, ...others] = spellings.map(analyze);
+
+        expect(first.length).toBeGreaterThan(0);
+        others.forEach((terms) => expect(terms).toEqual(first));
+      },
+    );
+
+    it.each(corpus.analyzed.map(({ text, terms }) => [text, terms]))(
+      'should analyze "%s"',
+      (text, terms) => {
+        expect(analyze(text)).toEqual(terms);
+      },
+    );
+  });
+
+  describe('normalize', () => {
+    it('should strip diacritics, tatweel and accents and unify letter forms', () => {
+      expect(normalize('القُـــرْآنُ')).toBe('القران');
+      expect(normalize('مدرسة على مستشفى')).toBe('مدرسه علي مستشفي');
+      expect(normalize('Crème Brûlée')).toBe('creme brulee');
+    });
+
+    it('should drop apostrophes and romanized ayn and hamza marks', () => {
+      expect(normalize("Qur'an Qurʾān Shiʿa")).toBe('quran quran shia');
+    });
+  });
+
+  describe('analyzeQuery', () => {
+    it('should drop stop words and repeated terms', () => {
+      expect(analyzeQuery('the stories of a story')).toEqual(['story']);
+      expect(analyzeQuery('في المدينة')).toEqual(['مدين']);
+    });
+
+    it('should keep stop words when the query has nothing else', () => {
+      expect(analyzeQuery('the')).toEqual(['the']);
+    });
+
+    it('should return nothing for a query without words', () => {
+      expect(analyzeQuery(' ?! ')).toEqual([]);
+    });
+  });
+
+  describe('highlight', () => {
+    it('should mark the original words whose terms start with a query term', () => {
+      expect(highlight('The Great Adventures', 'adventure')).toBe(
+        'The Great <mark>Adventures</mark>',
+      );
+      expect(highlight('رحلة المُغامَرة الكبرى', 'مغامره')).toBe(
+        'رحلة <mark>المُغامَرة</mark> الكبرى',
+      );
+      expect(highlight("A history of the Qur'an", 'quran')).toBe(
+        "A history of the <mark>Qur'an</mark>",
+      );
+    });
+
+    it('should return the text unchanged when nothing matches', () => {
+      expect(highlight('The Great Adventure', 'ocean')).toBe('The Great Adventure');
+    });
+
+    it('should escape HTML in the text before marking matches', () => {
+      expect(highlight('<script>alert("x")</script> & Adventure', 'adventure script')).toBe(
+        '&lt;<mark>script</mark>&gt;alert(&quot;x&quot;)&lt;/<mark>script</mark>&gt; &amp; <mark>Adventure</mark>',
+      );
+      expect(highlight('<b>Tom & Jerry</b>', 'ocean')).toBe('&lt;b&gt;Tom &amp; Jerry&lt;/b&gt;');
+    });
+  });
+
+  describe('highlightFragments', () => {
+    const words = Array.from({ length: 60 }, (_, index) => `word${index}`);
+
+    it('should cut a long text to fragments around the matches', () => {
+      words[10] = 'ocean';
+      words[50] = 'Oceans';
+
+      const fragments = highlightFragments(words.join(' '), 'ocean');
+
+      expect(fragments).toBe(
+        [
+          `${words.slice(2, 10).join(' ')} <mark>ocean</mark> ${words.slice(11, 19).join(' ')}`,
+          `${words.slice(42, 50).join(' ')} <mark>Oceans</mark> ${words.slice(51, 59).join(' ')}`,
+        ].join(' ... '),
+      );
+    });
+
+    it('should keep a short text whole', () => {
+      expect(highlightFragments('An epic sea story', 'stories')).toBe(
+        'An epic sea <mark>story</mark>',
+      );
+    });
+
+    it('should be undefined when nothing matches', () => {
+      expect(highlightFragments('An epic sea story', 'ocean')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { ARABIC_STOP_WORDS, normalizeArabic, stemArabic } from './arabic';
+import { ENGLISH_STOP_WORDS, stemEnglish } from './english';
+
+/**
+ * Text Analyzer
+ *
+ * Turns text into search terms, the same way at index and at query time:
+ *
+ * 1. normalize: lowercase, strip Latin accents and Arabic diacritics and
+ *    tatweel, unify alef, yaa and taa marbuta forms, drop apostrophes
+ * 2. tokenize on anything but letters and digits
+ * 3. drop Arabic and English stop words
+ * 4. stem: Light10 for Arabic script, a light English stemmer for a-z
+ * 5. fold transliteration: collapse doubled Latin letters
+ *
+ * Together with steps 1 and 5, "Qurʾān", "Qur'an" and "quran" are one term,
+ * as are "Mohammed" and "Mohamed".
+ *
+ * Stored search vectors keep the terms of the analysis they were written
+ * with: after changing it, POST /search/reindex recomputes all of them.
+ */
+
+// Apostrophes and the ayn and hamza marks of romanized Arabic
+const APOSTROPHES = /['`\u2018\u2019\u02BB\u02BC\u02BE\u02BF]/g;
+
+// Combining marks left on Latin letters by NFKD
+const LATIN_ACCENTS = /[\u0300-\u036F]/g;
+
+const WORD = /[\p{L}\p{M}\p{N}'`\u2018\u2019\u02BB\u02BC\u02BE\u02BF]+/gu;
+const NON_WORD = /[^\p{L}\p{M}\p{N}]+/u;
+const ARABIC_SCRIPT = /\p{Script=Arabic}/u;
+const LATIN = /^[a-z]+$/;
+
+// Articles of romanized Arabic, as in "al-Quds"
+const TRANSLITERATED_ARTICLES = ['al', 'el'];
+
+// Descriptions longer than this are cut to fragments around the matches
+const MAX_FRAGMENT_WORDS = 35;
+const FRAGMENT_CONTEXT_WORDS = 8;
+const MAX_FRAGMENTS = 2;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+};
+
+export function normalize(text: string): string {
+  return normalizeArabic(
+    text.normalize('NFKD').replace(LATIN_ACCENTS, '').replace(APOSTROPHES, ''),
+  ).toLowerCase();
+}
+
+const STOP_WORDS = new Set(
+  [...ARABIC_STOP_WORDS, ...ENGLISH_STOP_WORDS, ...TRANSLITERATED_ARTICLES].map(normalize),
+);
+
+function tokenize(normalized: string): string[] {
+  return normalized.split(NON_WORD).filter(Boolean);
+}
+
+/**
+ * Term of a normalized word, whether or not it is a stop word
+ */
+function stem(word: string): string {
+  if (ARABIC_SCRIPT.test(word)) {
+    return stemArabic(word);
+  }
+  if (LATIN.test(word)) {
+    return stemEnglish(word).replace(/([a-z])\1+/g, '$1');
+  }
+  return word;
+}
+
+/**
+ * Index terms of a text, in order
+ */
+export function analyze(text: string): string[] {
+  return tokenize(normalize(text || ''))
+    .filter((word) => !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Terms of a query, one per word. Stop words are dropped unless the query
+ * has nothing else, so that a word being typed, like "the" on the way to
+ * "theater", still matches as a prefix.
+ */
+export function analyzeQuery(query: string): string[] {
+  const words = tokenize(normalize(query || ''));
+  const content = words.filter((word) => !STOP_WORDS.has(word));
+  return [...new Set((content.length > 0 ? content : words).map(stem))];
+}
+
+interface MatchedWord {
+  start: number;
+  end: number;
+  matched: boolean;
+}
+
+/**
+ * Words of a text, marked where their term starts with a query term
+ */
+function matchWords(text: string, query: string): MatchedWord[] {
+  const terms = analyzeQuery(query);
+  return [...text.matchAll(WORD)].map((match) => {
+    const word = tokenize(normalize(match[0]))[0];
+    return {
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+      matched: !!word && terms.some((term) => stem(word).startsWith(term)),
+    };
+  });
+}
+
+/**
+ * Text as HTML, for highlights
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * HTML of words[from..to] and the text between them, matched words in <mark>
+ */
+function mark(text: string, words: MatchedWord[], from: number, to: number): string {
+  let marked = '';
+  let cursor = words[from].start;
+  for (const word of words.slice(from, to + 1)) {
+    const original = escapeHtml(text.slice(word.start, word.end));
+    marked += escapeHtml(text.slice(cursor, word.start));
+    marked += word.matched ? `<mark>${original}</mark>` : original;
+    cursor = word.end;
+  }
+  return marked;
+}
+
+/**
+ * Whole text as HTML, with the words matching the query wrapped in <mark>
+ */
+export function highlight(text: string, query: string): string {
+  const words = matchWords(text, query);
+  if (!words.some((word) => word.matched)) {
+    return escapeHtml(text);
+  }
+
+  const before = escapeHtml(text.slice(0, words[0].start));
+  const after = escapeHtml(text.slice(words[words.length - 1].end));
+  return `${before}${mark(text, words, 0, words.length - 1)}${after}`;
+}
+
+/**
+ * Up to MAX_FRAGMENTS fragments of a long text around the words matching
+ * the query, joined by " ... "; a short text whole. HTML like highlight().
+ * Undefined when nothing matches.
+ */
+export function highlightFragments(text: string, query: string): string | undefined {
+  const words = matchWords(text, query);
+  const matches = words.flatMap((word, index) => (word.matched ? [index] : []));
+  if (matches.length === 0) {
+    return undefined;
+  }
+  if (words.length <= MAX_FRAGMENT_WORDS) {
+    return highlight(text, query);
+  }
+
+  const fragments: [number, number][] = [];
+  for (const index of matches) {
+    const from = Math.max(0, index - FRAGMENT_CONTEXT_WORDS);
+    const to = Math.min(words.length - 1, index + FRAGMENT_CONTEXT_WORDS);
+    const previous = fragments[fragments.length - 1];
+    if (previous && from <= previous[1] + 1) {
+      previous[1] = to;
+    } else if (fragments.length < MAX_FRAGMENTS) {
+      fragments.push([from, to]);
+    } else {
+      break;
+    }
+  }
+
+  return fragments.map(([from, to]) => mark(text, words, from, to)).join(' ... ');
+}
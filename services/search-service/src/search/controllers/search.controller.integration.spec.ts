@@ -1,11 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import request from 'supertest';
 import { FastifyAdapter } from '@nestjs/platform-fastify';
 import { SearchController } from './search.controller';
 import { SearchService } from '../services/search.service';
+import { SuggestService } from '../services/suggest.service';
 import { SearchRepository } from '../repositories/search.repository';
+import { SEARCH_ENGINE } from '../repositories/search-engine.interface';
 import { SearchIndex } from '../entities/search-index.entity';
 import { ContentType, JwtAuthGuard, RolesGuard } from '@mediamesh/shared';
 
@@ -33,6 +36,10 @@ describe('SearchController (integration)', () => {
       upsert: jest.fn(),
       findByContentId: jest.fn(),
       search: jest.fn(),
+      facets: jest.fn(),
+      recordHits: jest.fn().mockResolvedValue(undefined),
+      completeTitles: jest.fn(),
+      vocabulary: jest.fn(),
       delete: jest.fn(),
       getAllContentIds: jest.fn(),
       count: jest.fn(),
@@ -43,10 +50,22 @@ describe('SearchController (integration)', () => {
       controllers: [SearchController],
       providers: [
         SearchService,
+        SuggestService,
         {
           provide: SearchRepository,
           useValue: mockRepository,
         },
+        {
+          provide: SEARCH_ENGINE,
+          useExisting: SearchRepository,
+        },
+        {
+          provide: CACHE_MANAGER,
+          useValue: {
+            get: jest.fn(),
+            set: jest.fn(),
+          },
+        },
         {
           provide: JwtService,
           useValue: {
@@ -132,6 +151,69 @@ describe('SearchController (integration)', () => {
         20,
       );
     });
+
+    it('should return facets when asked', async () => {
+      const facets = {
+        contentType: [{ value: 'PROGRAM', count: 1 }],
+        category: [{ value: 'MOVIE', count: 1 }],
+        language: [{ value: 'en', count: 1 }],
+        tags: [{ value: 'action', count: 1 }],
+      };
+      searchRepository.search.mockResolvedValue({ results: [mockIndex], total: 1 });
+      searchRepository.facets.mockResolvedValue(facets);
+
+      const response = await request(app.getHttpServer())
+        .get('/search')
+        .query({ q: 'test', category: 'MOVIE', facets: 'true' })
+        .expect(200);
+
+      expect(response.body.facets).toEqual(facets);
+      expect(searchRepository.facets).toHaveBeenCalledWith(
+        'test',
+        undefined,
+        'MOVIE',
+        undefined,
+        undefined,
+      );
+    });
+  });
+
+  describe('GET /search/suggest', () => {
+    it('should return completions and a correction', async () => {
+      searchRepository.completeTitles.mockResolvedValue([
+        { contentId: mockIndex.contentId, contentType: ContentType.PROGRAM, title: 'Test Program' },
+      ]);
+      searchRepository.vocabulary.mockResolvedValue([
+        { word: 'test', documents: 1 },
+        { word: 'program', documents: 1 },
+      ]);
+
+      const response = await request(app.getHttpServer())
+        .get('/search/suggest')
+        .query({ q: 'tset prog', contentType: 'PROGRAM', limit: '5' })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        query: 'tset prog',
+        completions: [
+          { contentId: mockIndex.contentId, contentType: 'PROGRAM', title: 'Test Program' },
+        ],
+        didYouMean: 'test prog',
+      });
+      expect(searchRepository.completeTitles).toHaveBeenCalledWith(
+        'tset prog',
+        5,
+        ContentType.PROGRAM,
+        undefined,
+      );
+    });
+
+    it('should reject a limit over 20', async () => {
+      await request(app.getHttpServer())
+        .get('/search/suggest')
+        .query({ q: 'test', limit: '50' })
+        .expect(400);
+    });
   });
 
   describe('POST /search/index', () => {
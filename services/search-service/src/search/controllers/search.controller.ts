@@ -18,10 +18,13 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { SearchService } from '../services/search.service';
+import { SuggestService } from '../services/suggest.service';
 import {
   SearchQueryDto,
+  SuggestQueryDto,
   IndexContentDto,
   SearchResultDto,
+  SuggestResultDto,
   IndexStatusDto,
 } from '../dto/search.dto';
 import { JwtAuthGuard, RolesGuard, Roles, Public } from '@mediamesh/shared';
@@ -35,13 +38,17 @@ import { UserRole } from '@mediamesh/shared';
  * - GET /search/status - Get indexing status
  * - POST /search/reindex - Reindex all content
  * - GET /search - Search content (public)
+ * - GET /search/suggest - Autocomplete a query (public)
  */
 @ApiTags('Search')
 @Controller('search')
 export class SearchController {
   private readonly logger = new Logger(SearchController.name);
 
-  constructor(private readonly searchService: SearchService) {}
+  constructor(
+    private readonly searchService: SearchService,
+    private readonly suggestService: SuggestService,
+  ) {}
 
   /**
    * Search content
@@ -57,6 +64,7 @@ export class SearchController {
   @ApiQuery({ name: 'tags', required: false, type: [String] })
   @ApiQuery({ name: 'page', required: false, type: Number })
   @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'facets', required: false, type: Boolean })
   @ApiResponse({
     status: 200,
     description: 'Search results',
@@ -71,10 +79,35 @@ export class SearchController {
       query.tags,
       query.page,
       query.limit,
+      query.facets,
     );
     return result;
   }
 
+  /**
+   * Suggest completions and spelling corrections
+   * GET /search/suggest
+   */
+  @Get('suggest')
+  @Public()
+  @ApiOperation({ summary: 'Autocomplete a search query' })
+  @ApiQuery({ name: 'q', type: String, description: 'What the user has typed so far' })
+  @ApiQuery({
+    name: 'contentType',
+    required: false,
+    enum: ['PROGRAM', 'EPISODE', 'MOVIE', 'SERIES'],
+  })
+  @ApiQuery({ name: 'language', required: false, type: String })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Title completions and a did-you-mean correction',
+    type: SuggestResultDto,
+  })
+  async suggest(@Query() query: SuggestQueryDto): Promise<SuggestResultDto> {
+    return this.suggestService.suggest(query.q, query.contentType, query.language, query.limit);
+  }
+
   /**
    * Manually index content
    * POST /search/index
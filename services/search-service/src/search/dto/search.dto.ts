@@ -4,11 +4,12 @@ import {
   IsOptional,
   IsEnum,
   IsArray,
+  IsBoolean,
   IsInt,
   Min,
   Max,
 } from 'class-validator';
-import { Type } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ContentType } from '@mediamesh/shared';
 
@@ -55,6 +56,42 @@ export class SearchQueryDto {
   @Min(1)
   @Max(100)
   limit?: number = 20;
+
+  @ApiPropertyOptional({
+    description: 'Also return facet counts of contentType, category, language and tags',
+    example: true,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  facets?: boolean = false;
+}
+
+/**
+ * Suggest Query DTO
+ */
+export class SuggestQueryDto {
+  @ApiProperty({ description: 'What the user has typed so far', example: 'great adv' })
+  @IsString()
+  q: string;
+
+  @ApiPropertyOptional({ description: 'Content type filter', enum: ContentType })
+  @IsOptional()
+  @IsEnum(ContentType)
+  contentType?: ContentType;
+
+  @ApiPropertyOptional({ description: 'Language filter', example: 'en' })
+  @IsOptional()
+  @IsString()
+  language?: string;
+
+  @ApiPropertyOptional({ description: 'Max completions', example: 10, minimum: 1, maximum: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  limit?: number;
 }
 
 /**
@@ -95,12 +132,100 @@ export class IndexContentDto {
   tags?: string[];
 }
 
+/**
+ * Search Highlight DTO
+ */
+export class SearchHighlightDto {
+  @ApiProperty({
+    description: 'Title as HTML-escaped text, with matched terms wrapped in <mark>',
+    example: 'The Great <mark>Adventure</mark>',
+  })
+  title: string;
+
+  @ApiPropertyOptional({
+    description: 'Fragments of the description around matched terms',
+    example: 'An epic <mark>adventure</mark> story',
+  })
+  description?: string;
+}
+
+/**
+ * Search Hit DTO
+ */
+export class SearchHitDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  contentId: string;
+
+  @ApiProperty({ enum: ContentType })
+  contentType: ContentType;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiPropertyOptional()
+  category?: string;
+
+  @ApiPropertyOptional()
+  language?: string;
+
+  @ApiProperty({ type: [String] })
+  tags: string[];
+
+  @ApiProperty()
+  indexedAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  @ApiPropertyOptional({
+    description: 'Matched terms, present when the query has words to match',
+    type: SearchHighlightDto,
+  })
+  highlight?: SearchHighlightDto;
+}
+
+/**
+ * Facet Bucket DTO
+ */
+export class FacetBucketDto {
+  @ApiProperty({ example: 'Documentary' })
+  value: string;
+
+  @ApiProperty({ example: 42 })
+  count: number;
+}
+
+/**
+ * Search Facets DTO
+ *
+ * Each facet counts the content matching the query and every other filter.
+ */
+export class SearchFacetsDto {
+  @ApiProperty({ type: [FacetBucketDto] })
+  contentType: FacetBucketDto[];
+
+  @ApiProperty({ type: [FacetBucketDto] })
+  category: FacetBucketDto[];
+
+  @ApiProperty({ type: [FacetBucketDto] })
+  language: FacetBucketDto[];
+
+  @ApiProperty({ type: [FacetBucketDto] })
+  tags: FacetBucketDto[];
+}
+
 /**
  * Search Result DTO
  */
 export class SearchResultDto {
-  @ApiProperty()
-  results: any[];
+  @ApiProperty({ description: 'Hits, best match first', type: [SearchHitDto] })
+  results: SearchHitDto[];
 
   @ApiProperty()
   total: number;
@@ -110,6 +235,45 @@ export class SearchResultDto {
 
   @ApiProperty()
   limit: number;
+
+  @ApiPropertyOptional({ description: 'Present when requested with facets=true' })
+  facets?: SearchFacetsDto;
+}
+
+/**
+ * Title Completion DTO
+ */
+export class TitleCompletionDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  contentId: string;
+
+  @ApiProperty({ enum: ContentType })
+  contentType: ContentType;
+
+  @ApiProperty({ example: 'The Great Adventure' })
+  title: string;
+}
+
+/**
+ * Suggest Result DTO
+ */
+export class SuggestResultDto {
+  @ApiProperty({ example: 'great adv' })
+  query: string;
+
+  @ApiProperty({
+    description: 'Titles completing the query, most popular then newest first',
+    type: [TitleCompletionDto],
+  })
+  completions: TitleCompletionDto[];
+
+  @ApiProperty({
+    description: 'Query with misspelled words replaced by indexed ones, or null',
+    type: String,
+    nullable: true,
+    example: null,
+  })
+  didYouMean: string | null;
 }
 
 /**
@@ -1,5 +1,13 @@
 import { ContentType } from '@mediamesh/shared';
 
+/**
+ * Matched terms of a search hit, wrapped in <mark>…</mark>
+ */
+export interface SearchHighlight {
+  title: string;
+  description?: string;
+}
+
 /**
  * Search Index Entity
  * 
@@ -16,6 +24,7 @@ export class SearchIndex {
   tags: string[];
   indexedAt: Date;
   updatedAt: Date;
+  highlight?: SearchHighlight; // Set on full-text search results
 
   constructor(partial: Partial<SearchIndex>) {
     Object.assign(this, partial);
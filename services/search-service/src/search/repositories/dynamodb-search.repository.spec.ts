@@ -120,6 +120,20 @@ describe('DynamoDBSearchRepository', () => {
 
       expect(result.results.length).toBeGreaterThan(0);
     });
+
+    it('should match titles regardless of accents and diacritics', async () => {
+      DYNAMODB_CONFIG.ENABLED = true;
+      dynamoDBService.query.mockResolvedValue([
+        { contentId: 'content-1', contentType: ContentType.PROGRAM, title: 'Café Stories' },
+        { contentId: 'content-2', contentType: ContentType.PROGRAM, title: 'المُغامَرة' },
+      ]);
+
+      const latin = await repository.search('cafe', ContentType.PROGRAM);
+      const arabic = await repository.search('مغامرة', ContentType.PROGRAM);
+
+      expect(latin.results.map((result) => result.contentId)).toEqual(['content-1']);
+      expect(arabic.results.map((result) => result.contentId)).toEqual(['content-2']);
+    });
   });
 
   describe('delete', () => {
@@ -134,4 +148,38 @@ describe('DynamoDBSearchRepository', () => {
       );
     });
   });
+
+  describe('facets', () => {
+    it('should count values of scanned items matching the other filters', async () => {
+      DYNAMODB_CONFIG.ENABLED = true;
+      const item = (contentType: ContentType, category: string, tags: string[]) => ({
+        contentId: `${contentType}-${category}`,
+        contentType,
+        title: 'Wild Planet',
+        category,
+        language: 'en',
+        tags,
+      });
+      dynamoDBService.scan.mockResolvedValueOnce([
+        item(ContentType.PROGRAM, 'Documentary', ['nature', 'planet']),
+        item(ContentType.EPISODE, 'Documentary', ['nature']),
+        item(ContentType.PROGRAM, 'Drama', []),
+      ]);
+
+      const facets = await repository.facets('wild', ContentType.PROGRAM, 'Documentary');
+
+      expect(facets.contentType).toEqual([
+        { value: ContentType.EPISODE, count: 1 },
+        { value: ContentType.PROGRAM, count: 1 },
+      ]);
+      expect(facets.category).toEqual([
+        { value: 'Documentary', count: 1 },
+        { value: 'Drama', count: 1 },
+      ]);
+      expect(facets.tags).toEqual([
+        { value: 'nature', count: 1 },
+        { value: 'planet', count: 1 },
+      ]);
+    });
+  });
 });
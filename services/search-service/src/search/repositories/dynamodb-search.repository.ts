@@ -1,8 +1,20 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { DynamoDBService } from '@mediamesh/shared';
-import { DYNAMODB_CONFIG } from '../../config/env.constants';
+import { DYNAMODB_CONFIG, SEARCH_CONFIG } from '../../config/env.constants';
 import { ContentType } from '@mediamesh/shared';
 import { SearchIndex } from '../entities/search-index.entity';
+import {
+  FACET_FIELDS,
+  FacetBucket,
+  SearchDocument,
+  SearchEngine,
+  SearchFacets,
+  SearchPage,
+} from './search-engine.interface';
+import { normalize } from '../analysis/text-analyzer';
+
+// Items scanned to count facets; counts are approximate beyond it
+const FACET_SCAN_LIMIT = 1000;
 
 /**
  * DynamoDB Search Repository
@@ -11,7 +23,7 @@ import { SearchIndex } from '../entities/search-index.entity';
  * Implements cache-aside pattern with PostgreSQL fallback.
  */
 @Injectable()
-export class DynamoDBSearchRepository implements OnModuleInit {
+export class DynamoDBSearchRepository implements SearchEngine, OnModuleInit {
   private readonly logger = new Logger(DynamoDBSearchRepository.name);
   private readonly searchIndexTable: string;
   private readonly ttlAttribute: string;
@@ -60,15 +72,7 @@ export class DynamoDBSearchRepository implements OnModuleInit {
   /**
    * Upsert search index in DynamoDB
    */
-  async upsert(data: {
-    contentId: string;
-    contentType: ContentType;
-    title: string;
-    description?: string;
-    category?: string;
-    language?: string;
-    tags?: string[];
-  }): Promise<SearchIndex | null> {
+  async upsert(data: SearchDocument): Promise<SearchIndex | null> {
     if (!DYNAMODB_CONFIG.ENABLED) {
       return null;
     }
@@ -146,7 +150,7 @@ export class DynamoDBSearchRepository implements OnModuleInit {
   /**
    * Search in DynamoDB
    * Note: DynamoDB doesn't support full-text search natively
-   * This is a simple implementation - for production, use OpenSearch/Elasticsearch
+   * This is a simple implementation - for production, use the OpenSearch engine
    */
   async search(
     query: string,
@@ -154,12 +158,15 @@ export class DynamoDBSearchRepository implements OnModuleInit {
     category?: string,
     language?: string,
     tags?: string[],
-    limit: number = 20,
-  ): Promise<{ results: SearchIndex[]; total: number }> {
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<SearchPage> {
     if (!DYNAMODB_CONFIG.ENABLED) {
       return { results: [], total: 0 };
     }
 
+    const limit = skip + take;
+
     try {
       let items: any[] = [];
 
@@ -184,33 +191,10 @@ export class DynamoDBSearchRepository implements OnModuleInit {
       }
 
       // Client-side filtering (for production, use OpenSearch)
-      let filtered = items;
-
-      if (query) {
-        const queryLower = query.toLowerCase();
-        filtered = filtered.filter(
-          (item) =>
-            item.title?.toLowerCase().includes(queryLower) ||
-            item.description?.toLowerCase().includes(queryLower),
-        );
-      }
-
-      if (category) {
-        filtered = filtered.filter((item) => item.category === category);
-      }
-
-      if (language) {
-        filtered = filtered.filter((item) => item.language === language);
-      }
-
-      if (tags && tags.length > 0) {
-        filtered = filtered.filter((item) =>
-          tags.some((tag) => item.tags?.includes(tag)),
-        );
-      }
+      const filtered = this.filterItems(items, query, undefined, category, language, tags);
 
-      // Limit results
-      const limited = filtered.slice(0, limit);
+      // Paginate results
+      const limited = filtered.slice(skip, limit);
 
       const results = limited.map(
         (item) =>
@@ -234,7 +218,64 @@ export class DynamoDBSearchRepository implements OnModuleInit {
       };
     } catch (error) {
       this.logger.error('Failed to search in DynamoDB:', error);
-      return { results: [], total: 0 }; // Fallback to PostgreSQL
+      throw error; // SearchService falls back to PostgreSQL
+    }
+  }
+
+  /**
+   * Count facet values in DynamoDB
+   * Note: counts the first FACET_SCAN_LIMIT items scanned, like search totals
+   */
+  async facets(
+    query: string,
+    contentType?: ContentType,
+    category?: string,
+    language?: string,
+    tags?: string[],
+  ): Promise<SearchFacets> {
+    const facets: SearchFacets = { contentType: [], category: [], language: [], tags: [] };
+    if (!DYNAMODB_CONFIG.ENABLED) {
+      return facets;
+    }
+
+    try {
+      const items = await this.dynamoDB.scan(
+        this.searchIndexTable,
+        undefined,
+        undefined,
+        FACET_SCAN_LIMIT,
+      );
+      const filters = { contentType, category, language, tags };
+
+      for (const field of FACET_FIELDS) {
+        const others = { ...filters, [field]: undefined };
+        const matched = this.filterItems(
+          items,
+          query,
+          others.contentType,
+          others.category,
+          others.language,
+          others.tags,
+        );
+
+        const counts = new Map<string, number>();
+        for (const item of matched) {
+          const values: string[] = field === 'tags' ? item.tags || [] : [item[field]];
+          for (const value of values.filter(Boolean)) {
+            counts.set(value, (counts.get(value) || 0) + 1);
+          }
+        }
+
+        facets[field] = [...counts]
+          .map(([value, count]): FacetBucket => ({ value, count }))
+          .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+          .slice(0, SEARCH_CONFIG.FACET_SIZE);
+      }
+
+      return facets;
+    } catch (error) {
+      this.logger.error('Failed to count facets in DynamoDB:', error);
+      throw error; // SearchService falls back to PostgreSQL
     }
   }
 
@@ -288,4 +329,46 @@ export class DynamoDBSearchRepository implements OnModuleInit {
       // Don't throw - fallback to PostgreSQL
     }
   }
+
+  /**
+   * Client-side filtering of scanned or queried items. The query matches as
+   * a substring of the normalized title or description.
+   */
+  private filterItems(
+    items: any[],
+    query?: string,
+    contentType?: ContentType,
+    category?: string,
+    language?: string,
+    tags?: string[],
+  ): any[] {
+    let filtered = items;
+
+    if (query) {
+      const normalized = normalize(query);
+      filtered = filtered.filter(
+        (item) =>
+          (item.title && normalize(item.title).includes(normalized)) ||
+          (item.description && normalize(item.description).includes(normalized)),
+      );
+    }
+
+    if (contentType) {
+      filtered = filtered.filter((item) => item.contentType === contentType);
+    }
+
+    if (category) {
+      filtered = filtered.filter((item) => item.category === category);
+    }
+
+    if (language) {
+      filtered = filtered.filter((item) => item.language === language);
+    }
+
+    if (tags && tags.length > 0) {
+      filtered = filtered.filter((item) => tags.some((tag) => item.tags?.includes(tag)));
+    }
+
+    return filtered;
+  }
 }
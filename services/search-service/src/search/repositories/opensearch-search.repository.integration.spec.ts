@@ -0,0 +1,95 @@
+import axios from 'axios';
+import { OpenSearchSearchRepository } from './opensearch-search.repository';
+import { OPENSEARCH_CONFIG } from '../../config/env.constants';
+import { SearchIndex } from '../entities/search-index.entity';
+import { ContentType } from '@mediamesh/shared';
+
+/**
+ * Runs against a real OpenSearch or Elasticsearch, e.g. the `opensearch`
+ * profile of compose.dev.yml:
+ *
+ *   OPENSEARCH_URL=http://localhost:9200 npx jest opensearch-search.repository.integration
+ */
+const describeWithOpenSearch = process.env.OPENSEARCH_URL ? describe : describe.skip;
+
+describeWithOpenSearch('OpenSearchSearchRepository (integration)', () => {
+  let repository: OpenSearchSearchRepository;
+  const defaultIndex = OPENSEARCH_CONFIG.INDEX;
+  const index = `${defaultIndex}-test-${Date.now()}`;
+  const http = axios.create({ baseURL: OPENSEARCH_CONFIG.URL });
+
+  const item = (contentId: string, title: string, language: string, tags: string[] = []) =>
+    new SearchIndex({
+      id: contentId,
+      contentId,
+      contentType: ContentType.PROGRAM,
+      title,
+      language,
+      tags,
+      indexedAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+    });
+
+  beforeAll(async () => {
+    OPENSEARCH_CONFIG.INDEX = index;
+    repository = new OpenSearchSearchRepository();
+
+    await repository.ensureIndex();
+    await repository.batchWrite([
+      item('content-1', 'Running with the wolves', 'en', ['nature']),
+      item('content-2', 'The quiet river', 'en', ['drama']),
+      item('content-3', 'المكتبات العامة', 'ar', ['culture']),
+    ]);
+    await http.post(`/${index}/_refresh`);
+  });
+
+  afterAll(async () => {
+    OPENSEARCH_CONFIG.INDEX = defaultIndex;
+    await http.delete(`/${index}`, { validateStatus: () => true });
+    await http.delete(`/_index_template/${index}`, { validateStatus: () => true });
+  });
+
+  it('should match stemmed words and highlight them', async () => {
+    const result = await repository.search('run');
+
+    expect(result.total).toBe(1);
+    expect(result.results[0].contentId).toBe('content-1');
+    expect(result.results[0].highlight?.title).toContain('<mark>Running</mark>');
+  });
+
+  it('should match a partial last word', async () => {
+    const result = await repository.search('quiet riv');
+
+    expect(result.results.map((hit) => hit.contentId)).toEqual(['content-2']);
+  });
+
+  it('should match Arabic through its analyzer', async () => {
+    const result = await repository.search('مكتبة');
+
+    expect(result.results.map((hit) => hit.contentId)).toEqual(['content-3']);
+  });
+
+  it('should apply filters', async () => {
+    const result = await repository.search('', undefined, undefined, 'en', ['drama']);
+
+    expect(result.results.map((hit) => hit.contentId)).toEqual(['content-2']);
+  });
+
+  it('should keep indexedAt when a document is updated', async () => {
+    const updated = await repository.upsert({
+      contentId: 'content-2',
+      contentType: ContentType.PROGRAM,
+      title: 'The quiet river, restored',
+      language: 'en',
+    });
+
+    expect(updated.title).toBe('The quiet river, restored');
+    expect(updated.indexedAt).toEqual(new Date('2024-01-01'));
+  });
+
+  it('should delete documents', async () => {
+    await repository.delete('content-1');
+
+    await expect(repository.findByContentId('content-1')).resolves.toBeNull();
+  });
+});
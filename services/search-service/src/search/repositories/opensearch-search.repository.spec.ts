@@ -0,0 +1,248 @@
+import axios from 'axios';
+import { OpenSearchSearchRepository } from './opensearch-search.repository';
+import { OPENSEARCH_CONFIG } from '../../config/env.constants';
+import { SearchIndex } from '../entities/search-index.entity';
+import { ContentType } from '@mediamesh/shared';
+
+jest.mock('axios');
+
+describe('OpenSearchSearchRepository', () => {
+  let repository: OpenSearchSearchRepository;
+  let http: { get: jest.Mock; head: jest.Mock; put: jest.Mock; post: jest.Mock; delete: jest.Mock };
+
+  const index = OPENSEARCH_CONFIG.INDEX;
+
+  const source = {
+    contentId: '550e8400-e29b-41d4-a716-446655440002',
+    contentType: 'PROGRAM',
+    title: 'The Great Adventure',
+    description: 'An epic adventure story',
+    category: null,
+    language: 'en',
+    tags: ['adventure'],
+    indexedAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    http = {
+      get: jest.fn(),
+      head: jest.fn(),
+      put: jest.fn().mockResolvedValue({ status: 200, data: {} }),
+      post: jest.fn(),
+      delete: jest.fn().mockResolvedValue({ status: 200, data: {} }),
+    };
+    (axios.create as jest.Mock).mockReturnValue(http);
+
+    repository = new OpenSearchSearchRepository();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('ensureIndex', () => {
+    it('should put the index template and create a missing index', async () => {
+      http.head.mockResolvedValue({ status: 404 });
+
+      await repository.ensureIndex();
+
+      expect(http.put).toHaveBeenCalledWith(
+        `/_index_template/${index}`,
+        expect.objectContaining({ index_patterns: [`${index}*`] }),
+      );
+      const mappings = http.put.mock.calls[0][1].template.mappings.properties;
+      expect(mappings.title.fields.arabic).toEqual({ type: 'text', analyzer: 'arabic' });
+      expect(mappings.tags.type).toBe('keyword');
+      expect(http.put).toHaveBeenCalledWith(`/${index}`);
+    });
+
+    it('should leave an existing index', async () => {
+      http.head.mockResolvedValue({ status: 200 });
+
+      await repository.ensureIndex();
+
+      expect(http.put).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('upsert', () => {
+    it('should update the document and keep indexedAt of an existing one', async () => {
+      http.post.mockResolvedValue({ data: { get: { _source: source } } });
+
+      const result = await repository.upsert({
+        contentId: source.contentId,
+        contentType: ContentType.PROGRAM,
+        title: source.title,
+        language: 'en',
+      });
+
+      const [path, body, config] = http.post.mock.calls[0];
+      expect(path).toBe(`/${index}/_update/${source.contentId}`);
+      expect(body.doc).not.toHaveProperty('indexedAt');
+      expect(body.upsert).toMatchObject({ title: source.title, indexedAt: expect.any(String) });
+      expect(config).toEqual({ params: { _source: true } });
+      expect(result.indexedAt).toEqual(new Date(source.indexedAt));
+    });
+  });
+
+  describe('search', () => {
+    it('should run a BM25 prefix query with filters and map highlights', async () => {
+      http.post.mockResolvedValue({
+        data: {
+          hits: {
+            total: { value: 1 },
+            hits: [
+              {
+                _source: source,
+                highlight: {
+                  'title.english': ['The Great <mark>Adventure</mark>'],
+                  description: ['An epic <mark>adventure</mark>', '<mark>adventure</mark> story'],
+                },
+              },
+            ],
+          },
+        },
+      });
+
+      const result = await repository.search(
+        'great adven',
+        ContentType.PROGRAM,
+        undefined,
+        'en',
+        ['adventure'],
+        20,
+        10,
+      );
+
+      const [path, body] = http.post.mock.calls[0];
+      expect(path).toBe(`/${index}/_search`);
+      expect(body.query.bool.must.multi_match).toMatchObject({
+        query: 'great adven',
+        type: 'bool_prefix',
+        operator: 'and',
+      });
+      expect(body.query.bool.filter).toEqual([
+        { term: { contentType: ContentType.PROGRAM } },
+        { term: { language: 'en' } },
+        { terms: { tags: ['adventure'] } },
+      ]);
+      expect(body).toMatchObject({ from: 20, size: 10, track_total_hits: true });
+      expect(body.highlight.encoder).toBe('html');
+      expect(result.total).toBe(1);
+      expect(result.results[0]).toBeInstanceOf(SearchIndex);
+      expect(result.results[0].highlight).toEqual({
+        title: 'The Great <mark>Adventure</mark>',
+        description: 'An epic <mark>adventure</mark> ... <mark>adventure</mark> story',
+      });
+    });
+
+    it('should escape the title of a hit whose title did not match', async () => {
+      http.post.mockResolvedValue({
+        data: {
+          hits: {
+            total: { value: 1 },
+            hits: [
+              {
+                _source: { ...source, title: 'Tom & Jerry <Live>' },
+                highlight: { description: ['An epic <mark>adventure</mark>'] },
+              },
+            ],
+          },
+        },
+      });
+
+      const result = await repository.search('adventure');
+
+      expect(result.results[0].highlight?.title).toBe('Tom &amp; Jerry &lt;Live&gt;');
+    });
+
+    it('should list filtered content newest first when the query is empty', async () => {
+      http.post.mockResolvedValue({ data: { hits: { total: { value: 0 }, hits: [] } } });
+
+      await repository.search('  ', undefined, 'news');
+
+      const body = http.post.mock.calls[0][1];
+      expect(body.query).toEqual({ bool: { filter: [{ term: { category: 'news' } }] } });
+      expect(body.sort).toEqual([{ indexedAt: 'desc' }]);
+      expect(body).not.toHaveProperty('highlight');
+    });
+  });
+
+  describe('findByContentId', () => {
+    it('should return null for a missing document', async () => {
+      http.get.mockResolvedValue({ status: 404, data: { found: false } });
+
+      await expect(repository.findByContentId('missing')).resolves.toBeNull();
+    });
+  });
+
+  describe('batchWrite', () => {
+    const item = new SearchIndex({
+      ...source,
+      id: source.contentId,
+      contentType: ContentType.PROGRAM,
+      category: undefined,
+      indexedAt: new Date(source.indexedAt),
+      updatedAt: new Date(source.updatedAt),
+    });
+
+    it('should send documents to the bulk API as NDJSON', async () => {
+      http.post.mockResolvedValue({ data: { errors: false, items: [] } });
+
+      await repository.batchWrite([item]);
+
+      const [path, body, config] = http.post.mock.calls[0];
+      expect(path).toBe('/_bulk');
+      expect(body.split('\n')).toEqual([
+        JSON.stringify({ index: { _index: index, _id: source.contentId } }),
+        JSON.stringify(source),
+        '',
+      ]);
+      expect(config.headers['Content-Type']).toBe('application/x-ndjson');
+    });
+
+    it('should throw when documents fail to index', async () => {
+      http.post.mockResolvedValue({
+        data: {
+          errors: true,
+          items: [{ index: { status: 400, error: { reason: 'mapper_parsing_exception' } } }],
+        },
+      });
+
+      await expect(repository.batchWrite([item])).rejects.toThrow(
+        'Bulk indexing failed for 1 of 1 documents: mapper_parsing_exception',
+      );
+    });
+  });
+
+  describe('facets', () => {
+    it('should aggregate each facet under every filter but its own', async () => {
+      const buckets = (key: string) => ({ values: { buckets: [{ key, doc_count: 2 }] } });
+      http.post.mockResolvedValue({
+        data: {
+          aggregations: {
+            contentType: buckets('PROGRAM'),
+            category: buckets('Documentary'),
+            language: buckets('en'),
+            tags: buckets('nature'),
+          },
+        },
+      });
+
+      const facets = await repository.facets('wild', undefined, 'Documentary', 'en');
+
+      const body = http.post.mock.calls[0][1];
+      expect(body.size).toBe(0);
+      expect(body.query.bool.must.multi_match.query).toBe('wild');
+      expect(body.aggs.category.filter.bool.filter).toEqual([{ term: { language: 'en' } }]);
+      expect(body.aggs.tags.filter.bool.filter).toEqual([
+        { term: { category: 'Documentary' } },
+        { term: { language: 'en' } },
+      ]);
+      expect(body.aggs.tags.aggs.values.terms).toEqual({ field: 'tags', size: 20 });
+      expect(facets.category).toEqual([{ value: 'Documentary', count: 2 }]);
+      expect(facets.tags).toEqual([{ value: 'nature', count: 2 }]);
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import axios, { AxiosInstance } from 'axios';
+import { ContentType } from '@mediamesh/shared';
+import { OPENSEARCH_CONFIG, SEARCH_CONFIG } from '../../config/env.constants';
+import { SearchHighlight, SearchIndex } from '../entities/search-index.entity';
+import {
+  FACET_FIELDS,
+  FacetBucket,
+  FacetField,
+  SearchDocument,
+  SearchEngine,
+  SearchEngineType,
+  SearchFacets,
+  SearchPage,
+} from './search-engine.interface';
+import { escapeHtml } from '../analysis/text-analyzer';
+
+// Analyzed once as-is and once per stemmed language
+const TEXT_FIELD = {
+  type: 'text',
+  fields: {
+    english: { type: 'text', analyzer: 'english' },
+    arabic: { type: 'text', analyzer: 'arabic' },
+  },
+};
+
+const QUERY_FIELDS = [
+  'title^3',
+  'title.english^3',
+  'title.arabic^3',
+  'description',
+  'description.english',
+  'description.arabic',
+  'tags.text^2',
+];
+
+// The html encoder escapes the text around the tags, as the Postgres highlighter does
+const HIGHLIGHT = {
+  encoder: 'html',
+  pre_tags: ['<mark>'],
+  post_tags: ['</mark>'],
+  fields: {
+    'title*': { number_of_fragments: 0 },
+    'description*': { fragment_size: 150, number_of_fragments: 2 },
+  },
+};
+
+interface SearchSource {
+  contentId: string;
+  contentType: string;
+  title: string;
+  description: string | null;
+  category: string | null;
+  language: string | null;
+  tags: string[];
+  indexedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * OpenSearch Search Repository
+ *
+ * Search engine backed by OpenSearch or Elasticsearch over their shared REST
+ * API. Documents are keyed by contentId and ranked by BM25.
+ */
+@Injectable()
+export class OpenSearchSearchRepository implements SearchEngine, OnModuleInit {
+  private readonly logger = new Logger(OpenSearchSearchRepository.name);
+  private readonly index = OPENSEARCH_CONFIG.INDEX;
+  private readonly http: AxiosInstance;
+
+  constructor() {
+    this.http = axios.create({
+      baseURL: OPENSEARCH_CONFIG.URL,
+      timeout: OPENSEARCH_CONFIG.TIMEOUT_MS,
+      auth: OPENSEARCH_CONFIG.USERNAME
+        ? { username: OPENSEARCH_CONFIG.USERNAME, password: OPENSEARCH_CONFIG.PASSWORD || '' }
+        : undefined,
+    });
+  }
+
+  async onModuleInit() {
+    if ((SEARCH_CONFIG.ENGINE as SearchEngineType) !== SearchEngineType.OPENSEARCH) {
+      return;
+    }
+
+    try {
+      await this.ensureIndex();
+      this.logger.log(`OpenSearch index ready: ${this.index}`);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to initialize OpenSearch index ${this.index}. ` +
+          `Searches will fall back to PostgreSQL: ${error.message || error}`,
+      );
+    }
+  }
+
+  /**
+   * Put the index template, then create the index if it does not exist
+   */
+  async ensureIndex(): Promise<void> {
+    await this.http.put(`/_index_template/${this.index}`, {
+      index_patterns: [`${this.index}*`],
+      template: {
+        mappings: {
+          dynamic: 'strict',
+          properties: {
+            contentId: { type: 'keyword' },
+            contentType: { type: 'keyword' },
+            title: TEXT_FIELD,
+            description: TEXT_FIELD,
+            category: { type: 'keyword' },
+            language: { type: 'keyword' },
+            tags: { type: 'keyword', fields: { text: { type: 'text' } } },
+            indexedAt: { type: 'date' },
+            updatedAt: { type: 'date' },
+          },
+        },
+      },
+    });
+
+    const existing = await this.http.head(`/${this.index}`, {
+      validateStatus: (status) => status === 200 || status === 404,
+    });
+    if (existing.status === 404) {
+      await this.http.put(`/${this.index}`);
+    }
+  }
+
+  /**
+   * Create or update a document, keeping indexedAt of an existing one
+   */
+  async upsert(data: SearchDocument): Promise<SearchIndex> {
+    const now = new Date();
+    const { indexedAt, ...doc } = this.toSource(
+      new SearchIndex({ ...data, tags: data.tags || [], indexedAt: now, updatedAt: now }),
+    );
+
+    const response = await this.http.post(
+      `/${this.index}/_update/${encodeURIComponent(data.contentId)}`,
+      { doc, upsert: { ...doc, indexedAt } },
+      { params: { _source: true } },
+    );
+
+    return this.fromSource(response.data.get._source);
+  }
+
+  /**
+   * Get a document by content ID
+   */
+  async findByContentId(contentId: string): Promise<SearchIndex | null> {
+    const response = await this.http.get(this.documentPath(contentId), {
+      validateStatus: (status) => status === 200 || status === 404,
+    });
+
+    return response.status === 200 ? this.fromSource(response.data._source) : null;
+  }
+
+  /**
+   * BM25 match of every word of the query, the last one as a prefix, across
+   * title, description and tags
+   */
+  async search(
+    query: string,
+    contentType?: ContentType,
+    category?: string,
+    language?: string,
+    tags?: string[],
+    skip: number = 0,
+    take: number = 20,
+  ): Promise<SearchPage> {
+    const filter = Object.values(this.filterClauses(contentType, category, language, tags)).filter(
+      Boolean,
+    );
+
+    const must = this.textQuery(query);
+    const body = must
+      ? {
+          query: { bool: { must, filter } },
+          sort: ['_score', { indexedAt: 'desc' }],
+          highlight: HIGHLIGHT,
+        }
+      : {
+          query: { bool: { filter } },
+          sort: [{ indexedAt: 'desc' }],
+        };
+
+    const response = await this.http.post(`/${this.index}/_search`, {
+      ...body,
+      from: skip,
+      size: take,
+      track_total_hits: true,
+    });
+
+    return {
+      results: response.data.hits.hits.map((hit: any) => {
+        const index = this.fromSource(hit._source);
+        if (hit.highlight) {
+          index.highlight = this.toHighlight(index, hit.highlight);
+        }
+        return index;
+      }),
+      total: response.data.hits.total.value,
+    };
+  }
+
+  /**
+   * Count facet values with one filter aggregation per facet, each applying
+   * every filter but the facet's own
+   */
+  async facets(
+    query: string,
+    contentType?: ContentType,
+    category?: string,
+    language?: string,
+    tags?: string[],
+  ): Promise<SearchFacets> {
+    const filters = this.filterClauses(contentType, category, language, tags);
+    const must = this.textQuery(query);
+
+    const aggs = Object.fromEntries(
+      FACET_FIELDS.map((field) => [
+        field,
+        {
+          filter: {
+            bool: {
+              filter: FACET_FIELDS.filter((other) => other !== field && filters[other]).map(
+                (other) => filters[other],
+              ),
+            },
+          },
+          aggs: { values: { terms: { field, size: SEARCH_CONFIG.FACET_SIZE } } },
+        },
+      ]),
+    );
+
+    const response = await this.http.post(`/${this.index}/_search`, {
+      query: must ? { bool: { must } } : { match_all: {} },
+      size: 0,
+      aggs,
+    });
+
+    const buckets = (field: FacetField): FacetBucket[] =>
+      response.data.aggregations[field].values.buckets.map((bucket: any) => ({
+        value: bucket.key,
+        count: bucket.doc_count,
+      }));
+
+    return {
+      contentType: buckets('contentType'),
+      category: buckets('category'),
+      language: buckets('language'),
+      tags: buckets('tags'),
+    };
+  }
+
+  /**
+   * Delete a document
+   */
+  async delete(contentId: string): Promise<void> {
+    await this.http.delete(this.documentPath(contentId), {
+      validateStatus: (status) => status === 200 || status === 404,
+    });
+  }
+
+  /**
+   * Index documents with the bulk API, OPENSEARCH_CONFIG.BULK_SIZE at a time
+   */
+  async batchWrite(items: SearchIndex[]): Promise<void> {
+    for (let start = 0; start < items.length; start += OPENSEARCH_CONFIG.BULK_SIZE) {
+      const batch = items.slice(start, start + OPENSEARCH_CONFIG.BULK_SIZE);
+      const lines = batch.flatMap((item) => [
+        JSON.stringify({ index: { _index: this.index, _id: item.contentId } }),
+        JSON.stringify(this.toSource(item)),
+      ]);
+
+      const response = await this.http.post('/_bulk', `${lines.join('\n')}\n`, {
+        headers: { 'Content-Type': 'application/x-ndjson' },
+      });
+
+      if (response.data.errors) {
+        const failed = response.data.items.filter((item: any) => item.index?.error);
+        throw new Error(
+          `Bulk indexing failed for ${failed.length} of ${batch.length} documents: ` +
+            `${failed[0]?.index.error.reason}`,
+        );
+      }
+    }
+
+    this.logger.debug(`Bulk indexed ${items.length} documents in OpenSearch`);
+  }
+
+  /**
+   * BM25 match of every word of the query, the last one as a prefix. Null
+   * for a query without words.
+   */
+  private textQuery(query: string): object | null {
+    const text = (query || '').trim();
+    return text
+      ? { multi_match: { query: text, type: 'bool_prefix', operator: 'and', fields: QUERY_FIELDS } }
+      : null;
+  }
+
+  private filterClauses(
+    contentType?: ContentType,
+    category?: string,
+    language?: string,
+    tags?: string[],
+  ): Record<FacetField, object | undefined> {
+    return {
+      contentType: contentType ? { term: { contentType } } : undefined,
+      category: category ? { term: { category } } : undefined,
+      language: language ? { term: { language } } : undefined,
+      tags: tags && tags.length > 0 ? { terms: { tags } } : undefined,
+    };
+  }
+
+  private documentPath(contentId: string): string {
+    return `/${this.index}/_doc/${encodeURIComponent(contentId)}`;
+  }
+
+  private toSource(index: SearchIndex): SearchSource {
+    return {
+      contentId: index.contentId,
+      contentType: index.contentType,
+      title: index.title,
+      description: index.description ?? null,
+      category: index.category ?? null,
+      language: index.language ?? null,
+      tags: index.tags || [],
+      indexedAt: index.indexedAt.toISOString(),
+      updatedAt: index.updatedAt.toISOString(),
+    };
+  }
+
+  private fromSource(source: SearchSource): SearchIndex {
+    return new SearchIndex({
+      id: source.contentId,
+      contentId: source.contentId,
+      contentType: source.contentType as ContentType,
+      title: source.title,
+      description: source.description ?? undefined,
+      category: source.category ?? undefined,
+      language: source.language ?? undefined,
+      tags: source.tags || [],
+      indexedAt: new Date(source.indexedAt),
+      updatedAt: new Date(source.updatedAt),
+    });
+  }
+
+  /**
+   * Highlights of the plain field, else of the first stemmed one that matched
+   */
+  private toHighlight(index: SearchIndex, highlight: Record<string, string[]>): SearchHighlight {
+    const fragments = (field: string) =>
+      highlight[field] ?? highlight[`${field}.english`] ?? highlight[`${field}.arabic`];
+
+    return {
+      title: fragments('title')?.[0] ?? escapeHtml(index.title),
+      description: fragments('description')?.join(' ... '),
+    };
+  }
+}
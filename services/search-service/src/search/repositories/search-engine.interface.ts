@@ -0,0 +1,96 @@
+import { ContentType } from '@mediamesh/shared';
+import { SearchIndex } from '../entities/search-index.entity';
+
+/**
+ * Injection token of the SearchEngine selected by SEARCH_CONFIG.ENGINE
+ */
+export const SEARCH_ENGINE = 'SEARCH_ENGINE';
+
+export enum SearchEngineType {
+  POSTGRES = 'postgres',
+  DYNAMODB = 'dynamodb',
+  OPENSEARCH = 'opensearch',
+}
+
+export interface SearchDocument {
+  contentId: string;
+  contentType: ContentType;
+  title: string;
+  description?: string;
+  category?: string;
+  language?: string;
+  tags?: string[];
+}
+
+export interface SearchPage {
+  results: SearchIndex[];
+  total: number;
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+/**
+ * Most frequent values of each filterable field, most frequent first
+ */
+export interface SearchFacets {
+  contentType: FacetBucket[];
+  category: FacetBucket[];
+  language: FacetBucket[];
+  tags: FacetBucket[];
+}
+
+export type FacetField = keyof SearchFacets;
+
+export const FACET_FIELDS: FacetField[] = ['contentType', 'category', 'language', 'tags'];
+
+/**
+ * Search Engine
+ *
+ * Backend that stores search documents and answers queries. PostgreSQL
+ * (SearchRepository) is always written; another selected engine mirrors it.
+ */
+export interface SearchEngine {
+  /**
+   * Create or replace the document of a content item. Null when the engine
+   * skipped the write.
+   */
+  upsert(data: SearchDocument): Promise<SearchIndex | null>;
+
+  findByContentId(contentId: string): Promise<SearchIndex | null>;
+
+  /**
+   * Best matches of the query first; without words to match, the filtered
+   * content newest first
+   */
+  search(
+    query: string,
+    contentType?: ContentType,
+    category?: string,
+    language?: string,
+    tags?: string[],
+    skip?: number,
+    take?: number,
+  ): Promise<SearchPage>;
+
+  /**
+   * Counts of the documents matching the query and every filter except the
+   * facet's own, so a facet keeps showing the values its filter can switch to
+   */
+  facets(
+    query: string,
+    contentType?: ContentType,
+    category?: string,
+    language?: string,
+    tags?: string[],
+  ): Promise<SearchFacets>;
+
+  delete(contentId: string): Promise<void>;
+
+  /**
+   * Write many documents at once, as on a reindex
+   */
+  batchWrite(items: SearchIndex[]): Promise<void>;
+}
@@ -0,0 +1,306 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SearchRepository } from './search.repository';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ContentType } from '@mediamesh/shared';
+
+describe('SearchRepository', () => {
+  let repository: SearchRepository;
+  let prisma: {
+    searchIndex: {
+      upsert: jest.Mock;
+      findMany: jest.Mock;
+      count: jest.Mock;
+      deleteMany: jest.Mock;
+    };
+    $executeRawUnsafe: jest.Mock;
+    $queryRawUnsafe: jest.Mock;
+  };
+
+  const mockRow = {
+    id: '550e8400-e29b-41d4-a716-446655440001',
+    contentId: '550e8400-e29b-41d4-a716-446655440002',
+    contentType: 'PROGRAM',
+    title: 'The Great Adventure',
+    description: 'An epic adventure story',
+    category: null,
+    language: 'en',
+    tags: ['adventure'],
+    indexedAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      searchIndex: {
+        upsert: jest.fn().mockResolvedValue(mockRow),
+        findMany: jest.fn().mockResolvedValue([mockRow]),
+        count: jest.fn().mockResolvedValue(1),
+        deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+      $executeRawUnsafe: jest.fn().mockResolvedValue(1),
+      $queryRawUnsafe: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchRepository,
+        {
+          provide: PrismaService,
+          useValue: prisma,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<SearchRepository>(SearchRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('upsert', () => {
+    const data = {
+      contentId: mockRow.contentId,
+      contentType: ContentType.PROGRAM,
+      title: mockRow.title,
+    };
+
+    it('should build the search vector from the analyzed text', async () => {
+      await repository.upsert({
+        ...data,
+        description: 'Stories of the Sea',
+        tags: ['Sailing', 'Ships'],
+        language: 'fr',
+      });
+
+      const [sql, ...params] = prisma.$executeRawUnsafe.mock.calls[0];
+      expect(sql).toContain('UPDATE "search_index" SET "searchVector"');
+      expect(sql).toContain(`setweight(to_tsvector($2::regconfig, $3), 'A')`);
+      expect(params).toEqual([
+        mockRow.contentId,
+        'french',
+        'great adventur',
+        'story sea',
+        'sail ship',
+      ]);
+    });
+
+    it('should index English and Arabic in the simple config', async () => {
+      await repository.upsert({ ...data, language: 'en' });
+      await repository.upsert({ ...data, title: 'المُغامَرة الكبيرة', language: 'ar' });
+
+      expect(prisma.$executeRawUnsafe.mock.calls[0][2]).toBe('simple');
+      expect(prisma.$executeRawUnsafe.mock.calls[1].slice(2, 4)).toEqual(['simple', 'مغامر كبير']);
+    });
+
+    it('should use the primary language of a regional tag', async () => {
+      await repository.upsert({ ...data, language: 'pt-BR' });
+
+      expect(prisma.$executeRawUnsafe.mock.calls[0][2]).toBe('portuguese');
+    });
+
+    it('should fall back to the simple config', async () => {
+      await repository.upsert({ ...data, language: 'sw' });
+      await repository.upsert(data);
+
+      expect(prisma.$executeRawUnsafe.mock.calls[0][2]).toBe('simple');
+      expect(prisma.$executeRawUnsafe.mock.calls[1][2]).toBe('simple');
+    });
+  });
+
+  describe('refreshSearchVectors', () => {
+    it('should compute the vector of each row missing one, a batch at a time', async () => {
+      const rows = Array.from({ length: 500 }, (_, index) => ({
+        contentId: `content-${String(index).padStart(3, '0')}`,
+        title: 'Stories of the Sea',
+        description: null,
+        language: null,
+        tags: [],
+      }));
+      prisma.$queryRawUnsafe.mockResolvedValueOnce(rows).mockResolvedValueOnce([]);
+
+      await expect(repository.refreshSearchVectors(true)).resolves.toBe(500);
+
+      const [sql, after] = prisma.$queryRawUnsafe.mock.calls[0];
+      expect(sql).toContain('"searchVector" IS NULL');
+      expect(after).toBe('');
+      expect(prisma.$queryRawUnsafe.mock.calls[1][1]).toBe('content-499');
+      expect(prisma.$executeRawUnsafe).toHaveBeenCalledTimes(500);
+      expect(prisma.$executeRawUnsafe.mock.calls[0].slice(1)).toEqual([
+        'content-000',
+        'simple',
+        'story sea',
+        '',
+        '',
+      ]);
+    });
+
+    it('should refresh every row unless asked for missing vectors only', async () => {
+      prisma.$queryRawUnsafe.mockResolvedValueOnce([]);
+
+      await repository.refreshSearchVectors();
+
+      expect(prisma.$queryRawUnsafe.mock.calls[0][0]).not.toContain('IS NULL');
+    });
+  });
+
+  describe('delete', () => {
+    it('should not fail when the entry is already gone', async () => {
+      await expect(repository.delete(mockRow.contentId)).resolves.toBeUndefined();
+
+      expect(prisma.searchIndex.deleteMany).toHaveBeenCalledWith({
+        where: { contentId: mockRow.contentId },
+      });
+    });
+  });
+
+  describe('search', () => {
+    beforeEach(() => {
+      prisma.$queryRawUnsafe.mockResolvedValueOnce([mockRow]).mockResolvedValueOnce([{ total: 1 }]);
+    });
+
+    it('should rank prefix matches of every word and highlight them', async () => {
+      const result = await repository.search('adven, stor!');
+
+      const [sql, tsquery, take, skip] = prisma.$queryRawUnsafe.mock.calls[0];
+      expect(tsquery).toBe('adven:* & stor:*');
+      expect(sql).toContain(`to_tsquery('french', $1) || to_tsquery('spanish', $1)`);
+      expect(sql).toContain(`to_tsquery('simple', $1)`);
+      expect(sql).toContain('ORDER BY ts_rank("searchVector", query.q) DESC, "indexedAt" DESC');
+      expect([take, skip]).toEqual([20, 0]);
+      expect(result.total).toBe(1);
+      expect(result.results[0]).toMatchObject({
+        contentId: mockRow.contentId,
+        contentType: ContentType.PROGRAM,
+        highlight: {
+          title: 'The Great <mark>Adventure</mark>',
+          description: 'An epic <mark>adventure</mark> <mark>story</mark>',
+        },
+      });
+    });
+
+    it('should match Arabic words whatever their diacritics and article', async () => {
+      await repository.search('المُغامَرة');
+
+      expect(prisma.$queryRawUnsafe.mock.calls[0][1]).toBe('مغامر:*');
+    });
+
+    it('should query only the config of the language filter', async () => {
+      await repository.search('adventure', ContentType.EPISODE, undefined, 'fr', ['drama'], 40, 20);
+
+      const [sql, ...params] = prisma.$queryRawUnsafe.mock.calls[0];
+      expect(sql).toContain(`(SELECT to_tsquery('french', $1) AS q)`);
+      expect(sql).not.toContain(`to_tsquery('english'`);
+      expect(sql).toContain(`"contentType" = $2::"ContentType"`);
+      expect(sql).toContain('"language" = $3');
+      expect(sql).toContain('"tags" && $4::text[]');
+      expect(params).toEqual(['adventur:*', ContentType.EPISODE, 'fr', ['drama'], 20, 40]);
+      expect(prisma.$queryRawUnsafe.mock.calls[1].slice(1)).toEqual([
+        'adventur:*',
+        ContentType.EPISODE,
+        'fr',
+        ['drama'],
+      ]);
+    });
+
+    it('should list filtered content newest first when the query has no words', async () => {
+      const result = await repository.search(' - ', ContentType.PROGRAM);
+
+      expect(prisma.$queryRawUnsafe).not.toHaveBeenCalled();
+      expect(prisma.searchIndex.findMany).toHaveBeenCalledWith({
+        where: { contentType: ContentType.PROGRAM },
+        skip: 0,
+        take: 20,
+        orderBy: { indexedAt: 'desc' },
+      });
+      expect(result.results[0].highlight).toBeUndefined();
+    });
+  });
+
+  describe('facets', () => {
+    beforeEach(() => {
+      prisma.$queryRawUnsafe.mockImplementation((sql: string) =>
+        Promise.resolve(
+          sql.includes('unnest("tags")')
+            ? [{ value: 'adventure', count: 3 }]
+            : [{ value: 'x', count: 1 }],
+        ),
+      );
+    });
+
+    it('should count each field against the query and the other filters', async () => {
+      const facets = await repository.facets('adven', ContentType.PROGRAM, 'Documentary');
+
+      expect(facets.tags).toEqual([{ value: 'adventure', count: 3 }]);
+      const calls = prisma.$queryRawUnsafe.mock.calls;
+      expect(calls).toHaveLength(4);
+
+      const [contentTypeSql, ...contentTypeParams] = calls[0];
+      expect(contentTypeSql).toContain('SELECT "contentType"::text AS "value"');
+      expect(contentTypeSql).toContain('GROUP BY "value"');
+      expect(contentTypeSql).not.toContain('"contentType" =');
+      expect(contentTypeParams).toEqual(['adven:*', 'Documentary', 20]);
+
+      const [categorySql, ...categoryParams] = calls[1];
+      expect(categorySql).toContain('"contentType" = $2::"ContentType"');
+      expect(categorySql).not.toContain('"category" =');
+      expect(categoryParams).toEqual(['adven:*', ContentType.PROGRAM, 20]);
+    });
+
+    it('should count all content when the query has no words', async () => {
+      await repository.facets('', undefined, undefined, 'en');
+
+      const [languageSql, ...languageParams] = prisma.$queryRawUnsafe.mock.calls[2];
+      expect(languageSql).not.toContain('@@');
+      expect(languageSql).not.toContain('WHERE "language"');
+      expect(languageParams).toEqual([20]);
+      expect(prisma.$queryRawUnsafe.mock.calls[3]).toEqual([expect.any(String), 'en', 20]);
+    });
+  });
+
+  describe('completeTitles', () => {
+    it('should match title prefixes most popular then newest first', async () => {
+      prisma.$queryRawUnsafe.mockResolvedValue([
+        { contentId: mockRow.contentId, contentType: 'PROGRAM', title: mockRow.title },
+      ]);
+
+      const completions = await repository.completeTitles('great adv', 5, undefined, 'en');
+
+      const [sql, ...params] = prisma.$queryRawUnsafe.mock.calls[0];
+      expect(sql).toContain(`(SELECT to_tsquery('simple', $1) AS q)`);
+      expect(sql).toContain('ORDER BY "popularity" DESC, "indexedAt" DESC');
+      expect(params).toEqual(['great:*A & adv:*A', 'en', 5]);
+      expect(completions).toEqual([
+        { contentId: mockRow.contentId, contentType: ContentType.PROGRAM, title: mockRow.title },
+      ]);
+    });
+
+    it('should not query for a query without words', async () => {
+      await expect(repository.completeTitles(' ', 5)).resolves.toEqual([]);
+      expect(prisma.$queryRawUnsafe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('vocabulary', () => {
+    it('should list unstemmed indexed words by document count', async () => {
+      prisma.$queryRawUnsafe.mockResolvedValue([{ word: 'adventure', documents: 3 }]);
+
+      await repository.vocabulary(100);
+
+      const [sql, limit] = prisma.$queryRawUnsafe.mock.calls[0];
+      expect(sql).toContain(`FROM ts_stat('SELECT to_tsvector(''simple'',`);
+      expect(sql).toContain('ORDER BY "ndoc" DESC');
+      expect(limit).toBe(100);
+    });
+  });
+
+  describe('recordHits', () => {
+    it('should add to the popularity of each hit', async () => {
+      await repository.recordHits([mockRow.contentId]);
+
+      const [sql, contentIds] = prisma.$executeRawUnsafe.mock.calls[0];
+      expect(sql).toContain('SET "popularity" = "popularity" + 1');
+      expect(contentIds).toEqual([mockRow.contentId]);
+    });
+  });
+});
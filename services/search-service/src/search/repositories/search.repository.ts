@@ -1,31 +1,130 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { SearchIndex } from '../entities/search-index.entity';
 import { ContentType } from '@mediamesh/shared';
+import { SEARCH_CONFIG } from '../../config/env.constants';
+import {
+  FACET_FIELDS,
+  FacetBucket,
+  SearchDocument,
+  SearchEngine,
+  SearchFacets,
+  SearchPage,
+} from './search-engine.interface';
+import { analyze, analyzeQuery, highlight, highlightFragments } from '../analysis/text-analyzer';
+
+/**
+ * Postgres text search config per SearchIndex.language, applied to the
+ * analyzed text. Other languages, English and Arabic among them, use
+ * `simple`: the text analyzer already stems them and drops their stop words.
+ */
+const TEXT_SEARCH_CONFIGS: Record<string, string> = {
+  fr: 'french',
+  es: 'spanish',
+  de: 'german',
+  it: 'italian',
+  pt: 'portuguese',
+  tr: 'turkish',
+};
+const DEFAULT_TEXT_SEARCH_CONFIG = 'simple';
+
+// Every config a row may be indexed in, for queries not filtered by language
+const QUERY_CONFIGS = [
+  ...new Set([...Object.values(TEXT_SEARCH_CONFIGS), DEFAULT_TEXT_SEARCH_CONFIG]),
+];
+
+// $2 is the row's config; $3, $4 and $5 its analyzed title, description and tags
+const SEARCH_VECTOR = `setweight(to_tsvector($2::regconfig, $3), 'A')
+  || setweight(to_tsvector($2::regconfig, $4), 'B')
+  || setweight(to_tsvector($2::regconfig, $5), 'C')`;
+
+// Rows whose search vector is recomputed at a time
+const SEARCH_VECTOR_BATCH_SIZE = 500;
+
+// Unstemmed words of every row, for spelling corrections
+const VOCABULARY_DOCUMENTS = `SELECT to_tsvector('${DEFAULT_TEXT_SEARCH_CONFIG}',
+  "title" || ' ' || coalesce("description", '')) FROM "search_index"`;
+
+function textSearchConfig(language?: string): string {
+  const code = language?.toLowerCase().split('-')[0];
+  return (code && TEXT_SEARCH_CONFIGS[code]) || DEFAULT_TEXT_SEARCH_CONFIG;
+}
+
+/**
+ * AND of every analyzed term in the query, each matching as a prefix so
+ * partial words find longer ones, and only lexemes of the given weights if
+ * any. Null when the query has no words.
+ */
+function toPrefixQuery(query: string, weights: string = ''): string | null {
+  const terms = analyzeQuery(query);
+  return terms.length > 0 ? terms.map((term) => `${term}:*${weights}`).join(' & ') : null;
+}
+
+interface SearchRow {
+  id: string;
+  contentId: string;
+  contentType: string;
+  title: string;
+  description: string | null;
+  category: string | null;
+  language: string | null;
+  tags: string[];
+  indexedAt: Date;
+  updatedAt: Date;
+}
+
+// Stored text a search vector is computed from
+interface VectorSource {
+  contentId: string;
+  title: string;
+  description?: string | null;
+  language?: string | null;
+  tags?: string[];
+}
+
+export interface TitleCompletion {
+  contentId: string;
+  contentType: ContentType;
+  title: string;
+}
+
+export interface VocabularyWord {
+  word: string;
+  documents: number;
+}
 
 /**
  * Search Repository
  * 
- * Data access layer for SearchIndex entities.
+ * Data access layer for SearchIndex entities. The PostgreSQL search engine,
+ * and the record other engines are rebuilt from.
  */
 @Injectable()
-export class SearchRepository {
+export class SearchRepository implements SearchEngine, OnModuleInit {
   private readonly logger = new Logger(SearchRepository.name);
 
   constructor(private readonly prisma: PrismaService) {}
 
+  /**
+   * Compute the search vector of rows that have none, such as rows indexed
+   * before full-text search. A failure is logged, not thrown: those rows are
+   * only missing from full-text results until the next start.
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      const updated = await this.refreshSearchVectors(true);
+      if (updated > 0) {
+        this.logger.log(`Computed the missing search vector of ${updated} rows`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to compute missing search vectors:', error);
+    }
+  }
+
   /**
    * Create or update search index entry
    */
-  async upsert(data: {
-    contentId: string;
-    contentType: ContentType;
-    title: string;
-    description?: string;
-    category?: string;
-    language?: string;
-    tags?: string[];
-  }): Promise<SearchIndex> {
+  async upsert(data: SearchDocument): Promise<SearchIndex> {
     const prismaIndex = await this.prisma.searchIndex.upsert({
       where: { contentId: data.contentId },
       create: {
@@ -46,9 +145,43 @@ export class SearchRepository {
       },
     });
 
+    await this.writeSearchVector(data);
+
     return SearchIndex.fromPrisma(prismaIndex);
   }
 
+  /**
+   * Recompute search vectors from the stored text, of the rows without one
+   * or of every row
+   *
+   * @returns number of rows updated
+   */
+  async refreshSearchVectors(missingOnly: boolean = false): Promise<number> {
+    let updated = 0;
+    let after = '';
+    for (;;) {
+      const rows = await this.prisma.$queryRawUnsafe<VectorSource[]>(
+        `SELECT "contentId", "title", "description", "language", "tags"
+        FROM "search_index"
+        WHERE "contentId" > $1${missingOnly ? ' AND "searchVector" IS NULL' : ''}
+        ORDER BY "contentId"
+        LIMIT $2`,
+        after,
+        SEARCH_VECTOR_BATCH_SIZE,
+      );
+
+      for (const row of rows) {
+        await this.writeSearchVector(row);
+      }
+      updated += rows.length;
+
+      if (rows.length < SEARCH_VECTOR_BATCH_SIZE) {
+        return updated;
+      }
+      after = rows[rows.length - 1].contentId;
+    }
+  }
+
   /**
    * Find search index by content ID
    */
@@ -62,6 +195,11 @@ export class SearchRepository {
 
   /**
    * Search content using full-text search
+   *
+   * Matches the analyzed query against each row's tsvector in the config of
+   * its language (or of the language filter), ranks hits by ts_rank and
+   * highlights the words whose terms matched. Without words to match, lists
+   * the filtered content newest first.
    */
   async search(
     query: string,
@@ -71,17 +209,222 @@ export class SearchRepository {
     tags?: string[],
     skip: number = 0,
     take: number = 20,
-  ): Promise<{ results: SearchIndex[]; total: number }> {
-    const where: any = {};
+  ): Promise<SearchPage> {
+    const tsquery = toPrefixQuery(query);
+    if (!tsquery) {
+      return this.browse(contentType, category, language, tags, skip, take);
+    }
+
+    const { from, params } = this.matching(tsquery, contentType, category, language, tags);
+
+    const [rows, counts] = await Promise.all([
+      this.prisma.$queryRawUnsafe<SearchRow[]>(
+        `SELECT "id", "contentId", "contentType"::text AS "contentType", "title",
+          "description", "category", "language", "tags", "indexedAt", "updatedAt"
+        ${from}
+        ORDER BY ts_rank("searchVector", query.q) DESC, "indexedAt" DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        ...params,
+        take,
+        skip,
+      ),
+      this.prisma.$queryRawUnsafe<{ total: number }[]>(
+        `SELECT COUNT(*)::int AS "total" ${from}`,
+        ...params,
+      ),
+    ]);
+
+    return {
+      results: rows.map((row) => {
+        const index = SearchIndex.fromPrisma(row);
+        index.highlight = {
+          title: highlight(row.title, query),
+          description: row.description ? highlightFragments(row.description, query) : undefined,
+        };
+        return index;
+      }),
+      total: counts[0]?.total ?? 0,
+    };
+  }
+
+  /**
+   * Count the values of each filterable field among the matching content
+   */
+  async facets(
+    query: string,
+    contentType?: ContentType,
+    category?: string,
+    language?: string,
+    tags?: string[],
+  ): Promise<SearchFacets> {
+    const tsquery = toPrefixQuery(query);
+    const filters = { contentType, category, language, tags };
+
+    const [contentTypes, categories, languages, tagValues] = await Promise.all(
+      FACET_FIELDS.map((field) => {
+        const others = { ...filters, [field]: undefined };
+        const { from, params } = this.matching(
+          tsquery,
+          others.contentType,
+          others.category,
+          others.language,
+          others.tags,
+        );
+        const value = field === 'tags' ? 'unnest("tags")' : `"${field}"::text`;
+
+        return this.prisma.$queryRawUnsafe(
+          `SELECT "value", COUNT(*)::int AS "count"
+          FROM (SELECT ${value} AS "value" ${from}) AS matched
+          WHERE "value" IS NOT NULL
+          GROUP BY "value"
+          ORDER BY "count" DESC, "value"
+          LIMIT $${params.length + 1}`,
+          ...params,
+          SEARCH_CONFIG.FACET_SIZE,
+        ) as Promise<FacetBucket[]>;
+      }),
+    );
+
+    return {
+      contentType: contentTypes,
+      category: categories,
+      language: languages,
+      tags: tagValues,
+    };
+  }
+
+  /**
+   * Titles with a word starting with each word of the query, most popular
+   * then newest first. Matches only the title (weight A) lexemes of the
+   * search vector, so its GIN index serves the lookup.
+   */
+  async completeTitles(
+    query: string,
+    limit: number,
+    contentType?: ContentType,
+    language?: string,
+  ): Promise<TitleCompletion[]> {
+    const tsquery = toPrefixQuery(query, 'A');
+    if (!tsquery) {
+      return [];
+    }
+
+    const { from, params } = this.matching(tsquery, contentType, undefined, language);
+    const rows: { contentId: string; contentType: string; title: string }[] =
+      await this.prisma.$queryRawUnsafe(
+        `SELECT "contentId", "contentType"::text AS "contentType", "title"
+        ${from}
+        ORDER BY "popularity" DESC, "indexedAt" DESC
+        LIMIT $${params.length + 1}`,
+        ...params,
+        limit,
+      );
+
+    return rows.map((row) => ({ ...row, contentType: row.contentType as ContentType }));
+  }
+
+  /**
+   * Words of the indexed titles and descriptions, unstemmed, in the most
+   * documents first
+   */
+  async vocabulary(limit: number): Promise<VocabularyWord[]> {
+    return this.prisma.$queryRawUnsafe(
+      `SELECT "word", "ndoc" AS "documents"
+      FROM ts_stat('${VOCABULARY_DOCUMENTS.replace(/'/g, "''")}')
+      ORDER BY "ndoc" DESC, "word"
+      LIMIT $1`,
+      limit,
+    );
+  }
+
+  /**
+   * Count an appearance on the first page of search results towards the
+   * popularity of each content item
+   */
+  async recordHits(contentIds: string[]): Promise<void> {
+    if (contentIds.length === 0) {
+      return;
+    }
+
+    await this.prisma.$executeRawUnsafe(
+      `UPDATE "search_index" SET "popularity" = "popularity" + 1
+      WHERE "contentId" = ANY($1::text[])`,
+      contentIds,
+    );
+  }
+
+  /**
+   * Store the search vector of a row, computed from its analyzed text
+   */
+  private async writeSearchVector(source: VectorSource): Promise<void> {
+    await this.prisma.$executeRawUnsafe(
+      `UPDATE "search_index" SET "searchVector" = ${SEARCH_VECTOR} WHERE "contentId" = $1`,
+      source.contentId,
+      textSearchConfig(source.language ?? undefined),
+      analyze(source.title).join(' '),
+      analyze(source.description || '').join(' '),
+      analyze((source.tags || []).join(' ')).join(' '),
+    );
+  }
+
+  /**
+   * FROM clause, and its parameters, of the content matching a tsquery (if
+   * any) and the filters. The tsquery is $1 and joined as `query.q`.
+   */
+  private matching(
+    tsquery: string | null,
+    contentType?: ContentType,
+    category?: string,
+    language?: string,
+    tags?: string[],
+  ): { from: string; params: unknown[] } {
+    const params: unknown[] = [];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
 
-    // Full-text search on title and description
-    if (query) {
-      where.OR = [
-        { title: { contains: query, mode: 'insensitive' } },
-        { description: { contains: query, mode: 'insensitive' } },
-      ];
+    let source = '"search_index"';
+    const conditions: string[] = [];
+    if (tsquery) {
+      const placeholder = param(tsquery);
+      const configs = language ? [textSearchConfig(language)] : QUERY_CONFIGS;
+      const tsqueries = configs
+        .map((config) => `to_tsquery('${config}', ${placeholder})`)
+        .join(' || ');
+      source += `, (SELECT ${tsqueries} AS q) AS query`;
+      conditions.push('"searchVector" @@ query.q');
+    }
+    if (contentType) {
+      conditions.push(`"contentType" = ${param(contentType)}::"ContentType"`);
+    }
+    if (category) {
+      conditions.push(`"category" = ${param(category)}`);
+    }
+    if (language) {
+      conditions.push(`"language" = ${param(language)}`);
+    }
+    if (tags && tags.length > 0) {
+      conditions.push(`"tags" && ${param(tags)}::text[]`);
     }
 
+    const where = conditions.length > 0 ? `\n      WHERE ${conditions.join(' AND ')}` : '';
+    return { from: `FROM ${source}${where}`, params };
+  }
+
+  /**
+   * List filtered content, newest first
+   */
+  private async browse(
+    contentType: ContentType | undefined,
+    category: string | undefined,
+    language: string | undefined,
+    tags: string[] | undefined,
+    skip: number,
+    take: number,
+  ): Promise<SearchPage> {
+    const where: any = {};
+
     // Filters
     if (contentType) {
       where.contentType = contentType;
@@ -115,14 +458,23 @@ export class SearchRepository {
   }
 
   /**
-   * Delete from search index
+   * Delete from search index (a no-op when the entry is already gone)
    */
   async delete(contentId: string): Promise<void> {
-    await this.prisma.searchIndex.delete({
+    await this.prisma.searchIndex.deleteMany({
       where: { contentId },
     });
   }
 
+  /**
+   * Upsert many entries
+   */
+  async batchWrite(items: SearchIndex[]): Promise<void> {
+    for (const item of items) {
+      await this.upsert(item);
+    }
+  }
+
   /**
    * Get all indexed content IDs
    */
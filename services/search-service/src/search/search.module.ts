@@ -2,15 +2,23 @@ import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { SearchController } from './controllers/search.controller';
 import { SearchService } from './services/search.service';
+import { SuggestService } from './services/suggest.service';
 import { SearchRepository } from './repositories/search.repository';
 import { DynamoDBSearchRepository } from './repositories/dynamodb-search.repository';
+import { OpenSearchSearchRepository } from './repositories/opensearch-search.repository';
+import {
+  SEARCH_ENGINE,
+  SearchEngine,
+  SearchEngineType,
+} from './repositories/search-engine.interface';
 import { DynamoDBModule } from '@mediamesh/shared';
-import { JWT_CONFIG } from '../config/env.constants';
+import { JWT_CONFIG, SEARCH_CONFIG } from '../config/env.constants';
 
 /**
  * Search Module
  * 
- * Module for search and indexing functionality.
+ * Module for search and indexing functionality. SEARCH_ENGINE is the
+ * backend named by SEARCH_CONFIG.ENGINE.
  */
 @Module({
   imports: [
@@ -23,7 +31,33 @@ import { JWT_CONFIG } from '../config/env.constants';
     }),
   ],
   controllers: [SearchController],
-  providers: [SearchService, SearchRepository, DynamoDBSearchRepository],
+  providers: [
+    SearchService,
+    SuggestService,
+    SearchRepository,
+    DynamoDBSearchRepository,
+    OpenSearchSearchRepository,
+    {
+      provide: SEARCH_ENGINE,
+      inject: [SearchRepository, DynamoDBSearchRepository, OpenSearchSearchRepository],
+      useFactory: (
+        postgres: SearchRepository,
+        dynamodb: DynamoDBSearchRepository,
+        opensearch: OpenSearchSearchRepository,
+      ): SearchEngine => {
+        switch (SEARCH_CONFIG.ENGINE as SearchEngineType) {
+          case SearchEngineType.POSTGRES:
+            return postgres;
+          case SearchEngineType.DYNAMODB:
+            return dynamodb;
+          case SearchEngineType.OPENSEARCH:
+            return opensearch;
+          default:
+            throw new Error(`Unknown search engine: ${SEARCH_CONFIG.ENGINE}`);
+        }
+      },
+    },
+  ],
   exports: [SearchService],
 })
 export class SearchModule {}
@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SearchService } from './search.service';
 import { SearchRepository } from '../repositories/search.repository';
+import { SEARCH_ENGINE, SearchEngine } from '../repositories/search-engine.interface';
 import { SearchIndex } from '../entities/search-index.entity';
 import { ContentType } from '@mediamesh/shared';
 import { IndexContentDto } from '../dto/search.dto';
@@ -28,6 +29,7 @@ describe('SearchService', () => {
       upsert: jest.fn(),
       findByContentId: jest.fn(),
       search: jest.fn(),
+      recordHits: jest.fn().mockResolvedValue(undefined),
       delete: jest.fn(),
       getAllContentIds: jest.fn(),
       count: jest.fn(),
@@ -41,6 +43,10 @@ describe('SearchService', () => {
           provide: SearchRepository,
           useValue: mockRepository,
         },
+        {
+          provide: SEARCH_ENGINE,
+          useExisting: SearchRepository,
+        },
       ],
     }).compile();
 
@@ -163,6 +169,24 @@ describe('SearchService', () => {
         20,
       );
     });
+
+    it('should add first page hits to their popularity', async () => {
+      repository.search.mockResolvedValue({ results: [mockIndex], total: 1 });
+
+      await service.search('test');
+      await service.search('test', undefined, undefined, undefined, undefined, 2, 20);
+      await service.search('  ', ContentType.PROGRAM);
+
+      expect(repository.recordHits).toHaveBeenCalledTimes(1);
+      expect(repository.recordHits).toHaveBeenCalledWith([mockIndex.contentId]);
+    });
+
+    it('should return results when hits fail to record', async () => {
+      repository.search.mockResolvedValue({ results: [mockIndex], total: 1 });
+      repository.recordHits.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.search('test')).resolves.toMatchObject({ total: 1 });
+    });
   });
 
   describe('getIndexingStatus', () => {
@@ -179,4 +203,125 @@ describe('SearchService', () => {
       });
     });
   });
+
+  describe('with a separate search engine', () => {
+    let engine: jest.Mocked<SearchEngine>;
+
+    beforeEach(async () => {
+      engine = {
+        upsert: jest.fn(),
+        findByContentId: jest.fn(),
+        search: jest.fn(),
+        facets: jest.fn(),
+        delete: jest.fn(),
+        batchWrite: jest.fn(),
+      };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          SearchService,
+          {
+            provide: SearchRepository,
+            useValue: repository,
+          },
+          {
+            provide: SEARCH_ENGINE,
+            useValue: engine,
+          },
+        ],
+      }).compile();
+
+      service = module.get<SearchService>(SearchService);
+    });
+
+    it('should index into PostgreSQL and the engine', async () => {
+      repository.upsert.mockResolvedValue(mockIndex);
+      engine.upsert.mockResolvedValue(mockIndex);
+
+      const result = await service.indexContent({
+        contentId: mockIndex.contentId,
+        contentType: ContentType.PROGRAM,
+        title: 'Test Program',
+      });
+
+      expect(result).toBe(mockIndex);
+      expect(repository.upsert).toHaveBeenCalled();
+      expect(engine.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ contentId: mockIndex.contentId, title: 'Test Program' }),
+      );
+    });
+
+    it('should keep the PostgreSQL write when the engine fails', async () => {
+      repository.upsert.mockResolvedValue(mockIndex);
+      engine.upsert.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await expect(
+        service.indexContent({
+          contentId: mockIndex.contentId,
+          contentType: ContentType.PROGRAM,
+          title: 'Test Program',
+        }),
+      ).resolves.toBe(mockIndex);
+    });
+
+    it('should search the engine', async () => {
+      engine.search.mockResolvedValue({ results: [mockIndex], total: 1 });
+
+      const result = await service.search('test', undefined, undefined, undefined, [], 2, 10);
+
+      expect(result).toMatchObject({ results: [mockIndex], total: 1, page: 2, limit: 10 });
+      expect(engine.search).toHaveBeenCalledWith(
+        'test',
+        undefined,
+        undefined,
+        undefined,
+        [],
+        10,
+        10,
+      );
+      expect(repository.search).not.toHaveBeenCalled();
+    });
+
+    it('should return facets from the engine when asked', async () => {
+      const facets = {
+        contentType: [{ value: 'PROGRAM', count: 1 }],
+        category: [{ value: 'Documentary', count: 42 }],
+        language: [],
+        tags: [],
+      };
+      engine.search.mockResolvedValue({ results: [mockIndex], total: 1 });
+      engine.facets.mockResolvedValue(facets);
+
+      const result = await service.search('test', undefined, 'Documentary', 'en', [], 1, 20, true);
+
+      expect(result.facets).toEqual(facets);
+      expect(engine.facets).toHaveBeenCalledWith('test', undefined, 'Documentary', 'en', []);
+    });
+
+    it('should not count facets unless asked', async () => {
+      engine.search.mockResolvedValue({ results: [], total: 0 });
+
+      const result = await service.search('test');
+
+      expect(result).not.toHaveProperty('facets');
+      expect(engine.facets).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to PostgreSQL when the engine fails', async () => {
+      engine.search.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      repository.search.mockResolvedValue({ results: [mockIndex], total: 1 });
+
+      const result = await service.search('test');
+
+      expect(result.results).toEqual([mockIndex]);
+      expect(repository.search).toHaveBeenCalled();
+    });
+
+    it('should delete from the engine and PostgreSQL', async () => {
+      await service.deleteFromIndex(mockIndex.contentId);
+
+      expect(engine.delete).toHaveBeenCalledWith(mockIndex.contentId);
+      expect(repository.delete).toHaveBeenCalledWith(mockIndex.contentId);
+    });
+  });
 });
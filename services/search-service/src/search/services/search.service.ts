@@ -1,17 +1,24 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { SearchRepository } from '../repositories/search.repository';
-import { DynamoDBSearchRepository } from '../repositories/dynamodb-search.repository';
+import {
+  SEARCH_ENGINE,
+  SearchDocument,
+  SearchEngine,
+  SearchFacets,
+  SearchPage,
+} from '../repositories/search-engine.interface';
 import { SearchIndex } from '../entities/search-index.entity';
 import { ContentType } from '@mediamesh/shared';
 import { IndexContentDto } from '../dto/search.dto';
 import axios from 'axios';
-import { CMS_SERVICE_CONFIG, DYNAMODB_CONFIG } from '../../config/env.constants';
+import { CMS_SERVICE_CONFIG } from '../../config/env.constants';
 
 /**
  * Search Service
  * 
  * Business logic layer for search operations.
- * Handles indexing and search functionality.
+ * Handles indexing and search functionality. PostgreSQL is always written;
+ * the configured search engine mirrors it and answers searches.
  */
 @Injectable()
 export class SearchService {
@@ -20,43 +27,29 @@ export class SearchService {
 
   constructor(
     private readonly repository: SearchRepository,
-    private readonly dynamoDBRepository: DynamoDBSearchRepository,
+    @Inject(SEARCH_ENGINE) private readonly engine: SearchEngine,
   ) {}
 
   /**
    * Index content
    * 
-   * Writes to both DynamoDB (primary) and PostgreSQL (fallback)
+   * Writes to PostgreSQL, then to the search engine
    */
   async indexContent(data: IndexContentDto): Promise<SearchIndex> {
     this.logger.log(`Indexing content: ${data.contentId} (${data.contentType})`);
 
-    // Try DynamoDB first
-    let index: SearchIndex | null = null;
-    if (DYNAMODB_CONFIG.ENABLED) {
-      index = await this.dynamoDBRepository.upsert({
-        contentId: data.contentId,
-        contentType: data.contentType,
-        title: data.title,
-        description: data.description,
-        category: data.category,
-        language: data.language,
-        tags: data.tags,
-      });
-    }
+    const document: SearchDocument = {
+      contentId: data.contentId,
+      contentType: data.contentType,
+      title: data.title,
+      description: data.description,
+      category: data.category,
+      language: data.language,
+      tags: data.tags,
+    };
 
-    // Fallback to PostgreSQL if DynamoDB failed or disabled
-    if (!index) {
-      index = await this.repository.upsert({
-        contentId: data.contentId,
-        contentType: data.contentType,
-        title: data.title,
-        description: data.description,
-        category: data.category,
-        language: data.language,
-        tags: data.tags,
-      });
-    }
+    const index = await this.repository.upsert(document);
+    await this.mirror(`index ${data.contentId}`, (engine) => engine.upsert(document));
 
     this.logger.log(`Content indexed: ${data.contentId}`);
     return index;
@@ -65,7 +58,7 @@ export class SearchService {
   /**
    * Update search index
    * 
-   * Updates both DynamoDB and PostgreSQL
+   * Updates PostgreSQL, then the search engine
    */
   async updateIndex(
     contentId: string,
@@ -79,16 +72,7 @@ export class SearchService {
   ): Promise<SearchIndex> {
     this.logger.log(`Updating search index: ${contentId}`);
 
-    // Try DynamoDB first
-    let existing: SearchIndex | null = null;
-    if (DYNAMODB_CONFIG.ENABLED) {
-      existing = await this.dynamoDBRepository.findByContentId(contentId);
-    }
-
-    // Fallback to PostgreSQL
-    if (!existing) {
-      existing = await this.repository.findByContentId(contentId);
-    }
+    const existing = await this.repository.findByContentId(contentId);
 
     if (!existing) {
       throw new Error(`Content not found in index: ${contentId}`);
@@ -104,16 +88,8 @@ export class SearchService {
       tags: data.tags !== undefined ? data.tags : existing.tags,
     };
 
-    // Update DynamoDB
-    let index: SearchIndex | null = null;
-    if (DYNAMODB_CONFIG.ENABLED) {
-      index = await this.dynamoDBRepository.upsert(updateData);
-    }
-
-    // Update PostgreSQL (always, as fallback)
-    if (!index) {
-      index = await this.repository.upsert(updateData);
-    }
+    const index = await this.repository.upsert(updateData);
+    await this.mirror(`update ${contentId}`, (engine) => engine.upsert(updateData));
 
     this.logger.log(`Search index updated: ${contentId}`);
     return index;
@@ -122,17 +98,12 @@ export class SearchService {
   /**
    * Delete from search index
    * 
-   * Deletes from both DynamoDB and PostgreSQL
+   * Deletes from the search engine and PostgreSQL
    */
   async deleteFromIndex(contentId: string): Promise<void> {
     this.logger.log(`Deleting from search index: ${contentId}`);
 
-    // Delete from DynamoDB
-    if (DYNAMODB_CONFIG.ENABLED) {
-      await this.dynamoDBRepository.delete(contentId);
-    }
-
-    // Delete from PostgreSQL
+    await this.mirror(`delete ${contentId}`, (engine) => engine.delete(contentId));
     await this.repository.delete(contentId);
 
     this.logger.log(`Content deleted from index: ${contentId}`);
@@ -141,8 +112,9 @@ export class SearchService {
   /**
    * Search content
    * 
-   * Cache-aside pattern: DynamoDB → PostgreSQL
-   * Note: DynamoDB search is limited - for production, use OpenSearch/Elasticsearch
+   * Asks the search engine, falling back to PostgreSQL when it fails. With
+   * `facets`, also counts the values of each filterable field. Hits on the
+   * first page of a query add to their popularity, which ranks suggestions.
    */
   async search(
     query: string,
@@ -152,45 +124,41 @@ export class SearchService {
     tags?: string[],
     page: number = 1,
     limit: number = 20,
-  ): Promise<{ results: SearchIndex[]; total: number; page: number; limit: number }> {
+    facets: boolean = false,
+  ): Promise<{
+    results: SearchIndex[];
+    total: number;
+    page: number;
+    limit: number;
+    facets?: SearchFacets;
+  }> {
     const skip = (page - 1) * limit;
+    const search = async (engine: SearchEngine) => {
+      const [hits, counts] = await Promise.all([
+        engine.search(query, contentType, category, language, tags, skip, limit),
+        facets ? engine.facets(query, contentType, category, language, tags) : undefined,
+      ]);
+      return counts ? { ...hits, facets: counts } : hits;
+    };
 
-    // Try DynamoDB first (for simple queries)
-    if (DYNAMODB_CONFIG.ENABLED && query && query.length < 50) {
-      // DynamoDB is better for simple queries
-      const dynamoResult = await this.dynamoDBRepository.search(
-        query,
-        contentType,
-        category,
-        language,
-        tags,
-        limit,
-      );
-
-      if (dynamoResult.results.length > 0) {
-        this.logger.debug(`DynamoDB search returned ${dynamoResult.results.length} results`);
-        // Apply pagination
-        const paginated = dynamoResult.results.slice(skip, skip + limit);
-        return {
-          results: paginated,
-          total: dynamoResult.total,
-          page,
-          limit,
-        };
+    let result: SearchPage & { facets?: SearchFacets };
+    try {
+      result = await search(this.engine);
+    } catch (error) {
+      if (this.engine === this.repository) {
+        throw error;
       }
+      this.logger.warn(`Search engine failed, using PostgreSQL: ${error.message || error}`);
+      result = await search(this.repository);
     }
 
-    // Fallback to PostgreSQL (better for complex full-text search)
-    this.logger.debug('Using PostgreSQL for search (fallback or complex query)');
-    const result = await this.repository.search(
-      query,
-      contentType,
-      category,
-      language,
-      tags,
-      skip,
-      limit,
-    );
+    if (page === 1 && query?.trim() && result.results.length > 0) {
+      this.repository
+        .recordHits(result.results.map((hit) => hit.contentId))
+        .catch((error) =>
+          this.logger.warn(`Failed to record search hits: ${error.message || error}`),
+        );
+    }
 
     return {
       ...result,
@@ -202,7 +170,8 @@ export class SearchService {
   /**
    * Reindex all content
    * 
-   * Indexes to both DynamoDB and PostgreSQL
+   * Indexes to PostgreSQL, recomputes the search vector of every row, then
+   * bulk writes to the search engine
    */
   async reindexAll(): Promise<{ indexed: number; errors: number }> {
     if (this.indexingInProgress) {
@@ -225,7 +194,7 @@ export class SearchService {
 
         for (const program of programsResponse.data || []) {
           try {
-            const index = await this.indexContent({
+            const index = await this.repository.upsert({
               contentId: program.id,
               contentType: ContentType.PROGRAM,
               title: program.title,
@@ -254,7 +223,7 @@ export class SearchService {
 
         for (const episode of episodesResponse.data || []) {
           try {
-            const index = await this.indexContent({
+            const index = await this.repository.upsert({
               contentId: episode.id,
               contentType: ContentType.EPISODE,
               title: episode.title,
@@ -275,10 +244,48 @@ export class SearchService {
         errors++;
       }
 
-      // Batch write to DynamoDB if enabled
-      if (DYNAMODB_CONFIG.ENABLED && itemsToBatch.length > 0) {
-        await this.dynamoDBRepository.batchWrite(itemsToBatch);
-        this.logger.log(`Batch wrote ${itemsToBatch.length} items to DynamoDB`);
+      // Fetch all movies from CMS service
+      try {
+        const moviesResponse = await axios.get(`${CMS_SERVICE_CONFIG.BASE_URL}/movies`, {
+          params: { take: 1000 },
+        });
+
+        for (const movie of moviesResponse.data || []) {
+          try {
+            const index = await this.repository.upsert({
+              contentId: movie.id,
+              contentType: ContentType.MOVIE,
+              title: movie.title,
+              description: movie.description,
+              category: undefined,
+              language: undefined,
+              tags: undefined,
+            });
+            itemsToBatch.push(index);
+            indexed++;
+          } catch (error) {
+            this.logger.error(`Failed to index movie ${movie.id}:`, error);
+            errors++;
+          }
+        }
+      } catch (error) {
+        this.logger.error('Failed to fetch movies from CMS service:', error);
+        errors++;
+      }
+
+      // Rows the CMS did not return keep the terms of an older text analysis otherwise
+      try {
+        const refreshed = await this.repository.refreshSearchVectors();
+        this.logger.log(`Recomputed ${refreshed} search vectors`);
+      } catch (error) {
+        this.logger.error('Failed to recompute search vectors:', error);
+        errors++;
+      }
+
+      // Batch write to the search engine
+      if (itemsToBatch.length > 0) {
+        await this.mirror('batch write', (engine) => engine.batchWrite(itemsToBatch));
+        this.logger.log(`Batch wrote ${itemsToBatch.length} items to the search engine`);
       }
 
       this.logger.log(`Reindex completed: ${indexed} indexed, ${errors} errors`);
@@ -308,4 +315,24 @@ export class SearchService {
       indexingInProgress: this.indexingInProgress,
     };
   }
+
+  /**
+   * Apply a write to the search engine unless it is PostgreSQL itself. A
+   * failure is logged rather than thrown: PostgreSQL holds the write, and a
+   * reindex brings the engine back in line.
+   */
+  private async mirror(
+    action: string,
+    write: (engine: SearchEngine) => Promise<unknown>,
+  ): Promise<void> {
+    if (this.engine === this.repository) {
+      return;
+    }
+
+    try {
+      await write(this.engine);
+    } catch (error) {
+      this.logger.warn(`Search engine failed to ${action}: ${error.message || error}`);
+    }
+  }
 }
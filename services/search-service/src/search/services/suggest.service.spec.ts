@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { SuggestService } from './suggest.service';
+import { SearchRepository } from '../repositories/search.repository';
+import { ContentType } from '@mediamesh/shared';
+
+describe('SuggestService', () => {
+  let service: SuggestService;
+  let repository: { completeTitles: jest.Mock; vocabulary: jest.Mock };
+  let cacheManager: { get: jest.Mock; set: jest.Mock };
+
+  const completion = {
+    contentId: '550e8400-e29b-41d4-a716-446655440002',
+    contentType: ContentType.PROGRAM,
+    title: 'The Great Adventure',
+  };
+
+  const vocabulary = [
+    { word: 'the', documents: 90 },
+    { word: 'great', documents: 12 },
+    { word: 'adventure', documents: 8 },
+    { word: 'adventures', documents: 3 },
+    { word: 'treat', documents: 2 },
+    { word: 'مغامرة', documents: 4 },
+  ];
+
+  beforeEach(async () => {
+    repository = {
+      completeTitles: jest.fn().mockResolvedValue([completion]),
+      vocabulary: jest.fn().mockResolvedValue(vocabulary),
+    };
+    cacheManager = {
+      get: jest.fn().mockResolvedValue(undefined),
+      set: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SuggestService,
+        {
+          provide: SearchRepository,
+          useValue: repository,
+        },
+        {
+          provide: CACHE_MANAGER,
+          useValue: cacheManager,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SuggestService>(SuggestService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should complete titles and cache the result', async () => {
+    const result = await service.suggest('Great Adv', ContentType.PROGRAM, 'en', 5);
+
+    expect(result).toEqual({ query: 'Great Adv', completions: [completion], didYouMean: null });
+    expect(repository.completeTitles).toHaveBeenCalledWith(
+      'Great Adv',
+      5,
+      ContentType.PROGRAM,
+      'en',
+    );
+    expect(cacheManager.set).toHaveBeenCalledWith(
+      'suggest:great adv:PROGRAM:en:5',
+      result,
+      expect.any(Number),
+    );
+  });
+
+  it('should return a cached result', async () => {
+    cacheManager.get.mockResolvedValueOnce({
+      query: 'great adv',
+      completions: [completion],
+      didYouMean: null,
+    });
+
+    const result = await service.suggest('GREAT  adv');
+
+    expect(result.query).toBe('GREAT  adv');
+    expect(result.completions).toEqual([completion]);
+    expect(cacheManager.get).toHaveBeenCalledWith('suggest:great adv:all:all:10');
+    expect(repository.completeTitles).not.toHaveBeenCalled();
+  });
+
+  it('should correct misspelled words to the most common closest word', async () => {
+    const result = await service.suggest('the graet advnture');
+
+    expect(result.didYouMean).toBe('the great adventure');
+  });
+
+  it('should keep an unfinished last word that starts an indexed one', async () => {
+    const result = await service.suggest('great adventu');
+
+    expect(result.didYouMean).toBeNull();
+  });
+
+  it('should leave words too far from every indexed word', async () => {
+    const result = await service.suggest('great xylophone');
+
+    expect(result.didYouMean).toBeNull();
+  });
+
+  it('should correct Arabic words', async () => {
+    const result = await service.suggest('مغامرت جديدة');
+
+    expect(result.didYouMean).toBe('مغامرة جديدة');
+  });
+
+  it('should not correct words differing only by diacritics or letter forms', async () => {
+    await expect(service.suggest('مُغامَره')).resolves.toMatchObject({ didYouMean: null });
+    await expect(service.suggest('Gréat')).resolves.toMatchObject({ didYouMean: null });
+  });
+
+  it('should complete the corrected query when the typed one completes nothing', async () => {
+    repository.completeTitles.mockResolvedValueOnce([]);
+
+    const result = await service.suggest('graet adventure');
+
+    expect(repository.completeTitles).toHaveBeenLastCalledWith(
+      'great adventure',
+      10,
+      undefined,
+      undefined,
+    );
+    expect(result.completions).toEqual([completion]);
+  });
+
+  it('should use the cached vocabulary', async () => {
+    cacheManager.get.mockImplementation((key: string) =>
+      Promise.resolve(key === 'suggest:vocabulary' ? vocabulary : undefined),
+    );
+
+    await service.suggest('graet');
+
+    expect(repository.vocabulary).not.toHaveBeenCalled();
+  });
+
+  it('should not look anything up for a query without words', async () => {
+    const result = await service.suggest(' ? ');
+
+    expect(result).toEqual({ query: ' ? ', completions: [], didYouMean: null });
+    expect(repository.completeTitles).not.toHaveBeenCalled();
+    expect(cacheManager.get).not.toHaveBeenCalled();
+  });
+});
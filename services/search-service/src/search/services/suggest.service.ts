@@ -0,0 +1,211 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { CACHE_MANAGER, Cache } from '@nestjs/cache-manager';
+import { ContentType } from '@mediamesh/shared';
+import {
+  SearchRepository,
+  TitleCompletion,
+  VocabularyWord,
+} from '../repositories/search.repository';
+import { REDIS_CONFIG, SEARCH_CONFIG } from '../../config/env.constants';
+import { normalize } from '../analysis/text-analyzer';
+
+/**
+ * Cache key generators
+ */
+const CacheKeys = {
+  suggest: (query: string, contentType: string, language: string, limit: number) =>
+    `suggest:${query}:${contentType}:${language}:${limit}`,
+  vocabulary: () => 'suggest:vocabulary',
+};
+
+// Words shorter than this are left alone: too many words are one edit away
+const MIN_CORRECTED_LENGTH = 3;
+
+// A vocabulary word with the form typed words are compared against
+interface KnownWord {
+  word: string;
+  normalized: string;
+}
+
+export interface SuggestResult {
+  query: string;
+  completions: TitleCompletion[];
+  didYouMean: string | null;
+}
+
+function toWords(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Edits allowed when correcting a word: one for short words, two otherwise
+ */
+function maxEdits(word: string): number {
+  return [...word].length <= 4 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and
+ * swaps of adjacent characters. Stops early with max + 1 once it is exceeded.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  const source = [...a];
+  const target = [...b];
+  if (Math.abs(source.length - target.length) > max) {
+    return max + 1;
+  }
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: target.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && source[i - 1] === target[j - 2] && source[i - 2] === target[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      current.push(distance);
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[target.length], max + 1);
+}
+
+/**
+ * Suggest Service
+ *
+ * Completions and spelling corrections for a query being typed, cached in
+ * Redis. Both come from PostgreSQL, whatever the search engine.
+ */
+@Injectable()
+export class SuggestService {
+  private readonly logger = new Logger(SuggestService.name);
+
+  constructor(
+    private readonly repository: SearchRepository,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+  ) {}
+
+  /**
+   * Titles completing the query, and the query with misspelled words
+   * corrected to indexed ones. When nothing completes the query as typed,
+   * completes the corrected one.
+   */
+  async suggest(
+    query: string,
+    contentType?: ContentType,
+    language?: string,
+    limit: number = SEARCH_CONFIG.SUGGEST_LIMIT,
+  ): Promise<SuggestResult> {
+    const words = toWords(query);
+    if (words.length === 0) {
+      return { query, completions: [], didYouMean: null };
+    }
+
+    const cacheKey = CacheKeys.suggest(
+      words.join(' '),
+      contentType || 'all',
+      language || 'all',
+      limit,
+    );
+
+    const cached = await this.cacheManager.get<SuggestResult>(cacheKey);
+    if (cached) {
+      this.logger.debug(`Cache hit for suggest: ${query}`);
+      return { ...cached, query };
+    }
+
+    let completions = await this.repository.completeTitles(query, limit, contentType, language);
+    const didYouMean = await this.correct(words);
+    if (completions.length === 0 && didYouMean) {
+      completions = await this.repository.completeTitles(didYouMean, limit, contentType, language);
+    }
+
+    const result = { query, completions, didYouMean };
+    await this.cacheManager.set(cacheKey, result, REDIS_CONFIG.TTL.SUGGEST * 1000);
+    return result;
+  }
+
+  /**
+   * Replace each word missing from the vocabulary with the closest indexed
+   * word, preferring the more common one on a tie. Words are compared
+   * normalized, so a missing diacritic or accent is not a misspelling. The
+   * last word may be unfinished, so it stays as typed while some indexed
+   * word starts with it. Null when no word changed.
+   */
+  private async correct(words: string[]): Promise<string | null> {
+    const vocabulary: KnownWord[] = (await this.getVocabulary()).map((entry) => ({
+      word: entry.word,
+      normalized: normalize(entry.word),
+    }));
+    const known = new Set(vocabulary.map((entry) => entry.normalized));
+
+    let changed = false;
+    const corrected = words.map((word, index) => {
+      const normalized = normalize(word);
+      if ([...normalized].length < MIN_CORRECTED_LENGTH || known.has(normalized)) {
+        return word;
+      }
+      const last = index === words.length - 1;
+      if (last && vocabulary.some((entry) => entry.normalized.startsWith(normalized))) {
+        return word;
+      }
+
+      const replacement = this.closest(normalized, vocabulary);
+      if (replacement) {
+        changed = true;
+        return replacement;
+      }
+      return word;
+    });
+
+    return changed ? corrected.join(' ') : null;
+  }
+
+  /**
+   * Vocabulary is ordered by document count, so the first word at the
+   * smallest distance is the most common one
+   */
+  private closest(normalized: string, vocabulary: KnownWord[]): string | null {
+    let best: string | null = null;
+    let bestDistance = maxEdits(normalized) + 1;
+
+    for (const entry of vocabulary) {
+      const distance = editDistance(normalized, entry.normalized, bestDistance - 1);
+      if (distance < bestDistance) {
+        best = entry.word;
+        bestDistance = distance;
+        if (distance === 1) {
+          break;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private async getVocabulary(): Promise<VocabularyWord[]> {
+    const cacheKey = CacheKeys.vocabulary();
+    const cached = await this.cacheManager.get<VocabularyWord[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const vocabulary = await this.repository.vocabulary(SEARCH_CONFIG.VOCABULARY_SIZE);
+    await this.cacheManager.set(cacheKey, vocabulary, REDIS_CONFIG.TTL.VOCABULARY * 1000);
+    this.logger.debug(`Loaded vocabulary of ${vocabulary.length} words`);
+    return vocabulary;
+  }
+}
@@ -14,6 +14,11 @@ export enum UserRoles {
    */
   EDITOR = 'EDITOR',
 
+  /**
+   * Reviewer - Content management plus editorial approval
+   */
+  REVIEWER = 'REVIEWER',
+
   /**
    * User - Standard user access
    */
@@ -26,6 +31,7 @@ export enum UserRoles {
 export const UserRoleNames: Record<UserRoles, string> = {
   [UserRoles.ADMIN]: 'Administrator',
   [UserRoles.EDITOR]: 'Editor',
+  [UserRoles.REVIEWER]: 'Reviewer',
   [UserRoles.USER]: 'User',
 };
 
@@ -33,7 +39,8 @@ export const UserRoleNames: Record<UserRoles, string> = {
  * User role hierarchy (higher number = more permissions)
  */
 export const UserRoleHierarchy: Record<UserRoles, number> = {
-  [UserRoles.ADMIN]: 3,
+  [UserRoles.ADMIN]: 4,
+  [UserRoles.REVIEWER]: 3,
   [UserRoles.EDITOR]: 2,
   [UserRoles.USER]: 1,
 };
@@ -60,6 +60,7 @@ export class TokenResponseDto {
 export enum UserRole {
   ADMIN = 'ADMIN',
   EDITOR = 'EDITOR',
+  REVIEWER = 'REVIEWER',
   USER = 'USER',
 }
 
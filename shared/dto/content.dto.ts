@@ -20,6 +20,10 @@ import { Type } from 'class-transformer';
  */
 export enum ContentStatus {
   DRAFT = 'DRAFT',
+  IN_REVIEW = 'IN_REVIEW',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  SCHEDULED = 'SCHEDULED',
   PUBLISHED = 'PUBLISHED',
   ARCHIVED = 'ARCHIVED',
 }
@@ -89,6 +93,23 @@ export class ProgramDto {
   @MaxLength(10)
   rating?: string; // e.g., "PG-13", "R"
 
+  @IsOptional()
+  @IsDateString()
+  publishAt?: string; // Scheduled publish time
+
+  @IsOptional()
+  @IsDateString()
+  unpublishAt?: string; // Scheduled unpublish time (embargo end / takedown)
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  externalId?: string; // ID in the source catalog (bulk import)
+
+  @IsInt()
+  @Min(1)
+  version: number; // Optimistic concurrency token, also sent as ETag
+
   @IsDateString()
   createdAt: string;
 
@@ -120,9 +141,14 @@ export class EpisodeDto {
   @Min(1)
   episodeNumber: number;
 
+  @IsOptional()
+  @IsUUID()
+  seasonId?: string;
+
+  @IsOptional()
   @IsInt()
   @Min(1)
-  seasonNumber: number;
+  seasonNumber?: number; // Absent for episodes not placed in a season
 
   @IsOptional()
   @IsInt()
@@ -140,6 +166,77 @@ export class EpisodeDto {
   @IsEnum(ContentStatus)
   status: ContentStatus;
 
+  @IsOptional()
+  @IsDateString()
+  publishAt?: string; // Scheduled publish time
+
+  @IsOptional()
+  @IsDateString()
+  unpublishAt?: string; // Scheduled unpublish time (embargo end / takedown)
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  externalId?: string; // ID in the source catalog (bulk import)
+
+  @IsInt()
+  @Min(1)
+  version: number; // Optimistic concurrency token, also sent as ETag
+
+  @IsDateString()
+  createdAt: string;
+
+  @IsDateString()
+  updatedAt: string;
+}
+
+/**
+ * Content Item DTO
+ *
+ * Standalone content without episodes (movies).
+ */
+export class ContentItemDto {
+  @IsUUID()
+  id: string;
+
+  @IsEnum(ContentType)
+  contentType: ContentType;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @IsEnum(ContentStatus)
+  status: ContentStatus;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  duration?: number; // in seconds
+
+  @IsOptional()
+  @IsDateString()
+  releaseDate?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  externalId?: string; // ID in the source catalog (bulk import)
+
+  @IsInt()
+  @Min(1)
+  version: number; // Optimistic concurrency token, also sent as ETag
+
+  @IsOptional()
+  @IsDateString()
+  publishedAt?: string;
+
   @IsDateString()
   createdAt: string;
 
@@ -199,6 +296,11 @@ export class CreateProgramDto {
   @IsString()
   @MaxLength(10)
   rating?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  externalId?: string; // ID in the source catalog (e.g. ingest source), unique
 }
 
 /**
@@ -255,4 +357,8 @@ export class UpdateProgramDto {
   @IsString()
   @MaxLength(10)
   rating?: string;
+
+  @IsOptional()
+  @IsUUID()
+  metadataId?: string; // Metadata record in metadata-service
 }
@@ -1,5 +1,5 @@
 import { BaseEvent, EventMetadata, ContentEventType } from './event-types';
-import { ProgramDto } from '../dto';
+import { ContentItemDto, ProgramDto } from '../dto';
 
 /**
  * Content Created Event
@@ -12,8 +12,11 @@ export interface ContentCreatedEvent extends BaseEvent {
     contentId: string;
     contentType: string;
     title: string;
+    status: string;
     createdBy: string;
+    programId?: string; // For episodes and seasons
     program?: ProgramDto;
+    item?: ContentItemDto; // For standalone content (movies)
   };
 }
 
@@ -28,9 +31,13 @@ export interface ContentUpdatedEvent extends BaseEvent {
     contentId: string;
     contentType: string;
     title: string;
+    status: string;
+    deletedAt: string | null; // Set while the content is in the trash
     updatedBy: string;
     changes: Record<string, { old: any; new: any }>;
+    programId?: string; // For episodes and seasons
     program?: Partial<ProgramDto>;
+    item?: Partial<ContentItemDto>; // For standalone content (movies)
   };
 }
 
@@ -47,7 +54,26 @@ export interface ContentPublishedEvent extends BaseEvent {
     title: string;
     publishedBy: string;
     publishedAt: string;
+    programId?: string; // For episodes
     program?: ProgramDto;
+    item?: ContentItemDto; // For standalone content (movies)
+  };
+}
+
+/**
+ * Content Unpublished Event
+ */
+export interface ContentUnpublishedEvent extends BaseEvent {
+  metadata: EventMetadata & {
+    eventType: ContentEventType.CONTENT_UNPUBLISHED;
+  };
+  payload: {
+    contentId: string;
+    contentType: string;
+    title: string;
+    unpublishedBy: string;
+    unpublishedAt: string;
+    programId?: string; // For episodes
   };
 }
 
@@ -64,6 +90,7 @@ export interface ContentDeletedEvent extends BaseEvent {
     title: string;
     deletedBy: string;
     deletedAt: string;
+    programId?: string; // For episodes
   };
 }
 
@@ -80,6 +107,7 @@ export interface ContentArchivedEvent extends BaseEvent {
     title: string;
     archivedBy: string;
     archivedAt: string;
+    programId?: string; // For episodes
   };
 }
 
@@ -44,8 +44,10 @@ export const ContentCreatedEventSchema = {
         contentId: { type: 'string', format: 'uuid' },
         contentType: { type: 'string' },
         title: { type: 'string', minLength: 1, maxLength: 200 },
+        status: { type: 'string' },
         createdBy: { type: 'string', format: 'uuid' },
         program: { type: 'object' },
+        item: { type: 'object' },
       },
     },
   },
@@ -110,7 +112,7 @@ export const UserCreatedEventSchema = {
         email: { type: 'string', format: 'email' },
         firstName: { type: 'string', minLength: 1, maxLength: 50 },
         lastName: { type: 'string', minLength: 1, maxLength: 50 },
-        role: { type: 'string', enum: ['ADMIN', 'EDITOR', 'USER'] },
+        role: { type: 'string', enum: ['ADMIN', 'EDITOR', 'REVIEWER', 'USER'] },
         createdBy: { type: 'string', format: 'uuid' },
         user: { type: 'object' },
       },
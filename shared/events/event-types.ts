@@ -9,6 +9,7 @@ export enum ContentEventType {
   CONTENT_CREATED = 'content.created',
   CONTENT_UPDATED = 'content.updated',
   CONTENT_PUBLISHED = 'content.published',
+  CONTENT_UNPUBLISHED = 'content.unpublished',
   CONTENT_DELETED = 'content.deleted',
   CONTENT_ARCHIVED = 'content.archived',
   CONTENT_METADATA_UPDATED = 'content.metadata.updated',
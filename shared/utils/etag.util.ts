@@ -0,0 +1,39 @@
+/**
+ * ETag utilities for optimistic concurrency control
+ */
+
+/**
+ * Format a version number as a strong ETag, e.g. 3 -> "3"
+ */
+export function toETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Parse an ETag back to a version number
+ *
+ * Accepts weak (W/"3") and unquoted (3) forms; returns undefined when not a version.
+ */
+export function parseETag(etag: string): number | undefined {
+  const value = etag
+    .trim()
+    .replace(/^W\//, '')
+    .replace(/^"(.*)"$/, '$1');
+  if (!/^\d+$/.test(value)) {
+    return undefined;
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Check an If-Match header value against the current version
+ *
+ * Supports "*" and comma-separated lists of ETags. If-Match uses strong comparison
+ * (RFC 9110), so weak ETags never match.
+ */
+export function matchesETag(ifMatch: string, version: number): boolean {
+  const candidates = ifMatch.split(',').map((etag) => etag.trim());
+  return candidates.some(
+    (etag) => etag === '*' || (!etag.startsWith('W/') && parseETag(etag) === version),
+  );
+}
@@ -14,3 +14,6 @@ export * from './string.util';
 
 // Exception utilities
 export * from './exception.util';
+
+// ETag utilities
+export * from './etag.util';